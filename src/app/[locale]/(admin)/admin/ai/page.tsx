@@ -0,0 +1,229 @@
+import DataCards from "@/components/blocks/data-cards";
+import Header from "@/components/dashboard/header";
+import TableBlock from "@/components/blocks/table";
+import { Badge } from "@/components/ui/badge";
+import { Card } from "@/components/ui/card";
+import { getAIUsageReport, LatencyPercentiles } from "@/services/aiUsageReport";
+import { DataCard } from "@/types/blocks/base";
+import { TableColumn } from "@/types/blocks/table";
+import moment from "moment";
+
+const formatCost = (cost: number | null) =>
+  cost === null ? "-" : `$${cost.toFixed(cost < 1 ? 4 : 2)}`;
+
+const formatPercent = (rate: number) => `${(rate * 100).toFixed(1)}%`;
+
+const formatLatency = (latency: LatencyPercentiles | null) =>
+  latency ? `${latency.p50} / ${latency.p90} / ${latency.p99} ms` : "-";
+
+export default async function ({
+  searchParams,
+}: {
+  searchParams: Promise<{ days?: string }>;
+}) {
+  const { days } = await searchParams;
+  const period = [7, 30, 90].includes(Number(days)) ? Number(days) : 30;
+  const report = await getAIUsageReport(period);
+
+  const dataCards: DataCard[] = [
+    {
+      title: "AI Requests",
+      label: `${period}d`,
+      value: report.requests.toString(),
+      description: "Answers and failed calls in conversations",
+    },
+    {
+      title: "Estimated Spend",
+      label: `${period}d`,
+      value: formatCost(report.estimatedCost),
+      description: `${report.totalTokens.toLocaleString()} tokens at list prices`,
+    },
+    {
+      title: "Error Rate",
+      label: `${period}d`,
+      value: formatPercent(report.errorRate),
+      description: `${report.errors} failed requests`,
+    },
+    {
+      title: "Latency p50 / p90 / p99",
+      label: `${period}d`,
+      value: report.latency ? `${report.latency.p50} ms` : "-",
+      description: formatLatency(report.latency),
+    },
+  ];
+
+  const modelColumns: TableColumn[] = [
+    { name: "provider", title: "Provider" },
+    { name: "model", title: "Model" },
+    { name: "requests", title: "Requests" },
+    {
+      name: "totalTokens",
+      title: "Tokens (in / out)",
+      callback: (row) =>
+        `${row.totalTokens.toLocaleString()} (${row.inputTokens.toLocaleString()} / ${row.outputTokens.toLocaleString()})`,
+    },
+    {
+      name: "estimatedCost",
+      title: "Estimated Cost",
+      callback: (row) => formatCost(row.estimatedCost),
+    },
+    {
+      name: "latency",
+      title: "Latency p50 / p90 / p99",
+      callback: (row) => formatLatency(row.latency),
+    },
+  ];
+
+  const providerColumns: TableColumn[] = [
+    { name: "provider", title: "Provider" },
+    { name: "requests", title: "Requests" },
+    { name: "errors", title: "Errors" },
+    {
+      name: "errorRate",
+      title: "Error Rate",
+      callback: (row) => formatPercent(row.errorRate),
+    },
+    {
+      name: "codes",
+      title: "Error Codes",
+      callback: (row) =>
+        row.codes.length > 0
+          ? row.codes.map((item: { code: string; count: number }) => `${item.code} (${item.count})`).join(", ")
+          : "-",
+    },
+  ];
+
+  const userColumns: TableColumn[] = [
+    {
+      name: "email",
+      title: "User",
+      callback: (row) => row.email || row.user_uuid,
+    },
+    { name: "nickname", title: "Name" },
+    { name: "requests", title: "Chat Requests" },
+    {
+      name: "totalTokens",
+      title: "Chat Tokens",
+      callback: (row) => row.totalTokens.toLocaleString(),
+    },
+    { name: "credits", title: "Credits Spent" },
+    {
+      name: "cost",
+      title: "Cost",
+      callback: (row) => formatCost(row.cost),
+    },
+  ];
+
+  const breakerColumns: TableColumn[] = [
+    { name: "provider", title: "Provider" },
+    {
+      name: "state",
+      title: "State",
+      callback: (row) => (
+        <Badge variant={row.state === "closed" ? "outline" : "destructive"}>
+          {row.state}
+        </Badge>
+      ),
+    },
+    { name: "failureCount", title: "Failures" },
+    {
+      name: "lastFailureTime",
+      title: "Last Failure",
+      callback: (row) =>
+        row.lastFailureTime
+          ? moment(row.lastFailureTime).format("YYYY-MM-DD HH:mm:ss")
+          : "-",
+    },
+    {
+      name: "nextAttemptTime",
+      title: "Next Attempt",
+      callback: (row) =>
+        row.state === "open" && row.nextAttemptTime
+          ? moment(row.nextAttemptTime).format("YYYY-MM-DD HH:mm:ss")
+          : "-",
+    },
+  ];
+
+  const sections = [
+    {
+      title: "Spend by Model",
+      description: "Estimated from recorded tokens and each model's list price",
+      columns: modelColumns,
+      data: report.models,
+    },
+    {
+      title: "Errors by Provider",
+      description: "Failed requests are recorded with their error code",
+      columns: providerColumns,
+      data: report.providers,
+    },
+    {
+      title: "Top Users by Cost",
+      description: "Credits charged for AI features, including overviews and book indexing",
+      columns: userColumns,
+      data: report.topUsers,
+    },
+  ];
+
+  return (
+    <div className="flex flex-col gap-4">
+      <Header />
+      <div className="flex flex-1 flex-col">
+        <div className="@container/main flex flex-1 flex-col gap-2">
+          <div className="flex flex-col gap-4 py-4 md:gap-6 md:py-6">
+            <div className="flex items-center justify-between px-4 lg:px-6">
+              <h1 className="text-2xl font-medium">AI Usage</h1>
+              <div className="flex gap-2 text-sm">
+                {[7, 30, 90].map((option) => (
+                  <a
+                    key={option}
+                    href={`?days=${option}`}
+                    className={
+                      option === period
+                        ? "font-medium"
+                        : "text-muted-foreground hover:text-foreground"
+                    }
+                  >
+                    {option}d
+                  </a>
+                ))}
+              </div>
+            </div>
+            <DataCards dataCards={dataCards} />
+            {sections.map((section) => (
+              <div key={section.title} className="px-4 lg:px-6">
+                <h2 className="text-lg font-medium">{section.title}</h2>
+                <p className="text-sm text-muted-foreground mb-4">
+                  {section.description}
+                </p>
+                <Card className="overflow-x-auto px-6">
+                  <TableBlock columns={section.columns} data={section.data} />
+                </Card>
+              </div>
+            ))}
+            <div className="px-4 lg:px-6">
+              <h2 className="text-lg font-medium">Circuit Breakers</h2>
+              <p className="text-sm text-muted-foreground mb-4">
+                State on this server instance
+                {report.serviceStats &&
+                  `, ${report.serviceStats.totalRequests} requests since it started`}
+              </p>
+              <Card className="overflow-x-auto px-6">
+                {report.circuitBreakers ? (
+                  <TableBlock
+                    columns={breakerColumns}
+                    data={report.circuitBreakers}
+                  />
+                ) : (
+                  <p className="py-6 text-sm text-muted-foreground">
+                    The AI service is not available on this instance.
+                  </p>
+                )}
+              </Card>
+            </div>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
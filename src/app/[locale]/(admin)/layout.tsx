@@ -53,6 +53,11 @@ export default async function AdminLayout({
           icon: "RiOrderPlayLine",
           url: "/admin/orders",
         },
+        {
+          title: "AI Usage",
+          icon: "RiRobot2Line",
+          url: "/admin/ai",
+        },
         {
           title: "CMS",
           icon: "RiArticleLine",
@@ -2,6 +2,7 @@ import { Suspense } from "react";
 import { getTranslations } from "next-intl/server";
 import { LibraryDashboard } from "@/components/books/library-dashboard";
 import { BookSearchWrapper } from "@/components/books/book-search-wrapper";
+import { BookListsManager } from "@/components/books/book-lists";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Separator } from "@/components/ui/separator";
@@ -87,19 +88,7 @@ export default async function LibraryPage({
         </TabsContent>
 
         <TabsContent value="lists" className="space-y-6">
-          <Card>
-            <CardHeader>
-              <CardTitle>{libraryPage.lists_tab.title}</CardTitle>
-              <CardDescription>
-                {libraryPage.lists_tab.description}
-              </CardDescription>
-            </CardHeader>
-            <CardContent>
-              <div className="text-center py-8 text-muted-foreground">
-                <p>{libraryPage.lists_tab.coming_soon}</p>
-              </div>
-            </CardContent>
-          </Card>
+          <BookListsManager />
         </TabsContent>
       </Tabs>
     </div>
@@ -0,0 +1,76 @@
+import { notFound } from "next/navigation";
+import { auth } from "@/auth";
+import { BooksService } from "@/services/books";
+import { PublicBookListView } from "@/components/books/public-book-list";
+
+export async function generateMetadata({
+  params,
+}: {
+  params: Promise<{ locale: string; uuid: string }>;
+}) {
+  const { locale, uuid } = await params;
+  const list = await BooksService.getPublicBookList(uuid);
+
+  if (!list) {
+    return { title: "List Not Found" };
+  }
+
+  let canonicalUrl = `${process.env.NEXT_PUBLIC_WEB_URL}/lists/${uuid}`;
+
+  if (locale !== "en") {
+    canonicalUrl = `${process.env.NEXT_PUBLIC_WEB_URL}/${locale}/lists/${uuid}`;
+  }
+
+  const owner = list.owner.nickname || "a reader";
+  const description = list.description ||
+    `${list.book_count} books curated by ${owner} on BooksOfLife`;
+  const image = list.cover_url || list.items.find(item => item.book.cover_url)?.book.cover_url;
+
+  return {
+    title: `${list.name} - BooksOfLife`,
+    description,
+    alternates: {
+      canonical: canonicalUrl,
+    },
+    openGraph: {
+      type: "website",
+      url: canonicalUrl,
+      title: list.name,
+      description,
+      siteName: "BooksOfLife",
+      ...(image ? { images: [{ url: image, alt: list.name }] } : {}),
+    },
+    twitter: {
+      card: image ? "summary_large_image" : "summary",
+      title: list.name,
+      description,
+      ...(image ? { images: [image] } : {}),
+    },
+  };
+}
+
+export default async function PublicListPage({
+  params,
+}: {
+  params: Promise<{ locale: string; uuid: string }>;
+}) {
+  const { uuid } = await params;
+  const session = await auth();
+  const userId = session?.user?.id;
+
+  const list = await BooksService.getPublicBookList(uuid, userId);
+
+  if (!list) {
+    notFound();
+  }
+
+  return (
+    <div className="container py-6 md:py-8">
+      <PublicBookListView
+        list={list}
+        isSignedIn={!!userId}
+        isOwner={list.is_owner}
+      />
+    </div>
+  );
+}
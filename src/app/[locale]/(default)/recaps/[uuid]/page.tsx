@@ -0,0 +1,74 @@
+import { notFound } from "next/navigation";
+import { auth } from "@/auth";
+import { ReadingRecapService } from "@/services/readingRecap";
+import { YearRecapView } from "@/components/books/year-recap";
+
+export async function generateMetadata({
+  params,
+}: {
+  params: Promise<{ locale: string; uuid: string }>;
+}) {
+  const { locale, uuid } = await params;
+  const session = await auth();
+  const recap = await ReadingRecapService.getSharedRecap(uuid, session?.user?.id);
+
+  if (!recap) {
+    return { title: "Recap Not Found" };
+  }
+
+  let canonicalUrl = `${process.env.NEXT_PUBLIC_WEB_URL}/recaps/${uuid}`;
+
+  if (locale !== "en") {
+    canonicalUrl = `${process.env.NEXT_PUBLIC_WEB_URL}/${locale}/recaps/${uuid}`;
+  }
+
+  const owner = recap.owner.nickname || "A reader";
+  const title = `${owner}'s ${recap.year} in Books`;
+  const description =
+    `${recap.stats.books_finished} books and ${Math.max(recap.stats.pages_read, recap.stats.pages_finished)} pages read in ${recap.year} on BooksOfLife`;
+  const image = `${process.env.NEXT_PUBLIC_WEB_URL}/api/recaps/${uuid}/image`;
+
+  return {
+    title: `${title} - BooksOfLife`,
+    description,
+    alternates: {
+      canonical: canonicalUrl,
+    },
+    openGraph: {
+      type: "website",
+      url: canonicalUrl,
+      title,
+      description,
+      siteName: "BooksOfLife",
+      images: [{ url: image, width: 1200, height: 630, alt: title }],
+    },
+    twitter: {
+      card: "summary_large_image",
+      title,
+      description,
+      images: [image],
+    },
+  };
+}
+
+export default async function ReadingRecapPage({
+  params,
+}: {
+  params: Promise<{ locale: string; uuid: string }>;
+}) {
+  const { uuid } = await params;
+  const session = await auth();
+  const userId = session?.user?.id;
+
+  const recap = await ReadingRecapService.getSharedRecap(uuid, userId);
+
+  if (!recap) {
+    notFound();
+  }
+
+  return (
+    <div className="container py-6 md:py-8">
+      <YearRecapView recap={recap} isOwner={recap.is_owner} />
+    </div>
+  );
+}
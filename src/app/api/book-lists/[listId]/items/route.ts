@@ -0,0 +1,151 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@/auth";
+import { BooksService } from "@/services/books";
+import { z } from "zod";
+
+// Schema for adding a book to a list
+const addItemSchema = z.object({
+  book_uuid: z.string().min(1, "Book is required")
+});
+
+// Schema for moving books to another list
+const moveItemsSchema = z.object({
+  book_uuids: z.array(z.string().min(1)).min(1).max(500),
+  target_list_uuid: z.string().min(1, "Target list is required")
+});
+
+// Schema for persisting a drag-and-drop order
+const reorderItemsSchema = z.object({
+  book_uuids: z.array(z.string().min(1)).max(5000)
+});
+
+function handleListError(error: unknown, fallback: string) {
+  if (error instanceof z.ZodError) {
+    return NextResponse.json(
+      { error: "Validation failed", details: error.errors },
+      { status: 400 }
+    );
+  }
+
+  if (error instanceof Error) {
+    if (["List not found", "Book not found", "Book not in list"].includes(error.message)) {
+      return NextResponse.json({ error: error.message }, { status: 404 });
+    }
+    if (error.message === "Book already in list") {
+      return NextResponse.json({ error: error.message }, { status: 409 });
+    }
+    if (error.message === "List is managed automatically") {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+  }
+
+  return NextResponse.json({ error: fallback }, { status: 500 });
+}
+
+// POST /api/book-lists/[listId]/items - Add a book to the list
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ listId: string }> }
+) {
+  try {
+    const { listId } = await params;
+    const session = await auth();
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const body = await request.json();
+    const validatedData = addItemSchema.parse(body);
+
+    const item = await BooksService.addBookToList(session.user.id, listId, validatedData.book_uuid);
+
+    return NextResponse.json({ item }, { status: 201 });
+  } catch (error) {
+    console.error("Error adding book to list:", error);
+    return handleListError(error, "Failed to add book to list");
+  }
+}
+
+// DELETE /api/book-lists/[listId]/items?book_uuid=... - Remove a book from the list
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ listId: string }> }
+) {
+  try {
+    const { listId } = await params;
+    const session = await auth();
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { searchParams } = new URL(request.url);
+    const bookUuid = searchParams.get("book_uuid");
+    if (!bookUuid) {
+      return NextResponse.json({ error: "book_uuid is required" }, { status: 400 });
+    }
+
+    await BooksService.removeBookFromList(session.user.id, listId, bookUuid);
+
+    return NextResponse.json({ message: "Book removed from list" });
+  } catch (error) {
+    console.error("Error removing book from list:", error);
+    return handleListError(error, "Failed to remove book from list");
+  }
+}
+
+// PATCH /api/book-lists/[listId]/items - Move books to another list
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ listId: string }> }
+) {
+  try {
+    const { listId } = await params;
+    const session = await auth();
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const body = await request.json();
+    const validatedData = moveItemsSchema.parse(body);
+
+    const moved = await BooksService.moveBooksToList(
+      session.user.id,
+      listId,
+      validatedData.target_list_uuid,
+      validatedData.book_uuids
+    );
+
+    return NextResponse.json({ moved });
+  } catch (error) {
+    console.error("Error moving books between lists:", error);
+    return handleListError(error, "Failed to move books");
+  }
+}
+
+// PUT /api/book-lists/[listId]/items - Save the order of books in the list
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ listId: string }> }
+) {
+  try {
+    const { listId } = await params;
+    const session = await auth();
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const body = await request.json();
+    const validatedData = reorderItemsSchema.parse(body);
+
+    await BooksService.reorderListItems(session.user.id, listId, validatedData.book_uuids);
+
+    return NextResponse.json({ message: "List order saved" });
+  } catch (error) {
+    console.error("Error reordering list items:", error);
+    return handleListError(error, "Failed to save list order");
+  }
+}
@@ -0,0 +1,115 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@/auth";
+import { BooksService } from "@/services/books";
+import { z } from "zod";
+
+// Schema for book list updates
+const updateBookListSchema = z.object({
+  name: z.string().min(1, "Name is required").max(255).optional(),
+  description: z.string().optional(),
+  is_public: z.boolean().optional(),
+  sort_order: z.number().int().optional()
+});
+
+// GET /api/book-lists/[listId] - Get a list with its books
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ listId: string }> }
+) {
+  try {
+    const { listId } = await params;
+    const session = await auth();
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const bookList = await BooksService.getBookList(session.user.id, listId);
+    if (!bookList) {
+      return NextResponse.json({ error: "List not found" }, { status: 404 });
+    }
+
+    return NextResponse.json({ bookList });
+  } catch (error) {
+    console.error("Error fetching book list:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch book list" },
+      { status: 500 }
+    );
+  }
+}
+
+// PUT /api/book-lists/[listId] - Update list details
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ listId: string }> }
+) {
+  try {
+    const { listId } = await params;
+    const session = await auth();
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const body = await request.json();
+    const validatedData = updateBookListSchema.parse(body);
+
+    const bookList = await BooksService.updateBookList(session.user.id, listId, validatedData);
+
+    return NextResponse.json({ bookList });
+  } catch (error) {
+    console.error("Error updating book list:", error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: "Validation failed", details: error.errors },
+        { status: 400 }
+      );
+    }
+
+    if (error instanceof Error && error.message === "List not found") {
+      return NextResponse.json({ error: error.message }, { status: 404 });
+    }
+
+    return NextResponse.json(
+      { error: "Failed to update book list" },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE /api/book-lists/[listId] - Delete a list
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ listId: string }> }
+) {
+  try {
+    const { listId } = await params;
+    const session = await auth();
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    await BooksService.deleteBookList(session.user.id, listId);
+
+    return NextResponse.json({ message: "List deleted successfully" });
+  } catch (error) {
+    console.error("Error deleting book list:", error);
+
+    if (error instanceof Error) {
+      if (error.message === "List not found") {
+        return NextResponse.json({ error: error.message }, { status: 404 });
+      }
+      if (error.message === "Cannot delete default list") {
+        return NextResponse.json({ error: error.message }, { status: 400 });
+      }
+    }
+
+    return NextResponse.json(
+      { error: "Failed to delete book list" },
+      { status: 500 }
+    );
+  }
+}
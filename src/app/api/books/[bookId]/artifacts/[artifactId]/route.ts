@@ -0,0 +1,64 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@/auth";
+import { BooksService } from "@/services/books";
+import { BookArtifactService } from "@/services/bookArtifacts";
+import { z } from "zod";
+
+// Schema for artifact updates; only switching the served version is supported
+const updateArtifactSchema = z.object({
+  is_current: z.literal(true)
+});
+
+// PATCH /api/books/[bookId]/artifacts/[artifactId] - Serve this version to readers (only the user who added the book)
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ bookId: string; artifactId: string }> }
+) {
+  try {
+    const { bookId, artifactId } = await params;
+    const session = await auth();
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const book = await BooksService.getLibraryBook(session.user.id, bookId);
+
+    if (!book) {
+      return NextResponse.json({ error: "Book not found" }, { status: 404 });
+    }
+
+    if (book.created_by !== session.user.id) {
+      return NextResponse.json({ error: "Not allowed to change this book's AI content" }, { status: 403 });
+    }
+
+    const body = await request.json();
+    updateArtifactSchema.parse(body);
+
+    const artifact = await BookArtifactService.setCurrent(bookId, artifactId);
+
+    return NextResponse.json({ artifact });
+  } catch (error) {
+    console.error("Error updating book artifact:", error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: "Validation failed", details: error.errors },
+        { status: 400 }
+      );
+    }
+
+    if (error instanceof Error && error.message === "Artifact not found") {
+      return NextResponse.json({ error: error.message }, { status: 404 });
+    }
+
+    if (error instanceof Error && error.message === "Only generated versions can be served") {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+
+    return NextResponse.json(
+      { error: "Failed to update book artifact" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,60 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@/auth";
+import { BooksService } from "@/services/books";
+import { BookArtifactService } from "@/services/bookArtifacts";
+import { z } from "zod";
+
+// Schema for artifact version queries
+const listArtifactsSchema = z.object({
+  type: z.enum(["overview", "chapter_summary"]).default("overview"),
+  chapter: z.string().max(500).optional(),
+  language: z.string().max(10).optional()
+});
+
+// GET /api/books/[bookId]/artifacts - List stored versions of a book's AI content, newest first
+// Query: type (overview | chapter_summary), chapter (for chapter summaries), language
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ bookId: string }> }
+) {
+  try {
+    const { bookId } = await params;
+    const session = await auth();
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    if (!(await BooksService.isBookInLibrary(session.user.id, bookId))) {
+      return NextResponse.json({ error: "Book not found" }, { status: 404 });
+    }
+
+    const { searchParams } = new URL(request.url);
+    const query = listArtifactsSchema.parse({
+      type: searchParams.get("type") || undefined,
+      chapter: searchParams.get("chapter") || undefined,
+      language: searchParams.get("language") || undefined
+    });
+
+    const artifacts = await BookArtifactService.listVersions(bookId, query.type, {
+      key: query.chapter,
+      language: query.language
+    });
+
+    return NextResponse.json({ artifacts });
+  } catch (error) {
+    console.error("Error fetching book artifacts:", error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: "Validation failed", details: error.errors },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: "Failed to fetch book artifacts" },
+      { status: 500 }
+    );
+  }
+}
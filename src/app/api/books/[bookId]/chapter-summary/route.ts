@@ -0,0 +1,92 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@/auth";
+import { BooksService } from "@/services/books";
+import { BookArtifactService, ArtifactInProgressError } from "@/services/bookArtifacts";
+import { ensureAICredits, InsufficientCreditsError } from "@/services/aiCredits";
+import { withAIRateLimit } from "@/services/aiRateLimit";
+import { z } from "zod";
+
+// Schema for chapter summary requests
+const chapterSummarySchema = z.object({
+  chapter: z.string().min(1, "Chapter is required").max(500),
+  content: z.string().max(20000).optional(),
+  language: z.string().max(10).optional(),
+  regenerate: z.boolean().default(false)
+});
+
+// POST /api/books/[bookId]/chapter-summary - Get the stored summary of a chapter, generating it on first request
+// Body: { chapter, content?, language?, regenerate? } - regenerating adds a version (only the user who added the book).
+// A summary of supplied chapter text is stored under that text, so it never replaces the shared summary.
+export const POST = withAIRateLimit(async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ bookId: string }> }
+) {
+  try {
+    const { bookId } = await params;
+    const session = await auth();
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const book = await BooksService.getLibraryBook(session.user.id, bookId);
+
+    if (!book) {
+      return NextResponse.json({ error: "Book not found" }, { status: 404 });
+    }
+
+    const body = await request.json();
+    const { chapter, content, language, regenerate } = chapterSummarySchema.parse(body);
+
+    const key = BookArtifactService.chapterKey(chapter, content);
+
+    if (regenerate && book.created_by !== session.user.id) {
+      return NextResponse.json({ error: "Not allowed to regenerate this summary" }, { status: 403 });
+    }
+
+    if (!regenerate) {
+      const current = await BookArtifactService.getCurrent(bookId, "chapter_summary", {
+        key,
+        language: language || book.language
+      });
+      if (current) {
+        return NextResponse.json({ summary: current.content, artifact: current });
+      }
+    }
+
+    // Check the user can pay for the request
+    await ensureAICredits(session.user.id);
+
+    const options = { key, chapter, content, language, userUuid: session.user.id };
+    const artifact = regenerate
+      ? await BookArtifactService.generate(book, "chapter_summary", { ...options, regenerate: true })
+      : (await BookArtifactService.getOrGenerate(book, "chapter_summary", options)).artifact;
+
+    return NextResponse.json({ summary: artifact.content, artifact });
+  } catch (error) {
+    console.error("Error generating chapter summary:", error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: "Validation failed", details: error.errors },
+        { status: 400 }
+      );
+    }
+
+    if (error instanceof InsufficientCreditsError) {
+      return NextResponse.json(
+        { error: "Insufficient credits", required: error.required, available: error.available },
+        { status: 402 }
+      );
+    }
+
+    if (error instanceof ArtifactInProgressError) {
+      return NextResponse.json({ error: error.message }, { status: 409 });
+    }
+
+    return NextResponse.json(
+      { error: "Failed to generate chapter summary" },
+      { status: 500 }
+    );
+  }
+});
@@ -0,0 +1,140 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@/auth";
+import { ReadingNotesService } from "@/services/readingNotes";
+import { z } from "zod";
+
+// Schema for note update; null clears an optional field
+const updateNoteSchema = z.object({
+  note_type: z.enum(['highlight', 'note', 'bookmark', 'quote']).optional(),
+  content: z.string().min(1).optional(),
+  context: z.string().nullish(),
+  session_uuid: z.string().uuid().nullish(),
+  page_number: z.number().int().positive().nullish(),
+  chapter: z.string().max(255).nullish(),
+  position_start: z.number().int().min(0).nullish(),
+  position_end: z.number().int().min(0).nullish(),
+  color: z.string().max(50).nullish(),
+  is_private: z.boolean().optional(),
+  is_favorite: z.boolean().optional(),
+  tags: z.array(z.string().max(50)).max(20).nullish()
+}).refine(
+  data => data.position_start == null || data.position_end == null || data.position_end >= data.position_start,
+  { message: "position_end must not be before position_start", path: ["position_end"] }
+);
+
+// GET /api/books/[bookId]/notes/[noteId] - Get a single note
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ bookId: string; noteId: string }> }
+) {
+  try {
+    const { bookId, noteId } = await params;
+    const session = await auth();
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const note = await ReadingNotesService.getNote(session.user.id, noteId);
+    if (!note || note.book_uuid !== bookId) {
+      return NextResponse.json({ error: "Note not found" }, { status: 404 });
+    }
+
+    return NextResponse.json({ note });
+  } catch (error) {
+    console.error("Error fetching reading note:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch note" },
+      { status: 500 }
+    );
+  }
+}
+
+// PUT /api/books/[bookId]/notes/[noteId] - Update a note
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ bookId: string; noteId: string }> }
+) {
+  try {
+    const { bookId, noteId } = await params;
+    const session = await auth();
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const body = await request.json();
+    const validatedData = updateNoteSchema.parse(body);
+
+    const note = await ReadingNotesService.updateNote(
+      session.user.id,
+      bookId,
+      noteId,
+      validatedData
+    );
+
+    return NextResponse.json({ note });
+  } catch (error) {
+    console.error("Error updating reading note:", error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: "Validation failed", details: error.errors },
+        { status: 400 }
+      );
+    }
+
+    if (error instanceof Error && error.message === "Note not found") {
+      return NextResponse.json({ error: "Note not found" }, { status: 404 });
+    }
+
+    if (error instanceof Error && error.message === "Invalid position range") {
+      return NextResponse.json(
+        { error: "position_end must not be before position_start" },
+        { status: 400 }
+      );
+    }
+
+    if (error instanceof Error && error.message === "Session not found") {
+      return NextResponse.json(
+        { error: "Reading session not found for this book" },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: "Failed to update note" },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE /api/books/[bookId]/notes/[noteId] - Delete a note
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ bookId: string; noteId: string }> }
+) {
+  try {
+    const { bookId, noteId } = await params;
+    const session = await auth();
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    await ReadingNotesService.deleteNote(session.user.id, bookId, noteId);
+
+    return NextResponse.json({ message: "Note deleted successfully" });
+  } catch (error) {
+    console.error("Error deleting reading note:", error);
+
+    if (error instanceof Error && error.message === "Note not found") {
+      return NextResponse.json({ error: "Note not found" }, { status: 404 });
+    }
+
+    return NextResponse.json(
+      { error: "Failed to delete note" },
+      { status: 500 }
+    );
+  }
+}
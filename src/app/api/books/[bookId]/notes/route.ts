@@ -0,0 +1,133 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@/auth";
+import { ReadingNotesService } from "@/services/readingNotes";
+import { z } from "zod";
+
+const noteTypeSchema = z.enum(['highlight', 'note', 'bookmark', 'quote']);
+
+// Schema for note creation
+const createNoteSchema = z.object({
+  note_type: noteTypeSchema,
+  content: z.string().min(1, "Content is required"),
+  context: z.string().optional(),
+  session_uuid: z.string().uuid().optional(),
+  page_number: z.number().int().positive().optional(),
+  chapter: z.string().max(255).optional(),
+  position_start: z.number().int().min(0).optional(),
+  position_end: z.number().int().min(0).optional(),
+  color: z.string().max(50).optional(),
+  is_private: z.boolean().optional(),
+  is_favorite: z.boolean().optional(),
+  tags: z.array(z.string().max(50)).max(20).optional()
+}).refine(
+  data => data.position_start === undefined || data.position_end === undefined || data.position_end >= data.position_start,
+  { message: "position_end must not be before position_start", path: ["position_end"] }
+);
+
+// Schema for note list filters
+const noteFiltersSchema = z.object({
+  type: noteTypeSchema.optional(),
+  chapter: z.string().optional(),
+  tag: z.string().optional(),
+  favorite: z.enum(['true', 'false']).transform(value => value === 'true').optional(),
+  session_uuid: z.string().uuid().optional(),
+  page_from: z.coerce.number().int().min(0).optional(),
+  page_to: z.coerce.number().int().min(0).optional()
+});
+
+// GET /api/books/[bookId]/notes - Get notes, highlights and bookmarks for a book
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ bookId: string }> }
+) {
+  try {
+    const { bookId } = await params;
+    const session = await auth();
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { searchParams } = new URL(request.url);
+    const filters = noteFiltersSchema.parse(
+      Object.fromEntries(searchParams.entries())
+    );
+
+    const notes = await ReadingNotesService.getBookNotes(session.user.id, bookId, {
+      note_type: filters.type,
+      chapter: filters.chapter,
+      tag: filters.tag,
+      is_favorite: filters.favorite,
+      session_uuid: filters.session_uuid,
+      page_from: filters.page_from,
+      page_to: filters.page_to
+    });
+
+    return NextResponse.json({ notes });
+  } catch (error) {
+    console.error("Error fetching reading notes:", error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: "Validation failed", details: error.errors },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: "Failed to fetch notes" },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/books/[bookId]/notes - Create a note, highlight or bookmark
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ bookId: string }> }
+) {
+  try {
+    const { bookId } = await params;
+    const session = await auth();
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const body = await request.json();
+    const validatedData = createNoteSchema.parse(body);
+
+    const note = await ReadingNotesService.createNote(
+      session.user.id,
+      bookId,
+      validatedData
+    );
+
+    return NextResponse.json({ note }, { status: 201 });
+  } catch (error) {
+    console.error("Error creating reading note:", error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: "Validation failed", details: error.errors },
+        { status: 400 }
+      );
+    }
+
+    if (error instanceof Error && error.message === "Book not in library") {
+      return NextResponse.json({ error: error.message }, { status: 404 });
+    }
+
+    if (error instanceof Error && error.message === "Session not found") {
+      return NextResponse.json(
+        { error: "Reading session not found for this book" },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: "Failed to create note" },
+      { status: 500 }
+    );
+  }
+}
@@ -1,17 +1,27 @@
 import { NextRequest, NextResponse } from "next/server";
 import { auth } from "@/auth";
-import { ReadingAssistantService } from "@/services/readingAssistant";
 import { BooksService } from "@/services/books";
+import { BookArtifactService, ArtifactInProgressError } from "@/services/bookArtifacts";
+import { ensureAICredits, InsufficientCreditsError } from "@/services/aiCredits";
+import { withAIRateLimit } from "@/services/aiRateLimit";
+import { z } from "zod";
 
-// GET /api/books/[bookId]/overview - Generate book overview
-export async function GET(
+// Schema for overview queries
+const overviewQuerySchema = z.object({
+  language: z.string().max(10).optional(),
+  version: z.coerce.number().int().positive().optional()
+});
+
+// GET /api/books/[bookId]/overview - Get the stored book overview, generating it on first request
+// Query: language (defaults to the book's), version (a specific stored version, never generated)
+export const GET = withAIRateLimit(async function GET(
   request: NextRequest,
   { params }: { params: Promise<{ bookId: string }> }
 ) {
   try {
     const { bookId } = await params;
     const session = await auth();
-    
+
     if (!session?.user?.id) {
       return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
     }
@@ -19,19 +29,131 @@ export async function GET(
     // Get user's books to find this specific book
     const userBooks = await BooksService.getUserBooks(session.user.id);
     const bookItem = userBooks.find(item => item.book_uuid === bookId);
-    
+
     if (!bookItem?.book) {
       return NextResponse.json({ error: "Book not found" }, { status: 404 });
     }
 
-    const overview = await ReadingAssistantService.generateBookOverview(bookItem.book);
+    const { searchParams } = new URL(request.url);
+    const { language, version } = overviewQuerySchema.parse({
+      language: searchParams.get("language") || undefined,
+      version: searchParams.get("version") || undefined
+    });
+
+    if (version !== undefined) {
+      const artifact = await BookArtifactService.getVersion(bookId, "overview", version, {
+        language: language || bookItem.book.language
+      });
+      if (!artifact || artifact.status !== "ready") {
+        return NextResponse.json({ error: "Overview version not found" }, { status: 404 });
+      }
+      return NextResponse.json({ overview: artifact.content, artifact });
+    }
+
+    // Stored overviews are free; only the reader who triggers the first generation pays
+    const current = await BookArtifactService.getCurrent(bookId, "overview", {
+      language: language || bookItem.book.language
+    });
+    if (current) {
+      return NextResponse.json({ overview: current.content, artifact: current });
+    }
 
-    return NextResponse.json({ overview });
+    // Check the user can pay for the request
+    await ensureAICredits(session.user.id);
+
+    const { artifact } = await BookArtifactService.getOrGenerate(bookItem.book, "overview", {
+      language,
+      userUuid: session.user.id
+    });
+
+    return NextResponse.json({ overview: artifact.content, artifact });
   } catch (error) {
     console.error("Error generating book overview:", error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: "Validation failed", details: error.errors },
+        { status: 400 }
+      );
+    }
+
+    if (error instanceof InsufficientCreditsError) {
+      return NextResponse.json(
+        { error: "Insufficient credits", required: error.required, available: error.available },
+        { status: 402 }
+      );
+    }
+
+    if (error instanceof ArtifactInProgressError) {
+      return NextResponse.json(
+        { error: "The overview is being generated, try again shortly" },
+        { status: 409 }
+      );
+    }
+
     return NextResponse.json(
       { error: "Failed to generate book overview" },
       { status: 500 }
     );
   }
-}
\ No newline at end of file
+});
+
+// POST /api/books/[bookId]/overview - Regenerate the overview as a new version (only the user who added the book)
+// Body: { language?: string }
+export const POST = withAIRateLimit(async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ bookId: string }> }
+) {
+  try {
+    const { bookId } = await params;
+    const session = await auth();
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const userBooks = await BooksService.getUserBooks(session.user.id);
+    const bookItem = userBooks.find(item => item.book_uuid === bookId);
+
+    if (!bookItem?.book) {
+      return NextResponse.json({ error: "Book not found" }, { status: 404 });
+    }
+
+    // The overview is shared by every reader of the book
+    if (bookItem.book.created_by !== session.user.id) {
+      return NextResponse.json({ error: "Not allowed to regenerate this overview" }, { status: 403 });
+    }
+
+    const body = await request.json().catch(() => ({}));
+    const language = typeof body.language === "string" && body.language ? body.language : undefined;
+
+    // Check the user can pay for the request
+    await ensureAICredits(session.user.id);
+
+    const artifact = await BookArtifactService.generate(bookItem.book, "overview", {
+      language,
+      userUuid: session.user.id,
+      regenerate: true
+    });
+
+    return NextResponse.json({ overview: artifact.content, artifact }, { status: 201 });
+  } catch (error) {
+    console.error("Error regenerating book overview:", error);
+
+    if (error instanceof InsufficientCreditsError) {
+      return NextResponse.json(
+        { error: "Insufficient credits", required: error.required, available: error.available },
+        { status: 402 }
+      );
+    }
+
+    if (error instanceof ArtifactInProgressError) {
+      return NextResponse.json({ error: error.message }, { status: 409 });
+    }
+
+    return NextResponse.json(
+      { error: "Failed to regenerate book overview" },
+      { status: 500 }
+    );
+  }
+});
@@ -1,16 +1,31 @@
 import { NextRequest, NextResponse } from "next/server";
 import { auth } from "@/auth";
 import { BooksService } from "@/services/books";
+import { READING_STATUSES, ReadingStatusTransitionError, normalizeReadingStatus } from "@/services/readingStatus";
 import { z } from "zod";
 
 // Schema for progress update
 const updateProgressSchema = z.object({
   progress_percentage: z.number().min(0).max(100).optional(),
-  reading_status: z.enum(['want_to_read', 'currently_reading', 'read', 'paused', 'abandoned']).optional(),
+  // Legacy spellings such as 'completed' or 'dnf' are accepted and stored canonically
+  reading_status: z.string()
+    .transform((value, ctx) => {
+      const status = normalizeReadingStatus(value);
+      if (!status) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          message: `Expected one of ${READING_STATUSES.join(", ")}`
+        });
+        return z.NEVER;
+      }
+      return status;
+    })
+    .optional(),
   current_page: z.number().int().positive().optional(),
   total_pages: z.number().int().positive().optional(),
   date_started: z.string().optional(),
-  date_completed: z.string().optional()
+  date_completed: z.string().optional(),
+  dnf_reason: z.string().max(1000).optional()
 });
 
 // PUT /api/books/[bookId]/progress - Update reading progress
@@ -36,16 +51,6 @@ export async function PUT(
       );
     }
 
-    // Auto-set date_completed if status is 'read' and not provided
-    if (validatedData.reading_status === 'read' && !validatedData.date_completed) {
-      validatedData.date_completed = new Date().toISOString();
-    }
-
-    // Auto-set date_started if status is 'currently_reading' and not provided
-    if (validatedData.reading_status === 'currently_reading' && !validatedData.date_started) {
-      validatedData.date_started = new Date().toISOString();
-    }
-
     await BooksService.updateReadingProgress(session.user.id, bookId, validatedData);
 
     return NextResponse.json({ message: "Progress updated successfully" });
@@ -59,6 +64,14 @@ export async function PUT(
       );
     }
 
+    if (error instanceof ReadingStatusTransitionError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+
+    if (error instanceof Error && error.message === "Book not in library") {
+      return NextResponse.json({ error: error.message }, { status: 404 });
+    }
+
     return NextResponse.json(
       { error: "Failed to update progress" },
       { status: 500 }
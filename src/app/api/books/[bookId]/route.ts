@@ -0,0 +1,77 @@
+import { NextRequest, NextResponse, after } from "next/server";
+import { auth } from "@/auth";
+import { BooksService } from "@/services/books";
+import { BookArtifactService } from "@/services/bookArtifacts";
+import { z } from "zod";
+
+// Schema for book metadata updates
+const updateBookSchema = z.object({
+  title: z.string().min(1, "Title is required").max(500).optional(),
+  subtitle: z.string().optional(),
+  author: z.string().min(1, "Author is required").max(500).optional(),
+  co_authors: z.string().optional(),
+  isbn_10: z.string().optional(),
+  isbn_13: z.string().optional(),
+  genre: z.string().optional(),
+  sub_genre: z.string().optional(),
+  language: z.string().optional(),
+  publisher: z.string().optional(),
+  publication_date: z.string().optional(),
+  page_count: z.number().int().positive().optional(),
+  description: z.string().optional(),
+  cover_url: z.string().url().optional(),
+  series_name: z.string().optional(),
+  series_number: z.number().int().positive().optional(),
+  edition: z.string().optional(),
+  format: z.string().optional()
+});
+
+// PATCH /api/books/[bookId] - Update a book's metadata (only the user who added it)
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ bookId: string }> }
+) {
+  try {
+    const { bookId } = await params;
+    const session = await auth();
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const body = await request.json();
+    const validatedData = updateBookSchema.parse(body);
+
+    const { book, previous } = await BooksService.updateBook(bookId, session.user.id, validatedData);
+
+    // The stored overview describes the old metadata; a new version replaces it in the background
+    if (BookArtifactService.overviewChanged(previous, book)) {
+      const userUuid = session.user.id;
+      after(() => BookArtifactService.generateInBackground(book, { userUuid, regenerate: true }));
+    }
+
+    return NextResponse.json({ book });
+  } catch (error) {
+    console.error("Error updating book:", error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: "Validation failed", details: error.errors },
+        { status: 400 }
+      );
+    }
+
+    if (error instanceof Error && error.message === "Book not found") {
+      return NextResponse.json({ error: error.message }, { status: 404 });
+    }
+
+    if (error instanceof Error && error.message === "Not allowed to edit this book") {
+      return NextResponse.json({ error: error.message }, { status: 403 });
+    }
+
+    return NextResponse.json(
+      { error: "Failed to update book" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,132 @@
+import { NextRequest, NextResponse, after } from "next/server";
+import { auth } from "@/auth";
+import { BooksService } from "@/services/books";
+import { BookTextIndexService, BookTextUploadError } from "@/services/bookTextIndex";
+import { ensureAICredits, InsufficientCreditsError } from "@/services/aiCredits";
+import { withAIRateLimit } from "@/services/aiRateLimit";
+
+const MAX_FILE_SIZE = 25 * 1024 * 1024; // 25MB
+
+// GET /api/books/[bookId]/text - Get the indexing status of the uploaded book text
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ bookId: string }> }
+) {
+  try {
+    const { bookId } = await params;
+    const session = await auth();
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const source = await BookTextIndexService.getSource(session.user.id, bookId);
+
+    return NextResponse.json({ source });
+  } catch (error) {
+    console.error("Error fetching book text status:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch book text status" },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/books/[bookId]/text - Upload the text of an owned book (EPUB, PDF or TXT) for the reading assistant
+// Accepts multipart form data with a single file; replaces any previous upload and indexes it in the background
+export const POST = withAIRateLimit(async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ bookId: string }> }
+) {
+  try {
+    const { bookId } = await params;
+    const session = await auth();
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    // Only books in the reader's library can be indexed
+    if (!(await BooksService.isBookInLibrary(session.user.id, bookId))) {
+      return NextResponse.json({ error: "Book not found" }, { status: 404 });
+    }
+
+    const contentType = request.headers.get("content-type") || "";
+    if (!contentType.includes("multipart/form-data")) {
+      return NextResponse.json({ error: "A book file is required" }, { status: 400 });
+    }
+
+    const formData = await request.formData();
+    const file = formData.get("file");
+
+    if (!(file instanceof File)) {
+      return NextResponse.json({ error: "A book file is required" }, { status: 400 });
+    }
+    if (file.size > MAX_FILE_SIZE) {
+      return NextResponse.json({ error: "File is larger than 25MB" }, { status: 413 });
+    }
+
+    // Check the user can pay for embedding the text; the full estimate is checked once it is chunked
+    await ensureAICredits(session.user.id);
+
+    const { source, chunks } = await BookTextIndexService.prepareUpload(session.user.id, bookId, {
+      filename: file.name,
+      data: new Uint8Array(await file.arrayBuffer())
+    });
+
+    // Embedding a whole book takes a while, the client polls GET until the source is ready
+    after(() => BookTextIndexService.indexInBackground(source, chunks));
+
+    return NextResponse.json({ source }, { status: 202 });
+  } catch (error) {
+    console.error("Error indexing book text:", error);
+
+    if (error instanceof BookTextUploadError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+
+    if (error instanceof InsufficientCreditsError) {
+      return NextResponse.json(
+        { error: "Insufficient credits", required: error.required, available: error.available },
+        { status: 402 }
+      );
+    }
+
+    if (error instanceof Error && error.message === "Book not found") {
+      return NextResponse.json({ error: error.message }, { status: 404 });
+    }
+
+    return NextResponse.json(
+      { error: "Failed to index book text" },
+      { status: 500 }
+    );
+  }
+});
+
+// DELETE /api/books/[bookId]/text - Remove the uploaded book text and its index
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ bookId: string }> }
+) {
+  try {
+    const { bookId } = await params;
+    const session = await auth();
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const deleted = await BookTextIndexService.deleteSource(session.user.id, bookId);
+    if (!deleted) {
+      return NextResponse.json({ error: "No book text uploaded" }, { status: 404 });
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("Error deleting book text:", error);
+    return NextResponse.json(
+      { error: "Failed to delete book text" },
+      { status: 500 }
+    );
+  }
+}
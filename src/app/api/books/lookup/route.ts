@@ -0,0 +1,57 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@/auth";
+import { getBookLookupService } from "@/services/bookLookup";
+import { z } from "zod";
+
+// Schema for external book lookup
+const lookupQuerySchema = z.object({
+  query: z.string().trim().max(300).optional(),
+  title: z.string().trim().max(300).optional(),
+  author: z.string().trim().max(300).optional(),
+  isbn: z.string().trim().max(20).optional(),
+  language: z.string().trim().max(10).optional(),
+  subject: z.string().trim().max(100).optional(),
+  limit: z.coerce.number().int().positive().max(40).default(10)
+}).refine(
+  (data) => data.query || data.title || data.author || data.isbn,
+  { message: "A search query, title, author or ISBN is required" }
+);
+
+// GET /api/books/lookup - Search external book metadata providers
+export async function GET(request: NextRequest) {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { searchParams } = new URL(request.url);
+    const lookupQuery = lookupQuerySchema.parse({
+      query: searchParams.get("q") || undefined,
+      title: searchParams.get("title") || undefined,
+      author: searchParams.get("author") || undefined,
+      isbn: searchParams.get("isbn") || undefined,
+      language: searchParams.get("language") || undefined,
+      subject: searchParams.get("subject") || undefined,
+      limit: searchParams.get("limit") || undefined
+    });
+
+    const results = await getBookLookupService().search(lookupQuery);
+
+    return NextResponse.json({ results });
+  } catch (error) {
+    console.error("Error looking up books:", error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: "Validation failed", details: error.errors },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: "Failed to look up books" },
+      { status: 500 }
+    );
+  }
+}
@@ -1,6 +1,7 @@
-import { NextRequest, NextResponse } from "next/server";
+import { NextRequest, NextResponse, after } from "next/server";
 import { auth } from "@/auth";
 import { BooksService } from "@/services/books";
+import { BookArtifactService } from "@/services/bookArtifacts";
 import { BookFormData } from "@/types/book";
 import { z } from "zod";
 
@@ -75,6 +76,10 @@ export async function POST(request: NextRequest) {
       body.reading_status || "want_to_read"
     );
 
+    // Pre-generate the shared overview once the response has been sent
+    const userUuid = session.user.id;
+    after(() => BookArtifactService.generateInBackground(book, { userUuid }));
+
     return NextResponse.json({ book: bookListItem }, { status: 201 });
   } catch (error) {
     console.error("Error creating book:", error);
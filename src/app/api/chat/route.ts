@@ -6,10 +6,14 @@
  */
 
 import { NextRequest } from 'next/server';
-import { respData, respErr, respJson } from '@/lib/resp';
+import { respData, respErr, respErrWithStatus, respJson } from '@/lib/resp';
 import { getUserUuid } from '@/services/user';
+import { CreditsTransType } from '@/services/credit';
+import { chargeAIUsage, ensureAICredits, InsufficientCreditsError } from '@/services/aiCredits';
 import { getReadingAssistant, ReadingAssistantRequest, BookContext } from '@/services/aiService';
 import { ConversationService, CreateConversationOptions, AddMessageOptions } from '@/services/conversationService';
+import { SpoilerMode, SpoilerCheck, DEFAULT_SPOILER_MODE, isSpoilerMode } from '@/services/spoilerGuard';
+import { withAIRateLimit } from '@/services/aiRateLimit';
 
 /**
  * Chat request payload
@@ -23,6 +27,8 @@ interface ChatRequest {
   bookContext?: BookContext;
   /** Context type */
   contextType?: 'general' | 'book_specific' | 'chapter_specific';
+  /** Spoiler protection for a new conversation; existing conversations keep their own */
+  spoilerMode?: SpoilerMode;
   /** User preferences */
   preferences?: {
     responseStyle?: 'casual' | 'academic' | 'detailed' | 'brief';
@@ -56,13 +62,17 @@ interface ChatResponse {
     duration: number;
     timestamp: number;
   };
+  /** Credits charged for this message */
+  creditsUsed: number;
   /** Whether this is a new conversation */
   isNewConversation: boolean;
   /** Suggested title (for new conversations) */
   suggestedTitle?: string;
+  /** Spoiler check of the answer, for book conversations */
+  spoilerCheck?: SpoilerCheck;
 }
 
-export async function POST(req: NextRequest) {
+export const POST = withAIRateLimit(async function POST(req: NextRequest) {
   try {
     // Check authentication
     const userUuid = await getUserUuid();
@@ -76,11 +86,15 @@ export async function POST(req: NextRequest) {
       return respErr("message is required");
     }
 
+    // Check the user can pay for the request
+    await ensureAICredits(userUuid);
+
     // Validate and get conversation
     let conversationUuid = body.conversationUuid;
     let isNewConversation = false;
     let conversation = null;
     let conversationHistory: any[] = [];
+    let spoilerMode: SpoilerMode = isSpoilerMode(body.spoilerMode) ? body.spoilerMode : DEFAULT_SPOILER_MODE;
 
     if (conversationUuid) {
       // Get existing conversation
@@ -95,6 +109,9 @@ export async function POST(req: NextRequest) {
       
       conversation = conversationData.conversation;
       conversationHistory = ConversationService.convertToAIMessages(conversationData.messages);
+      if (isSpoilerMode(conversation.spoiler_mode)) {
+        spoilerMode = conversation.spoiler_mode;
+      }
     } else {
       // Create new conversation
       const createOptions: CreateConversationOptions = {
@@ -103,6 +120,7 @@ export async function POST(req: NextRequest) {
         bookContext: body.bookContext,
         contextType: body.contextType || 'general',
         contextData: body.bookContext,
+        spoilerMode,
       };
       
       conversation = await ConversationService.createConversation(createOptions);
@@ -133,13 +151,53 @@ export async function POST(req: NextRequest) {
       contextType: body.contextType || 'general',
       stream: false,
       preferences: body.preferences,
+      userUuid,
+      spoilerMode,
     };
 
     // Get AI response
     const startTime = Date.now();
-    const aiResponse = await readingAssistant.processMessage(aiRequest);
+    let aiResponse;
+    try {
+      aiResponse = await readingAssistant.processMessage(aiRequest);
+    } catch (error) {
+      await ConversationService.recordFailedResponse({
+        conversationUuid,
+        userUuid,
+        error,
+        responseTimeMs: Date.now() - startTime,
+      });
+      throw error;
+    }
     const responseTime = Date.now() - startTime;
 
+    // Charge credits for token usage
+    const charge = await chargeAIUsage({
+      user_uuid: userUuid,
+      trans_type: CreditsTransType.AIChat,
+      provider: aiResponse.provider,
+      model: aiResponse.model,
+      usage: aiResponse.usage,
+    });
+
+    // Record the library lookups made while answering
+    for (const invocation of aiResponse.toolInvocations || []) {
+      await ConversationService.addMessage({
+        conversationUuid,
+        userUuid,
+        role: 'function',
+        content: JSON.stringify(invocation.error ? { error: invocation.error } : invocation.result),
+        functionCall: {
+          id: invocation.id,
+          name: invocation.name,
+          arguments: invocation.arguments,
+          source: invocation.source,
+          error: invocation.error,
+        },
+        responseTimeMs: invocation.durationMs,
+      });
+    }
+
     // Add assistant message to database
     const assistantMessageOptions: AddMessageOptions = {
       conversationUuid,
@@ -150,6 +208,8 @@ export async function POST(req: NextRequest) {
         provider: aiResponse.provider,
         model: aiResponse.model,
         finishReason: aiResponse.metadata.finishReason,
+        spoilerCheck: aiResponse.spoilerCheck,
+        usage: aiResponse.usage,
       },
       tokenCount: aiResponse.usage.totalTokens,
       aiModel: aiResponse.model,
@@ -180,8 +240,10 @@ export async function POST(req: NextRequest) {
         duration: responseTime,
         timestamp: Date.now(),
       },
+      creditsUsed: charge.credits,
       isNewConversation,
       suggestedTitle: aiResponse.suggestedTitle,
+      spoilerCheck: aiResponse.spoilerCheck,
     };
 
     return respData(response);
@@ -189,6 +251,13 @@ export async function POST(req: NextRequest) {
   } catch (error) {
     console.error('Chat API error:', error);
     
+    if (error instanceof InsufficientCreditsError) {
+      return respErrWithStatus(402, 'Insufficient credits', {
+        required: error.required,
+        available: error.available,
+      });
+    }
+
     // Handle specific AI errors
     if (error instanceof Error) {
       if (error.message.includes('Rate limit')) {
@@ -204,7 +273,7 @@ export async function POST(req: NextRequest) {
     
     return respErr('Failed to process chat message');
   }
-}
+});
 
 /**
  * GET endpoint to retrieve conversation history
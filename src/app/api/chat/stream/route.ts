@@ -6,10 +6,15 @@
  */
 
 import { NextRequest } from 'next/server';
-import { respErr, respJson } from '@/lib/resp';
+import { respErr, respErrWithStatus, respJson } from '@/lib/resp';
 import { getUserUuid } from '@/services/user';
+import { CreditsTransType } from '@/services/credit';
+import { AITokenUsage, chargeAIUsage, ensureAICredits, estimateUsage, InsufficientCreditsError } from '@/services/aiCredits';
 import { getReadingAssistant, ReadingAssistantRequest, BookContext } from '@/services/aiService';
 import { ConversationService, CreateConversationOptions, AddMessageOptions } from '@/services/conversationService';
+import { SpoilerMode, DEFAULT_SPOILER_MODE, isSpoilerMode } from '@/services/spoilerGuard';
+import { withAIRateLimit } from '@/services/aiRateLimit';
+import { AIProvider } from '@/types/ai';
 
 /**
  * Chat streaming request payload
@@ -23,6 +28,8 @@ interface ChatStreamRequest {
   bookContext?: BookContext;
   /** Context type */
   contextType?: 'general' | 'book_specific' | 'chapter_specific';
+  /** Spoiler protection for a new conversation; existing conversations keep their own */
+  spoilerMode?: SpoilerMode;
   /** User preferences */
   preferences?: {
     responseStyle?: 'casual' | 'academic' | 'detailed' | 'brief';
@@ -39,7 +46,7 @@ interface StreamChunk {
   data?: any;
 }
 
-export async function POST(req: NextRequest) {
+export const POST = withAIRateLimit(async function POST(req: NextRequest) {
   try {
     // Check authentication
     const userUuid = await getUserUuid();
@@ -53,11 +60,15 @@ export async function POST(req: NextRequest) {
       return respErr("message is required");
     }
 
+    // Check the user can pay for the request
+    await ensureAICredits(userUuid);
+
     // Validate and get conversation
     let conversationUuid = body.conversationUuid;
     let isNewConversation = false;
     let conversation = null;
     let conversationHistory: any[] = [];
+    let spoilerMode: SpoilerMode = isSpoilerMode(body.spoilerMode) ? body.spoilerMode : DEFAULT_SPOILER_MODE;
 
     if (conversationUuid) {
       // Get existing conversation
@@ -72,6 +83,9 @@ export async function POST(req: NextRequest) {
       
       conversation = conversationData.conversation;
       conversationHistory = ConversationService.convertToAIMessages(conversationData.messages);
+      if (isSpoilerMode(conversation.spoiler_mode)) {
+        spoilerMode = conversation.spoiler_mode;
+      }
     } else {
       // Create new conversation
       const createOptions: CreateConversationOptions = {
@@ -80,6 +94,7 @@ export async function POST(req: NextRequest) {
         bookContext: body.bookContext,
         contextType: body.contextType || 'general',
         contextData: body.bookContext,
+        spoilerMode,
       };
       
       conversation = await ConversationService.createConversation(createOptions);
@@ -110,6 +125,8 @@ export async function POST(req: NextRequest) {
       contextType: body.contextType || 'general',
       stream: true,
       preferences: body.preferences,
+      userUuid,
+      spoilerMode,
     };
 
     // Create readable stream for Server-Sent Events
@@ -123,11 +140,35 @@ export async function POST(req: NextRequest) {
           controller.enqueue(encoder.encode(data));
         };
 
+        const startTime = Date.now();
+        let fullContent = '';
+        let chunkCount = 0;
+        let lastChunk: { provider: AIProvider; model: string } | null = null;
+
+        // Charge credits, estimating usage if the provider did not report it. The answer
+        // has been streamed by then, so a failed charge is logged, not reported as a failed answer.
+        let charged = false;
+        const charge = async (provider: AIProvider, model: string, usage: AITokenUsage) => {
+          charged = true;
+          try {
+            return await chargeAIUsage({
+              user_uuid: userUuid,
+              trans_type: CreditsTransType.AIChat,
+              provider,
+              model,
+              usage,
+            });
+          } catch (error) {
+            console.error('Charging streamed chat failed:', error);
+            return null;
+          }
+        };
+        const estimate = () => estimateUsage(
+          [...conversationHistory.map(msg => msg.content), body.message].join('\n'),
+          fullContent
+        );
+
         try {
-          const startTime = Date.now();
-          let fullContent = '';
-          let chunkCount = 0;
-          
           // Send initial metadata
           sendData({
             type: 'metadata',
@@ -156,10 +197,32 @@ export async function POST(req: NextRequest) {
 
             // Accumulate full content
             fullContent += chunk.delta;
+            lastChunk = { provider: chunk.provider, model: chunk.model };
 
             // If this is the final chunk, handle completion
             if (chunk.done) {
               const responseTime = Date.now() - startTime;
+
+              const usage = chunk.usage || estimate();
+              const billed = await charge(chunk.provider, chunk.model, usage);
+
+              // Record the library lookups made while answering
+              for (const invocation of chunk.toolInvocations || []) {
+                await ConversationService.addMessage({
+                  conversationUuid,
+                  userUuid,
+                  role: 'function',
+                  content: JSON.stringify(invocation.error ? { error: invocation.error } : invocation.result),
+                  functionCall: {
+                    id: invocation.id,
+                    name: invocation.name,
+                    arguments: invocation.arguments,
+                    source: invocation.source,
+                    error: invocation.error,
+                  },
+                  responseTimeMs: invocation.durationMs,
+                });
+              }
               
               // Add assistant message to database
               const assistantMessageOptions: AddMessageOptions = {
@@ -172,8 +235,10 @@ export async function POST(req: NextRequest) {
                   model: chunk.model,
                   chunkCount,
                   streamingResponse: true,
+                  spoilerCheck: chunk.spoilerCheck,
+                  usage,
                 },
-                tokenCount: chunk.usage?.totalTokens || undefined,
+                tokenCount: usage.totalTokens,
                 aiModel: chunk.model,
                 aiProvider: chunk.provider,
                 responseTimeMs: responseTime,
@@ -204,10 +269,12 @@ export async function POST(req: NextRequest) {
                   messageUuid: assistantMessage.uuid,
                   totalChunks: chunkCount,
                   responseTime,
-                  usage: chunk.usage,
+                  usage,
+                  creditsUsed: billed?.credits ?? 0,
                   provider: chunk.provider,
                   model: chunk.model,
                   conversationUuid,
+                  spoilerCheck: chunk.spoilerCheck,
                 }
               });
               
@@ -217,6 +284,13 @@ export async function POST(req: NextRequest) {
 
         } catch (error) {
           console.error('Streaming chat error:', error);
+
+          await ConversationService.recordFailedResponse({
+            conversationUuid,
+            userUuid,
+            error,
+            responseTimeMs: Date.now() - startTime,
+          });
           
           // Send error information
           sendData({
@@ -228,6 +302,10 @@ export async function POST(req: NextRequest) {
             }
           });
         } finally {
+          // An answer cut short by the reader or an error is still charged for what was produced
+          if (!charged && lastChunk && fullContent) {
+            await charge(lastChunk.provider, lastChunk.model, estimate());
+          }
           controller.close();
         }
       },
@@ -248,6 +326,13 @@ export async function POST(req: NextRequest) {
   } catch (error) {
     console.error('Chat streaming API error:', error);
     
+    if (error instanceof InsufficientCreditsError) {
+      return respErrWithStatus(402, 'Insufficient credits', {
+        required: error.required,
+        available: error.available,
+      });
+    }
+
     // Handle specific AI errors
     if (error instanceof Error) {
       if (error.message.includes('Rate limit')) {
@@ -263,7 +348,7 @@ export async function POST(req: NextRequest) {
     
     return respErr('Failed to process streaming chat message');
   }
-}
+});
 
 /**
  * OPTIONS handler for CORS preflight
@@ -0,0 +1,58 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@/auth";
+import { ConversationExportService } from "@/services/conversationExport";
+import { z } from "zod";
+
+// Schema for export query parameters
+const exportQuerySchema = z.object({
+  format: z.enum(["json", "markdown", "pdf"]).default("json")
+});
+
+// GET /api/conversations/[id]/export - Download a conversation as JSON, Markdown or PDF
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const session = await auth();
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { searchParams } = new URL(request.url);
+    const { format } = exportQuerySchema.parse({
+      format: searchParams.get("format") || undefined
+    });
+
+    const chatExport = await ConversationExportService.getExport(id, session.user.id, format);
+    if (!chatExport) {
+      return NextResponse.json({ error: "Conversation not found" }, { status: 404 });
+    }
+
+    const file = ConversationExportService.render(chatExport);
+
+    return new Response(file.body, {
+      headers: {
+        'Content-Type': file.contentType,
+        'Content-Disposition': `attachment; filename="${file.filename}"`,
+        'Cache-Control': 'no-store',
+      },
+    });
+  } catch (error) {
+    console.error("Error exporting conversation:", error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: "Validation failed", details: error.errors },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: "Failed to export conversation" },
+      { status: 500 }
+    );
+  }
+}
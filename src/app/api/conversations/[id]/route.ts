@@ -0,0 +1,107 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@/auth";
+import { ConversationService } from "@/services/conversationService";
+import { z } from "zod";
+
+// Schema for conversation updates
+const updateConversationSchema = z.object({
+  title: z.string().trim().min(1).max(255).optional(),
+  tags: z.array(z.string().trim().min(1).max(50)).max(20).optional(),
+  isArchived: z.boolean().optional(),
+  spoilerMode: z.enum(["strict", "warn", "off"]).optional()
+});
+
+// GET /api/conversations/[id] - Get a conversation summary
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const session = await auth();
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const conversation = await ConversationService.getChatSession(id, session.user.id);
+    if (!conversation) {
+      return NextResponse.json({ error: "Conversation not found" }, { status: 404 });
+    }
+
+    return NextResponse.json({ session: conversation });
+  } catch (error) {
+    console.error("Error fetching conversation:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch conversation" },
+      { status: 500 }
+    );
+  }
+}
+
+// PATCH /api/conversations/[id] - Rename, tag, archive or unarchive a conversation, or change its spoiler protection
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const session = await auth();
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const body = await request.json();
+    const validatedData = updateConversationSchema.parse(body);
+
+    const conversation = await ConversationService.updateConversation(id, session.user.id, validatedData);
+    if (!conversation) {
+      return NextResponse.json({ error: "Conversation not found" }, { status: 404 });
+    }
+
+    return NextResponse.json({ session: conversation });
+  } catch (error) {
+    console.error("Error updating conversation:", error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: "Validation failed", details: error.errors },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: "Failed to update conversation" },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE /api/conversations/[id] - Permanently delete a conversation and its messages
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const session = await auth();
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const deleted = await ConversationService.deleteConversation(id, session.user.id);
+    if (!deleted) {
+      return NextResponse.json({ error: "Conversation not found" }, { status: 404 });
+    }
+
+    return NextResponse.json({ message: "Conversation deleted successfully" });
+  } catch (error) {
+    console.error("Error deleting conversation:", error);
+    return NextResponse.json(
+      { error: "Failed to delete conversation" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,67 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@/auth";
+import { ConversationService } from "@/services/conversationService";
+import { z } from "zod";
+
+// Schema for conversation history query parameters
+const listConversationsSchema = z.object({
+  page: z.coerce.number().int().min(0).default(0),
+  limit: z.coerce.number().int().min(1).max(100).default(20),
+  bookId: z.string().optional(),
+  search: z.string().trim().optional(),
+  tags: z.string().optional(),
+  archived: z.enum(["true", "false"]).optional(),
+  startDate: z.string().datetime({ offset: true }).optional(),
+  endDate: z.string().datetime({ offset: true }).optional()
+}).refine(
+  query => !query.startDate || !query.endDate || new Date(query.startDate) <= new Date(query.endDate),
+  { message: "startDate must not be after endDate", path: ["startDate"] }
+);
+
+// GET /api/conversations - List the user's assistant conversations
+export async function GET(request: NextRequest) {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { searchParams } = new URL(request.url);
+    const query = listConversationsSchema.parse(Object.fromEntries(searchParams));
+
+    const { sessions, hasMore } = await ConversationService.listChatSessions(
+      session.user.id,
+      {
+        bookId: query.bookId,
+        searchQuery: query.search || undefined,
+        tags: query.tags ? query.tags.split(",").map(tag => tag.trim()).filter(Boolean) : undefined,
+        archived: query.archived === "true",
+        // Either bound may be given alone for an open-ended range
+        dateRange: query.startDate || query.endDate
+          ? {
+              start: query.startDate ? new Date(query.startDate) : undefined,
+              end: query.endDate ? new Date(query.endDate) : undefined
+            }
+          : undefined
+      },
+      query.page,
+      query.limit
+    );
+
+    return NextResponse.json({ sessions, hasMore });
+  } catch (error) {
+    console.error("Error fetching conversations:", error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: "Validation failed", details: error.errors },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: "Failed to fetch conversations" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,95 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@/auth";
+import { LibraryExportService } from "@/services/libraryExport";
+import { z } from "zod";
+
+// Schema for export query parameters
+const exportQuerySchema = z.object({
+  format: z.enum(["json", "csv", "goodreads"]).default("json"),
+  type: z.enum(["books", "sessions", "notes"]).default("books")
+});
+
+// GET /api/library/export - Download the user's library as JSON, CSV or Goodreads CSV
+export async function GET(request: NextRequest) {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { searchParams } = new URL(request.url);
+    const { format, type } = exportQuerySchema.parse({
+      format: searchParams.get("format") || undefined,
+      type: searchParams.get("type") || undefined
+    });
+
+    // Books are read a page at a time as the client pulls the download
+    const entries = LibraryExportService.getExportEntries(session.user.id);
+    const exportedAt = new Date().toISOString();
+    const date = exportedAt.slice(0, 10);
+
+    let chunks: AsyncGenerator<string>;
+    let contentType: string;
+    let filename: string;
+
+    switch (format) {
+      case "csv":
+        chunks = LibraryExportService.streamCsv(entries, type);
+        contentType = "text/csv; charset=utf-8";
+        filename = `booksoflife-${type}-${date}.csv`;
+        break;
+      case "goodreads":
+        chunks = LibraryExportService.streamGoodreadsCsv(entries);
+        contentType = "text/csv; charset=utf-8";
+        filename = `booksoflife-goodreads-${date}.csv`;
+        break;
+      default:
+        chunks = LibraryExportService.streamJson(entries, exportedAt);
+        contentType = "application/json; charset=utf-8";
+        filename = `booksoflife-library-${date}.json`;
+    }
+
+    const encoder = new TextEncoder();
+    const stream = new ReadableStream({
+      async pull(controller) {
+        try {
+          const { value, done } = await chunks.next();
+          if (done) {
+            controller.close();
+          } else {
+            controller.enqueue(encoder.encode(value));
+          }
+        } catch (error) {
+          // Headers are sent by now, so the download is cut off rather than answered with a 500
+          console.error("Error streaming library export:", error);
+          controller.error(error);
+        }
+      },
+      async cancel() {
+        await chunks.return(undefined);
+      }
+    });
+
+    return new Response(stream, {
+      headers: {
+        'Content-Type': contentType,
+        'Content-Disposition': `attachment; filename="${filename}"`,
+        'Cache-Control': 'no-store',
+      },
+    });
+  } catch (error) {
+    console.error("Error exporting library:", error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: "Validation failed", details: error.errors },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: "Failed to export library" },
+      { status: 500 }
+    );
+  }
+}
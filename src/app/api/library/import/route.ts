@@ -0,0 +1,71 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@/auth";
+import { LibraryImportService } from "@/services/libraryImport";
+import { z } from "zod";
+
+const MAX_FILE_SIZE = 5 * 1024 * 1024; // 5MB
+
+// Schema for JSON import requests
+const importSchema = z.object({
+  csv: z.string().min(1, "CSV content is required").max(MAX_FILE_SIZE),
+  dry_run: z.boolean().default(false)
+});
+
+// POST /api/library/import - Import a Goodreads/StoryGraph CSV or BooksOfLife JSON export
+// Accepts multipart form data (file, dry_run) or JSON ({ csv, dry_run })
+export async function POST(request: NextRequest) {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    let csv: string;
+    let dryRun: boolean;
+
+    const contentType = request.headers.get("content-type") || "";
+    if (contentType.includes("multipart/form-data")) {
+      const formData = await request.formData();
+      const file = formData.get("file");
+
+      if (!(file instanceof File)) {
+        return NextResponse.json({ error: "An export file is required" }, { status: 400 });
+      }
+      if (file.size > MAX_FILE_SIZE) {
+        return NextResponse.json({ error: "File is larger than 5MB" }, { status: 413 });
+      }
+
+      csv = await file.text();
+      dryRun = formData.get("dry_run") === "true";
+    } else {
+      const validatedData = importSchema.parse(await request.json());
+      csv = validatedData.csv;
+      dryRun = validatedData.dry_run;
+    }
+
+    const result = await LibraryImportService.importLibrary(session.user.id, csv, { dryRun });
+
+    return NextResponse.json({ result });
+  } catch (error) {
+    console.error("Error importing library:", error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: "Validation failed", details: error.errors },
+        { status: 400 }
+      );
+    }
+
+    if (error instanceof Error && (
+      error.message.startsWith("Unrecognized import format") ||
+      error.message.startsWith("Import is limited")
+    )) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+
+    return NextResponse.json(
+      { error: "Failed to import library" },
+      { status: 500 }
+    );
+  }
+}
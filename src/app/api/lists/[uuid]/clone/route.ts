@@ -0,0 +1,38 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@/auth";
+import { BooksService } from "@/services/books";
+
+// POST /api/lists/[uuid]/clone - Copy a public list into the current user's lists
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ uuid: string }> }
+) {
+  try {
+    const { uuid } = await params;
+    const session = await auth();
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const bookList = await BooksService.clonePublicBookList(session.user.id, uuid);
+
+    return NextResponse.json({ bookList }, { status: 201 });
+  } catch (error) {
+    console.error("Error cloning book list:", error);
+
+    if (error instanceof Error) {
+      if (error.message === "List not found") {
+        return NextResponse.json({ error: error.message }, { status: 404 });
+      }
+      if (error.message === "Cannot clone your own list") {
+        return NextResponse.json({ error: error.message }, { status: 400 });
+      }
+    }
+
+    return NextResponse.json(
+      { error: "Failed to clone book list" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,25 @@
+import { NextRequest, NextResponse } from "next/server";
+import { BooksService } from "@/services/books";
+
+// GET /api/lists/[uuid] - Get a public book list (no authentication required)
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ uuid: string }> }
+) {
+  try {
+    const { uuid } = await params;
+
+    const list = await BooksService.getPublicBookList(uuid);
+    if (!list) {
+      return NextResponse.json({ error: "List not found" }, { status: 404 });
+    }
+
+    return NextResponse.json({ list });
+  } catch (error) {
+    console.error("Error fetching public book list:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch book list" },
+      { status: 500 }
+    );
+  }
+}
@@ -1,9 +1,16 @@
 import { NextRequest, NextResponse } from "next/server";
 import { auth } from "@/auth";
 import { ReadingAssistantService } from "@/services/readingAssistant";
+import { DEFAULT_SPOILER_MODE, isSpoilerMode } from "@/services/spoilerGuard";
 import { database as db } from "@/db";
 import { ai_conversations } from "@/db/schema";
 import { and, eq } from "drizzle-orm";
+import { z } from "zod";
+
+// Schema for conversation settings
+const conversationSettingsSchema = z.object({
+  spoiler_mode: z.enum(["strict", "warn", "off"])
+});
 
 // GET /api/reading-assistant/conversation/[bookId] - Get conversation history
 export async function GET(
@@ -31,7 +38,7 @@ export async function GET(
       .limit(1);
 
     if (!conversation) {
-      return NextResponse.json({ messages: [] });
+      return NextResponse.json({ messages: [], spoiler_mode: DEFAULT_SPOILER_MODE });
     }
 
     const messages = await ReadingAssistantService.getConversationHistory(
@@ -39,7 +46,10 @@ export async function GET(
       50
     );
 
-    return NextResponse.json({ messages });
+    return NextResponse.json({
+      messages,
+      spoiler_mode: isSpoilerMode(conversation.spoiler_mode) ? conversation.spoiler_mode : DEFAULT_SPOILER_MODE
+    });
   } catch (error) {
     console.error("Error fetching conversation history:", error);
     return NextResponse.json(
@@ -49,6 +59,46 @@ export async function GET(
   }
 }
 
+// PATCH /api/reading-assistant/conversation/[bookId] - Change the conversation's spoiler protection mode
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ bookId: string }> }
+) {
+  try {
+    const { bookId } = await params;
+    const session = await auth();
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const body = await request.json();
+    const validatedData = conversationSettingsSchema.parse(body);
+
+    const spoilerMode = await ReadingAssistantService.setSpoilerMode(
+      session.user.id,
+      bookId,
+      validatedData.spoiler_mode
+    );
+
+    return NextResponse.json({ spoiler_mode: spoilerMode });
+  } catch (error) {
+    console.error("Error updating conversation settings:", error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: "Validation failed", details: error.errors },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: "Failed to update conversation settings" },
+      { status: 500 }
+    );
+  }
+}
+
 // DELETE /api/reading-assistant/conversation/[bookId] - Clear conversation history
 export async function DELETE(
   request: NextRequest,
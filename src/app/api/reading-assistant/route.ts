@@ -1,6 +1,8 @@
 import { NextRequest, NextResponse } from "next/server";
 import { auth } from "@/auth";
 import { ReadingAssistantService } from "@/services/readingAssistant";
+import { ensureAICredits, InsufficientCreditsError } from "@/services/aiCredits";
+import { withAIRateLimit } from "@/services/aiRateLimit";
 import { z } from "zod";
 
 // Schema for reading assistant request
@@ -15,7 +17,7 @@ const readingAssistantSchema = z.object({
 });
 
 // POST /api/reading-assistant - Ask a question to the reading assistant
-export async function POST(request: NextRequest) {
+export const POST = withAIRateLimit(async function POST(request: NextRequest) {
   try {
     const session = await auth();
     if (!session?.user?.id) {
@@ -25,6 +27,9 @@ export async function POST(request: NextRequest) {
     const body = await request.json();
     const validatedData = readingAssistantSchema.parse(body);
 
+    // Check the user can pay for the request
+    await ensureAICredits(session.user.id);
+
     const response = await ReadingAssistantService.answerBookQuestion(
       session.user.id,
       validatedData.book_uuid,
@@ -36,6 +41,13 @@ export async function POST(request: NextRequest) {
   } catch (error) {
     console.error("Error with reading assistant:", error);
     
+    if (error instanceof InsufficientCreditsError) {
+      return NextResponse.json(
+        { error: "Insufficient credits", required: error.required, available: error.available },
+        { status: 402 }
+      );
+    }
+
     if (error instanceof z.ZodError) {
       return NextResponse.json(
         { error: "Validation failed", details: error.errors },
@@ -48,4 +60,4 @@ export async function POST(request: NextRequest) {
       { status: 500 }
     );
   }
-}
\ No newline at end of file
+});
\ No newline at end of file
@@ -1,6 +1,8 @@
 import { NextRequest, NextResponse } from "next/server";
 import { auth } from "@/auth";
 import { ReadingAssistantService } from "@/services/readingAssistant";
+import { ensureAICredits, InsufficientCreditsError } from "@/services/aiCredits";
+import { withAIRateLimit } from "@/services/aiRateLimit";
 import { z } from "zod";
 
 // Schema for streaming reading assistant request
@@ -15,7 +17,7 @@ const streamingAssistantSchema = z.object({
 });
 
 // POST /api/reading-assistant/stream - Stream a response from the reading assistant
-export async function POST(request: NextRequest) {
+export const POST = withAIRateLimit(async function POST(request: NextRequest) {
   try {
     const session = await auth();
     if (!session?.user?.id) {
@@ -25,6 +27,9 @@ export async function POST(request: NextRequest) {
     const body = await request.json();
     const validatedData = streamingAssistantSchema.parse(body);
 
+    // Check the user can pay for the request
+    await ensureAICredits(session.user.id);
+
     // Create a readable stream
     const stream = new ReadableStream({
       async start(controller) {
@@ -59,6 +64,13 @@ export async function POST(request: NextRequest) {
   } catch (error) {
     console.error("Error setting up reading assistant stream:", error);
     
+    if (error instanceof InsufficientCreditsError) {
+      return NextResponse.json(
+        { error: "Insufficient credits", required: error.required, available: error.available },
+        { status: 402 }
+      );
+    }
+
     if (error instanceof z.ZodError) {
       return NextResponse.json(
         { error: "Validation failed", details: error.errors },
@@ -71,4 +83,4 @@ export async function POST(request: NextRequest) {
       { status: 500 }
     );
   }
-}
\ No newline at end of file
+});
\ No newline at end of file
@@ -0,0 +1,33 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@/auth";
+import { ReadingGoalService } from "@/services/readingGoals";
+
+// DELETE /api/reading-goals/[goalId] - Remove a reading goal
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ goalId: string }> }
+) {
+  try {
+    const { goalId } = await params;
+    const session = await auth();
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    await ReadingGoalService.deleteGoal(session.user.id, goalId);
+
+    return NextResponse.json({ message: "Goal deleted successfully" });
+  } catch (error) {
+    console.error("Error deleting reading goal:", error);
+
+    if (error instanceof Error && error.message === "Goal not found") {
+      return NextResponse.json({ error: "Goal not found" }, { status: 404 });
+    }
+
+    return NextResponse.json(
+      { error: "Failed to delete reading goal" },
+      { status: 500 }
+    );
+  }
+}
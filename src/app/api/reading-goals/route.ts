@@ -0,0 +1,66 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@/auth";
+import { ReadingGoalService, READING_GOAL_TYPES } from "@/services/readingGoals";
+import { ReadingGoalType } from "@/types/book";
+import { z } from "zod";
+
+// Schema for setting a reading goal
+const setGoalSchema = z.object({
+  goal_type: z.enum(READING_GOAL_TYPES as [ReadingGoalType, ...ReadingGoalType[]]),
+  target_value: z.number().int().positive().max(100000)
+});
+
+// GET /api/reading-goals - Get user's goals with progress and pace
+export async function GET(request: NextRequest) {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const goals = await ReadingGoalService.getGoalProgress(session.user.id);
+    return NextResponse.json({ goals });
+  } catch (error) {
+    console.error("Error fetching reading goals:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch reading goals" },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/reading-goals - Create or update a goal of the given type
+export async function POST(request: NextRequest) {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const body = await request.json();
+    const validatedData = setGoalSchema.parse(body);
+
+    const goal = await ReadingGoalService.setGoal(
+      session.user.id,
+      validatedData.goal_type,
+      validatedData.target_value
+    );
+    const progress = await ReadingGoalService.calculateGoalProgress(session.user.id, goal);
+
+    return NextResponse.json({ goal: progress });
+  } catch (error) {
+    console.error("Error setting reading goal:", error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: "Validation failed", details: error.errors },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: "Failed to set reading goal" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,149 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@/auth";
+import { EmptyRecapError, ReadingRecapService } from "@/services/readingRecap";
+import { ensureAICredits, InsufficientCreditsError } from "@/services/aiCredits";
+import { withAIRateLimit } from "@/services/aiRateLimit";
+import { z } from "zod";
+
+// Schema for the recap year in the path; the current year can be recapped while it runs
+const yearSchema = z.coerce.number().int().min(1900).refine(
+  year => year <= new Date().getFullYear() + 1,
+  "Year is in the future"
+);
+
+// Schema for recap generation
+const generateRecapSchema = z.object({
+  narrative: z.boolean().optional()
+});
+
+// Schema for recap sharing
+const shareRecapSchema = z.object({
+  is_public: z.boolean()
+});
+
+// GET /api/reading-recap/[year] - Get the year's figures and the saved recap, if any
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ year: string }> }
+) {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const year = yearSchema.parse((await params).year);
+
+    const [stats, recap] = await Promise.all([
+      ReadingRecapService.getYearStats(session.user.id, year),
+      ReadingRecapService.getRecap(session.user.id, year)
+    ]);
+
+    return NextResponse.json({ stats, recap });
+  } catch (error) {
+    console.error("Error fetching reading recap:", error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: "Validation failed", details: error.errors },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: "Failed to fetch reading recap" },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/reading-recap/[year] - Save the year's recap, optionally with an AI-written narrative
+export const POST = withAIRateLimit(async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ year: string }> }
+) {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const year = yearSchema.parse((await params).year);
+    const body = await request.json().catch(() => ({}));
+    const validatedData = generateRecapSchema.parse(body);
+
+    // Check the user can pay for the narrative
+    if (validatedData.narrative) {
+      await ensureAICredits(session.user.id);
+    }
+
+    const recap = await ReadingRecapService.generateRecap(session.user.id, year, {
+      narrative: validatedData.narrative
+    });
+
+    return NextResponse.json({ recap }, { status: 201 });
+  } catch (error) {
+    console.error("Error generating reading recap:", error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: "Validation failed", details: error.errors },
+        { status: 400 }
+      );
+    }
+
+    if (error instanceof EmptyRecapError) {
+      return NextResponse.json({ error: error.message }, { status: 404 });
+    }
+
+    if (error instanceof InsufficientCreditsError) {
+      return NextResponse.json(
+        { error: "Insufficient credits", required: error.required, available: error.available },
+        { status: 402 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: "Failed to generate reading recap" },
+      { status: 500 }
+    );
+  }
+});
+
+// PATCH /api/reading-recap/[year] - Share or unshare the saved recap
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ year: string }> }
+) {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const year = yearSchema.parse((await params).year);
+    const body = await request.json();
+    const validatedData = shareRecapSchema.parse(body);
+
+    const recap = await ReadingRecapService.setSharing(session.user.id, year, validatedData.is_public);
+    if (!recap) {
+      return NextResponse.json({ error: "Recap not found" }, { status: 404 });
+    }
+
+    return NextResponse.json({ recap });
+  } catch (error) {
+    console.error("Error updating reading recap:", error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: "Validation failed", details: error.errors },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: "Failed to update reading recap" },
+      { status: 500 }
+    );
+  }
+}
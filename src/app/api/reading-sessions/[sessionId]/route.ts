@@ -1,6 +1,6 @@
 import { NextRequest, NextResponse } from "next/server";
 import { auth } from "@/auth";
-import { ReadingProgressService } from "@/services/readingProgress";
+import { ReadingProgressService, InvalidSessionError, SessionOverlapError } from "@/services/readingProgress";
 import { z } from "zod";
 
 // Schema for updating session progress
@@ -9,6 +9,24 @@ const updateSessionSchema = z.object({
   notes: z.string().optional()
 });
 
+// Schema for editing a finished session
+const editSessionSchema = z.object({
+  session_start: z.string().datetime({ offset: true }).optional(),
+  session_end: z.string().datetime({ offset: true }).optional(),
+  duration_minutes: z.number().int().positive().optional(),
+  start_page: z.number().int().positive().optional(),
+  end_page: z.number().int().positive().optional(),
+  pages_read: z.number().int().min(0).optional(),
+  notes: z.string().optional(),
+  mood: z.string().optional(),
+  location: z.string().optional()
+});
+
+// Schema for pausing, resuming or keeping a session alive
+const sessionActionSchema = z.object({
+  action: z.enum(["pause", "resume", "heartbeat"])
+});
+
 // PUT /api/reading-sessions/[sessionId] - Update session progress
 export async function PUT(
   request: NextRequest,
@@ -26,6 +44,7 @@ export async function PUT(
     const validatedData = updateSessionSchema.parse(body);
 
     await ReadingProgressService.updateSessionProgress(
+      session.user.id,
       sessionId,
       validatedData.current_page,
       validatedData.notes
@@ -42,9 +61,146 @@ export async function PUT(
       );
     }
 
+    if (error instanceof Error && error.message === "Session not found") {
+      return NextResponse.json({ error: error.message }, { status: 404 });
+    }
+
     return NextResponse.json(
       { error: "Failed to update session" },
       { status: 500 }
     );
   }
+}
+
+// POST /api/reading-sessions/[sessionId] - Pause or resume a session, or report activity
+// Body: { action: "pause" | "resume" | "heartbeat" } - paused time is not counted as reading
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ sessionId: string }> }
+) {
+  try {
+    const { sessionId } = await params;
+    const session = await auth();
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const body = await request.json();
+    const { action } = sessionActionSchema.parse(body);
+
+    let readingSession;
+    if (action === "pause") {
+      readingSession = await ReadingProgressService.pauseReadingSession(session.user.id, sessionId);
+    } else if (action === "resume") {
+      readingSession = await ReadingProgressService.resumeReadingSession(session.user.id, sessionId);
+    } else {
+      readingSession = await ReadingProgressService.recordSessionActivity(session.user.id, sessionId);
+    }
+
+    return NextResponse.json({ session: readingSession });
+  } catch (error) {
+    console.error("Error changing reading session state:", error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: "Validation failed", details: error.errors },
+        { status: 400 }
+      );
+    }
+
+    if (error instanceof Error && error.message === "Session not found") {
+      return NextResponse.json({ error: error.message }, { status: 404 });
+    }
+
+    if (error instanceof Error && (error.message === "Session is not active" || error.message === "Session is not paused")) {
+      return NextResponse.json({ error: error.message }, { status: 409 });
+    }
+
+    return NextResponse.json(
+      { error: "Failed to change session state" },
+      { status: 500 }
+    );
+  }
+}
+
+// PATCH /api/reading-sessions/[sessionId] - Edit a finished session (times, minutes, pages, notes)
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ sessionId: string }> }
+) {
+  try {
+    const { sessionId } = await params;
+    const session = await auth();
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const body = await request.json();
+    const validatedData = editSessionSchema.parse(body);
+
+    const readingSession = await ReadingProgressService.updatePastSession(session.user.id, sessionId, {
+      ...validatedData,
+      session_start: validatedData.session_start ? new Date(validatedData.session_start) : undefined,
+      session_end: validatedData.session_end ? new Date(validatedData.session_end) : undefined
+    });
+
+    return NextResponse.json({ session: readingSession });
+  } catch (error) {
+    console.error("Error editing reading session:", error);
+    return sessionChangeErrorResponse(error, "Failed to edit session");
+  }
+}
+
+// DELETE /api/reading-sessions/[sessionId] - Delete a finished session
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ sessionId: string }> }
+) {
+  try {
+    const { sessionId } = await params;
+    const session = await auth();
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    await ReadingProgressService.deletePastSession(session.user.id, sessionId);
+
+    return NextResponse.json({ message: "Session deleted successfully" });
+  } catch (error) {
+    console.error("Error deleting reading session:", error);
+    return sessionChangeErrorResponse(error, "Failed to delete session");
+  }
+}
+
+function sessionChangeErrorResponse(error: unknown, fallback: string) {
+  if (error instanceof z.ZodError) {
+    return NextResponse.json(
+      { error: "Validation failed", details: error.errors },
+      { status: 400 }
+    );
+  }
+
+  if (error instanceof InvalidSessionError) {
+    return NextResponse.json({ error: error.message }, { status: 400 });
+  }
+
+  if (error instanceof SessionOverlapError) {
+    return NextResponse.json(
+      { error: error.message, conflicting_session: error.conflicting },
+      { status: 409 }
+    );
+  }
+
+  if (error instanceof Error && error.message === "Session not found") {
+    return NextResponse.json({ error: error.message }, { status: 404 });
+  }
+
+  if (error instanceof Error && error.message === "Only finished sessions can be changed") {
+    return NextResponse.json({ error: error.message }, { status: 409 });
+  }
+
+  return NextResponse.json({ error: fallback }, { status: 500 });
 }
\ No newline at end of file
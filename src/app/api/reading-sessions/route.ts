@@ -1,6 +1,6 @@
 import { NextRequest, NextResponse } from "next/server";
 import { auth } from "@/auth";
-import { ReadingProgressService } from "@/services/readingProgress";
+import { ReadingProgressService, InvalidSessionError, SessionOverlapError } from "@/services/readingProgress";
 import { z } from "zod";
 
 // Schema for starting a reading session
@@ -18,7 +18,24 @@ const endSessionSchema = z.object({
   mood: z.string().optional()
 });
 
-// POST /api/reading-sessions - Start a new reading session
+// Schema for logging a past reading session
+const logSessionSchema = z.object({
+  book_uuid: z.string().uuid(),
+  session_start: z.string().datetime({ offset: true }),
+  session_end: z.string().datetime({ offset: true }).optional(),
+  duration_minutes: z.number().int().positive().optional(),
+  start_page: z.number().int().positive().optional(),
+  end_page: z.number().int().positive().optional(),
+  pages_read: z.number().int().min(0).optional(),
+  notes: z.string().optional(),
+  mood: z.string().optional(),
+  location: z.string().optional()
+}).refine(data => data.session_end || data.duration_minutes, {
+  message: "Either session_end or duration_minutes is required",
+  path: ["session_end"]
+});
+
+// POST /api/reading-sessions - Start or end a reading session, or log a past one (action: start | end | log)
 export async function POST(request: NextRequest) {
   try {
     const session = await auth();
@@ -56,6 +73,18 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ session: readingSession });
     }
 
+    if (action === "log") {
+      const validatedData = logSessionSchema.parse(body);
+
+      const readingSession = await ReadingProgressService.logPastSession(session.user.id, {
+        ...validatedData,
+        session_start: new Date(validatedData.session_start),
+        session_end: validatedData.session_end ? new Date(validatedData.session_end) : undefined
+      });
+
+      return NextResponse.json({ session: readingSession }, { status: 201 });
+    }
+
     return NextResponse.json({ error: "Invalid action" }, { status: 400 });
   } catch (error) {
     console.error("Error managing reading session:", error);
@@ -67,6 +96,21 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    if (error instanceof InvalidSessionError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+
+    if (error instanceof SessionOverlapError) {
+      return NextResponse.json(
+        { error: error.message, conflicting_session: error.conflicting },
+        { status: 409 }
+      );
+    }
+
+    if (error instanceof Error && error.message === "Book not in library") {
+      return NextResponse.json({ error: error.message }, { status: 404 });
+    }
+
     return NextResponse.json(
       { error: "Failed to manage reading session" },
       { status: 500 }
@@ -0,0 +1,58 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@/auth";
+import { AnalyticsRangeError, ReadingProgressService } from "@/services/readingProgress";
+import { addDays } from "@/lib/readingDays";
+import { z } from "zod";
+
+// A calendar date in the user's timezone, e.g. 2025-03-14
+const localDateSchema = z
+  .string()
+  .regex(/^\d{4}-\d{2}-\d{2}$/, "Expected a date as YYYY-MM-DD")
+  .refine(date => addDays(date, 0) === date, "Invalid date");
+
+// Schema for the analytics range and grouping
+const seriesQuerySchema = z.object({
+  granularity: z.enum(['day', 'week', 'month']).default('day'),
+  from: localDateSchema.optional(),
+  to: localDateSchema.optional()
+});
+
+// GET /api/reading-stats/series - Get reading trends, heatmap and breakdowns over a date range
+export async function GET(request: NextRequest) {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { searchParams } = new URL(request.url);
+    const query = seriesQuerySchema.parse(Object.fromEntries(searchParams.entries()));
+
+    const analytics = await ReadingProgressService.getReadingAnalytics(
+      session.user.id,
+      query.granularity,
+      query.from,
+      query.to
+    );
+
+    return NextResponse.json({ analytics });
+  } catch (error) {
+    console.error("Error fetching reading analytics:", error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: "Validation failed", details: error.errors },
+        { status: 400 }
+      );
+    }
+
+    if (error instanceof AnalyticsRangeError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+
+    return NextResponse.json(
+      { error: "Failed to fetch reading analytics" },
+      { status: 500 }
+    );
+  }
+}
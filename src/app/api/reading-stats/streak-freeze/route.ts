@@ -0,0 +1,68 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@/auth";
+import { ReadingStreakService, StreakFreezeError } from "@/services/readingStreaks";
+import { z } from "zod";
+
+// Schema for freezing a missed day
+const streakFreezeSchema = z.object({
+  // YYYY-MM-DD in the user's timezone, defaults to yesterday
+  date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/).optional()
+});
+
+// GET /api/reading-stats/streak-freeze - Get streaks and the user's frozen days
+export async function GET() {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const [streaks, freezes] = await Promise.all([
+      ReadingStreakService.getStreaks(session.user.id),
+      ReadingStreakService.getFreezeDates(session.user.id)
+    ]);
+
+    return NextResponse.json({ streaks, freezes });
+  } catch (error) {
+    console.error("Error fetching streak freezes:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch streak freezes" },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/reading-stats/streak-freeze - Freeze a missed day so the streak carries on
+export async function POST(request: NextRequest) {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const body = await request.json().catch(() => ({}));
+    const validatedData = streakFreezeSchema.parse(body);
+
+    const streaks = await ReadingStreakService.freezeDay(session.user.id, validatedData.date);
+
+    return NextResponse.json({ streaks }, { status: 201 });
+  } catch (error) {
+    console.error("Error freezing streak day:", error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: "Validation failed", details: error.errors },
+        { status: 400 }
+      );
+    }
+
+    if (error instanceof StreakFreezeError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+
+    return NextResponse.json(
+      { error: "Failed to freeze streak day" },
+      { status: 500 }
+    );
+  }
+}
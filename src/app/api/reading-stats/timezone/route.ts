@@ -0,0 +1,71 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@/auth";
+import { ReadingStreakService } from "@/services/readingStreaks";
+import { isValidTimezone } from "@/lib/readingDays";
+import { z } from "zod";
+
+// Schema for the timezone reading days are counted in
+const timezoneSchema = z.object({
+  timezone: z.string().min(1).max(64).refine(isValidTimezone, "Unknown timezone"),
+  // set by clients reporting the browser's timezone, so a chosen timezone is kept
+  only_if_unset: z.boolean().optional()
+});
+
+// GET /api/reading-stats/timezone - Get the timezone used for streaks and daily stats
+export async function GET() {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const [timezone, isSet] = await Promise.all([
+      ReadingStreakService.getUserTimezone(session.user.id),
+      ReadingStreakService.hasUserTimezone(session.user.id)
+    ]);
+
+    return NextResponse.json({ timezone, is_set: isSet });
+  } catch (error) {
+    console.error("Error fetching timezone:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch timezone" },
+      { status: 500 }
+    );
+  }
+}
+
+// PUT /api/reading-stats/timezone - Set the timezone used for streaks and daily stats
+export async function PUT(request: NextRequest) {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const body = await request.json();
+    const validatedData = timezoneSchema.parse(body);
+
+    if (validatedData.only_if_unset && await ReadingStreakService.hasUserTimezone(session.user.id)) {
+      const timezone = await ReadingStreakService.getUserTimezone(session.user.id);
+      return NextResponse.json({ timezone, is_set: true });
+    }
+
+    const timezone = await ReadingStreakService.setUserTimezone(session.user.id, validatedData.timezone);
+
+    return NextResponse.json({ timezone, is_set: true });
+  } catch (error) {
+    console.error("Error updating timezone:", error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: "Validation failed", details: error.errors },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: "Failed to update timezone" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,107 @@
+import { NextRequest, NextResponse } from "next/server";
+import { ImageResponse } from "next/og";
+import { auth } from "@/auth";
+import { ReadingRecapService } from "@/services/readingRecap";
+
+const WIDTH = 1200;
+const HEIGHT = 630;
+
+function formatMonth(month: string): string {
+  return new Date(`${month}-01T00:00:00Z`).toLocaleDateString("en-US", { month: "long", timeZone: "UTC" });
+}
+
+// GET /api/recaps/[uuid]/image - Render a shared reading recap as a PNG card
+// Query: download=1 to save the image rather than display it
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ uuid: string }> }
+) {
+  try {
+    const { uuid } = await params;
+    const session = await auth();
+
+    const recap = await ReadingRecapService.getSharedRecap(uuid, session?.user?.id);
+    if (!recap) {
+      return NextResponse.json({ error: "Recap not found" }, { status: 404 });
+    }
+
+    const { stats } = recap;
+    const ownerName = recap.owner.nickname || "A reader";
+    const figures = [
+      { label: "books finished", value: stats.books_finished.toLocaleString("en-US") },
+      { label: "pages", value: Math.max(stats.pages_read, stats.pages_finished).toLocaleString("en-US") },
+      { label: "hours read", value: Math.round(stats.minutes_read / 60).toLocaleString("en-US") },
+      { label: "reading days", value: stats.reading_days.toLocaleString("en-US") }
+    ];
+    const highlights = [
+      stats.top_genres[0] && { label: "Top genre", value: stats.top_genres[0].name },
+      stats.top_authors[0] && { label: "Most read author", value: stats.top_authors[0].name },
+      stats.busiest_month && { label: "Busiest month", value: formatMonth(stats.busiest_month.month) },
+      stats.top_rated_books[0] && { label: "Favourite book", value: stats.top_rated_books[0].title }
+    ].filter((highlight): highlight is { label: string; value: string } => !!highlight);
+
+    const { searchParams } = new URL(request.url);
+    // A private recap is only shown to its owner, so shared caches must not keep it. Public cards are
+    // cached briefly and revalidated, so unsharing takes the card out of shared caches within a minute.
+    const headers: Record<string, string> = {
+      "Cache-Control": recap.is_public ? "public, max-age=0, s-maxage=60, must-revalidate" : "private, no-store"
+    };
+    if (searchParams.get("download") === "1") {
+      headers["Content-Disposition"] = `attachment; filename="year-in-books-${recap.year}.png"`;
+    }
+
+    return new ImageResponse(
+      (
+        <div
+          style={{
+            width: "100%",
+            height: "100%",
+            display: "flex",
+            flexDirection: "column",
+            justifyContent: "space-between",
+            padding: "64px 72px",
+            background: "linear-gradient(135deg, #1e1b4b 0%, #312e81 55%, #4338ca 100%)",
+            color: "#ffffff",
+            fontFamily: "sans-serif"
+          }}
+        >
+          <div style={{ display: "flex", flexDirection: "column" }}>
+            <div style={{ display: "flex", fontSize: 28, color: "#c7d2fe" }}>
+              {ownerName}&apos;s
+            </div>
+            <div style={{ display: "flex", fontSize: 72, fontWeight: 700 }}>
+              {recap.year} in books
+            </div>
+          </div>
+
+          <div style={{ display: "flex", gap: 48 }}>
+            {figures.map(figure => (
+              <div key={figure.label} style={{ display: "flex", flexDirection: "column" }}>
+                <div style={{ display: "flex", fontSize: 64, fontWeight: 700 }}>{figure.value}</div>
+                <div style={{ display: "flex", fontSize: 24, color: "#c7d2fe" }}>{figure.label}</div>
+              </div>
+            ))}
+          </div>
+
+          <div style={{ display: "flex", flexWrap: "wrap", gap: 40 }}>
+            {highlights.map(highlight => (
+              <div key={highlight.label} style={{ display: "flex", flexDirection: "column", maxWidth: 480 }}>
+                <div style={{ display: "flex", fontSize: 20, color: "#a5b4fc" }}>{highlight.label}</div>
+                <div style={{ display: "flex", fontSize: 30, fontWeight: 600 }}>{highlight.value}</div>
+              </div>
+            ))}
+          </div>
+
+          <div style={{ display: "flex", fontSize: 22, color: "#a5b4fc" }}>BooksOfLife</div>
+        </div>
+      ),
+      { width: WIDTH, height: HEIGHT, headers }
+    );
+  } catch (error) {
+    console.error("Error rendering reading recap image:", error);
+    return NextResponse.json(
+      { error: "Failed to render reading recap image" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,27 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@/auth";
+import { ReadingRecapService } from "@/services/readingRecap";
+
+// GET /api/recaps/[uuid] - Get a shared reading recap (no authentication required when public)
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ uuid: string }> }
+) {
+  try {
+    const { uuid } = await params;
+    const session = await auth();
+
+    const recap = await ReadingRecapService.getSharedRecap(uuid, session?.user?.id);
+    if (!recap) {
+      return NextResponse.json({ error: "Recap not found" }, { status: 404 });
+    }
+
+    return NextResponse.json({ recap });
+  } catch (error) {
+    console.error("Error fetching shared reading recap:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch reading recap" },
+      { status: 500 }
+    );
+  }
+}
@@ -1,7 +1,7 @@
 "use client";
 
 import { useState } from "react";
-import { ArrowLeft, Calendar, Clock, BookOpen, Star } from "lucide-react";
+import { ArrowLeft, Calendar, Clock, BookOpen, Star, Plus, Pencil, Trash2 } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
@@ -10,9 +10,12 @@ import { Separator } from "@/components/ui/separator";
 import { BookCover } from "@/components/ui/books/book-cover";
 import { ReadingSessionTracker } from "./reading-session-tracker";
 import { ReadingAssistant } from "./reading-assistant";
+import { ReadingNotesPanel } from "./reading-notes-panel";
+import { PastSessionDialog } from "./past-session-dialog";
 import { BookListItem, ReadingSession } from "@/types/book";
 import { useTranslations } from "next-intl";
 import { useRouter } from "next/navigation";
+import { toast } from "sonner";
 
 interface BookDetailViewProps {
   bookItem: BookListItem;
@@ -33,6 +36,21 @@ export function BookDetailView({ bookItem, sessions, activeSession }: BookDetail
     window.location.reload();
   };
 
+  const deleteSession = async (session: ReadingSession) => {
+    try {
+      const response = await fetch(`/api/reading-sessions/${session.uuid}`, { method: 'DELETE' });
+      if (!response.ok) {
+        throw new Error('Failed to delete reading session');
+      }
+
+      toast.success('Reading session deleted');
+      handleProgressUpdate();
+    } catch (error) {
+      console.error('Error deleting reading session:', error);
+      toast.error('Failed to delete reading session');
+    }
+  };
+
   const formatDate = (dateString: string | Date) => {
     return new Date(dateString).toLocaleDateString();
   };
@@ -202,13 +220,33 @@ export function BookDetailView({ bookItem, sessions, activeSession }: BookDetail
         />
       </div>
 
+      {/* Notes, Highlights and Bookmarks */}
+      <ReadingNotesPanel
+        book={bookItem}
+        activeSessionUuid={activeSession?.uuid}
+      />
+
       {/* Reading Sessions History */}
       <Card>
         <CardHeader>
-          <CardTitle>Reading History</CardTitle>
-          <CardDescription>
-            Your reading sessions for this book
-          </CardDescription>
+          <div className="flex items-start justify-between gap-4">
+            <div className="space-y-1.5">
+              <CardTitle>Reading History</CardTitle>
+              <CardDescription>
+                Your reading sessions for this book
+              </CardDescription>
+            </div>
+            <PastSessionDialog
+              book={bookItem}
+              onSaved={handleProgressUpdate}
+              trigger={
+                <Button variant="outline" size="sm" className="gap-2">
+                  <Plus className="h-4 w-4" />
+                  Log Past Session
+                </Button>
+              }
+            />
+          </div>
         </CardHeader>
         <CardContent>
           {sessions.length > 0 ? (
@@ -223,6 +261,9 @@ export function BookDetailView({ bookItem, sessions, activeSession }: BookDetail
                       {session.status === "active" && (
                         <Badge variant="secondary" className="text-xs">Active</Badge>
                       )}
+                      {session.status === "paused" && (
+                        <Badge variant="outline" className="text-xs">Paused</Badge>
+                      )}
                     </div>
                     <div className="text-sm text-muted-foreground">
                       {session.session_end && (
@@ -247,11 +288,35 @@ export function BookDetailView({ bookItem, sessions, activeSession }: BookDetail
                     )}
                   </div>
                   
-                  {session.notes && (
-                    <div className="text-sm text-muted-foreground max-w-xs">
-                      "{session.notes}"
-                    </div>
-                  )}
+                  <div className="flex items-center gap-4">
+                    {session.notes && (
+                      <div className="text-sm text-muted-foreground max-w-xs">
+                        "{session.notes}"
+                      </div>
+                    )}
+                    {session.status === "completed" && (
+                      <div className="flex gap-1">
+                        <PastSessionDialog
+                          book={bookItem}
+                          session={session}
+                          onSaved={handleProgressUpdate}
+                          trigger={
+                            <Button variant="ghost" size="icon" aria-label="Edit session">
+                              <Pencil className="h-4 w-4" />
+                            </Button>
+                          }
+                        />
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          aria-label="Delete session"
+                          onClick={() => deleteSession(session)}
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    )}
+                  </div>
                 </div>
               ))}
             </div>
@@ -259,7 +324,7 @@ export function BookDetailView({ bookItem, sessions, activeSession }: BookDetail
             <div className="text-center py-8 text-muted-foreground">
               <BookOpen className="h-12 w-12 mx-auto mb-4 opacity-50" />
               <p>No reading sessions yet</p>
-              <p className="text-sm">Start reading to track your progress!</p>
+              <p className="text-sm">Start reading to track your progress, or log a past session!</p>
             </div>
           )}
         </CardContent>
@@ -94,23 +94,35 @@ export function BookForm({ book, onSubmit, onCancel, isLoading = false, classNam
   };
 
   const handleExternalBookSelect = (externalBook: ExternalBookResult) => {
+    const [primaryAuthor, ...coAuthors] = externalBook.authors;
+    const coverUrl = externalBook.image_links?.medium ||
+      externalBook.image_links?.thumbnail ||
+      externalBook.image_links?.small ||
+      "";
+
     form.setValue("title", externalBook.title);
     form.setValue("subtitle", externalBook.subtitle || "");
-    form.setValue("author", externalBook.authors.join(", "));
-    form.setValue("isbn_10", externalBook.isbn_10 || "");
-    form.setValue("isbn_13", externalBook.isbn_13 || "");
+    form.setValue("author", primaryAuthor || "");
+    form.setValue("co_authors", coAuthors.join(", "));
+    // Only keep identifiers the form schema accepts (ISBN-10 may end in "X")
+    form.setValue("isbn_10", /^\d{10}$/.test(externalBook.isbn_10 || "") ? externalBook.isbn_10! : "");
+    form.setValue("isbn_13", /^\d{13}$/.test(externalBook.isbn_13 || "") ? externalBook.isbn_13! : "");
     form.setValue("genre", externalBook.categories?.[0] || "");
+    form.setValue("sub_genre", externalBook.categories?.[1] || "");
     form.setValue("language", externalBook.language || "en");
     form.setValue("publisher", externalBook.publisher || "");
     form.setValue("page_count", externalBook.page_count || undefined);
     form.setValue("description", externalBook.description || "");
-    form.setValue("cover_url", externalBook.image_links?.thumbnail || "");
+    form.setValue("cover_url", coverUrl);
     
     if (externalBook.published_date) {
-      form.setValue("publication_date", new Date(externalBook.published_date));
+      const publishedDate = new Date(externalBook.published_date);
+      if (!isNaN(publishedDate.getTime())) {
+        form.setValue("publication_date", publishedDate);
+      }
     }
 
-    setPreviewImage(externalBook.image_links?.thumbnail || "");
+    setPreviewImage(coverUrl);
     setShowSearch(false);
   };
 
@@ -1,7 +1,11 @@
 "use client";
 
 import { useState, useEffect } from "react";
-import { Plus, MoreHorizontal, Edit, Trash2, Share2, Lock, Unlock, Grid, List, Search, Filter, SortAsc } from "lucide-react";
+import { Plus, MoreHorizontal, Edit, Trash2, Share2, Lock, Unlock, Grid, List, Search, Filter, SortAsc, GripVertical, Loader2, X } from "lucide-react";
+import { DndContext, DragEndEvent, KeyboardSensor, PointerSensor, closestCenter, useSensor, useSensors } from "@dnd-kit/core";
+import { SortableContext, arrayMove, sortableKeyboardCoordinates, useSortable, verticalListSortingStrategy } from "@dnd-kit/sortable";
+import { restrictToVerticalAxis } from "@dnd-kit/modifiers";
+import { CSS } from "@dnd-kit/utilities";
 
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
@@ -10,12 +14,15 @@ import { Label } from "@/components/ui/label";
 import { Textarea } from "@/components/ui/textarea";
 import { Badge } from "@/components/ui/badge";
 import { Switch } from "@/components/ui/switch";
+import { Checkbox } from "@/components/ui/checkbox";
+import { ScrollArea } from "@/components/ui/scroll-area";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuSeparator, DropdownMenuTrigger } from "@/components/ui/dropdown-menu";
 import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { BookCover, BookCoverGrid } from "@/components/ui/books/book-cover";
 import { BookList, BookListItem, Book } from "@/types/book";
+import { toast } from "sonner";
 
 interface BookListsProps {
   lists?: BookList[];
@@ -24,6 +31,7 @@ interface BookListsProps {
   onDeleteList?: (listUuid: string) => void;
   onAddBookToList?: (listUuid: string, bookUuid: string) => void;
   onRemoveBookFromList?: (listUuid: string, bookUuid: string) => void;
+  onOpenList?: (list: BookList) => void;
   className?: string;
 }
 
@@ -34,6 +42,7 @@ export function BookLists({
   onDeleteList,
   onAddBookToList,
   onRemoveBookFromList,
+  onOpenList,
   className
 }: BookListsProps) {
   const [viewMode, setViewMode] = useState<"grid" | "list">("grid");
@@ -176,6 +185,7 @@ export function BookLists({
               onDelete={onDeleteList}
               onAddBook={onAddBookToList}
               onRemoveBook={onRemoveBookFromList}
+              onOpen={onOpenList}
             />
           ))}
         </div>
@@ -191,118 +201,124 @@ interface BookListCardProps {
   onDelete?: (listUuid: string) => void;
   onAddBook?: (listUuid: string, bookUuid: string) => void;
   onRemoveBook?: (listUuid: string, bookUuid: string) => void;
+  onOpen?: (list: BookList) => void;
 }
 
-function BookListCard({ list, viewMode, onUpdate, onDelete, onAddBook, onRemoveBook }: BookListCardProps) {
+function BookListCard({ list, viewMode, onUpdate, onDelete, onAddBook, onRemoveBook, onOpen }: BookListCardProps) {
   const [showEditDialog, setShowEditDialog] = useState(false);
 
-  const mockBooks = [
-    { id: "1", title: "Sample Book 1", author: "Author 1", cover_url: "" },
-    { id: "2", title: "Sample Book 2", author: "Author 2", cover_url: "" },
-    { id: "3", title: "Sample Book 3", author: "Author 3", cover_url: "" },
-    { id: "4", title: "Sample Book 4", author: "Author 4", cover_url: "" }
-  ];
+  const previewBooks = (list.preview_books || []).map(book => ({
+    id: book.uuid,
+    title: book.title,
+    author: book.author,
+    cover_url: book.cover_url
+  }));
 
   if (viewMode === "list") {
     return (
-      <Card className="hover:shadow-md transition-shadow">
-        <CardContent className="p-4">
-          <div className="flex items-start gap-4">
-            <div className="flex-1">
-              <div className="flex items-start justify-between mb-2">
-                <div>
-                  <h3 className="font-semibold text-lg">{list.name}</h3>
-                  <p className="text-sm text-muted-foreground">
-                    {list.book_count || 0} books
-                  </p>
-                </div>
-                <div className="flex items-center gap-2">
-                  {list.is_public ? (
-                    <Badge variant="secondary">Public</Badge>
-                  ) : (
-                    <Badge variant="outline">Private</Badge>
-                  )}
-                  {list.is_default && <Badge>Default</Badge>}
-                  <ListActions 
-                    list={list} 
-                    onEdit={() => setShowEditDialog(true)}
-                    onDelete={() => onDelete?.(list.uuid)}
-                  />
+      <>
+        <Card className="hover:shadow-md transition-shadow cursor-pointer" onClick={() => onOpen?.(list)}>
+          <CardContent className="p-4">
+            <div className="flex items-start gap-4">
+              <div className="flex-1">
+                <div className="flex items-start justify-between mb-2">
+                  <div>
+                    <h3 className="font-semibold text-lg">{list.name}</h3>
+                    <p className="text-sm text-muted-foreground">
+                      {list.book_count || 0} books
+                    </p>
+                  </div>
+                  <div className="flex items-center gap-2" onClick={(e) => e.stopPropagation()}>
+                    {list.is_public ? (
+                      <Badge variant="secondary">Public</Badge>
+                    ) : (
+                      <Badge variant="outline">Private</Badge>
+                    )}
+                    {list.is_default && <Badge>Default</Badge>}
+                    <ListActions 
+                      list={list} 
+                      onEdit={() => setShowEditDialog(true)}
+                      onDelete={() => onDelete?.(list.uuid)}
+                    />
+                  </div>
                 </div>
-              </div>
               
-              {list.description && (
-                <p className="text-sm text-muted-foreground mb-3 line-clamp-2">
-                  {list.description}
-                </p>
-              )}
+                {list.description && (
+                  <p className="text-sm text-muted-foreground mb-3 line-clamp-2">
+                    {list.description}
+                  </p>
+                )}
               
-              <BookCoverGrid 
-                books={mockBooks} 
-                size="xs" 
-                maxItems={8} 
-              />
+                <BookCoverGrid 
+                  books={previewBooks} 
+                  size="xs" 
+                  maxItems={8} 
+                />
+              </div>
             </div>
-          </div>
-        </CardContent>
-        
+          </CardContent>
+        </Card>
+
         <EditListDialog
           list={list}
           open={showEditDialog}
           onOpenChange={setShowEditDialog}
           onSubmit={(updates) => onUpdate?.(list.uuid, updates)}
         />
-      </Card>
+      </>
     );
   }
 
   return (
-    <Card className="hover:shadow-md transition-shadow cursor-pointer group">
-      <CardHeader className="pb-3">
-        <div className="flex items-start justify-between">
-          <div className="flex-1">
-            <CardTitle className="text-base line-clamp-1">{list.name}</CardTitle>
-            <CardDescription>
-              {list.book_count || 0} books
-            </CardDescription>
-          </div>
-          <div className="flex items-center gap-2 opacity-0 group-hover:opacity-100 transition-opacity">
-            {list.is_public ? (
-              <Badge variant="secondary" className="text-xs">Public</Badge>
-            ) : (
-              <Badge variant="outline" className="text-xs">Private</Badge>
-            )}
-            {list.is_default && <Badge className="text-xs">Default</Badge>}
-            <ListActions 
-              list={list} 
-              onEdit={() => setShowEditDialog(true)}
-              onDelete={() => onDelete?.(list.uuid)}
-            />
+    <>
+      {/* Edit dialog sits outside the card so clicks inside it don't open the list */}
+      <Card className="hover:shadow-md transition-shadow cursor-pointer group" onClick={() => onOpen?.(list)}>
+        <CardHeader className="pb-3">
+          <div className="flex items-start justify-between">
+            <div className="flex-1">
+              <CardTitle className="text-base line-clamp-1">{list.name}</CardTitle>
+              <CardDescription>
+                {list.book_count || 0} books
+              </CardDescription>
+            </div>
+            <div className="flex items-center gap-2 opacity-0 group-hover:opacity-100 transition-opacity" onClick={(e) => e.stopPropagation()}>
+              {list.is_public ? (
+                <Badge variant="secondary" className="text-xs">Public</Badge>
+              ) : (
+                <Badge variant="outline" className="text-xs">Private</Badge>
+              )}
+              {list.is_default && <Badge className="text-xs">Default</Badge>}
+              <ListActions 
+                list={list} 
+                onEdit={() => setShowEditDialog(true)}
+                onDelete={() => onDelete?.(list.uuid)}
+              />
+            </div>
           </div>
-        </div>
-      </CardHeader>
+        </CardHeader>
       
-      <CardContent className="pt-0">
-        {list.description && (
-          <p className="text-sm text-muted-foreground line-clamp-2 mb-3">
-            {list.description}
-          </p>
-        )}
+        <CardContent className="pt-0">
+          {list.description && (
+            <p className="text-sm text-muted-foreground line-clamp-2 mb-3">
+              {list.description}
+            </p>
+          )}
         
-        <BookCoverGrid 
-          books={mockBooks} 
-          size="xs" 
-          maxItems={6} 
-        />
-      </CardContent>
-      
+          <BookCoverGrid 
+            books={previewBooks} 
+            size="xs" 
+            maxItems={6} 
+          />
+        </CardContent>
+      </Card>
+
       <EditListDialog
         list={list}
         open={showEditDialog}
         onOpenChange={setShowEditDialog}
         onSubmit={(updates) => onUpdate?.(list.uuid, updates)}
       />
-    </Card>
+    </>
   );
 }
 
@@ -313,6 +329,16 @@ interface ListActionsProps {
 }
 
 function ListActions({ list, onEdit, onDelete }: ListActionsProps) {
+  const handleShare = async () => {
+    try {
+      await navigator.clipboard.writeText(`${window.location.origin}/lists/${list.uuid}`);
+      toast.success("Share link copied to clipboard");
+    } catch (error) {
+      console.error("Error copying share link:", error);
+      toast.error("Failed to copy share link");
+    }
+  };
+
   return (
     <DropdownMenu>
       <DropdownMenuTrigger asChild>
@@ -327,7 +353,7 @@ function ListActions({ list, onEdit, onDelete }: ListActionsProps) {
           Edit List
         </DropdownMenuItem>
         {list.is_public && (
-          <DropdownMenuItem>
+          <DropdownMenuItem onClick={handleShare}>
             <Share2 className="h-4 w-4 mr-2" />
             Share List
           </DropdownMenuItem>
@@ -538,4 +564,439 @@ function EditListDialog({ list, open, onOpenChange, onSubmit }: EditListDialogPr
       </DialogContent>
     </Dialog>
   );
-}
\ No newline at end of file
+}
+// Loads the user's lists and wires the list UI to the book list API
+export function BookListsManager({ className }: { className?: string }) {
+  const [lists, setLists] = useState<BookList[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [openListUuid, setOpenListUuid] = useState<string | null>(null);
+
+  useEffect(() => {
+    loadLists();
+  }, []);
+
+  const loadLists = async () => {
+    try {
+      const response = await fetch('/api/book-lists');
+      if (response.ok) {
+        const data = await response.json();
+        setLists(data.bookLists);
+      }
+    } catch (error) {
+      console.error("Error loading book lists:", error);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const requestJson = async (url: string, method: string, body?: unknown) => {
+    const response = await fetch(url, {
+      method,
+      headers: body ? { 'Content-Type': 'application/json' } : undefined,
+      body: body ? JSON.stringify(body) : undefined
+    });
+    const data = await response.json();
+    if (!response.ok) {
+      throw new Error(data.error || 'Request failed');
+    }
+    return data;
+  };
+
+  const handleCreateList = async (list: Omit<BookList, "id" | "uuid" | "created_at" | "updated_at">) => {
+    try {
+      await requestJson('/api/book-lists', 'POST', {
+        name: list.name,
+        description: list.description,
+        is_public: list.is_public
+      });
+      toast.success(`Created "${list.name}"`);
+      loadLists();
+    } catch (error) {
+      console.error("Error creating list:", error);
+      toast.error(error instanceof Error ? error.message : 'Failed to create list');
+    }
+  };
+
+  const handleUpdateList = async (listUuid: string, updates: Partial<BookList>) => {
+    try {
+      await requestJson(`/api/book-lists/${listUuid}`, 'PUT', {
+        name: updates.name,
+        description: updates.description ?? "",
+        is_public: updates.is_public
+      });
+      toast.success('List updated');
+      loadLists();
+    } catch (error) {
+      console.error("Error updating list:", error);
+      toast.error(error instanceof Error ? error.message : 'Failed to update list');
+    }
+  };
+
+  const handleDeleteList = async (listUuid: string) => {
+    try {
+      await requestJson(`/api/book-lists/${listUuid}`, 'DELETE');
+      toast.success('List deleted');
+      setLists(prev => prev.filter(list => list.uuid !== listUuid));
+    } catch (error) {
+      console.error("Error deleting list:", error);
+      toast.error(error instanceof Error ? error.message : 'Failed to delete list');
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center py-8">
+        <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+
+  return (
+    <>
+      <BookLists
+        lists={lists}
+        onCreateList={handleCreateList}
+        onUpdateList={handleUpdateList}
+        onDeleteList={handleDeleteList}
+        onOpenList={(list) => setOpenListUuid(list.uuid)}
+        className={className}
+      />
+
+      <BookListDetailDialog
+        listUuid={openListUuid}
+        lists={lists}
+        onOpenChange={(open) => !open && setOpenListUuid(null)}
+        onChanged={loadLists}
+      />
+    </>
+  );
+}
+
+interface BookListDetailDialogProps {
+  listUuid: string | null;
+  lists: BookList[];
+  onOpenChange: (open: boolean) => void;
+  onChanged: () => void;
+}
+
+function BookListDetailDialog({ listUuid, lists, onOpenChange, onChanged }: BookListDetailDialogProps) {
+  const [list, setList] = useState<BookList | null>(null);
+  const [items, setItems] = useState<BookListItem[]>([]);
+  const [libraryBooks, setLibraryBooks] = useState<Book[]>([]);
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [targetListUuid, setTargetListUuid] = useState<string>("");
+  const [bookToAdd, setBookToAdd] = useState<string>("");
+  const [isLoading, setIsLoading] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const sensors = useSensors(
+    useSensor(PointerSensor, { activationConstraint: { distance: 5 } }),
+    useSensor(KeyboardSensor, { coordinateGetter: sortableKeyboardCoordinates })
+  );
+
+  useEffect(() => {
+    if (listUuid) {
+      setSelected(new Set());
+      setTargetListUuid("");
+      setBookToAdd("");
+      loadList(listUuid);
+      loadLibraryBooks();
+    }
+  }, [listUuid]);
+
+  const loadList = async (uuid: string) => {
+    setIsLoading(true);
+    try {
+      const response = await fetch(`/api/book-lists/${uuid}`);
+      if (response.ok) {
+        const data = await response.json();
+        setList(data.bookList);
+        setItems(data.bookList.items || []);
+      }
+    } catch (error) {
+      console.error("Error loading book list:", error);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const loadLibraryBooks = async () => {
+    try {
+      const response = await fetch('/api/books');
+      if (response.ok) {
+        const data = await response.json();
+        const seen = new Map<string, Book>();
+        (data.books as BookListItem[]).forEach(item => {
+          if (item.book && !seen.has(item.book_uuid)) {
+            seen.set(item.book_uuid, item.book);
+          }
+        });
+        setLibraryBooks(Array.from(seen.values()));
+      }
+    } catch (error) {
+      console.error("Error loading library books:", error);
+    }
+  };
+
+  const runAction = async (action: () => Promise<Response>, successMessage: string) => {
+    if (!listUuid) return;
+
+    setIsSaving(true);
+    try {
+      const response = await action();
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Request failed');
+      }
+      toast.success(successMessage);
+      await loadList(listUuid);
+      onChanged();
+    } catch (error) {
+      console.error("Error updating list items:", error);
+      toast.error(error instanceof Error ? error.message : 'Failed to update list');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDragEnd = async (event: DragEndEvent) => {
+    const { active, over } = event;
+    if (!listUuid || !over || active.id === over.id) return;
+
+    const oldIndex = items.findIndex(item => item.book_uuid === active.id);
+    const newIndex = items.findIndex(item => item.book_uuid === over.id);
+    const reordered = arrayMove(items, oldIndex, newIndex);
+    const previous = items;
+    setItems(reordered);
+
+    try {
+      const response = await fetch(`/api/book-lists/${listUuid}/items`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ book_uuids: reordered.map(item => item.book_uuid) })
+      });
+      if (!response.ok) {
+        throw new Error('Failed to save list order');
+      }
+      onChanged();
+    } catch (error) {
+      console.error("Error saving list order:", error);
+      setItems(previous);
+      toast.error('Failed to save list order');
+    }
+  };
+
+  const handleAddBook = () => {
+    if (!bookToAdd) return;
+    runAction(
+      () => fetch(`/api/book-lists/${listUuid}/items`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ book_uuid: bookToAdd })
+      }),
+      'Book added to list'
+    ).then(() => setBookToAdd(""));
+  };
+
+  const handleRemoveBook = (bookUuid: string) => {
+    runAction(
+      () => fetch(`/api/book-lists/${listUuid}/items?book_uuid=${encodeURIComponent(bookUuid)}`, { method: 'DELETE' }),
+      'Book removed from list'
+    );
+  };
+
+  const handleMoveSelected = () => {
+    if (!targetListUuid || selected.size === 0) return;
+    const target = lists.find(l => l.uuid === targetListUuid);
+    runAction(
+      () => fetch(`/api/book-lists/${listUuid}/items`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ book_uuids: Array.from(selected), target_list_uuid: targetListUuid })
+      }),
+      `Moved ${selected.size} ${selected.size === 1 ? 'book' : 'books'} to "${target?.name}"`
+    ).then(() => setSelected(new Set()));
+  };
+
+  const toggleSelected = (bookUuid: string, checked: boolean) => {
+    setSelected(prev => {
+      const next = new Set(prev);
+      if (checked) {
+        next.add(bookUuid);
+      } else {
+        next.delete(bookUuid);
+      }
+      return next;
+    });
+  };
+
+  // Status shelves and the library list are maintained from reading status, only their order can change
+  const isManagedList = (l: BookList) => l.is_default && l.list_type !== "favorites";
+  const isManaged = list ? isManagedList(list) : false;
+
+  const inList = new Set(items.map(item => item.book_uuid));
+  const availableBooks = libraryBooks.filter(book => !inList.has(book.uuid));
+  const otherLists = lists.filter(l => l.uuid !== listUuid && !isManagedList(l));
+
+  return (
+    <Dialog open={!!listUuid} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>{list?.name || 'Book List'}</DialogTitle>
+          <DialogDescription>
+            {isManaged
+              ? "This shelf updates automatically as your reading status changes. Drag books to reorder them."
+              : "Drag books to reorder them, or select books to move them to another list"}
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoading && !list ? (
+          <div className="flex justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : (
+          <div className="space-y-4">
+            {/* Add book */}
+            {!isManaged && (
+              <div className="flex gap-2">
+                <Select value={bookToAdd} onValueChange={setBookToAdd}>
+                  <SelectTrigger className="flex-1">
+                    <SelectValue placeholder={availableBooks.length > 0 ? "Add a book from your library" : "All your books are on this list"} />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {availableBooks.map(book => (
+                      <SelectItem key={book.uuid} value={book.uuid}>
+                        {book.title} — {book.author}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Button onClick={handleAddBook} disabled={!bookToAdd || isSaving}>
+                  <Plus className="h-4 w-4 mr-2" />
+                  Add
+                </Button>
+              </div>
+            )}
+
+            {/* Bulk move */}
+            {selected.size > 0 && (
+              <div className="flex items-center gap-2 rounded-lg border p-2">
+                <span className="text-sm text-muted-foreground whitespace-nowrap px-2">
+                  {selected.size} selected
+                </span>
+                <Select value={targetListUuid} onValueChange={setTargetListUuid}>
+                  <SelectTrigger className="flex-1">
+                    <SelectValue placeholder="Move to list..." />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {otherLists.map(l => (
+                      <SelectItem key={l.uuid} value={l.uuid}>{l.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Button onClick={handleMoveSelected} disabled={!targetListUuid || isSaving}>
+                  Move
+                </Button>
+              </div>
+            )}
+
+            {/* Items */}
+            {items.length === 0 ? (
+              <div className="text-center py-8 text-muted-foreground">
+                This list has no books yet
+              </div>
+            ) : (
+              <ScrollArea className="h-96 pr-3">
+                <DndContext
+                  sensors={sensors}
+                  collisionDetection={closestCenter}
+                  modifiers={[restrictToVerticalAxis]}
+                  onDragEnd={handleDragEnd}
+                >
+                  <SortableContext items={items.map(item => item.book_uuid)} strategy={verticalListSortingStrategy}>
+                    <div className="space-y-2">
+                      {items.map(item => (
+                        <SortableListItem
+                          key={item.book_uuid}
+                          item={item}
+                          selected={selected.has(item.book_uuid)}
+                          disabled={isSaving}
+                          editable={!isManaged}
+                          onSelect={(checked) => toggleSelected(item.book_uuid, checked)}
+                          onRemove={() => handleRemoveBook(item.book_uuid)}
+                        />
+                      ))}
+                    </div>
+                  </SortableContext>
+                </DndContext>
+              </ScrollArea>
+            )}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+interface SortableListItemProps {
+  item: BookListItem;
+  selected: boolean;
+  disabled: boolean;
+  editable: boolean;
+  onSelect: (checked: boolean) => void;
+  onRemove: () => void;
+}
+
+function SortableListItem({ item, selected, disabled, editable, onSelect, onRemove }: SortableListItemProps) {
+  const { attributes, listeners, setNodeRef, transform, transition, isDragging } = useSortable({ id: item.book_uuid });
+
+  const style = {
+    transform: CSS.Transform.toString(transform),
+    transition
+  };
+
+  return (
+    <div
+      ref={setNodeRef}
+      style={style}
+      className={`flex items-center gap-3 rounded-lg border bg-background p-2 ${isDragging ? "shadow-lg z-10" : ""}`}
+    >
+      <button
+        type="button"
+        className="cursor-grab touch-none text-muted-foreground hover:text-foreground"
+        aria-label="Drag to reorder"
+        {...attributes}
+        {...listeners}
+      >
+        <GripVertical className="h-4 w-4" />
+      </button>
+      {editable && (
+        <Checkbox
+          checked={selected}
+          onCheckedChange={(checked) => onSelect(checked === true)}
+          aria-label={`Select ${item.book?.title}`}
+        />
+      )}
+      <BookCover
+        src={item.book?.cover_url}
+        alt={item.book?.title || ""}
+        title={item.book?.title}
+        author={item.book?.author}
+        size="xs"
+      />
+      <div className="flex-1 min-w-0">
+        <div className="font-medium text-sm line-clamp-1">{item.book?.title}</div>
+        <div className="text-xs text-muted-foreground line-clamp-1">{item.book?.author}</div>
+      </div>
+      <Badge variant="outline" className="text-xs capitalize hidden sm:inline-flex">
+        {item.reading_status.replace(/_/g, ' ')}
+      </Badge>
+      {editable && (
+        <Button variant="ghost" size="sm" className="h-8 w-8 p-0" onClick={onRemove} disabled={disabled}>
+          <X className="h-4 w-4" />
+          <span className="sr-only">Remove from list</span>
+        </Button>
+      )}
+    </div>
+  );
+}
@@ -50,48 +50,18 @@ export function BookSearch({
     setHasSearched(true);
 
     try {
-      // Mock search results for now - replace with actual API call
-      const mockResults: ExternalBookResult[] = [
-        {
-          id: "1",
-          title: "The Great Gatsby",
-          authors: ["F. Scott Fitzgerald"],
-          description: "A classic American novel about the Jazz Age",
-          published_date: "1925",
-          page_count: 180,
-          categories: ["Fiction", "Classic"],
-          language: "en",
-          isbn_10: "0743273567",
-          isbn_13: "9780743273565",
-          image_links: {
-            thumbnail: "https://books.google.com/books/content?id=example&printsec=frontcover&img=1&zoom=1&source=gbs_api"
-          },
-          publisher: "Scribner",
-          source: "google_books" as const
-        },
-        {
-          id: "2", 
-          title: "To Kill a Mockingbird",
-          authors: ["Harper Lee"],
-          description: "A gripping tale of racial injustice and loss of innocence",
-          published_date: "1960",
-          page_count: 376,
-          categories: ["Fiction", "Classic"],
-          language: "en",
-          isbn_10: "0061120081",
-          isbn_13: "9780061120084",
-          image_links: {
-            thumbnail: "https://books.google.com/books/content?id=example2&printsec=frontcover&img=1&zoom=1&source=gbs_api"
-          },
-          publisher: "J.B. Lippincott & Co.",
-          source: "google_books" as const
-        }
-      ].filter(book => 
-        book.title.toLowerCase().includes(searchQuery.toLowerCase()) ||
-        book.authors.some(author => author.toLowerCase().includes(searchQuery.toLowerCase()))
-      );
+      const params = new URLSearchParams({ q: searchQuery.trim() });
+      if (searchFilters.author) params.set('author', searchFilters.author);
+      if (searchFilters.language) params.set('language', searchFilters.language);
+      if (searchFilters.genre) params.set('subject', searchFilters.genre.replace(/-/g, ' '));
 
-      setResults(mockResults);
+      const response = await fetch(`/api/books/lookup?${params}`);
+      if (!response.ok) {
+        throw new Error('Failed to search books');
+      }
+
+      const data = await response.json();
+      setResults(data.results || []);
       setShowResults(true);
     } catch (error) {
       console.error("Error searching books:", error);
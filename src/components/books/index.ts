@@ -3,8 +3,16 @@ export { BookSearch } from './book-search';
 export { LibraryDashboard } from './library-dashboard';
 export { ReadingProgress } from './reading-progress';
 export { BookForm } from './book-form';
-export { BookLists } from './book-lists';
+export { BookLists, BookListsManager } from './book-lists';
 export { BookDetail } from './book-detail';
+export { ReadingNotesPanel } from './reading-notes-panel';
+export { LibraryImport } from './library-import';
+export { LibraryExport } from './library-export';
+export { PublicBookListView } from './public-book-list';
+export { PastSessionDialog } from './past-session-dialog';
+export { ReadingAnalyticsPanel } from './reading-analytics';
+export { YearRecapView } from './year-recap';
+export { YearRecapDialog } from './year-recap-dialog';
 
 // UI components
 export { BookCover, BookCoverGrid } from '../ui/books/book-cover';
@@ -13,7 +13,11 @@ import { BookCover } from "@/components/ui/books/book-cover";
 import { Book, BookList, BookListItem } from "@/types/book";
 import { useTranslations } from "next-intl";
 import { AddBookForm } from "./add-book-form";
+import { LibraryImport } from "./library-import";
+import { LibraryExport } from "./library-export";
+import { YearRecapDialog } from "./year-recap-dialog";
 import { ReadingStatsDashboard } from "./reading-stats-dashboard";
+import { ReadingAnalyticsPanel } from "./reading-analytics";
 import { useRouter } from "next/navigation";
 
 interface LibraryStats {
@@ -116,6 +120,9 @@ export function LibraryDashboard() {
       {/* Reading Statistics Dashboard */}
       <ReadingStatsDashboard />
 
+      {/* Reading Trends */}
+      <ReadingAnalyticsPanel />
+
       {/* Stats Cards */}
       <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-4">
         <Card>
@@ -262,6 +269,9 @@ export function LibraryDashboard() {
                 <SelectItem value="paused">{tStatus('on_hold')}</SelectItem>
               </SelectContent>
             </Select>
+            <LibraryImport onImported={loadLibraryData} />
+            <LibraryExport />
+            <YearRecapDialog />
             <AddBookForm onBookAdded={loadLibraryData} />
           </div>
         </CardHeader>
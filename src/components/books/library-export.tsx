@@ -0,0 +1,44 @@
+"use client";
+
+import { Download } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger
+} from "@/components/ui/dropdown-menu";
+
+const EXPORT_OPTIONS = [
+  { label: 'Full backup (JSON)', href: '/api/library/export?format=json' },
+  { label: 'Goodreads CSV', href: '/api/library/export?format=goodreads' },
+  { label: 'Books CSV', href: '/api/library/export?format=csv&type=books' },
+  { label: 'Reading sessions CSV', href: '/api/library/export?format=csv&type=sessions' },
+  { label: 'Reading notes CSV', href: '/api/library/export?format=csv&type=notes' }
+];
+
+export function LibraryExport() {
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button variant="outline" className="gap-2">
+          <Download className="h-4 w-4" />
+          Export
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end">
+        <DropdownMenuLabel>Export library</DropdownMenuLabel>
+        <DropdownMenuSeparator />
+        {EXPORT_OPTIONS.map((option) => (
+          <DropdownMenuItem key={option.href} asChild>
+            <a href={option.href} download>
+              {option.label}
+            </a>
+          </DropdownMenuItem>
+        ))}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
@@ -0,0 +1,169 @@
+"use client";
+
+import { useState } from "react";
+import { Upload, Loader2, FileSpreadsheet, AlertCircle, CheckCircle2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { LibraryImportResult } from "@/types/book";
+import { toast } from "sonner";
+
+interface LibraryImportProps {
+  onImported?: () => void;
+}
+
+export function LibraryImport({ onImported }: LibraryImportProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [file, setFile] = useState<File | null>(null);
+  const [preview, setPreview] = useState<LibraryImportResult | null>(null);
+  const [isWorking, setIsWorking] = useState(false);
+
+  const runImport = async (dryRun: boolean) => {
+    if (!file) return;
+
+    setIsWorking(true);
+    try {
+      const formData = new FormData();
+      formData.append('file', file);
+      formData.append('dry_run', String(dryRun));
+
+      const response = await fetch('/api/library/import', {
+        method: 'POST',
+        body: formData
+      });
+
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to import library');
+      }
+
+      const result: LibraryImportResult = data.result;
+      setPreview(result);
+
+      if (!dryRun) {
+        toast.success(`Imported ${result.library_added + result.library_updated} books`);
+        onImported?.();
+      }
+    } catch (error) {
+      console.error('Error importing library:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to import library');
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    setFile(e.target.files?.[0] || null);
+    setPreview(null);
+  };
+
+  const handleOpenChange = (open: boolean) => {
+    setIsOpen(open);
+    if (!open) {
+      setFile(null);
+      setPreview(null);
+    }
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        <Button variant="outline" className="gap-2">
+          <Upload className="h-4 w-4" />
+          Import
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-3xl">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <FileSpreadsheet className="h-5 w-5" />
+            Import Library
+          </DialogTitle>
+          <DialogDescription>
+            Upload a Goodreads or StoryGraph CSV export, or a BooksOfLife JSON backup. Preview the changes before importing.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="import-file">Export file</Label>
+            <Input id="import-file" type="file" accept=".csv,.json,text/csv,application/json" onChange={handleFileChange} />
+          </div>
+
+          {preview && (
+            <div className="space-y-3">
+              <div className="flex flex-wrap gap-2 text-sm">
+                <Badge variant="secondary" className="capitalize">{preview.format}</Badge>
+                <Badge variant="outline">{preview.total_rows} rows</Badge>
+                <Badge variant="outline">{preview.books_created} new books</Badge>
+                <Badge variant="outline">{preview.books_matched} matched</Badge>
+                <Badge variant="outline">{preview.library_added} added</Badge>
+                <Badge variant="outline">{preview.library_updated} updated</Badge>
+                {preview.errors > 0 && (
+                  <Badge variant="destructive">{preview.errors} errors</Badge>
+                )}
+              </div>
+
+              <ScrollArea className="h-72 rounded-md border">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead className="w-16">Row</TableHead>
+                      <TableHead>Book</TableHead>
+                      <TableHead>Status</TableHead>
+                      <TableHead>Result</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {preview.rows.map((row) => (
+                      <TableRow key={row.row_number}>
+                        <TableCell className="text-muted-foreground">{row.row_number}</TableCell>
+                        <TableCell>
+                          <div className="font-medium line-clamp-1">{row.title || '—'}</div>
+                          <div className="text-xs text-muted-foreground line-clamp-1">{row.author}</div>
+                        </TableCell>
+                        <TableCell className="text-sm">{row.reading_status?.replace(/_/g, ' ')}</TableCell>
+                        <TableCell>
+                          {row.action === 'error' ? (
+                            <span className="flex items-center gap-1 text-sm text-destructive">
+                              <AlertCircle className="h-3 w-3" />
+                              {row.error}
+                            </span>
+                          ) : (
+                            <span className="flex items-center gap-1 text-sm">
+                              <CheckCircle2 className="h-3 w-3 text-green-600" />
+                              {row.action === 'create' ? 'New book' : `Matched by ${row.matched_by?.replace(/_/g, ' ')}`}
+                              {row.library_action === 'update' && ' • update'}
+                            </span>
+                          )}
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </ScrollArea>
+            </div>
+          )}
+
+          <div className="flex justify-end gap-2">
+            <Button variant="outline" onClick={() => runImport(true)} disabled={!file || isWorking}>
+              {isWorking && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Preview
+            </Button>
+            <Button
+              onClick={() => runImport(false)}
+              disabled={!file || isWorking || !preview?.dry_run}
+            >
+              {isWorking && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Import
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
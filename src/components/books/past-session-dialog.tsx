@@ -0,0 +1,252 @@
+"use client";
+
+import { useState } from "react";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { BookListItem, ReadingSession } from "@/types/book";
+import { toast } from "sonner";
+
+interface PastSessionDialogProps {
+  book: BookListItem;
+  // the session to edit; logs a new one when empty
+  session?: ReadingSession;
+  trigger: React.ReactNode;
+  onSaved?: () => void;
+}
+
+interface PastSessionForm {
+  session_start: string;
+  session_end: string;
+  duration_minutes: string;
+  start_page: string;
+  end_page: string;
+  mood: string;
+  location: string;
+  notes: string;
+}
+
+// datetime-local inputs work in the reader's local time without a zone
+function toLocalInput(date: string | Date | undefined): string {
+  if (!date) return "";
+  const value = new Date(date);
+  return new Date(value.getTime() - value.getTimezoneOffset() * 60000).toISOString().slice(0, 16);
+}
+
+function getInitialForm(session?: ReadingSession): PastSessionForm {
+  return {
+    session_start: toLocalInput(session?.session_start),
+    session_end: toLocalInput(session?.session_end),
+    duration_minutes: session?.reading_duration_minutes ? String(session.reading_duration_minutes) : "",
+    start_page: session?.start_page ? String(session.start_page) : "",
+    end_page: session?.end_page ? String(session.end_page) : "",
+    mood: session?.mood || "",
+    location: session?.location || "",
+    notes: session?.notes || ""
+  };
+}
+
+export function PastSessionDialog({ book, session, trigger, onSaved }: PastSessionDialogProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [form, setForm] = useState<PastSessionForm>(getInitialForm(session));
+
+  const handleOpenChange = (open: boolean) => {
+    setIsOpen(open);
+    if (open) {
+      setForm(getInitialForm(session));
+    }
+  };
+
+  const updateField = (field: keyof PastSessionForm, value: string) => {
+    setForm(prev => ({ ...prev, [field]: value }));
+  };
+
+  const handleSubmit = async () => {
+    if (!form.session_start) {
+      toast.error("When did you start reading?");
+      return;
+    }
+    if (!form.session_end && !form.duration_minutes) {
+      toast.error("Add an end time or how many minutes you read");
+      return;
+    }
+
+    const payload = {
+      session_start: new Date(form.session_start).toISOString(),
+      session_end: form.session_end ? new Date(form.session_end).toISOString() : undefined,
+      duration_minutes: form.duration_minutes ? parseInt(form.duration_minutes) : undefined,
+      start_page: form.start_page ? parseInt(form.start_page) : undefined,
+      end_page: form.end_page ? parseInt(form.end_page) : undefined,
+      mood: form.mood || undefined,
+      location: form.location || undefined,
+      notes: form.notes || undefined
+    };
+
+    setIsSaving(true);
+    try {
+      const response = session
+        ? await fetch(`/api/reading-sessions/${session.uuid}`, {
+            method: 'PATCH',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify(payload)
+          })
+        : await fetch('/api/reading-sessions', {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ action: 'log', book_uuid: book.book_uuid, ...payload })
+          });
+
+      const data = await response.json();
+
+      if (response.status === 409 && data.conflicting_session) {
+        const conflicting = data.conflicting_session as ReadingSession;
+        toast.error(`This overlaps your session of ${new Date(conflicting.session_start).toLocaleString()}`);
+        return;
+      }
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to save reading session');
+      }
+
+      toast.success(session ? 'Reading session updated' : 'Reading session logged');
+      setIsOpen(false);
+      onSaved?.();
+    } catch (error) {
+      console.error('Error saving reading session:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to save reading session');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        {trigger}
+      </DialogTrigger>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>{session ? 'Edit Reading Session' : 'Log Past Session'}</DialogTitle>
+          <DialogDescription>
+            {session
+              ? `Correct the details of this session of "${book.book?.title}"`
+              : `Record reading of "${book.book?.title}" you did away from the app`}
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4">
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="past-session-start">Started</Label>
+              <Input
+                id="past-session-start"
+                type="datetime-local"
+                value={form.session_start}
+                max={toLocalInput(new Date())}
+                onChange={(e) => updateField('session_start', e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="past-session-end">Ended</Label>
+              <Input
+                id="past-session-end"
+                type="datetime-local"
+                value={form.session_end}
+                min={form.session_start || undefined}
+                max={toLocalInput(new Date())}
+                onChange={(e) => updateField('session_end', e.target.value)}
+              />
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="past-session-minutes">Minutes Read</Label>
+            <Input
+              id="past-session-minutes"
+              type="number"
+              min="1"
+              value={form.duration_minutes}
+              onChange={(e) => updateField('duration_minutes', e.target.value)}
+              placeholder="Leave empty to count the whole time"
+            />
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="past-session-start-page">Start Page</Label>
+              <Input
+                id="past-session-start-page"
+                type="number"
+                min="1"
+                value={form.start_page}
+                onChange={(e) => updateField('start_page', e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="past-session-end-page">End Page</Label>
+              <Input
+                id="past-session-end-page"
+                type="number"
+                min={form.start_page || "1"}
+                max={book.book?.page_count || undefined}
+                value={form.end_page}
+                onChange={(e) => updateField('end_page', e.target.value)}
+              />
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="past-session-mood">Mood</Label>
+              <Select value={form.mood} onValueChange={(value) => updateField('mood', value)}>
+                <SelectTrigger id="past-session-mood">
+                  <SelectValue placeholder="Select mood" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="focused">🎯 Focused</SelectItem>
+                  <SelectItem value="relaxed">😌 Relaxed</SelectItem>
+                  <SelectItem value="excited">🤩 Excited</SelectItem>
+                  <SelectItem value="curious">🤔 Curious</SelectItem>
+                  <SelectItem value="emotional">😢 Emotional</SelectItem>
+                  <SelectItem value="inspired">✨ Inspired</SelectItem>
+                  <SelectItem value="tired">😴 Tired</SelectItem>
+                  <SelectItem value="distracted">😵 Distracted</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="past-session-location">Location</Label>
+              <Input
+                id="past-session-location"
+                value={form.location}
+                onChange={(e) => updateField('location', e.target.value)}
+                placeholder="e.g., Home, Commute"
+              />
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="past-session-notes">Notes</Label>
+            <Textarea
+              id="past-session-notes"
+              value={form.notes}
+              onChange={(e) => updateField('notes', e.target.value)}
+              rows={3}
+            />
+          </div>
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={() => setIsOpen(false)} disabled={isSaving}>
+            Cancel
+          </Button>
+          <Button onClick={handleSubmit} disabled={isSaving}>
+            {isSaving ? 'Saving...' : session ? 'Save Changes' : 'Log Session'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,135 @@
+"use client";
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+import { Copy, Loader2, Share2, BookOpen } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
+import { BookCover } from "@/components/ui/books/book-cover";
+import { PublicBookList } from "@/types/book";
+import { useAppContext } from "@/contexts/app";
+import { toast } from "sonner";
+
+interface PublicBookListViewProps {
+  list: PublicBookList;
+  isSignedIn: boolean;
+  isOwner: boolean;
+}
+
+export function PublicBookListView({ list, isSignedIn, isOwner }: PublicBookListViewProps) {
+  const router = useRouter();
+  const { setShowSignModal } = useAppContext();
+  const [isCloning, setIsCloning] = useState(false);
+
+  const ownerName = list.owner.nickname || "A reader";
+
+  const handleShare = async () => {
+    try {
+      await navigator.clipboard.writeText(window.location.href);
+      toast.success("Link copied to clipboard");
+    } catch (error) {
+      console.error("Error copying link:", error);
+      toast.error("Failed to copy link");
+    }
+  };
+
+  const handleClone = async () => {
+    if (!isSignedIn) {
+      setShowSignModal(true);
+      return;
+    }
+
+    setIsCloning(true);
+    try {
+      const response = await fetch(`/api/lists/${list.uuid}/clone`, { method: 'POST' });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to clone list');
+      }
+
+      toast.success(`"${list.name}" added to your lists`);
+      router.push('/library?tab=lists');
+    } catch (error) {
+      console.error("Error cloning list:", error);
+      toast.error(error instanceof Error ? error.message : 'Failed to clone list');
+    } finally {
+      setIsCloning(false);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex flex-col gap-4 md:flex-row md:items-start md:justify-between">
+        <div className="space-y-2">
+          <h1 className="text-3xl font-bold tracking-tight">{list.name}</h1>
+          {list.description && (
+            <p className="text-muted-foreground max-w-2xl">{list.description}</p>
+          )}
+          <div className="flex items-center gap-2 text-sm text-muted-foreground">
+            <Avatar className="h-6 w-6">
+              <AvatarImage src={list.owner.avatar_url} alt={ownerName} />
+              <AvatarFallback>{ownerName.charAt(0).toUpperCase()}</AvatarFallback>
+            </Avatar>
+            <span>{ownerName}</span>
+            <span>•</span>
+            <Badge variant="secondary">{list.book_count} books</Badge>
+          </div>
+        </div>
+
+        <div className="flex gap-2">
+          <Button variant="outline" onClick={handleShare} className="gap-2">
+            <Share2 className="h-4 w-4" />
+            Share
+          </Button>
+          {!isOwner && (
+            <Button onClick={handleClone} disabled={isCloning} className="gap-2">
+              {isCloning ? <Loader2 className="h-4 w-4 animate-spin" /> : <Copy className="h-4 w-4" />}
+              Copy to my lists
+            </Button>
+          )}
+        </div>
+      </div>
+
+      {/* Books */}
+      {list.items.length === 0 ? (
+        <Card>
+          <CardContent className="p-8 text-center text-muted-foreground">
+            <BookOpen className="h-12 w-12 mx-auto mb-4 opacity-50" />
+            <div className="text-lg font-medium">This list is empty</div>
+          </CardContent>
+        </Card>
+      ) : (
+        <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-3">
+          {list.items.map((item, index) => (
+            <Card key={item.book_uuid}>
+              <CardContent className="flex gap-4 p-4">
+                <BookCover
+                  src={item.book.cover_url}
+                  alt={item.book.title}
+                  title={item.book.title}
+                  author={item.book.author}
+                  size="md"
+                />
+                <div className="flex-1 space-y-1 min-w-0">
+                  <div className="text-xs text-muted-foreground">#{index + 1}</div>
+                  <h3 className="font-semibold line-clamp-2">{item.book.title}</h3>
+                  <p className="text-sm text-muted-foreground line-clamp-1">{item.book.author}</p>
+                  {item.book.genre && (
+                    <Badge variant="outline" className="text-xs">{item.book.genre}</Badge>
+                  )}
+                  {item.book.description && (
+                    <p className="text-xs text-muted-foreground line-clamp-3 pt-1">{item.book.description}</p>
+                  )}
+                </div>
+              </CardContent>
+            </Card>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
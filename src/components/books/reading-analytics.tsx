@@ -0,0 +1,344 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { Bar, BarChart, CartesianGrid, Line, LineChart, XAxis, YAxis } from "recharts";
+import { LineChart as LineChartIcon, Loader2 } from "lucide-react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { ChartConfig, ChartContainer, ChartTooltip, ChartTooltipContent } from "@/components/ui/chart";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { ReadingAnalytics, ReadingBreakdownDimension, ReadingHeatmapDay, ReadingSeriesGranularity } from "@/types/book";
+import { toast } from "sonner";
+
+type RangePreset = '30d' | '90d' | '365d' | 'custom';
+type SeriesMetric = 'pages_read' | 'minutes';
+
+const RANGE_DAYS: Record<Exclude<RangePreset, 'custom'>, number> = {
+  '30d': 30,
+  '90d': 90,
+  '365d': 365
+};
+
+const BREAKDOWN_LABELS: Record<ReadingBreakdownDimension, string> = {
+  genre: 'Genre',
+  format: 'Format',
+  language: 'Language',
+  mood: 'Mood',
+  location: 'Location'
+};
+
+const HEATMAP_LEVELS: Record<ReadingHeatmapDay['level'], string> = {
+  0: 'bg-muted',
+  1: 'bg-primary/25',
+  2: 'bg-primary/50',
+  3: 'bg-primary/75',
+  4: 'bg-primary'
+};
+
+const seriesConfig = {
+  pages_read: { label: 'Pages', color: 'var(--chart-1)' },
+  minutes: { label: 'Minutes', color: 'var(--chart-2)' },
+  pages_per_hour: { label: 'Pages/hour', color: 'var(--chart-3)' }
+} satisfies ChartConfig;
+
+// YYYY-MM-DD in the browser's local time, for date inputs
+function toDateInput(date: Date): string {
+  return new Date(date.getTime() - date.getTimezoneOffset() * 60000).toISOString().slice(0, 10);
+}
+
+function formatPeriod(period: string, granularity: ReadingSeriesGranularity): string {
+  const date = new Date(`${period.length === 7 ? `${period}-01` : period}T00:00:00`);
+  if (granularity === 'month') {
+    return date.toLocaleDateString('en-US', { month: 'short', year: 'numeric' });
+  }
+  return date.toLocaleDateString('en-US', { month: 'short', day: 'numeric' });
+}
+
+// Columns of seven days, Monday on top, starting on the week of the first day
+function toHeatmapWeeks(days: ReadingHeatmapDay[]): (ReadingHeatmapDay | null)[][] {
+  if (days.length === 0) return [];
+
+  const firstWeekday = (new Date(`${days[0].date}T00:00:00Z`).getUTCDay() + 6) % 7;
+  const cells: (ReadingHeatmapDay | null)[] = [...Array(firstWeekday).fill(null), ...days];
+
+  const weeks: (ReadingHeatmapDay | null)[][] = [];
+  for (let i = 0; i < cells.length; i += 7) {
+    weeks.push(cells.slice(i, i + 7));
+  }
+  return weeks;
+}
+
+export function ReadingAnalyticsPanel() {
+  const [analytics, setAnalytics] = useState<ReadingAnalytics | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [range, setRange] = useState<RangePreset>('90d');
+  const [granularity, setGranularity] = useState<ReadingSeriesGranularity>('week');
+  const [metric, setMetric] = useState<SeriesMetric>('pages_read');
+  const [customFrom, setCustomFrom] = useState('');
+  const [customTo, setCustomTo] = useState(toDateInput(new Date()));
+
+  useEffect(() => {
+    if (range === 'custom' && (!customFrom || !customTo)) return;
+    loadAnalytics();
+  }, [range, granularity, customFrom, customTo]);
+
+  const loadAnalytics = async () => {
+    const today = new Date();
+    const params = new URLSearchParams({ granularity });
+
+    if (range === 'custom') {
+      params.set('from', customFrom);
+      params.set('to', customTo);
+    } else {
+      const from = new Date(today);
+      from.setDate(from.getDate() - RANGE_DAYS[range] + 1);
+      params.set('from', toDateInput(from));
+      params.set('to', toDateInput(today));
+    }
+
+    setIsLoading(true);
+    try {
+      const response = await fetch(`/api/reading-stats/series?${params}`);
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to load reading trends');
+      }
+      setAnalytics(data.analytics);
+    } catch (error) {
+      console.error("Error loading reading analytics:", error);
+      toast.error(error instanceof Error ? error.message : 'Failed to load reading trends');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const speedSeries = analytics?.series.filter(point => point.pages_per_hour !== null) || [];
+  const heatmapWeeks = toHeatmapWeeks(analytics?.heatmap || []);
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between space-y-0">
+        <div>
+          <CardTitle className="flex items-center gap-2">
+            <LineChartIcon className="h-5 w-5" />
+            Reading Trends
+          </CardTitle>
+          <CardDescription>
+            {analytics
+              ? `${analytics.totals.pages_read} pages over ${analytics.totals.reading_days} reading days${analytics.totals.pages_per_hour !== null ? ` · ${analytics.totals.pages_per_hour} pages/hour` : ''}`
+              : 'How much and how fast you read over time'}
+          </CardDescription>
+        </div>
+        <div className="flex flex-wrap items-center justify-end gap-2">
+          <ToggleGroup
+            type="single"
+            variant="outline"
+            size="sm"
+            value={granularity}
+            onValueChange={(value: ReadingSeriesGranularity) => value && setGranularity(value)}
+          >
+            <ToggleGroupItem value="day">Daily</ToggleGroupItem>
+            <ToggleGroupItem value="week">Weekly</ToggleGroupItem>
+            <ToggleGroupItem value="month">Monthly</ToggleGroupItem>
+          </ToggleGroup>
+          <Select value={range} onValueChange={(value: RangePreset) => setRange(value)}>
+            <SelectTrigger className="w-36" size="sm">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="30d">Last 30 days</SelectItem>
+              <SelectItem value="90d">Last 3 months</SelectItem>
+              <SelectItem value="365d">Last year</SelectItem>
+              <SelectItem value="custom">Custom range</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {range === 'custom' && (
+          <div className="grid grid-cols-2 gap-4 md:w-96">
+            <div className="space-y-2">
+              <Label htmlFor="analytics-from">From</Label>
+              <Input
+                id="analytics-from"
+                type="date"
+                value={customFrom}
+                max={customTo || undefined}
+                onChange={(e) => setCustomFrom(e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="analytics-to">To</Label>
+              <Input
+                id="analytics-to"
+                type="date"
+                value={customTo}
+                min={customFrom || undefined}
+                onChange={(e) => setCustomTo(e.target.value)}
+              />
+            </div>
+          </div>
+        )}
+
+        {isLoading && !analytics ? (
+          <div className="flex justify-center py-12">
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : analytics ? (
+          <>
+            {/* Pages or minutes per period */}
+            <div className="space-y-2">
+              <div className="flex items-center justify-between">
+                <div className="font-semibold">
+                  {metric === 'pages_read' ? 'Pages read' : 'Minutes read'}
+                </div>
+                <ToggleGroup
+                  type="single"
+                  variant="outline"
+                  size="sm"
+                  value={metric}
+                  onValueChange={(value: SeriesMetric) => value && setMetric(value)}
+                >
+                  <ToggleGroupItem value="pages_read">Pages</ToggleGroupItem>
+                  <ToggleGroupItem value="minutes">Minutes</ToggleGroupItem>
+                </ToggleGroup>
+              </div>
+              <ChartContainer config={seriesConfig} className="aspect-auto h-[220px] w-full">
+                <BarChart data={analytics.series}>
+                  <CartesianGrid vertical={false} />
+                  <XAxis
+                    dataKey="period"
+                    tickLine={false}
+                    axisLine={false}
+                    tickMargin={8}
+                    minTickGap={24}
+                    tickFormatter={(value) => formatPeriod(value, analytics.granularity)}
+                  />
+                  <ChartTooltip
+                    cursor={false}
+                    content={
+                      <ChartTooltipContent
+                        labelFormatter={(value) => formatPeriod(String(value), analytics.granularity)}
+                      />
+                    }
+                  />
+                  <Bar dataKey={metric} fill={`var(--color-${metric})`} radius={4} />
+                </BarChart>
+              </ChartContainer>
+            </div>
+
+            {/* Reading speed */}
+            {speedSeries.length > 1 && (
+              <div className="space-y-2">
+                <div className="font-semibold">Reading speed</div>
+                <ChartContainer config={seriesConfig} className="aspect-auto h-[180px] w-full">
+                  <LineChart data={speedSeries}>
+                    <CartesianGrid vertical={false} />
+                    <XAxis
+                      dataKey="period"
+                      tickLine={false}
+                      axisLine={false}
+                      tickMargin={8}
+                      minTickGap={24}
+                      tickFormatter={(value) => formatPeriod(value, analytics.granularity)}
+                    />
+                    <YAxis tickLine={false} axisLine={false} width={32} />
+                    <ChartTooltip
+                      cursor={false}
+                      content={
+                        <ChartTooltipContent
+                          labelFormatter={(value) => formatPeriod(String(value), analytics.granularity)}
+                        />
+                      }
+                    />
+                    <Line
+                      dataKey="pages_per_hour"
+                      type="monotone"
+                      stroke="var(--color-pages_per_hour)"
+                      strokeWidth={2}
+                      dot={false}
+                    />
+                  </LineChart>
+                </ChartContainer>
+              </div>
+            )}
+
+            {/* Calendar heatmap */}
+            <div className="space-y-2">
+              <div className="font-semibold">Reading calendar</div>
+              <div className="flex gap-1 overflow-x-auto pb-2">
+                {heatmapWeeks.map((week, weekIndex) => (
+                  <div key={weekIndex} className="flex flex-col gap-1">
+                    {week.map((day, dayIndex) => day ? (
+                      <div
+                        key={day.date}
+                        className={`h-3 w-3 rounded-sm ${HEATMAP_LEVELS[day.level]}`}
+                        title={`${day.date}: ${day.pages_read} pages, ${day.minutes} minutes`}
+                      />
+                    ) : (
+                      <div key={`empty-${dayIndex}`} className="h-3 w-3" />
+                    ))}
+                  </div>
+                ))}
+              </div>
+              <div className="flex items-center justify-end gap-1 text-xs text-muted-foreground">
+                Less
+                {([0, 1, 2, 3, 4] as const).map(level => (
+                  <div key={level} className={`h-3 w-3 rounded-sm ${HEATMAP_LEVELS[level]}`} />
+                ))}
+                More
+              </div>
+            </div>
+
+            {/* Breakdowns */}
+            <Tabs defaultValue="genre">
+              <TabsList>
+                {(Object.keys(BREAKDOWN_LABELS) as ReadingBreakdownDimension[]).map(dimension => (
+                  <TabsTrigger key={dimension} value={dimension}>{BREAKDOWN_LABELS[dimension]}</TabsTrigger>
+                ))}
+              </TabsList>
+              {(Object.keys(BREAKDOWN_LABELS) as ReadingBreakdownDimension[]).map(dimension => (
+                <TabsContent key={dimension} value={dimension}>
+                  {analytics.breakdowns[dimension].length > 0 ? (
+                    <ChartContainer
+                      config={seriesConfig}
+                      className="aspect-auto w-full"
+                      style={{ height: Math.max(120, analytics.breakdowns[dimension].slice(0, 8).length * 36) }}
+                    >
+                      <BarChart data={analytics.breakdowns[dimension].slice(0, 8)} layout="vertical">
+                        <CartesianGrid horizontal={false} />
+                        <YAxis
+                          dataKey="key"
+                          type="category"
+                          tickLine={false}
+                          axisLine={false}
+                          width={96}
+                          tickFormatter={(value: string) => value.charAt(0).toUpperCase() + value.slice(1)}
+                        />
+                        <XAxis type="number" hide />
+                        <ChartTooltip cursor={false} content={<ChartTooltipContent />} />
+                        <Bar dataKey={metric} fill={`var(--color-${metric})`} radius={4} />
+                      </BarChart>
+                    </ChartContainer>
+                  ) : (
+                    <div className="py-6 text-center text-sm text-muted-foreground">
+                      No reading sessions in this range
+                    </div>
+                  )}
+                </TabsContent>
+              ))}
+            </Tabs>
+          </>
+        ) : (
+          <div className="text-center py-8 text-muted-foreground">
+            <div className="text-lg font-medium mb-2">Unable to load reading trends</div>
+            <div className="text-sm">Please try again later</div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
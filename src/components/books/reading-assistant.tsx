@@ -1,14 +1,17 @@
 "use client";
 
 import { useState, useEffect, useRef } from "react";
-import { Send, Bot, User, Sparkles, BookOpen, MessageSquare, Loader2, Trash2 } from "lucide-react";
+import { Send, Bot, User, Sparkles, BookOpen, MessageSquare, Loader2, Trash2, FileUp, FileText, ShieldCheck, ShieldAlert, ShieldOff, EyeOff } from "lucide-react";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Badge } from "@/components/ui/badge";
 import { ScrollArea } from "@/components/ui/scroll-area";
 import { Separator } from "@/components/ui/separator";
-import { BookListItem } from "@/types/book";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { BookListItem, BookTextSource } from "@/types/book";
+import type { BookTextCitation } from "@/services/readingAssistant";
+import type { SpoilerCheck, SpoilerMode } from "@/services/spoilerGuard";
 import { useTranslations } from "next-intl";
 import { toast } from "sonner";
 
@@ -19,6 +22,8 @@ interface Message {
   timestamp: string;
   context?: any;
   isStreaming?: boolean;
+  citations?: BookTextCitation[];
+  spoilerCheck?: SpoilerCheck;
 }
 
 interface ReadingAssistantProps {
@@ -39,13 +44,34 @@ export function ReadingAssistant({
   const [input, setInput] = useState("");
   const [isLoading, setIsLoading] = useState(false);
   const [isLoadingHistory, setIsLoadingHistory] = useState(true);
+  const [textSource, setTextSource] = useState<BookTextSource | null>(null);
+  const [isUploadingText, setIsUploadingText] = useState(false);
+  const [spoilerMode, setSpoilerMode] = useState<SpoilerMode>('strict');
+  const [revealedMessages, setRevealedMessages] = useState<Set<string>>(new Set());
   const messagesEndRef = useRef<HTMLDivElement>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
 
-  // Load conversation history on mount
+  // Load conversation history and uploaded text status on mount
   useEffect(() => {
     loadConversationHistory();
+    loadTextSource();
   }, [book.book_uuid]);
 
+  // Uploaded text is embedded in the background; check back until it is done
+  useEffect(() => {
+    if (textSource?.status !== 'processing') return;
+
+    const timer = setTimeout(async () => {
+      const source = await loadTextSource();
+      if (source?.status === 'ready') {
+        toast.success(`Indexed ${source.chunk_count} passages. Answers will now quote your copy.`);
+      } else if (source?.status === 'failed') {
+        toast.error(source.error || "Failed to index book text");
+      }
+    }, 3000);
+    return () => clearTimeout(timer);
+  }, [textSource]);
+
   // Auto-scroll to bottom when new messages arrive
   useEffect(() => {
     scrollToBottom();
@@ -57,7 +83,11 @@ export function ReadingAssistant({
       const response = await fetch(`/api/reading-assistant/conversation/${book.book_uuid}`);
       if (response.ok) {
         const data = await response.json();
-        setMessages(data.messages || []);
+        setMessages((data.messages || []).map((message: Message) => ({
+          ...message,
+          spoilerCheck: message.context?.spoiler_check
+        })));
+        setSpoilerMode(data.spoiler_mode || 'strict');
       }
     } catch (error) {
       console.error("Error loading conversation history:", error);
@@ -66,6 +96,93 @@ export function ReadingAssistant({
     }
   };
 
+  const loadTextSource = async (): Promise<BookTextSource | null> => {
+    try {
+      const response = await fetch(`/api/books/${book.book_uuid}/text`);
+      if (response.ok) {
+        const data = await response.json();
+        setTextSource(data.source);
+        return data.source;
+      }
+    } catch (error) {
+      console.error("Error loading book text status:", error);
+    }
+    return null;
+  };
+
+  const uploadBookText = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (!file) return;
+
+    setIsUploadingText(true);
+    try {
+      const formData = new FormData();
+      formData.append("file", file);
+
+      const response = await fetch(`/api/books/${book.book_uuid}/text`, {
+        method: 'POST',
+        body: formData
+      });
+
+      if (response.status === 402) {
+        toast.error("You're out of credits. Top up to index your book text.");
+        return;
+      }
+
+      if (response.status === 429) {
+        toast.error((await response.json()).error);
+        return;
+      }
+
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to index book text');
+      }
+
+      setTextSource(data.source);
+      toast.success(`Indexing ${data.source.chunk_count} passages, this can take a minute.`);
+    } catch (error) {
+      console.error("Error uploading book text:", error);
+      toast.error(error instanceof Error ? error.message : "Failed to index book text");
+      loadTextSource();
+    } finally {
+      setIsUploadingText(false);
+    }
+  };
+
+  const updateSpoilerMode = async (mode: SpoilerMode) => {
+    const previousMode = spoilerMode;
+    setSpoilerMode(mode);
+
+    try {
+      const response = await fetch(`/api/reading-assistant/conversation/${book.book_uuid}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ spoiler_mode: mode })
+      });
+
+      if (!response.ok) {
+        throw new Error('Failed to update spoiler protection');
+      }
+    } catch (error) {
+      console.error("Error updating spoiler protection:", error);
+      setSpoilerMode(previousMode);
+      toast.error("Failed to update spoiler protection");
+    }
+  };
+
+  const revealMessage = (messageId: string) => {
+    setRevealedMessages(prev => new Set(prev).add(messageId));
+  };
+
+  const formatCitation = (citation: BookTextCitation) => {
+    const pages = citation.page_start === citation.page_end
+      ? `p. ${citation.page_start}`
+      : `pp. ${citation.page_start}-${citation.page_end}`;
+    return citation.chapter ? `${pages} · ${citation.chapter}` : pages;
+  };
+
   const scrollToBottom = () => {
     messagesEndRef.current?.scrollIntoView({ behavior: "smooth" });
   };
@@ -101,6 +218,16 @@ export function ReadingAssistant({
         })
       });
 
+      if (response.status === 402) {
+        toast.error("You're out of credits. Top up to keep using the reading assistant.");
+        return;
+      }
+
+      if (response.status === 429) {
+        toast.error((await response.json()).error);
+        return;
+      }
+
       if (!response.ok) {
         throw new Error('Failed to get response');
       }
@@ -111,7 +238,9 @@ export function ReadingAssistant({
         id: (Date.now() + 1).toString(),
         role: 'assistant',
         content: data.response.response,
-        timestamp: new Date().toISOString()
+        timestamp: new Date().toISOString(),
+        citations: data.response.citations,
+        spoilerCheck: data.response.spoiler_check
       };
 
       setMessages(prev => [...prev, assistantMessage]);
@@ -140,6 +269,16 @@ export function ReadingAssistant({
     setIsLoading(true);
     try {
       const response = await fetch(`/api/books/${book.book_uuid}/overview`);
+      if (response.status === 402) {
+        toast.error("You're out of credits. Top up to generate book overviews.");
+        return;
+      }
+
+      if (response.status === 429) {
+        toast.error((await response.json()).error);
+        return;
+      }
+
       if (response.ok) {
         const data = await response.json();
         
@@ -190,6 +329,56 @@ export function ReadingAssistant({
             </CardDescription>
           </div>
           <div className="flex gap-2">
+            <Select value={spoilerMode} onValueChange={(value) => updateSpoilerMode(value as SpoilerMode)}>
+              <SelectTrigger
+                className="h-8 w-[130px] gap-1 text-xs"
+                title="How the assistant handles parts of the book you haven't reached"
+              >
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="strict">
+                  <span className="flex items-center gap-1">
+                    <ShieldCheck className="h-3 w-3" />
+                    No spoilers
+                  </span>
+                </SelectItem>
+                <SelectItem value="warn">
+                  <span className="flex items-center gap-1">
+                    <ShieldAlert className="h-3 w-3" />
+                    Warn me
+                  </span>
+                </SelectItem>
+                <SelectItem value="off">
+                  <span className="flex items-center gap-1">
+                    <ShieldOff className="h-3 w-3" />
+                    Spoilers OK
+                  </span>
+                </SelectItem>
+              </SelectContent>
+            </Select>
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept=".epub,.pdf,.txt,application/epub+zip,application/pdf,text/plain"
+              className="hidden"
+              onChange={uploadBookText}
+            />
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => fileInputRef.current?.click()}
+              disabled={isUploadingText}
+              className="gap-2"
+              title="Upload the EPUB, PDF or text of your copy so answers can quote it"
+            >
+              {isUploadingText ? (
+                <Loader2 className="h-4 w-4 animate-spin" />
+              ) : (
+                <FileUp className="h-4 w-4" />
+              )}
+              {textSource?.status === 'ready' ? 'Replace text' : 'Upload text'}
+            </Button>
             <Button
               variant="outline"
               size="sm"
@@ -212,8 +401,22 @@ export function ReadingAssistant({
         </div>
 
         {/* Reading Context */}
-        {(currentChapter || currentPage) && (
+        {(currentChapter || currentPage || textSource) && (
           <div className="flex gap-2 text-sm text-muted-foreground">
+            {textSource && (
+              <Badge
+                variant={textSource.status === 'failed' ? 'destructive' : 'secondary'}
+                className="gap-1"
+                title={textSource.error || textSource.filename}
+              >
+                <FileText className="h-3 w-3" />
+                {textSource.status === 'ready'
+                  ? `Full text · ${textSource.chunk_count} passages`
+                  : textSource.status === 'failed'
+                    ? 'Text indexing failed'
+                    : 'Indexing text...'}
+              </Badge>
+            )}
             {currentChapter && (
               <Badge variant="outline" className="gap-1">
                 <MessageSquare className="h-3 w-3" />
@@ -288,9 +491,48 @@ export function ReadingAssistant({
                         : 'bg-muted'
                     }`}
                   >
-                    <div className="text-sm whitespace-pre-wrap">
-                      {message.content}
-                    </div>
+                    {message.spoilerCheck?.flagged && !message.spoilerCheck.redacted && !revealedMessages.has(message.id) ? (
+                      <div className="space-y-2">
+                        <div className="flex items-center gap-1 text-xs font-medium text-amber-600">
+                          <ShieldAlert className="h-3 w-3" />
+                          This answer may contain spoilers beyond where you are
+                        </div>
+                        <div className="text-sm whitespace-pre-wrap blur-sm select-none" aria-hidden="true">
+                          {message.content}
+                        </div>
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          className="h-7 text-xs"
+                          onClick={() => revealMessage(message.id)}
+                        >
+                          Show anyway
+                        </Button>
+                      </div>
+                    ) : (
+                      <div className="text-sm whitespace-pre-wrap">
+                        {message.content}
+                      </div>
+                    )}
+                    {message.spoilerCheck?.redacted && (
+                      <div className="mt-1 flex items-center gap-1 text-xs text-muted-foreground">
+                        <EyeOff className="h-3 w-3" />
+                        Parts of this answer were hidden to avoid spoilers
+                      </div>
+                    )}
+                    {message.citations && message.citations.length > 0 && (
+                      <div className="mt-2 space-y-1 border-t pt-2">
+                        {message.citations.map((citation) => (
+                          <div
+                            key={citation.number}
+                            className="text-xs text-muted-foreground"
+                            title={citation.excerpt}
+                          >
+                            [{citation.number}] {formatCitation(citation)}
+                          </div>
+                        ))}
+                      </div>
+                    )}
                     <div className="text-xs opacity-70 mt-1">
                       {formatTimestamp(message.timestamp)}
                     </div>
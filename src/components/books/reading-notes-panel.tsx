@@ -0,0 +1,347 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { Highlighter, StickyNote, Bookmark, Quote, Star, Trash2, Plus } from "lucide-react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Badge } from "@/components/ui/badge";
+import { BookListItem, ReadingNote, ReadingNoteType } from "@/types/book";
+import { toast } from "sonner";
+import { useTranslations } from "next-intl";
+
+interface ReadingNotesPanelProps {
+  book: BookListItem;
+  activeSessionUuid?: string;
+}
+
+const NOTE_TYPES: { value: ReadingNoteType; icon: typeof StickyNote }[] = [
+  { value: 'highlight', icon: Highlighter },
+  { value: 'note', icon: StickyNote },
+  { value: 'bookmark', icon: Bookmark },
+  { value: 'quote', icon: Quote },
+];
+
+const HIGHLIGHT_COLORS = ['yellow', 'green', 'blue', 'pink', 'orange'];
+
+const parseTags = (tags?: string) => {
+  if (!tags) return [];
+  try {
+    const parsed = JSON.parse(tags);
+    return Array.isArray(parsed) ? parsed.map(String) : [];
+  } catch {
+    return [];
+  }
+};
+
+export function ReadingNotesPanel({ book, activeSessionUuid }: ReadingNotesPanelProps) {
+  const t = useTranslations('reading_notes');
+  const [notes, setNotes] = useState<ReadingNote[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const [typeFilter, setTypeFilter] = useState<ReadingNoteType | "all">("all");
+  const [favoritesOnly, setFavoritesOnly] = useState(false);
+  const [noteType, setNoteType] = useState<ReadingNoteType>("highlight");
+  const [content, setContent] = useState("");
+  const [pageNumber, setPageNumber] = useState(0);
+  const [chapter, setChapter] = useState("");
+  const [color, setColor] = useState("yellow");
+  const [tags, setTags] = useState("");
+
+  useEffect(() => {
+    loadNotes();
+  }, [book.book_uuid, typeFilter, favoritesOnly]);
+
+  const loadNotes = async () => {
+    setIsLoading(true);
+    try {
+      const query = new URLSearchParams();
+      if (typeFilter !== "all") query.set('type', typeFilter);
+      if (favoritesOnly) query.set('favorite', 'true');
+
+      const response = await fetch(`/api/books/${book.book_uuid}/notes?${query}`);
+      if (response.ok) {
+        const data = await response.json();
+        setNotes(data.notes || []);
+      }
+    } catch (error) {
+      console.error("Error loading notes:", error);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const createNote = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!content.trim()) return;
+
+    setIsSaving(true);
+    try {
+      const response = await fetch(`/api/books/${book.book_uuid}/notes`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          note_type: noteType,
+          content: content.trim(),
+          page_number: pageNumber || undefined,
+          chapter: chapter || undefined,
+          color: noteType === 'highlight' ? color : undefined,
+          tags: tags ? tags.split(',').map(tag => tag.trim()).filter(Boolean) : undefined,
+          session_uuid: activeSessionUuid
+        })
+      });
+
+      if (!response.ok) {
+        throw new Error('Failed to save note');
+      }
+
+      setContent("");
+      setTags("");
+      toast.success(t('note_saved'));
+      loadNotes();
+    } catch (error) {
+      console.error('Error saving note:', error);
+      toast.error(t('save_failed'));
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const toggleFavorite = async (note: ReadingNote) => {
+    try {
+      const response = await fetch(`/api/books/${book.book_uuid}/notes/${note.uuid}`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ is_favorite: !note.is_favorite })
+      });
+
+      if (!response.ok) {
+        throw new Error('Failed to update note');
+      }
+
+      const data = await response.json();
+      setNotes(prev => prev.map(n => n.uuid === note.uuid ? data.note : n));
+    } catch (error) {
+      console.error('Error updating note:', error);
+      toast.error(t('update_failed'));
+    }
+  };
+
+  const deleteNote = async (note: ReadingNote) => {
+    try {
+      const response = await fetch(`/api/books/${book.book_uuid}/notes/${note.uuid}`, {
+        method: 'DELETE'
+      });
+
+      if (!response.ok) {
+        throw new Error('Failed to delete note');
+      }
+
+      setNotes(prev => prev.filter(n => n.uuid !== note.uuid));
+      toast.success(t('note_deleted'));
+    } catch (error) {
+      console.error('Error deleting note:', error);
+      toast.error(t('delete_failed'));
+    }
+  };
+
+  const getTypeIcon = (type: ReadingNoteType) => {
+    const Icon = NOTE_TYPES.find(noteTypeOption => noteTypeOption.value === type)?.icon || StickyNote;
+    return <Icon className="h-4 w-4" />;
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Highlighter className="h-5 w-5" />
+          {t('title')}
+        </CardTitle>
+        <CardDescription>
+          {t(activeSessionUuid ? 'description_with_session' : 'description', { title: book.book?.title || '' })}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {/* New Note Form */}
+        <form onSubmit={createNote} className="space-y-4">
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div>
+              <Label htmlFor="note-type">{t('type')}</Label>
+              <Select value={noteType} onValueChange={(value) => setNoteType(value as ReadingNoteType)}>
+                <SelectTrigger id="note-type">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {NOTE_TYPES.map(type => (
+                    <SelectItem key={type.value} value={type.value}>{t(`types.${type.value}`)}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div>
+              <Label htmlFor="note-page">{t('page')}</Label>
+              <Input
+                id="note-page"
+                type="number"
+                min="1"
+                value={pageNumber || ''}
+                onChange={(e) => setPageNumber(parseInt(e.target.value) || 0)}
+                placeholder={t('page_placeholder')}
+              />
+            </div>
+
+            <div>
+              <Label htmlFor="note-chapter">{t('chapter')}</Label>
+              <Input
+                id="note-chapter"
+                value={chapter}
+                onChange={(e) => setChapter(e.target.value)}
+                placeholder={t('chapter_placeholder')}
+              />
+            </div>
+          </div>
+
+          <div>
+            <Label htmlFor="note-content">
+              {noteType === 'highlight' || noteType === 'quote' ? t('passage') : t('note')}
+            </Label>
+            <Textarea
+              id="note-content"
+              value={content}
+              onChange={(e) => setContent(e.target.value)}
+              placeholder={noteType === 'bookmark' ? t('bookmark_placeholder') : t('content_placeholder')}
+              rows={3}
+            />
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            {noteType === 'highlight' && (
+              <div>
+                <Label htmlFor="note-color">{t('color')}</Label>
+                <Select value={color} onValueChange={setColor}>
+                  <SelectTrigger id="note-color">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {HIGHLIGHT_COLORS.map(c => (
+                      <SelectItem key={c} value={c}>{t(`colors.${c}`)}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+
+            <div>
+              <Label htmlFor="note-tags">{t('tags')}</Label>
+              <Input
+                id="note-tags"
+                value={tags}
+                onChange={(e) => setTags(e.target.value)}
+                placeholder={t('tags_placeholder')}
+              />
+            </div>
+          </div>
+
+          <Button type="submit" disabled={isSaving || !content.trim()} className="gap-2">
+            <Plus className="h-4 w-4" />
+            {isSaving ? t('saving') : t('add_note')}
+          </Button>
+        </form>
+
+        {/* Filters */}
+        <div className="flex flex-wrap items-center gap-2">
+          <Button
+            size="sm"
+            variant={typeFilter === "all" ? "default" : "outline"}
+            onClick={() => setTypeFilter("all")}
+          >
+            {t('all')}
+          </Button>
+          {NOTE_TYPES.map(type => (
+            <Button
+              key={type.value}
+              size="sm"
+              variant={typeFilter === type.value ? "default" : "outline"}
+              onClick={() => setTypeFilter(type.value)}
+              className="gap-1"
+            >
+              <type.icon className="h-3 w-3" />
+              {t(`types.${type.value}`)}
+            </Button>
+          ))}
+          <Button
+            size="sm"
+            variant={favoritesOnly ? "secondary" : "ghost"}
+            onClick={() => setFavoritesOnly(prev => !prev)}
+            className="gap-1"
+          >
+            <Star className={`h-3 w-3 ${favoritesOnly ? 'fill-current' : ''}`} />
+            {t('favorites')}
+          </Button>
+        </div>
+
+        {/* Notes List */}
+        {isLoading ? (
+          <div className="text-center py-8 text-muted-foreground text-sm">{t('loading')}</div>
+        ) : notes.length > 0 ? (
+          <div className="space-y-3">
+            {notes.map((note) => (
+              <div key={note.uuid} className="p-4 border rounded-lg space-y-2">
+                <div className="flex items-start justify-between gap-2">
+                  <div className="flex items-center gap-2 text-sm text-muted-foreground">
+                    {getTypeIcon(note.note_type)}
+                    {note.page_number && <span>{t('page_short', { page: note.page_number })}</span>}
+                    {note.chapter && <span>• {note.chapter}</span>}
+                  </div>
+                  <div className="flex gap-1">
+                    <Button
+                      size="icon"
+                      variant="ghost"
+                      className="h-7 w-7"
+                      onClick={() => toggleFavorite(note)}
+                    >
+                      <Star className={`h-4 w-4 ${note.is_favorite ? 'fill-current text-yellow-500' : ''}`} />
+                    </Button>
+                    <Button
+                      size="icon"
+                      variant="ghost"
+                      className="h-7 w-7"
+                      onClick={() => deleteNote(note)}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </div>
+
+                <p
+                  className={`text-sm leading-relaxed ${note.note_type === 'quote' ? 'italic' : ''}`}
+                  style={note.color ? { borderLeft: `3px solid ${note.color}`, paddingLeft: '0.5rem' } : undefined}
+                >
+                  {note.content}
+                </p>
+
+                {parseTags(note.tags).length > 0 && (
+                  <div className="flex flex-wrap gap-1">
+                    {parseTags(note.tags).map(tag => (
+                      <Badge key={tag} variant="outline" className="text-xs">#{tag}</Badge>
+                    ))}
+                  </div>
+                )}
+              </div>
+            ))}
+          </div>
+        ) : (
+          <div className="text-center py-8 text-muted-foreground">
+            <StickyNote className="h-12 w-12 mx-auto mb-4 opacity-50" />
+            <p>{t('empty_title')}</p>
+            <p className="text-sm">{t('empty_description')}</p>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -30,7 +30,8 @@ export function ReadingProgress({
   const [isEditing, setIsEditing] = useState(false);
   const [editingProgress, setEditingProgress] = useState({
     current_page: progress.current_page,
-    reading_status: progress.reading_status
+    reading_status: progress.reading_status,
+    dnf_reason: progress.dnf_reason || ""
   });
 
   const handleSaveProgress = () => {
@@ -41,7 +42,10 @@ export function ReadingProgress({
     onUpdateProgress?.({
       current_page: editingProgress.current_page,
       progress_percentage: percentage,
-      reading_status: editingProgress.reading_status
+      reading_status: editingProgress.reading_status,
+      dnf_reason: editingProgress.reading_status === "abandoned"
+        ? editingProgress.dnf_reason || undefined
+        : undefined
     });
     
     setIsEditing(false);
@@ -244,6 +248,20 @@ export function ReadingProgress({
                 </Select>
               </div>
             </div>
+            {editingProgress.reading_status === "abandoned" && (
+              <div className="space-y-2">
+                <Label htmlFor="dnf-reason">Why did you stop? (optional)</Label>
+                <Textarea
+                  id="dnf-reason"
+                  rows={2}
+                  value={editingProgress.dnf_reason}
+                  onChange={(e) => setEditingProgress(prev => ({
+                    ...prev,
+                    dnf_reason: e.target.value
+                  }))}
+                />
+              </div>
+            )}
             {book.page_count && (
               <div className="text-sm text-muted-foreground">
                 Progress: {Math.round(((editingProgress.current_page || 0) / book.page_count) * 100)}%
@@ -1,6 +1,6 @@
 "use client";
 
-import { useState, useEffect } from "react";
+import { useState, useEffect, useRef } from "react";
 import { Play, Pause, Square, Clock, BookOpen } from "lucide-react";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
@@ -11,6 +11,7 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@
 import { Badge } from "@/components/ui/badge";
 import { Progress } from "@/components/ui/progress";
 import { ReadingSession, BookListItem } from "@/types/book";
+import { getActiveReadingSeconds, isHeartbeatDue } from "@/lib/readingSession";
 import { useTranslations } from "next-intl";
 import { toast } from "sonner";
 
@@ -24,6 +25,7 @@ export function ReadingSessionTracker({ book, onProgressUpdate }: ReadingSession
   const [activeSession, setActiveSession] = useState<ReadingSession | null>(null);
   const [isStarting, setIsStarting] = useState(false);
   const [isEnding, setIsEnding] = useState(false);
+  const [isPausing, setIsPausing] = useState(false);
   const [sessionTime, setSessionTime] = useState(0);
   const [currentPage, setCurrentPage] = useState(0);
   const [startPage, setStartPage] = useState(0);
@@ -31,22 +33,34 @@ export function ReadingSessionTracker({ book, onProgressUpdate }: ReadingSession
   const [location, setLocation] = useState("");
   const [notes, setNotes] = useState("");
   const [mood, setMood] = useState("");
+  const lastHeartbeatAt = useRef<number | null>(null);
 
-  // Timer effect
+  // Timer effect - counts active time only, a paused session keeps its time
   useEffect(() => {
     let interval: NodeJS.Timeout;
     
+    if (activeSession) {
+      setSessionTime(getActiveReadingSeconds(activeSession));
+    }
+
     if (activeSession && activeSession.status === "active") {
       interval = setInterval(() => {
-        const now = new Date().getTime();
-        const start = new Date(activeSession.session_start).getTime();
-        setSessionTime(Math.floor((now - start) / 1000));
+        setSessionTime(getActiveReadingSeconds(activeSession));
       }, 1000);
     }
 
     return () => clearInterval(interval);
   }, [activeSession]);
 
+  // Returning to the page is reader activity; a hidden page sends nothing and goes idle
+  useEffect(() => {
+    if (!activeSession || activeSession.status !== "active") return;
+
+    const onVisibilityChange = () => reportActivity();
+    document.addEventListener("visibilitychange", onVisibilityChange);
+    return () => document.removeEventListener("visibilitychange", onVisibilityChange);
+  }, [activeSession]);
+
   // Load active session on mount
   useEffect(() => {
     loadActiveSession();
@@ -147,6 +161,53 @@ export function ReadingSessionTracker({ book, onProgressUpdate }: ReadingSession
     }
   };
 
+  const changeSessionState = async (action: 'pause' | 'resume' | 'heartbeat') => {
+    if (!activeSession) return;
+
+    try {
+      const response = await fetch(`/api/reading-sessions/${activeSession.uuid}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ action })
+      });
+
+      if (!response.ok) {
+        throw new Error(`Failed to ${action} reading session`);
+      }
+
+      const data = await response.json();
+      // The server may have auto-paused an idle session in the meantime
+      if (data.session.status !== activeSession.status && action === 'heartbeat') {
+        toast.info('Your reading session was paused while you were away.');
+      }
+      setActiveSession(data.session);
+    } catch (error) {
+      console.error(`Error on reading session ${action}:`, error);
+      if (action !== 'heartbeat') {
+        toast.error(`Failed to ${action} reading session`);
+      }
+    }
+  };
+
+  // Heartbeat on reader activity only - without one the server pauses the session once it goes idle
+  const reportActivity = () => {
+    if (!activeSession || activeSession.status !== "active") return;
+
+    const now = Date.now();
+    if (!isHeartbeatDue(lastHeartbeatAt.current, now, document.visibilityState === "visible")) return;
+
+    lastHeartbeatAt.current = now;
+    changeSessionState('heartbeat');
+  };
+
+  const togglePause = async () => {
+    if (!activeSession) return;
+
+    setIsPausing(true);
+    await changeSessionState(activeSession.status === 'paused' ? 'resume' : 'pause');
+    setIsPausing(false);
+  };
+
   const updateSessionProgress = async () => {
     if (!activeSession) return;
 
@@ -179,7 +240,7 @@ export function ReadingSessionTracker({ book, onProgressUpdate }: ReadingSession
   };
 
   return (
-    <Card>
+    <Card onInput={reportActivity}>
       <CardHeader>
         <CardTitle className="flex items-center gap-2">
           <BookOpen className="h-5 w-5" />
@@ -195,10 +256,17 @@ export function ReadingSessionTracker({ book, onProgressUpdate }: ReadingSession
           <div className="flex items-center gap-3">
             {activeSession ? (
               <>
-                <Badge variant="secondary" className="animate-pulse">
-                  <Play className="h-3 w-3 mr-1" />
-                  Active Session
-                </Badge>
+                {activeSession.status === "paused" ? (
+                  <Badge variant="outline">
+                    <Pause className="h-3 w-3 mr-1" />
+                    Paused
+                  </Badge>
+                ) : (
+                  <Badge variant="secondary" className="animate-pulse">
+                    <Play className="h-3 w-3 mr-1" />
+                    Active Session
+                  </Badge>
+                )}
                 <div className="flex items-center gap-2 text-sm text-muted-foreground">
                   <Clock className="h-4 w-4" />
                   <span className="font-mono text-lg">{formatTime(sessionTime)}</span>
@@ -219,15 +287,35 @@ export function ReadingSessionTracker({ book, onProgressUpdate }: ReadingSession
               {isStarting ? 'Starting...' : 'Start Reading'}
             </Button>
           ) : (
-            <Button
-              onClick={endReadingSession}
-              disabled={isEnding}
-              variant="destructive"
-              className="gap-2"
-            >
-              <Square className="h-4 w-4" />
-              {isEnding ? 'Ending...' : 'End Session'}
-            </Button>
+            <div className="flex gap-2">
+              <Button
+                onClick={togglePause}
+                disabled={isPausing || isEnding}
+                variant="outline"
+                className="gap-2"
+              >
+                {activeSession.status === "paused" ? (
+                  <>
+                    <Play className="h-4 w-4" />
+                    Resume
+                  </>
+                ) : (
+                  <>
+                    <Pause className="h-4 w-4" />
+                    Pause
+                  </>
+                )}
+              </Button>
+              <Button
+                onClick={endReadingSession}
+                disabled={isEnding}
+                variant="destructive"
+                className="gap-2"
+              >
+                <Square className="h-4 w-4" />
+                {isEnding ? 'Ending...' : 'End Session'}
+              </Button>
+            </div>
           )}
         </div>
 
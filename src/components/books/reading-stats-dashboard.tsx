@@ -1,11 +1,18 @@
 "use client";
 
 import { useState, useEffect } from "react";
-import { BarChart3, Clock, BookOpen, Target, TrendingUp, Calendar } from "lucide-react";
+import { BarChart3, Clock, BookOpen, Target, TrendingUp, Calendar, Flag, Loader2, Snowflake, Globe } from "lucide-react";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Progress } from "@/components/ui/progress";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { ReadingGoalProgress, ReadingGoalType } from "@/types/book";
 import { useTranslations } from "next-intl";
+import { toast } from "sonner";
 
 interface ReadingStats {
   total_sessions: number;
@@ -13,18 +20,65 @@ interface ReadingStats {
   total_pages_read: number;
   average_session_minutes: number;
   reading_streak_days: number;
+  longest_streak_days: number;
+  streak_freezes_left: number;
+  reading_days: number;
+  average_pages_per_day: number;
+  goals: ReadingGoalProgress[];
   timeframe: string;
+  timezone: string;
 }
 
+// The browser's IANA timezone, e.g. "Europe/Berlin"
+function getBrowserTimezone(): string | undefined {
+  try {
+    return Intl.DateTimeFormat().resolvedOptions().timeZone;
+  } catch {
+    return undefined;
+  }
+}
+
+const GOAL_LABELS: Record<ReadingGoalType, { title: string; unit: string }> = {
+  books_per_year: { title: 'Books this year', unit: 'books' },
+  pages_per_month: { title: 'Pages this month', unit: 'pages' },
+  minutes_per_day: { title: 'Minutes today', unit: 'minutes' }
+};
+
 export function ReadingStatsDashboard() {
   const t = useTranslations('reading_stats');
   const [stats, setStats] = useState<ReadingStats | null>(null);
   const [timeframe, setTimeframe] = useState("month");
   const [isLoading, setIsLoading] = useState(true);
+  const [isGoalDialogOpen, setIsGoalDialogOpen] = useState(false);
+  const [goalTargets, setGoalTargets] = useState<Record<ReadingGoalType, string>>({
+    books_per_year: '',
+    pages_per_month: '',
+    minutes_per_day: ''
+  });
+  const [isSavingGoals, setIsSavingGoals] = useState(false);
+  const [isFreezing, setIsFreezing] = useState(false);
+  const [timezoneReady, setTimezoneReady] = useState(false);
+  const browserTimezone = getBrowserTimezone();
 
+  // Days are counted in the reader's timezone; default it to this browser's the first time
   useEffect(() => {
-    loadReadingStats();
-  }, [timeframe]);
+    const reportTimezone = async () => {
+      try {
+        if (browserTimezone) {
+          await saveTimezone(browserTimezone, true);
+        }
+      } finally {
+        setTimezoneReady(true);
+      }
+    };
+    reportTimezone();
+  }, []);
+
+  useEffect(() => {
+    if (timezoneReady) {
+      loadReadingStats();
+    }
+  }, [timeframe, timezoneReady]);
 
   const loadReadingStats = async () => {
     setIsLoading(true);
@@ -42,6 +96,99 @@ export function ReadingStatsDashboard() {
     }
   };
 
+  const saveTimezone = async (timezone: string, onlyIfUnset: boolean) => {
+    try {
+      const response = await fetch('/api/reading-stats/timezone', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ timezone, only_if_unset: onlyIfUnset })
+      });
+      return response.ok;
+    } catch (error) {
+      console.error("Error saving timezone:", error);
+      return false;
+    }
+  };
+
+  const switchToBrowserTimezone = async () => {
+    if (!browserTimezone) return;
+
+    if (await saveTimezone(browserTimezone, false)) {
+      toast.success(`Reading days now follow ${browserTimezone}`);
+      loadReadingStats();
+    } else {
+      toast.error('Failed to update timezone');
+    }
+  };
+
+  const freezeYesterday = async () => {
+    setIsFreezing(true);
+    try {
+      const response = await fetch('/api/reading-stats/streak-freeze', { method: 'POST' });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to freeze streak');
+      }
+
+      toast.success('Yesterday is frozen, your streak is safe');
+      loadReadingStats();
+    } catch (error) {
+      console.error("Error freezing streak:", error);
+      toast.error(error instanceof Error ? error.message : 'Failed to freeze streak');
+    } finally {
+      setIsFreezing(false);
+    }
+  };
+
+  const openGoalDialog = (open: boolean) => {
+    if (open && stats) {
+      const targets = { books_per_year: '', pages_per_month: '', minutes_per_day: '' };
+      stats.goals.forEach(({ goal }) => {
+        targets[goal.goal_type] = String(goal.target_value);
+      });
+      setGoalTargets(targets);
+    }
+    setIsGoalDialogOpen(open);
+  };
+
+  const saveGoals = async () => {
+    setIsSavingGoals(true);
+    try {
+      for (const goalType of Object.keys(goalTargets) as ReadingGoalType[]) {
+        const value = goalTargets[goalType].trim();
+        const existing = stats?.goals.find(({ goal }) => goal.goal_type === goalType);
+
+        if (value) {
+          if (Number(value) === existing?.goal.target_value) continue;
+          const response = await fetch('/api/reading-goals', {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ goal_type: goalType, target_value: Number(value) })
+          });
+          if (!response.ok) throw new Error('Failed to save reading goal');
+        } else if (existing) {
+          const response = await fetch(`/api/reading-goals/${existing.goal.uuid}`, { method: 'DELETE' });
+          if (!response.ok) throw new Error('Failed to remove reading goal');
+        }
+      }
+
+      toast.success('Reading goals updated');
+      setIsGoalDialogOpen(false);
+      loadReadingStats();
+    } catch (error) {
+      console.error("Error saving reading goals:", error);
+      toast.error(error instanceof Error ? error.message : 'Failed to save reading goals');
+    } finally {
+      setIsSavingGoals(false);
+    }
+  };
+
+  const getGoalBadgeVariant = (status: ReadingGoalProgress['status']) => {
+    if (status === 'behind') return "destructive";
+    if (status === 'completed') return "default";
+    return "secondary";
+  };
+
   const getTimeframeLabel = (tf: string) => {
     switch (tf) {
       case 'week': return 'This Week';
@@ -166,18 +313,130 @@ export function ReadingStatsDashboard() {
                 <div>
                   <div className="font-semibold">Reading Streak</div>
                   <div className="text-sm text-muted-foreground">
-                    Keep up the great work!
+                    Longest: {stats.longest_streak_days} days · {stats.streak_freezes_left} freezes left this month
                   </div>
                 </div>
               </div>
-              <Badge variant={getStreakBadgeColor(stats.reading_streak_days)} className="text-lg px-4 py-2">
-                {stats.reading_streak_days} days
-              </Badge>
+              <div className="flex items-center gap-2">
+                {stats.streak_freezes_left > 0 && (
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={freezeYesterday}
+                    disabled={isFreezing}
+                    title="Keep your streak if you missed yesterday"
+                  >
+                    {isFreezing ? <Loader2 className="h-4 w-4 animate-spin" /> : <Snowflake className="h-4 w-4" />}
+                    <span className="ml-1">Freeze yesterday</span>
+                  </Button>
+                )}
+                <Badge variant={getStreakBadgeColor(stats.reading_streak_days)} className="text-lg px-4 py-2">
+                  {stats.reading_streak_days} days
+                </Badge>
+              </div>
+            </div>
+
+            {/* Timezone */}
+            <div className="flex items-center justify-between text-xs text-muted-foreground">
+              <div className="flex items-center gap-2">
+                <Globe className="h-4 w-4" />
+                Days are counted in {stats.timezone}
+              </div>
+              {browserTimezone && browserTimezone !== stats.timezone && (
+                <Button variant="link" size="sm" className="h-auto p-0 text-xs" onClick={switchToBrowserTimezone}>
+                  Use {browserTimezone}
+                </Button>
+              )}
+            </div>
+
+            {/* Reading Goals */}
+            <div className="space-y-4">
+              <div className="flex items-center justify-between">
+                <div className="flex items-center gap-2 font-semibold">
+                  <Flag className="h-5 w-5 text-muted-foreground" />
+                  Reading Goals
+                </div>
+                <Dialog open={isGoalDialogOpen} onOpenChange={openGoalDialog}>
+                  <DialogTrigger asChild>
+                    <Button variant="outline" size="sm">
+                      {stats.goals.length > 0 ? 'Edit goals' : 'Set goals'}
+                    </Button>
+                  </DialogTrigger>
+                  <DialogContent>
+                    <DialogHeader>
+                      <DialogTitle>Reading Goals</DialogTitle>
+                      <DialogDescription>Leave a field empty to remove that goal.</DialogDescription>
+                    </DialogHeader>
+                    <div className="space-y-4">
+                      {(Object.keys(GOAL_LABELS) as ReadingGoalType[]).map((goalType) => (
+                        <div key={goalType} className="space-y-2">
+                          <Label htmlFor={`goal-${goalType}`}>{GOAL_LABELS[goalType].title}</Label>
+                          <Input
+                            id={`goal-${goalType}`}
+                            type="number"
+                            min={1}
+                            placeholder={GOAL_LABELS[goalType].unit}
+                            value={goalTargets[goalType]}
+                            onChange={(e) => setGoalTargets({ ...goalTargets, [goalType]: e.target.value })}
+                          />
+                        </div>
+                      ))}
+                      <div className="flex justify-end">
+                        <Button onClick={saveGoals} disabled={isSavingGoals}>
+                          {isSavingGoals && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                          Save goals
+                        </Button>
+                      </div>
+                    </div>
+                  </DialogContent>
+                </Dialog>
+              </div>
+
+              {stats.goals.length > 0 ? (
+                <div className="grid gap-4 md:grid-cols-3">
+                  {stats.goals.map((progress) => (
+                    <div key={progress.goal.uuid} className="space-y-2 p-4 border rounded-lg">
+                      <div className="flex items-center justify-between text-sm">
+                        <span className="text-muted-foreground">{GOAL_LABELS[progress.goal.goal_type].title}</span>
+                        <Badge variant={getGoalBadgeVariant(progress.status)}>{progress.pace_message}</Badge>
+                      </div>
+                      <div className="text-2xl font-bold">
+                        {progress.current_value}
+                        <span className="text-sm font-normal text-muted-foreground"> / {progress.goal.target_value} {GOAL_LABELS[progress.goal.goal_type].unit}</span>
+                      </div>
+                      <Progress value={progress.percentage} />
+                      {progress.goal.goal_type !== 'minutes_per_day' && progress.status !== 'completed' && (
+                        <div className="text-xs text-muted-foreground">
+                          On pace for {progress.projected_value} {GOAL_LABELS[progress.goal.goal_type].unit}
+                        </div>
+                      )}
+                    </div>
+                  ))}
+                </div>
+              ) : (
+                <div className="text-sm text-muted-foreground">
+                  Set a yearly, monthly or daily target to track your pace.
+                </div>
+              )}
             </div>
 
             {/* Additional Insights */}
             {stats.total_sessions > 0 && (
-              <div className="grid gap-4 md:grid-cols-2">
+              <div className="grid gap-4 md:grid-cols-3">
+                <Card>
+                  <CardContent className="pt-6">
+                    <div className="space-y-2">
+                      <div className="text-sm text-muted-foreground">Pages per Reading Day</div>
+                      <div className="text-2xl font-bold">
+                        {stats.average_pages_per_day}
+                      </div>
+                      <div className="text-xs text-muted-foreground">
+                        Read on {stats.reading_days} days
+                      </div>
+                    </div>
+                  </CardContent>
+                </Card>
+
                 <Card>
                   <CardContent className="pt-6">
                     <div className="space-y-2">
@@ -0,0 +1,216 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { CalendarHeart, Download, ExternalLink, Loader2, Sparkles } from "lucide-react";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { ReadingRecap, ReadingRecapStats } from "@/types/book";
+import { toast } from "sonner";
+
+// The running year and the four before it
+function getRecapYears(): number[] {
+  const currentYear = new Date().getFullYear();
+  return Array.from({ length: 5 }, (_, i) => currentYear - i);
+}
+
+export function YearRecapDialog() {
+  const [isOpen, setIsOpen] = useState(false);
+  // Early in the year the year just finished is the one worth recapping
+  const [year, setYear] = useState(new Date().getMonth() < 2 ? new Date().getFullYear() - 1 : new Date().getFullYear());
+  const [stats, setStats] = useState<ReadingRecapStats | null>(null);
+  const [recap, setRecap] = useState<ReadingRecap | null>(null);
+  const [withNarrative, setWithNarrative] = useState(false);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isGenerating, setIsGenerating] = useState(false);
+
+  useEffect(() => {
+    if (isOpen) {
+      loadRecap();
+    }
+  }, [isOpen, year]);
+
+  const loadRecap = async () => {
+    setIsLoading(true);
+    try {
+      const response = await fetch(`/api/reading-recap/${year}`);
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to load your recap');
+      }
+      setStats(data.stats);
+      setRecap(data.recap);
+    } catch (error) {
+      console.error("Error loading reading recap:", error);
+      toast.error(error instanceof Error ? error.message : 'Failed to load your recap');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const generateRecap = async () => {
+    setIsGenerating(true);
+    try {
+      const response = await fetch(`/api/reading-recap/${year}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ narrative: withNarrative })
+      });
+      const data = await response.json();
+
+      if (response.status === 402) {
+        toast.error('Not enough credits to write the narrative');
+        return;
+      }
+      if (response.status === 429) {
+        toast.error(`Too many AI requests, try again in ${data.retryAfter || 60} seconds`);
+        return;
+      }
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to create your recap');
+      }
+
+      setRecap(data.recap);
+      setStats(data.recap.stats);
+      toast.success(recap ? 'Recap updated' : 'Recap created');
+    } catch (error) {
+      console.error("Error generating reading recap:", error);
+      toast.error(error instanceof Error ? error.message : 'Failed to create your recap');
+    } finally {
+      setIsGenerating(false);
+    }
+  };
+
+  const toggleSharing = async (isPublic: boolean) => {
+    try {
+      const response = await fetch(`/api/reading-recap/${year}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ is_public: isPublic })
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to update sharing');
+      }
+
+      setRecap(data.recap);
+      if (isPublic) {
+        await navigator.clipboard.writeText(`${window.location.origin}/recaps/${data.recap.uuid}`).catch(() => undefined);
+        toast.success('Recap is public, link copied to clipboard');
+      } else {
+        toast.success('Recap is private again');
+      }
+    } catch (error) {
+      console.error("Error updating recap sharing:", error);
+      toast.error(error instanceof Error ? error.message : 'Failed to update sharing');
+    }
+  };
+
+  const isEmpty = stats && stats.books_finished === 0 && stats.sessions === 0;
+
+  return (
+    <Dialog open={isOpen} onOpenChange={setIsOpen}>
+      <DialogTrigger asChild>
+        <Button variant="outline" className="gap-2">
+          <CalendarHeart className="h-4 w-4" />
+          Year in Books
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>Year in Books</DialogTitle>
+          <DialogDescription>
+            A wrap-up of the books you finished and the time you spent reading.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <Select value={String(year)} onValueChange={(value) => setYear(Number(value))}>
+            <SelectTrigger className="w-full">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {getRecapYears().map(option => (
+                <SelectItem key={option} value={String(option)}>{option}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+
+          {isLoading ? (
+            <div className="flex justify-center py-6">
+              <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+            </div>
+          ) : stats && (
+            <>
+              <div className="grid grid-cols-3 gap-2 text-center">
+                <div className="rounded-lg bg-muted/50 p-3">
+                  <div className="text-2xl font-bold">{stats.books_finished}</div>
+                  <div className="text-xs text-muted-foreground">books</div>
+                </div>
+                <div className="rounded-lg bg-muted/50 p-3">
+                  <div className="text-2xl font-bold">{Math.max(stats.pages_read, stats.pages_finished)}</div>
+                  <div className="text-xs text-muted-foreground">pages</div>
+                </div>
+                <div className="rounded-lg bg-muted/50 p-3">
+                  <div className="text-2xl font-bold">{Math.round(stats.minutes_read / 60)}</div>
+                  <div className="text-xs text-muted-foreground">hours</div>
+                </div>
+              </div>
+
+              {isEmpty ? (
+                <div className="text-center text-sm text-muted-foreground">
+                  Nothing was read in {year} yet.
+                </div>
+              ) : (
+                <>
+                  <div className="flex items-center gap-2">
+                    <Checkbox
+                      id="recap-narrative"
+                      checked={withNarrative}
+                      onCheckedChange={(checked) => setWithNarrative(checked === true)}
+                    />
+                    <Label htmlFor="recap-narrative" className="flex items-center gap-1 font-normal">
+                      <Sparkles className="h-3 w-3" />
+                      {recap?.narrative ? 'Rewrite the AI narrative' : 'Add an AI-written narrative'} (uses credits)
+                    </Label>
+                  </div>
+
+                  <Button onClick={generateRecap} disabled={isGenerating} className="w-full">
+                    {isGenerating && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                    {recap ? 'Update recap' : 'Create recap'}
+                  </Button>
+                </>
+              )}
+
+              {recap && (
+                <div className="space-y-3 border-t pt-4">
+                  <div className="flex items-center justify-between">
+                    <Label htmlFor="recap-public">Anyone with the link can view</Label>
+                    <Switch id="recap-public" checked={recap.is_public} onCheckedChange={toggleSharing} />
+                  </div>
+                  <div className="flex gap-2">
+                    <Button variant="outline" asChild className="flex-1 gap-2">
+                      <a href={`/recaps/${recap.uuid}`} target="_blank" rel="noopener noreferrer">
+                        <ExternalLink className="h-4 w-4" />
+                        Open
+                      </a>
+                    </Button>
+                    <Button variant="outline" asChild className="flex-1 gap-2">
+                      <a href={`/api/recaps/${recap.uuid}/image?download=1`} download>
+                        <Download className="h-4 w-4" />
+                        Image
+                      </a>
+                    </Button>
+                  </div>
+                </div>
+              )}
+            </>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
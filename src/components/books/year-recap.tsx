@@ -0,0 +1,246 @@
+"use client";
+
+import { Bar, BarChart, XAxis } from "recharts";
+import { BookOpen, Download, Share2, Sparkles } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
+import { ChartConfig, ChartContainer, ChartTooltip, ChartTooltipContent } from "@/components/ui/chart";
+import { BookCover } from "@/components/ui/books/book-cover";
+import { PublicReadingRecap, ReadingRecapBook } from "@/types/book";
+import { toast } from "sonner";
+
+interface YearRecapViewProps {
+  recap: PublicReadingRecap;
+  isOwner: boolean;
+}
+
+const monthsConfig = {
+  books_finished: { label: 'Books finished', color: 'var(--chart-1)' },
+  pages_read: { label: 'Pages read', color: 'var(--chart-2)' }
+} satisfies ChartConfig;
+
+function formatMonth(month: string, format: 'short' | 'long' = 'short'): string {
+  return new Date(`${month}-01T00:00:00Z`).toLocaleDateString('en-US', { month: format, timeZone: 'UTC' });
+}
+
+function RecapBookCard({ label, book }: { label: string; book: ReadingRecapBook }) {
+  return (
+    <Card>
+      <CardContent className="flex gap-4 p-4">
+        <BookCover src={book.cover_url} alt={book.title} title={book.title} author={book.author} size="sm" />
+        <div className="flex-1 space-y-1 min-w-0">
+          <div className="text-xs text-muted-foreground">{label}</div>
+          <h3 className="font-semibold line-clamp-2">{book.title}</h3>
+          <p className="text-sm text-muted-foreground line-clamp-1">{book.author}</p>
+          <div className="flex flex-wrap gap-1">
+            {book.page_count && <Badge variant="outline" className="text-xs">{book.page_count} pages</Badge>}
+            {book.personal_rating !== undefined && <Badge variant="secondary" className="text-xs">★ {book.personal_rating}</Badge>}
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
+
+export function YearRecapView({ recap, isOwner }: YearRecapViewProps) {
+  const { stats } = recap;
+  const ownerName = recap.owner.nickname || "A reader";
+  const imageUrl = `/api/recaps/${recap.uuid}/image`;
+
+  const handleShare = async () => {
+    try {
+      await navigator.clipboard.writeText(window.location.href);
+      toast.success("Link copied to clipboard");
+    } catch (error) {
+      console.error("Error copying link:", error);
+      toast.error("Failed to copy link");
+    }
+  };
+
+  const figures = [
+    { label: 'Books finished', value: stats.books_finished },
+    { label: 'Pages read', value: Math.max(stats.pages_read, stats.pages_finished) },
+    { label: 'Hours read', value: Math.round(stats.minutes_read / 60) },
+    { label: 'Reading days', value: stats.reading_days }
+  ];
+
+  const highlightBooks = [
+    { label: 'First book of the year', book: stats.first_book },
+    { label: 'Last book of the year', book: stats.last_book },
+    { label: 'Longest book', book: stats.longest_book },
+    { label: 'Shortest book', book: stats.shortest_book }
+  ].filter((highlight): highlight is { label: string; book: ReadingRecapBook } => !!highlight.book);
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex flex-col gap-4 md:flex-row md:items-start md:justify-between">
+        <div className="space-y-2">
+          <h1 className="text-3xl font-bold tracking-tight">{recap.year} in Books</h1>
+          <div className="flex items-center gap-2 text-sm text-muted-foreground">
+            <Avatar className="h-6 w-6">
+              <AvatarImage src={recap.owner.avatar_url} alt={ownerName} />
+              <AvatarFallback>{ownerName.charAt(0).toUpperCase()}</AvatarFallback>
+            </Avatar>
+            <span>{ownerName}</span>
+            {isOwner && (
+              <>
+                <span>•</span>
+                <Badge variant="secondary">Your recap</Badge>
+              </>
+            )}
+          </div>
+        </div>
+
+        <div className="flex gap-2">
+          <Button variant="outline" onClick={handleShare} className="gap-2">
+            <Share2 className="h-4 w-4" />
+            Share
+          </Button>
+          <Button variant="outline" asChild className="gap-2">
+            <a href={`${imageUrl}?download=1`} download>
+              <Download className="h-4 w-4" />
+              Download image
+            </a>
+          </Button>
+        </div>
+      </div>
+
+      {/* Headline figures */}
+      <div className="grid gap-4 grid-cols-2 md:grid-cols-4">
+        {figures.map(figure => (
+          <Card key={figure.label}>
+            <CardContent className="pt-6">
+              <div className="text-3xl font-bold">{figure.value.toLocaleString()}</div>
+              <div className="text-sm text-muted-foreground">{figure.label}</div>
+            </CardContent>
+          </Card>
+        ))}
+      </div>
+
+      {/* Narrative */}
+      {recap.narrative && (
+        <Card>
+          <CardContent className="flex gap-3 pt-6">
+            <Sparkles className="h-5 w-5 shrink-0 text-muted-foreground" />
+            <p className="whitespace-pre-line leading-relaxed">{recap.narrative}</p>
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Month by month */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-base">
+            Month by month
+            {stats.busiest_month && (
+              <span className="ml-2 text-sm font-normal text-muted-foreground">
+                busiest in {formatMonth(stats.busiest_month.month, 'long')}
+              </span>
+            )}
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          <ChartContainer config={monthsConfig} className="aspect-auto h-[200px] w-full">
+            <BarChart data={stats.months}>
+              <XAxis
+                dataKey="month"
+                tickLine={false}
+                axisLine={false}
+                tickMargin={8}
+                tickFormatter={(value) => formatMonth(value)}
+              />
+              <ChartTooltip
+                cursor={false}
+                content={<ChartTooltipContent labelFormatter={(value) => formatMonth(String(value), 'long')} />}
+              />
+              <Bar
+                dataKey={stats.pages_read > 0 ? 'pages_read' : 'books_finished'}
+                fill={stats.pages_read > 0 ? 'var(--color-pages_read)' : 'var(--color-books_finished)'}
+                radius={4}
+              />
+            </BarChart>
+          </ChartContainer>
+        </CardContent>
+      </Card>
+
+      {/* Favourites */}
+      <div className="grid gap-4 md:grid-cols-3">
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-base">Top genres</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-2">
+            {stats.top_genres.length > 0 ? stats.top_genres.map(genre => (
+              <div key={genre.name} className="flex justify-between text-sm">
+                <span>{genre.name}</span>
+                <span className="text-muted-foreground">{genre.books} books</span>
+              </div>
+            )) : <div className="text-sm text-muted-foreground">No genres recorded</div>}
+          </CardContent>
+        </Card>
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-base">Top authors</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-2">
+            {stats.top_authors.length > 0 ? stats.top_authors.map(author => (
+              <div key={author.name} className="flex justify-between text-sm">
+                <span>{author.name}</span>
+                <span className="text-muted-foreground">{author.books} books</span>
+              </div>
+            )) : <div className="text-sm text-muted-foreground">No books finished</div>}
+          </CardContent>
+        </Card>
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-base">Reading habits</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-2 text-sm">
+            <div className="flex justify-between">
+              <span>Favourite mood</span>
+              <span className="text-muted-foreground capitalize">{stats.favorite_mood || '—'}</span>
+            </div>
+            <div className="flex justify-between">
+              <span>Favourite place</span>
+              <span className="text-muted-foreground capitalize">{stats.favorite_location || '—'}</span>
+            </div>
+            <div className="flex justify-between">
+              <span>Average rating</span>
+              <span className="text-muted-foreground">{stats.average_rating !== null ? `★ ${stats.average_rating}` : '—'}</span>
+            </div>
+          </CardContent>
+        </Card>
+      </div>
+
+      {/* Books */}
+      {highlightBooks.length > 0 ? (
+        <div className="grid gap-4 md:grid-cols-2">
+          {highlightBooks.map(({ label, book }) => (
+            <RecapBookCard key={label} label={label} book={book} />
+          ))}
+        </div>
+      ) : (
+        <Card>
+          <CardContent className="p-8 text-center text-muted-foreground">
+            <BookOpen className="h-12 w-12 mx-auto mb-4 opacity-50" />
+            <div className="text-lg font-medium">No books finished this year</div>
+          </CardContent>
+        </Card>
+      )}
+
+      {stats.top_rated_books.length > 0 && (
+        <div className="space-y-3">
+          <h2 className="text-lg font-semibold">Highest rated</h2>
+          <div className="grid gap-4 md:grid-cols-3">
+            {stats.top_rated_books.map((book, index) => (
+              <RecapBookCard key={book.book_uuid} label={`#${index + 1}`} book={book} />
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
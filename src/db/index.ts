@@ -29,3 +29,6 @@ export function db() {
 // Export direct db instance for convenience
 export { db as default };
 export const database = db();
+
+// The database or a transaction opened on it, for writes that can join a caller's transaction
+export type DbExecutor = Pick<ReturnType<typeof db>, "select" | "insert" | "update" | "delete">;
@@ -0,0 +1,14 @@
+CREATE TABLE "reading_goals" (
+	"id" integer PRIMARY KEY GENERATED ALWAYS AS IDENTITY (sequence name "reading_goals_id_seq" INCREMENT BY 1 MINVALUE 1 MAXVALUE 2147483647 START WITH 1 CACHE 1),
+	"uuid" varchar(255) NOT NULL,
+	"user_uuid" varchar(255) NOT NULL,
+	"goal_type" varchar(50) NOT NULL,
+	"target_value" integer NOT NULL,
+	"is_active" boolean DEFAULT true NOT NULL,
+	"created_at" timestamp with time zone DEFAULT now(),
+	"updated_at" timestamp with time zone DEFAULT now(),
+	CONSTRAINT "reading_goals_uuid_unique" UNIQUE("uuid")
+);
+--> statement-breakpoint
+CREATE INDEX "reading_goals_user_idx" ON "reading_goals" USING btree ("user_uuid");--> statement-breakpoint
+CREATE UNIQUE INDEX "reading_goals_user_type_unique" ON "reading_goals" USING btree ("user_uuid","goal_type");
\ No newline at end of file
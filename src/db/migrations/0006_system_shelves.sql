@@ -0,0 +1,35 @@
+DROP INDEX "book_lists_user_default_type";--> statement-breakpoint
+CREATE UNIQUE INDEX "book_lists_user_default_type" ON "book_lists" USING btree ("user_uuid","list_type") WHERE "book_lists"."is_default" = true;--> statement-breakpoint
+INSERT INTO "book_lists" ("uuid", "user_uuid", "name", "description", "is_public", "is_default", "list_type", "sort_order")
+SELECT gen_random_uuid()::text, "owners"."user_uuid", 'My Library', 'Default book library', false, true, 'custom', 0
+FROM (SELECT DISTINCT "user_uuid" FROM "book_list_items") AS "owners"
+ON CONFLICT DO NOTHING;--> statement-breakpoint
+INSERT INTO "book_list_items" ("list_uuid", "book_uuid", "user_uuid", "reading_status", "personal_rating", "personal_review", "date_started", "date_completed", "progress_percentage", "sort_order", "notes", "added_at")
+SELECT DISTINCT ON ("items"."user_uuid", "items"."book_uuid")
+	"library"."uuid", "items"."book_uuid", "items"."user_uuid", "items"."reading_status", "items"."personal_rating", "items"."personal_review",
+	"items"."date_started", "items"."date_completed", "items"."progress_percentage", 0, "items"."notes", "items"."added_at"
+FROM "book_list_items" AS "items"
+INNER JOIN "book_lists" AS "library" ON "library"."user_uuid" = "items"."user_uuid" AND "library"."is_default" = true AND "library"."list_type" = 'custom'
+WHERE NOT EXISTS (
+	SELECT 1 FROM "book_list_items" AS "existing"
+	WHERE "existing"."list_uuid" = "library"."uuid" AND "existing"."book_uuid" = "items"."book_uuid"
+)
+ORDER BY "items"."user_uuid", "items"."book_uuid", "items"."added_at"
+ON CONFLICT DO NOTHING;--> statement-breakpoint
+INSERT INTO "book_lists" ("uuid", "user_uuid", "name", "description", "is_public", "is_default", "list_type", "sort_order")
+SELECT gen_random_uuid()::text, "owners"."user_uuid", "shelves"."name", "shelves"."description", false, true, "shelves"."list_type", "shelves"."sort_order"
+FROM (SELECT DISTINCT "user_uuid" FROM "book_list_items") AS "owners"
+CROSS JOIN (VALUES
+	('currently_reading', 'Currently Reading', 'Books you are reading right now', 1),
+	('want_to_read', 'Want to Read', 'Books you plan to read', 2),
+	('read', 'Read', 'Books you have finished', 3),
+	('favorites', 'Favorites', 'Books you loved', 4)
+) AS "shelves" ("list_type", "name", "description", "sort_order")
+ON CONFLICT DO NOTHING;--> statement-breakpoint
+INSERT INTO "book_list_items" ("list_uuid", "book_uuid", "user_uuid", "reading_status", "personal_rating", "date_started", "date_completed", "progress_percentage", "sort_order", "added_at")
+SELECT "shelf"."uuid", "items"."book_uuid", "items"."user_uuid", "items"."reading_status", "items"."personal_rating",
+	"items"."date_started", "items"."date_completed", "items"."progress_percentage", 0, "items"."added_at"
+FROM "book_list_items" AS "items"
+INNER JOIN "book_lists" AS "library" ON "library"."uuid" = "items"."list_uuid" AND "library"."is_default" = true AND "library"."list_type" = 'custom'
+INNER JOIN "book_lists" AS "shelf" ON "shelf"."user_uuid" = "items"."user_uuid" AND "shelf"."is_default" = true AND "shelf"."list_type" = "items"."reading_status"
+ON CONFLICT DO NOTHING;
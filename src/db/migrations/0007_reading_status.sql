@@ -0,0 +1,25 @@
+ALTER TABLE "book_list_items" ADD COLUMN "status_changed_at" timestamp with time zone;--> statement-breakpoint
+ALTER TABLE "book_list_items" ADD COLUMN "dnf_reason" text;--> statement-breakpoint
+UPDATE "book_list_items" SET "reading_status" = CASE
+	WHEN lower(replace(trim("reading_status"), '-', '_')) IN ('want_to_read', 'to_read') THEN 'want_to_read'
+	WHEN lower(replace(trim("reading_status"), '-', '_')) IN ('currently_reading', 'reading', 'in_progress') THEN 'currently_reading'
+	WHEN lower(replace(trim("reading_status"), '-', '_')) IN ('read', 'completed', 'finished') THEN 'read'
+	WHEN lower(replace(trim("reading_status"), '-', '_')) IN ('paused', 'on_hold') THEN 'paused'
+	WHEN lower(replace(trim("reading_status"), '-', '_')) IN ('abandoned', 'dnf', 'did_not_finish') THEN 'abandoned'
+	ELSE 'want_to_read'
+END
+WHERE "reading_status" IS NULL OR "reading_status" NOT IN ('want_to_read', 'currently_reading', 'read', 'paused', 'abandoned');--> statement-breakpoint
+UPDATE "book_list_items" SET "progress_percentage" = 100 WHERE "reading_status" = 'read' AND coalesce("progress_percentage", 0) < 100;--> statement-breakpoint
+UPDATE "book_list_items" SET "status_changed_at" = coalesce("date_completed", "date_started", "added_at");--> statement-breakpoint
+DELETE FROM "book_list_items" AS "items"
+USING "book_lists" AS "shelf"
+WHERE "shelf"."uuid" = "items"."list_uuid" AND "shelf"."is_default" = true
+	AND "shelf"."list_type" IN ('want_to_read', 'currently_reading', 'read')
+	AND "shelf"."list_type" <> "items"."reading_status";--> statement-breakpoint
+INSERT INTO "book_list_items" ("list_uuid", "book_uuid", "user_uuid", "reading_status", "personal_rating", "date_started", "date_completed", "progress_percentage", "status_changed_at", "sort_order", "added_at")
+SELECT "shelf"."uuid", "items"."book_uuid", "items"."user_uuid", "items"."reading_status", "items"."personal_rating",
+	"items"."date_started", "items"."date_completed", "items"."progress_percentage", "items"."status_changed_at", 0, "items"."added_at"
+FROM "book_list_items" AS "items"
+INNER JOIN "book_lists" AS "library" ON "library"."uuid" = "items"."list_uuid" AND "library"."is_default" = true AND "library"."list_type" = 'custom'
+INNER JOIN "book_lists" AS "shelf" ON "shelf"."user_uuid" = "items"."user_uuid" AND "shelf"."is_default" = true AND "shelf"."list_type" = "items"."reading_status"
+ON CONFLICT DO NOTHING;
@@ -0,0 +1 @@
+ALTER TABLE "ai_conversations" ADD COLUMN "tags" json;
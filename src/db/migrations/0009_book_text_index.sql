@@ -0,0 +1,43 @@
+CREATE TABLE "book_text_sources" (
+	"id" integer PRIMARY KEY GENERATED ALWAYS AS IDENTITY (sequence name "book_text_sources_id_seq" INCREMENT BY 1 MINVALUE 1 MAXVALUE 2147483647 START WITH 1 CACHE 1),
+	"uuid" varchar(255) NOT NULL,
+	"user_uuid" varchar(255) NOT NULL,
+	"book_uuid" varchar(255) NOT NULL,
+	"filename" varchar(500) NOT NULL,
+	"format" varchar(20) NOT NULL,
+	"byte_size" integer NOT NULL,
+	"status" varchar(50) DEFAULT 'processing' NOT NULL,
+	"error" text,
+	"chunk_count" integer DEFAULT 0 NOT NULL,
+	"page_count" integer,
+	"pages_estimated" boolean DEFAULT true NOT NULL,
+	"embedding_provider" varchar(50),
+	"embedding_model" varchar(100),
+	"embedding_dimensions" integer,
+	"created_at" timestamp with time zone DEFAULT now(),
+	"updated_at" timestamp with time zone DEFAULT now(),
+	CONSTRAINT "book_text_sources_uuid_unique" UNIQUE("uuid")
+);
+--> statement-breakpoint
+CREATE TABLE "book_text_chunks" (
+	"id" integer PRIMARY KEY GENERATED ALWAYS AS IDENTITY (sequence name "book_text_chunks_id_seq" INCREMENT BY 1 MINVALUE 1 MAXVALUE 2147483647 START WITH 1 CACHE 1),
+	"uuid" varchar(255) NOT NULL,
+	"source_uuid" varchar(255) NOT NULL,
+	"user_uuid" varchar(255) NOT NULL,
+	"book_uuid" varchar(255) NOT NULL,
+	"chunk_index" integer NOT NULL,
+	"page_start" integer NOT NULL,
+	"page_end" integer NOT NULL,
+	"chapter" varchar(500),
+	"content" text NOT NULL,
+	"embedding" json NOT NULL,
+	"token_count" integer,
+	"created_at" timestamp with time zone DEFAULT now(),
+	CONSTRAINT "book_text_chunks_uuid_unique" UNIQUE("uuid")
+);
+--> statement-breakpoint
+CREATE INDEX "book_text_sources_book_idx" ON "book_text_sources" USING btree ("book_uuid");--> statement-breakpoint
+CREATE UNIQUE INDEX "book_text_sources_user_book_unique" ON "book_text_sources" USING btree ("user_uuid","book_uuid");--> statement-breakpoint
+CREATE INDEX "book_text_chunks_source_idx" ON "book_text_chunks" USING btree ("source_uuid");--> statement-breakpoint
+CREATE INDEX "book_text_chunks_user_book_page_idx" ON "book_text_chunks" USING btree ("user_uuid","book_uuid","page_start");--> statement-breakpoint
+CREATE UNIQUE INDEX "book_text_chunks_source_index_unique" ON "book_text_chunks" USING btree ("source_uuid","chunk_index");
@@ -0,0 +1 @@
+ALTER TABLE "ai_conversations" ADD COLUMN "spoiler_mode" varchar(20) DEFAULT 'strict' NOT NULL;
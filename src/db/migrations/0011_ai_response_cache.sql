@@ -0,0 +1,19 @@
+CREATE TABLE "ai_response_cache" (
+	"id" integer PRIMARY KEY GENERATED ALWAYS AS IDENTITY (sequence name "ai_response_cache_id_seq" INCREMENT BY 1 MINVALUE 1 MAXVALUE 2147483647 START WITH 1 CACHE 1),
+	"cache_key" varchar(255) NOT NULL,
+	"response" json NOT NULL,
+	"expires_at" timestamp with time zone NOT NULL,
+	"created_at" timestamp with time zone DEFAULT now(),
+	CONSTRAINT "ai_response_cache_cache_key_unique" UNIQUE("cache_key")
+);
+--> statement-breakpoint
+CREATE TABLE "ai_response_cache_tags" (
+	"id" integer PRIMARY KEY GENERATED ALWAYS AS IDENTITY (sequence name "ai_response_cache_tags_id_seq" INCREMENT BY 1 MINVALUE 1 MAXVALUE 2147483647 START WITH 1 CACHE 1),
+	"cache_key" varchar(255) NOT NULL,
+	"tag" varchar(255) NOT NULL
+);
+--> statement-breakpoint
+CREATE INDEX "ai_response_cache_expires_at_idx" ON "ai_response_cache" USING btree ("expires_at");--> statement-breakpoint
+CREATE INDEX "ai_response_cache_created_at_idx" ON "ai_response_cache" USING btree ("created_at");--> statement-breakpoint
+CREATE INDEX "ai_response_cache_tags_tag_idx" ON "ai_response_cache_tags" USING btree ("tag");--> statement-breakpoint
+CREATE UNIQUE INDEX "ai_response_cache_tags_key_tag_unique" ON "ai_response_cache_tags" USING btree ("cache_key","tag");
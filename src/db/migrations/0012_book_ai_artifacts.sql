@@ -0,0 +1,24 @@
+CREATE TABLE "book_ai_artifacts" (
+	"id" integer PRIMARY KEY GENERATED ALWAYS AS IDENTITY (sequence name "book_ai_artifacts_id_seq" INCREMENT BY 1 MINVALUE 1 MAXVALUE 2147483647 START WITH 1 CACHE 1),
+	"uuid" varchar(255) NOT NULL,
+	"book_uuid" varchar(255) NOT NULL,
+	"artifact_type" varchar(50) NOT NULL,
+	"artifact_key" varchar(500) DEFAULT '' NOT NULL,
+	"language" varchar(10) NOT NULL,
+	"model" varchar(100) NOT NULL,
+	"provider" varchar(50),
+	"version" integer NOT NULL,
+	"is_current" boolean DEFAULT false NOT NULL,
+	"status" varchar(50) DEFAULT 'pending' NOT NULL,
+	"content" text,
+	"error" text,
+	"input_tokens" integer,
+	"output_tokens" integer,
+	"generated_by" varchar(255),
+	"created_at" timestamp with time zone DEFAULT now(),
+	"updated_at" timestamp with time zone DEFAULT now(),
+	CONSTRAINT "book_ai_artifacts_uuid_unique" UNIQUE("uuid")
+);
+--> statement-breakpoint
+CREATE INDEX "book_ai_artifacts_lookup_idx" ON "book_ai_artifacts" USING btree ("book_uuid","artifact_type","artifact_key","language");--> statement-breakpoint
+CREATE UNIQUE INDEX "book_ai_artifacts_version_unique" ON "book_ai_artifacts" USING btree ("book_uuid","artifact_type","artifact_key","language","version");
@@ -0,0 +1,10 @@
+CREATE TABLE "ai_daily_usage" (
+	"id" integer PRIMARY KEY GENERATED ALWAYS AS IDENTITY (sequence name "ai_daily_usage_id_seq" INCREMENT BY 1 MINVALUE 1 MAXVALUE 2147483647 START WITH 1 CACHE 1),
+	"user_uuid" varchar(255) NOT NULL,
+	"usage_date" varchar(10) NOT NULL,
+	"tokens" integer DEFAULT 0 NOT NULL,
+	"requests" integer DEFAULT 0 NOT NULL,
+	"updated_at" timestamp with time zone DEFAULT now()
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX "ai_daily_usage_user_date_unique" ON "ai_daily_usage" USING btree ("user_uuid","usage_date");
@@ -0,0 +1,2 @@
+ALTER TABLE "reading_sessions" ADD COLUMN "pause_intervals" json;--> statement-breakpoint
+ALTER TABLE "reading_sessions" ADD COLUMN "last_activity_at" timestamp with time zone;
@@ -0,0 +1,9 @@
+ALTER TABLE "users" ADD COLUMN "timezone" varchar(64);--> statement-breakpoint
+CREATE TABLE "reading_streak_freezes" (
+	"id" integer PRIMARY KEY GENERATED ALWAYS AS IDENTITY (sequence name "reading_streak_freezes_id_seq" INCREMENT BY 1 MINVALUE 1 MAXVALUE 2147483647 START WITH 1 CACHE 1),
+	"user_uuid" varchar(255) NOT NULL,
+	"freeze_date" varchar(10) NOT NULL,
+	"created_at" timestamp with time zone DEFAULT now()
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX "reading_streak_freezes_user_date_unique" ON "reading_streak_freezes" USING btree ("user_uuid","freeze_date");
@@ -0,0 +1,14 @@
+CREATE TABLE "reading_recaps" (
+	"id" integer PRIMARY KEY GENERATED ALWAYS AS IDENTITY (sequence name "reading_recaps_id_seq" INCREMENT BY 1 MINVALUE 1 MAXVALUE 2147483647 START WITH 1 CACHE 1),
+	"uuid" varchar(255) NOT NULL,
+	"user_uuid" varchar(255) NOT NULL,
+	"year" integer NOT NULL,
+	"stats" json NOT NULL,
+	"narrative" text,
+	"is_public" boolean DEFAULT false NOT NULL,
+	"created_at" timestamp with time zone DEFAULT now(),
+	"updated_at" timestamp with time zone DEFAULT now(),
+	CONSTRAINT "reading_recaps_uuid_unique" UNIQUE("uuid")
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX "reading_recaps_user_year_unique" ON "reading_recaps" USING btree ("user_uuid","year");
@@ -0,0 +1,7 @@
+CREATE TABLE "ai_rate_limit_buckets" (
+	"id" integer PRIMARY KEY GENERATED ALWAYS AS IDENTITY (sequence name "ai_rate_limit_buckets_id_seq" INCREMENT BY 1 MINVALUE 1 MAXVALUE 2147483647 START WITH 1 CACHE 1),
+	"bucket_key" varchar(255) NOT NULL,
+	"tokens" double precision NOT NULL,
+	"updated_at" timestamp with time zone NOT NULL,
+	CONSTRAINT "ai_rate_limit_buckets_bucket_key_unique" UNIQUE("bucket_key")
+);
@@ -10,8 +10,10 @@ import {
   uniqueIndex,
   index,
   decimal,
+  doublePrecision,
   json,
 } from "drizzle-orm/pg-core";
+import { sql } from "drizzle-orm";
 
 // Users table
 export const users = pgTable(
@@ -32,6 +34,7 @@ export const users = pgTable(
     updated_at: timestamp({ withTimezone: true }),
     invited_by: varchar({ length: 255 }).notNull().default(""),
     is_affiliate: boolean().notNull().default(false),
+    timezone: varchar({ length: 64 }), // IANA name, e.g. Asia/Tokyo; reading days are counted in it
   },
   (table) => [
     uniqueIndex("email_provider_unique_idx").on(
@@ -215,6 +218,8 @@ export const reading_sessions = pgTable(
     location: varchar({ length: 100 }), // home, library, commute, etc.
     reading_goal_met: boolean().notNull().default(false),
     status: varchar({ length: 50 }).notNull().default("completed"), // active, paused, completed
+    pause_intervals: json().$type<{ started_at: string; ended_at?: string; auto?: boolean }[]>(), // Excluded from reading_duration_minutes
+    last_activity_at: timestamp({ withTimezone: true }), // Last sign of reading, used to auto-pause idle sessions
     created_at: timestamp({ withTimezone: true }).defaultNow(),
     updated_at: timestamp({ withTimezone: true }).defaultNow(),
   },
@@ -270,7 +275,7 @@ export const book_lists = pgTable(
     description: text(),
     is_public: boolean().notNull().default(false),
     is_default: boolean().notNull().default(false), // For system lists like "Want to Read", "Currently Reading"
-    list_type: varchar({ length: 50 }).notNull().default("custom"), // custom, want_to_read, currently_reading, completed, favorites
+    list_type: varchar({ length: 50 }).notNull().default("custom"), // custom, want_to_read, currently_reading, read, favorites
     sort_order: integer().notNull().default(0),
     cover_url: varchar({ length: 500 }),
     tags: text(), // JSON array of tags
@@ -282,7 +287,8 @@ export const book_lists = pgTable(
     index("book_lists_type_idx").on(table.list_type),
     index("book_lists_public_idx").on(table.is_public),
     index("book_lists_created_at_idx").on(table.created_at),
-    uniqueIndex("book_lists_user_default_type").on(table.user_uuid, table.list_type, table.is_default),
+    // One default list per type (the "My Library" list and each system shelf); custom lists are unrestricted
+    uniqueIndex("book_lists_user_default_type").on(table.user_uuid, table.list_type).where(sql`${table.is_default} = true`),
   ]
 );
 
@@ -298,9 +304,11 @@ export const book_list_items = pgTable(
     sort_order: integer().notNull().default(0),
     personal_rating: decimal({ precision: 3, scale: 2 }), // 0.00 to 5.00
     personal_review: text(),
-    reading_status: varchar({ length: 50 }).default("want_to_read"), // want_to_read, reading, completed, dnf (did not finish)
+    reading_status: varchar({ length: 50 }).default("want_to_read"), // want_to_read, currently_reading, read, paused, abandoned - see lib/readingStatus
+    status_changed_at: timestamp({ withTimezone: true }),
     date_started: timestamp({ withTimezone: true }),
     date_completed: timestamp({ withTimezone: true }),
+    dnf_reason: text(), // Why the book was abandoned
     progress_percentage: integer().default(0), // 0-100
     notes: text(),
   },
@@ -315,6 +323,25 @@ export const book_list_items = pgTable(
   ]
 );
 
+// Reading Goals table - Per-user reading targets (one per goal type)
+export const reading_goals = pgTable(
+  "reading_goals",
+  {
+    id: integer().primaryKey().generatedAlwaysAsIdentity(),
+    uuid: varchar({ length: 255 }).notNull().unique(),
+    user_uuid: varchar({ length: 255 }).notNull(),
+    goal_type: varchar({ length: 50 }).notNull(), // books_per_year, pages_per_month, minutes_per_day
+    target_value: integer().notNull(),
+    is_active: boolean().notNull().default(true),
+    created_at: timestamp({ withTimezone: true }).defaultNow(),
+    updated_at: timestamp({ withTimezone: true }).defaultNow(),
+  },
+  (table) => [
+    index("reading_goals_user_idx").on(table.user_uuid),
+    uniqueIndex("reading_goals_user_type_unique").on(table.user_uuid, table.goal_type),
+  ]
+);
+
 // AI Conversations table - For reading assistant chat conversations
 export const ai_conversations = pgTable(
   "ai_conversations",
@@ -327,7 +354,9 @@ export const ai_conversations = pgTable(
     title: varchar({ length: 255 }).notNull().default("New Conversation"),
     context_type: varchar({ length: 50 }).notNull().default("general"), // general, book_specific, chapter_specific
     context_data: json(), // Additional context like current page, chapter, etc.
+    spoiler_mode: varchar({ length: 20 }).notNull().default("strict"), // strict, warn, off - see services/spoilerGuard
     status: varchar({ length: 50 }).notNull().default("active"), // active, archived, deleted
+    tags: json().$type<string[]>(), // User labels for filtering history
     total_messages: integer().notNull().default(0),
     last_message_at: timestamp({ withTimezone: true }),
     ai_model: varchar({ length: 100 }), // Track which AI model was used
@@ -379,3 +408,179 @@ export const ai_messages = pgTable(
     uniqueIndex("ai_messages_conversation_sequence_unique").on(table.conversation_uuid, table.sequence_number),
   ]
 );
+
+// Book Text Sources table - Uploaded book text (EPUB/TXT/PDF) indexed for the reading assistant
+export const book_text_sources = pgTable(
+  "book_text_sources",
+  {
+    id: integer().primaryKey().generatedAlwaysAsIdentity(),
+    uuid: varchar({ length: 255 }).notNull().unique(),
+    user_uuid: varchar({ length: 255 }).notNull(),
+    book_uuid: varchar({ length: 255 }).notNull(),
+    filename: varchar({ length: 500 }).notNull(),
+    format: varchar({ length: 20 }).notNull(), // epub, txt, pdf
+    byte_size: integer().notNull(),
+    status: varchar({ length: 50 }).notNull().default("processing"), // processing, ready, failed
+    error: text(), // Why indexing failed
+    chunk_count: integer().notNull().default(0),
+    page_count: integer(), // Pages the chunks are spread across
+    pages_estimated: boolean().notNull().default(true), // false when pages come from the file (PDF)
+    embedding_provider: varchar({ length: 50 }), // Provider/model that embedded the chunks; queries must match
+    embedding_model: varchar({ length: 100 }),
+    embedding_dimensions: integer(),
+    created_at: timestamp({ withTimezone: true }).defaultNow(),
+    updated_at: timestamp({ withTimezone: true }).defaultNow(),
+  },
+  (table) => [
+    index("book_text_sources_book_idx").on(table.book_uuid),
+    uniqueIndex("book_text_sources_user_book_unique").on(table.user_uuid, table.book_uuid),
+  ]
+);
+
+// Book Text Chunks table - Embedded passages of an uploaded book, searched by page
+export const book_text_chunks = pgTable(
+  "book_text_chunks",
+  {
+    id: integer().primaryKey().generatedAlwaysAsIdentity(),
+    uuid: varchar({ length: 255 }).notNull().unique(),
+    source_uuid: varchar({ length: 255 }).notNull(),
+    user_uuid: varchar({ length: 255 }).notNull(),
+    book_uuid: varchar({ length: 255 }).notNull(),
+    chunk_index: integer().notNull(),
+    page_start: integer().notNull(),
+    page_end: integer().notNull(),
+    chapter: varchar({ length: 500 }),
+    content: text().notNull(),
+    embedding: json().$type<number[]>().notNull(),
+    token_count: integer(),
+    created_at: timestamp({ withTimezone: true }).defaultNow(),
+  },
+  (table) => [
+    index("book_text_chunks_source_idx").on(table.source_uuid),
+    index("book_text_chunks_user_book_page_idx").on(table.user_uuid, table.book_uuid, table.page_start),
+    uniqueIndex("book_text_chunks_source_index_unique").on(table.source_uuid, table.chunk_index),
+  ]
+);
+
+// Shared AI response cache, used when AI_CACHE_BACKEND=postgres
+export const ai_response_cache = pgTable(
+  "ai_response_cache",
+  {
+    id: integer().primaryKey().generatedAlwaysAsIdentity(),
+    cache_key: varchar({ length: 255 }).notNull().unique(), // sha256 of the request
+    response: json().notNull(),
+    expires_at: timestamp({ withTimezone: true }).notNull(),
+    created_at: timestamp({ withTimezone: true }).defaultNow(),
+  },
+  (table) => [
+    index("ai_response_cache_expires_at_idx").on(table.expires_at),
+    index("ai_response_cache_created_at_idx").on(table.created_at),
+  ]
+);
+
+// Invalidation tags of cached responses, e.g. book:<uuid>
+export const ai_response_cache_tags = pgTable(
+  "ai_response_cache_tags",
+  {
+    id: integer().primaryKey().generatedAlwaysAsIdentity(),
+    cache_key: varchar({ length: 255 }).notNull(),
+    tag: varchar({ length: 255 }).notNull(),
+  },
+  (table) => [
+    index("ai_response_cache_tags_tag_idx").on(table.tag),
+    uniqueIndex("ai_response_cache_tags_key_tag_unique").on(table.cache_key, table.tag),
+  ]
+);
+
+// Book AI Artifacts table - Stored AI-generated book content (overviews, chapter summaries)
+// shared by every reader of the book; each regeneration adds a version
+export const book_ai_artifacts = pgTable(
+  "book_ai_artifacts",
+  {
+    id: integer().primaryKey().generatedAlwaysAsIdentity(),
+    uuid: varchar({ length: 255 }).notNull().unique(),
+    book_uuid: varchar({ length: 255 }).notNull(),
+    artifact_type: varchar({ length: 50 }).notNull(), // overview, chapter_summary
+    artifact_key: varchar({ length: 500 }).notNull().default(""), // chapter title for chapter summaries
+    language: varchar({ length: 10 }).notNull(),
+    model: varchar({ length: 100 }).notNull(), // Model that generated the content
+    provider: varchar({ length: 50 }),
+    version: integer().notNull(),
+    is_current: boolean().notNull().default(false), // The version served to readers
+    status: varchar({ length: 50 }).notNull().default("pending"), // pending, ready, failed
+    content: text(),
+    error: text(), // Why generation failed
+    input_tokens: integer(),
+    output_tokens: integer(),
+    generated_by: varchar({ length: 255 }), // User who asked for it; null for background generation
+    created_at: timestamp({ withTimezone: true }).defaultNow(),
+    updated_at: timestamp({ withTimezone: true }).defaultNow(),
+  },
+  (table) => [
+    index("book_ai_artifacts_lookup_idx").on(table.book_uuid, table.artifact_type, table.artifact_key, table.language),
+    uniqueIndex("book_ai_artifacts_version_unique").on(
+      table.book_uuid,
+      table.artifact_type,
+      table.artifact_key,
+      table.language,
+      table.version
+    ),
+  ]
+);
+
+// AI Daily Usage table - Tokens each user spent on AI per UTC day, for daily quotas
+export const ai_daily_usage = pgTable(
+  "ai_daily_usage",
+  {
+    id: integer().primaryKey().generatedAlwaysAsIdentity(),
+    user_uuid: varchar({ length: 255 }).notNull(),
+    usage_date: varchar({ length: 10 }).notNull(), // YYYY-MM-DD (UTC)
+    tokens: integer().notNull().default(0),
+    requests: integer().notNull().default(0),
+    updated_at: timestamp({ withTimezone: true }).defaultNow(),
+  },
+  (table) => [
+    uniqueIndex("ai_daily_usage_user_date_unique").on(table.user_uuid, table.usage_date),
+  ]
+);
+
+// AI Rate Limit Buckets table - Token buckets for AI request rates, shared by all server instances
+export const ai_rate_limit_buckets = pgTable("ai_rate_limit_buckets", {
+  id: integer().primaryKey().generatedAlwaysAsIdentity(),
+  bucket_key: varchar({ length: 255 }).notNull().unique(), // user:<uuid> or apikey:<id>
+  tokens: doublePrecision().notNull(), // refilled lazily from updated_at
+  updated_at: timestamp({ withTimezone: true }).notNull(),
+});
+
+// Reading Streak Freezes table - Days a user skipped without breaking their reading streak
+export const reading_streak_freezes = pgTable(
+  "reading_streak_freezes",
+  {
+    id: integer().primaryKey().generatedAlwaysAsIdentity(),
+    user_uuid: varchar({ length: 255 }).notNull(),
+    freeze_date: varchar({ length: 10 }).notNull(), // YYYY-MM-DD in the user's timezone
+    created_at: timestamp({ withTimezone: true }).defaultNow(),
+  },
+  (table) => [
+    uniqueIndex("reading_streak_freezes_user_date_unique").on(table.user_uuid, table.freeze_date),
+  ]
+);
+
+// Reading Recaps table - Saved "year in books" wrap-ups, shareable by uuid when public
+export const reading_recaps = pgTable(
+  "reading_recaps",
+  {
+    id: integer().primaryKey().generatedAlwaysAsIdentity(),
+    uuid: varchar({ length: 255 }).notNull().unique(),
+    user_uuid: varchar({ length: 255 }).notNull(),
+    year: integer().notNull(),
+    stats: json().notNull(), // ReadingRecapStats as of the last generation
+    narrative: text(), // Optional AI-written summary of the year
+    is_public: boolean().notNull().default(false),
+    created_at: timestamp({ withTimezone: true }).defaultNow(),
+    updated_at: timestamp({ withTimezone: true }).defaultNow(),
+  },
+  (table) => [
+    uniqueIndex("reading_recaps_user_year_unique").on(table.user_uuid, table.year),
+  ]
+);
@@ -63,6 +63,15 @@ export function useAIChat(options: UseAIChatOptions = {}): UseChatReturn {
         signal: abortControllerRef.current.signal,
       })
 
+      if (response.status === 429) {
+        // Rate limited: surface the server's message and when to retry
+        const data = await response.json().catch(() => ({}))
+        const retryAfter = response.headers.get('Retry-After')
+        setError(data.error || `Too many requests. Try again in ${retryAfter || 60} seconds.`)
+        setMessages(prev => prev.filter(message => message.id !== userMessage.id))
+        return
+      }
+
       if (!response.ok) {
         throw new Error(`HTTP error! status: ${response.status}`)
       }
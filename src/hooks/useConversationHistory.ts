@@ -66,8 +66,10 @@ export function useConversationHistory(
         queryParams.set('archived', filters.archived.toString())
       }
       
-      if (filters?.dateRange) {
+      if (filters?.dateRange?.start) {
         queryParams.set('startDate', filters.dateRange.start.toISOString())
+      }
+      if (filters?.dateRange?.end) {
         queryParams.set('endDate', filters.dateRange.end.toISOString())
       }
 
@@ -115,8 +117,15 @@ export function useConversationHistory(
         queryParams.set('archived', currentFilters.archived.toString())
       }
 
+      if (currentFilters?.dateRange?.start) {
+        queryParams.set('startDate', currentFilters.dateRange.start.toISOString())
+      }
+      if (currentFilters?.dateRange?.end) {
+        queryParams.set('endDate', currentFilters.dateRange.end.toISOString())
+      }
+
       const response = await fetch(`/api/conversations?${queryParams}`)
-      
+
       if (!response.ok) {
         throw new Error(`Failed to load more sessions: ${response.status}`)
       }
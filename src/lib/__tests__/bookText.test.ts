@@ -0,0 +1,203 @@
+/**
+ * Unit Tests for Book Text Extraction
+ */
+
+import { deflateRawSync } from 'zlib';
+import { detectBookTextFormat, extractBookText, findChapterHeading } from '../bookText';
+
+// Build an EPUB (a ZIP archive of deflated files) in memory; CRCs are left at zero
+// since the reader does not check them
+function buildEpub(files: Record<string, string>): Uint8Array {
+  const locals: Buffer[] = [];
+  const centrals: Buffer[] = [];
+  let offset = 0;
+
+  for (const [path, content] of Object.entries(files)) {
+    const data = deflateRawSync(Buffer.from(content, 'utf-8'));
+    const name = Buffer.from(path, 'utf-8');
+
+    const local = Buffer.alloc(30);
+    local.writeUInt32LE(0x04034b50, 0);
+    local.writeUInt16LE(8, 8);
+    local.writeUInt32LE(data.length, 18);
+    local.writeUInt32LE(Buffer.byteLength(content), 22);
+    local.writeUInt16LE(name.length, 26);
+    locals.push(local, name, data);
+
+    const central = Buffer.alloc(46);
+    central.writeUInt32LE(0x02014b50, 0);
+    central.writeUInt16LE(8, 10);
+    central.writeUInt32LE(data.length, 20);
+    central.writeUInt32LE(Buffer.byteLength(content), 24);
+    central.writeUInt16LE(name.length, 28);
+    central.writeUInt32LE(offset, 42);
+    centrals.push(central, name);
+
+    offset += local.length + name.length + data.length;
+  }
+
+  const directory = Buffer.concat(centrals);
+  const eocd = Buffer.alloc(22);
+  eocd.writeUInt32LE(0x06054b50, 0);
+  eocd.writeUInt16LE(centrals.length / 2, 8);
+  eocd.writeUInt16LE(centrals.length / 2, 10);
+  eocd.writeUInt32LE(directory.length, 12);
+  eocd.writeUInt32LE(offset, 16);
+
+  return new Uint8Array(Buffer.concat([...locals, directory, eocd]));
+}
+
+const CONTAINER = `<?xml version="1.0"?>
+<container version="1.0" xmlns="urn:oasis:names:tc:opendocument:xmlns:container">
+  <rootfiles><rootfile full-path="OEBPS/content.opf" media-type="application/oebps-package+xml"/></rootfiles>
+</container>`;
+
+const PACKAGE = `<?xml version="1.0"?>
+<package xmlns="http://www.idpf.org/2007/opf" version="3.0">
+  <manifest>
+    <opf:item id="ch2" href="text/chapter%202.xhtml" media-type="application/xhtml+xml"/>
+    <item id="ch1" href="text/chapter1.xhtml#start" media-type="application/xhtml+xml"/>
+    <item id="css" href="../styles/book.css" media-type="text/css"/>
+  </manifest>
+  <spine>
+    <itemref idref="ch1"/>
+    <itemref idref="missing"/>
+    <itemref idref='ch2'/>
+  </spine>
+</package>`;
+
+const CHAPTER_ONE = `<html><head><title>Ignored</title><style>p { color: red }</style></head>
+<body><h1>Chapter&nbsp;1: <em>Arrival</em></h1>
+<p>The ship landed at dawn &amp; nobody came.</p>
+<p>It was &#8220;quiet&#x201D;.<br/>Too quiet.</p>
+<script>alert('no')</script></body></html>`;
+
+const CHAPTER_TWO = `<html><body><h2>Chapter 2</h2><p>They waited&hellip;</p></body></html>`;
+
+describe('detectBookTextFormat', () => {
+  it('should trust known file extensions', () => {
+    expect(detectBookTextFormat('Dune.EPUB', new Uint8Array())).toBe('epub');
+    expect(detectBookTextFormat('dune.pdf', new Uint8Array())).toBe('pdf');
+    expect(detectBookTextFormat('dune.txt', new Uint8Array())).toBe('txt');
+  });
+
+  it('should sniff the leading bytes for other names', () => {
+    expect(detectBookTextFormat('upload', new Uint8Array(Buffer.from('%PDF-1.7')))).toBe('pdf');
+    expect(detectBookTextFormat('upload.bin', new Uint8Array([0x50, 0x4b, 0x03, 0x04]))).toBe('epub');
+    expect(detectBookTextFormat('notes.md', new Uint8Array(Buffer.from('# Notes')))).toBe('txt');
+    expect(detectBookTextFormat('cover.jpg', new Uint8Array([0xff, 0xd8, 0xff]))).toBeNull();
+  });
+});
+
+describe('findChapterHeading', () => {
+  it('should recognise common heading styles near the top', () => {
+    expect(findChapterHeading('Chapter 12\nThe storm broke.')).toBe('Chapter 12');
+    expect(findChapterHeading('\nCHAPTER IV: The Storm\nRain.')).toBe('CHAPTER IV: The Storm');
+    expect(findChapterHeading('Part One\n...')).toBe('Part One');
+    expect(findChapterHeading('Prologue')).toBe('Prologue');
+    expect(findChapterHeading('Chapter Fourteen. Home')).toBe('Chapter Fourteen. Home');
+  });
+
+  it('should ignore prose and headings further down the page', () => {
+    expect(findChapterHeading('The chapter ended there.')).toBeUndefined();
+    expect(findChapterHeading('one\ntwo\nthree\nChapter 3')).toBeUndefined();
+  });
+});
+
+describe('extractBookText', () => {
+  describe('EPUB', () => {
+    const epub = buildEpub({
+      'mimetype': 'application/epub+zip',
+      'META-INF/container.xml': CONTAINER,
+      'OEBPS/content.opf': PACKAGE,
+      'OEBPS/text/chapter1.xhtml': CHAPTER_ONE,
+      'OEBPS/text/chapter 2.xhtml': CHAPTER_TWO,
+    });
+
+    it('should follow the spine and resolve manifest paths', () => {
+      const result = extractBookText(epub, 'epub');
+
+      expect(result.format).toBe('epub');
+      expect(result.hasPageNumbers).toBe(false);
+      expect(result.sections.map(section => section.title)).toEqual(['Chapter 1: Arrival', 'Chapter 2']);
+    });
+
+    it('should strip markup, scripts and styles and decode entities', () => {
+      const [first, second] = extractBookText(epub, 'epub').sections;
+
+      expect(first.text).toBe('Chapter 1: Arrival\n\nThe ship landed at dawn & nobody came.\n\nIt was “quiet”.\nToo quiet.');
+      expect(second.text).toBe('Chapter 2\n\nThey waited…');
+    });
+
+    it('should reject archives without a package document', () => {
+      const noPackage = buildEpub({ 'META-INF/container.xml': CONTAINER });
+      expect(() => extractBookText(noPackage, 'epub')).toThrow('The EPUB file has no package document');
+    });
+
+    it('should reject files that are not archives', () => {
+      expect(() => extractBookText(new Uint8Array(Buffer.from('not an epub')), 'epub')).toThrow('The EPUB file could not be read');
+    });
+
+    it('should report truncated archives with a readable error', () => {
+      const truncated = Buffer.from(epub);
+      // point every local header past the end, as if the file were cut short
+      for (let offset = truncated.readUInt32LE(truncated.length - 6); offset < truncated.length - 22;) {
+        truncated.writeUInt32LE(truncated.length - 1, offset + 42);
+        offset += 46 + truncated.readUInt16LE(offset + 28);
+      }
+
+      expect(() => extractBookText(new Uint8Array(truncated), 'epub')).toThrow('Truncated ZIP archive');
+    });
+  });
+
+  describe('plain text', () => {
+    it('should split at chapter headings and keep the front matter', () => {
+      const text = 'A Novel\nby Someone\n\nChapter 1\nIt begins.\n\nChapter 2\nIt ends.\n';
+      const { sections, hasPageNumbers } = extractBookText(new Uint8Array(Buffer.from(text)), 'txt');
+
+      expect(hasPageNumbers).toBe(false);
+      expect(sections).toEqual([
+        { text: 'A Novel\nby Someone' },
+        { title: 'Chapter 1', text: 'Chapter 1\nIt begins.' },
+        { title: 'Chapter 2', text: 'Chapter 2\nIt ends.' },
+      ]);
+    });
+
+    it('should title a leading heading without starting an empty section', () => {
+      const { sections } = extractBookText(new Uint8Array(Buffer.from('Prologue\r\nBefore it all.\r\n')), 'txt');
+      expect(sections).toEqual([{ title: 'Prologue', text: 'Prologue\nBefore it all.' }]);
+    });
+
+    it('should drop a UTF-8 byte order mark', () => {
+      const data = Buffer.concat([Buffer.from([0xef, 0xbb, 0xbf]), Buffer.from('Café society')]);
+      expect(extractBookText(new Uint8Array(data), 'txt').sections[0].text).toBe('Café society');
+    });
+
+    it('should fall back to Windows-1252 for legacy files', () => {
+      const data = Buffer.from([0x93, 0x43, 0x61, 0x66, 0xe9, 0x94]); // “Café” in Windows-1252
+      expect(extractBookText(new Uint8Array(data), 'txt').sections[0].text).toBe('“Café”');
+    });
+  });
+
+  describe('PDF', () => {
+    it('should number sections by page and take titles from headings', () => {
+      const content = 'BT /F1 12 Tf (Chapter 3) Tj 0 -14 Td (The end of the road.) Tj ET';
+      const pdf = Buffer.from(
+        '%PDF-1.4\n' +
+        '1 0 obj << /Type /Catalog /Pages 2 0 R >> endobj\n' +
+        '2 0 obj << /Type /Pages /Kids [3 0 R] /Count 1 >> endobj\n' +
+        `3 0 obj << /Type /Page /Parent 2 0 R /Contents 4 0 R >> endobj\n` +
+        `4 0 obj << /Length ${content.length} >>\nstream\n${content}\nendstream endobj\n` +
+        'trailer << /Root 1 0 R >>\n%%EOF',
+        'latin1'
+      );
+
+      const result = extractBookText(new Uint8Array(pdf), 'pdf');
+
+      expect(result.hasPageNumbers).toBe(true);
+      expect(result.sections).toEqual([
+        { title: 'Chapter 3', text: 'Chapter 3\nThe end of the road.', page: 1 },
+      ]);
+    });
+  });
+});
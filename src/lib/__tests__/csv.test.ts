@@ -0,0 +1,111 @@
+/**
+ * Unit Tests for CSV Parsing and Writing
+ */
+
+import { parseCsv, parseCsvRecords, toCsvRow, unguardCsvValue } from '../csv';
+
+describe('parseCsv', () => {
+  it('should split rows and cells', () => {
+    expect(parseCsv('Title,Author\nDune,Frank Herbert\n')).toEqual([
+      ['Title', 'Author'],
+      ['Dune', 'Frank Herbert'],
+    ]);
+  });
+
+  it('should keep commas and newlines inside quoted cells', () => {
+    expect(parseCsv('1,"Herbert, Frank","Line one\nLine two",x')).toEqual([
+      ['1', 'Herbert, Frank', 'Line one\nLine two', 'x'],
+    ]);
+  });
+
+  it('should unescape doubled quotes', () => {
+    expect(parseCsv('"She said ""read it""",""""\n')).toEqual([['She said "read it"', '"']]);
+  });
+
+  it('should strip a UTF-8 byte order mark', () => {
+    const [header] = parseCsv('\uFEFFTitle,Author\nDune,Frank Herbert');
+    expect(header).toEqual(['Title', 'Author']);
+  });
+
+  it('should accept CRLF and bare CR line endings', () => {
+    expect(parseCsv('a,b\r\nc,d\re,f\r\n')).toEqual([['a', 'b'], ['c', 'd'], ['e', 'f']]);
+  });
+
+  it('should keep CRLF inside quoted cells', () => {
+    expect(parseCsv('"first\r\nsecond",x\r\n')).toEqual([['first\r\nsecond', 'x']]);
+  });
+
+  it('should keep empty cells and drop blank lines', () => {
+    expect(parseCsv('a,,c\n\n  \nd,e,\n')).toEqual([['a', '', 'c'], ['d', 'e', '']]);
+  });
+
+  it('should read a last row without a trailing newline', () => {
+    expect(parseCsv('a,b\nc,"d"')).toEqual([['a', 'b'], ['c', 'd']]);
+  });
+});
+
+describe('parseCsvRecords', () => {
+  it('should key trimmed values by trimmed headers', () => {
+    expect(parseCsvRecords(' Title , Author \n Dune , Frank Herbert \n')).toEqual({
+      headers: ['Title', 'Author'],
+      records: [{ Title: 'Dune', Author: 'Frank Herbert' }],
+    });
+  });
+
+  it('should fill missing cells with empty strings', () => {
+    expect(parseCsvRecords('Title,Author,Pages\nDune,Frank Herbert\n').records).toEqual([
+      { Title: 'Dune', Author: 'Frank Herbert', Pages: '' },
+    ]);
+  });
+
+  it('should return nothing for empty text', () => {
+    expect(parseCsvRecords('')).toEqual({ headers: [], records: [] });
+  });
+});
+
+describe('toCsvRow', () => {
+  it('should join values into a CRLF terminated line', () => {
+    expect(toCsvRow(['Dune', 412, true])).toBe('Dune,412,true\r\n');
+  });
+
+  it('should write null and undefined as empty cells', () => {
+    expect(toCsvRow(['a', null, undefined, 'b'])).toBe('a,,,b\r\n');
+  });
+
+  it('should quote cells with commas, quotes or line breaks', () => {
+    expect(toCsvRow(['Herbert, Frank', 'The "spice"', 'two\nlines'])).toBe(
+      '"Herbert, Frank","The ""spice""","two\nlines"\r\n'
+    );
+  });
+
+  it('should neutralise text a spreadsheet would run as a formula', () => {
+    expect(toCsvRow(['=1+1', '+SUM(A1)', '-2+3', '@cmd', 'a=b'])).toBe("'=1+1,'+SUM(A1),'-2+3,'@cmd,a=b\r\n");
+    expect(toCsvRow(['=HYPERLINK("http://evil.example","x")'])).toBe('"\'=HYPERLINK(""http://evil.example"",""x"")"\r\n');
+    expect(toCsvRow(['\t=1+1', '\r=1+1'])).toBe("'\t=1+1,\"'\r=1+1\"\r\n");
+  });
+
+  it('should leave numbers and Goodreads identifier wrappers alone', () => {
+    expect(toCsvRow([-5, '="0743273567"', '="080442957X"', '=""'])).toBe('-5,"=""0743273567""","=""080442957X""","="""""\r\n');
+  });
+
+  it('should round-trip through the parser', () => {
+    const values = ['Dune', 'Herbert, Frank', 'She said "read it"', 'two\nlines', '', '=cmd|\' /C calc\'!A0', '-ism', '="0441172717"'];
+    expect(parseCsv(toCsvRow(values) + toCsvRow(values))).toEqual([
+      ['Dune', 'Herbert, Frank', 'She said "read it"', 'two\nlines', '', "'=cmd|' /C calc'!A0", "'-ism", '="0441172717"'],
+      ['Dune', 'Herbert, Frank', 'She said "read it"', 'two\nlines', '', "'=cmd|' /C calc'!A0", "'-ism", '="0441172717"'],
+    ]);
+  });
+});
+
+describe('unguardCsvValue', () => {
+  it('should restore text guarded by toCsvRow', () => {
+    const values = ['=1+1', '-ism', '@cmd', '\t=1+1'];
+    const [guarded] = parseCsv(toCsvRow(values));
+    expect(guarded.map(unguardCsvValue)).toEqual(values);
+  });
+
+  it('should leave other apostrophes alone', () => {
+    expect(unguardCsvValue("'Salem's Lot")).toBe("'Salem's Lot");
+    expect(unguardCsvValue("Ender's Game")).toBe("Ender's Game");
+  });
+});
@@ -0,0 +1,175 @@
+/**
+ * Unit Tests for PDF Text Extraction
+ */
+
+import { deflateSync } from 'zlib';
+import { extractPdfPages } from '../pdfText';
+
+interface FixtureObject {
+  dict: string;
+  stream?: string | Buffer;
+  // compress the stream with FlateDecode
+  deflate?: boolean;
+}
+
+// Build a PDF in memory. The reader finds objects by scanning for "n 0 obj", so
+// no cross-reference table is written.
+function buildPdf(objects: FixtureObject[], trailer: string = '<< /Root 1 0 R >>'): Uint8Array {
+  const parts: Buffer[] = [Buffer.from('%PDF-1.7\n', 'latin1')];
+
+  objects.forEach((object, index) => {
+    if (object.stream === undefined) {
+      parts.push(Buffer.from(`${index + 1} 0 obj\n${object.dict}\nendobj\n`, 'latin1'));
+      return;
+    }
+
+    const raw = Buffer.isBuffer(object.stream) ? object.stream : Buffer.from(object.stream, 'latin1');
+    const data = object.deflate ? deflateSync(raw) : raw;
+    const filter = object.deflate ? ' /Filter /FlateDecode' : '';
+    const dict = object.dict.replace(/>>\s*$/, `/Length ${data.length}${filter} >>`);
+    parts.push(
+      Buffer.from(`${index + 1} 0 obj\n${dict}\nstream\n`, 'latin1'),
+      data,
+      Buffer.from('\nendstream\nendobj\n', 'latin1')
+    );
+  });
+
+  parts.push(Buffer.from(`trailer\n${trailer}\n%%EOF\n`, 'latin1'));
+  return new Uint8Array(Buffer.concat(parts));
+}
+
+// Catalog, page tree and a Helvetica font shared by all pages; page objects start at 4
+function buildTextPdf(pages: Array<{ content: string; deflate?: boolean }>): Uint8Array {
+  const kids = pages.map((_, index) => `${4 + index * 2} 0 R`).join(' ');
+
+  return buildPdf([
+    { dict: '<< /Type /Catalog /Pages 2 0 R >>' },
+    { dict: `<< /Type /Pages /Kids [${kids}] /Count ${pages.length} /Resources << /Font << /F1 3 0 R >> >> >>` },
+    { dict: '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica >>' },
+    ...pages.flatMap((page, index) => [
+      { dict: `<< /Type /Page /Parent 2 0 R /Contents ${5 + index * 2} 0 R >>` },
+      { dict: '<< >>', stream: page.content, deflate: page.deflate },
+    ]),
+  ]);
+}
+
+describe('extractPdfPages', () => {
+  it('should extract one string per page in page tree order', () => {
+    const pdf = buildTextPdf([
+      { content: 'BT /F1 12 Tf 72 720 Td (Chapter 1) Tj 0 -14 Td (It was a dark and stormy night.) Tj ET' },
+      { content: 'BT /F1 12 Tf 72 720 Td (The rain fell in torrents.) Tj ET' },
+    ]);
+
+    expect(extractPdfPages(pdf)).toEqual([
+      'Chapter 1\nIt was a dark and stormy night.',
+      'The rain fell in torrents.',
+    ]);
+  });
+
+  it('should inflate FlateDecode content streams', () => {
+    const pdf = buildTextPdf([{ content: 'BT /F1 12 Tf (Compressed text survives.) Tj ET', deflate: true }]);
+    expect(extractPdfPages(pdf)).toEqual(['Compressed text survives.']);
+  });
+
+  it('should turn large TJ kerning into word gaps and unescape literal strings', () => {
+    const pdf = buildTextPdf([
+      { content: 'BT /F1 12 Tf [(Hello) -300 (world) -20 (!)] TJ T* (\\(quoted\\) \\101) Tj ET' },
+    ]);
+
+    expect(extractPdfPages(pdf)).toEqual(['Hello world!\n(quoted) A']);
+  });
+
+  it('should start new lines on text matrix moves and quote operators', () => {
+    const pdf = buildTextPdf([
+      { content: 'BT /F1 12 Tf 1 0 0 1 72 720 Tm (First) Tj 1 0 0 1 140 720 Tm (line) Tj 1 0 0 1 72 700 Tm (Second) Tj (Third) \' ET' },
+    ]);
+
+    expect(extractPdfPages(pdf)).toEqual(['First line\nSecond\nThird']);
+  });
+
+  it('should map two-byte codes through a ToUnicode CMap', () => {
+    const cmap = [
+      'begincmap',
+      '1 begincodespacerange <0000> <FFFF> endcodespacerange',
+      '2 beginbfchar <0001> <0048> <0002> <0069> endbfchar',
+      '1 beginbfrange <0010> <0012> <0061> endbfrange',
+      'endcmap',
+    ].join('\n');
+
+    const pdf = buildPdf([
+      { dict: '<< /Type /Catalog /Pages 2 0 R >>' },
+      { dict: '<< /Type /Pages /Kids [3 0 R] /Count 1 >>' },
+      { dict: '<< /Type /Page /Parent 2 0 R /Resources << /Font << /F1 5 0 R >> >> /Contents 4 0 R >>' },
+      { dict: '<< >>', stream: 'BT /F1 12 Tf <00010002> Tj 0 -14 Td <001000110012> Tj ET' },
+      { dict: '<< /Type /Font /Subtype /Type0 /BaseFont /Custom /ToUnicode 6 0 R >>' },
+      { dict: '<< >>', stream: cmap, deflate: true },
+    ]);
+
+    expect(extractPdfPages(pdf)).toEqual(['Hi\nabc']);
+  });
+
+  it('should read text drawn by form XObjects', () => {
+    const pdf = buildPdf([
+      { dict: '<< /Type /Catalog /Pages 2 0 R >>' },
+      { dict: '<< /Type /Pages /Kids [3 0 R] /Count 1 >>' },
+      { dict: '<< /Type /Page /Parent 2 0 R /Resources << /Font << /F1 6 0 R >> /XObject << /Fm1 5 0 R >> >> /Contents 4 0 R >>' },
+      { dict: '<< >>', stream: 'BT /F1 12 Tf (Body text) Tj ET /Fm1 Do' },
+      { dict: '<< /Type /XObject /Subtype /Form >>', stream: 'BT /F1 9 Tf (Page footer) Tj ET' },
+      { dict: '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica >>' },
+    ]);
+
+    expect(extractPdfPages(pdf)).toEqual(['Body text\n\nPage footer']);
+  });
+
+  it('should read objects packed into compressed object streams', () => {
+    const pages = '<< /Type /Pages /Kids [11 0 R] /Count 1 >>';
+    const page = '<< /Type /Page /Parent 10 0 R /Contents 3 0 R /Resources << /Font << /F1 4 0 R >> >> >>';
+    const header = `10 0 11 ${pages.length + 1} `;
+
+    const pdf = buildPdf([
+      { dict: '<< /Type /Catalog /Pages 10 0 R >>' },
+      { dict: `<< /Type /ObjStm /N 2 /First ${header.length} >>`, stream: `${header}${pages} ${page}`, deflate: true },
+      { dict: '<< >>', stream: 'BT /F1 12 Tf (Packed page) Tj ET' },
+      { dict: '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica >>' },
+    ]);
+
+    expect(extractPdfPages(pdf)).toEqual(['Packed page']);
+  });
+
+  it('should map Windows-1252 bytes for fonts without a ToUnicode map', () => {
+    const pdf = buildTextPdf([{ content: 'BT /F1 12 Tf (\\223Quoted\\224 \\227 caf\\351) Tj ET' }]);
+    expect(extractPdfPages(pdf)).toEqual(['“Quoted” — café']);
+  });
+
+  it('should return empty pages for content without text', () => {
+    const pdf = buildTextPdf([{ content: '0 0 100 100 re f' }]);
+    expect(extractPdfPages(pdf)).toEqual(['']);
+  });
+
+  it('should reject files that are not PDFs', () => {
+    expect(() => extractPdfPages(new Uint8Array(Buffer.from('PK\u0003\u0004 not a pdf')))).toThrow('Not a PDF file');
+  });
+
+  it('should reject encrypted PDFs', () => {
+    const pdf = buildPdf(
+      [
+        { dict: '<< /Type /Catalog /Pages 2 0 R >>' },
+        { dict: '<< /Type /Pages /Kids [] /Count 0 >>' },
+      ],
+      '<< /Root 1 0 R /Encrypt << /Filter /Standard /V 2 >> >>'
+    );
+
+    expect(() => extractPdfPages(pdf)).toThrow('Encrypted PDFs are not supported');
+  });
+
+  it('should skip streams with filters it cannot decode', () => {
+    const pdf = buildPdf([
+      { dict: '<< /Type /Catalog /Pages 2 0 R >>' },
+      { dict: '<< /Type /Pages /Kids [3 0 R] /Count 1 >>' },
+      { dict: '<< /Type /Page /Parent 2 0 R /Contents 4 0 R >>' },
+      { dict: '<< /Filter /LZWDecode >>', stream: Buffer.from([0x80, 0x0b, 0x60, 0x50]) },
+    ]);
+
+    expect(extractPdfPages(pdf)).toEqual(['']);
+  });
+});
@@ -0,0 +1,174 @@
+/**
+ * Unit Tests for Reading Analytics Series, Heatmap and Breakdowns
+ */
+
+import {
+  AnalyticsSession,
+  buildBreakdown,
+  buildHeatmap,
+  buildReadingAnalytics,
+  buildSeries,
+  countDays,
+  getPeriodStart,
+} from '../readingAnalytics';
+
+const session = (overrides: Partial<AnalyticsSession>): AnalyticsSession => ({
+  book_uuid: 'book-1',
+  session_start: '2026-03-02T12:00:00Z',
+  pages_read: 10,
+  reading_duration_minutes: 30,
+  ...overrides,
+});
+
+describe('Periods', () => {
+  it('should start weeks on Monday', () => {
+    expect(getPeriodStart('2026-03-04', 'week')).toBe('2026-03-02');
+    expect(getPeriodStart('2026-03-08', 'week')).toBe('2026-03-02');
+    expect(getPeriodStart('2026-03-09', 'week')).toBe('2026-03-09');
+  });
+
+  it('should start months on the first', () => {
+    expect(getPeriodStart('2026-02-28', 'month')).toBe('2026-02-01');
+  });
+
+  it('should count days inclusively', () => {
+    expect(countDays('2026-03-01', '2026-03-01')).toBe(1);
+    expect(countDays('2026-01-01', '2026-12-31')).toBe(365);
+  });
+});
+
+describe('Series', () => {
+  it('should include every period in the range, empty ones as zero', () => {
+    const series = buildSeries(
+      [session({ session_start: '2026-03-02T12:00:00Z' }), session({ session_start: '2026-03-04T12:00:00Z' })],
+      '2026-03-01',
+      '2026-03-05',
+      'day',
+      'UTC'
+    );
+
+    expect(series.map(point => point.period)).toEqual([
+      '2026-03-01', '2026-03-02', '2026-03-03', '2026-03-04', '2026-03-05',
+    ]);
+    expect(series.map(point => point.pages_read)).toEqual([0, 10, 0, 10, 0]);
+    expect(series[0].pages_per_hour).toBeNull();
+  });
+
+  it('should group by week and month', () => {
+    const sessions = [
+      session({ session_start: '2026-02-27T12:00:00Z', pages_read: 5 }),
+      session({ session_start: '2026-03-02T12:00:00Z', pages_read: 10 }),
+      session({ session_start: '2026-03-03T12:00:00Z', pages_read: 20 }),
+    ];
+
+    const weekly = buildSeries(sessions, '2026-02-26', '2026-03-03', 'week', 'UTC');
+    expect(weekly.map(point => [point.period, point.pages_read])).toEqual([
+      ['2026-02-23', 5],
+      ['2026-03-02', 30],
+    ]);
+
+    const monthly = buildSeries(sessions, '2026-02-26', '2026-03-03', 'month', 'UTC');
+    expect(monthly.map(point => [point.period, point.pages_read])).toEqual([
+      ['2026-02', 5],
+      ['2026-03', 30],
+    ]);
+  });
+
+  it('should place sessions on the local day', () => {
+    const series = buildSeries(
+      [session({ session_start: '2026-03-01T16:30:00Z' })],
+      '2026-03-01',
+      '2026-03-02',
+      'day',
+      'Asia/Tokyo'
+    );
+
+    expect(series.map(point => point.pages_read)).toEqual([0, 10]);
+  });
+
+  it('should compute pages per hour from timed sessions only', () => {
+    const [point] = buildSeries(
+      [
+        session({ pages_read: 30, reading_duration_minutes: 60 }),
+        session({ pages_read: 50, reading_duration_minutes: null }),
+      ],
+      '2026-03-02',
+      '2026-03-02',
+      'day',
+      'UTC'
+    );
+
+    expect(point.pages_read).toBe(80);
+    expect(point.pages_per_hour).toBe(30);
+  });
+});
+
+describe('Heatmap', () => {
+  it('should shade days relative to the busiest one', () => {
+    const heatmap = buildHeatmap(
+      [
+        session({ session_start: '2026-03-01T12:00:00Z', reading_duration_minutes: 60 }),
+        session({ session_start: '2026-03-02T12:00:00Z', reading_duration_minutes: 15 }),
+      ],
+      '2026-03-01',
+      '2026-03-03',
+      'UTC'
+    );
+
+    expect(heatmap.map(day => day.level)).toEqual([4, 1, 0]);
+  });
+
+  it('should fall back to pages when no durations were recorded', () => {
+    const heatmap = buildHeatmap(
+      [
+        session({ session_start: '2026-03-01T12:00:00Z', pages_read: 40, reading_duration_minutes: null }),
+        session({ session_start: '2026-03-02T12:00:00Z', pages_read: 20, reading_duration_minutes: null }),
+      ],
+      '2026-03-01',
+      '2026-03-02',
+      'UTC'
+    );
+
+    expect(heatmap.map(day => day.level)).toEqual([4, 2]);
+  });
+});
+
+describe('Breakdowns', () => {
+  it('should group by value, most read first, with unknown for missing values', () => {
+    const breakdown = buildBreakdown(
+      [
+        session({ genre: 'Fantasy', reading_duration_minutes: 20 }),
+        session({ genre: 'fantasy', book_uuid: 'book-2', reading_duration_minutes: 40 }),
+        session({ genre: 'History', reading_duration_minutes: 30 }),
+        session({ genre: null, reading_duration_minutes: 10 }),
+      ],
+      'genre'
+    );
+
+    expect(breakdown.map(entry => [entry.key, entry.minutes, entry.books])).toEqual([
+      ['fantasy', 60, 2],
+      ['history', 30, 1],
+      ['unknown', 10, 1],
+    ]);
+  });
+
+  it('should break down by every dimension', () => {
+    const analytics = buildReadingAnalytics(
+      [session({ mood: 'focused', location: 'home', format: 'ebook', language: 'en' })],
+      '2026-03-01',
+      '2026-03-07',
+      'day',
+      'UTC'
+    );
+
+    expect(Object.keys(analytics.breakdowns).sort()).toEqual(['format', 'genre', 'language', 'location', 'mood']);
+    expect(analytics.breakdowns.mood[0].key).toBe('focused');
+    expect(analytics.totals).toEqual({
+      pages_read: 10,
+      minutes: 30,
+      sessions: 1,
+      reading_days: 1,
+      pages_per_hour: 20,
+    });
+  });
+});
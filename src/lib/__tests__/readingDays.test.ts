@@ -0,0 +1,209 @@
+/**
+ * Unit Tests for Reading Days, Streaks and Daily Totals in the Reader's Timezone
+ */
+
+import {
+  addDays,
+  bucketByLocalDate,
+  calculateStreaks,
+  isValidTimezone,
+  resolveTimezone,
+  startOfLocalDay,
+  toLocalDate,
+} from '../readingDays';
+
+// Consecutive dates starting at `first`
+const days = (first: string, count: number) =>
+  Array.from({ length: count }, (_, i) => addDays(first, i));
+
+describe('Timezones', () => {
+  it('should validate IANA timezone names', () => {
+    expect(isValidTimezone('Asia/Tokyo')).toBe(true);
+    expect(isValidTimezone('America/New_York')).toBe(true);
+    expect(isValidTimezone('Mars/Olympus_Mons')).toBe(false);
+    expect(isValidTimezone('')).toBe(false);
+    expect(isValidTimezone(null)).toBe(false);
+  });
+
+  it('should fall back to UTC for missing or unknown timezones', () => {
+    expect(resolveTimezone(undefined)).toBe('UTC');
+    expect(resolveTimezone('Not/A_Zone')).toBe('UTC');
+    expect(resolveTimezone('Europe/Berlin')).toBe('Europe/Berlin');
+  });
+});
+
+describe('Local dates', () => {
+  it('should put a late-night session in Asia on the local day, not the UTC day', () => {
+    // 01:30 in Tokyo on the 11th is still the 10th in UTC
+    expect(toLocalDate('2026-01-10T16:30:00Z', 'Asia/Tokyo')).toBe('2026-01-11');
+    expect(toLocalDate('2026-01-10T16:30:00Z', 'UTC')).toBe('2026-01-10');
+  });
+
+  it('should handle half-hour offsets', () => {
+    expect(toLocalDate('2026-01-01T18:29:00Z', 'Asia/Kolkata')).toBe('2026-01-01');
+    expect(toLocalDate('2026-01-01T18:30:00Z', 'Asia/Kolkata')).toBe('2026-01-02');
+  });
+
+  it('should do calendar arithmetic across month, year and leap days', () => {
+    expect(addDays('2024-02-28', 1)).toBe('2024-02-29');
+    expect(addDays('2025-02-28', 1)).toBe('2025-03-01');
+    expect(addDays('2026-01-01', -1)).toBe('2025-12-31');
+  });
+});
+
+describe('Day boundaries across DST', () => {
+  it('should give a 23 hour day when clocks spring forward in New York', () => {
+    const start = startOfLocalDay('2026-03-08', 'America/New_York');
+    const end = startOfLocalDay('2026-03-09', 'America/New_York');
+
+    expect(start.toISOString()).toBe('2026-03-08T05:00:00.000Z');
+    expect(end.toISOString()).toBe('2026-03-09T04:00:00.000Z');
+    expect((end.getTime() - start.getTime()) / 3600000).toBe(23);
+  });
+
+  it('should give a 25 hour day when clocks fall back in New York', () => {
+    const start = startOfLocalDay('2026-11-01', 'America/New_York');
+    const end = startOfLocalDay('2026-11-02', 'America/New_York');
+
+    expect(start.toISOString()).toBe('2026-11-01T04:00:00.000Z');
+    expect(end.toISOString()).toBe('2026-11-02T05:00:00.000Z');
+    expect((end.getTime() - start.getTime()) / 3600000).toBe(25);
+  });
+
+  it('should find local midnight in Europe on the day summer time starts', () => {
+    expect(startOfLocalDay('2026-03-29', 'Europe/London').toISOString()).toBe('2026-03-29T00:00:00.000Z');
+    expect(startOfLocalDay('2026-03-30', 'Europe/London').toISOString()).toBe('2026-03-29T23:00:00.000Z');
+  });
+
+  it('should keep sessions either side of the DST change on the right local day', () => {
+    // 01:30 EST and 23:30 EDT on the day the clocks change
+    expect(toLocalDate('2026-03-08T06:30:00Z', 'America/New_York')).toBe('2026-03-08');
+    expect(toLocalDate('2026-03-09T03:30:00Z', 'America/New_York')).toBe('2026-03-08');
+    // 01:30 EDT and 01:30 EST on the day the clocks go back
+    expect(toLocalDate('2026-11-01T05:30:00Z', 'America/New_York')).toBe('2026-11-01');
+    expect(toLocalDate('2026-11-01T06:30:00Z', 'America/New_York')).toBe('2026-11-01');
+  });
+
+  it('should keep a nightly reader on a daily streak through a DST change', () => {
+    // Reading at 23:00 local every night across the spring-forward weekend
+    const sessions = [
+      '2026-03-07T04:00:00Z', // Mar 6, 23:00 EST
+      '2026-03-08T04:00:00Z', // Mar 7, 23:00 EST
+      '2026-03-09T03:00:00Z', // Mar 8, 23:00 EDT
+      '2026-03-10T03:00:00Z', // Mar 9, 23:00 EDT
+    ];
+    const readingDates = sessions.map(at => toLocalDate(at, 'America/New_York'));
+
+    expect(readingDates).toEqual(['2026-03-06', '2026-03-07', '2026-03-08', '2026-03-09']);
+    expect(calculateStreaks(readingDates, [], '2026-03-10').current).toBe(4);
+  });
+});
+
+describe('Streaks', () => {
+  it('should count a streak ending today', () => {
+    const streaks = calculateStreaks(days('2026-01-01', 3), [], '2026-01-03');
+    expect(streaks.current).toBe(3);
+    expect(streaks.last_reading_date).toBe('2026-01-03');
+  });
+
+  it('should keep the streak while today is not read yet', () => {
+    expect(calculateStreaks(days('2026-01-01', 3), [], '2026-01-04').current).toBe(3);
+  });
+
+  it('should break the streak after a missed day', () => {
+    const streaks = calculateStreaks(days('2026-01-01', 3), [], '2026-01-05');
+    expect(streaks.current).toBe(0);
+    expect(streaks.longest).toBe(3);
+  });
+
+  it('should not cap long streaks', () => {
+    const streaks = calculateStreaks(days('2025-06-01', 400), [], addDays('2025-06-01', 399));
+    expect(streaks.current).toBe(400);
+    expect(streaks.longest).toBe(400);
+  });
+
+  it('should find the longest streak ever', () => {
+    const readingDates = [...days('2026-01-01', 5), ...days('2026-01-10', 2), '2026-01-20'];
+    const streaks = calculateStreaks(readingDates, [], '2026-01-20');
+
+    expect(streaks.current).toBe(1);
+    expect(streaks.longest).toBe(5);
+  });
+
+  it('should ignore duplicate dates', () => {
+    expect(calculateStreaks(['2026-01-01', '2026-01-01', '2026-01-02'], [], '2026-01-02').current).toBe(2);
+  });
+
+  it('should return zeros without reading', () => {
+    expect(calculateStreaks([], [], '2026-01-01')).toEqual({
+      current: 0,
+      longest: 0,
+      freezes_used: 0,
+      last_reading_date: null,
+    });
+  });
+});
+
+describe('Streak freezes', () => {
+  it('should bridge a missed day without counting it', () => {
+    const readingDates = ['2026-01-01', '2026-01-02', '2026-01-04', '2026-01-05'];
+    const streaks = calculateStreaks(readingDates, ['2026-01-03'], '2026-01-05');
+
+    expect(streaks.current).toBe(4);
+    expect(streaks.longest).toBe(4);
+    expect(streaks.freezes_used).toBe(1);
+  });
+
+  it('should keep the streak alive when yesterday is frozen', () => {
+    const streaks = calculateStreaks(['2026-01-01', '2026-01-02'], ['2026-01-03'], '2026-01-04');
+
+    expect(streaks.current).toBe(2);
+    expect(streaks.freezes_used).toBe(1);
+  });
+
+  it('should not make a streak out of freezes alone', () => {
+    const streaks = calculateStreaks([], ['2026-01-01', '2026-01-02'], '2026-01-03');
+
+    expect(streaks.current).toBe(0);
+    expect(streaks.longest).toBe(0);
+    expect(streaks.freezes_used).toBe(0);
+  });
+
+  it('should join runs separated by frozen days in the longest streak', () => {
+    const readingDates = [...days('2026-01-01', 3), ...days('2026-01-05', 3)];
+    const streaks = calculateStreaks(readingDates, ['2026-01-04'], '2026-02-01');
+
+    expect(streaks.current).toBe(0);
+    expect(streaks.longest).toBe(6);
+  });
+});
+
+describe('Daily totals', () => {
+  it('should bucket pages and minutes by local date', () => {
+    const totals = bucketByLocalDate(
+      [
+        { session_start: '2026-01-10T16:30:00Z', pages_read: 20, reading_duration_minutes: 30 },
+        { session_start: '2026-01-11T02:00:00Z', pages_read: 10, reading_duration_minutes: 15 },
+        { session_start: '2026-01-09T10:00:00Z', pages_read: 5, reading_duration_minutes: null },
+      ],
+      'Asia/Tokyo'
+    );
+
+    expect(totals).toEqual([
+      { date: '2026-01-09', pages_read: 5, minutes: 0, sessions: 1 },
+      { date: '2026-01-11', pages_read: 30, minutes: 45, sessions: 2 },
+    ]);
+  });
+
+  it('should split the same sessions differently in UTC', () => {
+    const totals = bucketByLocalDate(
+      [
+        { session_start: '2026-01-10T16:30:00Z', pages_read: 20 },
+        { session_start: '2026-01-11T02:00:00Z', pages_read: 10 },
+      ],
+      'UTC'
+    );
+
+    expect(totals.map(total => total.date)).toEqual(['2026-01-10', '2026-01-11']);
+  });
+});
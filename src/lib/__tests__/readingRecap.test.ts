@@ -0,0 +1,105 @@
+/**
+ * Unit Tests for the Year in Books Recap
+ */
+
+import { buildYearRecap, RecapFinishedBook, RecapSession } from '../readingRecap';
+
+const book = (overrides: Partial<RecapFinishedBook>): RecapFinishedBook => ({
+  book_uuid: 'book-1',
+  title: 'Book',
+  author: 'Author',
+  page_count: 300,
+  date_completed: '2025-06-15T12:00:00Z',
+  ...overrides,
+});
+
+const session = (overrides: Partial<RecapSession>): RecapSession => ({
+  session_start: '2025-06-15T12:00:00Z',
+  pages_read: 20,
+  reading_duration_minutes: 30,
+  ...overrides,
+});
+
+describe('Year in books', () => {
+  const books = [
+    book({ book_uuid: 'a', title: 'Dune', author: 'Frank Herbert', genre: 'Science Fiction', page_count: 600, personal_rating: '5.00', date_completed: '2025-02-01T12:00:00Z' }),
+    book({ book_uuid: 'b', title: 'Children of Dune', author: 'Frank Herbert', genre: 'Science Fiction', page_count: 450, personal_rating: '4.00', date_completed: '2025-05-10T12:00:00Z' }),
+    book({ book_uuid: 'c', title: 'Piranesi', author: 'Susanna Clarke', genre: 'Fantasy', page_count: 250, date_completed: '2025-11-20T12:00:00Z' }),
+    book({ book_uuid: 'd', title: 'Last Year', date_completed: '2024-12-20T12:00:00Z' }),
+  ];
+
+  it('should count only books finished in the year', () => {
+    const recap = buildYearRecap(books, [], 2025, 'UTC');
+
+    expect(recap.books_finished).toBe(3);
+    expect(recap.pages_finished).toBe(1300);
+  });
+
+  it('should pick the first, last, longest and shortest books', () => {
+    const recap = buildYearRecap(books, [], 2025, 'UTC');
+
+    expect(recap.first_book?.title).toBe('Dune');
+    expect(recap.last_book?.title).toBe('Piranesi');
+    expect(recap.longest_book?.title).toBe('Dune');
+    expect(recap.shortest_book?.title).toBe('Piranesi');
+  });
+
+  it('should rank genres, authors and ratings', () => {
+    const recap = buildYearRecap(books, [], 2025, 'UTC');
+
+    expect(recap.top_genres[0]).toEqual({ name: 'Science Fiction', books: 2 });
+    expect(recap.top_authors[0]).toEqual({ name: 'Frank Herbert', books: 2 });
+    expect(recap.top_rated_books.map(rated => rated.title)).toEqual(['Dune', 'Children of Dune']);
+    expect(recap.average_rating).toBe(4.5);
+  });
+
+  it('should count a book on several lists once', () => {
+    const recap = buildYearRecap([books[0], { ...books[0] }], [], 2025, 'UTC');
+    expect(recap.books_finished).toBe(1);
+  });
+
+  it('should put New Year\'s Eve reading in the local year', () => {
+    // 23:30 on Dec 31 in New York is already Jan 1 in UTC
+    const lateBook = book({ date_completed: '2026-01-01T04:30:00Z' });
+
+    expect(buildYearRecap([lateBook], [], 2025, 'America/New_York').books_finished).toBe(1);
+    expect(buildYearRecap([lateBook], [], 2026, 'America/New_York').books_finished).toBe(0);
+    expect(buildYearRecap([lateBook], [], 2026, 'UTC').books_finished).toBe(1);
+  });
+
+  it('should find the busiest month, favourite mood and location from sessions', () => {
+    const recap = buildYearRecap(
+      books,
+      [
+        session({ session_start: '2025-03-02T12:00:00Z', pages_read: 40, mood: 'focused', location: 'Home' }),
+        session({ session_start: '2025-03-05T12:00:00Z', pages_read: 40, mood: 'focused', location: 'Commute' }),
+        session({ session_start: '2025-07-01T12:00:00Z', pages_read: 50, mood: 'relaxed', location: 'Home' }),
+      ],
+      2025,
+      'UTC'
+    );
+
+    expect(recap.busiest_month?.month).toBe('2025-03');
+    expect(recap.busiest_month?.pages_read).toBe(80);
+    expect(recap.favorite_mood).toBe('focused');
+    expect(recap.favorite_location).toBe('Home');
+    expect(recap.pages_read).toBe(130);
+    expect(recap.minutes_read).toBe(90);
+    expect(recap.reading_days).toBe(3);
+    expect(recap.months).toHaveLength(12);
+  });
+
+  it('should fall back to books finished for the busiest month without sessions', () => {
+    const recap = buildYearRecap(books, [], 2025, 'UTC');
+    expect(recap.busiest_month?.month).toBe('2025-02');
+  });
+
+  it('should be empty for a year without reading', () => {
+    const recap = buildYearRecap(books, [], 2023, 'UTC');
+
+    expect(recap.books_finished).toBe(0);
+    expect(recap.first_book).toBeNull();
+    expect(recap.busiest_month).toBeNull();
+    expect(recap.average_rating).toBeNull();
+  });
+});
@@ -0,0 +1,41 @@
+/**
+ * Unit Tests for Reading Session Time and Tracker Heartbeats
+ */
+
+import { HEARTBEAT_INTERVAL_MS, getActiveReadingSeconds, isHeartbeatDue } from '../readingSession';
+
+describe('getActiveReadingSeconds', () => {
+  const session = {
+    session_start: '2024-03-01T10:00:00.000Z',
+    session_end: '2024-03-01T11:00:00.000Z',
+    pause_intervals: [{ started_at: '2024-03-01T10:20:00.000Z', ended_at: '2024-03-01T10:30:00.000Z' }],
+  };
+
+  it('should not count paused time', () => {
+    expect(getActiveReadingSeconds(session)).toBe(50 * 60);
+  });
+
+  it('should run an open pause until the end of the session', () => {
+    const idle = { ...session, pause_intervals: [{ started_at: '2024-03-01T10:40:00.000Z', auto: true }] };
+
+    expect(getActiveReadingSeconds(idle)).toBe(40 * 60);
+  });
+});
+
+describe('isHeartbeatDue', () => {
+  const now = Date.parse('2024-03-01T10:00:00.000Z');
+
+  it('should send the first heartbeat on reader activity', () => {
+    expect(isHeartbeatDue(null, now, true)).toBe(true);
+  });
+
+  it('should send at most one heartbeat per interval', () => {
+    expect(isHeartbeatDue(now - HEARTBEAT_INTERVAL_MS + 1, now, true)).toBe(false);
+    expect(isHeartbeatDue(now - HEARTBEAT_INTERVAL_MS, now, true)).toBe(true);
+  });
+
+  it('should never send heartbeats from a hidden page', () => {
+    expect(isHeartbeatDue(null, now, false)).toBe(false);
+    expect(isHeartbeatDue(now - 10 * HEARTBEAT_INTERVAL_MS, now, false)).toBe(false);
+  });
+});
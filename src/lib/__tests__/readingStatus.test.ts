@@ -0,0 +1,193 @@
+/**
+ * Unit Tests for the Reading-Status State Machine
+ */
+
+import {
+  READING_STATUSES,
+  READING_STATUS_TRANSITIONS,
+  ReadingStatus,
+  ReadingStatusTransitionError,
+  SESSION_START_STATUSES,
+  canTransition,
+  normalizeReadingStatus,
+  planStatusTransition,
+} from '../readingStatus';
+
+const at = new Date('2024-05-10T12:00:00Z');
+const started = new Date('2024-04-01T09:00:00Z');
+const completed = new Date('2024-04-20T21:00:00Z');
+
+describe('normalizeReadingStatus', () => {
+  it('should keep canonical statuses', () => {
+    for (const status of READING_STATUSES) {
+      expect(normalizeReadingStatus(status)).toBe(status);
+    }
+  });
+
+  it('should map legacy and imported spellings', () => {
+    expect(normalizeReadingStatus('to_read')).toBe('want_to_read');
+    expect(normalizeReadingStatus('Currently Reading')).toBe('currently_reading');
+    expect(normalizeReadingStatus('in-progress')).toBe('currently_reading');
+    expect(normalizeReadingStatus('completed')).toBe('read');
+    expect(normalizeReadingStatus('on_hold')).toBe('paused');
+    expect(normalizeReadingStatus(' DNF ')).toBe('abandoned');
+  });
+
+  it('should return null for empty or unknown values', () => {
+    expect(normalizeReadingStatus(null)).toBeNull();
+    expect(normalizeReadingStatus('')).toBeNull();
+    expect(normalizeReadingStatus('borrowed')).toBeNull();
+  });
+});
+
+describe('canTransition', () => {
+  const allowed: Array<[ReadingStatus, ReadingStatus]> = [
+    ['want_to_read', 'currently_reading'],
+    ['want_to_read', 'read'],
+    ['want_to_read', 'abandoned'],
+    ['currently_reading', 'want_to_read'],
+    ['currently_reading', 'paused'],
+    ['currently_reading', 'read'],
+    ['currently_reading', 'abandoned'],
+    ['paused', 'want_to_read'],
+    ['paused', 'currently_reading'],
+    ['paused', 'read'],
+    ['paused', 'abandoned'],
+    ['read', 'want_to_read'],
+    ['read', 'currently_reading'],
+    ['abandoned', 'want_to_read'],
+    ['abandoned', 'currently_reading'],
+    ['abandoned', 'read'],
+  ];
+
+  it('should allow exactly the transitions in the table', () => {
+    for (const from of READING_STATUSES) {
+      for (const to of READING_STATUSES) {
+        const expected = from === to || allowed.some(([a, b]) => a === from && b === to);
+        expect([from, to, canTransition(from, to)]).toEqual([from, to, expected]);
+      }
+    }
+  });
+
+  it('should list every status in the table', () => {
+    expect(Object.keys(READING_STATUS_TRANSITIONS).sort()).toEqual([...READING_STATUSES].sort());
+  });
+
+  it('should not let a session start re-read finished or abandoned books', () => {
+    expect(SESSION_START_STATUSES).toEqual(['want_to_read', 'paused']);
+  });
+});
+
+describe('planStatusTransition', () => {
+  it('should reject transitions the table does not allow', () => {
+    expect(() => planStatusTransition({ reading_status: 'read' }, 'paused', { at }))
+      .toThrow(ReadingStatusTransitionError);
+    expect(() => planStatusTransition({ reading_status: 'want_to_read' }, 'paused', { at }))
+      .toThrow('Cannot change reading status from want_to_read to paused');
+  });
+
+  it('should treat unknown stored statuses as want_to_read', () => {
+    expect(() => planStatusTransition({ reading_status: 'borrowed' }, 'paused', { at }))
+      .toThrow('Cannot change reading status from want_to_read to paused');
+  });
+
+  it('should allow any status for a new library entry', () => {
+    expect(planStatusTransition(null, 'paused', { at })).toEqual({
+      reading_status: 'paused',
+      status_changed_at: at,
+      dnf_reason: null,
+    });
+  });
+
+  it('should set the start date when a book is started', () => {
+    expect(planStatusTransition({ reading_status: 'want_to_read' }, 'currently_reading', { at })).toEqual({
+      reading_status: 'currently_reading',
+      status_changed_at: at,
+      dnf_reason: null,
+      date_started: at,
+    });
+  });
+
+  it('should keep the original start date when a paused book is resumed', () => {
+    const update = planStatusTransition(
+      { reading_status: 'paused', date_started: started.toISOString() },
+      'currently_reading',
+      { at }
+    );
+
+    expect(update.date_started).toEqual(started);
+    expect(update).not.toHaveProperty('date_completed');
+    expect(update).not.toHaveProperty('progress_percentage');
+  });
+
+  it('should reset dates and progress for a re-read of a finished book', () => {
+    const update = planStatusTransition(
+      { reading_status: 'read', date_started: started, date_completed: completed },
+      'currently_reading',
+      { at }
+    );
+
+    expect(update).toEqual({
+      reading_status: 'currently_reading',
+      status_changed_at: at,
+      dnf_reason: null,
+      date_started: at,
+      date_completed: null,
+      progress_percentage: 0,
+    });
+  });
+
+  it('should complete a book at full progress', () => {
+    expect(planStatusTransition({ reading_status: 'currently_reading', date_started: started }, 'read', { at })).toEqual({
+      reading_status: 'read',
+      status_changed_at: at,
+      dnf_reason: null,
+      date_started: started,
+      date_completed: at,
+      progress_percentage: 100,
+    });
+  });
+
+  it('should use the completion date as the start of a book never started', () => {
+    const update = planStatusTransition({ reading_status: 'want_to_read' }, 'read', { at, dateCompleted: completed });
+    expect(update.date_started).toEqual(completed);
+    expect(update.date_completed).toEqual(completed);
+  });
+
+  it('should clear dates and progress when a book goes back to the to-read shelf', () => {
+    expect(planStatusTransition({ reading_status: 'read', date_completed: completed }, 'want_to_read', { at })).toEqual({
+      reading_status: 'want_to_read',
+      status_changed_at: at,
+      dnf_reason: null,
+      date_started: null,
+      date_completed: null,
+      progress_percentage: 0,
+    });
+  });
+
+  it('should record the reason a book was abandoned', () => {
+    expect(planStatusTransition({ reading_status: 'currently_reading' }, 'abandoned', { at, dnfReason: 'Too slow' })).toEqual({
+      reading_status: 'abandoned',
+      status_changed_at: at,
+      dnf_reason: 'Too slow',
+      date_completed: null,
+    });
+  });
+
+  it('should clear the abandon reason when the book is picked up again', () => {
+    const update = planStatusTransition({ reading_status: 'abandoned' }, 'currently_reading', { at });
+    expect(update.dnf_reason).toBeNull();
+  });
+
+  it('should only apply supplied dates and reasons when the status stays the same', () => {
+    expect(planStatusTransition({ reading_status: 'read' }, 'read', { at })).toEqual({ reading_status: 'read' });
+    expect(planStatusTransition({ reading_status: 'finished' }, 'read', { at, dateCompleted: completed })).toEqual({
+      reading_status: 'read',
+      date_completed: completed,
+    });
+    expect(planStatusTransition({ reading_status: 'abandoned' }, 'abandoned', { at, dnfReason: 'Lost the book' })).toEqual({
+      reading_status: 'abandoned',
+      dnf_reason: 'Lost the book',
+    });
+  });
+});
@@ -0,0 +1,174 @@
+/**
+ * Unit Tests for the ZIP Reader
+ */
+
+import { deflateRawSync } from 'zlib';
+import { readZip } from '../zip';
+
+interface FixtureFile {
+  name: string;
+  content: string | Buffer;
+  stored?: boolean;
+  // size written to the headers, to fake archives that lie about their contents
+  declaredSize?: number;
+}
+
+// Build a ZIP archive in memory; CRCs are left at zero since the reader does not check them
+function buildZip(files: FixtureFile[]): Uint8Array {
+  const locals: Buffer[] = [];
+  const centrals: Buffer[] = [];
+  let offset = 0;
+
+  for (const file of files) {
+    const content = Buffer.isBuffer(file.content) ? file.content : Buffer.from(file.content, 'utf-8');
+    const data = file.stored ? content : deflateRawSync(content);
+    const name = Buffer.from(file.name, 'utf-8');
+    const size = file.declaredSize ?? content.length;
+
+    const local = Buffer.alloc(30);
+    local.writeUInt32LE(0x04034b50, 0);
+    local.writeUInt16LE(20, 4);
+    local.writeUInt16LE(file.stored ? 0 : 8, 8);
+    local.writeUInt32LE(data.length, 18);
+    local.writeUInt32LE(size, 22);
+    local.writeUInt16LE(name.length, 26);
+    locals.push(local, name, data);
+
+    const central = Buffer.alloc(46);
+    central.writeUInt32LE(0x02014b50, 0);
+    central.writeUInt16LE(20, 4);
+    central.writeUInt16LE(20, 6);
+    central.writeUInt16LE(file.stored ? 0 : 8, 10);
+    central.writeUInt32LE(data.length, 20);
+    central.writeUInt32LE(size, 24);
+    central.writeUInt16LE(name.length, 28);
+    central.writeUInt32LE(offset, 42);
+    centrals.push(central, name);
+
+    offset += local.length + name.length + data.length;
+  }
+
+  const directory = Buffer.concat(centrals);
+  const eocd = Buffer.alloc(22);
+  eocd.writeUInt32LE(0x06054b50, 0);
+  eocd.writeUInt16LE(files.length, 8);
+  eocd.writeUInt16LE(files.length, 10);
+  eocd.writeUInt32LE(directory.length, 12);
+  eocd.writeUInt32LE(offset, 16);
+
+  return new Uint8Array(Buffer.concat([...locals, directory, eocd]));
+}
+
+const text = (data: Uint8Array) => Buffer.from(data).toString('utf-8');
+
+describe('readZip', () => {
+  it('should read stored and deflated entries', () => {
+    const entries = readZip(buildZip([
+      { name: 'mimetype', content: 'application/epub+zip', stored: true },
+      { name: 'OEBPS/chapter1.xhtml', content: '<p>It was a bright cold day in April.</p>' },
+    ]));
+
+    expect(Array.from(entries.keys())).toEqual(['mimetype', 'OEBPS/chapter1.xhtml']);
+    expect(text(entries.get('mimetype')!.read())).toBe('application/epub+zip');
+    expect(text(entries.get('OEBPS/chapter1.xhtml')!.read())).toBe('<p>It was a bright cold day in April.</p>');
+  });
+
+  it('should skip directory entries', () => {
+    const entries = readZip(buildZip([
+      { name: 'OEBPS/', content: '', stored: true },
+      { name: 'OEBPS/content.opf', content: '<package/>' },
+    ]));
+
+    expect(Array.from(entries.keys())).toEqual(['OEBPS/content.opf']);
+  });
+
+  it('should reject data that is not an archive', () => {
+    expect(() => readZip(new Uint8Array(Buffer.from('just some plain text, not a zip archive')))).toThrow('Not a ZIP archive');
+    expect(() => readZip(new Uint8Array(4))).toThrow('Not a ZIP archive');
+  });
+
+  describe('truncated or corrupt archives', () => {
+    const archive = () => Buffer.from(buildZip([{ name: 'chapter.txt', content: 'Call me Ishmael. '.repeat(50) }]));
+    const directoryStart = (data: Buffer) => data.readUInt32LE(data.length - 6);
+
+    // DataView reads past the end throw RangeError, which routes would turn into a 500
+    const expectReadableError = (read: () => unknown, message: RegExp) => {
+      expect(read).toThrow(message);
+      expect(read).not.toThrow(RangeError);
+    };
+
+    it('should reject archives cut off before the end record', () => {
+      const data = archive();
+      expectReadableError(() => readZip(new Uint8Array(data.subarray(0, data.length - 10))), /Not a ZIP archive/);
+    });
+
+    it('should reject a central directory outside the data', () => {
+      const data = archive();
+      data.writeUInt32LE(data.length + 100, data.length - 6);
+      expectReadableError(() => readZip(new Uint8Array(data)), /Corrupt ZIP central directory/);
+    });
+
+    it('should reject entry names running past the end', () => {
+      const data = archive();
+      data.writeUInt16LE(0xffff, directoryStart(data) + 28);
+      expectReadableError(() => readZip(new Uint8Array(data)), /Corrupt ZIP central directory/);
+    });
+
+    it('should reject entries whose local header is outside the data', () => {
+      const data = archive();
+      data.writeUInt32LE(data.length - 2, directoryStart(data) + 42);
+      const entry = readZip(new Uint8Array(data)).get('chapter.txt')!;
+      expectReadableError(() => entry.read(), /Truncated ZIP archive/);
+    });
+
+    it('should reject entries whose data runs past the end', () => {
+      const data = archive();
+      data.writeUInt32LE(1_000_000, directoryStart(data) + 20);
+      const entry = readZip(new Uint8Array(data)).get('chapter.txt')!;
+      expectReadableError(() => entry.read(), /Truncated ZIP entry: chapter.txt/);
+    });
+
+    it('should reject entries that do not inflate', () => {
+      const data = Buffer.from(buildZip([{ name: 'chapter.txt', content: Buffer.from([0xff, 0xff, 0xff, 0xff]), stored: true }]));
+      data.writeUInt16LE(8, 8);
+      data.writeUInt16LE(8, directoryStart(data) + 10);
+      const entry = readZip(new Uint8Array(data)).get('chapter.txt')!;
+      expectReadableError(() => entry.read(), /Corrupt ZIP entry: chapter.txt/);
+    });
+  });
+
+  it('should refuse entries larger than the entry limit', () => {
+    const entries = readZip(buildZip([{ name: 'big.txt', content: 'a'.repeat(10000) }]), { maxEntrySize: 1000 });
+    expect(() => entries.get('big.txt')!.read()).toThrow('ZIP entry is too large: big.txt');
+  });
+
+  it('should enforce the entry limit when the declared size lies', () => {
+    const entries = readZip(
+      buildZip([{ name: 'bomb.txt', content: 'a'.repeat(10000), declaredSize: 10 }]),
+      { maxEntrySize: 1000 }
+    );
+    expect(() => entries.get('bomb.txt')!.read()).toThrow('ZIP entry is too large: bomb.txt');
+  });
+
+  it('should cap the bytes inflated across all entries', () => {
+    const entries = readZip(
+      buildZip([
+        { name: 'one.txt', content: 'a'.repeat(600) },
+        { name: 'two.txt', content: 'b'.repeat(600) },
+      ]),
+      { maxTotalSize: 1000 }
+    );
+
+    expect(entries.get('one.txt')!.read()).toHaveLength(600);
+    expect(() => entries.get('two.txt')!.read()).toThrow('ZIP archive is too large when extracted: two.txt');
+  });
+
+  it('should reject unsupported compression methods', () => {
+    const archive = Buffer.from(buildZip([{ name: 'data.bin', content: 'x', stored: true }]));
+    archive.writeUInt16LE(12, 8); // bzip2 in the local header
+    const directoryStart = archive.readUInt32LE(archive.length - 6);
+    archive.writeUInt16LE(12, directoryStart + 10);
+
+    expect(() => readZip(new Uint8Array(archive)).get('data.bin')!.read()).toThrow('Unsupported ZIP compression method 12');
+  });
+});
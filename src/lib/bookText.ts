@@ -0,0 +1,207 @@
+// Extract readable text from uploaded book files (EPUB, plain text or PDF) as an
+// ordered list of sections. EPUB sections follow the spine, plain text is split at
+// chapter headings and PDF sections are pages, so only PDFs carry real page numbers.
+import { readZip, ZipEntry } from "./zip";
+import { extractPdfPages, WIN_ANSI_EXTRAS } from "./pdfText";
+import type { BookTextFormat } from "@/types/book";
+
+export interface BookTextSection {
+  // chapter title when the format exposes one
+  title?: string;
+  text: string;
+  // 1-based page number, PDF only
+  page?: number;
+}
+
+export interface ExtractedBookText {
+  format: BookTextFormat;
+  sections: BookTextSection[];
+  hasPageNumbers: boolean;
+}
+
+// Lines such as "Chapter 12", "CHAPTER IV: The Storm", "Part One" or "Prologue"
+const CHAPTER_HEADING = new RegExp(
+  "^(?:(?:chapter|part|book)\\s+(?:\\d+|[ivxlcdm]+|one|two|three|four|five|six|seven|eight|nine|ten|eleven|twelve|\\w+teen|twenty|thirty|forty|fifty)" +
+    "(?:\\s*[:.\\-–—]?\\s+.{1,80}|[:.])?|prologue|epilogue|introduction|preface)$",
+  "i"
+);
+
+const HTML_ENTITIES: Record<string, string> = {
+  amp: "&", lt: "<", gt: ">", quot: '"', apos: "'", nbsp: " ", shy: "",
+  mdash: "—", ndash: "–", hellip: "…", lsquo: "‘", rsquo: "’", ldquo: "“", rdquo: "”",
+};
+
+// Guess the format from the file name, then from the leading bytes
+export function detectBookTextFormat(filename: string, data: Uint8Array): BookTextFormat | null {
+  const extension = filename.toLowerCase().split(".").pop();
+  if (extension === "epub" || extension === "pdf" || extension === "txt") {
+    return extension;
+  }
+
+  if (data[0] === 0x25 && data[1] === 0x50 && data[2] === 0x44 && data[3] === 0x46) {
+    return "pdf"; // %PDF
+  }
+  if (data[0] === 0x50 && data[1] === 0x4b) {
+    return "epub"; // PK zip header
+  }
+  if (extension === "text" || extension === "md") {
+    return "txt";
+  }
+  return null;
+}
+
+export function extractBookText(data: Uint8Array, format: BookTextFormat): ExtractedBookText {
+  switch (format) {
+    case "epub":
+      return { format, sections: extractEpub(data), hasPageNumbers: false };
+    case "pdf":
+      return {
+        format,
+        sections: extractPdfPages(data).map((text, index) => ({
+          title: findChapterHeading(text),
+          text,
+          page: index + 1,
+        })),
+        hasPageNumbers: true,
+      };
+    default:
+      return { format, sections: splitPlainText(decodeText(data)), hasPageNumbers: false };
+  }
+}
+
+// First heading-like line near the top of a page or section
+export function findChapterHeading(text: string): string | undefined {
+  return text
+    .split("\n")
+    .slice(0, 3)
+    .map((line) => line.trim())
+    .find((line) => CHAPTER_HEADING.test(line));
+}
+
+function extractEpub(data: Uint8Array): BookTextSection[] {
+  let entries: Map<string, ZipEntry>;
+  try {
+    entries = readZip(data);
+  } catch {
+    throw new Error("The EPUB file could not be read");
+  }
+
+  const readEntry = (path: string) => {
+    const entry = entries.get(path);
+    return entry ? new TextDecoder("utf-8").decode(entry.read()) : null;
+  };
+
+  const container = readEntry("META-INF/container.xml");
+  const opfPath = container && getAttribute(container.match(/<rootfile\b[^>]*>/i)?.[0] || "", "full-path");
+  const opf = opfPath && readEntry(opfPath);
+  if (!opf) {
+    throw new Error("The EPUB file has no package document");
+  }
+
+  const baseDir = opfPath.includes("/") ? opfPath.slice(0, opfPath.lastIndexOf("/") + 1) : "";
+  const manifest = new Map<string, string>();
+  for (const item of opf.match(/<(?:\w+:)?item\b[^>]*>/gi) || []) {
+    const id = getAttribute(item, "id");
+    const href = getAttribute(item, "href");
+    if (id && href) {
+      manifest.set(id, resolvePath(baseDir, href));
+    }
+  }
+
+  const sections: BookTextSection[] = [];
+  for (const itemref of opf.match(/<(?:\w+:)?itemref\b[^>]*>/gi) || []) {
+    const path = manifest.get(getAttribute(itemref, "idref") || "");
+    const html = path && readEntry(path);
+    if (!html) {
+      continue;
+    }
+
+    const text = htmlToText(html);
+    if (text) {
+      const heading = html.match(/<h[1-3]\b[^>]*>([\s\S]*?)<\/h[1-3]>/i)?.[1];
+      const title = heading ? htmlToText(heading).replace(/\s+/g, " ") : undefined;
+      sections.push({ title: title || undefined, text });
+    }
+  }
+
+  return sections;
+}
+
+function splitPlainText(text: string): BookTextSection[] {
+  const sections: BookTextSection[] = [];
+  let current: BookTextSection = { text: "" };
+
+  for (const line of text.replace(/\r\n?/g, "\n").split("\n")) {
+    const trimmed = line.trim();
+    if (CHAPTER_HEADING.test(trimmed) && current.text.trim()) {
+      sections.push(current);
+      current = { title: trimmed, text: "" };
+    } else if (CHAPTER_HEADING.test(trimmed) && !current.title) {
+      current.title = trimmed;
+    }
+    current.text += `${line}\n`;
+  }
+
+  if (current.text.trim()) {
+    sections.push(current);
+  }
+  return sections.map((section) => ({ ...section, text: section.text.trim() }));
+}
+
+// UTF-8 with or without BOM, falling back to Windows-1252 for legacy files
+function decodeText(data: Uint8Array): string {
+  try {
+    return new TextDecoder("utf-8", { fatal: true, ignoreBOM: false }).decode(data);
+  } catch {
+    // node decodes windows-1252 as latin1, leaving curly quotes and dashes as C1 controls
+    return new TextDecoder("windows-1252")
+      .decode(data)
+      .replace(/[\u0080-\u009f]/g, (char) => WIN_ANSI_EXTRAS[char.charCodeAt(0)] ?? "");
+  }
+}
+
+function htmlToText(html: string): string {
+  return html
+    .replace(/<head\b[\s\S]*?<\/head>/gi, "")
+    .replace(/<(script|style)\b[\s\S]*?<\/\1>/gi, "")
+    .replace(/<br\b[^>]*>/gi, "\n")
+    .replace(/<\/?(p|div|h[1-6]|li|tr|blockquote|section|article|pre|dd|dt)\b[^>]*>/gi, "\n\n")
+    .replace(/<[^>]+>/g, "")
+    .replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (entity, code: string) => {
+      if (code[0] === "#") {
+        const value = code[1] === "x" || code[1] === "X" ? parseInt(code.slice(2), 16) : parseInt(code.slice(1), 10);
+        return value > 0 && value <= 0x10ffff ? String.fromCodePoint(value) : "";
+      }
+      return HTML_ENTITIES[code.toLowerCase()] ?? entity;
+    })
+    .replace(/[ \t\u00a0]+/g, " ")
+    .replace(/ *\n */g, "\n")
+    .replace(/\n{3,}/g, "\n\n")
+    .trim();
+}
+
+function getAttribute(tag: string, name: string): string | null {
+  const match = tag.match(new RegExp(`\\s${name}\\s*=\\s*("([^"]*)"|'([^']*)')`, "i"));
+  return match ? match[2] ?? match[3] : null;
+}
+
+// Resolve an href relative to the package document, dropping fragments
+function resolvePath(baseDir: string, href: string): string {
+  let path = href.split("#")[0];
+  try {
+    path = decodeURIComponent(path);
+  } catch {
+    // keep malformed escapes as written
+  }
+
+  const parts = `${baseDir}${path}`.split("/");
+  const resolved: string[] = [];
+  for (const part of parts) {
+    if (part === "..") {
+      resolved.pop();
+    } else if (part && part !== ".") {
+      resolved.push(part);
+    }
+  }
+  return resolved.join("/");
+}
@@ -0,0 +1,107 @@
+// Parse RFC 4180 CSV text into rows of cells (quoted fields, escaped quotes, embedded newlines)
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = "";
+  let inQuotes = false;
+
+  // strip UTF-8 BOM added by spreadsheet exports
+  const input = text.charCodeAt(0) === 0xfeff ? text.slice(1) : text;
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+
+    if (inQuotes) {
+      if (char === '"') {
+        if (input[i + 1] === '"') {
+          cell += '"';
+          i++;
+        } else {
+          inQuotes = false;
+        }
+      } else {
+        cell += char;
+      }
+      continue;
+    }
+
+    if (char === '"') {
+      inQuotes = true;
+    } else if (char === ",") {
+      row.push(cell);
+      cell = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && input[i + 1] === "\n") {
+        i++;
+      }
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = "";
+    } else {
+      cell += char;
+    }
+  }
+
+  if (cell !== "" || row.length > 0) {
+    row.push(cell);
+    rows.push(row);
+  }
+
+  // drop blank lines
+  return rows.filter((r) => r.some((value) => value.trim() !== ""));
+}
+
+// Parse CSV text into objects keyed by the header row
+export function parseCsvRecords(text: string): {
+  headers: string[];
+  records: Record<string, string>[];
+} {
+  const [headerRow, ...rows] = parseCsv(text);
+  if (!headerRow) {
+    return { headers: [], records: [] };
+  }
+
+  const headers = headerRow.map((header) => header.trim());
+  const records = rows.map((row) => {
+    const record: Record<string, string> = {};
+    headers.forEach((header, index) => {
+      record[header] = (row[index] ?? "").trim();
+    });
+    return record;
+  });
+
+  return { headers, records };
+}
+
+// Cells starting with these are run as formulas by spreadsheet apps; a leading tab or
+// carriage return is dropped by some of them before the rest is evaluated
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+// A value toCsvRow guarded with '
+const GUARDED_FORMULA = /^'[=+\-@\t\r]/;
+
+// ="0743273567" is how Goodreads keeps leading zeros in identifiers; a quoted literal runs nothing
+const LITERAL_FORMULA = /^="[\dX]*"$/;
+
+// Serialize values into a single CSV line, quoting only when needed. Text that a spreadsheet
+// would evaluate as a formula is prefixed with ' so exported user input cannot run.
+export function toCsvRow(values: (string | number | boolean | null | undefined)[]): string {
+  return (
+    values
+      .map((value) => {
+        if (value === null || value === undefined) return "";
+        let text = String(value);
+        if (typeof value === "string" && FORMULA_PREFIX.test(text) && !LITERAL_FORMULA.test(text)) {
+          text = `'${text}`;
+        }
+        return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+      })
+      .join(",") + "\r\n"
+  );
+}
+
+// Undo the ' guard of toCsvRow, so a re-imported export gets its original text back
+export function unguardCsvValue(text: string): string {
+  return GUARDED_FORMULA.test(text) ? text.slice(1) : text;
+}
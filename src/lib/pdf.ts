@@ -0,0 +1,285 @@
+// Minimal text-only PDF writer: wrapped paragraphs on A4 pages using the standard
+// PDF fonts, so documents can be generated on the server without a renderer.
+// Latin text uses Helvetica; lines containing CJK or other non-WinAnsi characters
+// fall back to the Adobe standard STSong-Light font, which viewers supply themselves.
+
+export interface PdfBlock {
+  text: string;
+  size?: number;
+  bold?: boolean;
+  // grey level 0 (black) to 1 (white)
+  gray?: number;
+  indent?: number;
+  spaceBefore?: number;
+}
+
+export interface PdfDocumentOptions {
+  title?: string;
+  author?: string;
+  createdAt?: Date;
+}
+
+const PAGE_WIDTH = 595;
+const PAGE_HEIGHT = 842;
+const MARGIN = 56;
+const FOOTER_SIZE = 8;
+const LINE_HEIGHT = 1.4;
+
+// Advance widths (1/1000 em) for characters 32-126
+const HELVETICA_WIDTHS = [
+  278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278, 278,
+  556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 278, 278, 584, 584, 584, 556,
+  1015, 667, 667, 722, 722, 667, 611, 778, 722, 278, 500, 667, 556, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 278, 278, 278, 469, 556,
+  333, 556, 556, 500, 556, 556, 278, 556, 556, 222, 222, 500, 222, 833, 556, 556,
+  556, 556, 333, 500, 278, 556, 500, 722, 500, 500, 500, 334, 260, 334, 584
+];
+
+const HELVETICA_BOLD_WIDTHS = [
+  278, 333, 474, 556, 556, 889, 722, 238, 333, 333, 389, 584, 278, 333, 278, 278,
+  556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 333, 333, 584, 584, 584, 611,
+  975, 722, 722, 722, 722, 667, 611, 778, 722, 278, 556, 722, 611, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 333, 278, 333, 584, 556,
+  333, 556, 611, 556, 611, 556, 333, 611, 611, 278, 278, 556, 278, 889, 611, 611,
+  611, 611, 389, 556, 333, 611, 556, 778, 556, 556, 500, 389, 280, 389, 584
+];
+
+// WinAnsiEncoding bytes for characters outside Latin-1
+const WIN_ANSI_EXTRAS: Record<string, number> = {
+  "€": 0x80, "‚": 0x82, "ƒ": 0x83, "„": 0x84, "…": 0x85,
+  "†": 0x86, "‡": 0x87, "ˆ": 0x88, "‰": 0x89, "Š": 0x8a,
+  "‹": 0x8b, "Œ": 0x8c, "Ž": 0x8e, "‘": 0x91, "’": 0x92,
+  "“": 0x93, "”": 0x94, "•": 0x95, "–": 0x96, "—": 0x97,
+  "˜": 0x98, "™": 0x99, "š": 0x9a, "›": 0x9b, "œ": 0x9c,
+  "ž": 0x9e, "Ÿ": 0x9f
+};
+
+// A single CJK character, a run of other non-space characters, or whitespace
+const CJK_OR_WORD = /[\u2e80-\u9fff\uac00-\ud7af\uf900-\ufaff\uff00-\uffef]|[^\s\u2e80-\u9fff\uac00-\ud7af\uf900-\ufaff\uff00-\uffef]+|\s+/g;
+
+type FontKey = "F1" | "F2" | "F3";
+
+interface PdfLine {
+  text: string;
+  font: FontKey;
+  size: number;
+  gray: number;
+  x: number;
+  y: number;
+}
+
+function winAnsiCode(char: string): number | null {
+  const code = char.codePointAt(0)!;
+  if ((code >= 32 && code <= 126) || (code >= 0xa0 && code <= 0xff)) return code;
+  return WIN_ANSI_EXTRAS[char] ?? null;
+}
+
+function isWinAnsi(text: string): boolean {
+  return Array.from(text).every(char => winAnsiCode(char) !== null);
+}
+
+function charWidth(char: string, font: FontKey): number {
+  const code = char.codePointAt(0)!;
+  if (font === "F3") {
+    // STSong-Light: Latin is half width, everything else full width
+    return code < 0x2e80 ? 500 : 1000;
+  }
+  const widths = font === "F2" ? HELVETICA_BOLD_WIDTHS : HELVETICA_WIDTHS;
+  return code >= 32 && code <= 126 ? widths[code - 32] : 556;
+}
+
+function textWidth(text: string, font: FontKey, size: number): number {
+  let width = 0;
+  for (const char of text) {
+    width += charWidth(char, font);
+  }
+  return (width * size) / 1000;
+}
+
+// Split a paragraph into lines no wider than maxWidth. CJK characters may break anywhere,
+// other text breaks at whitespace and only splits words that are wider than a whole line.
+function wrapParagraph(paragraph: string, font: FontKey, size: number, maxWidth: number): string[] {
+  const tokens = paragraph.match(CJK_OR_WORD) || [""];
+  const lines: string[] = [];
+  let line = "";
+
+  for (const token of tokens) {
+    const candidate = line + token;
+    if (textWidth(candidate, font, size) <= maxWidth) {
+      line = candidate;
+      continue;
+    }
+
+    if (line.trim()) {
+      lines.push(line.trimEnd());
+    }
+    line = /^\s+$/.test(token) ? "" : token;
+
+    // Hard-break anything still too long, such as URLs
+    while (textWidth(line, font, size) > maxWidth) {
+      let cut = 1;
+      while (cut < line.length && textWidth(line.slice(0, cut + 1), font, size) <= maxWidth) {
+        cut++;
+      }
+      lines.push(line.slice(0, cut));
+      line = line.slice(cut);
+    }
+  }
+
+  if (line.trim() || lines.length === 0) {
+    lines.push(line.trimEnd());
+  }
+  return lines;
+}
+
+function encodeText(text: string, font: FontKey): string {
+  if (font === "F3") {
+    let hex = "";
+    for (let i = 0; i < text.length; i++) {
+      hex += text.charCodeAt(i).toString(16).padStart(4, "0");
+    }
+    return `<${hex}>`;
+  }
+
+  let out = "";
+  for (const char of text) {
+    const code = winAnsiCode(char) ?? 63; // "?"
+    if (char === "(" || char === ")" || char === "\\") {
+      out += `\\${char}`;
+    } else if (code > 126) {
+      out += `\\${code.toString(8).padStart(3, "0")}`;
+    } else {
+      out += String.fromCharCode(code);
+    }
+  }
+  return `(${out})`;
+}
+
+// Literal string for the document info dictionary, as UTF-16BE when not plain ASCII
+function infoString(value: string): string {
+  if (/^[\x20-\x7e]*$/.test(value)) {
+    return `(${value.replace(/[()\\]/g, "\\$&")})`;
+  }
+  let hex = "feff";
+  for (let i = 0; i < value.length; i++) {
+    hex += value.charCodeAt(i).toString(16).padStart(4, "0");
+  }
+  return `<${hex}>`;
+}
+
+function pdfDate(date: Date): string {
+  const pad = (n: number) => String(n).padStart(2, "0");
+  return `D:${date.getUTCFullYear()}${pad(date.getUTCMonth() + 1)}${pad(date.getUTCDate())}` +
+    `${pad(date.getUTCHours())}${pad(date.getUTCMinutes())}${pad(date.getUTCSeconds())}Z`;
+}
+
+// Lay blocks out into pages of positioned lines
+function layout(blocks: PdfBlock[]): PdfLine[][] {
+  const pages: PdfLine[][] = [[]];
+  const bottom = MARGIN + FOOTER_SIZE * 2;
+  let y = PAGE_HEIGHT - MARGIN;
+
+  for (const block of blocks) {
+    const size = block.size || 10;
+    const indent = block.indent || 0;
+    const lineHeight = size * LINE_HEIGHT;
+    const maxWidth = PAGE_WIDTH - MARGIN * 2 - indent;
+
+    if (pages[pages.length - 1].length > 0) {
+      y -= block.spaceBefore ?? 0;
+    }
+
+    for (const paragraph of block.text.replace(/\r\n?/g, "\n").split("\n")) {
+      const font: FontKey = !isWinAnsi(paragraph) ? "F3" : block.bold ? "F2" : "F1";
+
+      for (const text of wrapParagraph(paragraph, font, size, maxWidth)) {
+        if (y - lineHeight < bottom) {
+          pages.push([]);
+          y = PAGE_HEIGHT - MARGIN;
+        }
+        y -= lineHeight;
+        pages[pages.length - 1].push({
+          text,
+          font,
+          size,
+          gray: block.gray ?? 0,
+          x: MARGIN + indent,
+          y: y + (lineHeight - size) / 2
+        });
+      }
+    }
+  }
+
+  return pages;
+}
+
+function contentStream(lines: PdfLine[], pageNumber: number, pageCount: number): string {
+  const footer = `${pageNumber} / ${pageCount}`;
+  const footerLine: PdfLine = {
+    text: footer,
+    font: "F1",
+    size: FOOTER_SIZE,
+    gray: 0.5,
+    x: (PAGE_WIDTH - textWidth(footer, "F1", FOOTER_SIZE)) / 2,
+    y: MARGIN / 2
+  };
+
+  return [...lines, footerLine]
+    .filter(line => line.text)
+    .map(line =>
+      `BT /${line.font} ${line.size} Tf ${line.gray} g ${line.x.toFixed(2)} ${line.y.toFixed(2)} Td ` +
+      `${encodeText(line.text, line.font)} Tj ET`
+    )
+    .join("\n");
+}
+
+// Render blocks of text into a PDF file
+export function renderPdf(blocks: PdfBlock[], options: PdfDocumentOptions = {}): Uint8Array<ArrayBuffer> {
+  const pages = layout(blocks);
+  const objects: string[] = [];
+
+  // Fixed objects: 1 catalog, 2 page tree, 3-5 fonts, 6 CJK descendant font, 7 its descriptor, 8 info
+  const firstPageObject = 9;
+  const pageRefs = pages.map((_, i) => `${firstPageObject + i * 2} 0 R`);
+
+  objects[1] = "<< /Type /Catalog /Pages 2 0 R >>";
+  objects[2] = `<< /Type /Pages /Kids [${pageRefs.join(" ")}] /Count ${pages.length} >>`;
+  objects[3] = "<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>";
+  objects[4] = "<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>";
+  objects[5] = "<< /Type /Font /Subtype /Type0 /BaseFont /STSong-Light /Encoding /UniGB-UTF16-H /DescendantFonts [6 0 R] >>";
+  objects[6] = "<< /Type /Font /Subtype /CIDFontType0 /BaseFont /STSong-Light " +
+    "/CIDSystemInfo << /Registry (Adobe) /Ordering (GB1) /Supplement 4 >> /FontDescriptor 7 0 R /DW 1000 >>";
+  objects[7] = "<< /Type /FontDescriptor /FontName /STSong-Light /Flags 6 /FontBBox [-25 -254 1000 880] " +
+    "/ItalicAngle 0 /Ascent 880 /Descent -120 /CapHeight 880 /StemV 93 >>";
+
+  const info = [`/Producer (BooksOfLife)`, `/CreationDate (${pdfDate(options.createdAt || new Date())})`];
+  if (options.title) info.push(`/Title ${infoString(options.title)}`);
+  if (options.author) info.push(`/Author ${infoString(options.author)}`);
+  objects[8] = `<< ${info.join(" ")} >>`;
+
+  pages.forEach((lines, i) => {
+    const pageObject = firstPageObject + i * 2;
+    const stream = contentStream(lines, i + 1, pages.length);
+
+    objects[pageObject] = `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}] ` +
+      `/Resources << /Font << /F1 3 0 R /F2 4 0 R /F3 5 0 R >> >> /Contents ${pageObject + 1} 0 R >>`;
+    objects[pageObject + 1] = `<< /Length ${stream.length} >>\nstream\n${stream}\nendstream`;
+  });
+
+  // Every byte written is ASCII, so string offsets are byte offsets
+  let output = "%PDF-1.4\n";
+  const offsets: number[] = [];
+  for (let i = 1; i < objects.length; i++) {
+    offsets[i] = output.length;
+    output += `${i} 0 obj\n${objects[i]}\nendobj\n`;
+  }
+
+  const xrefOffset = output.length;
+  output += `xref\n0 ${objects.length}\n0000000000 65535 f \n`;
+  for (let i = 1; i < objects.length; i++) {
+    output += `${String(offsets[i]).padStart(10, "0")} 00000 n \n`;
+  }
+  output += `trailer\n<< /Size ${objects.length} /Root 1 0 R /Info 8 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`;
+
+  return new TextEncoder().encode(output);
+}
@@ -0,0 +1,751 @@
+// Plain-text extraction from uploaded PDFs, one string per page, without a renderer.
+// Handles classic and compressed (object stream) files, FlateDecode content, ToUnicode
+// font maps and text inside form XObjects. Scanned pages, encrypted files and fonts
+// without a usable encoding yield little or no text, which callers should treat as
+// "nothing extractable" rather than an error.
+import { inflateSync, constants } from "zlib";
+
+class PdfName {
+  constructor(readonly value: string) {}
+}
+
+class PdfRef {
+  constructor(readonly num: number, readonly gen: number) {}
+}
+
+class PdfOperator {
+  constructor(readonly value: string) {}
+}
+
+type PdfDict = Map<string, PdfValue>;
+type PdfValue = number | boolean | null | Uint8Array | PdfName | PdfRef | PdfDict | PdfValue[];
+
+interface PdfObject {
+  value: PdfValue;
+  stream?: Uint8Array;
+}
+
+interface PdfFont {
+  codeLength: number;
+  toUnicode?: Map<number, string>;
+}
+
+const WHITESPACE = new Set([0x00, 0x09, 0x0a, 0x0c, 0x0d, 0x20]);
+const DELIMITERS = new Set(Array.from("()<>[]{}/%").map((char) => char.charCodeAt(0)));
+const OBJECT_PATTERN = /(\d+)\s+(\d+)\s+obj\b/g;
+
+// Windows-1252 characters for bytes 0x80-0x9f, used for fonts without a ToUnicode map
+export const WIN_ANSI_EXTRAS: Record<number, string> = {
+  0x80: "€", 0x82: "‚", 0x83: "ƒ", 0x84: "„", 0x85: "…", 0x86: "†", 0x87: "‡", 0x88: "ˆ",
+  0x89: "‰", 0x8a: "Š", 0x8b: "‹", 0x8c: "Œ", 0x8e: "Ž", 0x91: "‘", 0x92: "’", 0x93: "“",
+  0x94: "”", 0x95: "•", 0x96: "–", 0x97: "—", 0x98: "˜", 0x99: "™", 0x9a: "š", 0x9b: "›",
+  0x9c: "œ", 0x9e: "ž", 0x9f: "Ÿ",
+};
+
+// nested form XObjects deeper than this are ignored
+const MAX_FORM_DEPTH = 4;
+// bytes all streams of one document may inflate to, guards against compression bombs
+const MAX_INFLATED_SIZE = 100 * 1024 * 1024;
+
+// Extract the text of every page in document order; throws for files that are not
+// PDFs or are encrypted
+export function extractPdfPages(data: Uint8Array): string[] {
+  const source = Buffer.from(data.buffer, data.byteOffset, data.byteLength).toString("latin1");
+  if (!source.startsWith("%PDF-")) {
+    throw new Error("Not a PDF file");
+  }
+
+  const document = new PdfDocument(data, source);
+  if (document.isEncrypted()) {
+    throw new Error("Encrypted PDFs are not supported");
+  }
+
+  return document.getPages().map((page) => document.getPageText(page));
+}
+
+class PdfLexer {
+  constructor(private readonly data: Uint8Array, public pos: number = 0) {}
+
+  skipWhitespace(): void {
+    while (this.pos < this.data.length) {
+      const byte = this.data[this.pos];
+      if (WHITESPACE.has(byte)) {
+        this.pos++;
+      } else if (byte === 0x25) {
+        // % comment runs to the end of the line
+        while (this.pos < this.data.length && this.data[this.pos] !== 0x0a && this.data[this.pos] !== 0x0d) {
+          this.pos++;
+        }
+      } else {
+        break;
+      }
+    }
+  }
+
+  // Next value or operator; undefined at the end of the data
+  next(): PdfValue | PdfOperator | undefined {
+    this.skipWhitespace();
+    if (this.pos >= this.data.length) {
+      return undefined;
+    }
+
+    const byte = this.data[this.pos];
+    switch (byte) {
+      case 0x2f: // /
+        this.pos++;
+        return new PdfName(this.readRegular().replace(/#([0-9a-fA-F]{2})/g, (_, hex) => String.fromCharCode(parseInt(hex, 16))));
+      case 0x28: // (
+        return this.readLiteralString();
+      case 0x3c: // <
+        if (this.data[this.pos + 1] === 0x3c) {
+          this.pos += 2;
+          return this.readDict();
+        }
+        return this.readHexString();
+      case 0x3e: // >
+        if (this.data[this.pos + 1] === 0x3e) {
+          this.pos += 2;
+          return new PdfOperator(">>");
+        }
+        this.pos++;
+        return new PdfOperator(">");
+      case 0x5b: // [
+        this.pos++;
+        return this.readArray();
+      case 0x5d: // ]
+      case 0x7b: // {
+      case 0x7d: // }
+      case 0x29: // ) without an opening parenthesis
+        this.pos++;
+        return new PdfOperator(String.fromCharCode(byte));
+    }
+
+    const token = this.readRegular();
+    if (/^[+-]?(\d+\.?\d*|\.\d+)$/.test(token)) {
+      const number = parseFloat(token);
+      return Number.isInteger(number) && /^\d+$/.test(token) ? this.readRefOr(number) : number;
+    }
+    if (token === "true" || token === "false") {
+      return token === "true";
+    }
+    if (token === "null") {
+      return null;
+    }
+    if (!token) {
+      // stray delimiter, skip it
+      this.pos++;
+      return new PdfOperator("");
+    }
+    return new PdfOperator(token);
+  }
+
+  // Next value, treating operators as null
+  read(): PdfValue {
+    const token = this.next();
+    return token instanceof PdfOperator || token === undefined ? null : token;
+  }
+
+  private readRegular(): string {
+    const start = this.pos;
+    while (
+      this.pos < this.data.length &&
+      !WHITESPACE.has(this.data[this.pos]) &&
+      !DELIMITERS.has(this.data[this.pos])
+    ) {
+      this.pos++;
+    }
+    return String.fromCharCode(...this.data.subarray(start, this.pos));
+  }
+
+  // "12 0 R" is an indirect reference, otherwise keep the number
+  private readRefOr(number: number): PdfValue {
+    const saved = this.pos;
+    this.skipWhitespace();
+    const generation = this.readRegular();
+    if (/^\d+$/.test(generation)) {
+      this.skipWhitespace();
+      const next = this.data[this.pos + 1];
+      if (this.data[this.pos] === 0x52 && (next === undefined || WHITESPACE.has(next) || DELIMITERS.has(next))) {
+        this.pos++;
+        return new PdfRef(number, parseInt(generation, 10));
+      }
+    }
+    this.pos = saved;
+    return number;
+  }
+
+  private readDict(): PdfDict {
+    const dict: PdfDict = new Map();
+    for (;;) {
+      const key = this.next();
+      if (key === undefined || (key instanceof PdfOperator && key.value === ">>")) {
+        return dict;
+      }
+      if (key instanceof PdfName) {
+        const value = this.next();
+        if (value instanceof PdfOperator) {
+          if (value.value === ">>") {
+            return dict;
+          }
+          continue;
+        }
+        dict.set(key.value, value === undefined ? null : value);
+      }
+    }
+  }
+
+  private readArray(): PdfValue[] {
+    const items: PdfValue[] = [];
+    for (;;) {
+      const item = this.next();
+      if (item === undefined || (item instanceof PdfOperator && item.value === "]")) {
+        return items;
+      }
+      if (!(item instanceof PdfOperator)) {
+        items.push(item);
+      }
+    }
+  }
+
+  private readLiteralString(): Uint8Array {
+    const bytes: number[] = [];
+    let depth = 0;
+    this.pos++;
+
+    while (this.pos < this.data.length) {
+      const byte = this.data[this.pos++];
+
+      if (byte === 0x5c) {
+        const escaped = this.data[this.pos++];
+        if (escaped >= 0x30 && escaped <= 0x37) {
+          let octal = escaped - 0x30;
+          for (let i = 0; i < 2 && this.data[this.pos] >= 0x30 && this.data[this.pos] <= 0x37; i++) {
+            octal = octal * 8 + (this.data[this.pos++] - 0x30);
+          }
+          bytes.push(octal & 0xff);
+        } else if (escaped === 0x0d) {
+          // line continuation
+          if (this.data[this.pos] === 0x0a) this.pos++;
+        } else if (escaped !== 0x0a) {
+          const mapped: Record<number, number> = { 0x6e: 0x0a, 0x72: 0x0d, 0x74: 0x09, 0x62: 0x08, 0x66: 0x0c };
+          bytes.push(mapped[escaped] ?? escaped);
+        }
+      } else if (byte === 0x28) {
+        depth++;
+        bytes.push(byte);
+      } else if (byte === 0x29) {
+        if (depth === 0) {
+          break;
+        }
+        depth--;
+        bytes.push(byte);
+      } else {
+        bytes.push(byte);
+      }
+    }
+
+    return new Uint8Array(bytes);
+  }
+
+  private readHexString(): Uint8Array {
+    let hex = "";
+    this.pos++;
+    while (this.pos < this.data.length && this.data[this.pos] !== 0x3e) {
+      const char = String.fromCharCode(this.data[this.pos++]);
+      if (/[0-9a-fA-F]/.test(char)) {
+        hex += char;
+      }
+    }
+    this.pos++;
+
+    if (hex.length % 2) {
+      hex += "0";
+    }
+    const bytes = new Uint8Array(hex.length / 2);
+    for (let i = 0; i < bytes.length; i++) {
+      bytes[i] = parseInt(hex.slice(i * 2, i * 2 + 2), 16);
+    }
+    return bytes;
+  }
+}
+
+class PdfDocument {
+  private objects = new Map<number, PdfObject>();
+  private trailers: PdfDict[] = [];
+  private fonts = new Map<number, PdfFont>();
+  private inflated = 0;
+
+  constructor(private readonly data: Uint8Array, private readonly source: string) {
+    this.readObjects();
+    this.readObjectStreams();
+    this.readTrailers();
+  }
+
+  isEncrypted(): boolean {
+    return this.trailers.some((trailer) => trailer.has("Encrypt"));
+  }
+
+  // Page dictionaries with their inherited resources, in page tree order
+  getPages(): Array<{ page: PdfDict; resources: PdfDict | null }> {
+    const pages: Array<{ page: PdfDict; resources: PdfDict | null }> = [];
+    const visited = new Set<PdfDict>();
+
+    const walk = (node: PdfValue, resources: PdfDict | null) => {
+      const dict = this.resolveDict(node);
+      if (!dict || visited.has(dict)) {
+        return;
+      }
+      visited.add(dict);
+
+      const ownResources = this.resolveDict(dict.get("Resources") ?? null) || resources;
+      const kids = this.resolve(dict.get("Kids") ?? null);
+      if (Array.isArray(kids)) {
+        kids.forEach((kid) => walk(kid, ownResources));
+      } else if (this.nameOf(dict.get("Type")) === "Page" || dict.has("Contents")) {
+        pages.push({ page: dict, resources: ownResources });
+      }
+    };
+
+    const root = this.trailers
+      .map((trailer) => this.resolveDict(trailer.get("Root") ?? null))
+      .find((catalog) => catalog?.has("Pages"));
+    if (root) {
+      walk(root.get("Pages") ?? null, null);
+    }
+
+    // fall back to every page object when the page tree is broken
+    if (pages.length === 0) {
+      Array.from(this.objects.keys())
+        .sort((a, b) => a - b)
+        .forEach((num) => {
+          const dict = this.resolveDict(this.objects.get(num)!.value);
+          if (dict && this.nameOf(dict.get("Type")) === "Page") {
+            pages.push({ page: dict, resources: this.resolveDict(dict.get("Resources") ?? null) });
+          }
+        });
+    }
+
+    return pages;
+  }
+
+  getPageText({ page, resources }: { page: PdfDict; resources: PdfDict | null }): string {
+    const contents = this.resolve(page.get("Contents") ?? null);
+    const parts = (Array.isArray(contents) ? contents : [page.get("Contents") ?? null])
+      .map((part) => this.getStreamData(part))
+      .filter((part): part is Uint8Array => !!part);
+
+    const content = new Uint8Array(parts.reduce((sum, part) => sum + part.length + 1, 0));
+    let offset = 0;
+    for (const part of parts) {
+      content.set(part, offset);
+      content[offset + part.length] = 0x0a;
+      offset += part.length + 1;
+    }
+
+    return this.interpret(content, resources, 0)
+      .replace(/[ \t]+/g, " ")
+      .replace(/ *\n */g, "\n")
+      .replace(/\n{3,}/g, "\n\n")
+      .trim();
+  }
+
+  // Collect text operators from a content stream
+  private interpret(content: Uint8Array, resources: PdfDict | null, depth: number): string {
+    const lexer = new PdfLexer(content);
+    const operands: PdfValue[] = [];
+    let font: PdfFont = { codeLength: 1 };
+    let text = "";
+    let lastY: number | null = null;
+
+    const newline = () => {
+      if (text && !text.endsWith("\n")) {
+        text += "\n";
+      }
+    };
+    const space = () => {
+      if (text && !/\s$/.test(text)) {
+        text += " ";
+      }
+    };
+
+    for (;;) {
+      const token = lexer.next();
+      if (token === undefined) {
+        break;
+      }
+      if (!(token instanceof PdfOperator)) {
+        operands.push(token);
+        continue;
+      }
+
+      switch (token.value) {
+        case "Tf":
+          font = this.getFont(resources, operands[0]);
+          break;
+        case "Tj":
+          text += this.decodeText(operands[0], font);
+          break;
+        case "'":
+        case '"':
+          newline();
+          text += this.decodeText(operands[operands.length - 1], font);
+          break;
+        case "TJ":
+          for (const item of Array.isArray(operands[0]) ? operands[0] : []) {
+            if (typeof item === "number") {
+              // large negative kerning is a word gap
+              if (item < -250) space();
+            } else {
+              text += this.decodeText(item, font);
+            }
+          }
+          break;
+        case "Td":
+        case "TD":
+          if (typeof operands[1] === "number" && Math.abs(operands[1]) > 0.1) {
+            newline();
+          } else {
+            space();
+          }
+          break;
+        case "Tm": {
+          const y = operands[5];
+          if (typeof y === "number") {
+            if (lastY !== null && Math.abs(y - lastY) > 0.1) newline();
+            else space();
+            lastY = y;
+          }
+          break;
+        }
+        case "T*":
+        case "ET":
+          newline();
+          break;
+        case "BI":
+          lexer.pos = skipInlineImage(content, lexer.pos);
+          break;
+        case "Do":
+          if (depth < MAX_FORM_DEPTH) {
+            text += this.interpretForm(resources, operands[0], depth);
+          }
+          break;
+      }
+
+      operands.length = 0;
+    }
+
+    return text;
+  }
+
+  private interpretForm(resources: PdfDict | null, name: PdfValue, depth: number): string {
+    if (!(name instanceof PdfName)) {
+      return "";
+    }
+
+    const xobjects = this.resolveDict(resources?.get("XObject") ?? null);
+    const ref = xobjects?.get(name.value) ?? null;
+    const form = this.resolveDict(ref);
+    if (!form || this.nameOf(form.get("Subtype")) !== "Form") {
+      return "";
+    }
+
+    const data = this.getStreamData(ref);
+    if (!data) {
+      return "";
+    }
+
+    const formResources = this.resolveDict(form.get("Resources") ?? null) || resources;
+    return `\n${this.interpret(data, formResources, depth + 1)}\n`;
+  }
+
+  private decodeText(value: PdfValue, font: PdfFont): string {
+    if (!(value instanceof Uint8Array)) {
+      return "";
+    }
+
+    let text = "";
+    for (let i = 0; i + font.codeLength <= value.length; i += font.codeLength) {
+      let code = 0;
+      for (let j = 0; j < font.codeLength; j++) {
+        code = code * 256 + value[i + j];
+      }
+
+      const mapped = font.toUnicode?.get(code);
+      if (mapped !== undefined) {
+        text += mapped;
+      } else if (font.codeLength === 1) {
+        text += code >= 0x80 && code <= 0x9f ? WIN_ANSI_EXTRAS[code] || "" : String.fromCharCode(code);
+      }
+    }
+
+    return text.replace(/[\x00-\x08\x0b\x0c\x0e-\x1f]/g, "");
+  }
+
+  private getFont(resources: PdfDict | null, name: PdfValue): PdfFont {
+    const fonts = this.resolveDict(resources?.get("Font") ?? null);
+    const ref = name instanceof PdfName ? fonts?.get(name.value) ?? null : null;
+    const cacheKey = ref instanceof PdfRef ? ref.num : null;
+    if (cacheKey !== null && this.fonts.has(cacheKey)) {
+      return this.fonts.get(cacheKey)!;
+    }
+
+    const dict = this.resolveDict(ref);
+    // composite fonts use two-byte codes unless their ToUnicode map says otherwise
+    const font: PdfFont = { codeLength: this.nameOf(dict?.get("Subtype")) === "Type0" ? 2 : 1 };
+    const cmap = this.getStreamData(dict?.get("ToUnicode") ?? null);
+    if (cmap) {
+      Object.assign(font, this.parseToUnicode(cmap, font.codeLength));
+    }
+
+    if (cacheKey !== null) {
+      this.fonts.set(cacheKey, font);
+    }
+    return font;
+  }
+
+  // Parse the bfchar/bfrange mappings of a ToUnicode CMap
+  private parseToUnicode(cmap: Uint8Array, defaultCodeLength: number): PdfFont {
+    const lexer = new PdfLexer(cmap);
+    const toUnicode = new Map<number, string>();
+    let codeLength = 0;
+    let operands: PdfValue[] = [];
+
+    for (;;) {
+      const token = lexer.next();
+      if (token === undefined) {
+        break;
+      }
+      if (!(token instanceof PdfOperator)) {
+        operands.push(token);
+        continue;
+      }
+
+      if (token.value === "endcodespacerange") {
+        const first = operands[0];
+        if (!codeLength && first instanceof Uint8Array) {
+          codeLength = first.length;
+        }
+      } else if (token.value === "endbfchar") {
+        for (let i = 0; i + 1 < operands.length; i += 2) {
+          const [source, target] = [operands[i], operands[i + 1]];
+          if (source instanceof Uint8Array && target instanceof Uint8Array) {
+            toUnicode.set(bytesToCode(source), utf16ToString(target));
+          }
+        }
+      } else if (token.value === "endbfrange") {
+        for (let i = 0; i + 2 < operands.length; i += 3) {
+          const [low, high, target] = [operands[i], operands[i + 1], operands[i + 2]];
+          if (!(low instanceof Uint8Array) || !(high instanceof Uint8Array)) {
+            continue;
+          }
+
+          const start = bytesToCode(low);
+          const end = Math.min(bytesToCode(high), start + 0xffff);
+          for (let code = start; code <= end; code++) {
+            if (Array.isArray(target)) {
+              const item = target[code - start];
+              if (item instanceof Uint8Array) toUnicode.set(code, utf16ToString(item));
+            } else if (target instanceof Uint8Array) {
+              toUnicode.set(code, utf16ToString(target, code - start));
+            }
+          }
+        }
+      }
+
+      if (token.value.startsWith("end") || token.value.startsWith("begin")) {
+        operands = [];
+      }
+    }
+
+    return { codeLength: codeLength || defaultCodeLength, toUnicode };
+  }
+
+  private readObjects(): void {
+    OBJECT_PATTERN.lastIndex = 0;
+    let match: RegExpExecArray | null;
+
+    while ((match = OBJECT_PATTERN.exec(this.source))) {
+      const num = parseInt(match[1], 10);
+      const lexer = new PdfLexer(this.data, match.index + match[0].length);
+
+      try {
+        const value = lexer.read();
+        lexer.skipWhitespace();
+
+        if (value instanceof Map && this.source.startsWith("stream", lexer.pos)) {
+          let start = lexer.pos + 6;
+          if (this.data[start] === 0x0d) start++;
+          if (this.data[start] === 0x0a) start++;
+
+          const length = value.get("Length");
+          let end = typeof length === "number" ? start + length : -1;
+          const after = new PdfLexer(this.data, end);
+          after.skipWhitespace();
+          if (end < 0 || end > this.data.length || !this.source.startsWith("endstream", after.pos)) {
+            end = this.source.indexOf("endstream", start);
+            if (end < 0) end = this.data.length;
+            while (end > start && (this.data[end - 1] === 0x0a || this.data[end - 1] === 0x0d)) end--;
+          }
+
+          this.objects.set(num, { value, stream: this.data.subarray(start, end) });
+          OBJECT_PATTERN.lastIndex = end;
+        } else {
+          this.objects.set(num, { value });
+          OBJECT_PATTERN.lastIndex = Math.max(OBJECT_PATTERN.lastIndex, lexer.pos);
+        }
+      } catch {
+        // skip objects we cannot parse
+      }
+    }
+  }
+
+  // Objects packed into compressed object streams (PDF 1.5+)
+  private readObjectStreams(): void {
+    for (const object of Array.from(this.objects.values())) {
+      const dict = object.value;
+      if (!(dict instanceof Map) || this.nameOf(dict.get("Type")) !== "ObjStm" || !object.stream) {
+        continue;
+      }
+
+      const data = this.decodeStream(dict, object.stream);
+      const count = dict.get("N");
+      const first = dict.get("First");
+      if (!data || typeof count !== "number" || typeof first !== "number") {
+        continue;
+      }
+
+      const header = new PdfLexer(data);
+      const entries: Array<[number, number]> = [];
+      for (let i = 0; i < count; i++) {
+        const num = header.read();
+        const offset = header.read();
+        if (typeof num === "number" && typeof offset === "number") {
+          entries.push([num, offset]);
+        }
+      }
+
+      for (const [num, offset] of entries) {
+        if (!this.objects.has(num)) {
+          this.objects.set(num, { value: new PdfLexer(data, first + offset).read() });
+        }
+      }
+    }
+  }
+
+  // Classic trailers and cross-reference stream dictionaries
+  private readTrailers(): void {
+    const pattern = /trailer\s*<</g;
+    let match: RegExpExecArray | null;
+    while ((match = pattern.exec(this.source))) {
+      const value = new PdfLexer(this.data, match.index + 7).read();
+      if (value instanceof Map) {
+        this.trailers.push(value);
+      }
+    }
+
+    for (const object of Array.from(this.objects.values())) {
+      if (object.value instanceof Map && this.nameOf(object.value.get("Type")) === "XRef") {
+        this.trailers.push(object.value);
+      }
+    }
+
+    // newest revision first
+    this.trailers.reverse();
+  }
+
+  private getStreamData(value: PdfValue): Uint8Array | null {
+    if (!(value instanceof PdfRef)) {
+      return null;
+    }
+    const object = this.objects.get(value.num);
+    if (!object?.stream || !(object.value instanceof Map)) {
+      return null;
+    }
+    return this.decodeStream(object.value, object.stream);
+  }
+
+  // Only FlateDecode is supported; other filters (images, LZW, ...) are skipped
+  private decodeStream(dict: PdfDict, raw: Uint8Array): Uint8Array | null {
+    const filter = this.resolve(dict.get("Filter") ?? null);
+    const filters = (Array.isArray(filter) ? filter : filter ? [filter] : []).map((item) => this.nameOf(item));
+
+    let data = raw;
+    for (const name of filters) {
+      if (name !== "FlateDecode") {
+        return null;
+      }
+
+      const maxOutputLength = MAX_INFLATED_SIZE - this.inflated;
+      if (maxOutputLength <= 0) {
+        throw new Error("The PDF is too large when decompressed");
+      }
+      try {
+        data = new Uint8Array(inflateSync(data, { maxOutputLength }));
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === "ERR_BUFFER_TOO_LARGE") {
+          throw new Error("The PDF is too large when decompressed");
+        }
+        try {
+          // tolerate streams with a truncated or missing checksum
+          data = new Uint8Array(inflateSync(data, { finishFlush: constants.Z_SYNC_FLUSH, maxOutputLength }));
+        } catch {
+          return null;
+        }
+      }
+      this.inflated += data.length;
+    }
+
+    return data;
+  }
+
+  private resolve(value: PdfValue): PdfValue {
+    for (let depth = 0; value instanceof PdfRef && depth < 16; depth++) {
+      value = this.objects.get(value.num)?.value ?? null;
+    }
+    return value instanceof PdfRef ? null : value;
+  }
+
+  private resolveDict(value: PdfValue): PdfDict | null {
+    const resolved = this.resolve(value);
+    return resolved instanceof Map ? resolved : null;
+  }
+
+  private nameOf(value: PdfValue | undefined): string | null {
+    const resolved = value === undefined ? null : this.resolve(value);
+    return resolved instanceof PdfName ? resolved.value : null;
+  }
+}
+
+// Position after the "EI" that ends inline image data, which is binary
+function skipInlineImage(content: Uint8Array, pos: number): number {
+  for (let i = pos; i + 1 < content.length; i++) {
+    if (
+      content[i] === 0x45 &&
+      content[i + 1] === 0x49 &&
+      WHITESPACE.has(content[i - 1]) &&
+      (i + 2 === content.length || WHITESPACE.has(content[i + 2]))
+    ) {
+      return i + 2;
+    }
+  }
+  return content.length;
+}
+
+function bytesToCode(bytes: Uint8Array): number {
+  return bytes.reduce((code, byte) => code * 256 + byte, 0);
+}
+
+// Decode UTF-16BE text, adding an offset to the last code unit (bfrange targets)
+function utf16ToString(bytes: Uint8Array, offset: number = 0): string {
+  const units: number[] = [];
+  for (let i = 0; i + 1 < bytes.length; i += 2) {
+    units.push(bytes[i] * 256 + bytes[i + 1]);
+  }
+  if (bytes.length === 1) {
+    units.push(bytes[0]);
+  }
+  if (units.length > 0) {
+    units[units.length - 1] += offset;
+  }
+  return String.fromCharCode(...units);
+}
@@ -0,0 +1,216 @@
+// Reading trends over a date range: pages and minutes per day, week or month, a calendar
+// heatmap, reading speed and breakdowns by book and session attributes. Sessions are
+// placed on the local date they started on (see readingDays), and every period in the
+// range is present so charts show gaps as zero rather than skipping them.
+import type {
+  ReadingAnalytics,
+  ReadingBreakdownDimension,
+  ReadingBreakdownEntry,
+  ReadingHeatmapDay,
+  ReadingSeriesGranularity,
+  ReadingSeriesPoint
+} from "@/types/book";
+import { addDays, toLocalDate } from "./readingDays";
+
+// Longest range a single request may cover, about two years of daily points
+export const MAX_ANALYTICS_DAYS = 731;
+
+export const BREAKDOWN_DIMENSIONS: ReadingBreakdownDimension[] = ["genre", "format", "language", "mood", "location"];
+
+export interface AnalyticsSession {
+  book_uuid: string;
+  session_start: string | Date;
+  pages_read?: number | null;
+  reading_duration_minutes?: number | null;
+  mood?: string | null;
+  location?: string | null;
+  genre?: string | null;
+  format?: string | null;
+  language?: string | null;
+}
+
+interface Totals {
+  pages_read: number;
+  minutes: number;
+  sessions: number;
+  // pages and minutes of sessions with a recorded duration, for reading speed
+  timed_pages: number;
+  timed_minutes: number;
+}
+
+function emptyTotals(): Totals {
+  return { pages_read: 0, minutes: 0, sessions: 0, timed_pages: 0, timed_minutes: 0 };
+}
+
+function addSession(totals: Totals, session: AnalyticsSession) {
+  const pages = session.pages_read || 0;
+  const minutes = session.reading_duration_minutes || 0;
+
+  totals.pages_read += pages;
+  totals.minutes += minutes;
+  totals.sessions++;
+  if (minutes > 0) {
+    totals.timed_pages += pages;
+    totals.timed_minutes += minutes;
+  }
+}
+
+function getPagesPerHour(totals: Totals): number | null {
+  if (totals.timed_minutes <= 0) return null;
+  return Math.round((totals.timed_pages / totals.timed_minutes) * 600) / 10;
+}
+
+// Days from `from` to `to`, both included
+export function countDays(from: string, to: string): number {
+  const [fromYear, fromMonth, fromDay] = from.split("-").map(Number);
+  const [toYear, toMonth, toDay] = to.split("-").map(Number);
+  return Math.round((Date.UTC(toYear, toMonth - 1, toDay) - Date.UTC(fromYear, fromMonth - 1, fromDay)) / 86400000) + 1;
+}
+
+// First date of the period a date falls in; weeks start on Monday
+export function getPeriodStart(date: string, granularity: ReadingSeriesGranularity): string {
+  if (granularity === "month") {
+    return `${date.slice(0, 7)}-01`;
+  }
+  if (granularity === "week") {
+    const [year, month, day] = date.split("-").map(Number);
+    const weekday = new Date(Date.UTC(year, month - 1, day)).getUTCDay();
+    return addDays(date, -((weekday + 6) % 7));
+  }
+  return date;
+}
+
+function getNextPeriodStart(periodStart: string, granularity: ReadingSeriesGranularity): string {
+  if (granularity === "month") {
+    const [year, month] = periodStart.split("-").map(Number);
+    return new Date(Date.UTC(year, month, 1)).toISOString().slice(0, 10);
+  }
+  return addDays(periodStart, granularity === "week" ? 7 : 1);
+}
+
+function getPeriodLabel(periodStart: string, granularity: ReadingSeriesGranularity): string {
+  return granularity === "month" ? periodStart.slice(0, 7) : periodStart;
+}
+
+export function buildSeries(
+  sessions: AnalyticsSession[],
+  from: string,
+  to: string,
+  granularity: ReadingSeriesGranularity,
+  timeZone: string
+): ReadingSeriesPoint[] {
+  const periods = new Map<string, Totals>();
+  for (let start = getPeriodStart(from, granularity); start <= to; start = getNextPeriodStart(start, granularity)) {
+    periods.set(start, emptyTotals());
+  }
+
+  for (const session of sessions) {
+    const totals = periods.get(getPeriodStart(toLocalDate(session.session_start, timeZone), granularity));
+    if (totals) {
+      addSession(totals, session);
+    }
+  }
+
+  return Array.from(periods.entries()).map(([start, totals]) => ({
+    period: getPeriodLabel(start, granularity),
+    start_date: start,
+    pages_read: totals.pages_read,
+    minutes: totals.minutes,
+    sessions: totals.sessions,
+    pages_per_hour: getPagesPerHour(totals)
+  }));
+}
+
+// Every day in the range, shaded by minutes read (pages when no durations were recorded)
+export function buildHeatmap(
+  sessions: AnalyticsSession[],
+  from: string,
+  to: string,
+  timeZone: string
+): ReadingHeatmapDay[] {
+  const days = new Map<string, Totals>();
+  for (let date = from; date <= to; date = addDays(date, 1)) {
+    days.set(date, emptyTotals());
+  }
+
+  for (const session of sessions) {
+    const totals = days.get(toLocalDate(session.session_start, timeZone));
+    if (totals) {
+      addSession(totals, session);
+    }
+  }
+
+  const byMinutes = Array.from(days.values()).some(totals => totals.minutes > 0);
+  const intensity = (totals: Totals) => byMinutes ? totals.minutes : totals.pages_read;
+  const busiest = Math.max(0, ...Array.from(days.values()).map(intensity));
+
+  return Array.from(days.entries()).map(([date, totals]) => ({
+    date,
+    pages_read: totals.pages_read,
+    minutes: totals.minutes,
+    level: (busiest > 0 ? Math.ceil((intensity(totals) / busiest) * 4) : 0) as ReadingHeatmapDay["level"]
+  }));
+}
+
+// Pages, minutes, sessions and distinct books per value of a dimension, most read first
+export function buildBreakdown(
+  sessions: AnalyticsSession[],
+  dimension: ReadingBreakdownDimension
+): ReadingBreakdownEntry[] {
+  const groups = new Map<string, { totals: Totals; books: Set<string> }>();
+
+  for (const session of sessions) {
+    const key = session[dimension]?.trim().toLowerCase() || "unknown";
+    const group = groups.get(key) || { totals: emptyTotals(), books: new Set<string>() };
+    addSession(group.totals, session);
+    group.books.add(session.book_uuid);
+    groups.set(key, group);
+  }
+
+  return Array.from(groups.entries())
+    .map(([key, { totals, books }]) => ({
+      key,
+      pages_read: totals.pages_read,
+      minutes: totals.minutes,
+      sessions: totals.sessions,
+      books: books.size
+    }))
+    .sort((a, b) => b.minutes - a.minutes || b.pages_read - a.pages_read || a.key.localeCompare(b.key));
+}
+
+export function buildReadingAnalytics(
+  sessions: AnalyticsSession[],
+  from: string,
+  to: string,
+  granularity: ReadingSeriesGranularity,
+  timeZone: string
+): ReadingAnalytics {
+  const totals = emptyTotals();
+  const readingDays = new Set<string>();
+  for (const session of sessions) {
+    addSession(totals, session);
+    readingDays.add(toLocalDate(session.session_start, timeZone));
+  }
+
+  const breakdowns = {} as ReadingAnalytics["breakdowns"];
+  for (const dimension of BREAKDOWN_DIMENSIONS) {
+    breakdowns[dimension] = buildBreakdown(sessions, dimension);
+  }
+
+  return {
+    from,
+    to,
+    granularity,
+    timezone: timeZone,
+    totals: {
+      pages_read: totals.pages_read,
+      minutes: totals.minutes,
+      sessions: totals.sessions,
+      reading_days: readingDays.size,
+      pages_per_hour: getPagesPerHour(totals)
+    },
+    series: buildSeries(sessions, from, to, granularity, timeZone),
+    heatmap: buildHeatmap(sessions, from, to, timeZone),
+    breakdowns
+  };
+}
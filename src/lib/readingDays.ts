@@ -0,0 +1,172 @@
+// Calendar days in the reader's timezone. Streaks and daily totals bucket sessions by
+// the local date they started on, so a reader in Tokyo reading at 1am is counted on
+// that morning rather than on the previous UTC day. Dates are "YYYY-MM-DD" strings.
+
+export const DEFAULT_TIMEZONE = "UTC";
+
+export interface StreakSummary {
+  // consecutive reading days up to today, or up to yesterday while today is not read yet
+  current: number;
+  longest: number;
+  // freeze days bridging the current streak
+  freezes_used: number;
+  last_reading_date: string | null;
+}
+
+export interface DailyReadingTotal {
+  date: string;
+  pages_read: number;
+  minutes: number;
+  sessions: number;
+}
+
+export interface DayBucketedSession {
+  session_start: string | Date;
+  pages_read?: number | null;
+  reading_duration_minutes?: number | null;
+}
+
+export function isValidTimezone(timeZone: string | null | undefined): boolean {
+  if (!timeZone) return false;
+
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// The user's stored timezone, or UTC when it is missing or no longer known
+export function resolveTimezone(timeZone: string | null | undefined): string {
+  return timeZone && isValidTimezone(timeZone) ? timeZone : DEFAULT_TIMEZONE;
+}
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+function getFormatter(timeZone: string): Intl.DateTimeFormat {
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat("en-US", {
+      timeZone,
+      hourCycle: "h23",
+      year: "numeric",
+      month: "2-digit",
+      day: "2-digit",
+      hour: "2-digit",
+      minute: "2-digit",
+      second: "2-digit"
+    });
+    formatters.set(timeZone, formatter);
+  }
+  return formatter;
+}
+
+// Wall-clock fields of an instant in a timezone
+function getLocalParts(at: Date, timeZone: string): Record<string, number> {
+  const parts: Record<string, number> = {};
+  for (const part of getFormatter(timeZone).formatToParts(at)) {
+    if (part.type !== "literal") {
+      parts[part.type] = parseInt(part.value, 10);
+    }
+  }
+  return parts;
+}
+
+// How far the timezone's wall clock is ahead of UTC at an instant, in ms
+export function getTimezoneOffsetMs(at: Date, timeZone: string): number {
+  const parts = getLocalParts(at, timeZone);
+  const asUtc = Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute, parts.second);
+  return asUtc - Math.floor(at.getTime() / 1000) * 1000;
+}
+
+// The local calendar date of an instant
+export function toLocalDate(at: string | Date, timeZone: string): string {
+  const parts = getLocalParts(new Date(at), timeZone);
+  return `${parts.year}-${String(parts.month).padStart(2, "0")}-${String(parts.day).padStart(2, "0")}`;
+}
+
+// Calendar arithmetic on dates, independent of any timezone
+export function addDays(date: string, days: number): string {
+  const [year, month, day] = date.split("-").map(Number);
+  return new Date(Date.UTC(year, month - 1, day + days)).toISOString().slice(0, 10);
+}
+
+// The instant a local date begins; days are 23 or 25 hours long across DST changes
+export function startOfLocalDay(date: string, timeZone: string): Date {
+  const [year, month, day] = date.split("-").map(Number);
+  const midnightAsUtc = Date.UTC(year, month - 1, day);
+
+  // The offset at midnight may differ from the offset a few hours earlier, so check it twice
+  let instant = midnightAsUtc - getTimezoneOffsetMs(new Date(midnightAsUtc), timeZone);
+  instant = midnightAsUtc - getTimezoneOffsetMs(new Date(instant), timeZone);
+
+  return new Date(instant);
+}
+
+// Reading days count towards a streak; freeze days keep it alive without counting.
+// A streak is still current when the last reading or freeze day was yesterday.
+export function calculateStreaks(
+  readingDates: Iterable<string>,
+  freezeDates: Iterable<string>,
+  today: string
+): StreakSummary {
+  const reading = new Set(readingDates);
+  const covered = new Set([...Array.from(reading), ...Array.from(freezeDates)]);
+
+  let current = 0;
+  let freezesUsed = 0;
+  let day = covered.has(today) ? today : addDays(today, -1);
+  while (covered.has(day)) {
+    if (reading.has(day)) {
+      current++;
+    } else {
+      freezesUsed++;
+    }
+    day = addDays(day, -1);
+  }
+  // Freezes only matter between reading days
+  if (current === 0) {
+    freezesUsed = 0;
+  }
+
+  let longest = 0;
+  let run = 0;
+  let previous: string | null = null;
+  for (const date of Array.from(covered).sort()) {
+    run = previous !== null && addDays(previous, 1) === date ? run : 0;
+    if (reading.has(date)) {
+      run++;
+      longest = Math.max(longest, run);
+    }
+    previous = date;
+  }
+
+  const sortedReading = Array.from(reading).sort();
+
+  return {
+    current,
+    longest: Math.max(longest, current),
+    freezes_used: freezesUsed,
+    last_reading_date: sortedReading.length > 0 ? sortedReading[sortedReading.length - 1] : null
+  };
+}
+
+// Pages, minutes and sessions per local date, oldest first
+export function bucketByLocalDate(
+  sessions: DayBucketedSession[],
+  timeZone: string
+): DailyReadingTotal[] {
+  const totals = new Map<string, DailyReadingTotal>();
+
+  for (const session of sessions) {
+    const date = toLocalDate(session.session_start, timeZone);
+    const total = totals.get(date) || { date, pages_read: 0, minutes: 0, sessions: 0 };
+    total.pages_read += session.pages_read || 0;
+    total.minutes += session.reading_duration_minutes || 0;
+    total.sessions++;
+    totals.set(date, total);
+  }
+
+  return Array.from(totals.values()).sort((a, b) => a.date.localeCompare(b.date));
+}
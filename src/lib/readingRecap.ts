@@ -0,0 +1,145 @@
+// "Year in books" figures from the books finished in a year and the sessions read in it.
+// Years follow the reader's timezone, so a book finished late on New Year's Eve counts
+// towards the year the reader was in.
+import type {
+  ReadingRecapBook,
+  ReadingRecapCount,
+  ReadingRecapMonth,
+  ReadingRecapStats
+} from "@/types/book";
+import { toLocalDate } from "./readingDays";
+
+export interface RecapFinishedBook {
+  book_uuid: string;
+  title: string;
+  author: string;
+  cover_url?: string | null;
+  page_count?: number | null;
+  genre?: string | null;
+  personal_rating?: string | number | null;
+  date_completed: string | Date;
+}
+
+export interface RecapSession {
+  session_start: string | Date;
+  pages_read?: number | null;
+  reading_duration_minutes?: number | null;
+  mood?: string | null;
+  location?: string | null;
+}
+
+const TOP_COUNT = 5;
+
+function toRecapBook(book: RecapFinishedBook, timeZone: string): ReadingRecapBook {
+  const rating = book.personal_rating !== null && book.personal_rating !== undefined
+    ? Number(book.personal_rating)
+    : NaN;
+
+  return {
+    book_uuid: book.book_uuid,
+    title: book.title,
+    author: book.author,
+    cover_url: book.cover_url || undefined,
+    page_count: book.page_count || undefined,
+    personal_rating: isNaN(rating) ? undefined : rating,
+    date_completed: toLocalDate(book.date_completed, timeZone)
+  };
+}
+
+// Most frequent values, ties broken alphabetically
+function topCounts(values: (string | null | undefined)[], limit: number = TOP_COUNT): ReadingRecapCount[] {
+  const counts = new Map<string, number>();
+  for (const value of values) {
+    const name = value?.trim();
+    if (name) {
+      counts.set(name, (counts.get(name) || 0) + 1);
+    }
+  }
+
+  return Array.from(counts.entries())
+    .map(([name, books]) => ({ name, books }))
+    .sort((a, b) => b.books - a.books || a.name.localeCompare(b.name))
+    .slice(0, limit);
+}
+
+export function buildYearRecap(
+  finishedBooks: RecapFinishedBook[],
+  sessions: RecapSession[],
+  year: number,
+  timeZone: string
+): ReadingRecapStats {
+  const inYear = (at: string | Date) => toLocalDate(at, timeZone).startsWith(`${year}-`);
+
+  // A book shelved on several lists is still one book
+  const byBook = new Map<string, RecapFinishedBook>();
+  for (const book of finishedBooks) {
+    if (inYear(book.date_completed) && !byBook.has(book.book_uuid)) {
+      byBook.set(book.book_uuid, book);
+    }
+  }
+  const finished = Array.from(byBook.values())
+    .map(book => ({ source: book, recap: toRecapBook(book, timeZone) }))
+    .sort((a, b) => a.recap.date_completed.localeCompare(b.recap.date_completed));
+  const yearSessions = sessions.filter(session => inYear(session.session_start));
+
+  const months: ReadingRecapMonth[] = Array.from({ length: 12 }, (_, i) => ({
+    month: `${year}-${String(i + 1).padStart(2, "0")}`,
+    books_finished: 0,
+    pages_read: 0,
+    minutes: 0
+  }));
+  const monthOf = (date: string) => months[parseInt(date.slice(5, 7), 10) - 1];
+
+  for (const { recap } of finished) {
+    monthOf(recap.date_completed).books_finished++;
+  }
+
+  const readingDays = new Set<string>();
+  let pagesRead = 0;
+  let minutesRead = 0;
+  for (const session of yearSessions) {
+    const date = toLocalDate(session.session_start, timeZone);
+    const month = monthOf(date);
+    month.pages_read += session.pages_read || 0;
+    month.minutes += session.reading_duration_minutes || 0;
+    pagesRead += session.pages_read || 0;
+    minutesRead += session.reading_duration_minutes || 0;
+    readingDays.add(date);
+  }
+
+  const withPages = finished.filter(({ recap }) => recap.page_count);
+  const byPages = [...withPages].sort((a, b) => (b.recap.page_count || 0) - (a.recap.page_count || 0));
+  const rated = finished
+    .filter(({ recap }) => recap.personal_rating !== undefined)
+    .sort((a, b) => (b.recap.personal_rating || 0) - (a.recap.personal_rating || 0));
+
+  // Busiest by pages read, or by books finished when no sessions were logged
+  const busiest = [...months].sort((a, b) =>
+    b.pages_read - a.pages_read || b.books_finished - a.books_finished || a.month.localeCompare(b.month)
+  )[0];
+
+  return {
+    year,
+    timezone: timeZone,
+    books_finished: finished.length,
+    pages_finished: withPages.reduce((sum, { recap }) => sum + (recap.page_count || 0), 0),
+    pages_read: pagesRead,
+    minutes_read: minutesRead,
+    sessions: yearSessions.length,
+    reading_days: readingDays.size,
+    average_rating: rated.length > 0
+      ? Math.round((rated.reduce((sum, { recap }) => sum + (recap.personal_rating || 0), 0) / rated.length) * 100) / 100
+      : null,
+    longest_book: byPages[0]?.recap || null,
+    shortest_book: byPages.length > 1 ? byPages[byPages.length - 1].recap : null,
+    first_book: finished[0]?.recap || null,
+    last_book: finished.length > 1 ? finished[finished.length - 1].recap : null,
+    top_rated_books: rated.slice(0, 3).map(({ recap }) => recap),
+    top_genres: topCounts(finished.map(({ source }) => source.genre)),
+    top_authors: topCounts(finished.map(({ source }) => source.author)),
+    months,
+    busiest_month: busiest.pages_read > 0 || busiest.books_finished > 0 ? busiest : null,
+    favorite_mood: topCounts(yearSessions.map(session => session.mood), 1)[0]?.name || null,
+    favorite_location: topCounts(yearSessions.map(session => session.location), 1)[0]?.name || null
+  };
+}
@@ -0,0 +1,33 @@
+// Active reading time of a session: wall-clock time since it started, minus its pauses.
+// Shared by the server (stored duration) and the session tracker (live timer).
+import type { ReadingSession } from "@/types/book";
+
+// seconds read between session_start and session_end (or now for a running session)
+export function getActiveReadingSeconds(
+  session: Pick<ReadingSession, "session_start" | "session_end" | "pause_intervals">,
+  now: Date = new Date()
+): number {
+  const start = new Date(session.session_start).getTime();
+  const end = session.session_end ? new Date(session.session_end).getTime() : now.getTime();
+
+  let pausedMs = 0;
+  for (const pause of session.pause_intervals || []) {
+    // an open pause runs until the end of the session
+    const pauseStart = Math.max(start, new Date(pause.started_at).getTime());
+    const pauseEnd = Math.min(end, pause.ended_at ? new Date(pause.ended_at).getTime() : end);
+    pausedMs += Math.max(0, pauseEnd - pauseStart);
+  }
+
+  return Math.max(0, Math.floor((end - start - pausedMs) / 1000));
+}
+
+// Least time between two heartbeats of an open session tracker
+export const HEARTBEAT_INTERVAL_MS = 5 * 60 * 1000;
+
+// Whether reader activity seen by the tracker at `now` should be sent as a heartbeat.
+// Only activity on a visible page counts, so a tracker left open in a background tab or
+// on an unattended screen sends nothing and the server's idle check pauses the session.
+export function isHeartbeatDue(lastHeartbeatAt: number | null, now: number, visible: boolean): boolean {
+  if (!visible) return false;
+  return lastHeartbeatAt === null || now - lastHeartbeatAt >= HEARTBEAT_INTERVAL_MS;
+}
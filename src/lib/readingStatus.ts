@@ -0,0 +1,153 @@
+// Reading-status state machine: the canonical statuses, the spellings older data uses for
+// them, which changes are allowed and the columns each change writes. Kept free of the
+// database so the rules can be unit tested; ReadingStatusService applies them.
+import type { BookListItem } from "@/types/book";
+
+export type ReadingStatus = BookListItem['reading_status'];
+
+export const READING_STATUSES: ReadingStatus[] = [
+  "want_to_read",
+  "currently_reading",
+  "read",
+  "paused",
+  "abandoned"
+];
+
+// Spellings written by older code, imports and the schema comment, mapped onto the canonical statuses
+const STATUS_ALIASES: Record<string, ReadingStatus> = {
+  to_read: "want_to_read",
+  reading: "currently_reading",
+  in_progress: "currently_reading",
+  completed: "read",
+  finished: "read",
+  on_hold: "paused",
+  dnf: "abandoned",
+  did_not_finish: "abandoned"
+};
+
+// Statuses each status may move to. Moving a finished book back to currently_reading starts a re-read.
+export const READING_STATUS_TRANSITIONS: Record<ReadingStatus, ReadingStatus[]> = {
+  want_to_read: ["currently_reading", "read", "abandoned"],
+  currently_reading: ["want_to_read", "paused", "read", "abandoned"],
+  paused: ["want_to_read", "currently_reading", "read", "abandoned"],
+  read: ["want_to_read", "currently_reading"],
+  abandoned: ["want_to_read", "currently_reading", "read"]
+};
+
+// thrown for a status change the state machine does not allow, mapped to HTTP 400 by routes
+export class ReadingStatusTransitionError extends Error {
+  constructor(
+    public readonly from: ReadingStatus,
+    public readonly to: ReadingStatus
+  ) {
+    super(`Cannot change reading status from ${from} to ${to}`);
+    this.name = "ReadingStatusTransitionError";
+  }
+}
+
+// Statuses a new reading session moves to currently_reading. Finished and abandoned books keep
+// their status, so timing a session never starts a re-read by accident.
+export const SESSION_START_STATUSES: ReadingStatus[] = ["want_to_read", "paused"];
+
+export interface ReadingStatusState {
+  reading_status: string | null;
+  date_started?: Date | string | null;
+  date_completed?: Date | string | null;
+}
+
+export interface ReadingStatusTransitionOptions {
+  at?: Date;
+  dateStarted?: Date;
+  dateCompleted?: Date;
+  dnfReason?: string;
+}
+
+// Columns written when a book changes status
+export interface ReadingStatusUpdate {
+  reading_status: ReadingStatus;
+  status_changed_at?: Date;
+  date_started?: Date | null;
+  date_completed?: Date | null;
+  progress_percentage?: number;
+  dnf_reason?: string | null;
+}
+
+// Map any stored or submitted status onto the canonical vocabulary, or null if it is not a status
+export function normalizeReadingStatus(value: string | null | undefined): ReadingStatus | null {
+  if (!value) return null;
+
+  const key = value.trim().toLowerCase().replace(/[\s-]+/g, "_");
+  if ((READING_STATUSES as string[]).includes(key)) {
+    return key as ReadingStatus;
+  }
+  return STATUS_ALIASES[key] || null;
+}
+
+export function canTransition(from: ReadingStatus, to: ReadingStatus): boolean {
+  return from === to || READING_STATUS_TRANSITIONS[from].includes(to);
+}
+
+// Work out the columns to write when moving from `current` to `to`; `current` is null for a new library entry
+export function planStatusTransition(
+  current: ReadingStatusState | null,
+  to: ReadingStatus,
+  options: ReadingStatusTransitionOptions = {}
+): ReadingStatusUpdate {
+  const at = options.at || new Date();
+  const from = current ? normalizeReadingStatus(current.reading_status) || "want_to_read" : null;
+
+  if (from && !canTransition(from, to)) {
+    throw new ReadingStatusTransitionError(from, to);
+  }
+
+  // Staying on the same status only applies explicitly supplied dates and reasons
+  if (from === to) {
+    const update: ReadingStatusUpdate = { reading_status: to };
+    if (options.dateStarted) update.date_started = options.dateStarted;
+    if (options.dateCompleted && to === "read") update.date_completed = options.dateCompleted;
+    if (options.dnfReason !== undefined && to === "abandoned") update.dnf_reason = options.dnfReason;
+    return update;
+  }
+
+  const existingStart = current?.date_started ? new Date(current.date_started) : null;
+  const update: ReadingStatusUpdate = {
+    reading_status: to,
+    status_changed_at: at,
+    dnf_reason: null
+  };
+
+  switch (to) {
+    case "want_to_read":
+      update.date_started = null;
+      update.date_completed = null;
+      update.progress_percentage = 0;
+      break;
+    case "currently_reading":
+      if (from === "read") {
+        // Re-read: the previous completion is replaced once this read finishes
+        update.date_started = options.dateStarted || at;
+        update.date_completed = null;
+        update.progress_percentage = 0;
+      } else {
+        update.date_started = options.dateStarted || existingStart || at;
+      }
+      break;
+    case "paused":
+      if (options.dateStarted) update.date_started = options.dateStarted;
+      break;
+    case "read": {
+      const completed = options.dateCompleted || at;
+      update.date_started = options.dateStarted || existingStart || completed;
+      update.date_completed = completed;
+      update.progress_percentage = 100;
+      break;
+    }
+    case "abandoned":
+      if (options.dateStarted) update.date_started = options.dateStarted;
+      update.date_completed = null;
+      update.dnf_reason = options.dnfReason || null;
+      break;
+  }
+
+  return update;
+}
@@ -10,7 +10,11 @@ export function respErr(message: string) {
   return respJson(-1, message);
 }
 
-export function respJson(code: number, message: string, data?: any) {
+export function respErrWithStatus(status: number, message: string, data?: any) {
+  return respJson(-1, message, data, status);
+}
+
+export function respJson(code: number, message: string, data?: any, status?: number) {
   let json = {
     code: code,
     message: message,
@@ -20,5 +24,5 @@ export function respJson(code: number, message: string, data?: any) {
     json["data"] = data;
   }
 
-  return Response.json(json);
+  return Response.json(json, status ? { status } : undefined);
 }
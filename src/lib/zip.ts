@@ -0,0 +1,136 @@
+// Minimal ZIP reader for uploaded archives such as EPUB books: reads the central
+// directory and inflates stored or deflated entries on demand with node's zlib.
+// ZIP64, encryption and multi-disk archives are not supported.
+import { inflateRawSync } from "zlib";
+
+export interface ZipEntry {
+  name: string;
+  compressedSize: number;
+  size: number;
+  read(): Uint8Array;
+}
+
+const EOCD_SIGNATURE = 0x06054b50;
+const CENTRAL_SIGNATURE = 0x02014b50;
+const LOCAL_SIGNATURE = 0x04034b50;
+
+// largest entry we are willing to inflate, guards against zip bombs
+const DEFAULT_MAX_ENTRY_SIZE = 50 * 1024 * 1024;
+// bytes all reads of one archive may inflate together, so many small bombs are caught too
+const DEFAULT_MAX_TOTAL_SIZE = 100 * 1024 * 1024;
+
+// Read the entries of a ZIP archive keyed by path; throws if the data is not a readable archive
+export function readZip(
+  data: Uint8Array,
+  options: { maxEntrySize?: number; maxTotalSize?: number } = {}
+): Map<string, ZipEntry> {
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+  const maxEntrySize = options.maxEntrySize ?? DEFAULT_MAX_ENTRY_SIZE;
+  const maxTotalSize = options.maxTotalSize ?? DEFAULT_MAX_TOTAL_SIZE;
+  const decoder = new TextDecoder("utf-8");
+  let inflated = 0;
+
+  // DataView throws a RangeError past the end; truncated archives get a readable error instead
+  const uint16 = (offset: number) => {
+    if (offset < 0 || offset + 2 > data.length) {
+      throw new Error("Truncated ZIP archive");
+    }
+    return view.getUint16(offset, true);
+  };
+  const uint32 = (offset: number) => {
+    if (offset < 0 || offset + 4 > data.length) {
+      throw new Error("Truncated ZIP archive");
+    }
+    return view.getUint32(offset, true);
+  };
+
+  // end of central directory record sits in the last 22 bytes plus an optional comment
+  let eocd = -1;
+  for (let i = data.length - 22; i >= Math.max(0, data.length - 22 - 0xffff); i--) {
+    if (uint32(i) === EOCD_SIGNATURE) {
+      eocd = i;
+      break;
+    }
+  }
+  if (eocd < 0) {
+    throw new Error("Not a ZIP archive");
+  }
+
+  const entryCount = uint16(eocd + 10);
+  let offset = uint32(eocd + 16);
+  const entries = new Map<string, ZipEntry>();
+
+  for (let i = 0; i < entryCount; i++) {
+    if (offset + 46 > data.length || uint32(offset) !== CENTRAL_SIGNATURE) {
+      throw new Error("Corrupt ZIP central directory");
+    }
+
+    const flags = uint16(offset + 8);
+    const method = uint16(offset + 10);
+    const compressedSize = uint32(offset + 20);
+    const size = uint32(offset + 24);
+    const nameLength = uint16(offset + 28);
+    const extraLength = uint16(offset + 30);
+    const commentLength = uint16(offset + 32);
+    const localOffset = uint32(offset + 42);
+    if (offset + 46 + nameLength > data.length) {
+      throw new Error("Corrupt ZIP central directory");
+    }
+    const name = decoder.decode(data.subarray(offset + 46, offset + 46 + nameLength));
+
+    offset += 46 + nameLength + extraLength + commentLength;
+
+    // skip directories and encrypted entries
+    if (name.endsWith("/") || flags & 0x1) {
+      continue;
+    }
+
+    entries.set(name, {
+      name,
+      compressedSize,
+      size,
+      read: () => {
+        if (uint32(localOffset) !== LOCAL_SIGNATURE) {
+          throw new Error(`Corrupt ZIP entry: ${name}`);
+        }
+        if (size > maxEntrySize) {
+          throw new Error(`ZIP entry is too large: ${name}`);
+        }
+
+        const start = localOffset + 30 + uint16(localOffset + 26) + uint16(localOffset + 28);
+        if (start + compressedSize > data.length) {
+          throw new Error(`Truncated ZIP entry: ${name}`);
+        }
+        const raw = data.subarray(start, start + compressedSize);
+
+        // the declared size can lie, so the limit is enforced on the inflated output
+        const limit = Math.min(maxEntrySize, maxTotalSize - inflated);
+        const tooLarge = () =>
+          new Error(limit < maxEntrySize ? `ZIP archive is too large when extracted: ${name}` : `ZIP entry is too large: ${name}`);
+        let content: Uint8Array;
+        if (method === 0) {
+          content = raw;
+        } else if (method === 8) {
+          try {
+            content = new Uint8Array(inflateRawSync(raw, { maxOutputLength: Math.max(limit, 1) }));
+          } catch (error) {
+            if ((error as NodeJS.ErrnoException).code === "ERR_BUFFER_TOO_LARGE") {
+              throw tooLarge();
+            }
+            throw new Error(`Corrupt ZIP entry: ${name}`);
+          }
+        } else {
+          throw new Error(`Unsupported ZIP compression method ${method}: ${name}`);
+        }
+
+        if (content.length > limit) {
+          throw tooLarge();
+        }
+        inflated += content.length;
+        return content;
+      },
+    });
+  }
+
+  return entries;
+}
@@ -0,0 +1,214 @@
+import { ai_daily_usage, ai_messages, ai_rate_limit_buckets, credits } from "@/db/schema";
+import { db } from "@/db";
+import { and, eq, gte, inArray, sql } from "drizzle-orm";
+
+export interface AIMessageUsageRow {
+  user_uuid: string;
+  role: string;
+  ai_provider: string | null;
+  ai_model: string | null;
+  token_count: number | null;
+  response_time_ms: number | null;
+  // metadata.usage: the input/output token split recorded with newer answers
+  usage: any;
+  error_info: any;
+}
+
+// Answers and recorded failures since startTime; user messages and tool calls carry no usage.
+// Only the columns the usage report reads are fetched, message content stays in the database.
+export async function getAIMessageUsageSince(
+  startTime: string
+): Promise<AIMessageUsageRow[]> {
+  const data = await db()
+    .select({
+      user_uuid: sql<string>`${ai_messages.user_uuid}`,
+      role: sql<string>`${ai_messages.role}`,
+      ai_provider: sql<string | null>`${ai_messages.ai_provider}`,
+      ai_model: sql<string | null>`${ai_messages.ai_model}`,
+      token_count: sql<number | null>`${ai_messages.token_count}`,
+      response_time_ms: sql<number | null>`${ai_messages.response_time_ms}`,
+      usage: sql<any>`${ai_messages.metadata}->'usage'`,
+      error_info: sql<any>`${ai_messages.error_info}`,
+    })
+    .from(ai_messages)
+    .where(
+      and(
+        gte(ai_messages.created_at, new Date(startTime)),
+        inArray(ai_messages.role, ["assistant", "system"])
+      )
+    );
+
+  return data;
+}
+
+// Credits spent per user on the given transaction types since startTime
+export async function getCreditsSpentByUser(
+  startTime: string,
+  trans_types: string[]
+): Promise<Map<string, number>> {
+  const data = await db()
+    .select()
+    .from(credits)
+    .where(
+      and(
+        gte(credits.created_at, new Date(startTime)),
+        inArray(credits.trans_type, trans_types)
+      )
+    );
+
+  const spentMap = new Map<string, number>();
+  data.forEach((item) => {
+    // Charges are stored as negative credits
+    spentMap.set(item.user_uuid, (spentMap.get(item.user_uuid) || 0) - item.credits);
+  });
+
+  return spentMap;
+}
+
+// Tokens a user has spent on AI on a UTC day (YYYY-MM-DD)
+export async function getAIDailyTokens(
+  user_uuid: string,
+  usage_date: string
+): Promise<number> {
+  const [data] = await db()
+    .select()
+    .from(ai_daily_usage)
+    .where(
+      and(
+        eq(ai_daily_usage.user_uuid, user_uuid),
+        eq(ai_daily_usage.usage_date, usage_date)
+      )
+    )
+    .limit(1);
+
+  return data?.tokens || 0;
+}
+
+// Add one request's tokens to the user's daily total
+export async function increaseAIDailyUsage(
+  user_uuid: string,
+  usage_date: string,
+  tokens: number
+) {
+  const increment = () =>
+    db()
+      .update(ai_daily_usage)
+      .set({
+        tokens: sql`${ai_daily_usage.tokens} + ${tokens}`,
+        requests: sql`${ai_daily_usage.requests} + 1`,
+        updated_at: new Date(),
+      })
+      .where(
+        and(
+          eq(ai_daily_usage.user_uuid, user_uuid),
+          eq(ai_daily_usage.usage_date, usage_date)
+        )
+      )
+      .returning();
+
+  const updated = await increment();
+  if (updated.length > 0) {
+    return;
+  }
+
+  const inserted = await db()
+    .insert(ai_daily_usage)
+    .values({
+      user_uuid,
+      usage_date,
+      tokens,
+      requests: 1,
+      updated_at: new Date(),
+    })
+    .onConflictDoNothing()
+    .returning();
+
+  // another request created the day's row first
+  if (inserted.length === 0) {
+    await increment();
+  }
+}
+
+// Tokens in a rate limit bucket as of now: it refills at per_minute up to burst
+function refilledTokens(burst: number, per_minute: number, now: Date) {
+  const elapsed = sql`greatest(0, extract(epoch from (${now.toISOString()}::timestamptz - ${ai_rate_limit_buckets.updated_at})))`;
+
+  return sql<number>`least(${burst}, ${ai_rate_limit_buckets.tokens} + ${elapsed} / 60 * ${per_minute})`;
+}
+
+// Take a token from a rate limit bucket, creating the bucket full on first use.
+// Refill and take are one conditional update, so concurrent requests on any
+// server instance cannot spend the same token.
+// Returns the tokens left, or null when the bucket holds less than one.
+export async function takeAIRateLimitToken(
+  bucket_key: string,
+  burst: number,
+  per_minute: number,
+  now: Date
+): Promise<number | null> {
+  if (burst < 1) {
+    return null;
+  }
+
+  const refilled = refilledTokens(burst, per_minute, now);
+  const take = () =>
+    db()
+      .update(ai_rate_limit_buckets)
+      .set({
+        tokens: sql`${refilled} - 1`,
+        updated_at: now,
+      })
+      .where(
+        and(
+          eq(ai_rate_limit_buckets.bucket_key, bucket_key),
+          sql`${refilled} >= 1`
+        )
+      )
+      .returning();
+
+  const [taken] = await take();
+  if (taken) {
+    return taken.tokens;
+  }
+
+  const [created] = await db()
+    .insert(ai_rate_limit_buckets)
+    .values({
+      bucket_key,
+      tokens: burst - 1,
+      updated_at: now,
+    })
+    .onConflictDoNothing()
+    .returning();
+  if (created) {
+    return created.tokens;
+  }
+
+  // another request created the bucket first, or it is empty
+  const [retaken] = await take();
+  return retaken ? retaken.tokens : null;
+}
+
+// Tokens a rate limit bucket holds as of now, without taking one
+export async function getAIRateLimitTokens(
+  bucket_key: string,
+  burst: number,
+  per_minute: number,
+  now: Date
+): Promise<number> {
+  const [data] = await db()
+    .select({ tokens: refilledTokens(burst, per_minute, now) })
+    .from(ai_rate_limit_buckets)
+    .where(eq(ai_rate_limit_buckets.bucket_key, bucket_key))
+    .limit(1);
+
+  return data ? Number(data.tokens) : burst;
+}
+
+// Put back a token taken for a request that another bucket turned away
+export async function returnAIRateLimitToken(bucket_key: string, burst: number) {
+  await db()
+    .update(ai_rate_limit_buckets)
+    .set({ tokens: sql`least(${burst}, ${ai_rate_limit_buckets.tokens} + 1)` })
+    .where(eq(ai_rate_limit_buckets.bucket_key, bucket_key));
+}
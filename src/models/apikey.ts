@@ -52,3 +52,17 @@ export async function getUserUuidByApiKey(
 
   return apikey?.user_uuid;
 }
+
+export async function getApikeyByKey(
+  apiKey: string
+): Promise<typeof apikeys.$inferSelect | undefined> {
+  const [apikey] = await db()
+    .select()
+    .from(apikeys)
+    .where(
+      and(eq(apikeys.api_key, apiKey), eq(apikeys.status, ApikeyStatus.Created))
+    )
+    .limit(1);
+
+  return apikey;
+}
@@ -1,6 +1,6 @@
-import { credits } from "@/db/schema";
+import { credits, users } from "@/db/schema";
 import { db } from "@/db";
-import { desc, eq, and, gte, asc } from "drizzle-orm";
+import { desc, eq, and, gte, asc, sql } from "drizzle-orm";
 
 export async function insertCredit(
   data: typeof credits.$inferInsert
@@ -17,6 +17,51 @@ export async function insertCredit(
   return credit;
 }
 
+// debit up to `due` credits from the user's unexpired balance and return the amount debited.
+// The balance is read and the debit written in one transaction that first locks the user's row,
+// so concurrent debits for the same user wait for each other instead of spending the same credits.
+export async function insertCappedDebit(
+  data: Omit<typeof credits.$inferInsert, "credits" | "order_no" | "expired_at">,
+  due: number
+): Promise<number> {
+  return db().transaction(async (tx) => {
+    await tx
+      .update(users)
+      .set({ updated_at: sql`${users.updated_at}` })
+      .where(eq(users.uuid, data.user_uuid));
+
+    const valid = await tx
+      .select()
+      .from(credits)
+      .where(
+        and(
+          gte(credits.expired_at, new Date()),
+          eq(credits.user_uuid, data.user_uuid)
+        )
+      )
+      .orderBy(asc(credits.expired_at));
+
+    const balance = valid.reduce((sum, credit) => sum + credit.credits, 0);
+    const amount = Math.min(due, balance);
+    if (amount <= 0) {
+      return 0;
+    }
+
+    // book the debit against the earliest-expiring grant that covers it, like decreaseCredits
+    let covered = 0;
+    const grant = valid.find((credit) => (covered += credit.credits) >= amount);
+
+    await tx.insert(credits).values({
+      ...data,
+      credits: 0 - amount,
+      order_no: grant?.order_no || "",
+      expired_at: grant?.expired_at ?? null,
+    });
+
+    return amount;
+  });
+}
+
 export async function findCreditByTransNo(
   trans_no: string
 ): Promise<typeof credits.$inferSelect | undefined> {
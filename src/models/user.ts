@@ -63,6 +63,19 @@ export async function updateUserInviteCode(
   return user;
 }
 
+export async function updateUserTimezone(
+  user_uuid: string,
+  timezone: string
+): Promise<typeof users.$inferSelect | undefined> {
+  const [user] = await db()
+    .update(users)
+    .set({ timezone, updated_at: new Date() })
+    .where(eq(users.uuid, user_uuid))
+    .returning();
+
+  return user;
+}
+
 export async function updateUserInvitedBy(
   user_uuid: string,
   invited_by: string
@@ -0,0 +1,108 @@
+/**
+ * Unit Tests for Streamed Library Exports
+ */
+
+// Queries resolve to the next queued result and are counted by kind
+const mockResults: unknown[][] = [];
+const mockCalls: string[] = [];
+
+function mockQuery(kind: string) {
+  mockCalls.push(kind);
+  const query: Record<string, unknown> = {};
+  for (const method of ['from', 'innerJoin', 'where', 'orderBy', 'limit']) {
+    query[method] = () => query;
+  }
+  query.then = (resolve: (rows: unknown[]) => unknown, reject: (error: unknown) => unknown) =>
+    Promise.resolve(mockResults.shift() || []).then(resolve, reject);
+  return query;
+}
+
+jest.mock('@/db', () => ({
+  database: {
+    select: () => mockQuery('select'),
+  },
+}));
+
+import { LibraryExportService } from '../libraryExport';
+
+const book = (id: number) => ({ id, uuid: `book-${id}`, title: `Book ${id}`, author: 'A. Author' });
+
+const membership = (bookId: number) => ({
+  item: {
+    book_uuid: `book-${bookId}`,
+    reading_status: 'read',
+    personal_rating: '4.5',
+    personal_review: null,
+    date_started: null,
+    date_completed: new Date('2024-03-01T00:00:00Z'),
+    added_at: new Date('2024-01-01T00:00:00Z'),
+    progress_percentage: 100,
+    sort_order: 0,
+    notes: null,
+  },
+  list: { uuid: 'list-1', name: 'My Library', list_type: 'default', is_default: true },
+});
+
+async function collect(chunks: AsyncIterable<string>): Promise<string> {
+  let text = '';
+  for await (const chunk of chunks) {
+    text += chunk;
+  }
+  return text;
+}
+
+beforeEach(() => {
+  mockResults.length = 0;
+  mockCalls.length = 0;
+});
+
+describe('LibraryExportService.getExportEntries', () => {
+  it('should read the library a page of books at a time', async () => {
+    const firstPage = Array.from({ length: 100 }, (_, index) => book(index + 1));
+    mockResults.push(
+      firstPage, [membership(1)], [], [],
+      [book(101)], [membership(101)], [{ book_uuid: 'book-101', uuid: 'session-1' }], []
+    );
+
+    const entries = [];
+    for await (const entry of LibraryExportService.getExportEntries('user-1')) {
+      entries.push(entry);
+    }
+
+    // A full page is followed by the next one; a short page ends the export
+    expect(mockCalls).toHaveLength(8);
+    expect(entries).toHaveLength(101);
+    expect(entries[0].memberships[0]).toMatchObject({ reading_status: 'read', personal_rating: 4.5 });
+    expect(entries[100].sessions).toEqual([{ book_uuid: 'book-101', uuid: 'session-1' }]);
+  });
+
+  it('should not query further once the client stops reading', async () => {
+    mockResults.push(Array.from({ length: 100 }, (_, index) => book(index + 1)));
+
+    const chunks = LibraryExportService.streamJson(LibraryExportService.getExportEntries('user-1'), '2024-05-01T00:00:00.000Z');
+    await chunks.next();
+    await chunks.next();
+    await chunks.return(undefined);
+
+    expect(mockCalls).toHaveLength(4);
+  });
+});
+
+describe('LibraryExportService.streamJson', () => {
+  it('should write a document the importer can parse', async () => {
+    mockResults.push([book(1), book(2)], [membership(1), membership(2)], [], []);
+
+    const text = await collect(
+      LibraryExportService.streamJson(LibraryExportService.getExportEntries('user-1'), '2024-05-01T00:00:00.000Z')
+    );
+    const parsed = JSON.parse(text);
+
+    expect(parsed).toMatchObject({ format: 'booksoflife', version: 1, exported_at: '2024-05-01T00:00:00.000Z' });
+    expect(parsed.entries.map((entry: { book: { uuid: string } }) => entry.book.uuid)).toEqual(['book-1', 'book-2']);
+  });
+
+  it('should write an empty library', async () => {
+    const text = await collect(LibraryExportService.streamJson(LibraryExportService.getExportEntries('user-1'), 'now'));
+    expect(JSON.parse(text).entries).toEqual([]);
+  });
+});
@@ -0,0 +1,332 @@
+/**
+ * Unit Tests for Goodreads and StoryGraph Library Imports
+ */
+
+// Queries resolve to the next queued result and are counted by kind
+const mockResults: unknown[][] = [];
+const mockCalls: string[] = [];
+const mockInserts: Record<string, unknown>[] = [];
+
+function mockQuery(kind: string) {
+  mockCalls.push(kind);
+  const query: Record<string, unknown> = {};
+  for (const method of ['from', 'innerJoin', 'where', 'limit', 'set', 'onConflictDoNothing', 'returning']) {
+    query[method] = () => query;
+  }
+  query.values = (values: Record<string, unknown>) => {
+    mockInserts.push(values);
+    return query;
+  };
+  query.then = (resolve: (rows: unknown[]) => unknown, reject: (error: unknown) => unknown) =>
+    Promise.resolve(mockResults.shift() || []).then(resolve, reject);
+  return query;
+}
+
+// Rows run in a transaction; the mock hands the same database to the callback
+jest.mock('@/db', () => {
+  const database = {
+    select: () => mockQuery('select'),
+    insert: () => mockQuery('insert'),
+    update: () => mockQuery('update'),
+    transaction: (run: (tx: unknown) => unknown) => run(database),
+  };
+  return { database };
+});
+jest.mock('../readingStatus', () => ({
+  ...jest.requireActual('../../lib/readingStatus'),
+  ReadingStatusService: { transition: jest.fn() },
+}));
+jest.mock('../libraryExport', () => ({
+  LibraryExportService: {
+    getPrimaryMembership: (entry: { memberships: unknown[] }) => entry.memberships[0],
+  },
+}));
+jest.mock('../books', () => ({
+  BooksService: {
+    createBook: jest.fn(),
+    addBookToUserLibrary: jest.fn(),
+    libraryListJoin: jest.fn(),
+  },
+}));
+
+import { LibraryImportService } from '../libraryImport';
+import { BooksService } from '../books';
+import { ReadingStatusService } from '../readingStatus';
+
+const GOODREADS_HEADER =
+  'Book Id,Title,Author,Author l-f,Additional Authors,ISBN,ISBN13,My Rating,Average Rating,Publisher,Binding,' +
+  'Number of Pages,Year Published,Original Publication Year,Date Read,Date Added,Bookshelves,' +
+  'Bookshelves with positions,Exclusive Shelf,My Review,Spoiler,Private Notes,Read Count,Owned Copies';
+
+const GOODREADS_CSV = [
+  GOODREADS_HEADER,
+  '4671,The Great Gatsby,F. Scott Fitzgerald,"Fitzgerald, F. Scott",,"=""0743273567""","=""9780743273565""",5,3.93,' +
+    'Scribner,Paperback,180,2004,1925,2023/01/15,2022/12/01,classics,classics (#1),read,"Loved it, truly.",,,1,0',
+  '234225,Dune,Frank Herbert,"Herbert, Frank",,"=""0441172717""","=""""",0,4.25,Ace,Mass Market Paperback,' +
+    '604,1990,1965,,2023/02/10,to-read,to-read (#3),to-read,,,,0,0',
+  '99,Untitled Draft,,,,,,,,,,,,,,2023/02/11,,,to-read,,,,0,0',
+].join('\n');
+
+const STORYGRAPH_HEADER =
+  'Title,Authors,Contributors,ISBN/UID,Format,Read Status,Date Added,Last Date Read,Dates Read,Read Count,' +
+  'Moods,Pace,Character- or Plot-Driven?,Strong Character Development?,Loveable Characters?,Diverse Characters?,' +
+  'Flawed Characters?,Star Rating,Review,Content Warnings,Content Warning Description,Tags,Owned?';
+
+const STORYGRAPH_CSV = [
+  STORYGRAPH_HEADER,
+  'Piranesi,Susanna Clarke,,9781635575637,hardcover,read,2023/02/01,2023/03/10,2023/02/20-2023/03/10,1,' +
+    'mysterious,medium,Plot,Yes,Yes,No,No,4.5,Strange and lovely.,,,,Yes',
+  'Good Omens,"Terry Pratchett, Neil Gaiman",,3f8c2a10-uid,audio,did-not-finish,2023/01/05,,,0,,,,,,,,,,,,,No',
+  'The Long Way,Becky Chambers,,,ebook,currently-reading,2023/03/01,,2023/03/02,1,,,,,,,,7,,,,,No',
+].join('\r\n');
+
+beforeEach(() => {
+  mockResults.length = 0;
+  mockCalls.length = 0;
+  mockInserts.length = 0;
+  jest.clearAllMocks();
+});
+
+describe('LibraryImportService.detectFormat', () => {
+  it('should recognise Goodreads and StoryGraph headers', () => {
+    expect(LibraryImportService.detectFormat(GOODREADS_HEADER.split(','))).toBe('goodreads');
+    expect(LibraryImportService.detectFormat(STORYGRAPH_HEADER.split(','))).toBe('storygraph');
+  });
+
+  it('should reject other CSV files', () => {
+    expect(() => LibraryImportService.detectFormat(['Name', 'Email'])).toThrow('Unrecognized import format');
+  });
+});
+
+describe('LibraryImportService.parseExport', () => {
+  describe('Goodreads', () => {
+    const { format, rows, errors } = LibraryImportService.parseExport(GOODREADS_CSV);
+
+    it('should map a read book with its rating, review and dates', () => {
+      expect(format).toBe('goodreads');
+      expect(rows[0]).toEqual({
+        row_number: 2,
+        title: 'The Great Gatsby',
+        author: 'F. Scott Fitzgerald',
+        isbn_10: '0743273567',
+        isbn_13: '9780743273565',
+        publisher: 'Scribner',
+        page_count: 180,
+        publication_year: 1925,
+        format: 'paperback',
+        goodreads_id: '4671',
+        reading_status: 'read',
+        personal_rating: 5,
+        personal_review: 'Loved it, truly.',
+        date_added: '2022-12-01T00:00:00.000Z',
+        date_completed: '2023-01-15T00:00:00.000Z',
+      });
+    });
+
+    it('should derive the ISBN-13 and treat a zero rating as unrated', () => {
+      expect(rows[1]).toMatchObject({
+        title: 'Dune',
+        isbn_10: '0441172717',
+        isbn_13: '9780441172719',
+        format: 'paperback',
+        reading_status: 'want_to_read',
+      });
+      expect(rows[1].personal_rating).toBeUndefined();
+      expect(rows[1].date_completed).toBeUndefined();
+    });
+
+    it('should report rows missing required fields', () => {
+      expect(rows).toHaveLength(2);
+      expect(errors).toEqual([
+        { row_number: 4, title: 'Untitled Draft', author: '', action: 'error', error: 'Author is missing' },
+      ]);
+    });
+
+    it('should restore text our own export guarded against formulas', () => {
+      const exported = [
+        GOODREADS_HEADER,
+        "7,'=Mc2,'@nonymous,,,,,0,,,,,,,,2023/02/11,,,to-read,'-not bad,,,0,0",
+      ].join('\n');
+
+      const [row] = LibraryImportService.parseExport(exported).rows;
+      expect(row).toMatchObject({ title: '=Mc2', author: '@nonymous', personal_review: '-not bad' });
+    });
+  });
+
+  describe('StoryGraph', () => {
+    const { format, rows, errors } = LibraryImportService.parseExport(STORYGRAPH_CSV);
+
+    it('should map a read book with its reading dates', () => {
+      expect(format).toBe('storygraph');
+      expect(rows[0]).toEqual({
+        row_number: 2,
+        title: 'Piranesi',
+        author: 'Susanna Clarke',
+        isbn_13: '9781635575637',
+        format: 'hardcover',
+        reading_status: 'read',
+        personal_rating: 4.5,
+        personal_review: 'Strange and lovely.',
+        date_added: '2023-02-01T00:00:00.000Z',
+        date_started: '2023-02-20T00:00:00.000Z',
+        date_completed: '2023-03-10T00:00:00.000Z',
+      });
+    });
+
+    it('should split co-authors and ignore identifiers that are not ISBNs', () => {
+      expect(rows[1]).toMatchObject({
+        title: 'Good Omens',
+        author: 'Terry Pratchett',
+        co_authors: 'Neil Gaiman',
+        format: 'audiobook',
+        reading_status: 'abandoned',
+      });
+      expect(rows[1].isbn_13).toBeUndefined();
+      expect(rows[1].date_completed).toBeUndefined();
+    });
+
+    it('should reject ratings outside the five star scale', () => {
+      expect(rows).toHaveLength(2);
+      expect(errors).toEqual([
+        { row_number: 4, title: 'The Long Way', author: 'Becky Chambers', action: 'error', error: 'Rating must be between 0 and 5' },
+      ]);
+    });
+  });
+
+  it('should report an export entry with an invalid session or note date as a row error', () => {
+    const entry = (sessions: unknown[], notes: unknown[] = []) => ({
+      book: { title: 'Dune', author: 'Frank Herbert' },
+      memberships: [],
+      sessions,
+      notes,
+    });
+    const json = JSON.stringify({
+      format: 'booksoflife',
+      version: 1,
+      exported_at: '2024-01-01T00:00:00.000Z',
+      entries: [
+        entry([{ session_start: '2023-03-01T20:00:00.000Z', session_end: null }]),
+        entry([{ session_start: 'yesterday evening' }]),
+        entry([], [{ content: 'note', created_at: '2023-02-30T25:00:00Z' }]),
+      ],
+    });
+
+    const { rows, errors } = LibraryImportService.parseExport(json);
+
+    expect(rows.map(row => row.row_number)).toEqual([1]);
+    expect(errors).toEqual([
+      { row_number: 2, title: 'Dune', author: 'Frank Herbert', action: 'error', error: 'sessions.0.session_start is not a valid date' },
+      { row_number: 3, title: 'Dune', author: 'Frank Herbert', action: 'error', error: 'notes.0.created_at is not a valid date' },
+    ]);
+  });
+
+  it('should refuse files over the row limit', () => {
+    const csv = [GOODREADS_HEADER, ...Array.from({ length: 5001 }, (_, i) => `${i},Book ${i},Author,,,,,0`)].join('\n');
+    expect(() => LibraryImportService.parseExport(csv)).toThrow('Import is limited to 5000 rows');
+  });
+});
+
+describe('LibraryImportService.importLibrary', () => {
+  it('should resolve repeated rows to the book created for the first one', async () => {
+    const csv = [
+      GOODREADS_HEADER,
+      '1,Dune,Frank Herbert,,,"=""0441172717""",,4,,,,,,,,2023/01/01,,,read,,,,1,0',
+      '2,DUNE,frank herbert,,,,,0,,,,,,,,2023/01/02,,,to-read,,,,0,0',
+      '3,Dune (Deluxe),Frank Herbert,,,,"=""9780441172719""",0,,,,,,,,2023/01/03,,,to-read,,,,0,0',
+    ].join('\n');
+
+    const result = await LibraryImportService.importLibrary('user-1', csv, { dryRun: true });
+
+    expect(result).toMatchObject({ format: 'goodreads', dry_run: true, books_created: 1, books_matched: 2, library_added: 1, library_updated: 2 });
+    expect(result.rows.map(row => [row.action, row.matched_by, row.library_action])).toEqual([
+      ['create', undefined, 'add'],
+      ['match', 'import_file', 'update'],
+      ['match', 'import_file', 'update'],
+    ]);
+    // the new book was looked up in the catalogue once, by ISBN-13, ISBN-10 and title
+    expect(mockCalls).toEqual(['select', 'select', 'select']);
+  });
+
+  it('should match books already in the catalogue and add them to the library', async () => {
+    const csv = [GOODREADS_HEADER, '1,Dune,Frank Herbert,,,"=""0441172717""",,4,,,,,,,,2023/01/01,,,read,,,,1,0'].join('\n');
+    // ISBN-13 lookup finds the book, the user does not have it yet
+    mockResults.push([{ uuid: 'book-dune' }], []);
+
+    const result = await LibraryImportService.importLibrary('user-1', csv, { dryRun: true });
+
+    expect(result.rows).toEqual([
+      {
+        row_number: 2,
+        title: 'Dune',
+        author: 'Frank Herbert',
+        action: 'match',
+        matched_by: 'isbn_13',
+        book_uuid: 'book-dune',
+        library_action: 'add',
+        reading_status: 'read',
+      },
+    ]);
+    expect(mockCalls).toEqual(['select', 'select']);
+  });
+
+  it('should move a book already in the library through the status machine when re-imported', async () => {
+    const csv = [GOODREADS_HEADER, '1,Dune,Frank Herbert,,,"=""0441172717""",,4,,,,,,,2023/03/05,2023/01/01,,,read,,,,1,0'].join('\n');
+    // ISBN-13 lookup finds the book, the user's library list already has it
+    mockResults.push([{ uuid: 'book-dune' }], [{ book_list_items: { id: 7 } }]);
+
+    const result = await LibraryImportService.importLibrary('user-1', csv);
+
+    expect(result).toMatchObject({ books_matched: 1, library_added: 0, library_updated: 1, errors: 0 });
+    expect(BooksService.addBookToUserLibrary).not.toHaveBeenCalled();
+    expect(ReadingStatusService.transition).toHaveBeenCalledWith('user-1', 'book-dune', 'read', {
+      dateStarted: undefined,
+      dateCompleted: new Date('2023-03-05T00:00:00.000Z'),
+    }, expect.anything());
+    // rating, review and dates are written to the library entry alone
+    expect(mockCalls).toEqual(['select', 'select', 'update']);
+  });
+
+  it('should not resolve later rows to a book whose row failed', async () => {
+    const csv = [
+      GOODREADS_HEADER,
+      '1,Dune,Frank Herbert,,,"=""0441172717""",,4,,,,,,,,2023/01/01,,,read,,,,1,0',
+      '2,Dune,Frank Herbert,,,"=""0441172717""",,0,,,,,,,,2023/01/02,,,to-read,,,,0,0',
+    ].join('\n');
+    (BooksService.createBook as jest.Mock)
+      .mockRejectedValueOnce(new Error('connection reset'))
+      .mockResolvedValueOnce({ uuid: 'book-dune' });
+    (BooksService.addBookToUserLibrary as jest.Mock).mockResolvedValueOnce({ id: 9 });
+
+    const result = await LibraryImportService.importLibrary('user-1', csv);
+
+    expect(result).toMatchObject({ books_created: 1, library_added: 1, errors: 1 });
+    expect(result.rows.map(row => [row.action, row.book_uuid])).toEqual([
+      ['error', undefined],
+      ['create', 'book-dune'],
+    ]);
+  });
+
+  it('should restore records under fresh uuids when the file reuses another user\'s uuid', async () => {
+    const json = JSON.stringify({
+      format: 'booksoflife',
+      version: 1,
+      exported_at: '2024-01-01T00:00:00.000Z',
+      entries: [{
+        book: { title: 'Dune', author: 'Frank Herbert', isbn_13: '9780441172719' },
+        memberships: [{ list_name: 'My Library', is_default: true, reading_status: 'read', progress_percentage: 100, sort_order: 0 }],
+        sessions: [{ uuid: 'session-1', session_start: '2023-03-01T20:00:00.000Z', pages_read: 40 }],
+        notes: [{ uuid: 'note-1', session_uuid: 'session-1', note_type: 'note', content: 'The spice must flow' }],
+      }],
+    });
+    // book and library entry found; the session uuid belongs to someone else, the note uuid is free
+    mockResults.push([{ uuid: 'book-dune' }], [{ book_list_items: { id: 7 } }], [], [{ user_uuid: 'user-2' }], [], []);
+
+    const result = await LibraryImportService.importLibrary('user-1', json);
+
+    expect(result).toMatchObject({ format: 'booksoflife', library_updated: 1, errors: 0 });
+    const [session, note] = mockInserts;
+    expect(session).toMatchObject({ user_uuid: 'user-1', book_uuid: 'book-dune', pages_read: 40 });
+    expect(session.uuid).not.toBe('session-1');
+    expect(note).toMatchObject({ uuid: 'note-1', user_uuid: 'user-1', session_uuid: session.uuid });
+  });
+});
@@ -0,0 +1,148 @@
+/**
+ * Unit Tests for Reading Notes
+ */
+
+import { PgDialect } from 'drizzle-orm/pg-core';
+import type { SQL } from 'drizzle-orm';
+
+// Queries resolve to the next queued result and record the conditions they were built with
+const mockResults: unknown[][] = [];
+const mockWheres: SQL[] = [];
+const mockCalls: string[] = [];
+
+function mockQuery(kind: string) {
+  mockCalls.push(kind);
+  const query: Record<string, unknown> = {};
+  for (const method of ['from', 'limit', 'orderBy', 'set', 'returning']) {
+    query[method] = () => query;
+  }
+  query.where = (condition: SQL) => {
+    mockWheres.push(condition);
+    return query;
+  };
+  query.then = (resolve: (rows: unknown[]) => unknown, reject: (error: unknown) => unknown) =>
+    Promise.resolve(mockResults.shift() || []).then(resolve, reject);
+  return query;
+}
+
+jest.mock('@/db', () => ({
+  database: {
+    select: () => mockQuery('select'),
+    update: () => mockQuery('update'),
+    delete: () => mockQuery('delete'),
+  },
+}));
+
+import { ReadingNotesService } from '../readingNotes';
+
+const note = {
+  uuid: 'note-1',
+  user_uuid: 'user-1',
+  book_uuid: 'book-1',
+  note_type: 'note',
+  content: 'The lighthouse keeper lies.',
+  tags: '["theme","sci-fi"]',
+};
+
+const render = (condition: SQL) => new PgDialect().sqlToQuery(condition);
+
+beforeEach(() => {
+  mockResults.length = 0;
+  mockWheres.length = 0;
+  mockCalls.length = 0;
+});
+
+describe('ReadingNotesService.updateNote', () => {
+  it('should update a note of the given book', async () => {
+    mockResults.push([note], [{ ...note, content: 'Edited' }]);
+
+    const updated = await ReadingNotesService.updateNote('user-1', 'book-1', 'note-1', { content: 'Edited' });
+
+    expect(updated.content).toBe('Edited');
+    expect(mockCalls).toEqual(['select', 'update']);
+  });
+
+  it('should not update a note that belongs to another book', async () => {
+    mockResults.push([note]);
+
+    await expect(ReadingNotesService.updateNote('user-1', 'book-2', 'note-1', { content: 'Edited' }))
+      .rejects.toThrow('Note not found');
+    expect(mockCalls).toEqual(['select']);
+  });
+
+  it('should report notes that do not exist', async () => {
+    await expect(ReadingNotesService.updateNote('user-1', 'book-1', 'missing', { content: 'Edited' }))
+      .rejects.toThrow('Note not found');
+  });
+
+  it('should clear optional fields set to null', async () => {
+    mockResults.push([{ ...note, chapter: 'One', position_start: 10, position_end: 40 }], [note]);
+
+    await ReadingNotesService.updateNote('user-1', 'book-1', 'note-1', { chapter: null, position_start: null, position_end: null });
+
+    expect(mockCalls).toEqual(['select', 'update']);
+  });
+
+  it('should check a moved end of a highlight against the stored start', async () => {
+    mockResults.push([{ ...note, position_start: 100, position_end: 140 }]);
+
+    await expect(ReadingNotesService.updateNote('user-1', 'book-1', 'note-1', { position_end: 60 }))
+      .rejects.toThrow('Invalid position range');
+    expect(mockCalls).toEqual(['select']);
+  });
+});
+
+describe('ReadingNotesService.createNote', () => {
+  it('should not add notes to a book outside the user\'s library', async () => {
+    await expect(ReadingNotesService.createNote('user-1', 'book-9', { note_type: 'note', content: 'Hello' }))
+      .rejects.toThrow('Book not in library');
+    expect(mockCalls).toEqual(['select']);
+  });
+});
+
+describe('ReadingNotesService.deleteNote', () => {
+  it('should delete a note of the given book', async () => {
+    mockResults.push([note]);
+
+    await ReadingNotesService.deleteNote('user-1', 'book-1', 'note-1');
+
+    expect(mockCalls).toEqual(['select', 'delete']);
+  });
+
+  it('should not delete a note that belongs to another book', async () => {
+    mockResults.push([note]);
+
+    await expect(ReadingNotesService.deleteNote('user-1', 'book-2', 'note-1')).rejects.toThrow('Note not found');
+    expect(mockCalls).toEqual(['select']);
+  });
+});
+
+describe('ReadingNotesService.getBookNotes', () => {
+  it('should filter tags by JSON containment', async () => {
+    await ReadingNotesService.getBookNotes('user-1', 'book-1', { tag: 'sci-fi' });
+
+    const { sql, params } = render(mockWheres[0]);
+    expect(sql).toContain('"reading_notes"."tags"::jsonb @> $3::jsonb');
+    expect(params).toEqual(['user-1', 'book-1', '["sci-fi"]']);
+  });
+
+  it('should escape tags rather than match them as patterns', async () => {
+    await ReadingNotesService.getBookNotes('user-1', 'book-1', { tag: '100%"' });
+
+    const { sql, params } = render(mockWheres[0]);
+    expect(sql).not.toContain('ilike');
+    expect(params[2]).toBe('["100%\\""]');
+  });
+});
+
+describe('ReadingNotesService.parseTags', () => {
+  it('should read the stored JSON array', () => {
+    expect(ReadingNotesService.parseTags(note.tags)).toEqual(['theme', 'sci-fi']);
+  });
+
+  it('should return no tags for empty or malformed values', () => {
+    expect(ReadingNotesService.parseTags(null)).toEqual([]);
+    expect(ReadingNotesService.parseTags('theme')).toEqual([]);
+    expect(ReadingNotesService.parseTags('{"tag":"theme"}')).toEqual([]);
+  });
+});
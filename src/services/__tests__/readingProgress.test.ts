@@ -0,0 +1,134 @@
+/**
+ * Unit Tests for Reading Session Progress
+ */
+
+// Queries resolve to the next queued result and record what updates set
+const mockResults: unknown[][] = [];
+const mockCalls: string[] = [];
+const mockUpdates: Record<string, unknown>[] = [];
+
+function mockQuery(kind: string) {
+  mockCalls.push(kind);
+  const query: Record<string, unknown> = {};
+  for (const method of ['from', 'where', 'orderBy', 'limit', 'returning']) {
+    query[method] = () => query;
+  }
+  query.set = (values: Record<string, unknown>) => {
+    mockUpdates.push(values);
+    return query;
+  };
+  query.then = (resolve: (rows: unknown[]) => unknown, reject: (error: unknown) => unknown) =>
+    Promise.resolve(mockResults.shift() || []).then(resolve, reject);
+  return query;
+}
+
+jest.mock('@/db', () => ({
+  database: {
+    select: () => mockQuery('select'),
+    update: () => mockQuery('update'),
+    delete: () => mockQuery('delete'),
+  },
+}));
+
+import { ReadingProgressService } from '../readingProgress';
+
+const MINUTE = 60 * 1000;
+
+// A session opened in the tracker `minutesAgo` minutes ago, last active `idleMinutes` ago
+const openSession = (minutesAgo: number, idleMinutes: number) => ({
+  uuid: 'session-1',
+  user_uuid: 'user-1',
+  book_uuid: 'book-1',
+  status: 'active',
+  session_start: new Date(Date.now() - minutesAgo * MINUTE),
+  last_activity_at: new Date(Date.now() - idleMinutes * MINUTE),
+  pause_intervals: [],
+});
+
+beforeEach(() => {
+  mockResults.length = 0;
+  mockCalls.length = 0;
+  mockUpdates.length = 0;
+  delete process.env.READING_SESSION_IDLE_MINUTES;
+});
+
+describe('Idle reading sessions', () => {
+  it('should pause a session whose open tracker reported no activity', async () => {
+    const session = openSession(45, 45);
+    mockResults.push([session], [{ ...session, status: 'paused' }]);
+
+    const current = await ReadingProgressService.getActiveSession('user-1', 'book-1');
+
+    expect(current?.status).toBe('paused');
+    expect(mockCalls).toEqual(['select', 'update']);
+    // The pause starts at the last activity, so the idle time is not counted as reading
+    expect(mockUpdates[0]).toMatchObject({
+      status: 'paused',
+      pause_intervals: [{ started_at: session.last_activity_at.toISOString(), auto: true }],
+    });
+  });
+
+  it('should keep a session active while its tracker reports activity', async () => {
+    mockResults.push([openSession(45, 10)]);
+
+    const current = await ReadingProgressService.getActiveSession('user-1', 'book-1');
+
+    expect(current?.status).toBe('active');
+    expect(mockCalls).toEqual(['select']);
+  });
+
+  it('should not record a heartbeat for a session that already went idle', async () => {
+    const session = openSession(45, 45);
+    mockResults.push([session], [{ ...session, status: 'paused' }]);
+
+    const current = await ReadingProgressService.recordSessionActivity('user-1', 'session-1');
+
+    expect(current.status).toBe('paused');
+    expect(mockUpdates).toHaveLength(1);
+    expect(mockUpdates[0]).not.toHaveProperty('last_activity_at');
+  });
+
+  it('should leave idle sessions running when the idle check is disabled', async () => {
+    process.env.READING_SESSION_IDLE_MINUTES = '0';
+    mockResults.push([openSession(45, 45)]);
+
+    const current = await ReadingProgressService.getActiveSession('user-1', 'book-1');
+
+    expect(current?.status).toBe('active');
+  });
+});
+
+describe('Deleting past sessions', () => {
+  const finishedSession = {
+    uuid: 'session-1',
+    user_uuid: 'user-1',
+    book_uuid: 'book-1',
+    status: 'completed',
+    session_start: new Date(Date.now() - 90 * MINUTE),
+    session_end: new Date(Date.now() - 60 * MINUTE),
+    end_page: 120,
+  };
+
+  it('should leave progress alone when no session with an end page remains', async () => {
+    mockResults.push([finishedSession], [], [{ uuid: 'book-1', page_count: 300 }], []);
+
+    await ReadingProgressService.deletePastSession('user-1', 'session-1');
+
+    expect(mockCalls).toEqual(['select', 'delete', 'select', 'select']);
+    expect(mockUpdates).toHaveLength(0);
+  });
+
+  it('should move progress back to the latest remaining session', async () => {
+    mockResults.push(
+      [finishedSession],
+      [],
+      [{ uuid: 'book-1', page_count: 300 }],
+      [{ ...finishedSession, uuid: 'session-0', end_page: 60 }],
+      [{ book_uuid: 'book-1' }]
+    );
+
+    await ReadingProgressService.deletePastSession('user-1', 'session-1');
+
+    expect(mockUpdates).toEqual([{ progress_percentage: 20 }]);
+  });
+});
@@ -0,0 +1,182 @@
+/**
+ * Unit Tests for Spoiler Protection
+ */
+
+import {
+  SPOILER_PLACEHOLDER,
+  SpoilerGuard,
+  SpoilerStreamGuard,
+  parseChapterNumber,
+} from '../spoilerGuard';
+
+describe('parseChapterNumber', () => {
+  it('should read digits, roman numerals and number words', () => {
+    expect(parseChapterNumber('Chapter 12')).toBe(12);
+    expect(parseChapterNumber('Chapter XII: The Storm')).toBe(12);
+    expect(parseChapterNumber('Chapter IV')).toBe(4);
+    expect(parseChapterNumber('chapter twelve')).toBe(12);
+  });
+
+  it('should read a leading number without the word chapter', () => {
+    expect(parseChapterNumber('3. The Return')).toBe(3);
+  });
+
+  it('should return undefined for titles without a number', () => {
+    expect(parseChapterNumber(undefined)).toBeUndefined();
+    expect(parseChapterNumber('')).toBeUndefined();
+    expect(parseChapterNumber('Prologue')).toBeUndefined();
+  });
+});
+
+describe('SpoilerGuard.findSpoilers', () => {
+  describe('page references', () => {
+    const position = { page: 50 };
+
+    it('should flag pages past the reader', () => {
+      expect(SpoilerGuard.findSpoilers('On page 120 she leaves him.', position)).toEqual(['mentions page 120']);
+      expect(SpoilerGuard.findSpoilers('As seen on p. 75, the house burns.', position)).toEqual(['mentions page 75']);
+    });
+
+    it('should use the end of a page range', () => {
+      expect(SpoilerGuard.findSpoilers('Pages 40-60 cover the trial.', position)).toEqual(['mentions page 60']);
+    });
+
+    it('should allow pages the reader has reached', () => {
+      expect(SpoilerGuard.findSpoilers('On page 30 she meets him.', position)).toEqual([]);
+    });
+  });
+
+  describe('chapter references', () => {
+    const position = { chapterNumber: 3 };
+
+    it('should flag chapters past the reader in any numbering', () => {
+      expect(SpoilerGuard.findSpoilers('In chapter 5 the storm hits.', position)).toEqual(['mentions chapter 5']);
+      expect(SpoilerGuard.findSpoilers('Chapter seven changes everything.', position)).toEqual(['mentions chapter 7']);
+      expect(SpoilerGuard.findSpoilers('Chapter IX is the longest.', position)).toEqual(['mentions chapter 9']);
+    });
+
+    it('should allow chapters the reader has reached', () => {
+      expect(SpoilerGuard.findSpoilers('Chapter II sets up the village.', position)).toEqual([]);
+    });
+  });
+
+  describe('progress references', () => {
+    const position = { progress: 40 };
+
+    it('should flag points past the reader', () => {
+      expect(SpoilerGuard.findSpoilers('About 75% of the way through, the twin returns.', position))
+        .toEqual(['mentions 75% through the book']);
+    });
+
+    it('should allow points the reader has reached', () => {
+      expect(SpoilerGuard.findSpoilers('Around 30 percent into the book they marry.', position)).toEqual([]);
+    });
+  });
+
+  describe('look-ahead phrases', () => {
+    const position = { page: 10 };
+
+    it('should flag phrases that point to later events', () => {
+      expect(SpoilerGuard.findSpoilers('Later in the book, Tom dies.', position))
+        .toEqual(['refers to later events ("Later in the book")']);
+    });
+
+    it('should exempt sentences declining to reveal anything', () => {
+      expect(SpoilerGuard.findSpoilers("I won't spoil the ending for you.", position)).toEqual([]);
+      expect(SpoilerGuard.findSpoilers('We can discuss the book without revealing the climax.', position)).toEqual([]);
+    });
+
+    it('should still flag page numbers in a deflection', () => {
+      expect(SpoilerGuard.findSpoilers("I won't reveal what happens on page 200.", position)).toEqual(['mentions page 200']);
+    });
+  });
+
+  it('should not flag anything once the book is finished', () => {
+    expect(SpoilerGuard.findSpoilers('Later in the book, on page 300, Tom dies.', { progress: 100 })).toEqual([]);
+    expect(SpoilerGuard.findSpoilers('On page 300 Tom dies.', { page: 320, pageCount: 320 })).toEqual([]);
+  });
+
+  it('should ignore kinds of reference the position cannot judge', () => {
+    expect(SpoilerGuard.findSpoilers('In chapter 9 on page 300 Tom dies.', {})).toEqual([]);
+  });
+});
+
+describe('SpoilerGuard.guardResponse', () => {
+  const position = { page: 50 };
+  const answer = 'Anna meets Tom early on. On page 120 she leaves him. Why do you ask?';
+
+  it('should hide offending sentences in strict mode', () => {
+    const { content, check } = SpoilerGuard.guardResponse(answer, 'strict', position);
+
+    expect(content).toBe(`Anna meets Tom early on. ${SPOILER_PLACEHOLDER} Why do you ask?`);
+    expect(check).toEqual({ mode: 'strict', flagged: true, redacted: true, reasons: ['mentions page 120'] });
+  });
+
+  it('should collapse consecutive hidden sentences into one placeholder', () => {
+    const { content } = SpoilerGuard.guardResponse(
+      'On page 120 she leaves. On page 130 she returns. That is all for now.',
+      'strict',
+      position
+    );
+
+    expect(content).toBe(`${SPOILER_PLACEHOLDER} That is all for now.`);
+  });
+
+  it('should explain itself when the whole answer is hidden', () => {
+    const { content } = SpoilerGuard.guardResponse('On page 120 she leaves him.', 'strict', position);
+
+    expect(content.startsWith(SPOILER_PLACEHOLDER)).toBe(true);
+    expect(content).toContain("I can't answer that without revealing parts of the book");
+  });
+
+  it('should only flag the answer in warn mode', () => {
+    const { content, check } = SpoilerGuard.guardResponse(answer, 'warn', position);
+
+    expect(content).toBe(answer);
+    expect(check).toEqual({ mode: 'warn', flagged: true, redacted: false, reasons: ['mentions page 120'] });
+  });
+
+  it('should not check the answer when protection is off', () => {
+    const { content, check } = SpoilerGuard.guardResponse(answer, 'off', position);
+
+    expect(content).toBe(answer);
+    expect(check).toEqual({ mode: 'off', flagged: false, redacted: false, reasons: [] });
+  });
+});
+
+describe('SpoilerStreamGuard', () => {
+  it('should hold back text until its sentence is complete in strict mode', () => {
+    const guard = new SpoilerStreamGuard('strict', { page: 50 });
+
+    expect(guard.push('Anna meets Tom. On pa')).toBe('Anna meets Tom. ');
+    expect(guard.push('ge 120 she leaves. ')).toBe(SPOILER_PLACEHOLDER);
+    expect(guard.push('The end')).toBe('');
+    expect(guard.flush()).toBe(' The end');
+    expect(guard.getResult().redacted).toBe(true);
+  });
+
+  it('should pass text straight through in warn mode', () => {
+    const guard = new SpoilerStreamGuard('warn', { page: 50 });
+
+    expect(guard.push('On pa')).toBe('On pa');
+    expect(guard.push('ge 120 she leaves. ')).toBe('ge 120 she leaves. ');
+    expect(guard.flush()).toBe('');
+    expect(guard.getResult()).toEqual({ mode: 'warn', flagged: true, redacted: false, reasons: ['mentions page 120'] });
+  });
+});
+
+describe('SpoilerGuard.resolvePosition', () => {
+  it('should fill in the page from progress and the chapter number from its title', () => {
+    expect(SpoilerGuard.resolvePosition({ readingProgress: 25, currentChapter: 'Chapter 3' }, 400)).toEqual({
+      page: 100,
+      pageCount: 400,
+      chapter: 'Chapter 3',
+      chapterNumber: 3,
+      progress: 25,
+    });
+  });
+
+  it('should fill in progress from the page', () => {
+    expect(SpoilerGuard.resolvePosition({ currentPage: 50 }, 200).progress).toBe(25);
+  });
+});
@@ -454,73 +454,126 @@ describe('AICache', () => {
     };
   });
 
-  it('should cache and retrieve response', () => {
-    cache.set(request, response);
-    const cached = cache.get(request);
+  it('should cache and retrieve response', async () => {
+    await cache.set(request, response);
+    const cached = await cache.get(request);
     
     expect(cached).toEqual(response);
   });
 
-  it('should return null for cache miss', () => {
-    const cached = cache.get(request);
+  it('should return null for cache miss', async () => {
+    const cached = await cache.get(request);
     expect(cached).toBeNull();
   });
 
-  it('should expire cached entries', (done) => {
+  it('should expire cached entries', async () => {
     const shortTtlCache = new AICache({
       ttl: 100, // 100ms
       maxSize: 10,
       enabled: true,
     });
     
-    shortTtlCache.set(request, response);
-    expect(shortTtlCache.get(request)).toEqual(response);
+    await shortTtlCache.set(request, response);
+    expect(await shortTtlCache.get(request)).toEqual(response);
     
-    setTimeout(() => {
-      expect(shortTtlCache.get(request)).toBeNull();
-      done();
-    }, 150);
+    await new Promise(resolve => setTimeout(resolve, 150));
+    expect(await shortTtlCache.get(request)).toBeNull();
   });
 
-  it('should evict oldest entries when cache is full', () => {
+  it('should evict oldest entries when cache is full', async () => {
     const smallCache = new AICache({
       ttl: 5000,
       maxSize: 2,
       enabled: true,
     });
     
-    const request1 = { ...request, messages: [{ role: 'user', content: 'Message 1' }] };
-    const request2 = { ...request, messages: [{ role: 'user', content: 'Message 2' }] };
-    const request3 = { ...request, messages: [{ role: 'user', content: 'Message 3' }] };
+    const request1: AIRequest = { ...request, messages: [{ role: 'user', content: 'Message 1' }] };
+    const request2: AIRequest = { ...request, messages: [{ role: 'user', content: 'Message 2' }] };
+    const request3: AIRequest = { ...request, messages: [{ role: 'user', content: 'Message 3' }] };
     
-    smallCache.set(request1, response);
-    smallCache.set(request2, response);
-    smallCache.set(request3, response); // Should evict request1
+    await smallCache.set(request1, response);
+    await smallCache.set(request2, response);
+    await smallCache.set(request3, response); // Should evict request1
     
-    expect(smallCache.get(request1)).toBeNull();
-    expect(smallCache.get(request2)).toEqual(response);
-    expect(smallCache.get(request3)).toEqual(response);
+    expect(await smallCache.get(request1)).toBeNull();
+    expect(await smallCache.get(request2)).toEqual(response);
+    expect(await smallCache.get(request3)).toEqual(response);
+    expect(smallCache.getStats().evictions).toBe(1);
   });
 
-  it('should not cache when disabled', () => {
+  it('should not cache when disabled', async () => {
     const disabledCache = new AICache({
       ttl: 5000,
       maxSize: 10,
       enabled: false,
     });
     
-    disabledCache.set(request, response);
-    const cached = disabledCache.get(request);
+    await disabledCache.set(request, response);
+    const cached = await disabledCache.get(request);
     
     expect(cached).toBeNull();
   });
 
-  it('should clear all cache entries', () => {
-    cache.set(request, response);
-    expect(cache.get(request)).toEqual(response);
+  it('should clear all cache entries', async () => {
+    await cache.set(request, response);
+    expect(await cache.get(request)).toEqual(response);
     
-    cache.clear();
-    expect(cache.get(request)).toBeNull();
+    await cache.clear();
+    expect(await cache.get(request)).toBeNull();
+  });
+
+  it('should track hit rate', async () => {
+    await cache.get(request);
+    await cache.set(request, response);
+    await cache.get(request);
+    await cache.get(request);
+
+    const stats = cache.getStats();
+    expect(stats.hits).toBe(2);
+    expect(stats.misses).toBe(1);
+    expect(stats.hitRate).toBeCloseTo(2 / 3);
+    expect(stats.size).toBe(1);
+  });
+
+  it('should skip the cache for bypassed requests', async () => {
+    await cache.set({ ...request, cache: { bypass: true } }, response);
+    expect(await cache.get(request)).toBeNull();
+
+    await cache.set(request, response);
+    expect(await cache.get({ ...request, cache: { bypass: true } })).toBeNull();
+  });
+
+  it('should invalidate entries by tag', async () => {
+    const otherRequest: AIRequest = { ...request, messages: [{ role: 'user', content: 'Other book' }] };
+
+    await cache.set({ ...request, cache: { tags: ['book:1'] } }, response);
+    await cache.set({ ...otherRequest, cache: { tags: ['book:2'] } }, response);
+
+    expect(await cache.invalidateTags(['book:1'])).toBe(1);
+    expect(await cache.get(request)).toBeNull();
+    expect(await cache.get(otherRequest)).toEqual(response);
+    expect(cache.getStats().invalidations).toBe(1);
+  });
+
+  it('should treat backend failures as misses', async () => {
+    const failingCache = new AICache(
+      { ttl: 5000, maxSize: 10, enabled: true },
+      {
+        type: 'redis',
+        get: jest.fn().mockRejectedValue(new Error('unavailable')),
+        set: jest.fn().mockRejectedValue(new Error('unavailable')),
+        invalidateTags: jest.fn(),
+        clear: jest.fn(),
+        size: jest.fn(),
+      }
+    );
+    const warn = jest.spyOn(console, 'warn').mockImplementation(() => {});
+
+    await failingCache.set(request, response);
+    expect(await failingCache.get(request)).toBeNull();
+    expect(failingCache.getStats().errors).toBe(2);
+
+    warn.mockRestore();
   });
 });
 
@@ -0,0 +1,496 @@
+/**
+ * Unit Tests for Function Calling
+ *
+ * Tests request mapping, response parsing and streamed function call
+ * deltas for every provider adapter, plus scripted calls in the mock adapter
+ */
+
+import {
+  AIProvider,
+  AIRequest,
+  AIMessage,
+  AIFunction,
+  AIStreamChunk,
+  AIError,
+  ProviderConfig,
+} from '@/types/ai';
+
+import {
+  GeminiAdapter,
+  DeepSeekAdapter,
+  QwenAdapter,
+  KimiAdapter,
+  MockAIAdapter,
+} from '../providers';
+import { BaseAIAdapter, FunctionCallAccumulator } from '../base';
+
+// Mock fetch globally
+global.fetch = jest.fn();
+
+const searchNotes: AIFunction = {
+  name: 'search_notes',
+  description: 'Search the reader\'s notes',
+  parameters: {
+    type: 'object',
+    properties: {
+      query: { type: 'string' },
+    },
+    required: ['query'],
+  },
+};
+
+// Gemini rejects additionalProperties, so the adapter has to strip it
+const strictSearchNotesParameters: AIFunction['parameters'] & { additionalProperties: boolean } = {
+  ...searchNotes.parameters,
+  additionalProperties: false,
+};
+
+// A completed round trip: the model called search_notes and the result was sent back
+const toolConversation: AIMessage[] = [
+  { role: 'user', content: 'What did I note about the spice?' },
+  {
+    role: 'assistant',
+    content: '',
+    functionCall: { id: 'call_abc', name: 'search_notes', arguments: { query: 'spice' } },
+  },
+  {
+    role: 'function',
+    content: '{"notes":["The spice must flow"]}',
+    functionCall: { id: 'call_abc', name: 'search_notes', arguments: { query: 'spice' } },
+  },
+];
+
+function createConfig(provider: AIProvider): ProviderConfig {
+  return {
+    provider,
+    apiKey: `test-${provider}-key`,
+    timeout: 30000,
+    rateLimit: 60,
+    enabled: true,
+    priority: 1,
+    models: [],
+  };
+}
+
+async function createAdapter<T extends BaseAIAdapter>(
+  AdapterClass: new () => T,
+  provider: AIProvider
+): Promise<T> {
+  // Validation passes and model listing falls back to the default models
+  (fetch as jest.Mock).mockResolvedValue({
+    ok: true,
+    status: 200,
+    json: () => Promise.resolve({}),
+  });
+
+  const adapter = new AdapterClass();
+  await adapter.initialize(createConfig(provider));
+  (fetch as jest.Mock).mockReset();
+  return adapter;
+}
+
+function mockJsonResponse(body: any) {
+  (fetch as jest.Mock).mockResolvedValueOnce({
+    ok: true,
+    status: 200,
+    json: () => Promise.resolve(body),
+  });
+}
+
+function mockStreamResponse(events: any[]) {
+  const stream = new ReadableStream({
+    start(controller) {
+      for (const event of events) {
+        controller.enqueue(new TextEncoder().encode(`data: ${JSON.stringify(event)}\n\n`));
+      }
+      controller.enqueue(new TextEncoder().encode('data: [DONE]\n\n'));
+      controller.close();
+    },
+  });
+
+  (fetch as jest.Mock).mockResolvedValueOnce({
+    ok: true,
+    status: 200,
+    body: stream,
+  });
+}
+
+function getSentBody(): any {
+  const [, init] = (fetch as jest.Mock).mock.calls[0];
+  return JSON.parse(init.body);
+}
+
+async function collect(stream: AsyncGenerator<AIStreamChunk, void, unknown>): Promise<AIStreamChunk[]> {
+  const chunks: AIStreamChunk[] = [];
+  for await (const chunk of stream) {
+    chunks.push(chunk);
+  }
+  return chunks;
+}
+
+describe('Function Calling', () => {
+  beforeEach(() => {
+    (fetch as jest.Mock).mockReset();
+  });
+
+  describe.each([
+    { name: 'DeepSeek', provider: 'deepseek' as AIProvider, adapter: DeepSeekAdapter },
+    { name: 'Kimi', provider: 'kimi' as AIProvider, adapter: KimiAdapter },
+  ])('$name Adapter', ({ provider, adapter: AdapterClass }) => {
+    let adapter: any;
+
+    beforeEach(async () => {
+      adapter = await createAdapter<BaseAIAdapter>(AdapterClass, provider);
+    });
+
+    it('should send tools and tool results in OpenAI format', async () => {
+      mockJsonResponse({
+        model: 'test-model',
+        choices: [{ index: 0, message: { role: 'assistant', content: 'You noted it must flow.' }, finish_reason: 'stop' }],
+        usage: { prompt_tokens: 10, completion_tokens: 5, total_tokens: 15 },
+      });
+
+      await adapter.request({ messages: toolConversation, functions: [searchNotes] });
+
+      const body = getSentBody();
+      expect(body.tools).toEqual([{ type: 'function', function: searchNotes }]);
+      expect(body.tool_choice).toBe('auto');
+      expect(body.messages[1].tool_calls[0]).toEqual({
+        id: 'call_abc',
+        type: 'function',
+        function: { name: 'search_notes', arguments: '{"query":"spice"}' },
+      });
+      expect(body.messages[2]).toEqual({
+        role: 'tool',
+        tool_call_id: 'call_abc',
+        name: 'search_notes',
+        content: '{"notes":["The spice must flow"]}',
+      });
+    });
+
+    it('should force a specific function', async () => {
+      mockJsonResponse({
+        model: 'test-model',
+        choices: [{ index: 0, message: { role: 'assistant', content: '' }, finish_reason: 'stop' }],
+        usage: { prompt_tokens: 10, completion_tokens: 5, total_tokens: 15 },
+      });
+
+      await adapter.request({
+        messages: [{ role: 'user', content: 'Find my notes' }],
+        functions: [searchNotes],
+        functionCall: { name: 'search_notes' },
+      });
+
+      expect(getSentBody().tool_choice).toEqual({ type: 'function', function: { name: 'search_notes' } });
+    });
+
+    it('should parse tool calls from the response', async () => {
+      mockJsonResponse({
+        model: 'test-model',
+        choices: [{
+          index: 0,
+          message: {
+            role: 'assistant',
+            content: null,
+            tool_calls: [{ id: 'call_1', type: 'function', function: { name: 'search_notes', arguments: '{"query":"Paul"}' } }],
+          },
+          finish_reason: 'tool_calls',
+        }],
+        usage: { prompt_tokens: 10, completion_tokens: 5, total_tokens: 15 },
+      });
+
+      const response = await adapter.request({
+        messages: [{ role: 'user', content: 'Notes about Paul?' }],
+        functions: [searchNotes],
+      });
+
+      expect(response.metadata.finishReason).toBe('function_call');
+      expect(response.metadata.functionCall).toEqual({ id: 'call_1', name: 'search_notes', arguments: { query: 'Paul' } });
+      expect(response.metadata.functionCalls).toHaveLength(1);
+    });
+
+    it('should assemble streamed tool call deltas', async () => {
+      mockStreamResponse([
+        { model: 'test-model', choices: [{ index: 0, delta: { tool_calls: [{ index: 0, id: 'call_1', type: 'function', function: { name: 'search_notes', arguments: '{"qu' } }] } }] },
+        { model: 'test-model', choices: [{ index: 0, delta: { tool_calls: [{ index: 0, function: { arguments: 'ery":"Paul"}' } }] } }] },
+        { model: 'test-model', choices: [{ index: 0, delta: {}, finish_reason: 'tool_calls' }] },
+      ]);
+
+      const chunks = await collect(adapter.streamRequest({
+        messages: [{ role: 'user', content: 'Notes about Paul?' }],
+        functions: [searchNotes],
+      }));
+
+      expect(chunks[0].functionCallDeltas).toEqual([{ index: 0, id: 'call_1', name: 'search_notes', arguments: '{"qu' }]);
+      const last = chunks[chunks.length - 1];
+      expect(last.done).toBe(true);
+      expect(last.finishReason).toBe('function_call');
+      expect(last.functionCalls).toEqual([{ id: 'call_1', name: 'search_notes', arguments: { query: 'Paul' } }]);
+    });
+
+    it('should reject invalid function arguments', async () => {
+      mockJsonResponse({
+        model: 'test-model',
+        choices: [{
+          index: 0,
+          message: {
+            role: 'assistant',
+            content: null,
+            tool_calls: [{ id: 'call_1', type: 'function', function: { name: 'search_notes', arguments: '{"query":' } }],
+          },
+          finish_reason: 'tool_calls',
+        }],
+        usage: { prompt_tokens: 10, completion_tokens: 5, total_tokens: 15 },
+      });
+
+      await expect(adapter.request({
+        messages: [{ role: 'user', content: 'Notes?' }],
+        functions: [searchNotes],
+      })).rejects.toMatchObject({ code: 'INVALID_FUNCTION_CALL' });
+    });
+  });
+
+  describe('Qwen Adapter', () => {
+    let adapter: QwenAdapter;
+
+    beforeEach(async () => {
+      adapter = await createAdapter(QwenAdapter, 'qwen');
+    });
+
+    it('should request the message result format with tools', async () => {
+      mockJsonResponse({
+        status_code: 200,
+        output: {
+          choices: [{
+            finish_reason: 'tool_calls',
+            message: {
+              role: 'assistant',
+              content: '',
+              tool_calls: [{ id: 'call_q', type: 'function', function: { name: 'search_notes', arguments: '{"query":"Chani"}' } }],
+            },
+          }],
+        },
+        usage: { input_tokens: 10, output_tokens: 5, total_tokens: 15 },
+      });
+
+      const response = await adapter.request({ messages: toolConversation, functions: [searchNotes] });
+
+      const body = getSentBody();
+      expect(body.parameters.result_format).toBe('message');
+      expect(body.parameters.tools[0].function.name).toBe('search_notes');
+      expect(body.input.messages[2].role).toBe('tool');
+      expect(response.metadata.functionCall).toEqual({ id: 'call_q', name: 'search_notes', arguments: { query: 'Chani' } });
+    });
+
+    it('should keep the text result format without tools', async () => {
+      mockJsonResponse({
+        status_code: 200,
+        output: { text: 'Plain answer', finish_reason: 'stop' },
+        usage: { input_tokens: 10, output_tokens: 5, total_tokens: 15 },
+      });
+
+      const response = await adapter.request({ messages: [{ role: 'user', content: 'Hello' }] });
+
+      expect(getSentBody().parameters.result_format).toBeUndefined();
+      expect(response.content).toBe('Plain answer');
+      expect(response.metadata.functionCalls).toBeUndefined();
+    });
+
+    it('should treat a "null" finish reason as not done while streaming', async () => {
+      mockStreamResponse([
+        { output: { choices: [{ finish_reason: 'null', message: { role: 'assistant', content: '', tool_calls: [{ index: 0, id: 'call_q', function: { name: 'search_notes', arguments: '{"query":' } }] } }] } },
+        { output: { choices: [{ finish_reason: 'null', message: { role: 'assistant', content: '', tool_calls: [{ index: 0, function: { arguments: '"Chani"}' } }] } }] } },
+        { output: { choices: [{ finish_reason: 'tool_calls', message: { role: 'assistant', content: '' } }] }, usage: { input_tokens: 10, output_tokens: 5, total_tokens: 15 } },
+      ]);
+
+      const chunks = await collect(adapter.streamRequest({
+        messages: [{ role: 'user', content: 'Notes about Chani?' }],
+        functions: [searchNotes],
+      }));
+
+      expect(chunks.map(chunk => chunk.done)).toEqual([false, false, true]);
+      expect(chunks[2].functionCalls).toEqual([{ id: 'call_q', name: 'search_notes', arguments: { query: 'Chani' } }]);
+    });
+  });
+
+  describe('Gemini Adapter', () => {
+    let adapter: GeminiAdapter;
+
+    beforeEach(async () => {
+      adapter = await createAdapter(GeminiAdapter, 'gemini');
+    });
+
+    it('should send function declarations and function responses', async () => {
+      mockJsonResponse({
+        candidates: [{ content: { role: 'model', parts: [{ text: 'It must flow.' }] }, finishReason: 'STOP', index: 0 }],
+      });
+
+      await adapter.request({
+        messages: toolConversation,
+        functions: [{ ...searchNotes, parameters: strictSearchNotesParameters }],
+        functionCall: 'required',
+      });
+
+      const body = getSentBody();
+      expect(body.tools[0].functionDeclarations[0].parameters).not.toHaveProperty('additionalProperties');
+      expect(body.toolConfig).toEqual({ functionCallingConfig: { mode: 'ANY' } });
+      expect(body.contents[1]).toEqual({
+        role: 'model',
+        parts: [{ functionCall: { name: 'search_notes', args: { query: 'spice' } } }],
+      });
+      expect(body.contents[2]).toEqual({
+        role: 'user',
+        parts: [{ functionResponse: { name: 'search_notes', response: { notes: ['The spice must flow'] } } }],
+      });
+    });
+
+    it('should parse function call parts', async () => {
+      mockJsonResponse({
+        candidates: [{
+          content: {
+            role: 'model',
+            parts: [
+              { functionCall: { name: 'search_notes', args: { query: 'Leto' } } },
+              { functionCall: { name: 'search_notes', args: { query: 'Jessica' } } },
+            ],
+          },
+          finishReason: 'STOP',
+          index: 0,
+        }],
+      });
+
+      const response = await adapter.request({
+        messages: [{ role: 'user', content: 'Notes about the Atreides?' }],
+        functions: [searchNotes],
+      });
+
+      expect(response.metadata.finishReason).toBe('function_call');
+      expect(response.metadata.functionCalls).toEqual([
+        { id: 'call_0', name: 'search_notes', arguments: { query: 'Leto' } },
+        { id: 'call_1', name: 'search_notes', arguments: { query: 'Jessica' } },
+      ]);
+    });
+
+    it('should stream function calls as whole deltas', async () => {
+      mockStreamResponse([
+        { candidates: [{ content: { role: 'model', parts: [{ functionCall: { name: 'search_notes', args: { query: 'Leto' } } }] }, index: 0 }] },
+        { candidates: [{ content: { role: 'model', parts: [{ text: '' }] }, finishReason: 'STOP', index: 0 }] },
+      ]);
+
+      const chunks = await collect(adapter.streamRequest({
+        messages: [{ role: 'user', content: 'Notes about Leto?' }],
+        functions: [searchNotes],
+      }));
+
+      expect((fetch as jest.Mock).mock.calls[0][0]).toContain('alt=sse');
+      expect(chunks[chunks.length - 1].functionCalls).toEqual([
+        { id: 'call_0', name: 'search_notes', arguments: { query: 'Leto' } },
+      ]);
+    });
+  });
+
+  describe('Mock Adapter', () => {
+    let adapter: MockAIAdapter;
+
+    beforeEach(async () => {
+      adapter = new MockAIAdapter();
+      await adapter.initialize(createConfig('mock'));
+    });
+
+    it('should return scripted function calls in order', async () => {
+      adapter.script(
+        { functionCalls: [{ name: 'search_notes', arguments: { query: 'spice' } }] },
+        { content: 'You noted that the spice must flow.' }
+      );
+
+      const request: AIRequest = { messages: [{ role: 'user', content: 'Spice?' }], functions: [searchNotes] };
+      const first = await adapter.request(request);
+      const second = await adapter.request({ ...request, messages: toolConversation });
+
+      expect(first.metadata.finishReason).toBe('function_call');
+      expect(first.metadata.functionCall).toMatchObject({ name: 'search_notes', arguments: { query: 'spice' } });
+      expect(first.metadata.functionCall?.id).toBeDefined();
+      expect(second.content).toBe('You noted that the spice must flow.');
+      expect(adapter.receivedRequests[1].messages).toBe(toolConversation);
+    });
+
+    it('should stream scripted function calls in fragments', async () => {
+      adapter.script({ functionCalls: [{ id: 'call_m', name: 'search_notes', arguments: { query: 'Dune' } }] });
+
+      const chunks = await collect(adapter.streamRequest({
+        messages: [{ role: 'user', content: 'Dune notes?' }],
+        functions: [searchNotes],
+      }));
+
+      expect(chunks.filter(chunk => chunk.functionCallDeltas)).toHaveLength(2);
+      expect(chunks[chunks.length - 1].functionCalls).toEqual([
+        { id: 'call_m', name: 'search_notes', arguments: { query: 'Dune' } },
+      ]);
+    });
+
+    it('should reject scripted calls to functions the request did not offer', async () => {
+      adapter.script({ functionCalls: [{ name: 'delete_notes', arguments: {} }] });
+
+      await expect(adapter.request({
+        messages: [{ role: 'user', content: 'Spice?' }],
+        functions: [searchNotes],
+      })).rejects.toThrow(AIError);
+    });
+  });
+
+  describe('Request Validation', () => {
+    let adapter: MockAIAdapter;
+
+    beforeEach(async () => {
+      adapter = new MockAIAdapter();
+      await adapter.initialize(createConfig('mock'));
+    });
+
+    it('should reject invalid function names', async () => {
+      await expect(adapter.request({
+        messages: [{ role: 'user', content: 'Hi' }],
+        functions: [{ ...searchNotes, name: 'search notes' }],
+      })).rejects.toThrow('Invalid function name');
+    });
+
+    it('should reject duplicate function names', async () => {
+      await expect(adapter.request({
+        messages: [{ role: 'user', content: 'Hi' }],
+        functions: [searchNotes, searchNotes],
+      })).rejects.toThrow('Duplicate function name');
+    });
+
+    it('should reject forcing a function that was not offered', async () => {
+      await expect(adapter.request({
+        messages: [{ role: 'user', content: 'Hi' }],
+        functions: [searchNotes],
+        functionCall: { name: 'delete_notes' },
+      })).rejects.toThrow('Unknown function requested');
+    });
+  });
+
+  describe('FunctionCallAccumulator', () => {
+    it('should merge interleaved deltas by index', () => {
+      const accumulator = new FunctionCallAccumulator('deepseek');
+
+      accumulator.add([
+        { index: 1, id: 'b', name: 'search_notes', arguments: '{"query"' },
+        { index: 0, id: 'a', name: 'search_notes', arguments: '{"query":"x"}' },
+      ]);
+      accumulator.add([{ index: 1, arguments: ':"y"}' }]);
+
+      expect(accumulator.size).toBe(2);
+      expect(accumulator.complete()).toEqual([
+        { id: 'a', name: 'search_notes', arguments: { query: 'x' } },
+        { id: 'b', name: 'search_notes', arguments: { query: 'y' } },
+      ]);
+    });
+
+    it('should treat empty arguments as no arguments', () => {
+      const accumulator = new FunctionCallAccumulator('gemini');
+      accumulator.add([{ index: 0, name: 'list_books' }]);
+
+      expect(accumulator.complete()).toEqual([{ id: 'call_0', name: 'list_books', arguments: {} }]);
+    });
+  });
+});
@@ -16,13 +16,13 @@ import {
   NetworkError,
   TimeoutError,
   AuthenticationError,
-  AIServiceConfig,
+  AIEmbeddingRequest,
+  AIEmbeddingResponse,
 } from '@/types/ai';
 
-import { AIOrchestrator, OrchestratorConfig } from '../orchestrator';
+import { AIOrchestrator, OrchestratorConfig, OrchestrationResult } from '../orchestrator';
 import { AIRouter } from '../router';
-import { CircuitBreaker, AICache } from '../base';
-import { createAdapters } from '../providers';
+import { CircuitBreaker } from '../base';
 
 // Enhanced mock adapter for integration testing
 class IntegrationMockAdapter implements IAIAdapter {
@@ -77,6 +77,7 @@ class IntegrationMockAdapter implements IAIAdapter {
     this.rateLimitHits = 0;
   }
 
+  // Pattern entries apply to requests in order, starting with the first
   private shouldFail(): string | null {
     if (this.failurePattern.length === 0) return null;
     
@@ -85,10 +86,24 @@ class IntegrationMockAdapter implements IAIAdapter {
   }
 
   private getLatency(): number {
-    if (this.latencyPattern.length === 0) return 100;
+    if (this.latencyPattern.length === 0) return 10;
     return this.latencyPattern[this.requestCount % this.latencyPattern.length];
   }
 
+  private createFailure(failureType: string): AIError {
+    switch (failureType) {
+      case 'network':
+        return new NetworkError(this.provider);
+      case 'timeout':
+        return new TimeoutError(this.provider, 30000);
+      case 'auth':
+        return new AuthenticationError(this.provider);
+      case 'generic':
+      default:
+        return new AIError('Mock failure', this.provider, 'MOCK_ERROR', true);
+    }
+  }
+
   async initialize(): Promise<void> {
     await new Promise(resolve => setTimeout(resolve, 10));
   }
@@ -105,6 +120,7 @@ class IntegrationMockAdapter implements IAIAdapter {
     const latency = this.getLatency();
     await new Promise(resolve => setTimeout(resolve, latency));
     
+    const failureType = this.shouldFail();
     this.requestCount++;
     
     // Check rate limiting
@@ -115,29 +131,21 @@ class IntegrationMockAdapter implements IAIAdapter {
     }
     
     // Check failure pattern
-    const failureType = this.shouldFail();
     if (failureType) {
-      switch (failureType) {
-        case 'network':
-          throw new NetworkError(this.provider);
-        case 'timeout':
-          throw new TimeoutError(this.provider, 30000);
-        case 'auth':
-          throw new AuthenticationError(this.provider);
-        case 'generic':
-        default:
-          throw new AIError('Mock failure', this.provider, 'MOCK_ERROR', true);
-      }
+      throw this.createFailure(failureType);
     }
 
+    const inputTokens = 10 + Math.floor(Math.random() * 10);
+    const outputTokens = 15 + Math.floor(Math.random() * 15);
+
     return {
       content: `Response from ${this.provider} (request #${this.requestCount})`,
       model: request.model || this.models[0].id,
       provider: this.provider,
       usage: {
-        inputTokens: 10 + Math.floor(Math.random() * 10),
-        outputTokens: 15 + Math.floor(Math.random() * 15),
-        totalTokens: 0,
+        inputTokens,
+        outputTokens,
+        totalTokens: inputTokens + outputTokens,
       },
       metadata: {
         duration: latency,
@@ -149,11 +157,11 @@ class IntegrationMockAdapter implements IAIAdapter {
 
   async* streamRequest(request: AIRequest): AsyncGenerator<any, void, unknown> {
     const latency = this.getLatency();
+    const failureType = this.shouldFail();
     this.requestCount++;
     
-    const failureType = this.shouldFail();
-    if (failureType && failureType !== 'success') {
-      throw new AIError(`Stream failure: ${failureType}`, this.provider, 'STREAM_ERROR', true);
+    if (failureType) {
+      throw this.createFailure(failureType);
     }
 
     const chunks = [
@@ -182,6 +190,14 @@ class IntegrationMockAdapter implements IAIAdapter {
     }
   }
 
+  supportsEmbeddings(): boolean {
+    return false;
+  }
+
+  async embed(_request: AIEmbeddingRequest): Promise<AIEmbeddingResponse> {
+    throw new AIError(`${this.provider} does not support embeddings`, this.provider, 'EMBEDDINGS_NOT_SUPPORTED');
+  }
+
   async getRateLimitStatus() {
     return {
       remaining: Math.max(0, this.maxRateLimitHits - this.rateLimitHits),
@@ -205,6 +221,21 @@ describe('AI Service Integration Tests', () => {
   let mockAdapters: Map<AIProvider, IntegrationMockAdapter>;
   let config: OrchestratorConfig;
 
+  // Without any failures the router ranks gemini first, then qwen and kimi
+  // (balanced cost), then deepseek
+
+  const message = (content: string): AIRequest => ({
+    messages: [{ role: 'user', content }],
+  });
+
+  const openCircuit = async (provider: AIProvider) => {
+    const circuitBreaker = orchestrator['circuitBreakers'].get(provider)!;
+    for (let i = 0; i < config.circuitBreaker.failureThreshold; i++) {
+      await circuitBreaker.execute(() => Promise.reject(new Error('Test'))).catch(() => undefined);
+    }
+    return circuitBreaker;
+  };
+
   beforeEach(() => {
     mockAdapters = new Map([
       ['gemini', new IntegrationMockAdapter('gemini')],
@@ -248,7 +279,7 @@ describe('AI Service Integration Tests', () => {
       circuitBreaker: {
         failureThreshold: 2, // Lower threshold for testing
         recoveryTimeout: 1000, // Shorter recovery for testing
-        timeout: 5000,
+        timeout: 1000,
         monitoringPeriod: 60000,
       },
       cache: {
@@ -257,8 +288,8 @@ describe('AI Service Integration Tests', () => {
         enabled: true,
       },
       defaultTimeout: 10000,
-      maxRetries: 2,
-      retryDelay: 100,
+      maxRetries: 3,
+      retryDelay: 20,
       enableFailover: true,
       maxFailoverAttempts: 3,
       enableRequestQueuing: false,
@@ -268,7 +299,8 @@ describe('AI Service Integration Tests', () => {
 
     orchestrator = new AIOrchestrator(config);
 
-    // Inject mock adapters
+    // Inject mock adapters in place of initialize(), which would create
+    // real provider adapters and start background timers
     for (const [provider, adapter] of mockAdapters) {
       orchestrator['adapters'].set(provider, adapter);
       orchestrator['circuitBreakers'].set(provider, new CircuitBreaker(
@@ -276,42 +308,40 @@ describe('AI Service Integration Tests', () => {
         provider
       ));
     }
+    orchestrator['router'] = new AIRouter(
+      orchestrator['adapters'],
+      orchestrator['circuitBreakers'],
+      config.loadBalancingStrategy
+    );
+    orchestrator['initialized'] = true;
   });
 
   afterEach(() => {
-    // Clean up any timers or async operations
-    jest.clearAllTimers();
+    jest.restoreAllMocks();
   });
 
   describe('Failover Scenarios', () => {
     it('should failover to next provider when primary fails', async () => {
       // Set primary provider (gemini) to always fail
       mockAdapters.get('gemini')!.setFailurePattern(['network']);
-      
-      const request: AIRequest = {
-        messages: [{ role: 'user', content: 'Test failover message' }],
-      };
 
-      const response = await orchestrator.request(request);
-      
-      expect(response).toBeDefined();
-      expect(response.provider).toBe('deepseek'); // Next in priority
-      expect(response.content).toContain('deepseek');
+      const result = await orchestrator.executeRequest(message('Test failover message'));
+
+      expect(result.provider).toBe('qwen'); // Next in ranking
+      expect(result.data.content).toContain('qwen');
+      expect(result.providersAttempted).toEqual(['gemini', 'qwen']);
+      expect(result.failoverUsed).toBe(true);
     });
 
     it('should attempt multiple providers in failover chain', async () => {
       // Set first two providers to fail
       mockAdapters.get('gemini')!.setFailurePattern(['generic']);
-      mockAdapters.get('deepseek')!.setFailurePattern(['timeout']);
-      
-      const request: AIRequest = {
-        messages: [{ role: 'user', content: 'Test multi-failover message' }],
-      };
+      mockAdapters.get('qwen')!.setFailurePattern(['timeout']);
 
-      const response = await orchestrator.request(request);
-      
-      expect(response).toBeDefined();
-      expect(response.provider).toBe('qwen'); // Third in priority
+      const result = await orchestrator.executeRequest(message('Test multi-failover message'));
+
+      expect(result.provider).toBe('kimi'); // Third in ranking
+      expect(result.attempts).toBe(3);
     });
 
     it('should exhaust all providers and fail gracefully', async () => {
@@ -319,343 +349,235 @@ describe('AI Service Integration Tests', () => {
       for (const adapter of mockAdapters.values()) {
         adapter.setFailurePattern(['network']);
       }
-      
-      const request: AIRequest = {
-        messages: [{ role: 'user', content: 'Test complete failure message' }],
-      };
 
-      await expect(orchestrator.request(request)).rejects.toThrow(AIError);
+      await expect(orchestrator.executeRequest(message('Test complete failure message')))
+        .rejects.toMatchObject({ code: 'ALL_ATTEMPTS_FAILED' });
+
+      // No more providers are tried than maxRetries allows
+      const attempted = Array.from(mockAdapters.values())
+        .reduce((sum, adapter) => sum + adapter.getRequestCount(), 0);
+      expect(attempted).toBe(config.maxRetries);
     });
 
     it('should handle mixed failure types in failover chain', async () => {
-      mockAdapters.get('gemini')!.setFailurePattern(['auth']);
-      mockAdapters.get('deepseek')!.setFailurePattern(['network']);
+      mockAdapters.get('gemini')!.setFailurePattern(['network']);
       mockAdapters.get('qwen')!.setFailurePattern(['timeout']);
       // kimi should succeed
-      
-      const request: AIRequest = {
-        messages: [{ role: 'user', content: 'Test mixed failure message' }],
-      };
 
-      const response = await orchestrator.request(request);
-      
-      expect(response).toBeDefined();
-      expect(response.provider).toBe('kimi'); // Last provider should succeed
+      const result = await orchestrator.executeRequest(message('Test mixed failure message'));
+
+      expect(result.provider).toBe('kimi');
     });
   });
 
   describe('Circuit Breaker Integration', () => {
     it('should open circuit breaker after threshold failures', async () => {
-      const adapter = mockAdapters.get('gemini')!;
-      adapter.setFailurePattern(['generic']);
-      
-      const request: AIRequest = {
-        messages: [{ role: 'user', content: 'Test circuit breaker message' }],
-      };
+      mockAdapters.get('gemini')!.setFailurePattern(['generic']);
 
       // Make enough requests to open circuit breaker
-      for (let i = 0; i < 3; i++) {
-        try {
-          await orchestrator.request(request);
-        } catch (error) {
-          // Expected failures
-        }
+      for (let i = 0; i < config.circuitBreaker.failureThreshold; i++) {
+        await orchestrator.executeRequest(message(`Test circuit breaker message ${i}`));
       }
 
-      const circuitBreaker = orchestrator['circuitBreakers'].get('gemini');
-      expect(circuitBreaker?.getStatus().state).toBe('open');
+      expect(orchestrator.getCircuitBreakerStatus().gemini.state).toBe('open');
+      expect(mockAdapters.get('gemini')!.getRequestCount()).toBe(config.circuitBreaker.failureThreshold);
+
+      // Further requests no longer reach the failing provider
+      await orchestrator.executeRequest(message('Test circuit breaker message after opening'));
+      expect(mockAdapters.get('gemini')!.getRequestCount()).toBe(config.circuitBreaker.failureThreshold);
     });
 
-    it('should automatically recover after circuit breaker timeout', async (done) => {
+    it('should automatically recover after circuit breaker timeout', async () => {
       const adapter = mockAdapters.get('gemini')!;
-      
-      // First, open the circuit breaker
       adapter.setFailurePattern(['generic']);
-      
-      const request: AIRequest = {
-        messages: [{ role: 'user', content: 'Test recovery message' }],
-      };
 
       // Trigger circuit breaker opening
-      for (let i = 0; i < 3; i++) {
-        try {
-          await orchestrator.request(request);
-        } catch (error) {
-          // Expected
-        }
+      for (let i = 0; i < config.circuitBreaker.failureThreshold; i++) {
+        await orchestrator.executeRequest(message(`Test recovery message ${i}`));
       }
 
-      const circuitBreaker = orchestrator['circuitBreakers'].get('gemini');
-      expect(circuitBreaker?.getStatus().state).toBe('open');
+      const circuitBreaker = orchestrator['circuitBreakers'].get('gemini')!;
+      expect(circuitBreaker.getStatus().state).toBe('open');
 
-      // Now fix the adapter and wait for recovery
+      // Now fix the adapter and move past the recovery timeout
       adapter.setFailurePattern(['success']);
+      const now = Date.now();
+      jest.spyOn(Date, 'now').mockReturnValue(now + config.circuitBreaker.recoveryTimeout + 1);
 
-      setTimeout(async () => {
-        try {
-          const response = await orchestrator.request(request);
-          expect(response.provider).toBe('gemini'); // Should use recovered provider
-          expect(circuitBreaker?.getStatus().state).toBe('closed');
-          done();
-        } catch (error) {
-          done(error);
-        }
-      }, 1200); // Wait longer than recovery timeout
-    }, 5000);
+      expect(circuitBreaker.getStatus().state).toBe('half-open');
+
+      const result = await orchestrator.executeRequest(message('Test recovery message after timeout'));
+
+      expect(result.provider).toBe('gemini'); // Should use recovered provider
+      expect(circuitBreaker.getStatus().state).toBe('closed');
+    });
 
     it('should bypass open circuit breakers in provider selection', async () => {
-      // Open circuit breaker for gemini
-      const circuitBreaker = orchestrator['circuitBreakers'].get('gemini')!;
-      
-      // Manually open circuit
-      for (let i = 0; i < 3; i++) {
-        try {
-          await circuitBreaker.execute(() => Promise.reject(new Error('Test')));
-        } catch (error) {
-          // Expected
-        }
-      }
-      
+      const circuitBreaker = await openCircuit('gemini');
       expect(circuitBreaker.getStatus().state).toBe('open');
 
-      const request: AIRequest = {
-        messages: [{ role: 'user', content: 'Test bypass message' }],
-      };
+      const result = await orchestrator.executeRequest(message('Test bypass message'));
 
-      const response = await orchestrator.request(request);
-      
-      expect(response).toBeDefined();
-      expect(response.provider).not.toBe('gemini'); // Should skip open circuit
-      expect(response.provider).toBe('deepseek'); // Next in priority
+      expect(result.provider).toBe('qwen'); // Should skip open circuit
+      expect(result.providersAttempted).toEqual(['qwen']);
+      expect(mockAdapters.get('gemini')!.getRequestCount()).toBe(0);
     });
   });
 
-  describe('Load Balancing Strategies', () => {
-    beforeEach(() => {
-      // Reset request counts
-      for (const adapter of mockAdapters.values()) {
-        adapter.resetRequestCount();
-      }
-    });
-
-    it('should implement priority-based load balancing', async () => {
-      config.loadBalancingStrategy = 'priority';
-      orchestrator.updateConfiguration(config);
-
+  describe('Load Balancing', () => {
+    it('should keep routing to the top ranked provider while it is healthy', async () => {
       const requests = 5;
-      const responses = [];
 
       for (let i = 0; i < requests; i++) {
-        const request: AIRequest = {
-          messages: [{ role: 'user', content: `Priority test message ${i}` }],
-        };
-        
-        const response = await orchestrator.request(request);
-        responses.push(response);
+        const result = await orchestrator.executeRequest(message(`Ranking test message ${i}`));
+        expect(result.provider).toBe('gemini');
       }
 
-      // All requests should go to highest priority provider (gemini)
-      responses.forEach(response => {
-        expect(response.provider).toBe('gemini');
-      });
-      
       expect(mockAdapters.get('gemini')!.getRequestCount()).toBe(requests);
     });
 
-    it('should implement round-robin load balancing', async () => {
-      config.loadBalancingStrategy = 'round-robin';
-      orchestrator.updateConfiguration(config);
-
-      const requests = 8;
-      const responses = [];
-
-      for (let i = 0; i < requests; i++) {
-        const request: AIRequest = {
-          messages: [{ role: 'user', content: `Round-robin test message ${i}` }],
-        };
-        
-        const response = await orchestrator.request(request);
-        responses.push(response);
-      }
-
-      // Check that multiple providers were used
-      const usedProviders = new Set(responses.map(r => r.provider));
-      expect(usedProviders.size).toBeGreaterThan(1);
+    it('should route around unhealthy providers', async () => {
+      mockAdapters.get('gemini')!.setHealthy(false);
+      mockAdapters.get('qwen')!.setHealthy(false);
 
-      // Each provider should have received some requests
-      const requestCounts = Array.from(mockAdapters.entries()).map(([provider, adapter]) => ({
-        provider,
-        count: adapter.getRequestCount(),
-      }));
+      const result = await orchestrator.executeRequest(message('Unhealthy test message'));
 
-      const totalRequests = requestCounts.reduce((sum, { count }) => sum + count, 0);
-      expect(totalRequests).toBe(requests);
+      expect(result.provider).toBe('kimi');
+      expect(mockAdapters.get('gemini')!.getRequestCount()).toBe(0);
+      expect(mockAdapters.get('qwen')!.getRequestCount()).toBe(0);
     });
 
     it('should handle provider failures in load balancing', async () => {
-      config.loadBalancingStrategy = 'round-robin';
-      orchestrator.updateConfiguration(config);
-
-      // Make every other provider fail
+      // Gemini fails every other request, qwen always fails
       mockAdapters.get('gemini')!.setFailurePattern(['success', 'generic']);
       mockAdapters.get('qwen')!.setFailurePattern(['generic']);
 
       const requests = 6;
-      let successCount = 0;
+      const providers = new Set<AIProvider>();
 
       for (let i = 0; i < requests; i++) {
-        const request: AIRequest = {
-          messages: [{ role: 'user', content: `Load balance failure test ${i}` }],
-        };
-        
-        try {
-          const response = await orchestrator.request(request);
-          successCount++;
-          // Should only use working providers
-          expect(['deepseek', 'kimi', 'gemini']).toContain(response.provider);
-        } catch (error) {
-          // Some failures expected due to circuit breakers
-        }
+        const result = await orchestrator.executeRequest(message(`Load balance failure test ${i}`));
+        providers.add(result.provider);
       }
 
-      expect(successCount).toBeGreaterThan(0);
+      // Every request is served, only by working providers
+      expect(Array.from(providers).sort()).toEqual(['gemini', 'kimi']);
+      // After its first failure qwen ranks below kimi and is not tried again
+      expect(mockAdapters.get('qwen')!.getRequestCount()).toBe(1);
     });
   });
 
   describe('Rate Limiting and Retry Logic', () => {
-    it('should handle rate limiting with exponential backoff', async () => {
+    it('should fail over when a provider is rate limited', async () => {
       const adapter = mockAdapters.get('gemini')!;
       adapter.setRateLimitBehavior(2); // Allow only 2 requests before rate limiting
 
-      const request: AIRequest = {
-        messages: [{ role: 'user', content: 'Rate limit test message' }],
-      };
-
       // First two requests should succeed
-      await orchestrator.request(request);
-      await orchestrator.request(request);
+      await orchestrator.executeRequest(message('Rate limit test message 1'));
+      await orchestrator.executeRequest(message('Rate limit test message 2'));
 
       // Third request should trigger rate limiting and failover
-      const startTime = Date.now();
-      const response = await orchestrator.request(request);
-      const duration = Date.now() - startTime;
+      const result = await orchestrator.executeRequest(message('Rate limit test message 3'));
 
-      expect(response).toBeDefined();
-      expect(response.provider).not.toBe('gemini'); // Should failover
+      expect(result.provider).not.toBe('gemini');
+      expect(result.providersAttempted[0]).toBe('gemini');
     });
 
-    it('should retry transient failures with exponential backoff', async () => {
+    it('should move transient failures on to another provider after a backoff', async () => {
       const adapter = mockAdapters.get('gemini')!;
-      // Fail twice, then succeed
-      adapter.setFailurePattern(['network', 'timeout', 'success']);
+      adapter.setFailurePattern(['network']);
+      const setTimeoutSpy = jest.spyOn(global, 'setTimeout');
 
-      const request: AIRequest = {
-        messages: [{ role: 'user', content: 'Retry test message' }],
-      };
+      const result = await orchestrator.executeRequest(message('Retry test message'));
 
-      const startTime = Date.now();
-      const response = await orchestrator.request(request);
-      const duration = Date.now() - startTime;
-
-      expect(response).toBeDefined();
-      expect(response.provider).toBe('gemini');
-      expect(adapter.getRequestCount()).toBe(3); // Should have retried
-      expect(duration).toBeGreaterThan(200); // Should have some delay from retries
+      expect(result.provider).toBe('qwen');
+      expect(adapter.getRequestCount()).toBe(1); // A failed provider is not retried
+      expect(setTimeoutSpy).toHaveBeenCalledWith(expect.any(Function), config.retryDelay);
     });
 
     it('should not retry non-retryable errors', async () => {
       const adapter = mockAdapters.get('gemini')!;
       adapter.setFailurePattern(['auth']); // Non-retryable
 
-      const request: AIRequest = {
-        messages: [{ role: 'user', content: 'Non-retry test message' }],
-      };
+      await expect(orchestrator.executeRequest(message('Non-retry test message')))
+        .rejects.toMatchObject({ originalError: expect.any(AuthenticationError) });
 
-      const response = await orchestrator.request(request);
-      
-      expect(response).toBeDefined();
-      expect(response.provider).not.toBe('gemini'); // Should failover immediately
-      expect(adapter.getRequestCount()).toBe(1); // Should not retry
+      expect(adapter.getRequestCount()).toBe(1);
+      for (const provider of ['deepseek', 'qwen', 'kimi'] as AIProvider[]) {
+        expect(mockAdapters.get(provider)!.getRequestCount()).toBe(0);
+      }
     });
   });
 
   describe('Caching Integration', () => {
     it('should cache successful responses', async () => {
-      const request: AIRequest = {
-        messages: [{ role: 'user', content: 'Cache test message' }],
-      };
+      const request = message('Cache test message');
 
       // First request should hit provider
-      const response1 = await orchestrator.request(request);
-      expect(response1).toBeDefined();
+      const result1 = await orchestrator.executeRequest(request);
 
       // Second identical request should hit cache
-      const response2 = await orchestrator.request(request);
-      expect(response2).toBeDefined();
-      expect(response2.content).toBe(response1.content);
+      const result2 = await orchestrator.executeRequest(request);
+      expect(result2.data.content).toBe(result1.data.content);
+      expect(result2.data.metadata.cached).toBe(true);
 
       // Provider should only be called once
-      const adapter = mockAdapters.get(response1.provider);
-      expect(adapter?.getRequestCount()).toBe(1);
+      expect(mockAdapters.get(result1.provider)!.getRequestCount()).toBe(1);
     });
 
     it('should not cache failed requests', async () => {
-      const adapter = mockAdapters.get('gemini')!;
-      adapter.setFailurePattern(['generic', 'success']);
+      for (const adapter of mockAdapters.values()) {
+        adapter.setFailurePattern(['generic']);
+      }
 
-      const request: AIRequest = {
-        messages: [{ role: 'user', content: 'Cache failure test message' }],
-      };
+      const request = message('Cache failure test message');
 
-      // First request will fail and failover
-      const response1 = await orchestrator.request(request);
-      expect(response1.provider).not.toBe('gemini');
+      await expect(orchestrator.executeRequest(request)).rejects.toThrow(AIError);
 
-      // Second request should try gemini again (not cached)
-      const response2 = await orchestrator.request(request);
-      
-      // Gemini should be attempted again
-      expect(adapter.getRequestCount()).toBe(2);
+      // Once the providers recover the request reaches them again
+      for (const adapter of mockAdapters.values()) {
+        adapter.setFailurePattern([]);
+      }
+
+      const result = await orchestrator.executeRequest(request);
+
+      expect(result.data.metadata.cached).toBeUndefined();
+      expect(result.attempts).toBe(1);
     });
 
-    it('should respect cache TTL', async (done) => {
-      const request: AIRequest = {
-        messages: [{ role: 'user', content: 'Cache TTL test message' }],
-      };
+    it('should respect cache TTL', async () => {
+      const request = message('Cache TTL test message');
 
       // First request
-      const response1 = await orchestrator.request(request);
-      const adapter = mockAdapters.get(response1.provider)!;
+      const result1 = await orchestrator.executeRequest(request);
+      const adapter = mockAdapters.get(result1.provider)!;
       expect(adapter.getRequestCount()).toBe(1);
 
       // Immediate second request should hit cache
-      const response2 = await orchestrator.request(request);
+      await orchestrator.executeRequest(request);
       expect(adapter.getRequestCount()).toBe(1);
 
-      // Wait for cache to expire
-      setTimeout(async () => {
-        try {
-          const response3 = await orchestrator.request(request);
-          expect(adapter.getRequestCount()).toBe(2); // Should hit provider again
-          done();
-        } catch (error) {
-          done(error);
-        }
-      }, 5100); // Wait longer than TTL (5000ms)
-    }, 10000);
+      // Move past the TTL
+      const now = Date.now();
+      jest.spyOn(Date, 'now').mockReturnValue(now + config.cache.ttl + 1);
+
+      const result3 = await orchestrator.executeRequest(request);
+      expect(result3.data.metadata.cached).toBeUndefined();
+      expect(adapter.getRequestCount()).toBe(2); // Should hit provider again
+    });
   });
 
   describe('Streaming with Failover', () => {
-    it('should failover during streaming requests', async () => {
-      mockAdapters.get('gemini')!.setFailurePattern(['generic']);
+    it('should failover when a stream cannot connect', async () => {
+      mockAdapters.get('gemini')!.setFailurePattern(['network']);
 
       const request: AIRequest = {
-        messages: [{ role: 'user', content: 'Streaming failover test' }],
+        ...message('Streaming failover test'),
         stream: true,
       };
 
       const chunks = [];
-      for await (const chunk of orchestrator.streamRequest(request)) {
+      for await (const chunk of orchestrator.executeStreamRequest(request)) {
         chunks.push(chunk);
       }
 
@@ -664,21 +586,38 @@ describe('AI Service Integration Tests', () => {
       expect(chunks[chunks.length - 1].done).toBe(true);
     });
 
-    it('should maintain streaming continuity after provider switch', async () => {
-      // This is a complex scenario where we might switch providers mid-stream
-      // For now, we test that streaming works with failover at start
+    it('should not failover streams on other errors', async () => {
       mockAdapters.get('gemini')!.setFailurePattern(['generic']);
-      mockAdapters.get('deepseek')!.setLatencyPattern([50, 100, 150]);
 
       const request: AIRequest = {
-        messages: [{ role: 'user', content: 'Streaming continuity test' }],
+        ...message('Streaming failure test'),
+        stream: true,
+      };
+
+      const consume = async () => {
+        for await (const _chunk of orchestrator.executeStreamRequest(request)) {
+          // Nothing should be yielded
+        }
+      };
+
+      await expect(consume()).rejects.toMatchObject({ code: 'MOCK_ERROR' });
+      expect(mockAdapters.get('qwen')!.getRequestCount()).toBe(0);
+    });
+
+    it('should maintain streaming continuity after provider switch', async () => {
+      // Providers are only switched before the stream starts, never mid-stream
+      mockAdapters.get('gemini')!.setFailurePattern(['timeout']);
+      mockAdapters.get('qwen')!.setLatencyPattern([20, 40, 60]);
+
+      const request: AIRequest = {
+        ...message('Streaming continuity test'),
         stream: true,
       };
 
       const chunks = [];
       const startTime = Date.now();
-      
-      for await (const chunk of orchestrator.streamRequest(request)) {
+
+      for await (const chunk of orchestrator.executeStreamRequest(request)) {
         chunks.push({
           ...chunk,
           timestamp: Date.now() - startTime,
@@ -686,11 +625,11 @@ describe('AI Service Integration Tests', () => {
       }
 
       expect(chunks.length).toBeGreaterThan(0);
-      
+
       // All chunks should be from the same provider (no mid-stream switching)
       const providers = new Set(chunks.map(c => c.provider));
       expect(providers.size).toBe(1);
-      
+
       // Should be ordered correctly
       const timestamps = chunks.map(c => c.timestamp);
       for (let i = 1; i < timestamps.length; i++) {
@@ -706,65 +645,50 @@ describe('AI Service Integration Tests', () => {
       mockAdapters.get('deepseek')!.setFailurePattern(['success', 'timeout', 'timeout', 'timeout']);
       mockAdapters.get('qwen')!.setFailurePattern(['generic', 'generic', 'success', 'success']);
 
-      const requests = [];
-      const responses = [];
-
-      // Make multiple requests that will trigger different failure patterns
-      for (let i = 0; i < 6; i++) {
-        requests.push({
-          messages: [{ role: 'user', content: `Cascading failure test ${i}` }],
-        });
-      }
+      const results: (OrchestrationResult | null)[] = [];
 
       // Process requests and track which providers handle them
-      for (const request of requests) {
+      for (let i = 0; i < 6; i++) {
         try {
-          const response = await orchestrator.request(request);
-          responses.push(response);
+          results.push(await orchestrator.executeRequest(message(`Cascading failure test ${i}`)));
         } catch (error) {
-          responses.push({ error: true });
+          results.push(null);
         }
       }
 
       // Should have some successful responses
-      const successful = responses.filter(r => !('error' in r));
+      const successful = results.filter((r): r is OrchestrationResult => r !== null);
       expect(successful.length).toBeGreaterThan(0);
 
       // Should have used multiple providers as failures cascade
-      const usedProviders = new Set(successful.map((r: any) => r.provider));
+      const usedProviders = new Set(successful.map(r => r.provider));
       expect(usedProviders.size).toBeGreaterThan(1);
     });
 
     it('should maintain performance under mixed load conditions', async () => {
       // Set different latencies for different providers
-      mockAdapters.get('gemini')!.setLatencyPattern([300, 400, 500]);
-      mockAdapters.get('deepseek')!.setLatencyPattern([100, 150, 200]);
-      mockAdapters.get('qwen')!.setLatencyPattern([200, 250, 300]);
-      mockAdapters.get('kimi')!.setLatencyPattern([150, 200, 250]);
-
-      config.loadBalancingStrategy = 'least-latency'; // If implemented
-      orchestrator.updateConfiguration(config);
+      mockAdapters.get('gemini')!.setLatencyPattern([30, 40, 50]);
+      mockAdapters.get('deepseek')!.setLatencyPattern([10, 15, 20]);
+      mockAdapters.get('qwen')!.setLatencyPattern([20, 25, 30]);
+      mockAdapters.get('kimi')!.setLatencyPattern([15, 20, 25]);
 
       const requests = 10;
       const startTime = Date.now();
-      const responses = [];
 
       // Make concurrent requests
       const promises = [];
       for (let i = 0; i < requests; i++) {
-        promises.push(orchestrator.request({
-          messages: [{ role: 'user', content: `Performance test ${i}` }],
-        }));
+        promises.push(orchestrator.executeRequest(message(`Performance test ${i}`)));
       }
 
       const results = await Promise.allSettled(promises);
       const duration = Date.now() - startTime;
 
       const successful = results.filter(r => r.status === 'fulfilled');
-      expect(successful.length).toBeGreaterThan(0);
+      expect(successful.length).toBe(requests);
 
       // Should complete in reasonable time even with concurrent load
-      expect(duration).toBeLessThan(10000); // Should finish within 10 seconds
+      expect(duration).toBeLessThan(10000);
     });
 
     it('should handle provider recovery scenarios', async () => {
@@ -772,37 +696,17 @@ describe('AI Service Integration Tests', () => {
       mockAdapters.get('gemini')!.setFailurePattern(['network']);
       mockAdapters.get('gemini')!.setHealthy(false);
 
-      const request: AIRequest = {
-        messages: [{ role: 'user', content: 'Recovery test message' }],
-      };
-
       // First request should use backup provider
-      const response1 = await orchestrator.request(request);
-      expect(response1.provider).not.toBe('gemini');
+      const result1 = await orchestrator.executeRequest(message('Recovery test message'));
+      expect(result1.provider).not.toBe('gemini');
 
       // Fix the provider
       mockAdapters.get('gemini')!.setFailurePattern(['success']);
       mockAdapters.get('gemini')!.setHealthy(true);
 
-      // Wait for circuit breaker to potentially recover
-      await new Promise(resolve => setTimeout(resolve, 1100));
-
-      // Subsequent requests should eventually use recovered provider
-      // This depends on the load balancing strategy and circuit breaker recovery
-      let geminiUsed = false;
-      for (let i = 0; i < 5; i++) {
-        const response = await orchestrator.request({
-          messages: [{ role: 'user', content: `Recovery test ${i}` }],
-        });
-        if (response.provider === 'gemini') {
-          geminiUsed = true;
-          break;
-        }
-      }
-
-      // Provider should eventually be available again
-      // Note: This might not always pass depending on circuit breaker timing
-      // expect(geminiUsed).toBe(true);
+      // The recovered provider is used again straight away
+      const result2 = await orchestrator.executeRequest(message('Recovery test after fix'));
+      expect(result2.provider).toBe('gemini');
     });
   });
 
@@ -810,47 +714,46 @@ describe('AI Service Integration Tests', () => {
     it('should accurately track statistics during complex scenarios', async () => {
       // Create a mix of successful and failed requests
       mockAdapters.get('gemini')!.setFailurePattern(['success', 'network', 'success']);
-      mockAdapters.get('deepseek')!.setFailurePattern(['success', 'success', 'timeout']);
+      mockAdapters.get('qwen')!.setFailurePattern(['success', 'success', 'timeout']);
 
       const requests = 6;
-      const results = [];
+      let succeeded = 0;
 
       for (let i = 0; i < requests; i++) {
         try {
-          const response = await orchestrator.request({
-            messages: [{ role: 'user', content: `Stats test ${i}` }],
-          });
-          results.push({ success: true, provider: response.provider });
+          await orchestrator.executeRequest(message(`Stats test ${i}`));
+          succeeded++;
         } catch (error) {
-          results.push({ success: false, error });
+          // Counted below
         }
       }
 
-      const stats = await orchestrator.getStatistics();
-      
-      expect(stats.totalRequests).toBeGreaterThan(0);
-      expect(stats.successfulRequests).toBeGreaterThan(0);
-      expect(stats.providerStats).toBeDefined();
-      
+      const stats = orchestrator.getStats();
+
+      expect(stats.totalRequests).toBe(requests);
+      expect(stats.successfulRequests).toBe(succeeded);
+      expect(stats.failedRequests).toBe(requests - succeeded);
+      expect(stats.totalTokensUsed).toBeGreaterThan(0);
+
       // Check that provider-specific stats are tracked
-      const providerStatsKeys = Object.keys(stats.providerStats);
-      expect(providerStatsKeys.length).toBeGreaterThan(0);
+      const served = Object.values(stats.providerStats)
+        .reduce((sum, providerStats) => sum + providerStats.successes, 0);
+      expect(served).toBe(succeeded);
     });
 
     it('should provide accurate health status during failures', async () => {
-      // Make one provider unhealthy
+      // Make one provider unhealthy and open another's circuit
       mockAdapters.get('gemini')!.setHealthy(false);
+      await openCircuit('kimi');
 
       const health = await orchestrator.getHealthStatus();
-      
-      expect(health.overall).toBeDefined();
-      expect(health.providers).toBeDefined();
-      expect(health.providers.gemini).toBe(false);
-      
+
+      expect(health.gemini).toBe(false);
+      expect(health.kimi).toBe(false);
+
       // Other providers should still be healthy
-      expect(health.providers.deepseek).toBe(true);
-      expect(health.providers.qwen).toBe(true);
-      expect(health.providers.kimi).toBe(true);
+      expect(health.deepseek).toBe(true);
+      expect(health.qwen).toBe(true);
     });
   });
-});
\ No newline at end of file
+});
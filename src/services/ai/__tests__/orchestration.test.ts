@@ -17,6 +17,8 @@ import {
   TimeoutError,
   LoadBalancingStrategy,
   AIServiceConfig,
+  AIEmbeddingRequest,
+  AIEmbeddingResponse,
 } from '@/types/ai';
 
 import { CircuitBreaker, AICache } from '../base';
@@ -128,6 +130,14 @@ class MockAdapter implements IAIAdapter {
     };
   }
 
+  supportsEmbeddings(): boolean {
+    return false;
+  }
+
+  async embed(_request: AIEmbeddingRequest): Promise<AIEmbeddingResponse> {
+    throw new AIError(`${this.provider} does not support embeddings`, this.provider, 'EMBEDDINGS_NOT_SUPPORTED');
+  }
+
   async getRateLimitStatus() {
     return {
       remaining: 50,
@@ -137,11 +147,39 @@ class MockAdapter implements IAIAdapter {
   }
 }
 
+const circuitBreakerConfig = {
+  failureThreshold: 3,
+  recoveryTimeout: 5000,
+  timeout: 1000,
+  monitoringPeriod: 60000,
+};
+
+function createCircuitBreakers(providers: Iterable<AIProvider>): Map<AIProvider, CircuitBreaker> {
+  const circuitBreakers = new Map<AIProvider, CircuitBreaker>();
+  for (const provider of providers) {
+    circuitBreakers.set(provider, new CircuitBreaker(circuitBreakerConfig, provider));
+  }
+  return circuitBreakers;
+}
+
 describe('AIRouter', () => {
   let router: AIRouter;
   let mockAdapters: Map<AIProvider, MockAdapter>;
   let circuitBreakers: Map<AIProvider, CircuitBreaker>;
 
+  const request: AIRequest = {
+    messages: [{ role: 'user', content: 'Test message' }],
+  };
+
+  const createRouter = (strategy: LoadBalancingStrategy) =>
+    new AIRouter(mockAdapters, circuitBreakers, strategy);
+
+  const prioritized = () => Array.from(mockAdapters.values()).map((adapter, index) => ({
+    provider: adapter.provider,
+    adapter,
+    priority: 4 - index, // Gemini = 4, DeepSeek = 3, etc.
+  }));
+
   beforeEach(() => {
     mockAdapters = new Map([
       ['gemini', new MockAdapter('gemini')],
@@ -150,20 +188,8 @@ describe('AIRouter', () => {
       ['kimi', new MockAdapter('kimi')],
     ]);
 
-    circuitBreakers = new Map();
-    for (const [provider] of mockAdapters) {
-      circuitBreakers.set(provider, new CircuitBreaker(
-        {
-          failureThreshold: 3,
-          recoveryTimeout: 5000,
-          timeout: 1000,
-          monitoringPeriod: 60000,
-        },
-        provider
-      ));
-    }
-
-    router = new AIRouter();
+    circuitBreakers = createCircuitBreakers(mockAdapters.keys());
+    router = createRouter('priority');
   });
 
   describe('Provider Selection', () => {
@@ -175,10 +201,7 @@ describe('AIRouter', () => {
         },
       };
 
-      const selection = await router.selectProvider(
-        Array.from(mockAdapters.values()),
-        criteria
-      );
+      const selection = await router.selectProvider(request, criteria);
 
       expect(selection).toBeDefined();
       expect(['gemini', 'qwen']).toContain(selection?.provider);
@@ -186,15 +209,13 @@ describe('AIRouter', () => {
 
     it('should respect preferred provider', async () => {
       const criteria: RoutingCriteria = {
-        preferredProvider: 'deepseek',
+        preferredProvider: 'qwen',
       };
 
-      const selection = await router.selectProvider(
-        Array.from(mockAdapters.values()),
-        criteria
-      );
+      const selection = await router.selectProvider(request, criteria);
 
-      expect(selection?.provider).toBe('deepseek');
+      expect(selection?.provider).toBe('qwen');
+      expect(selection?.reason).toContain('Preferred provider');
     });
 
     it('should exclude specified providers', async () => {
@@ -202,38 +223,40 @@ describe('AIRouter', () => {
         excludedProviders: ['gemini', 'qwen'],
       };
 
-      const selection = await router.selectProvider(
-        Array.from(mockAdapters.values()),
-        criteria
-      );
+      const selection = await router.selectProvider(request, criteria);
 
       expect(selection).toBeDefined();
       expect(['deepseek', 'kimi']).toContain(selection?.provider);
+      expect(selection?.fallbacks).not.toContain('gemini');
     });
 
-    it('should return null when no providers meet criteria', async () => {
+    it('should return null when no providers are available', async () => {
       // Make all providers unhealthy
       for (const adapter of mockAdapters.values()) {
         adapter.setHealthy(false);
       }
 
-      const selection = await router.selectProvider(
-        Array.from(mockAdapters.values()),
-        {}
-      );
+      const selection = await router.selectProvider(request, {});
 
       expect(selection).toBeNull();
     });
 
+    it('should throw when no available provider meets the criteria', async () => {
+      const criteria: RoutingCriteria = {
+        excludedProviders: ['gemini', 'deepseek', 'qwen', 'kimi'],
+      };
+
+      await expect(router.selectProvider(request, criteria)).rejects.toMatchObject({
+        code: 'NO_CAPABLE_PROVIDERS',
+      });
+    });
+
     it('should prioritize by cost preference', async () => {
       const criteria: RoutingCriteria = {
         costPreference: 'low',
       };
 
-      const selection = await router.selectProvider(
-        Array.from(mockAdapters.values()),
-        criteria
-      );
+      const selection = await router.selectProvider(request, criteria);
 
       expect(selection).toBeDefined();
       // DeepSeek should be preferred for low cost
@@ -247,58 +270,55 @@ describe('AIRouter', () => {
         },
       };
 
-      const selection = await router.selectProvider(
-        Array.from(mockAdapters.values()),
-        criteria
-      );
+      const selection = await router.selectProvider(request, criteria);
 
       expect(selection).toBeDefined();
-      // Only Gemini and Kimi support large contexts in our setup
+      // Only Gemini and Kimi support large contexts
       expect(['gemini', 'kimi']).toContain(selection?.provider);
     });
+
+    it('should skip providers with an open circuit breaker', async () => {
+      const circuitBreaker = circuitBreakers.get('gemini')!;
+      for (let i = 0; i < circuitBreakerConfig.failureThreshold; i++) {
+        await circuitBreaker.execute(() => Promise.reject(new Error('Test failure'))).catch(() => undefined);
+      }
+
+      const selection = await router.selectProvider(request, {});
+
+      expect(selection?.provider).not.toBe('gemini');
+      expect(selection?.fallbacks).not.toContain('gemini');
+    });
   });
 
   describe('Load Balancing Strategies', () => {
     it('should implement round-robin selection', async () => {
-      const selections = [];
-      
-      for (let i = 0; i < 6; i++) {
-        const selection = await router.selectProviderWithStrategy(
-          Array.from(mockAdapters.values()),
-          'round-robin'
-        );
-        selections.push(selection?.provider);
+      router = createRouter('round-robin');
+      const selections = new Set<AIProvider>();
+
+      for (let i = 0; i < 20; i++) {
+        const selection = await router.selectWithLoadBalancing(prioritized());
+        if (selection) {
+          selections.add(selection.provider);
+        }
       }
 
-      // Should cycle through providers
-      const uniqueProviders = new Set(selections.filter(p => p));
-      expect(uniqueProviders.size).toBeGreaterThan(1);
+      // Should spread requests over providers
+      expect(selections.size).toBeGreaterThan(1);
     });
 
     it('should implement priority-based selection', async () => {
-      // Set different priorities
-      const adaptersWithPriority = Array.from(mockAdapters.values()).map((adapter, index) => ({
-        adapter,
-        priority: 4 - index, // Gemini = 4, DeepSeek = 3, etc.
-      }));
-
-      const selection = await router.selectProviderWithStrategy(
-        adaptersWithPriority.map(p => p.adapter),
-        'priority'
-      );
+      const selection = await router.selectWithLoadBalancing(prioritized());
 
       // Should select highest priority (Gemini)
       expect(selection?.provider).toBe('gemini');
     });
 
     it('should implement random selection', async () => {
-      const selections = new Set();
-      
+      router = createRouter('random');
+      const selections = new Set<AIProvider>();
+
       for (let i = 0; i < 20; i++) {
-        const selection = await router.selectProviderWithStrategy(
-          Array.from(mockAdapters.values()),
-          'random'
-        );
+        const selection = await router.selectWithLoadBalancing(prioritized());
         if (selection) {
           selections.add(selection.provider);
         }
@@ -307,36 +327,40 @@ describe('AIRouter', () => {
       // Should select multiple different providers
       expect(selections.size).toBeGreaterThan(1);
     });
-  });
 
-  describe('Model Compatibility', () => {
-    it('should validate model compatibility with request', async () => {
-      const request: AIRequest = {
-        messages: [{ role: 'user', content: 'Test message' }],
-        stream: true,
-        maxTokens: 2000,
-      };
+    it('should only balance over healthy providers', async () => {
+      mockAdapters.get('gemini')!.setHealthy(false);
 
-      const compatible = await router.isModelCompatible(
-        mockAdapters.get('gemini')!,
-        request
-      );
+      const selection = await router.selectWithLoadBalancing(prioritized());
 
-      expect(compatible).toBe(true);
+      expect(selection?.provider).toBe('deepseek');
     });
 
-    it('should reject incompatible models', async () => {
-      const request: AIRequest = {
-        messages: [{ role: 'user', content: 'x'.repeat(200000) }], // Very long
-        maxTokens: 10000, // Exceeds model limit
-      };
+    it('should return null when no provider is healthy', async () => {
+      for (const adapter of mockAdapters.values()) {
+        adapter.setHealthy(false);
+      }
+
+      expect(await router.selectWithLoadBalancing(prioritized())).toBeNull();
+    });
+  });
 
-      const compatible = await router.isModelCompatible(
-        mockAdapters.get('deepseek')!,
-        request
+  describe('Model Compatibility', () => {
+    it('should find the providers serving a model', async () => {
+      const { providers, model } = await router.getProvidersForModel('kimi-model');
+
+      expect(providers).toEqual(['kimi']);
+      expect(model?.provider).toBe('kimi');
+    });
+
+    it('should favour the provider serving the requested model', async () => {
+      const selection = await router.selectProvider(
+        { ...request, model: 'kimi-model' },
+        {}
       );
 
-      expect(compatible).toBe(false);
+      expect(selection?.provider).toBe('kimi');
+      expect(selection?.reason).toContain('Supports model kimi-model');
     });
   });
 });
@@ -346,6 +370,22 @@ describe('AIOrchestrator', () => {
   let config: OrchestratorConfig;
   let mockAdapters: Map<AIProvider, MockAdapter>;
 
+  // Wire the mock adapters in place of initialize(), which would create
+  // real provider adapters and start background timers
+  const injectAdapters = (target: AIOrchestrator) => {
+    const circuitBreakers = createCircuitBreakers(mockAdapters.keys());
+    for (const [provider, adapter] of mockAdapters) {
+      target['adapters'].set(provider, adapter);
+      target['circuitBreakers'].set(provider, circuitBreakers.get(provider)!);
+    }
+    target['router'] = new AIRouter(
+      target['adapters'],
+      target['circuitBreakers'],
+      config.loadBalancingStrategy
+    );
+    target['initialized'] = true;
+  };
+
   beforeEach(() => {
     mockAdapters = new Map([
       ['gemini', new MockAdapter('gemini')],
@@ -386,12 +426,7 @@ describe('AIOrchestrator', () => {
         },
       ],
       loadBalancingStrategy: 'priority',
-      circuitBreaker: {
-        failureThreshold: 3,
-        recoveryTimeout: 5000,
-        timeout: 30000,
-        monitoringPeriod: 60000,
-      },
+      circuitBreaker: circuitBreakerConfig,
       cache: {
         ttl: 300000,
         maxSize: 1000,
@@ -399,7 +434,7 @@ describe('AIOrchestrator', () => {
       },
       defaultTimeout: 30000,
       maxRetries: 3,
-      retryDelay: 1000,
+      retryDelay: 10,
       enableFailover: true,
       maxFailoverAttempts: 3,
       enableRequestQueuing: false,
@@ -408,15 +443,7 @@ describe('AIOrchestrator', () => {
     };
 
     orchestrator = new AIOrchestrator(config);
-    
-    // Inject mock adapters
-    for (const [provider, adapter] of mockAdapters) {
-      orchestrator['adapters'].set(provider, adapter);
-      orchestrator['circuitBreakers'].set(provider, new CircuitBreaker(
-        config.circuitBreaker,
-        provider
-      ));
-    }
+    injectAdapters(orchestrator);
   });
 
   describe('Basic Request Processing', () => {
@@ -425,12 +452,13 @@ describe('AIOrchestrator', () => {
         messages: [{ role: 'user', content: 'Test message' }],
       };
 
-      const response = await orchestrator.request(request);
-      
-      expect(response).toBeDefined();
-      expect(response.content).toBeTruthy();
-      expect(response.provider).toBeTruthy();
-      expect(response.usage.totalTokens).toBeGreaterThan(0);
+      const result = await orchestrator.executeRequest(request);
+
+      expect(result.data.content).toBeTruthy();
+      expect(result.provider).toBe(result.data.provider);
+      expect(result.data.usage.totalTokens).toBeGreaterThan(0);
+      expect(result.attempts).toBe(1);
+      expect(result.failoverUsed).toBe(false);
     });
 
     it('should handle streaming requests', async () => {
@@ -440,7 +468,7 @@ describe('AIOrchestrator', () => {
       };
 
       const chunks = [];
-      for await (const chunk of orchestrator.streamRequest(request)) {
+      for await (const chunk of orchestrator.executeStreamRequest(request)) {
         chunks.push(chunk);
       }
 
@@ -454,13 +482,22 @@ describe('AIOrchestrator', () => {
       };
 
       // First request should hit the provider
-      const response1 = await orchestrator.request(request);
-      expect(response1).toBeDefined();
+      const result1 = await orchestrator.executeRequest(request);
+      expect(result1.data.metadata.cached).toBeUndefined();
 
       // Second identical request should hit cache
-      const response2 = await orchestrator.request(request);
-      expect(response2).toBeDefined();
-      expect(response2.content).toBe(response1.content);
+      const result2 = await orchestrator.executeRequest(request);
+      expect(result2.data.content).toBe(result1.data.content);
+      expect(result2.data.metadata.cached).toBe(true);
+      expect(result2.attempts).toBe(0);
+    });
+
+    it('should refuse requests before initialization', async () => {
+      const uninitialized = new AIOrchestrator(config);
+
+      await expect(uninitialized.executeRequest({
+        messages: [{ role: 'user', content: 'Too early' }],
+      })).rejects.toMatchObject({ code: 'NOT_INITIALIZED' });
     });
   });
 
@@ -473,10 +510,11 @@ describe('AIOrchestrator', () => {
         messages: [{ role: 'user', content: 'Test failover message' }],
       };
 
-      const response = await orchestrator.request(request);
-      
-      expect(response).toBeDefined();
-      expect(response.provider).not.toBe('gemini'); // Should use different provider
+      const result = await orchestrator.executeRequest(request);
+
+      expect(result.provider).not.toBe('gemini'); // Should use different provider
+      expect(result.failoverUsed).toBe(true);
+      expect(result.providersAttempted[0]).toBe('gemini');
     });
 
     it('should respect maximum failover attempts', async () => {
@@ -489,29 +527,42 @@ describe('AIOrchestrator', () => {
         messages: [{ role: 'user', content: 'Test all fail message' }],
       };
 
-      await expect(orchestrator.request(request)).rejects.toThrow(AIError);
+      await expect(orchestrator.executeRequest(request)).rejects.toMatchObject({
+        code: 'ALL_ATTEMPTS_FAILED',
+        message: expect.stringContaining(`All ${config.maxRetries} attempts failed`),
+      });
     });
 
-    it('should handle rate limiting with retry', async () => {
-      // Mock rate limit error on first attempt
-      const originalRequest = mockAdapters.get('gemini')!.request;
+    it('should not retry when failover is disabled', async () => {
+      config.enableFailover = false;
+      orchestrator = new AIOrchestrator(config);
+      injectAdapters(orchestrator);
+      mockAdapters.get('gemini')!.setShouldFailRequest(true);
+
+      const request: AIRequest = {
+        messages: [{ role: 'user', content: 'Test no failover message' }],
+      };
+
+      await expect(orchestrator.executeRequest(request)).rejects.toThrow('All 1 attempts failed');
+    });
+
+    it('should retry rate limited requests on another provider', async () => {
       let callCount = 0;
-      
-      mockAdapters.get('gemini')!.request = async (request: AIRequest) => {
+
+      mockAdapters.get('gemini')!.request = async () => {
         callCount++;
-        if (callCount === 1) {
-          throw new RateLimitError('gemini', Date.now() + 1000);
-        }
-        return originalRequest.call(mockAdapters.get('gemini')!, request);
+        throw new RateLimitError('gemini', Date.now() + 1000);
       };
 
       const request: AIRequest = {
         messages: [{ role: 'user', content: 'Test rate limit message' }],
       };
 
-      const response = await orchestrator.request(request);
-      expect(response).toBeDefined();
-      expect(callCount).toBeGreaterThan(1); // Should have retried
+      const result = await orchestrator.executeRequest(request);
+
+      expect(callCount).toBe(1);
+      expect(result.provider).not.toBe('gemini');
+      expect(result.attempts).toBe(2);
     });
 
     it('should handle network errors with failover', async () => {
@@ -524,94 +575,91 @@ describe('AIOrchestrator', () => {
         messages: [{ role: 'user', content: 'Test network error message' }],
       };
 
-      const response = await orchestrator.request(request);
-      
-      expect(response).toBeDefined();
-      expect(response.provider).not.toBe('gemini');
+      const result = await orchestrator.executeRequest(request);
+
+      expect(result.provider).not.toBe('gemini');
     });
-  });
 
-  describe('Circuit Breaker Integration', () => {
-    it('should open circuit breaker after repeated failures', async () => {
-      const adapter = mockAdapters.get('gemini')!;
-      adapter.setShouldFailRequest(true);
+    it('should stop on errors that are not retryable', async () => {
+      mockAdapters.get('gemini')!.request = async () => {
+        throw new AIError('Invalid request', 'gemini', 'INVALID_REQUEST', false);
+      };
 
       const request: AIRequest = {
-        messages: [{ role: 'user', content: 'Test circuit breaker message' }],
+        messages: [{ role: 'user', content: 'Test fatal error message' }],
       };
 
-      // Make enough requests to trigger circuit breaker
-      for (let i = 0; i < 4; i++) {
-        try {
-          await orchestrator.request(request);
-        } catch (error) {
-          // Expected failures
-        }
+      await expect(orchestrator.executeRequest(request)).rejects.toThrow('All 1 attempts failed');
+    });
+  });
+
+  describe('Circuit Breaker Integration', () => {
+    it('should open circuit breaker after repeated failures', async () => {
+      mockAdapters.get('gemini')!.setShouldFailRequest(true);
+
+      // Make enough requests to trigger circuit breaker; distinct messages
+      // keep the cache out of the way
+      for (let i = 0; i < circuitBreakerConfig.failureThreshold; i++) {
+        await orchestrator.executeRequest({
+          messages: [{ role: 'user', content: `Test circuit breaker message ${i}` }],
+        });
       }
 
-      const circuitBreaker = orchestrator['circuitBreakers'].get('gemini');
-      expect(circuitBreaker?.getStatus().state).toBe('open');
+      expect(orchestrator.getCircuitBreakerStatus().gemini.state).toBe('open');
     });
 
     it('should bypass open circuit breakers', async () => {
       // Open the circuit breaker for gemini
       const circuitBreaker = orchestrator['circuitBreakers'].get('gemini')!;
-      // Simulate failures to open circuit
-      for (let i = 0; i < 3; i++) {
-        try {
-          await circuitBreaker.execute(() => Promise.reject(new Error('Test failure')));
-        } catch (error) {
-          // Expected
-        }
+      for (let i = 0; i < circuitBreakerConfig.failureThreshold; i++) {
+        await circuitBreaker.execute(() => Promise.reject(new Error('Test failure'))).catch(() => undefined);
       }
 
       const request: AIRequest = {
         messages: [{ role: 'user', content: 'Test bypass circuit breaker message' }],
       };
 
-      const response = await orchestrator.request(request);
-      
-      expect(response).toBeDefined();
-      expect(response.provider).not.toBe('gemini'); // Should use different provider
+      const result = await orchestrator.executeRequest(request);
+
+      expect(result.provider).not.toBe('gemini'); // Should use different provider
+      expect(result.providersAttempted).not.toContain('gemini');
     });
-  });
 
-  describe('Load Balancing', () => {
-    it('should distribute requests across providers', async () => {
-      const providers = new Set<AIProvider>();
-      
-      // Make multiple requests
-      for (let i = 0; i < 10; i++) {
-        const request: AIRequest = {
-          messages: [{ role: 'user', content: `Test message ${i}` }],
-        };
-
-        const response = await orchestrator.request(request);
-        providers.add(response.provider);
+    it('should route to a provider again after its circuit breaker is reset', async () => {
+      const circuitBreaker = orchestrator['circuitBreakers'].get('gemini')!;
+      for (let i = 0; i < circuitBreakerConfig.failureThreshold; i++) {
+        await circuitBreaker.execute(() => Promise.reject(new Error('Test failure'))).catch(() => undefined);
       }
 
-      // Should use multiple providers (depending on strategy)
-      expect(providers.size).toBeGreaterThanOrEqual(1);
-    });
+      orchestrator.resetCircuitBreaker('gemini');
 
-    it('should handle provider priority correctly', async () => {
-      // With priority strategy, should prefer higher priority providers
-      config.loadBalancingStrategy = 'priority';
-      orchestrator = new AIOrchestrator(config);
+      const result = await orchestrator.executeRequest({
+        messages: [{ role: 'user', content: 'Test reset circuit breaker message' }],
+      });
 
-      // Inject mock adapters
-      for (const [provider, adapter] of mockAdapters) {
-        orchestrator['adapters'].set(provider, adapter);
-      }
+      expect(result.provider).toBe('gemini');
+    });
+  });
 
+  describe('Provider Selection', () => {
+    it('should route to the highest scoring provider', async () => {
       const request: AIRequest = {
         messages: [{ role: 'user', content: 'Test priority message' }],
       };
 
-      const response = await orchestrator.request(request);
-      
-      // Should use highest priority provider (gemini = 4)
-      expect(response.provider).toBe('gemini');
+      const result = await orchestrator.executeRequest(request);
+
+      // Gemini scores highest on reliability and balanced cost
+      expect(result.provider).toBe('gemini');
+    });
+
+    it('should pass routing criteria to the router', async () => {
+      const result = await orchestrator.executeRequest(
+        { messages: [{ role: 'user', content: 'Test criteria message' }] },
+        { costPreference: 'low' }
+      );
+
+      expect(result.provider).toBe('deepseek');
     });
   });
 
@@ -621,58 +669,52 @@ describe('AIOrchestrator', () => {
         messages: [{ role: 'user', content: 'Test stats message' }],
       };
 
-      await orchestrator.request(request);
-      
-      const stats = await orchestrator.getStatistics();
-      
-      expect(stats.totalRequests).toBeGreaterThan(0);
-      expect(stats.successfulRequests).toBeGreaterThan(0);
-      expect(stats.providerStats).toBeDefined();
+      const result = await orchestrator.executeRequest(request);
+
+      const stats = orchestrator.getStats();
+
+      expect(stats.totalRequests).toBe(1);
+      expect(stats.successfulRequests).toBe(1);
+      expect(stats.totalTokensUsed).toBe(25);
+      expect(stats.providerStats[result.provider]?.successes).toBe(1);
     });
 
-    it('should provide health status', async () => {
-      const health = await orchestrator.getHealthStatus();
-      
-      expect(health).toBeDefined();
-      expect(health.overall).toBeDefined();
-      expect(health.providers).toBeDefined();
-      
-      // All mock adapters should be healthy
-      for (const [provider] of mockAdapters) {
-        expect(health.providers[provider]).toBe(true);
+    it('should count failed requests', async () => {
+      for (const adapter of mockAdapters.values()) {
+        adapter.setShouldFailRequest(true);
       }
-    });
-  });
 
-  describe('Configuration Management', () => {
-    it('should validate configuration on initialization', () => {
-      const invalidConfig = {
-        ...config,
-        providers: [], // No providers
-      };
+      await orchestrator.executeRequest({
+        messages: [{ role: 'user', content: 'Test failed stats message' }],
+      }).catch(() => undefined);
 
-      expect(() => new AIOrchestrator(invalidConfig)).toThrow();
+      expect(orchestrator.getStats().failedRequests).toBe(1);
+
+      orchestrator.resetStats();
+      expect(orchestrator.getStats().failedRequests).toBe(0);
     });
 
-    it('should handle dynamic configuration updates', async () => {
-      const newConfig = {
-        ...config,
-        maxRetries: 5,
-      };
+    it('should provide health status', async () => {
+      mockAdapters.get('kimi')!.setHealthy(false);
+
+      const health = await orchestrator.getHealthStatus();
 
-      orchestrator.updateConfiguration(newConfig);
-      
-      // Configuration should be updated
-      expect(orchestrator['config'].maxRetries).toBe(5);
+      expect(health).toEqual({
+        gemini: true,
+        deepseek: true,
+        qwen: true,
+        kimi: false,
+      });
     });
-  });
 
-  describe('Error Handling', () => {
-    it('should handle adapter initialization failures gracefully', async () => {
-      // This test would typically involve mocking adapter creation to fail
-      expect(orchestrator).toBeDefined();
+    it('should look up model definitions', async () => {
+      expect((await orchestrator.getModel('qwen', 'qwen-model'))?.name).toBe('qwen Model');
+      expect(await orchestrator.getModel('qwen', 'missing-model')).toBeUndefined();
+      expect(await orchestrator.getModel('mock', 'mock-model')).toBeUndefined();
     });
+  });
 
+  describe('Error Handling', () => {
     it('should provide detailed error information', async () => {
       // Make all providers fail
       for (const adapter of mockAdapters.values()) {
@@ -684,15 +726,16 @@ describe('AIOrchestrator', () => {
       };
 
       try {
-        await orchestrator.request(request);
+        await orchestrator.executeRequest(request);
         expect(true).toBe(false); // Should not reach here
       } catch (error) {
         expect(error).toBeInstanceOf(AIError);
         if (error instanceof AIError) {
           expect(error.message).toBeTruthy();
           expect(error.code).toBeTruthy();
+          expect(error.originalError?.message).toBe('Mock request failed');
         }
       }
     });
   });
-});
\ No newline at end of file
+});
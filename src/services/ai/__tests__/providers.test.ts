@@ -375,6 +375,13 @@ describe('Provider Adapters', () => {
                   inputTokenLimit: 2000000,
                   outputTokenLimit: 8192,
                 },
+                {
+                  name: 'models/gemini-1.5-flash',
+                  displayName: 'Gemini 1.5 Flash',
+                  supportedGenerationMethods: ['generateContent'],
+                  inputTokenLimit: 1000000,
+                  outputTokenLimit: 8192,
+                },
               ],
             }),
           });
@@ -521,6 +528,22 @@ describe('Provider Adapters', () => {
           }),
         };
       
+      case 'qwen':
+        // DashScope sends the string "null" as finish reason until the last chunk
+        return {
+          output: {
+            text,
+            finish_reason: done ? 'stop' : 'null',
+          },
+          ...(done && {
+            usage: {
+              input_tokens: 10,
+              output_tokens: 15,
+              total_tokens: 25,
+            },
+          }),
+        };
+
       default:
         return {
           choices: [{
@@ -660,7 +683,7 @@ describe('Provider Factory Functions', () => {
   describe('getSupportedProviders', () => {
     it('should return all supported providers', () => {
       const providers = getSupportedProviders();
-      expect(providers).toEqual(['gemini', 'deepseek', 'qwen', 'kimi']);
+      expect(providers).toEqual(['gemini', 'deepseek', 'qwen', 'kimi', 'mock']);
     });
   });
 
@@ -681,12 +704,13 @@ describe('Provider Factory Functions', () => {
   describe('getProvidersWithCapabilities', () => {
     it('should return providers supporting streaming', () => {
       const providers = getProvidersWithCapabilities({ streaming: true });
-      expect(providers).toEqual(['gemini', 'deepseek', 'qwen', 'kimi']);
+      expect(providers).toEqual(['gemini', 'deepseek', 'qwen', 'kimi', 'mock']);
     });
 
     it('should return providers supporting function calling', () => {
       const providers = getProvidersWithCapabilities({ functionCalling: true });
-      expect(providers).toEqual(['gemini', 'deepseek', 'qwen', 'kimi']);
+      // The mock adapter plays back scripted function calls so tool use can be exercised without API keys
+      expect(providers).toEqual(['gemini', 'deepseek', 'qwen', 'kimi', 'mock']);
     });
 
     it('should return providers supporting images', () => {
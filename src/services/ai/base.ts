@@ -12,12 +12,19 @@ import {
   AIResponse,
   AIStreamChunk,
   AIModel,
+  AIMessage,
+  AIFunctionCall,
+  AIFunctionCallDelta,
+  AIEmbeddingRequest,
+  AIEmbeddingResponse,
   ProviderConfig,
   IAIAdapter,
   CircuitBreakerConfig,
   CircuitBreakerState,
   CircuitBreakerStatus,
   CacheConfig,
+  AICacheBackend,
+  AICacheStats,
   LoadBalancingStrategy,
   AIServiceConfig,
   AIServiceStats,
@@ -29,6 +36,106 @@ import {
   ModelNotAvailableError,
   TimeoutError,
 } from '@/types/ai';
+import { createHash } from 'crypto';
+import { createCacheBackend } from './cache';
+
+/**
+ * Function names accepted by every provider
+ */
+const FUNCTION_NAME_PATTERN = /^[a-zA-Z_][a-zA-Z0-9_-]{0,63}$/;
+
+/**
+ * Tool call as sent by OpenAI-compatible APIs, complete or as a stream delta
+ */
+export interface OpenAIToolCall {
+  index?: number;
+  id?: string;
+  type?: string;
+  function?: {
+    name?: string;
+    arguments?: string;
+  };
+}
+
+/**
+ * Function calls carried by an assistant message
+ */
+function getMessageFunctionCalls(message: AIMessage): AIFunctionCall[] {
+  if (message.functionCalls && message.functionCalls.length > 0) {
+    return message.functionCalls;
+  }
+  return message.functionCall ? [message.functionCall] : [];
+}
+
+/**
+ * Parse JSON-encoded function arguments; an empty string means no arguments
+ */
+export function parseFunctionArguments(raw: string | undefined, provider: AIProvider): Record<string, any> {
+  if (!raw || !raw.trim()) {
+    return {};
+  }
+
+  try {
+    const parsed = JSON.parse(raw);
+    if (parsed && typeof parsed === 'object' && !Array.isArray(parsed)) {
+      return parsed;
+    }
+  } catch {
+    // Fall through to the error below
+  }
+
+  throw new AIError(
+    `Model returned invalid function arguments: ${raw.slice(0, 200)}`,
+    provider,
+    'INVALID_FUNCTION_CALL',
+    true
+  );
+}
+
+/**
+ * Collects streamed function call deltas and assembles complete calls
+ */
+export class FunctionCallAccumulator {
+  private calls = new Map<number, { id?: string; name: string; arguments: string }>();
+
+  constructor(private readonly provider: AIProvider) {}
+
+  /**
+   * Number of calls seen so far
+   */
+  public get size(): number {
+    return this.calls.size;
+  }
+
+  /**
+   * Merge a batch of deltas
+   */
+  public add(deltas: AIFunctionCallDelta[]): void {
+    for (const delta of deltas) {
+      const call = this.calls.get(delta.index) || { name: '', arguments: '' };
+
+      if (delta.id) call.id = delta.id;
+      if (delta.name) call.name = delta.name;
+      if (delta.arguments) call.arguments += delta.arguments;
+
+      this.calls.set(delta.index, call);
+    }
+  }
+
+  /**
+   * Complete calls in index order with parsed arguments
+   */
+  public complete(): AIFunctionCall[] {
+    return Array.from(this.calls.entries())
+      .sort(([a], [b]) => a - b)
+      .filter(([, call]) => call.name)
+      .map(([index, call]) => ({
+        id: call.id || `call_${index}`,
+        name: call.name,
+        arguments: parseFunctionArguments(call.arguments, this.provider),
+      }));
+  }
+}
 
 /**
  * Abstract base class for AI adapters
@@ -60,6 +167,10 @@ export abstract class BaseAIAdapter implements IAIAdapter {
       
       this.initialized = true;
     } catch (error) {
+      // A rejected key is reported as such so callers can tell it from an outage
+      if (error instanceof AuthenticationError) {
+        throw error;
+      }
       throw new AIError(
         `Failed to initialize ${this.provider} adapter`,
         this.provider,
@@ -133,6 +244,11 @@ export abstract class BaseAIAdapter implements IAIAdapter {
       response.metadata.timestamp = startTime;
       response.provider = this.provider;
 
+      if (response.metadata.functionCalls?.length) {
+        response.metadata.functionCall = response.metadata.functionCall || response.metadata.functionCalls[0];
+        response.metadata.finishReason = 'function_call';
+      }
+
       return response;
     } catch (error) {
       const duration = Date.now() - startTime;
@@ -166,12 +282,100 @@ export abstract class BaseAIAdapter implements IAIAdapter {
         );
       }
 
-      yield* this.performStreamRequest(request);
+      // Assemble streamed function call fragments into complete calls on the final chunk
+      const functionCalls = new FunctionCallAccumulator(this.provider);
+
+      for await (const chunk of this.performStreamRequest(request)) {
+        if (chunk.functionCallDeltas) {
+          functionCalls.add(chunk.functionCallDeltas);
+        }
+
+        if (chunk.done && functionCalls.size > 0) {
+          chunk.functionCalls = chunk.functionCalls || functionCalls.complete();
+          chunk.finishReason = 'function_call';
+        }
+
+        yield chunk;
+      }
     } catch (error) {
       throw this.wrapError(error, 0);
     }
   }
 
+  /**
+   * Whether this provider offers an embedding model
+   */
+  public supportsEmbeddings(): boolean {
+    return false;
+  }
+
+  /**
+   * Embed texts, splitting the input into batches the provider accepts
+   */
+  public async embed(request: AIEmbeddingRequest): Promise<AIEmbeddingResponse> {
+    if (!this.initialized || !this.config) {
+      throw new AIError(
+        `Adapter not initialized for ${this.provider}`,
+        this.provider,
+        'NOT_INITIALIZED'
+      );
+    }
+
+    if (!this.supportsEmbeddings()) {
+      throw new AIError(
+        `${this.provider} does not support embeddings`,
+        this.provider,
+        'EMBEDDINGS_NOT_SUPPORTED'
+      );
+    }
+
+    if (!request.input || request.input.length === 0 || request.input.some(text => !text.trim())) {
+      throw new AIError('Embedding input must be non-empty texts', this.provider, 'INVALID_REQUEST');
+    }
+
+    const startTime = Date.now();
+
+    try {
+      const timeout = this.config.timeout || 30000;
+      let result: AIEmbeddingResponse | null = null;
+
+      for (let i = 0; i < request.input.length; i += this.maxEmbeddingBatchSize) {
+        const batch = await this.withTimeout(
+          this.performEmbedRequest({
+            ...request,
+            input: request.input.slice(i, i + this.maxEmbeddingBatchSize),
+          }),
+          timeout
+        );
+
+        if (!result) {
+          result = batch;
+        } else {
+          result.embeddings.push(...batch.embeddings);
+          result.usage.inputTokens += batch.usage.inputTokens;
+          result.usage.totalTokens += batch.usage.totalTokens;
+        }
+      }
+
+      if (!result || result.embeddings.length !== request.input.length) {
+        throw new AIError(
+          `Expected ${request.input.length} embeddings from ${this.provider}`,
+          this.provider,
+          'INVALID_RESPONSE',
+          true
+        );
+      }
+
+      result.provider = this.provider;
+      result.metadata.duration = Date.now() - startTime;
+      result.metadata.timestamp = startTime;
+
+      return result;
+    } catch (error) {
+      throw this.wrapError(error, Date.now() - startTime);
+    }
+  }
+
   /**
    * Get current rate limit status
    */
@@ -227,6 +431,22 @@ export abstract class BaseAIAdapter implements IAIAdapter {
     limit: number;
   }>;
 
+  /**
+   * Maximum number of texts sent in one embedding call
+   */
+  protected maxEmbeddingBatchSize = 16;
+
+  /**
+   * Perform the actual embedding request; providers with an embedding model override this
+   */
+  protected async performEmbedRequest(request: AIEmbeddingRequest): Promise<AIEmbeddingResponse> {
+    throw new AIError(
+      `${this.provider} does not support embeddings`,
+      this.provider,
+      'EMBEDDINGS_NOT_SUPPORTED'
+    );
+  }
+
   // Protected utility methods
 
   /**
@@ -254,6 +474,160 @@ export abstract class BaseAIAdapter implements IAIAdapter {
     if (request.topP && (request.topP < 0 || request.topP > 1)) {
       throw new AIError('Top-p must be between 0 and 1', this.provider, 'INVALID_REQUEST');
     }
+
+    if (request.functions && request.functions.length > 0) {
+      this.validateFunctions(request);
+    }
+  }
+
+  /**
+   * Validate function definitions and the function calling mode
+   */
+  protected validateFunctions(request: AIRequest): void {
+    const functions = request.functions || [];
+
+    if (request.model) {
+      const model = this.models.find(m => m.id === request.model);
+      if (model && !model.capabilities.supportsFunctionCalling) {
+        throw new AIError(
+          `Model ${request.model} does not support function calling`,
+          this.provider,
+          'FUNCTION_CALLING_NOT_SUPPORTED'
+        );
+      }
+    }
+
+    const names = new Set<string>();
+    for (const fn of functions) {
+      if (!FUNCTION_NAME_PATTERN.test(fn.name)) {
+        throw new AIError(`Invalid function name: ${fn.name}`, this.provider, 'INVALID_REQUEST');
+      }
+      if (names.has(fn.name)) {
+        throw new AIError(`Duplicate function name: ${fn.name}`, this.provider, 'INVALID_REQUEST');
+      }
+      if (fn.parameters?.type !== 'object') {
+        throw new AIError(`Parameters of ${fn.name} must be an object schema`, this.provider, 'INVALID_REQUEST');
+      }
+      names.add(fn.name);
+    }
+
+    const mode = request.functionCall;
+    if (mode && typeof mode === 'object' && !names.has(mode.name)) {
+      throw new AIError(`Unknown function requested: ${mode.name}`, this.provider, 'INVALID_REQUEST');
+    }
+  }
+
+  /**
+   * Convert our messages to the OpenAI chat format, including tool calls and tool results
+   * (shared by the OpenAI-compatible providers)
+   */
+  protected convertMessagesToOpenAIFormat(messages: AIMessage[], systemPrompt?: string): any[] {
+    const openaiMessages: any[] = [];
+
+    // Add system message if provided
+    if (systemPrompt) {
+      openaiMessages.push({
+        role: 'system',
+        content: systemPrompt,
+      });
+    }
+
+    for (const message of messages) {
+      if (message.role === 'assistant') {
+        const calls = getMessageFunctionCalls(message);
+        openaiMessages.push(calls.length > 0 ? {
+          role: 'assistant',
+          content: message.content || null,
+          tool_calls: calls.map((call, index) => ({
+            id: call.id || `call_${index}`,
+            type: 'function',
+            function: {
+              name: call.name,
+              arguments: JSON.stringify(call.arguments || {}),
+            },
+          })),
+        } : {
+          role: 'assistant',
+          content: message.content,
+        });
+        continue;
+      }
+
+      if (message.role === 'function' && message.functionCall) {
+        openaiMessages.push({
+          role: 'tool',
+          tool_call_id: message.functionCall.id || 'call_0',
+          name: message.functionCall.name,
+          content: message.content,
+        });
+        continue;
+      }
+
+      openaiMessages.push({
+        role: 'user',
+        content: message.content,
+      });
+    }
+
+    return openaiMessages;
+  }
+
+  /**
+   * Build the OpenAI `tools` and `tool_choice` fields for a request
+   */
+  protected buildOpenAITools(request: AIRequest): { tools?: any[]; tool_choice?: any } {
+    if (!request.functions || request.functions.length === 0) {
+      return {};
+    }
+
+    const mode = request.functionCall || 'auto';
+
+    return {
+      tools: request.functions.map(fn => ({
+        type: 'function',
+        function: {
+          name: fn.name,
+          description: fn.description,
+          parameters: fn.parameters,
+        },
+      })),
+      tool_choice: typeof mode === 'object'
+        ? { type: 'function', function: { name: mode.name } }
+        : mode,
+    };
+  }
+
+  /**
+   * Map OpenAI `tool_calls` from a complete message to function calls
+   */
+  protected mapOpenAIToolCalls(toolCalls: OpenAIToolCall[] | undefined): AIFunctionCall[] | undefined {
+    if (!toolCalls || toolCalls.length === 0) {
+      return undefined;
+    }
+
+    return toolCalls
+      .filter(call => call.function?.name)
+      .map((call, index) => ({
+        id: call.id || `call_${index}`,
+        name: call.function!.name!,
+        arguments: parseFunctionArguments(call.function!.arguments, this.provider),
+      }));
+  }
+
+  /**
+   * Map OpenAI streamed `tool_calls` deltas to function call deltas
+   */
+  protected mapOpenAIToolCallDeltas(toolCalls: OpenAIToolCall[] | undefined): AIFunctionCallDelta[] | undefined {
+    if (!toolCalls || toolCalls.length === 0) {
+      return undefined;
+    }
+
+    return toolCalls.map((call, position) => ({
+      index: call.index ?? position,
+      id: call.id || undefined,
+      name: call.function?.name || undefined,
+      arguments: call.function?.arguments || undefined,
+    }));
   }
 
   /**
@@ -361,8 +735,12 @@ export class CircuitBreaker {
    * Get current circuit breaker status
    */
   public getStatus(): CircuitBreakerStatus {
+    // Once the recovery timeout has passed the next call is let through as a
+    // trial, so callers deciding whether to route here must see it as such
+    const recovering = this.state === 'open' && Date.now() >= (this.nextAttemptTime || 0);
+
     return {
-      state: this.state,
+      state: recovering ? 'half-open' : this.state,
       failureCount: this.failureCount,
       lastFailureTime: this.lastFailureTime,
       nextAttemptTime: this.nextAttemptTime,
@@ -397,21 +775,31 @@ export class CircuitBreaker {
 }
 
 /**
- * Simple in-memory cache for AI responses
+ * Response cache for AI requests, stored in a pluggable backend
+ *
+ * Backend failures are counted and logged but never fail the request; a
+ * cache that cannot be read behaves like a miss.
  */
 export class AICache {
-  private cache = new Map<string, { data: AIResponse; expiry: number }>();
-  private maxSize: number;
-
-  constructor(private readonly config: CacheConfig) {
+  private readonly backend: AICacheBackend;
+  private readonly maxSize: number;
+  private hits = 0;
+  private misses = 0;
+  private evictions = 0;
+  private invalidations = 0;
+  private errors = 0;
+  private lastKnownSize = 0;
+
+  constructor(private readonly config: CacheConfig, backend?: AICacheBackend) {
     this.maxSize = config.maxSize;
+    this.backend = backend || createCacheBackend(config);
   }
 
   /**
    * Generate cache key from request
    */
   private getCacheKey(request: AIRequest): string {
-    // Create a hash of the request to use as cache key
+    // Per-request cache options and the stream flag do not change the response
     const key = JSON.stringify({
       messages: request.messages,
       model: request.model,
@@ -419,71 +807,108 @@ export class AICache {
       topP: request.topP,
       maxTokens: request.maxTokens,
       systemPrompt: request.systemPrompt,
+      functions: request.functions,
+      functionCall: request.functionCall,
     });
-    
-    return Buffer.from(key).toString('base64');
+
+    return createHash('sha256').update(key).digest('hex');
   }
 
   /**
    * Get cached response if available and not expired
    */
-  public get(request: AIRequest): AIResponse | null {
-    if (!this.config.enabled) {
+  public async get(request: AIRequest): Promise<AIResponse | null> {
+    if (!this.config.enabled || request.cache?.bypass) {
       return null;
     }
 
-    const key = this.getCacheKey(request);
-    const cached = this.cache.get(key);
-
-    if (!cached) {
-      return null;
-    }
+    try {
+      const entry = await this.backend.get(this.getCacheKey(request));
+      if (!entry) {
+        this.misses++;
+        return null;
+      }
 
-    if (Date.now() > cached.expiry) {
-      this.cache.delete(key);
+      this.hits++;
+      return entry.response;
+    } catch (error) {
+      this.recordError('read', error);
+      this.misses++;
       return null;
     }
-
-    return cached.data;
   }
 
   /**
    * Store response in cache
    */
-  public set(request: AIRequest, response: AIResponse): void {
-    if (!this.config.enabled) {
+  public async set(request: AIRequest, response: AIResponse): Promise<void> {
+    if (!this.config.enabled || request.cache?.bypass) {
       return;
     }
 
-    const key = this.getCacheKey(request);
-    const expiry = Date.now() + this.config.ttl;
+    const now = Date.now();
+    try {
+      this.evictions += await this.backend.set(
+        this.getCacheKey(request),
+        {
+          response,
+          expiresAt: now + (request.cache?.ttl ?? this.config.ttl),
+          createdAt: now,
+          tags: request.cache?.tags || [],
+        },
+        this.maxSize
+      );
+      this.lastKnownSize = await this.backend.size();
+    } catch (error) {
+      this.recordError('write', error);
+    }
+  }
 
-    // Evict oldest entries if cache is full
-    if (this.cache.size >= this.maxSize) {
-      const oldestKey = this.cache.keys().next().value;
-      this.cache.delete(oldestKey);
+  /**
+   * Remove every cached response carrying one of the tags
+   */
+  public async invalidateTags(tags: string[]): Promise<number> {
+    if (tags.length === 0) {
+      return 0;
     }
 
-    this.cache.set(key, { data: response, expiry });
+    const removed = await this.backend.invalidateTags(tags);
+    this.invalidations += removed;
+    this.lastKnownSize = Math.max(0, this.lastKnownSize - removed);
+    return removed;
   }
 
   /**
    * Clear all cached entries
    */
-  public clear(): void {
-    this.cache.clear();
+  public async clear(): Promise<void> {
+    await this.backend.clear();
+    this.lastKnownSize = 0;
   }
 
   /**
-   * Get cache statistics
+   * Get cache statistics for this process
    */
-  public getStats(): { size: number; maxSize: number; hitRate: number } {
+  public getStats(): AICacheStats {
+    const lookups = this.hits + this.misses;
+
     return {
-      size: this.cache.size,
+      backend: this.backend.type,
+      size: this.lastKnownSize,
       maxSize: this.maxSize,
-      hitRate: 0, // TODO: Implement hit rate tracking
+      hits: this.hits,
+      misses: this.misses,
+      hitRate: lookups > 0 ? this.hits / lookups : 0,
+      evictions: this.evictions,
+      invalidations: this.invalidations,
+      errors: this.errors,
     };
   }
+
+  private recordError(operation: string, error: unknown): void {
+    this.errors++;
+    console.warn(`AI cache ${operation} failed (${this.backend.type}):`, error);
+  }
 }
 
 /**
@@ -569,6 +994,26 @@ export class AIUtils {
     return Math.ceil(text.length / 4);
   }
 
+  /**
+   * Cosine similarity of two embedding vectors (0 when lengths differ or a vector is empty)
+   */
+  public static cosineSimilarity(a: number[], b: number[]): number {
+    if (a.length === 0 || a.length !== b.length) {
+      return 0;
+    }
+
+    let dot = 0;
+    let normA = 0;
+    let normB = 0;
+    for (let i = 0; i < a.length; i++) {
+      dot += a[i] * b[i];
+      normA += a[i] * a[i];
+      normB += b[i] * b[i];
+    }
+
+    return normA && normB ? dot / Math.sqrt(normA * normB) : 0;
+  }
+
   /**
    * Validate model capabilities against request requirements
    */
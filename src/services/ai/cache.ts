@@ -0,0 +1,421 @@
+/**
+ * Response cache backends for BooksOfLife AI Service
+ *
+ * The in-memory backend is per process, so every serverless instance and worker
+ * starts cold. The Postgres and Redis backends are shared between instances:
+ * Postgres uses the app database, Redis is reached over an Upstash-compatible
+ * REST endpoint so it also works from edge runtimes without a TCP client.
+ */
+
+import type { SQL } from 'drizzle-orm';
+import {
+  AICacheBackend,
+  AICacheBackendType,
+  AICacheEntry,
+  CacheConfig,
+} from '@/types/ai';
+
+/**
+ * Default key prefix for shared stores
+ */
+const DEFAULT_KEY_PREFIX = 'ai-cache';
+
+/**
+ * Tag for responses derived from a book's metadata
+ */
+export function bookCacheTag(bookUuid: string): string {
+  return `book:${bookUuid}`;
+}
+
+/**
+ * Per-process cache; oldest entries are evicted first
+ */
+export class MemoryCacheBackend implements AICacheBackend {
+  public readonly type: AICacheBackendType = 'memory';
+  private entries = new Map<string, AICacheEntry>();
+  private tagIndex = new Map<string, Set<string>>();
+
+  public async get(key: string): Promise<AICacheEntry | null> {
+    const entry = this.entries.get(key);
+    if (!entry) {
+      return null;
+    }
+
+    if (Date.now() > entry.expiresAt) {
+      this.delete(key);
+      return null;
+    }
+
+    return entry;
+  }
+
+  public async set(key: string, entry: AICacheEntry, maxSize: number): Promise<number> {
+    // Re-inserting moves the key to the end of the eviction order
+    this.delete(key);
+    this.entries.set(key, entry);
+    for (const tag of entry.tags) {
+      if (!this.tagIndex.has(tag)) {
+        this.tagIndex.set(tag, new Set());
+      }
+      this.tagIndex.get(tag)!.add(key);
+    }
+
+    let evicted = 0;
+    if (this.entries.size > maxSize) {
+      evicted += this.removeExpired();
+    }
+    while (this.entries.size > maxSize) {
+      const oldestKey = this.entries.keys().next().value as string;
+      this.delete(oldestKey);
+      evicted++;
+    }
+    return evicted;
+  }
+
+  public async invalidateTags(tags: string[]): Promise<number> {
+    let removed = 0;
+    for (const tag of tags) {
+      for (const key of Array.from(this.tagIndex.get(tag) || [])) {
+        if (this.delete(key)) {
+          removed++;
+        }
+      }
+      this.tagIndex.delete(tag);
+    }
+    return removed;
+  }
+
+  public async clear(): Promise<void> {
+    this.entries.clear();
+    this.tagIndex.clear();
+  }
+
+  public async size(): Promise<number> {
+    return this.entries.size;
+  }
+
+  private delete(key: string): boolean {
+    const entry = this.entries.get(key);
+    if (!entry) {
+      return false;
+    }
+
+    this.entries.delete(key);
+    for (const tag of entry.tags) {
+      const keys = this.tagIndex.get(tag);
+      keys?.delete(key);
+      if (keys && keys.size === 0) {
+        this.tagIndex.delete(tag);
+      }
+    }
+    return true;
+  }
+
+  private removeExpired(): number {
+    const now = Date.now();
+    let removed = 0;
+    for (const [key, entry] of Array.from(this.entries)) {
+      if (now > entry.expiresAt && this.delete(key)) {
+        removed++;
+      }
+    }
+    return removed;
+  }
+}
+
+/**
+ * Cache in the app database (`ai_response_cache` and `ai_response_cache_tags`).
+ * The database module is loaded on first use so the AI service can be
+ * imported where no database is configured.
+ */
+export class PostgresCacheBackend implements AICacheBackend {
+  public readonly type: AICacheBackendType = 'postgres';
+
+  public async get(key: string): Promise<AICacheEntry | null> {
+    const { db, schema, orm } = await this.load();
+    const [row] = await db
+      .select()
+      .from(schema.ai_response_cache)
+      .where(orm.eq(schema.ai_response_cache.cache_key, key))
+      .limit(1);
+
+    if (!row) {
+      return null;
+    }
+
+    const expiresAt = new Date(row.expires_at).getTime();
+    if (Date.now() > expiresAt) {
+      await this.deleteKeys([key]);
+      return null;
+    }
+
+    const tags = await db
+      .select()
+      .from(schema.ai_response_cache_tags)
+      .where(orm.eq(schema.ai_response_cache_tags.cache_key, key));
+
+    return {
+      response: typeof row.response === 'string' ? JSON.parse(row.response) : row.response,
+      expiresAt,
+      createdAt: row.created_at ? new Date(row.created_at).getTime() : expiresAt,
+      tags: tags.map((tag: { tag: string }) => tag.tag),
+    };
+  }
+
+  public async set(key: string, entry: AICacheEntry, maxSize: number): Promise<number> {
+    const { db, schema } = await this.load();
+
+    await this.deleteKeys([key]);
+    await db.insert(schema.ai_response_cache).values({
+      cache_key: key,
+      response: entry.response,
+      expires_at: new Date(entry.expiresAt),
+      created_at: new Date(entry.createdAt),
+    });
+    if (entry.tags.length > 0) {
+      await db.insert(schema.ai_response_cache_tags).values(
+        entry.tags.map(tag => ({ cache_key: key, tag }))
+      );
+    }
+
+    return this.evict(maxSize);
+  }
+
+  public async invalidateTags(tags: string[]): Promise<number> {
+    if (tags.length === 0) {
+      return 0;
+    }
+
+    const { db, schema, orm } = await this.load();
+    const rows = await db
+      .select()
+      .from(schema.ai_response_cache_tags)
+      .where(orm.inArray(schema.ai_response_cache_tags.tag, tags));
+
+    const keys = Array.from(new Set<string>(rows.map((row: { cache_key: string }) => row.cache_key)));
+    await this.deleteKeys(keys);
+    return keys.length;
+  }
+
+  public async clear(): Promise<void> {
+    const { db, schema } = await this.load();
+    await db.delete(schema.ai_response_cache_tags);
+    await db.delete(schema.ai_response_cache);
+  }
+
+  public async size(): Promise<number> {
+    const { db, schema, orm } = await this.load();
+    const [row] = await db
+      .select({ count: orm.sql<number>`count(*)` })
+      .from(schema.ai_response_cache);
+    return Number(row?.count || 0);
+  }
+
+  /**
+   * Drop expired entries, then the oldest ones beyond maxSize
+   */
+  private async evict(maxSize: number): Promise<number> {
+    const total = await this.size();
+    if (total <= maxSize) {
+      return 0;
+    }
+
+    const { db, schema, orm } = await this.load();
+    const cache = schema.ai_response_cache;
+    const expired = await this.deleteWhere(orm.lt(cache.expires_at, new Date()));
+
+    const excess = total - expired - maxSize;
+    if (excess <= 0) {
+      return expired;
+    }
+
+    const oldest = db
+      .select({ cache_key: orm.sql<string>`${cache.cache_key}` })
+      .from(cache)
+      .orderBy(orm.asc(cache.created_at))
+      .limit(excess);
+    return expired + await this.deleteWhere(orm.inArray(cache.cache_key, oldest));
+  }
+
+  /**
+   * Delete the entries matching a condition and their tags; returns how many were removed
+   */
+  private async deleteWhere(condition: SQL): Promise<number> {
+    const { db, schema, orm } = await this.load();
+    const removed = await db
+      .delete(schema.ai_response_cache)
+      .where(condition)
+      .returning({ cache_key: orm.sql<string>`${schema.ai_response_cache.cache_key}` });
+
+    if (removed.length > 0) {
+      await db
+        .delete(schema.ai_response_cache_tags)
+        .where(orm.inArray(schema.ai_response_cache_tags.cache_key, removed.map(row => row.cache_key)));
+    }
+    return removed.length;
+  }
+
+  private async deleteKeys(keys: string[]): Promise<void> {
+    if (keys.length === 0) {
+      return;
+    }
+
+    const { schema, orm } = await this.load();
+    await this.deleteWhere(orm.inArray(schema.ai_response_cache.cache_key, keys));
+  }
+
+  private async load() {
+    const [{ database }, schema, orm] = await Promise.all([
+      import('@/db'),
+      import('@/db/schema'),
+      import('drizzle-orm'),
+    ]);
+    return { db: database, schema, orm };
+  }
+}
+
+/**
+ * Cache in Redis over a REST endpoint (Upstash and compatible proxies).
+ * Entries expire through Redis TTLs; a sorted set of keys scored by expiry
+ * gives the size and eviction order, and a set per tag lists its keys.
+ */
+export class RedisCacheBackend implements AICacheBackend {
+  public readonly type: AICacheBackendType = 'redis';
+  private readonly indexKey: string;
+
+  constructor(
+    private readonly url: string,
+    private readonly token: string | undefined,
+    private readonly keyPrefix: string = DEFAULT_KEY_PREFIX
+  ) {
+    this.indexKey = `${keyPrefix}:index`;
+  }
+
+  public async get(key: string): Promise<AICacheEntry | null> {
+    const value = await this.command(['GET', this.entryKey(key)]);
+    return typeof value === 'string' ? JSON.parse(value) : null;
+  }
+
+  public async set(key: string, entry: AICacheEntry, maxSize: number): Promise<number> {
+    const ttl = Math.max(1, entry.expiresAt - Date.now());
+    const commands: (string | number)[][] = [
+      ['SET', this.entryKey(key), JSON.stringify(entry), 'PX', ttl],
+      ['ZADD', this.indexKey, entry.expiresAt, key],
+    ];
+    for (const tag of entry.tags) {
+      commands.push(['SADD', this.tagKey(tag), key]);
+      // Tag sets expire with their longest-lived entry (NX covers new sets, GT extends)
+      commands.push(['PEXPIRE', this.tagKey(tag), ttl, 'GT']);
+      commands.push(['PEXPIRE', this.tagKey(tag), ttl, 'NX']);
+    }
+    await this.pipeline(commands);
+
+    return this.evict(maxSize);
+  }
+
+  public async invalidateTags(tags: string[]): Promise<number> {
+    let removed = 0;
+    for (const tag of tags) {
+      const keys = (await this.command(['SMEMBERS', this.tagKey(tag)])) as string[] | null;
+      if (keys && keys.length > 0) {
+        const results = await this.pipeline([
+          ['DEL', ...keys.map(key => this.entryKey(key))],
+          ['ZREM', this.indexKey, ...keys],
+        ]);
+        removed += Number(results[0]) || 0;
+      }
+      await this.command(['DEL', this.tagKey(tag)]);
+    }
+    return removed;
+  }
+
+  public async clear(): Promise<void> {
+    const keys = (await this.command(['ZRANGE', this.indexKey, 0, -1])) as string[] | null;
+    const commands: (string | number)[][] = [['DEL', this.indexKey]];
+    if (keys && keys.length > 0) {
+      commands.unshift(['DEL', ...keys.map(key => this.entryKey(key))]);
+    }
+    await this.pipeline(commands);
+  }
+
+  public async size(): Promise<number> {
+    const [, count] = await this.pipeline([
+      ['ZREMRANGEBYSCORE', this.indexKey, '-inf', Date.now()],
+      ['ZCARD', this.indexKey],
+    ]);
+    return Number(count) || 0;
+  }
+
+  /**
+   * Entries expiring soonest go first once the index is over maxSize
+   */
+  private async evict(maxSize: number): Promise<number> {
+    const size = await this.size();
+    if (size <= maxSize) {
+      return 0;
+    }
+
+    const keys = (await this.command(['ZRANGE', this.indexKey, 0, size - maxSize - 1])) as string[] | null;
+    if (!keys || keys.length === 0) {
+      return 0;
+    }
+
+    await this.pipeline([
+      ['DEL', ...keys.map(key => this.entryKey(key))],
+      ['ZREM', this.indexKey, ...keys],
+    ]);
+    return keys.length;
+  }
+
+  private entryKey(key: string): string {
+    return `${this.keyPrefix}:entry:${key}`;
+  }
+
+  private tagKey(tag: string): string {
+    return `${this.keyPrefix}:tag:${tag}`;
+  }
+
+  private async command(args: (string | number)[]): Promise<unknown> {
+    const [result] = await this.pipeline([args]);
+    return result;
+  }
+
+  private async pipeline(commands: (string | number)[][]): Promise<unknown[]> {
+    const response = await fetch(`${this.url.replace(/\/$/, '')}/pipeline`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(this.token ? { Authorization: `Bearer ${this.token}` } : {}),
+      },
+      body: JSON.stringify(commands.map(command => command.map(String))),
+    });
+
+    if (!response.ok) {
+      throw new Error(`Redis cache request failed: ${response.status} ${response.statusText}`);
+    }
+
+    const results = (await response.json()) as { result?: unknown; error?: string }[];
+    const failed = results.find(result => result.error);
+    if (failed) {
+      throw new Error(`Redis cache command failed: ${failed.error}`);
+    }
+    return results.map(result => result.result ?? null);
+  }
+}
+
+/**
+ * Create the backend selected by the cache configuration
+ */
+export function createCacheBackend(config: CacheConfig): AICacheBackend {
+  switch (config.backend) {
+    case 'postgres':
+      return new PostgresCacheBackend();
+    case 'redis':
+      if (!config.redisUrl) {
+        throw new Error('AI_CACHE_REDIS_URL is required for the redis cache backend');
+      }
+      return new RedisCacheBackend(config.redisUrl, config.redisToken, config.keyPrefix);
+    default:
+      return new MemoryCacheBackend();
+  }
+}
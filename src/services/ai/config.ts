@@ -13,6 +13,7 @@ import {
   LoadBalancingStrategy,
   CircuitBreakerConfig,
   CacheConfig,
+  AICacheBackendType,
 } from '@/types/ai';
 
 /**
@@ -111,6 +112,10 @@ export function loadAIServiceConfig(): AIServiceConfig {
     ttl: parseInt(process.env.AI_CACHE_TTL || '300000'),
     maxSize: parseInt(process.env.AI_CACHE_MAX_SIZE || '1000'),
     enabled: process.env.AI_CACHE_ENABLED !== 'false',
+    backend: (process.env.AI_CACHE_BACKEND || 'memory') as AICacheBackendType,
+    redisUrl: process.env.AI_CACHE_REDIS_URL,
+    redisToken: process.env.AI_CACHE_REDIS_TOKEN,
+    keyPrefix: process.env.AI_CACHE_KEY_PREFIX,
   };
 
   const defaultTimeout = parseInt(process.env.AI_DEFAULT_TIMEOUT || '30000');
@@ -169,6 +174,14 @@ export function validateAIServiceConfig(config: AIServiceConfig): void {
     throw new Error('Cache TTL must be at least 1000ms');
   }
 
+  if (config.cache.backend && !['memory', 'postgres', 'redis'].includes(config.cache.backend)) {
+    throw new Error(`Unknown cache backend: ${config.cache.backend}`);
+  }
+
+  if (config.cache.backend === 'redis' && !config.cache.redisUrl) {
+    throw new Error('AI_CACHE_REDIS_URL is required for the redis cache backend');
+  }
+
   // Validate retry config
   if (config.maxRetries < 0) {
     throw new Error('Max retries must be non-negative');
@@ -222,6 +235,10 @@ export function getAIServiceConfig(): AIServiceConfig {
  * AI_CACHE_ENABLED=true
  * AI_CACHE_TTL=300000
  * AI_CACHE_MAX_SIZE=1000
+ * AI_CACHE_BACKEND=memory # memory|postgres|redis (postgres and redis are shared between instances)
+ * AI_CACHE_REDIS_URL=https://your-redis-rest-endpoint
+ * AI_CACHE_REDIS_TOKEN=your_redis_rest_token
+ * AI_CACHE_KEY_PREFIX=ai-cache
  * 
  * # Gemini Provider
  * AI_GEMINI_ENABLED=true
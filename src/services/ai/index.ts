@@ -12,6 +12,8 @@ import {
   AIResponse,
   AIStreamChunk,
   AIModel,
+  AIEmbeddingRequest,
+  AIEmbeddingResponse,
   AIServiceConfig,
   AIServiceStats,
   AIError,
@@ -19,6 +21,8 @@ import {
 
 import { AIOrchestrator, createOrchestrator, OrchestrationResult } from './orchestrator';
 import { RoutingCriteria } from './router';
+import { bookCacheTag, createCacheBackend } from './cache';
+import { loadAIServiceConfig } from './config';
 
 /**
  * Main AI service class that provides a simplified interface
@@ -59,6 +63,17 @@ export class AIService {
     yield* this.orchestrator.executeStreamRequest(request, criteria);
   }
 
+  /**
+   * Embed texts with a provider that offers embeddings
+   */
+  public async embed(
+    request: AIEmbeddingRequest,
+    criteria?: RoutingCriteria
+  ): Promise<AIEmbeddingResponse> {
+    const result = await this.orchestrator.executeEmbedRequest(request, criteria);
+    return result.data;
+  }
+
   /**
    * Get comprehensive service statistics
    */
@@ -73,6 +88,13 @@ export class AIService {
     return this.orchestrator.getHealthStatus();
   }
 
+  /**
+   * Get a model definition from a provider
+   */
+  public async getModel(provider: AIProvider, modelId: string): Promise<AIModel | undefined> {
+    return this.orchestrator.getModel(provider, modelId);
+  }
+
   /**
    * Get circuit breaker status for all providers
    */
@@ -90,8 +112,15 @@ export class AIService {
   /**
    * Clear the response cache
    */
-  public clearCache(): void {
-    this.orchestrator.clearCache();
+  public async clearCache(): Promise<void> {
+    await this.orchestrator.clearCache();
+  }
+
+  /**
+   * Remove cached responses carrying any of the tags
+   */
+  public async invalidateCache(tags: string[]): Promise<number> {
+    return this.orchestrator.invalidateCache(tags);
   }
 
   /**
@@ -171,6 +200,17 @@ export async function* streamAI(
   yield* service.streamRequest(request, criteria);
 }
 
+/**
+ * Convenience function for embedding texts
+ */
+export async function embedAI(
+  request: AIEmbeddingRequest,
+  criteria?: RoutingCriteria
+): Promise<AIEmbeddingResponse> {
+  const service = getAIService();
+  return service.embed(request, criteria);
+}
+
 /**
  * Convenience function for requests with detailed results
  */
@@ -182,8 +222,34 @@ export async function askAIWithDetails(
   return service.executeWithDetails(request, criteria);
 }
 
+/**
+ * Remove cached responses carrying any of the tags. Works before the service
+ * is initialized, e.g. in a route that only edits data, as long as the cache
+ * backend is shared; a per-process cache has nothing to invalidate then.
+ */
+export async function invalidateAICache(tags: string[]): Promise<number> {
+  if (aiServiceInstance) {
+    return aiServiceInstance.invalidateCache(tags);
+  }
+
+  const { cache } = loadAIServiceConfig();
+  if (!cache.enabled || !cache.backend || cache.backend === 'memory') {
+    return 0;
+  }
+
+  return createCacheBackend(cache).invalidateTags(tags);
+}
+
+/**
+ * Remove cached responses derived from a book's metadata
+ */
+export async function invalidateBookAICache(bookUuid: string): Promise<number> {
+  return invalidateAICache([bookCacheTag(bookUuid)]);
+}
+
 // Export all components and types
 export * from './base';
+export * from './cache';
 export * from './router';
 export * from './orchestrator';
 export * from './providers';
@@ -195,6 +261,8 @@ export type {
   AIResponse,
   AIStreamChunk,
   AIModel,
+  AIEmbeddingRequest,
+  AIEmbeddingResponse,
   ProviderConfig,
   IAIAdapter,
   AIServiceConfig,
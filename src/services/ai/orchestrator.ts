@@ -12,6 +12,8 @@ import {
   AIResponse,
   AIStreamChunk,
   AIModel,
+  AIEmbeddingRequest,
+  AIEmbeddingResponse,
   IAIAdapter,
   AIServiceConfig,
   AIServiceStats,
@@ -171,11 +173,14 @@ export class AIOrchestrator {
     this.stats.totalRequests++;
 
     // Check cache first
-    const cachedResponse = this.cache.get(request);
+    const cachedResponse = await this.cache.get(request);
     if (cachedResponse) {
       this.updateCacheHitStats();
       return {
-        data: cachedResponse,
+        data: {
+          ...cachedResponse,
+          metadata: { ...cachedResponse.metadata, cached: true },
+        },
         provider: cachedResponse.provider,
         attempts: 0,
         duration: 0,
@@ -223,11 +228,86 @@ export class AIOrchestrator {
     yield* this.executeStreamRequestInternal(context);
   }
 
+  /**
+   * Embed texts with a provider that offers embeddings.
+   * A preferred provider is used exclusively: vectors from different
+   * models cannot be compared, so an index must be queried with the
+   * provider that built it.
+   */
+  public async executeEmbedRequest(
+    request: AIEmbeddingRequest,
+    criteria: RoutingCriteria = {}
+  ): Promise<OrchestrationResult<AIEmbeddingResponse>> {
+    this.ensureInitialized();
+    this.stats.totalRequests++;
+
+    const startTime = Date.now();
+    const excluded = new Set(criteria.excludedProviders || []);
+    const candidates = Array.from(this.adapters.entries())
+      .filter(([provider, adapter]) =>
+        adapter.supportsEmbeddings() &&
+        !excluded.has(provider) &&
+        (!criteria.preferredProvider || provider === criteria.preferredProvider) &&
+        this.circuitBreakers.get(provider)?.getStatus().state !== 'open'
+      )
+      .sort(([a], [b]) => this.getProviderPriority(b) - this.getProviderPriority(a));
+
+    if (candidates.length === 0) {
+      this.updateFailureStats(Date.now() - startTime);
+      throw new AIError(
+        criteria.preferredProvider
+          ? `${criteria.preferredProvider} is not available for embeddings`
+          : 'No providers available for embeddings',
+        criteria.preferredProvider || 'gemini',
+        'NO_EMBEDDING_PROVIDERS'
+      );
+    }
+
+    const attemptedProviders: AIProvider[] = [];
+    let lastError: Error | undefined;
+
+    for (const [provider, adapter] of candidates.slice(0, this.config.maxRetries)) {
+      attemptedProviders.push(provider);
+
+      try {
+        const response = await this.circuitBreakers.get(provider)!.execute(() => adapter.embed(request));
+        const duration = Date.now() - startTime;
+        this.updateSuccessStats(provider, duration, response);
+
+        return {
+          data: response,
+          provider,
+          attempts: attemptedProviders.length,
+          duration,
+          failoverUsed: attemptedProviders.length > 1,
+          providersAttempted: attemptedProviders,
+        };
+      } catch (error) {
+        lastError = error instanceof Error ? error : new Error(String(error));
+        console.warn(`Embedding attempt failed for ${provider}:`, lastError.message);
+
+        if (!this.shouldRetry(lastError, attemptedProviders.length)) {
+          break;
+        }
+      }
+    }
+
+    this.updateFailureStats(Date.now() - startTime);
+    throw new AIError(
+      `All ${attemptedProviders.length} embedding attempts failed`,
+      attemptedProviders[attemptedProviders.length - 1],
+      'ALL_ATTEMPTS_FAILED',
+      false,
+      lastError
+    );
+  }
+
   /**
    * Get comprehensive orchestrator statistics
    */
   public getStats(): AIServiceStats {
-    return { ...this.stats };
+    const cache = this.cache.getStats();
+    return { ...this.stats, cacheHitRate: cache.hitRate, cache };
   }
 
   /**
@@ -250,6 +330,24 @@ export class AIOrchestrator {
     return healthStatus as Record<AIProvider, boolean>;
   }
 
+  /**
+   * Look up a model definition (including pricing) from a provider
+   */
+  public async getModel(provider: AIProvider, modelId: string): Promise<AIModel | undefined> {
+    const adapter = this.adapters.get(provider);
+    if (!adapter) {
+      return undefined;
+    }
+
+    try {
+      const models = await adapter.getModels();
+      return models.find(model => model.id === modelId);
+    } catch (error) {
+      console.warn(`Failed to get models from ${provider}:`, error);
+      return undefined;
+    }
+  }
+
   /**
    * Get circuit breaker status for all providers
    */
@@ -292,8 +390,15 @@ export class AIOrchestrator {
   /**
    * Clear response cache
    */
-  public clearCache(): void {
-    this.cache.clear();
+  public async clearCache(): Promise<void> {
+    await this.cache.clear();
+  }
+
+  /**
+   * Remove cached responses carrying any of the tags
+   */
+  public async invalidateCache(tags: string[]): Promise<number> {
+    return this.cache.invalidateTags(tags);
   }
 
   /**
@@ -366,7 +471,7 @@ export class AIOrchestrator {
           );
 
           // Cache successful response
-          this.cache.set(context.request, response);
+          await this.cache.set(context.request, response);
 
           // Update success statistics
           const duration = Date.now() - context.startTime;
@@ -729,10 +834,21 @@ export class AIOrchestrator {
     return stats;
   }
 
+  /**
+   * Configured priority of a provider (higher = preferred)
+   */
+  private getProviderPriority(provider: AIProvider): number {
+    return this.config.providers.find(config => config.provider === provider)?.priority || 0;
+  }
+
   /**
    * Update statistics for successful requests
    */
-  private updateSuccessStats(provider: AIProvider, duration: number, response: AIResponse): void {
+  private updateSuccessStats(
+    provider: AIProvider,
+    duration: number,
+    response: Pick<AIResponse, 'usage'> | Pick<AIEmbeddingResponse, 'usage'>
+  ): void {
     this.stats.successfulRequests++;
     this.stats.totalTokensUsed += response.usage.totalTokens;
     
@@ -12,7 +12,6 @@ import {
   AIStreamChunk,
   AIModel,
   ProviderConfig,
-  AIMessage,
   ModelCapabilities,
   AuthenticationError,
   RateLimitError,
@@ -20,7 +19,7 @@ import {
   ModelNotAvailableError,
   AIError,
 } from '@/types/ai';
-import { BaseAIAdapter } from '../base';
+import { BaseAIAdapter, OpenAIToolCall } from '../base';
 
 /**
  * DeepSeek API response interface (OpenAI-compatible)
@@ -34,7 +33,8 @@ interface DeepSeekResponse {
     index: number;
     message: {
       role: string;
-      content: string;
+      content: string | null;
+      tool_calls?: OpenAIToolCall[];
     };
     finish_reason: string;
   }>;
@@ -58,6 +58,7 @@ interface DeepSeekStreamChunk {
     delta: {
       role?: string;
       content?: string;
+      tool_calls?: OpenAIToolCall[];
     };
     finish_reason?: string;
   }>;
@@ -395,36 +396,12 @@ export class DeepSeekAdapter extends BaseAIAdapter {
       top_p: request.topP,
       max_tokens: request.maxTokens,
       stream,
+      ...this.buildOpenAITools(request),
     };
 
     return body;
   }
 
-  /**
-   * Convert our message format to OpenAI format
-   */
-  private convertMessagesToOpenAIFormat(messages: AIMessage[], systemPrompt?: string): any[] {
-    const openaiMessages = [];
-
-    // Add system message if provided
-    if (systemPrompt) {
-      openaiMessages.push({
-        role: 'system',
-        content: systemPrompt,
-      });
-    }
-
-    // Convert messages
-    for (const message of messages) {
-      openaiMessages.push({
-        role: message.role === 'assistant' ? 'assistant' : 'user',
-        content: message.content,
-      });
-    }
-
-    return openaiMessages;
-  }
-
   /**
    * Map DeepSeek response to our AIResponse format
    */
@@ -436,6 +413,7 @@ export class DeepSeekAdapter extends BaseAIAdapter {
 
     const content = choice.message?.content || '';
     const finishReason = this.mapFinishReason(choice.finish_reason);
+    const functionCalls = this.mapOpenAIToolCalls(choice.message?.tool_calls);
 
     const usage = {
       inputTokens: response.usage.prompt_tokens,
@@ -452,6 +430,7 @@ export class DeepSeekAdapter extends BaseAIAdapter {
         duration: 0, // Will be set by base adapter
         timestamp: 0, // Will be set by base adapter
         finishReason,
+        functionCalls,
       },
     };
   }
@@ -471,8 +450,13 @@ export class DeepSeekAdapter extends BaseAIAdapter {
       done,
       model: chunk.model,
       provider: this.provider,
+      functionCallDeltas: this.mapOpenAIToolCallDeltas(choice.delta?.tool_calls),
     };
 
+    if (done) {
+      streamChunk.finishReason = this.mapFinishReason(choice.finish_reason!);
+    }
+
     if (done && chunk.usage) {
       streamChunk.usage = {
         inputTokens: chunk.usage.prompt_tokens,
@@ -13,6 +13,10 @@ import {
   AIModel,
   ProviderConfig,
   AIMessage,
+  AIFunctionCall,
+  AIFunctionCallDelta,
+  AIEmbeddingRequest,
+  AIEmbeddingResponse,
   ModelCapabilities,
   AuthenticationError,
   RateLimitError,
@@ -20,7 +24,22 @@ import {
   ModelNotAvailableError,
   AIError,
 } from '@/types/ai';
-import { BaseAIAdapter } from '../base';
+import { BaseAIAdapter, AIUtils } from '../base';
+
+/**
+ * Gemini content part: text, a function call from the model or a function result
+ */
+interface GeminiPart {
+  text?: string;
+  functionCall?: {
+    name: string;
+    args?: Record<string, any>;
+  };
+  functionResponse?: {
+    name: string;
+    response: Record<string, any>;
+  };
+}
 
 /**
  * Gemini API response interface
@@ -28,9 +47,7 @@ import { BaseAIAdapter } from '../base';
 interface GeminiResponse {
   candidates: Array<{
     content: {
-      parts: Array<{
-        text: string;
-      }>;
+      parts: GeminiPart[];
       role: string;
     };
     finishReason: string;
@@ -53,9 +70,7 @@ interface GeminiResponse {
 interface GeminiStreamChunk {
   candidates?: Array<{
     content: {
-      parts: Array<{
-        text: string;
-      }>;
+      parts: GeminiPart[];
       role: string;
     };
     finishReason?: string;
@@ -80,6 +95,13 @@ interface GeminiModelInfo {
   supportedGenerationMethods: string[];
 }
 
+/**
+ * Gemini batch embedding response interface
+ */
+interface GeminiEmbeddingResponse {
+  embeddings: Array<{ values: number[] }>;
+}
+
 /**
  * Gemini provider adapter implementation
  */
@@ -88,6 +110,9 @@ export class GeminiAdapter extends BaseAIAdapter {
   
   private baseUrl = 'https://generativelanguage.googleapis.com';
   private apiVersion = 'v1beta';
+  private embeddingModel = 'text-embedding-004';
+
+  protected maxEmbeddingBatchSize = 100;
 
   /**
    * Validate Gemini API configuration
@@ -311,7 +336,7 @@ export class GeminiAdapter extends BaseAIAdapter {
    */
   protected async* performStreamRequest(request: AIRequest): AsyncGenerator<AIStreamChunk, void, unknown> {
     const modelName = request.model || 'gemini-1.5-flash';
-    const url = `${this.config?.baseUrl || this.baseUrl}/${this.apiVersion}/models/${modelName}:streamGenerateContent?key=${this.config?.apiKey}`;
+    const url = `${this.config?.baseUrl || this.baseUrl}/${this.apiVersion}/models/${modelName}:streamGenerateContent?alt=sse&key=${this.config?.apiKey}`;
 
     const requestBody = this.buildRequestBody(request);
 
@@ -335,6 +360,7 @@ export class GeminiAdapter extends BaseAIAdapter {
       const reader = response.body.getReader();
       const decoder = new TextDecoder();
       let buffer = '';
+      let functionCallCount = 0;
 
       try {
         while (true) {
@@ -355,8 +381,9 @@ export class GeminiAdapter extends BaseAIAdapter {
 
               try {
                 const chunk: GeminiStreamChunk = JSON.parse(jsonData);
-                const streamChunk = this.mapGeminiStreamChunkToAIStreamChunk(chunk, modelName);
+                const streamChunk = this.mapGeminiStreamChunkToAIStreamChunk(chunk, modelName, functionCallCount);
                 if (streamChunk) {
+                  functionCallCount += streamChunk.functionCallDeltas?.length || 0;
                   yield streamChunk;
                 }
               } catch (parseError) {
@@ -373,6 +400,64 @@ export class GeminiAdapter extends BaseAIAdapter {
     }
   }
 
+  /**
+   * Gemini offers text-embedding-004
+   */
+  public supportsEmbeddings(): boolean {
+    return true;
+  }
+
+  /**
+   * Embed texts with batchEmbedContents
+   */
+  protected async performEmbedRequest(request: AIEmbeddingRequest): Promise<AIEmbeddingResponse> {
+    const modelName = request.model || this.embeddingModel;
+    const url = `${this.config?.baseUrl || this.baseUrl}/${this.apiVersion}/models/${modelName}:batchEmbedContents?key=${this.config?.apiKey}`;
+    const taskType = request.purpose === 'query' ? 'RETRIEVAL_QUERY' : 'RETRIEVAL_DOCUMENT';
+
+    try {
+      const response = await fetch(url, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          requests: request.input.map(text => ({
+            model: `models/${modelName}`,
+            content: { parts: [{ text }] },
+            taskType,
+          })),
+        }),
+      });
+
+      if (!response.ok) {
+        await this.handleApiError(response);
+      }
+
+      const data: GeminiEmbeddingResponse = await response.json();
+      const embeddings = (data.embeddings || []).map(embedding => embedding.values);
+      // Gemini does not report token usage for embeddings
+      const inputTokens = request.input.reduce((sum, text) => sum + AIUtils.estimateTokens(text), 0);
+
+      return {
+        embeddings,
+        model: modelName,
+        provider: this.provider,
+        dimensions: embeddings[0]?.length || 0,
+        usage: {
+          inputTokens,
+          totalTokens: inputTokens,
+        },
+        metadata: {
+          duration: 0,
+          timestamp: Date.now(),
+        },
+      };
+    } catch (error) {
+      throw this.wrapError(error, 0);
+    }
+  }
+
   /**
    * Fetch current rate limit status
    */
@@ -412,30 +497,125 @@ export class GeminiAdapter extends BaseAIAdapter {
       };
     }
 
+    // Add function declarations if provided
+    if (request.functions && request.functions.length > 0) {
+      const mode = request.functionCall || 'auto';
+
+      body.tools = [{
+        functionDeclarations: request.functions.map(fn => ({
+          name: fn.name,
+          description: fn.description,
+          parameters: this.toGeminiSchema(fn.parameters),
+        })),
+      }];
+      body.toolConfig = {
+        functionCallingConfig: typeof mode === 'object'
+          ? { mode: 'ANY', allowedFunctionNames: [mode.name] }
+          : { mode: mode === 'required' ? 'ANY' : mode.toUpperCase() },
+      };
+    }
+
     return body;
   }
 
+  /**
+   * Strip JSON schema keywords Gemini rejects from function parameters
+   */
+  private toGeminiSchema(schema: any): any {
+    if (Array.isArray(schema)) {
+      return schema.map(item => this.toGeminiSchema(item));
+    }
+    if (!schema || typeof schema !== 'object') {
+      return schema;
+    }
+
+    const result: Record<string, any> = {};
+    for (const [key, value] of Object.entries(schema)) {
+      if (key === 'additionalProperties' || key === '$schema' || key === 'default') continue;
+      result[key] = key === 'properties'
+        ? Object.fromEntries(Object.entries(value as Record<string, any>).map(([name, prop]) => [name, this.toGeminiSchema(prop)]))
+        : this.toGeminiSchema(value);
+    }
+    return result;
+  }
+
   /**
    * Convert our message format to Gemini format
    */
-  private convertMessagesToGeminiFormat(messages: AIMessage[]): any[] {
-    const geminiContents = [];
+  private convertMessagesToGeminiFormat(messages: AIMessage[]): Array<{ role: string; parts: GeminiPart[] }> {
+    const geminiContents: Array<{ role: string; parts: GeminiPart[] }> = [];
 
     for (const message of messages) {
       // Skip system messages as they're handled separately
       if (message.role === 'system') continue;
 
+      if (message.role === 'function' && message.functionCall) {
+        const part: GeminiPart = {
+          functionResponse: {
+            name: message.functionCall.name,
+            response: this.toFunctionResponse(message.content),
+          },
+        };
+
+        // Results of parallel calls go back together in one turn
+        const previous = geminiContents[geminiContents.length - 1];
+        if (previous?.parts.every(p => p.functionResponse)) {
+          previous.parts.push(part);
+        } else {
+          geminiContents.push({ role: 'user', parts: [part] });
+        }
+        continue;
+      }
+
       const role = message.role === 'assistant' ? 'model' : 'user';
-      
+      const parts: GeminiPart[] = message.content ? [{ text: message.content }] : [];
+
+      if (message.role === 'assistant') {
+        const calls = message.functionCalls?.length
+          ? message.functionCalls
+          : message.functionCall ? [message.functionCall] : [];
+        for (const call of calls) {
+          parts.push({ functionCall: { name: call.name, args: call.arguments } });
+        }
+      }
+
       geminiContents.push({
         role,
-        parts: [{ text: message.content }],
+        parts: parts.length > 0 ? parts : [{ text: '' }],
       });
     }
 
     return geminiContents;
   }
 
+  /**
+   * Gemini expects function results as objects; wrap plain text results
+   */
+  private toFunctionResponse(content: string): Record<string, any> {
+    try {
+      const parsed = JSON.parse(content);
+      if (parsed && typeof parsed === 'object' && !Array.isArray(parsed)) {
+        return parsed;
+      }
+    } catch {
+      // Not JSON
+    }
+    return { content };
+  }
+
+  /**
+   * Map Gemini function call parts to function calls; Gemini has no call ids so they are positional
+   */
+  private mapGeminiFunctionCalls(parts: GeminiPart[] = [], offset: number = 0): AIFunctionCall[] {
+    return parts
+      .filter(part => part.functionCall)
+      .map((part, index) => ({
+        id: `call_${offset + index}`,
+        name: part.functionCall!.name,
+        arguments: part.functionCall!.args || {},
+      }));
+  }
+
   /**
    * Map Gemini response to our AIResponse format
    */
@@ -445,8 +625,10 @@ export class GeminiAdapter extends BaseAIAdapter {
       throw new AIError('No candidates in response', this.provider, 'INVALID_RESPONSE');
     }
 
-    const content = candidate.content?.parts?.[0]?.text || '';
+    const parts = candidate.content?.parts || [];
+    const content = parts.map(part => part.text || '').join('');
     const finishReason = this.mapFinishReason(candidate.finishReason);
+    const functionCalls = this.mapGeminiFunctionCalls(parts);
 
     const usage = response.usageMetadata ? {
       inputTokens: response.usageMetadata.promptTokenCount,
@@ -467,6 +649,7 @@ export class GeminiAdapter extends BaseAIAdapter {
         duration: 0, // Will be set by base adapter
         timestamp: 0, // Will be set by base adapter
         finishReason,
+        functionCalls: functionCalls.length > 0 ? functionCalls : undefined,
       },
     };
   }
@@ -474,20 +657,39 @@ export class GeminiAdapter extends BaseAIAdapter {
   /**
    * Map Gemini stream chunk to our format
    */
-  private mapGeminiStreamChunkToAIStreamChunk(chunk: GeminiStreamChunk, model: string): AIStreamChunk | null {
+  private mapGeminiStreamChunkToAIStreamChunk(
+    chunk: GeminiStreamChunk,
+    model: string,
+    functionCallOffset: number = 0
+  ): AIStreamChunk | null {
     const candidate = chunk.candidates?.[0];
     if (!candidate) return null;
 
-    const delta = candidate.content?.parts?.[0]?.text || '';
+    const parts = candidate.content?.parts || [];
+    const delta = parts.map(part => part.text || '').join('');
     const done = candidate.finishReason !== undefined;
 
+    // Gemini streams each function call whole, so every call is a single delta
+    const functionCallDeltas: AIFunctionCallDelta[] = this.mapGeminiFunctionCalls(parts, functionCallOffset)
+      .map((call, index) => ({
+        index: functionCallOffset + index,
+        id: call.id,
+        name: call.name,
+        arguments: JSON.stringify(call.arguments),
+      }));
+
     const streamChunk: AIStreamChunk = {
       delta,
       done,
       model,
       provider: this.provider,
+      functionCallDeltas: functionCallDeltas.length > 0 ? functionCallDeltas : undefined,
     };
 
+    if (done) {
+      streamChunk.finishReason = this.mapFinishReason(candidate.finishReason!);
+    }
+
     if (done && chunk.usageMetadata) {
       streamChunk.usage = {
         inputTokens: chunk.usageMetadata.promptTokenCount,
@@ -160,6 +160,7 @@ export const PROVIDER_CAPABILITIES = {
   gemini: {
     supportsStreaming: true,
     supportsFunctionCalling: true,
+    supportsEmbeddings: true,
     supportsImages: true,
     supportsDocuments: true,
     maxContextTokens: 2000000, // 2M for 1.5-pro
@@ -169,6 +170,7 @@ export const PROVIDER_CAPABILITIES = {
   deepseek: {
     supportsStreaming: true,
     supportsFunctionCalling: true,
+    supportsEmbeddings: false,
     supportsImages: false,
     supportsDocuments: false,
     maxContextTokens: 32768,
@@ -178,6 +180,7 @@ export const PROVIDER_CAPABILITIES = {
   qwen: {
     supportsStreaming: true,
     supportsFunctionCalling: true,
+    supportsEmbeddings: true,
     supportsImages: true,
     supportsDocuments: false,
     maxContextTokens: 32768,
@@ -187,6 +190,7 @@ export const PROVIDER_CAPABILITIES = {
   kimi: {
     supportsStreaming: true,
     supportsFunctionCalling: true,
+    supportsEmbeddings: false,
     supportsImages: false,
     supportsDocuments: true,
     maxContextTokens: 131072, // 128K for v1-128k
@@ -195,7 +199,8 @@ export const PROVIDER_CAPABILITIES = {
   },
   mock: {
     supportsStreaming: true,
-    supportsFunctionCalling: false,
+    supportsFunctionCalling: true,
+    supportsEmbeddings: true,
     supportsImages: false,
     supportsDocuments: false,
     maxContextTokens: 4096,
@@ -213,6 +218,7 @@ export const PROVIDER_CAPABILITIES = {
 export function getProvidersWithCapabilities(requirements: {
   streaming?: boolean;
   functionCalling?: boolean;
+  embeddings?: boolean;
   images?: boolean;
   documents?: boolean;
   minContextTokens?: number;
@@ -222,6 +228,7 @@ export function getProvidersWithCapabilities(requirements: {
     
     if (requirements.streaming && !caps.supportsStreaming) return false;
     if (requirements.functionCalling && !caps.supportsFunctionCalling) return false;
+    if (requirements.embeddings && !caps.supportsEmbeddings) return false;
     if (requirements.images && !caps.supportsImages) return false;
     if (requirements.documents && !caps.supportsDocuments) return false;
     if (requirements.minContextTokens && caps.maxContextTokens < requirements.minContextTokens) return false;
@@ -12,7 +12,6 @@ import {
   AIStreamChunk,
   AIModel,
   ProviderConfig,
-  AIMessage,
   ModelCapabilities,
   AuthenticationError,
   RateLimitError,
@@ -20,7 +19,7 @@ import {
   ModelNotAvailableError,
   AIError,
 } from '@/types/ai';
-import { BaseAIAdapter } from '../base';
+import { BaseAIAdapter, OpenAIToolCall } from '../base';
 
 /**
  * Kimi API response interface (OpenAI-compatible)
@@ -34,7 +33,8 @@ interface KimiResponse {
     index: number;
     message: {
       role: string;
-      content: string;
+      content: string | null;
+      tool_calls?: OpenAIToolCall[];
     };
     finish_reason: string;
   }>;
@@ -58,6 +58,7 @@ interface KimiStreamChunk {
     delta: {
       role?: string;
       content?: string;
+      tool_calls?: OpenAIToolCall[];
     };
     finish_reason?: string;
   }>;
@@ -413,36 +414,12 @@ export class KimiAdapter extends BaseAIAdapter {
       top_p: request.topP,
       max_tokens: request.maxTokens,
       stream,
+      ...this.buildOpenAITools(request),
     };
 
     return body;
   }
 
-  /**
-   * Convert our message format to OpenAI format
-   */
-  private convertMessagesToOpenAIFormat(messages: AIMessage[], systemPrompt?: string): any[] {
-    const openaiMessages = [];
-
-    // Add system message if provided
-    if (systemPrompt) {
-      openaiMessages.push({
-        role: 'system',
-        content: systemPrompt,
-      });
-    }
-
-    // Convert messages
-    for (const message of messages) {
-      openaiMessages.push({
-        role: message.role === 'assistant' ? 'assistant' : 'user',
-        content: message.content,
-      });
-    }
-
-    return openaiMessages;
-  }
-
   /**
    * Map Kimi response to our AIResponse format
    */
@@ -454,6 +431,7 @@ export class KimiAdapter extends BaseAIAdapter {
 
     const content = choice.message?.content || '';
     const finishReason = this.mapFinishReason(choice.finish_reason);
+    const functionCalls = this.mapOpenAIToolCalls(choice.message?.tool_calls);
 
     const usage = {
       inputTokens: response.usage.prompt_tokens,
@@ -470,6 +448,7 @@ export class KimiAdapter extends BaseAIAdapter {
         duration: 0, // Will be set by base adapter
         timestamp: 0, // Will be set by base adapter
         finishReason,
+        functionCalls,
       },
     };
   }
@@ -489,8 +468,13 @@ export class KimiAdapter extends BaseAIAdapter {
       done,
       model: chunk.model,
       provider: this.provider,
+      functionCallDeltas: this.mapOpenAIToolCallDeltas(choice.delta?.tool_calls),
     };
 
+    if (done) {
+      streamChunk.finishReason = this.mapFinishReason(choice.finish_reason!);
+    }
+
     if (done && chunk.usage) {
       streamChunk.usage = {
         inputTokens: chunk.usage.prompt_tokens,
@@ -2,7 +2,11 @@
  * Mock AI Provider for Development and Testing
  * 
  * This provider returns realistic mock responses for development
- * when real AI providers are not configured.
+ * when real AI providers are not configured. Tests can script replies,
+ * including function calls, with `script()`.
+ *
+ * Embeddings are hashed bags of words, so texts sharing words score as
+ * similar and retrieval can be exercised offline.
  */
 
 import {
@@ -11,14 +15,34 @@ import {
   AIResponse,
   AIStreamChunk,
   AIModel,
-  ProviderConfig,
+  AIFunctionCall,
+  AIEmbeddingRequest,
+  AIEmbeddingResponse,
   AIError,
 } from '@/types/ai';
-import { BaseAIAdapter } from '@/services/ai/base';
+import { BaseAIAdapter, AIUtils } from '@/services/ai/base';
+
+/**
+ * Scripted reply for tests: text, function calls, or both
+ */
+export interface MockScriptedResponse {
+  content?: string;
+  functionCalls?: AIFunctionCall[];
+  finishReason?: AIResponse['metadata']['finishReason'];
+}
+
+/**
+ * Length of mock embedding vectors
+ */
+const MOCK_EMBEDDING_DIMENSIONS = 256;
 
 export class MockAIAdapter extends BaseAIAdapter {
   public readonly provider: AIProvider = 'mock';
   private responses = new Map<string, string>();
+  private scripted: MockScriptedResponse[] = [];
+
+  /** Requests received, in order, so tests can inspect what was sent back to the model */
+  public receivedRequests: AIRequest[] = [];
 
   constructor() {
     super();
@@ -161,70 +185,205 @@ I'm here to help you explore any aspect of this book in more depth. Feel free to
     `;
   }
 
-  async request(request: AIRequest): Promise<AIResponse> {
-    // Simulate network delay
-    await new Promise(resolve => setTimeout(resolve, 500 + Math.random() * 1000));
-    
-    const response = this.getMockResponse(request);
-    
+  /**
+   * Queue scripted replies, consumed in order by request and streamRequest
+   * before falling back to the canned responses
+   */
+  public script(...responses: MockScriptedResponse[]): void {
+    this.scripted.push(...responses);
+  }
+
+  /**
+   * Drop pending scripted replies and recorded requests
+   */
+  public resetScript(): void {
+    this.scripted = [];
+    this.receivedRequests = [];
+  }
+
+  protected async validateConfiguration(): Promise<void> {
+    // Nothing to validate for the mock provider
+  }
+
+  protected async fetchModels(): Promise<AIModel[]> {
+    return this.getModelList();
+  }
+
+  protected async performHealthCheck(): Promise<boolean> {
+    return true;
+  }
+
+  protected async fetchRateLimitStatus(): Promise<{
+    remaining: number;
+    resetTime: number;
+    limit: number;
+  }> {
+    // Mock provider has generous limits
+    return {
+      remaining: 1000,
+      resetTime: Date.now() + 3600000, // Reset in 1 hour
+      limit: 1000,
+    };
+  }
+
+  protected async performRequest(request: AIRequest): Promise<AIResponse> {
+    const reply = await this.nextReply(request);
+
     return {
-      id: `mock-${Date.now()}`,
-      content: response.trim(),
-      role: 'assistant',
-      provider: 'mock',
-      model: 'mock-model',
-      usage: {
-        prompt_tokens: 100,
-        completion_tokens: 200,
-        total_tokens: 300
+      content: reply.content,
+      model: request.model || 'mock-model',
+      provider: this.provider,
+      usage: this.getUsage(request, reply),
+      metadata: {
+        duration: 0, // Will be set by base adapter
+        timestamp: 0, // Will be set by base adapter
+        finishReason: reply.finishReason,
+        functionCalls: reply.functionCalls,
       },
-      created_at: new Date().toISOString()
     };
   }
 
-  async *streamRequest(request: AIRequest): AsyncGenerator<AIStreamChunk, void, unknown> {
-    const response = this.getMockResponse(request);
-    const words = response.trim().split(' ');
-    
+  protected async* performStreamRequest(request: AIRequest): AsyncGenerator<AIStreamChunk, void, unknown> {
+    const reply = await this.nextReply(request);
+    const model = request.model || 'mock-model';
+    const words = reply.content ? reply.content.split(' ') : [];
+
     // Simulate streaming by yielding words with realistic delays
     for (let i = 0; i < words.length; i++) {
-      const content = i === 0 ? words[i] : ' ' + words[i];
-      
       yield {
-        id: `mock-${Date.now()}-${i}`,
-        content,
-        role: 'assistant',
-        provider: 'mock',
-        model: 'mock-model',
-        created_at: new Date().toISOString(),
-        delta: { content }
+        delta: i === 0 ? words[i] : ' ' + words[i],
+        done: false,
+        model,
+        provider: this.provider,
       };
-      
-      // Vary the delay to simulate realistic typing
-      const delay = Math.random() * 100 + 50;
-      await new Promise(resolve => setTimeout(resolve, delay));
+
+      if (!reply.scripted) {
+        // Vary the delay to simulate realistic typing
+        await this.sleep(Math.random() * 100 + 50);
+      }
     }
+
+    // Stream each call's arguments in two fragments, the way real providers split them
+    const calls = reply.functionCalls || [];
+    for (let index = 0; index < calls.length; index++) {
+      const args = JSON.stringify(calls[index].arguments);
+      const middle = Math.ceil(args.length / 2);
+
+      yield {
+        delta: '',
+        done: false,
+        model,
+        provider: this.provider,
+        functionCallDeltas: [{ index, id: calls[index].id, name: calls[index].name, arguments: args.slice(0, middle) }],
+      };
+      yield {
+        delta: '',
+        done: false,
+        model,
+        provider: this.provider,
+        functionCallDeltas: [{ index, arguments: args.slice(middle) }],
+      };
+    }
+
+    yield {
+      delta: '',
+      done: true,
+      model,
+      provider: this.provider,
+      usage: this.getUsage(request, reply),
+      finishReason: reply.finishReason,
+    };
   }
 
-  async healthCheck(): Promise<boolean> {
-    // Mock provider is always healthy
+  public supportsEmbeddings(): boolean {
     return true;
   }
 
-  async getRateLimitStatus(): Promise<{
-    remaining: number;
-    resetTime: number;
-    limit: number;
+  protected async performEmbedRequest(request: AIEmbeddingRequest): Promise<AIEmbeddingResponse> {
+    const inputTokens = request.input.reduce((sum, text) => sum + AIUtils.estimateTokens(text), 0);
+
+    return {
+      embeddings: request.input.map(text => this.hashEmbedding(text)),
+      model: request.model || 'mock-embedding',
+      provider: this.provider,
+      dimensions: MOCK_EMBEDDING_DIMENSIONS,
+      usage: { inputTokens, totalTokens: inputTokens },
+      metadata: {
+        duration: 0, // Will be set by base adapter
+        timestamp: 0, // Will be set by base adapter
+      },
+    };
+  }
+
+  /**
+   * Deterministic unit vector: each lowercase word adds +-1 to an FNV-1a hashed bucket
+   */
+  private hashEmbedding(text: string): number[] {
+    const vector = new Array<number>(MOCK_EMBEDDING_DIMENSIONS).fill(0);
+    const words = text.toLowerCase().match(/[a-z0-9\u00c0-\u1fff\u2070-\uffff']+/g) || [];
+
+    for (const word of words) {
+      let hash = 0x811c9dc5;
+      for (let i = 0; i < word.length; i++) {
+        hash ^= word.charCodeAt(i);
+        hash = Math.imul(hash, 0x01000193) >>> 0;
+      }
+      vector[hash % MOCK_EMBEDDING_DIMENSIONS] += hash & 0x80000000 ? -1 : 1;
+    }
+
+    const norm = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0));
+    return norm ? vector.map(value => value / norm) : vector;
+  }
+
+  /**
+   * Next scripted reply, or a canned response after a simulated network delay
+   */
+  private async nextReply(request: AIRequest): Promise<{
+    content: string;
+    functionCalls?: AIFunctionCall[];
+    finishReason: AIResponse['metadata']['finishReason'];
+    scripted: boolean;
   }> {
-    // Mock provider has generous limits
+    this.receivedRequests.push(request);
+
+    const scripted = this.scripted.shift();
+    if (!scripted) {
+      await this.sleep(500 + Math.random() * 1000);
+      return { content: this.getMockResponse(request).trim(), finishReason: 'stop', scripted: false };
+    }
+
+    const offered = new Set((request.functions || []).map(fn => fn.name));
+    const functionCalls = scripted.functionCalls?.map((call, index) => {
+      if (!offered.has(call.name)) {
+        throw new AIError(
+          `Scripted call to ${call.name}, which the request did not offer`,
+          this.provider,
+          'INVALID_FUNCTION_CALL'
+        );
+      }
+      return { ...call, id: call.id || `mock_call_${this.receivedRequests.length}_${index}` };
+    });
+
     return {
-      remaining: 1000,
-      resetTime: Date.now() + 3600000, // Reset in 1 hour
-      limit: 1000,
+      content: scripted.content || '',
+      functionCalls: functionCalls?.length ? functionCalls : undefined,
+      finishReason: functionCalls?.length ? 'function_call' : scripted.finishReason || 'stop',
+      scripted: true,
     };
   }
 
-  async getModels(): Promise<AIModel[]> {
+  private getUsage(request: AIRequest, reply: { content: string; functionCalls?: AIFunctionCall[] }) {
+    const inputTokens = request.messages.reduce((sum, message) => sum + AIUtils.estimateTokens(message.content), 0);
+    const outputTokens = AIUtils.estimateTokens(reply.content + JSON.stringify(reply.functionCalls || []));
+
+    return { inputTokens, outputTokens, totalTokens: inputTokens + outputTokens };
+  }
+
+  private sleep(ms: number): Promise<void> {
+    return new Promise(resolve => setTimeout(resolve, ms));
+  }
+
+  private getModelList(): AIModel[] {
     return [
       {
         id: 'mock-model',
@@ -234,7 +393,7 @@ I'm here to help you explore any aspect of this book in more depth. Feel free to
           maxContextTokens: 4096,
           maxOutputTokens: 2048,
           supportsStreaming: true,
-          supportsFunctionCalling: false,
+          supportsFunctionCalling: true,
           supportsImages: false,
           supportsDocuments: false,
           costPerInputToken: 0,
@@ -250,7 +409,7 @@ I'm here to help you explore any aspect of this book in more depth. Feel free to
           maxContextTokens: 8192,
           maxOutputTokens: 4096,
           supportsStreaming: true,
-          supportsFunctionCalling: false,
+          supportsFunctionCalling: true,
           supportsImages: false,
           supportsDocuments: false,
           costPerInputToken: 0,
@@ -266,7 +425,7 @@ I'm here to help you explore any aspect of this book in more depth. Feel free to
           maxContextTokens: 2048,
           maxOutputTokens: 1024,
           supportsStreaming: true,
-          supportsFunctionCalling: false,
+          supportsFunctionCalling: true,
           supportsImages: false,
           supportsDocuments: false,
           costPerInputToken: 0,
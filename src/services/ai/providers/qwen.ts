@@ -12,7 +12,8 @@ import {
   AIStreamChunk,
   AIModel,
   ProviderConfig,
-  AIMessage,
+  AIEmbeddingRequest,
+  AIEmbeddingResponse,
   ModelCapabilities,
   AuthenticationError,
   RateLimitError,
@@ -20,19 +21,20 @@ import {
   ModelNotAvailableError,
   AIError,
 } from '@/types/ai';
-import { BaseAIAdapter } from '../base';
+import { BaseAIAdapter, OpenAIToolCall } from '../base';
 
 /**
  * Qwen API response interface
  */
 interface QwenResponse {
-  status_code: number;
+  status_code?: number;
   request_id: string;
-  code: string;
-  message: string;
+  code?: string;
+  message?: string;
   output: {
-    text: string;
-    finish_reason: string;
+    text?: string;
+    finish_reason?: string;
+    choices?: QwenChoice[];
   };
   usage: {
     input_tokens: number;
@@ -41,6 +43,18 @@ interface QwenResponse {
   };
 }
 
+/**
+ * Qwen choice, returned when `result_format` is `message`
+ */
+interface QwenChoice {
+  finish_reason?: string;
+  message?: {
+    role?: string;
+    content?: string;
+    tool_calls?: OpenAIToolCall[];
+  };
+}
+
 /**
  * Qwen streaming response chunk
  */
@@ -50,6 +64,7 @@ interface QwenStreamChunk {
   output?: {
     text?: string;
     finish_reason?: string;
+    choices?: QwenChoice[];
   };
   usage?: {
     input_tokens: number;
@@ -58,6 +73,18 @@ interface QwenStreamChunk {
   };
 }
 
+/**
+ * DashScope text embedding response
+ */
+interface QwenEmbeddingResponse {
+  output: {
+    embeddings: Array<{ text_index: number; embedding: number[] }>;
+  };
+  usage?: {
+    total_tokens: number;
+  };
+}
+
 /**
  * Qwen model information
  */
@@ -75,6 +102,9 @@ export class QwenAdapter extends BaseAIAdapter {
   
   private baseUrl = 'https://dashscope.aliyuncs.com';
   private apiVersion = 'v1';
+  private embeddingModel = 'text-embedding-v2';
+
+  protected maxEmbeddingBatchSize = 25;
 
   /**
    * Validate Qwen API configuration
@@ -338,6 +368,63 @@ export class QwenAdapter extends BaseAIAdapter {
     }
   }
 
+  /**
+   * DashScope offers the text-embedding models
+   */
+  public supportsEmbeddings(): boolean {
+    return true;
+  }
+
+  /**
+   * Embed texts with the DashScope text embedding service
+   */
+  protected async performEmbedRequest(request: AIEmbeddingRequest): Promise<AIEmbeddingResponse> {
+    const modelName = request.model || this.embeddingModel;
+    const url = `${this.config?.baseUrl || this.baseUrl}/api/${this.apiVersion}/services/embeddings/text-embedding/text-embedding`;
+
+    try {
+      const response = await fetch(url, {
+        method: 'POST',
+        headers: {
+          'Authorization': `Bearer ${this.config?.apiKey}`,
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          model: modelName,
+          input: { texts: request.input },
+          parameters: { text_type: request.purpose === 'query' ? 'query' : 'document' },
+        }),
+      });
+
+      if (!response.ok) {
+        await this.handleApiError(response);
+      }
+
+      const data: QwenEmbeddingResponse = await response.json();
+      const embeddings = [...(data.output?.embeddings || [])]
+        .sort((a, b) => a.text_index - b.text_index)
+        .map(item => item.embedding);
+      const totalTokens = data.usage?.total_tokens || 0;
+
+      return {
+        embeddings,
+        model: modelName,
+        provider: this.provider,
+        dimensions: embeddings[0]?.length || 0,
+        usage: {
+          inputTokens: totalTokens,
+          totalTokens,
+        },
+        metadata: {
+          duration: 0,
+          timestamp: Date.now(),
+        },
+      };
+    } catch (error) {
+      throw this.wrapError(error, 0);
+    }
+  }
+
   /**
    * Fetch current rate limit status
    */
@@ -359,7 +446,8 @@ export class QwenAdapter extends BaseAIAdapter {
    * Build request body for Qwen API
    */
   private buildRequestBody(request: AIRequest, model: string, stream: boolean = false): any {
-    const messages = this.convertMessagesToQwenFormat(request.messages, request.systemPrompt);
+    // DashScope accepts OpenAI-style messages, including tool calls and tool results
+    const messages = this.convertMessagesToOpenAIFormat(request.messages, request.systemPrompt);
     
     const body: any = {
       model,
@@ -374,39 +462,23 @@ export class QwenAdapter extends BaseAIAdapter {
       },
     };
 
-    return body;
-  }
-
-  /**
-   * Convert our message format to Qwen format
-   */
-  private convertMessagesToQwenFormat(messages: AIMessage[], systemPrompt?: string): any[] {
-    const qwenMessages = [];
-
-    // Add system message if provided
-    if (systemPrompt) {
-      qwenMessages.push({
-        role: 'system',
-        content: systemPrompt,
-      });
-    }
-
-    // Convert messages
-    for (const message of messages) {
-      qwenMessages.push({
-        role: message.role === 'assistant' ? 'assistant' : 'user',
-        content: message.content,
-      });
+    // Tools are only returned in the message result format
+    const { tools, tool_choice } = this.buildOpenAITools(request);
+    if (tools) {
+      body.parameters.result_format = 'message';
+      body.parameters.tools = tools;
+      body.parameters.tool_choice = tool_choice;
     }
 
-    return qwenMessages;
+    return body;
   }
 
   /**
    * Map Qwen response to our AIResponse format
    */
   private mapQwenResponseToAIResponse(response: QwenResponse, model: string, request: AIRequest): AIResponse {
-    if (response.status_code !== 200) {
+    // The HTTP API only sets code (and the SDKs status_code) on failure
+    if (response.code || (response.status_code !== undefined && response.status_code !== 200)) {
       throw new AIError(
         response.message || `API error: ${response.code}`,
         this.provider,
@@ -414,8 +486,10 @@ export class QwenAdapter extends BaseAIAdapter {
       );
     }
 
-    const content = response.output?.text || '';
-    const finishReason = this.mapFinishReason(response.output?.finish_reason || 'stop');
+    const choice = response.output?.choices?.[0];
+    const content = choice?.message?.content || response.output?.text || '';
+    const finishReason = this.mapFinishReason(choice?.finish_reason || response.output?.finish_reason || 'stop');
+    const functionCalls = this.mapOpenAIToolCalls(choice?.message?.tool_calls);
 
     const usage = response.usage ? {
       inputTokens: response.usage.input_tokens,
@@ -436,6 +510,7 @@ export class QwenAdapter extends BaseAIAdapter {
         duration: 0, // Will be set by base adapter
         timestamp: 0, // Will be set by base adapter
         finishReason,
+        functionCalls,
       },
     };
   }
@@ -446,16 +521,24 @@ export class QwenAdapter extends BaseAIAdapter {
   private mapQwenStreamChunkToAIStreamChunk(chunk: QwenStreamChunk, model: string): AIStreamChunk | null {
     if (!chunk.output) return null;
 
-    const delta = chunk.output.text || '';
-    const done = chunk.output.finish_reason !== undefined;
+    const choice = chunk.output.choices?.[0];
+    const delta = choice?.message?.content || chunk.output.text || '';
+    // DashScope sends the string "null" until the final chunk
+    const finish = choice?.finish_reason || chunk.output.finish_reason;
+    const done = finish !== undefined && finish !== 'null';
 
     const streamChunk: AIStreamChunk = {
       delta,
       done,
       model,
       provider: this.provider,
+      functionCallDeltas: this.mapOpenAIToolCallDeltas(choice?.message?.tool_calls),
     };
 
+    if (done) {
+      streamChunk.finishReason = this.mapFinishReason(finish!);
+    }
+
     if (done && chunk.usage) {
       streamChunk.usage = {
         inputTokens: chunk.usage.input_tokens,
@@ -0,0 +1,162 @@
+import {
+  CreditsAmount,
+  CreditsTransType,
+  decreaseCreditsUpTo,
+  getUserCredits,
+} from "./credit";
+import { recordAIDailyUsage } from "./aiRateLimit";
+import { getAIService, AIUtils } from "@/services/ai";
+import { AIProvider, ModelCapabilities } from "@/types/ai";
+
+export interface AITokenUsage {
+  inputTokens: number;
+  outputTokens: number;
+  totalTokens: number;
+}
+
+export interface AIUsageCharge {
+  credits: number;
+  cost: number;
+  usage: AITokenUsage;
+}
+
+// thrown when a user cannot afford an AI request, mapped to HTTP 402 by routes
+export class InsufficientCreditsError extends Error {
+  public readonly code = "INSUFFICIENT_CREDITS";
+
+  constructor(
+    public readonly required: number,
+    public readonly available: number
+  ) {
+    super("Insufficient credits");
+    this.name = "InsufficientCreditsError";
+  }
+}
+
+type ModelPricing = Pick<ModelCapabilities, "costPerInputToken" | "costPerOutputToken">;
+
+// model tables only change with a deploy or config reload, so pricing is looked up once in a while
+const PRICING_CACHE_TTL_MS = 10 * 60 * 1000;
+
+// per server instance; null records a model with no pricing
+const pricingCache = new Map<string, { pricing: ModelPricing | null; expiresAt: number }>();
+
+// credits charged per 1 USD of provider cost, 1000 means 1 credit = $0.001
+function getCreditsPerUsd(): number {
+  return parseFloat(process.env.AI_CREDITS_PER_USD || "1000");
+}
+
+// provider model tables store USD per single token
+export function calculateTokenCost(
+  usage: AITokenUsage,
+  capabilities: ModelPricing
+): number {
+  return (
+    usage.inputTokens * capabilities.costPerInputToken +
+    usage.outputTokens * capabilities.costPerOutputToken
+  );
+}
+
+// convert a provider cost into whole credits, never below the minimum charge
+export function costToCredits(cost: number): number {
+  return Math.max(
+    CreditsAmount.AIMinimumCost,
+    Math.ceil(cost * getCreditsPerUsd())
+  );
+}
+
+// provider cost that a number of charged credits stands for
+export function creditsToCost(credits: number): number {
+  return credits / getCreditsPerUsd();
+}
+
+// estimate usage when a provider does not report it (e.g. some streams)
+export function estimateUsage(input: string, output: string): AITokenUsage {
+  const inputTokens = AIUtils.estimateTokens(input);
+  const outputTokens = AIUtils.estimateTokens(output);
+
+  return {
+    inputTokens,
+    outputTokens,
+    totalTokens: inputTokens + outputTokens,
+  };
+}
+
+// rates of a model from the provider tables, or null if the model is unknown
+async function getModelPricing(provider: AIProvider, model: string): Promise<ModelPricing | null> {
+  const key = `${provider}/${model}`;
+  const cached = pricingCache.get(key);
+  if (cached && cached.expiresAt > Date.now()) {
+    return cached.pricing;
+  }
+
+  const modelInfo = await getAIService().getModel(provider, model);
+  const pricing = modelInfo
+    ? {
+        costPerInputToken: modelInfo.capabilities.costPerInputToken,
+        costPerOutputToken: modelInfo.capabilities.costPerOutputToken,
+      }
+    : null;
+  pricingCache.set(key, { pricing, expiresAt: Date.now() + PRICING_CACHE_TTL_MS });
+
+  return pricing;
+}
+
+// make sure the user can pay at least the minimum charge before calling a provider
+export async function ensureAICredits(
+  user_uuid: string,
+  required: number = CreditsAmount.AIMinimumCost
+): Promise<number> {
+  const { left_credits } = await getUserCredits(user_uuid);
+  if (left_credits < required) {
+    throw new InsufficientCreditsError(required, left_credits);
+  }
+
+  return left_credits;
+}
+
+// price token usage against the model's rates, deduct the credits and count the tokens toward the daily quota.
+// Usage is only known once the provider has answered, so the charge is capped at the user's balance.
+export async function chargeAIUsage({
+  user_uuid,
+  trans_type,
+  provider,
+  model,
+  usage,
+  fallbackPricing,
+}: {
+  user_uuid: string;
+  trans_type: CreditsTransType;
+  provider: AIProvider;
+  model: string;
+  usage: AITokenUsage;
+  // rates for models missing from the provider tables, e.g. embedding models
+  fallbackPricing?: ModelPricing;
+}): Promise<AIUsageCharge> {
+  let cost = 0;
+
+  try {
+    const pricing = (await getModelPricing(provider, model)) || fallbackPricing;
+    if (pricing) {
+      cost = calculateTokenCost(usage, pricing);
+    } else {
+      console.warn(`no pricing found for ${provider}/${model}, charging minimum`);
+    }
+  } catch (e) {
+    console.error("get model pricing failed: ", e);
+  }
+
+  const due = costToCredits(cost);
+  const credits = await decreaseCreditsUpTo({
+    user_uuid,
+    trans_type,
+    credits: due,
+  });
+  if (credits < due) {
+    console.warn(`ai charge for ${user_uuid} capped at the balance: ${due} credits due, ${credits} charged`);
+  }
+
+  await recordAIDailyUsage(user_uuid, usage.totalTokens);
+
+  return { credits, cost, usage };
+}
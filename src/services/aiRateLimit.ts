@@ -0,0 +1,244 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@/auth";
+import { getBearerToken } from "./user";
+import { getUserCredits } from "./credit";
+import { getApikeyByKey } from "@/models/apikey";
+import {
+  getAIDailyTokens,
+  getAIRateLimitTokens,
+  increaseAIDailyUsage,
+  returnAIRateLimitToken,
+  takeAIRateLimitToken,
+} from "@/models/aiUsage";
+import type { ChatErrorCode } from "@/types/chat";
+
+export type AIRateLimitTier = "free" | "pro";
+
+// which limit rejected the request
+export type AIRateLimitScope = "rate" | "daily_quota";
+
+export interface AIRateLimitConfig {
+  // bucket refill rate
+  requestsPerMinute: number;
+  // bucket size, the most requests allowed back to back
+  burst: number;
+  // tokens a user may spend per UTC day, 0 means unlimited
+  dailyTokens: number;
+}
+
+export interface AIRateLimitSubject {
+  user_uuid: string;
+  // id of the API key the request is authenticated with; the key gets a bucket of its
+  // own on top of the user's, so extra keys never add to what the user may send
+  api_key_id?: number;
+}
+
+export interface AIRateLimitResult {
+  allowed: boolean;
+  tier: AIRateLimitTier;
+  scope?: AIRateLimitScope;
+  // seconds until the request would be allowed
+  retryAfter: number;
+  limit: number;
+  remaining: number;
+}
+
+const RATE_LIMIT_ERROR_CODE: ChatErrorCode = "RATE_LIMIT_EXCEEDED";
+
+// tiers only change when credits are bought or used up, a short cache saves a query per request
+const TIER_CACHE_TTL_MS = 60 * 1000;
+
+// buckets live in the database so every server instance draws from the same ones;
+// tiers are only cached per instance
+const tierCache = new Map<string, { tier: AIRateLimitTier; expiresAt: number }>();
+
+function getNumberEnv(name: string, defaultValue: number): number {
+  const value = parseFloat(process.env[name] || "");
+  return isNaN(value) || value < 0 ? defaultValue : value;
+}
+
+export function getAIRateLimitConfig(tier: AIRateLimitTier): AIRateLimitConfig {
+  if (tier === "pro") {
+    return {
+      requestsPerMinute: getNumberEnv("AI_RATE_LIMIT_PRO_PER_MINUTE", 60),
+      burst: getNumberEnv("AI_RATE_LIMIT_PRO_BURST", 20),
+      dailyTokens: getNumberEnv("AI_DAILY_TOKENS_PRO", 500000),
+    };
+  }
+
+  return {
+    requestsPerMinute: getNumberEnv("AI_RATE_LIMIT_FREE_PER_MINUTE", 10),
+    burst: getNumberEnv("AI_RATE_LIMIT_FREE_BURST", 5),
+    dailyTokens: getNumberEnv("AI_DAILY_TOKENS_FREE", 50000),
+  };
+}
+
+// quotas reset at midnight UTC
+export function getUsageDate(now: Date = new Date()): string {
+  return now.toISOString().slice(0, 10);
+}
+
+function getSecondsUntilNextUsageDate(now: Date): number {
+  const next = Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate() + 1);
+  return Math.max(1, Math.ceil((next - now.getTime()) / 1000));
+}
+
+async function getUserTier(user_uuid: string): Promise<AIRateLimitTier> {
+  const cached = tierCache.get(user_uuid);
+  if (cached && cached.expiresAt > Date.now()) {
+    return cached.tier;
+  }
+
+  const { is_pro } = await getUserCredits(user_uuid);
+  const tier: AIRateLimitTier = is_pro ? "pro" : "free";
+  tierCache.set(user_uuid, { tier, expiresAt: Date.now() + TIER_CACHE_TTL_MS });
+
+  return tier;
+}
+
+// the buckets a request draws from: always the user's, and the API key's when one is used
+function getBucketKeys(subject: AIRateLimitSubject): string[] {
+  const keys = [`user:${subject.user_uuid}`];
+  if (subject.api_key_id !== undefined) {
+    keys.push(`apikey:${subject.api_key_id}`);
+  }
+  return keys;
+}
+
+// seconds until a bucket holding `tokens` has a whole token again
+function getSecondsUntilToken(config: AIRateLimitConfig, tokens: number): number {
+  const perSecond = config.requestsPerMinute / 60;
+  return perSecond > 0 ? Math.max(1, Math.ceil((1 - tokens) / perSecond)) : 60;
+}
+
+// check the caller's daily quota and buckets, taking a token from each bucket when the request is allowed
+export async function checkAIRateLimit(
+  subject: AIRateLimitSubject
+): Promise<AIRateLimitResult> {
+  const tier = await getUserTier(subject.user_uuid);
+  const config = getAIRateLimitConfig(tier);
+  const keys = getBucketKeys(subject);
+
+  const now = new Date();
+
+  if (config.dailyTokens > 0) {
+    const used = await getAIDailyTokens(subject.user_uuid, getUsageDate(now));
+    if (used >= config.dailyTokens) {
+      const tokens = await getAIRateLimitTokens(keys[0], config.burst, config.requestsPerMinute, now);
+      return {
+        allowed: false,
+        tier,
+        scope: "daily_quota",
+        retryAfter: getSecondsUntilNextUsageDate(now),
+        limit: config.burst,
+        remaining: Math.floor(tokens),
+      };
+    }
+  }
+
+  const taken: string[] = [];
+  let remaining = config.burst;
+
+  for (const key of keys) {
+    const tokens = await takeAIRateLimitToken(key, config.burst, config.requestsPerMinute, now);
+    if (tokens === null) {
+      // a request turned away by one bucket costs nothing from the others
+      await Promise.all(taken.map((takenKey) => returnAIRateLimitToken(takenKey, config.burst)));
+
+      const left = await getAIRateLimitTokens(key, config.burst, config.requestsPerMinute, now);
+      return {
+        allowed: false,
+        tier,
+        scope: "rate",
+        retryAfter: getSecondsUntilToken(config, left),
+        limit: config.burst,
+        remaining: 0,
+      };
+    }
+
+    taken.push(key);
+    remaining = Math.min(remaining, tokens);
+  }
+
+  return {
+    allowed: true,
+    tier,
+    retryAfter: 0,
+    limit: config.burst,
+    remaining: Math.floor(remaining),
+  };
+}
+
+// count tokens against the user's daily quota, a failure must not fail the request
+export async function recordAIDailyUsage(user_uuid: string, tokens: number) {
+  try {
+    await increaseAIDailyUsage(user_uuid, getUsageDate(), Math.max(0, Math.round(tokens)));
+  } catch (e) {
+    console.error("record ai daily usage failed: ", e);
+  }
+}
+
+// the caller of the current request: API key first, then the signed-in user
+export async function getAIRateLimitSubject(): Promise<AIRateLimitSubject | null> {
+  const token = await getBearerToken();
+  if (token && token.startsWith("sk-")) {
+    const apikey = await getApikeyByKey(token);
+    return apikey ? { user_uuid: apikey.user_uuid, api_key_id: apikey.id } : null;
+  }
+
+  const session = await auth();
+  const user_uuid = session?.user?.uuid || session?.user?.id;
+
+  return user_uuid ? { user_uuid } : null;
+}
+
+export function rateLimitResponse(result: AIRateLimitResult): NextResponse {
+  const message =
+    result.scope === "daily_quota"
+      ? "Daily AI usage limit reached, try again tomorrow"
+      : "Too many AI requests, slow down and try again shortly";
+
+  return NextResponse.json(
+    {
+      error: message,
+      code: RATE_LIMIT_ERROR_CODE,
+      scope: result.scope,
+      tier: result.tier,
+      retryAfter: result.retryAfter,
+    },
+    {
+      status: 429,
+      headers: {
+        "Retry-After": String(result.retryAfter),
+        "X-RateLimit-Limit": String(result.limit),
+        "X-RateLimit-Remaining": String(result.remaining),
+      },
+    }
+  );
+}
+
+// a route handler: the request and, on dynamic routes, the context holding the route params
+type RouteHandler<Context> = (request: NextRequest, context: Context) => Promise<Response>;
+
+// shared middleware for AI routes: export const POST = withAIRateLimit(handler)
+// unauthenticated requests pass through so the handler can answer 401 itself
+export function withAIRateLimit<Context = unknown>(
+  handler: RouteHandler<Context>
+): RouteHandler<Context> {
+  return async (request, context) => {
+    try {
+      const subject = await getAIRateLimitSubject();
+      if (subject) {
+        const result = await checkAIRateLimit(subject);
+        if (!result.allowed) {
+          return rateLimitResponse(result);
+        }
+      }
+    } catch (e) {
+      // limits protect the providers, an outage of the quota store should not take AI down with it
+      console.error("check ai rate limit failed: ", e);
+    }
+
+    return handler(request, context);
+  };
+}
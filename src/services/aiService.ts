@@ -11,7 +11,10 @@ import {
   AIResponse, 
   AIStreamChunk, 
   AIMessage,
+  AIFunctionCall,
   AIProvider,
+  CircuitBreakerStatus,
+  AIError,
 } from '@/types/ai';
 import { 
   getAIService, 
@@ -21,6 +24,20 @@ import {
   AIService as BaseAIService 
 } from '@/services/ai';
 import { getAIServiceConfig } from '@/services/ai/config';
+import { LIBRARY_TOOLS, LibraryToolInvocation, LibraryToolsService } from '@/services/libraryTools';
+import {
+  SpoilerGuard,
+  SpoilerStreamGuard,
+  SpoilerMode,
+  SpoilerCheck,
+  ReadingPosition,
+  DEFAULT_SPOILER_MODE,
+} from '@/services/spoilerGuard';
+
+/**
+ * Most tool-calling round trips before the model must answer
+ */
+const MAX_TOOL_ROUNDS = 4;
 
 /**
  * Book context for AI conversations
@@ -36,6 +53,10 @@ export interface BookContext {
   currentChapter?: string;
   /** Current page */
   currentPage?: number;
+  /** Reading progress percentage (0-100) */
+  readingProgress?: number;
+  /** Total pages, used to relate page numbers and progress */
+  pageCount?: number;
   /** Reading session context */
   sessionContext?: {
     sessionUuid: string;
@@ -59,6 +80,10 @@ export interface ReadingAssistantRequest {
   contextType?: 'general' | 'book_specific' | 'chapter_specific';
   /** Whether to stream response */
   stream?: boolean;
+  /** Authenticated user; enables the library tools over their notes, sessions and shelves */
+  userUuid?: string;
+  /** Spoiler protection for book conversations, defaults to strict */
+  spoilerMode?: SpoilerMode;
   /** User preferences */
   preferences?: {
     responseStyle?: 'casual' | 'academic' | 'detailed' | 'brief';
@@ -91,6 +116,19 @@ export interface ReadingAssistantResponse {
   };
   /** Generated conversation title (for new conversations) */
   suggestedTitle?: string;
+  /** Library tools run while answering, in order */
+  toolInvocations?: LibraryToolInvocation[];
+  /** Spoiler check of the answer, for book conversations */
+  spoilerCheck?: SpoilerCheck;
+}
+
+/**
+ * Streamed chunk; the final one carries the spoiler check for book conversations
+ */
+export interface ReadingAssistantStreamChunk extends AIStreamChunk {
+  spoilerCheck?: SpoilerCheck;
+  /** Library lookups made while answering (final chunk only) */
+  toolInvocations?: LibraryToolInvocation[];
 }
 
 /**
@@ -200,6 +238,34 @@ General guidelines:
     return systemPrompt;
   }
 
+  /**
+   * Conversation history to send to the model. Stored tool results are a
+   * record of past lookups; the model calls the tools again when it needs them.
+   * Under strict spoiler protection, earlier answers flagged as spoilers are left out.
+   */
+  private getConversationMessages(history: AIMessage[], spoilerMode?: SpoilerMode): AIMessage[] {
+    const messages = history.filter(message => message.role !== 'function');
+    return spoilerMode
+      ? SpoilerGuard.filterHistory(messages, spoilerMode, message => message.metadata?.spoilerCheck)
+      : messages;
+  }
+
+  /**
+   * Spoiler mode and reader position for conversations about a book, null otherwise
+   */
+  private getSpoilerContext(
+    request: ReadingAssistantRequest
+  ): { mode: SpoilerMode; position: ReadingPosition } | null {
+    if (!request.bookContext || request.contextType === 'general' || !request.contextType) {
+      return null;
+    }
+
+    return {
+      mode: request.spoilerMode || DEFAULT_SPOILER_MODE,
+      position: SpoilerGuard.resolvePosition(request.bookContext, request.bookContext.pageCount),
+    };
+  }
+
   /**
    * Generate a conversation title based on the first user message
    */
@@ -221,19 +287,28 @@ General guidelines:
   public async processMessage(request: ReadingAssistantRequest): Promise<ReadingAssistantResponse> {
     await this.ensureInitialized();
 
-    const systemPrompt = this.generateSystemPrompt(
+    let systemPrompt = this.generateSystemPrompt(
       request.contextType,
       request.bookContext,
       request.preferences
     );
 
+    if (request.userUuid) {
+      systemPrompt += '\n- When the reader asks about their own notes, highlights, progress, sessions or shelves, look them up with the library tools instead of guessing';
+    }
+
+    const spoilerContext = this.getSpoilerContext(request);
+    if (spoilerContext) {
+      systemPrompt += `\n\nSpoilers: ${SpoilerGuard.buildInstructions(spoilerContext.mode, spoilerContext.position)}`;
+    }
+
     // Prepare the AI request
     const messages: AIMessage[] = [
       {
         role: 'system',
         content: systemPrompt,
       },
-      ...request.conversationHistory,
+      ...this.getConversationMessages(request.conversationHistory, spoilerContext?.mode),
       {
         role: 'user',
         content: request.message,
@@ -248,7 +323,13 @@ General guidelines:
     };
 
     try {
-      const response = await askAI(aiRequest);
+      const result = request.userUuid
+        ? await this.requestWithLibraryTools(aiRequest, {
+            userUuid: request.userUuid,
+            bookUuid: request.bookContext?.bookUuid,
+          })
+        : { response: await askAI(aiRequest), toolInvocations: [] };
+      const response = result.response;
       
       // Generate title for new conversations
       let suggestedTitle: string | undefined;
@@ -256,41 +337,246 @@ General guidelines:
         suggestedTitle = this.generateConversationTitle(request.message, request.bookContext);
       }
 
+      // Check the answer against the reader's position before it is returned
+      const guarded = spoilerContext
+        ? SpoilerGuard.guardResponse(response.content, spoilerContext.mode, spoilerContext.position)
+        : null;
+
       return {
-        content: response.content,
+        content: guarded ? guarded.content : response.content,
         provider: response.provider,
         model: response.model,
         usage: response.usage,
         metadata: response.metadata,
         suggestedTitle,
+        toolInvocations: result.toolInvocations,
+        spoilerCheck: guarded?.check,
       };
     } catch (error) {
       console.error('Reading assistant AI request failed:', error);
-      throw new Error(`AI request failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      throw new Error(`AI request failed: ${error instanceof Error ? error.message : 'Unknown error'}`, { cause: error });
     }
   }
 
+  /**
+   * Answer with the library tools available, running the calls the model makes
+   * until it replies in text. Falls back to server-side retrieval when no
+   * provider supports function calling.
+   */
+  private async requestWithLibraryTools(
+    aiRequest: AIRequest,
+    context: { userUuid: string; bookUuid?: string }
+  ): Promise<{ response: AIResponse; toolInvocations: LibraryToolInvocation[] }> {
+    const toolInvocations: LibraryToolInvocation[] = [];
+    const messages = [...aiRequest.messages];
+    const usage = { inputTokens: 0, outputTokens: 0, totalTokens: 0 };
+
+    for (let round = 0; round <= MAX_TOOL_ROUNDS; round++) {
+      let response: AIResponse;
+      try {
+        response = await askAI({
+          ...aiRequest,
+          messages,
+          functions: LIBRARY_TOOLS,
+          // After the last round the model has to answer with what it has
+          functionCall: round === MAX_TOOL_ROUNDS ? 'none' : 'auto',
+        });
+      } catch (error) {
+        if (round > 0 || !this.isFunctionCallingUnavailable(error)) {
+          throw error;
+        }
+        return this.requestWithRetrievedContext(aiRequest, context);
+      }
+
+      usage.inputTokens += response.usage.inputTokens;
+      usage.outputTokens += response.usage.outputTokens;
+      usage.totalTokens += response.usage.totalTokens;
+
+      const calls = response.metadata.functionCalls || [];
+      if (calls.length === 0 || round === MAX_TOOL_ROUNDS) {
+        return { response: { ...response, usage }, toolInvocations };
+      }
+
+      messages.push({ role: 'assistant', content: response.content, functionCalls: calls });
+
+      for (const call of calls) {
+        const invocation = await LibraryToolsService.execute(call, context);
+        toolInvocations.push(invocation);
+        messages.push({
+          role: 'function',
+          content: JSON.stringify(invocation.error ? { error: invocation.error } : invocation.result),
+          functionCall: { id: invocation.id, name: invocation.name, arguments: invocation.arguments },
+        });
+      }
+    }
+
+    // Unreachable: the last round always returns
+    throw new Error('Tool calling did not finish');
+  }
+
+  /**
+   * Run the library lookups server-side and add the results to the system prompt
+   */
+  private async requestWithRetrievedContext(
+    aiRequest: AIRequest,
+    context: { userUuid: string; bookUuid?: string }
+  ): Promise<{ response: AIResponse; toolInvocations: LibraryToolInvocation[] }> {
+    const toolInvocations = await LibraryToolsService.retrieve(context);
+    const messages = this.addLibraryContext(aiRequest.messages, toolInvocations);
+
+    const response = await askAI({ ...aiRequest, messages });
+    return { response, toolInvocations };
+  }
+
+  /**
+   * Stream an answer with the library tools available. Text is passed on as it
+   * arrives; a round that ends in function calls is run and the model asked again.
+   * Falls back to server-side retrieval when no provider supports function calling.
+   */
+  private async* streamWithLibraryTools(
+    aiRequest: AIRequest,
+    context: { userUuid: string; bookUuid?: string }
+  ): AsyncGenerator<ReadingAssistantStreamChunk, void, unknown> {
+    const toolInvocations: LibraryToolInvocation[] = [];
+    const messages = [...aiRequest.messages];
+    let usage: AIStreamChunk['usage'];
+
+    for (let round = 0; round <= MAX_TOOL_ROUNDS; round++) {
+      let content = '';
+      let calls: AIFunctionCall[] = [];
+      let received = false;
+
+      try {
+        for await (const chunk of streamAI({
+          ...aiRequest,
+          messages,
+          functions: LIBRARY_TOOLS,
+          // After the last round the model has to answer with what it has
+          functionCall: round === MAX_TOOL_ROUNDS ? 'none' : 'auto',
+        })) {
+          received = true;
+          if (chunk.usage) {
+            usage = {
+              inputTokens: (usage?.inputTokens || 0) + chunk.usage.inputTokens,
+              outputTokens: (usage?.outputTokens || 0) + chunk.usage.outputTokens,
+              totalTokens: (usage?.totalTokens || 0) + chunk.usage.totalTokens,
+            };
+          }
+
+          content += chunk.delta;
+          if (!chunk.done) {
+            yield chunk;
+            continue;
+          }
+
+          calls = round === MAX_TOOL_ROUNDS ? [] : chunk.functionCalls || [];
+          if (calls.length === 0) {
+            yield { ...chunk, usage, toolInvocations };
+            return;
+          }
+          if (chunk.delta) {
+            yield { ...chunk, done: false };
+          }
+        }
+      } catch (error) {
+        if (round > 0 || received || !this.isFunctionCallingUnavailable(error)) {
+          throw error;
+        }
+        yield* this.streamWithRetrievedContext(aiRequest, context);
+        return;
+      }
+
+      // The provider ended without a final chunk
+      if (calls.length === 0) {
+        return;
+      }
+
+      messages.push({ role: 'assistant', content, functionCalls: calls });
+
+      for (const call of calls) {
+        const invocation = await LibraryToolsService.execute(call, context);
+        toolInvocations.push(invocation);
+        messages.push({
+          role: 'function',
+          content: JSON.stringify(invocation.error ? { error: invocation.error } : invocation.result),
+          functionCall: { id: invocation.id, name: invocation.name, arguments: invocation.arguments },
+        });
+      }
+    }
+  }
+
+  /**
+   * Streaming counterpart of requestWithRetrievedContext
+   */
+  private async* streamWithRetrievedContext(
+    aiRequest: AIRequest,
+    context: { userUuid: string; bookUuid?: string }
+  ): AsyncGenerator<ReadingAssistantStreamChunk, void, unknown> {
+    const toolInvocations = await LibraryToolsService.retrieve(context);
+    const messages = this.addLibraryContext(aiRequest.messages, toolInvocations);
+
+    for await (const chunk of streamAI({ ...aiRequest, messages })) {
+      yield chunk.done ? { ...chunk, toolInvocations } : chunk;
+    }
+  }
+
+  /**
+   * Add retrieved library data to the system prompt
+   */
+  private addLibraryContext(messages: AIMessage[], toolInvocations: LibraryToolInvocation[]): AIMessage[] {
+    const libraryContext = LibraryToolsService.formatForPrompt(toolInvocations);
+
+    return messages.map((message, index) =>
+      index === 0 && message.role === 'system' && libraryContext
+        ? { ...message, content: `${message.content}\n\n${libraryContext}` }
+        : message
+    );
+  }
+
+  /**
+   * Whether a request failed only because no provider could take function definitions
+   */
+  private isFunctionCallingUnavailable(error: unknown): boolean {
+    let current: unknown = error;
+    while (current instanceof AIError) {
+      if (current.code === 'NO_CAPABLE_PROVIDERS' || current.code === 'FUNCTION_CALLING_NOT_SUPPORTED') {
+        return true;
+      }
+      current = current.originalError;
+    }
+    return false;
+  }
+
   /**
    * Process a streaming reading assistant request
    */
   public async* processStreamingMessage(
     request: ReadingAssistantRequest
-  ): AsyncGenerator<AIStreamChunk, void, unknown> {
+  ): AsyncGenerator<ReadingAssistantStreamChunk, void, unknown> {
     await this.ensureInitialized();
 
-    const systemPrompt = this.generateSystemPrompt(
+    let systemPrompt = this.generateSystemPrompt(
       request.contextType,
       request.bookContext,
       request.preferences
     );
 
+    if (request.userUuid) {
+      systemPrompt += '\n- When the reader asks about their own notes, highlights, progress, sessions or shelves, look them up with the library tools instead of guessing';
+    }
+
+    const spoilerContext = this.getSpoilerContext(request);
+    if (spoilerContext) {
+      systemPrompt += `\n\nSpoilers: ${SpoilerGuard.buildInstructions(spoilerContext.mode, spoilerContext.position)}`;
+    }
+
     // Prepare the AI request
     const messages: AIMessage[] = [
       {
         role: 'system',
         content: systemPrompt,
       },
-      ...request.conversationHistory,
+      ...this.getConversationMessages(request.conversationHistory, spoilerContext?.mode),
       {
         role: 'user',
         content: request.message,
@@ -305,10 +591,40 @@ General guidelines:
     };
 
     try {
-      yield* streamAI(aiRequest);
+      const source = request.userUuid
+        ? this.streamWithLibraryTools(aiRequest, {
+            userUuid: request.userUuid,
+            bookUuid: request.bookContext?.bookUuid,
+          })
+        : streamAI(aiRequest);
+
+      if (!spoilerContext) {
+        yield* source;
+        return;
+      }
+
+      // In strict mode text is released a sentence at a time, once it has been checked
+      const guard = new SpoilerStreamGuard(spoilerContext.mode, spoilerContext.position);
+      let lastChunk: ReadingAssistantStreamChunk | undefined;
+
+      for await (const chunk of source) {
+        lastChunk = chunk;
+        const delta = guard.push(chunk.delta) + (chunk.done ? guard.flush() : '');
+        if (chunk.done) {
+          yield { ...chunk, delta, spoilerCheck: guard.getResult() };
+        } else if (delta || chunk.functionCallDeltas) {
+          yield { ...chunk, delta };
+        }
+      }
+
+      // Release anything held back if the provider ended without a final chunk
+      const rest = guard.flush();
+      if (rest && lastChunk) {
+        yield { ...lastChunk, delta: rest, done: true, spoilerCheck: guard.getResult() };
+      }
     } catch (error) {
       console.error('Streaming reading assistant AI request failed:', error);
-      throw new Error(`Streaming AI request failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      throw new Error(`Streaming AI request failed: ${error instanceof Error ? error.message : 'Unknown error'}`, { cause: error });
     }
   }
 
@@ -329,6 +645,14 @@ General guidelines:
     }
     return this.baseService.getStats();
   }
+
+  /**
+   * Get circuit breaker status for all providers in this process
+   */
+  public async getCircuitBreakerStatus(): Promise<Record<AIProvider, CircuitBreakerStatus>> {
+    await this.ensureInitialized();
+    return this.baseService.getCircuitBreakerStatus();
+  }
 }
 
 /**
@@ -0,0 +1,283 @@
+import { getAIMessageUsageSince, getCreditsSpentByUser, AIMessageUsageRow } from "@/models/aiUsage";
+import { getUsersByUuids } from "@/models/user";
+import { calculateTokenCost, creditsToCost, AITokenUsage } from "./aiCredits";
+import { CreditsTransType } from "./credit";
+import { initializeReadingAssistant } from "./aiService";
+import { getAIService } from "./ai";
+import { AIProvider, AIServiceStats, CircuitBreakerStatus, ModelCapabilities } from "@/types/ai";
+
+// credit transactions that pay for AI usage
+export const AI_CREDITS_TRANS_TYPES: CreditsTransType[] = [
+  CreditsTransType.AIChat,
+  CreditsTransType.AIReadingAssistant,
+  CreditsTransType.AIOverview,
+  CreditsTransType.AIChapterSummary,
+  CreditsTransType.AIBookIndex,
+  CreditsTransType.AIReadingRecap,
+];
+
+export interface LatencyPercentiles {
+  p50: number;
+  p90: number;
+  p99: number;
+}
+
+export interface AIModelUsage {
+  provider: string;
+  model: string;
+  requests: number;
+  inputTokens: number;
+  outputTokens: number;
+  totalTokens: number;
+  // USD at the model's list price; null when the model has no pricing
+  estimatedCost: number | null;
+  latency: LatencyPercentiles | null;
+}
+
+export interface AIProviderErrors {
+  provider: string;
+  requests: number;
+  errors: number;
+  errorRate: number;
+  // most frequent error codes, e.g. RATE_LIMIT_EXCEEDED
+  codes: { code: string; count: number }[];
+}
+
+export interface AIUserUsage {
+  user_uuid: string;
+  email?: string;
+  nickname?: string;
+  requests: number;
+  totalTokens: number;
+  credits: number;
+  // USD equivalent of the credits charged
+  cost: number;
+}
+
+export interface AICircuitBreakerRow extends CircuitBreakerStatus {
+  provider: AIProvider;
+}
+
+export interface AIUsageReport {
+  since: string;
+  requests: number;
+  errors: number;
+  errorRate: number;
+  totalTokens: number;
+  estimatedCost: number;
+  latency: LatencyPercentiles | null;
+  models: AIModelUsage[];
+  providers: AIProviderErrors[];
+  topUsers: AIUserUsage[];
+  // per server instance; null when the AI service cannot start (e.g. no providers configured)
+  circuitBreakers: AICircuitBreakerRow[] | null;
+  serviceStats: AIServiceStats | null;
+}
+
+// nearest-rank percentile of ascending values
+export function percentile(sorted: number[], p: number): number {
+  if (sorted.length === 0) {
+    return 0;
+  }
+  const rank = Math.ceil((p / 100) * sorted.length);
+  return sorted[Math.min(sorted.length, Math.max(1, rank)) - 1];
+}
+
+function getLatencyPercentiles(values: number[]): LatencyPercentiles | null {
+  if (values.length === 0) {
+    return null;
+  }
+  const sorted = [...values].sort((a, b) => a - b);
+  return {
+    p50: percentile(sorted, 50),
+    p90: percentile(sorted, 90),
+    p99: percentile(sorted, 99),
+  };
+}
+
+// Token split of a message; older rows only have the total, counted as input
+function getMessageUsage(row: AIMessageUsageRow): AITokenUsage {
+  const usage = row.usage;
+  if (usage && typeof usage.inputTokens === "number" && typeof usage.outputTokens === "number") {
+    return {
+      inputTokens: usage.inputTokens,
+      outputTokens: usage.outputTokens,
+      totalTokens: usage.totalTokens ?? usage.inputTokens + usage.outputTokens,
+    };
+  }
+
+  const total = row.token_count || 0;
+  return { inputTokens: total, outputTokens: 0, totalTokens: total };
+}
+
+// Pricing for each model seen, looked up once per model
+async function getModelPricing(
+  models: { provider: string; model: string }[]
+): Promise<Map<string, ModelCapabilities>> {
+  const pricing = new Map<string, ModelCapabilities>();
+
+  for (const { provider, model } of models) {
+    try {
+      const info = await getAIService().getModel(provider as AIProvider, model);
+      if (info) {
+        pricing.set(`${provider}/${model}`, info.capabilities);
+      }
+    } catch (e) {
+      console.error("get model pricing failed: ", e);
+    }
+  }
+
+  return pricing;
+}
+
+async function getCircuitBreakers(): Promise<{
+  circuitBreakers: AICircuitBreakerRow[] | null;
+  serviceStats: AIServiceStats | null;
+}> {
+  try {
+    const assistant = await initializeReadingAssistant();
+    const status = await assistant.getCircuitBreakerStatus();
+
+    return {
+      circuitBreakers: Object.entries(status).map(([provider, breaker]) => ({
+        provider: provider as AIProvider,
+        ...breaker,
+      })),
+      serviceStats: assistant.getStats(),
+    };
+  } catch (e) {
+    console.error("get ai service status failed: ", e);
+    return { circuitBreakers: null, serviceStats: null };
+  }
+}
+
+export async function getAIUsageReport(
+  days: number = 30,
+  topUserLimit: number = 10
+): Promise<AIUsageReport> {
+  const startTime = new Date();
+  startTime.setDate(startTime.getDate() - days);
+  const since = startTime.toISOString();
+
+  const [rows, creditsByUser, service] = await Promise.all([
+    getAIMessageUsageSince(since),
+    getCreditsSpentByUser(since, AI_CREDITS_TRANS_TYPES),
+    getCircuitBreakers(),
+  ]);
+
+  // Only rows that came from a provider call: answers with a model, or recorded failures
+  const calls = rows.filter((row) => row.error_info || (row.role === "assistant" && row.ai_model));
+
+  const modelMap = new Map<string, { provider: string; model: string; usage: AITokenUsage; requests: number; latencies: number[] }>();
+  const providerMap = new Map<string, { requests: number; errors: number; codes: Map<string, number> }>();
+  const userMap = new Map<string, { requests: number; totalTokens: number }>();
+  const latencies: number[] = [];
+  let errors = 0;
+
+  calls.forEach((row) => {
+    const provider = row.ai_provider || "unknown";
+    const providerStats = providerMap.get(provider) || { requests: 0, errors: 0, codes: new Map<string, number>() };
+    providerStats.requests++;
+    providerMap.set(provider, providerStats);
+
+    if (row.error_info) {
+      const code = row.error_info.code || "UNKNOWN";
+      providerStats.errors++;
+      providerStats.codes.set(code, (providerStats.codes.get(code) || 0) + 1);
+      errors++;
+      return;
+    }
+
+    const usage = getMessageUsage(row);
+    const key = `${provider}/${row.ai_model}`;
+    const modelStats = modelMap.get(key) || {
+      provider,
+      model: row.ai_model!,
+      usage: { inputTokens: 0, outputTokens: 0, totalTokens: 0 },
+      requests: 0,
+      latencies: [],
+    };
+    modelStats.requests++;
+    modelStats.usage.inputTokens += usage.inputTokens;
+    modelStats.usage.outputTokens += usage.outputTokens;
+    modelStats.usage.totalTokens += usage.totalTokens;
+    if (row.response_time_ms) {
+      modelStats.latencies.push(row.response_time_ms);
+      latencies.push(row.response_time_ms);
+    }
+    modelMap.set(key, modelStats);
+
+    const userStats = userMap.get(row.user_uuid) || { requests: 0, totalTokens: 0 };
+    userStats.requests++;
+    userStats.totalTokens += usage.totalTokens;
+    userMap.set(row.user_uuid, userStats);
+  });
+
+  const pricing = service.circuitBreakers
+    ? await getModelPricing(Array.from(modelMap.values()))
+    : new Map<string, ModelCapabilities>();
+
+  const models: AIModelUsage[] = Array.from(modelMap.entries())
+    .map(([key, stats]) => {
+      const capabilities = pricing.get(key);
+      return {
+        provider: stats.provider,
+        model: stats.model,
+        requests: stats.requests,
+        inputTokens: stats.usage.inputTokens,
+        outputTokens: stats.usage.outputTokens,
+        totalTokens: stats.usage.totalTokens,
+        estimatedCost: capabilities ? calculateTokenCost(stats.usage, capabilities) : null,
+        latency: getLatencyPercentiles(stats.latencies),
+      };
+    })
+    .sort((a, b) => (b.estimatedCost || 0) - (a.estimatedCost || 0) || b.totalTokens - a.totalTokens);
+
+  const providers: AIProviderErrors[] = Array.from(providerMap.entries())
+    .map(([provider, stats]) => ({
+      provider,
+      requests: stats.requests,
+      errors: stats.errors,
+      errorRate: stats.requests > 0 ? stats.errors / stats.requests : 0,
+      codes: Array.from(stats.codes.entries())
+        .map(([code, count]) => ({ code, count }))
+        .sort((a, b) => b.count - a.count),
+    }))
+    .sort((a, b) => b.requests - a.requests);
+
+  // Credits are what users actually paid, including overviews and indexing outside conversations
+  const topUuids = Array.from(creditsByUser.entries())
+    .sort((a, b) => b[1] - a[1])
+    .slice(0, topUserLimit)
+    .map(([user_uuid]) => user_uuid);
+  const users = topUuids.length > 0 ? (await getUsersByUuids(topUuids)) || [] : [];
+
+  const topUsers: AIUserUsage[] = topUuids.map((user_uuid) => {
+    const user = users.find((item) => item.uuid === user_uuid);
+    const credits = creditsByUser.get(user_uuid) || 0;
+    return {
+      user_uuid,
+      email: user?.email,
+      nickname: user?.nickname || undefined,
+      requests: userMap.get(user_uuid)?.requests || 0,
+      totalTokens: userMap.get(user_uuid)?.totalTokens || 0,
+      credits,
+      cost: creditsToCost(credits),
+    };
+  });
+
+  return {
+    since,
+    requests: calls.length,
+    errors,
+    errorRate: calls.length > 0 ? errors / calls.length : 0,
+    totalTokens: models.reduce((sum, model) => sum + model.totalTokens, 0),
+    estimatedCost: models.reduce((sum, model) => sum + (model.estimatedCost || 0), 0),
+    latency: getLatencyPercentiles(latencies),
+    models,
+    providers,
+    topUsers,
+    circuitBreakers: service.circuitBreakers,
+    serviceStats: service.serviceStats,
+  };
+}
@@ -0,0 +1,323 @@
+import { database as db } from "@/db";
+import { book_ai_artifacts, books } from "@/db/schema";
+import { ReadingAssistantService, GenerationOptions } from "@/services/readingAssistant";
+import { chargeAIUsage } from "@/services/aiCredits";
+import { checkAIRateLimit, recordAIDailyUsage } from "@/services/aiRateLimit";
+import { CreditsTransType } from "@/services/credit";
+import { Book, BookAIArtifact, BookAIArtifactType } from "@/types/book";
+import { AIResponse } from "@/types/ai";
+import { eq, and, desc } from "drizzle-orm";
+import { v4 as uuidv4 } from "uuid";
+import { createHash } from "crypto";
+
+// A pending artifact older than this is assumed to belong to a job that died
+const PENDING_TIMEOUT_MS = 10 * 60 * 1000;
+// Book fields the overview prompt is built from; edits to other fields keep the stored overview
+const OVERVIEW_FIELDS = ["title", "subtitle", "author", "genre", "description", "page_count", "language"] as const;
+// An edit waits this long before regenerating the overview, so a burst of edits costs one generation
+const OVERVIEW_DEBOUNCE_MS = 30 * 1000;
+// artifact_key holds 500 characters; the chapter title is cut to leave room for a content hash
+const CHAPTER_KEY_LENGTH = 480;
+
+export interface ArtifactSlot {
+  // chapter title for chapter summaries
+  key?: string;
+  // defaults to the book's language
+  language?: string;
+}
+
+export interface GenerateArtifactOptions extends ArtifactSlot {
+  // user who asked for the content and pays for it; background jobs leave this empty
+  userUuid?: string;
+  // chapter text to summarise, for chapter summaries
+  content?: string;
+  // chapter title for the prompt when the key is not the bare title (see chapterKey)
+  chapter?: string;
+  // new version even if an identical request is cached
+  regenerate?: boolean;
+}
+
+// Thrown when the artifact is already being generated, mapped to HTTP 409 by routes
+export class ArtifactInProgressError extends Error {
+  constructor() {
+    super("Generation already in progress");
+    this.name = "ArtifactInProgressError";
+  }
+}
+
+export class BookArtifactService {
+  // The version served to readers, null if none has been generated yet
+  static async getCurrent(
+    bookUuid: string,
+    type: BookAIArtifactType,
+    slot: ArtifactSlot & { model?: string } = {}
+  ): Promise<BookAIArtifact | null> {
+    const conditions = [
+      ...this.slotConditions(bookUuid, type, slot),
+      eq(book_ai_artifacts.is_current, true),
+      eq(book_ai_artifacts.status, "ready")
+    ];
+    if (slot.model) {
+      conditions.push(eq(book_ai_artifacts.model, slot.model));
+    }
+
+    const [artifact] = await db
+      .select()
+      .from(book_ai_artifacts)
+      .where(and(...conditions))
+      .limit(1);
+
+    return (artifact as unknown as BookAIArtifact) || null;
+  }
+
+  // A specific version, null if it does not exist
+  static async getVersion(
+    bookUuid: string,
+    type: BookAIArtifactType,
+    version: number,
+    slot: ArtifactSlot = {}
+  ): Promise<BookAIArtifact | null> {
+    const [artifact] = await db
+      .select()
+      .from(book_ai_artifacts)
+      .where(and(...this.slotConditions(bookUuid, type, slot), eq(book_ai_artifacts.version, version)))
+      .limit(1);
+
+    return (artifact as unknown as BookAIArtifact) || null;
+  }
+
+  // All versions of an artifact, newest first
+  static async listVersions(
+    bookUuid: string,
+    type: BookAIArtifactType,
+    slot: ArtifactSlot = {}
+  ): Promise<BookAIArtifact[]> {
+    const artifacts = await db
+      .select()
+      .from(book_ai_artifacts)
+      .where(and(...this.slotConditions(bookUuid, type, slot)))
+      .orderBy(desc(book_ai_artifacts.version));
+
+    return artifacts as unknown as BookAIArtifact[];
+  }
+
+  // Serve the stored artifact, generating (and charging the user for) the first version if needed
+  static async getOrGenerate(
+    book: Book,
+    type: BookAIArtifactType,
+    options: GenerateArtifactOptions = {}
+  ): Promise<{ artifact: BookAIArtifact; generated: boolean }> {
+    const slot = { key: options.key, language: this.resolveLanguage(book, options.language) };
+
+    const current = await this.getCurrent(book.uuid, type, slot);
+    if (current) {
+      return { artifact: current, generated: false };
+    }
+
+    const artifact = await this.generate(book, type, { ...options, ...slot });
+    return { artifact, generated: true };
+  }
+
+  // Generate a new version and make it current
+  static async generate(
+    book: Book,
+    type: BookAIArtifactType,
+    options: GenerateArtifactOptions = {}
+  ): Promise<BookAIArtifact> {
+    const language = this.resolveLanguage(book, options.language);
+    const key = options.key || "";
+    const slot = { key, language };
+
+    const versions = await this.listVersions(book.uuid, type, slot);
+    if (versions.some(artifact => this.isPendingJob(artifact))) {
+      throw new ArtifactInProgressError();
+    }
+
+    const now = new Date();
+    const [pending] = await db.insert(book_ai_artifacts).values({
+      uuid: uuidv4(),
+      book_uuid: book.uuid,
+      artifact_type: type,
+      artifact_key: key,
+      language,
+      model: "pending",
+      version: (versions[0]?.version || 0) + 1,
+      status: "pending",
+      generated_by: options.userUuid,
+      created_at: now,
+      updated_at: now
+    }).returning();
+
+    try {
+      const generationOptions: GenerationOptions = { language, bypassCache: options.regenerate };
+      const response = await this.request(book, type, options.chapter || key, options.content, generationOptions);
+
+      if (options.userUuid && !response.metadata.cached) {
+        await chargeAIUsage({
+          user_uuid: options.userUuid,
+          trans_type: type === "overview" ? CreditsTransType.AIOverview : CreditsTransType.AIChapterSummary,
+          provider: response.provider,
+          model: response.model,
+          usage: response.usage
+        });
+      }
+
+      await db
+        .update(book_ai_artifacts)
+        .set({
+          status: "ready",
+          content: response.content,
+          model: response.model.slice(0, 100),
+          provider: response.provider,
+          input_tokens: response.usage.inputTokens,
+          output_tokens: response.usage.outputTokens,
+          updated_at: new Date()
+        })
+        .where(eq(book_ai_artifacts.uuid, pending.uuid));
+
+      return await this.setCurrent(book.uuid, pending.uuid);
+    } catch (error) {
+      console.error("Error generating book artifact:", error);
+
+      await db
+        .update(book_ai_artifacts)
+        .set({
+          status: "failed",
+          error: error instanceof Error ? error.message.slice(0, 1000) : "Generation failed",
+          updated_at: new Date()
+        })
+        .where(eq(book_ai_artifacts.uuid, pending.uuid));
+
+      throw error;
+    }
+  }
+
+  // Serve another ready version, e.g. to roll back a regeneration
+  static async setCurrent(bookUuid: string, artifactUuid: string): Promise<BookAIArtifact> {
+    const [artifact] = await db
+      .select()
+      .from(book_ai_artifacts)
+      .where(and(eq(book_ai_artifacts.uuid, artifactUuid), eq(book_ai_artifacts.book_uuid, bookUuid)))
+      .limit(1);
+
+    if (!artifact) {
+      throw new Error("Artifact not found");
+    }
+    if (artifact.status !== "ready") {
+      throw new Error("Only generated versions can be served");
+    }
+
+    await db
+      .update(book_ai_artifacts)
+      .set({ is_current: false, updated_at: new Date() })
+      .where(
+        and(
+          ...this.slotConditions(bookUuid, artifact.artifact_type as BookAIArtifactType, {
+            key: artifact.artifact_key,
+            language: artifact.language
+          }),
+          eq(book_ai_artifacts.is_current, true)
+        )
+      );
+
+    const [current] = await db
+      .update(book_ai_artifacts)
+      .set({ is_current: true, updated_at: new Date() })
+      .where(eq(book_ai_artifacts.uuid, artifactUuid))
+      .returning();
+
+    return current as unknown as BookAIArtifact;
+  }
+
+  // Slot key for a chapter summary. A summary written from reader-supplied text is keyed by that
+  // text too, so it is only served to readers who send the same chapter text.
+  static chapterKey(chapter: string, content?: string): string {
+    if (!content) return chapter;
+
+    const hash = createHash("sha256").update(content).digest("hex").slice(0, 16);
+    return `${chapter.slice(0, CHAPTER_KEY_LENGTH)}#${hash}`;
+  }
+
+  // Whether an edit touched the metadata the overview is generated from
+  static overviewChanged(before: Book, after: Book): boolean {
+    return OVERVIEW_FIELDS.some(field => (before[field] ?? null) !== (after[field] ?? null));
+  }
+
+  // Background job for new or edited books, run after the response is sent (next/server `after`).
+  // The user who triggered it is not charged, but it takes one of their AI rate limit tokens and
+  // its tokens count toward their daily quota. Edits wait OVERVIEW_DEBOUNCE_MS and give way to a
+  // later edit of the same book. Failures are only logged.
+  static async generateInBackground(
+    book: Book,
+    options: { userUuid: string; regenerate?: boolean }
+  ): Promise<void> {
+    try {
+      if (options.regenerate) {
+        await new Promise(resolve => setTimeout(resolve, OVERVIEW_DEBOUNCE_MS));
+
+        const [latest] = await db
+          .select()
+          .from(books)
+          .where(eq(books.uuid, book.uuid))
+          .limit(1);
+        // a later edit scheduled its own job
+        if (!latest || latest.updated_at?.valueOf() !== new Date(book.updated_at ?? 0).valueOf()) {
+          return;
+        }
+      } else if (await this.getCurrent(book.uuid, "overview", { language: this.resolveLanguage(book) })) {
+        return;
+      }
+
+      const limit = await checkAIRateLimit({ user_uuid: options.userUuid });
+      if (!limit.allowed) {
+        console.warn("Skipping background overview, AI limit reached for user:", options.userUuid);
+        return;
+      }
+
+      const artifact = await this.generate(book, "overview", { regenerate: options.regenerate });
+      await recordAIDailyUsage(options.userUuid, (artifact.input_tokens || 0) + (artifact.output_tokens || 0));
+    } catch (error) {
+      if (error instanceof ArtifactInProgressError) {
+        return;
+      }
+      console.error("Background overview generation failed for book:", book.uuid, error);
+    }
+  }
+
+  private static request(
+    book: Book,
+    type: BookAIArtifactType,
+    key: string,
+    content: string | undefined,
+    options: GenerationOptions
+  ): Promise<AIResponse> {
+    return type === "overview"
+      ? ReadingAssistantService.requestBookOverview(book, options)
+      : ReadingAssistantService.requestChapterSummary(book, key, content, options);
+  }
+
+  private static slotConditions(bookUuid: string, type: BookAIArtifactType, slot: ArtifactSlot) {
+    const conditions = [
+      eq(book_ai_artifacts.book_uuid, bookUuid),
+      eq(book_ai_artifacts.artifact_type, type),
+      eq(book_ai_artifacts.artifact_key, slot.key || "")
+    ];
+    if (slot.language) {
+      conditions.push(eq(book_ai_artifacts.language, slot.language));
+    }
+    return conditions;
+  }
+
+  private static resolveLanguage(book: Book, language?: string): string {
+    return (language || book.language || "en").slice(0, 10);
+  }
+
+  private static isPendingJob(artifact: BookAIArtifact): boolean {
+    if (artifact.status !== "pending") {
+      return false;
+    }
+
+    const startedAt = artifact.created_at ? new Date(artifact.created_at).getTime() : 0;
+    return Date.now() - startedAt < PENDING_TIMEOUT_MS;
+  }
+}
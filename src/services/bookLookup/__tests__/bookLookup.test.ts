@@ -0,0 +1,290 @@
+/**
+ * Unit Tests for the Book Lookup Service, Adapters and Helpers
+ */
+
+import {
+  BookLookupService,
+  BookLookupError,
+  BookLookupCache,
+  FixtureBookLookupAdapter,
+  GoogleBooksAdapter,
+  OpenLibraryAdapter,
+  createLookupAdapters,
+  dedupeResults,
+  isIsbn,
+  isbn10To13,
+  normalizeIsbn,
+  normalizeLanguage,
+  normalizePublishedDate,
+  IBookLookupAdapter,
+  BookLookupProvider,
+} from '..';
+
+import { BookLookupQuery, ExternalBookResult } from '@/types/book';
+
+// Adapter that always fails, used to exercise provider fallback
+class FailingLookupAdapter implements IBookLookupAdapter {
+  public readonly provider: BookLookupProvider = 'google_books';
+  public calls = 0;
+
+  async search(_query: BookLookupQuery): Promise<ExternalBookResult[]> {
+    this.calls++;
+    throw new BookLookupError('Service unavailable', this.provider, 503);
+  }
+}
+
+const mockFetchResponse = (body: unknown, status = 200) => {
+  (global.fetch as jest.Mock) = jest.fn().mockResolvedValue({
+    ok: status >= 200 && status < 300,
+    status,
+    json: async () => body,
+  });
+};
+
+describe('Book lookup helpers', () => {
+  it('should normalize ISBNs', () => {
+    expect(normalizeIsbn('978-0-7432-7356-5')).toBe('9780743273565');
+    expect(normalizeIsbn('0 8044 2957 x')).toBe('080442957X');
+  });
+
+  it('should detect ISBN queries', () => {
+    expect(isIsbn('0743273567')).toBe(true);
+    expect(isIsbn('978-0743273565')).toBe(true);
+    expect(isIsbn('080442957X')).toBe(true);
+    expect(isIsbn('The Great Gatsby')).toBe(false);
+  });
+
+  it('should convert ISBN-10 to ISBN-13', () => {
+    expect(isbn10To13('0743273567')).toBe('9780743273565');
+    expect(isbn10To13('0061120081')).toBe('9780061120084');
+    expect(isbn10To13('not-an-isbn')).toBeUndefined();
+  });
+
+  it('should normalize published dates', () => {
+    expect(normalizePublishedDate('2015-02-10')).toBe('2015-02-10');
+    expect(normalizePublishedDate(1925)).toBe('1925');
+    expect(normalizePublishedDate('March 1960')).toBe('1960');
+    expect(normalizePublishedDate('')).toBeUndefined();
+  });
+
+  it('should normalize language codes', () => {
+    expect(normalizeLanguage('eng')).toBe('en');
+    expect(normalizeLanguage('chi')).toBe('zh');
+    expect(normalizeLanguage('EN')).toBe('en');
+    expect(normalizeLanguage(undefined)).toBeUndefined();
+  });
+
+  it('should drop duplicate results by ISBN or title and author', () => {
+    const base: ExternalBookResult = {
+      id: '1',
+      title: 'The Great Gatsby',
+      authors: ['F. Scott Fitzgerald'],
+      isbn_13: '9780743273565',
+      source: 'google_books',
+    };
+
+    const merged = dedupeResults([
+      base,
+      { ...base, id: '2', source: 'open_library' },
+      { ...base, id: '3', isbn_13: undefined, title: 'the great gatsby ' },
+      { ...base, id: '4', title: 'Tender Is the Night', isbn_13: '9780684801544' },
+    ]);
+
+    expect(merged.map(result => result.id)).toEqual(['1', '4']);
+  });
+});
+
+describe('BookLookupCache', () => {
+  it('should build the same key for equivalent queries', () => {
+    expect(BookLookupCache.getCacheKey({ query: ' Gatsby ', isbn: '0-7432-7356-7' }))
+      .toBe(BookLookupCache.getCacheKey({ query: 'gatsby', isbn: '0743273567' }));
+  });
+
+  it('should expire entries after the TTL', () => {
+    const cache = new BookLookupCache(1000, 10);
+    const now = Date.now();
+    jest.spyOn(Date, 'now').mockReturnValue(now);
+
+    cache.set('key', []);
+    expect(cache.get('key')).toEqual([]);
+
+    (Date.now as jest.Mock).mockReturnValue(now + 1001);
+    expect(cache.get('key')).toBeNull();
+
+    (Date.now as jest.Mock).mockRestore();
+  });
+
+  it('should evict the oldest entry when full', () => {
+    const cache = new BookLookupCache(60000, 2);
+    cache.set('a', []);
+    cache.set('b', []);
+    cache.set('c', []);
+
+    expect(cache.get('a')).toBeNull();
+    expect(cache.get('b')).toEqual([]);
+    expect(cache.get('c')).toEqual([]);
+  });
+});
+
+describe('FixtureBookLookupAdapter', () => {
+  const adapter = new FixtureBookLookupAdapter();
+
+  it('should search by title or author text', async () => {
+    const byTitle = await adapter.search({ query: 'gatsby' });
+    expect(byTitle.map(book => book.title)).toEqual(['The Great Gatsby']);
+
+    const byAuthor = await adapter.search({ query: 'harper lee' });
+    expect(byAuthor.map(book => book.title)).toEqual(['To Kill a Mockingbird']);
+  });
+
+  it('should search by ISBN-10 or ISBN-13', async () => {
+    const byIsbn10 = await adapter.search({ query: '0-06-112008-1' });
+    expect(byIsbn10[0]?.title).toBe('To Kill a Mockingbird');
+
+    const byIsbn13 = await adapter.search({ isbn: '9780062316097' });
+    expect(byIsbn13[0]?.title).toBe('Sapiens');
+  });
+
+  it('should apply language and subject filters', async () => {
+    const chinese = await adapter.search({ query: '三体', language: 'zh' });
+    expect(chinese).toHaveLength(1);
+
+    const history = await adapter.search({ author: 'harari', subject: 'history' });
+    expect(history).toHaveLength(1);
+
+    const none = await adapter.search({ query: 'gatsby', language: 'zh' });
+    expect(none).toHaveLength(0);
+  });
+});
+
+describe('GoogleBooksAdapter', () => {
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should build field-scoped queries and normalize volumes', async () => {
+    mockFetchResponse({
+      totalItems: 1,
+      items: [{
+        id: 'vol-1',
+        volumeInfo: {
+          title: 'The Great Gatsby',
+          authors: ['F. Scott Fitzgerald'],
+          publishedDate: '2004-09-30',
+          pageCount: 180,
+          language: 'en',
+          industryIdentifiers: [
+            { type: 'ISBN_10', identifier: '0743273567' },
+            { type: 'ISBN_13', identifier: '9780743273565' },
+          ],
+          imageLinks: {
+            thumbnail: 'http://books.google.com/books/content?id=vol-1&img=1&zoom=1&edge=curl',
+          },
+        },
+      }],
+    });
+
+    const adapter = new GoogleBooksAdapter('test-key');
+    const results = await adapter.search({ title: 'Gatsby', author: 'Fitzgerald', limit: 5 });
+
+    const url = new URL((global.fetch as jest.Mock).mock.calls[0][0]);
+    expect(url.searchParams.get('q')).toBe('intitle:Gatsby inauthor:Fitzgerald');
+    expect(url.searchParams.get('maxResults')).toBe('5');
+    expect(url.searchParams.get('key')).toBe('test-key');
+
+    expect(results).toHaveLength(1);
+    expect(results[0]).toMatchObject({
+      id: 'vol-1',
+      isbn_10: '0743273567',
+      isbn_13: '9780743273565',
+      published_date: '2004-09-30',
+      source: 'google_books',
+    });
+    expect(results[0].image_links?.thumbnail).toBe(
+      'https://books.google.com/books/content?id=vol-1&img=1&zoom=1'
+    );
+  });
+
+  it('should throw BookLookupError on HTTP errors', async () => {
+    mockFetchResponse({ error: 'quota' }, 429);
+
+    const adapter = new GoogleBooksAdapter();
+    await expect(adapter.search({ query: 'gatsby' })).rejects.toThrow(BookLookupError);
+  });
+});
+
+describe('OpenLibraryAdapter', () => {
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should query by ISBN and normalize search documents', async () => {
+    mockFetchResponse({
+      numFound: 1,
+      docs: [{
+        key: '/works/OL468431W',
+        title: 'The Great Gatsby',
+        author_name: ['F. Scott Fitzgerald'],
+        first_publish_year: 1925,
+        isbn: ['0743273567', '9780743273565'],
+        language: ['eng'],
+        cover_i: 123,
+      }],
+    });
+
+    const adapter = new OpenLibraryAdapter();
+    const results = await adapter.search({ query: '978-0743273565' });
+
+    const url = new URL((global.fetch as jest.Mock).mock.calls[0][0]);
+    expect(url.searchParams.get('isbn')).toBe('9780743273565');
+    expect(url.searchParams.get('q')).toBeNull();
+
+    expect(results[0]).toMatchObject({
+      id: 'OL468431W',
+      published_date: '1925',
+      language: 'en',
+      isbn_10: '0743273567',
+      isbn_13: '9780743273565',
+      source: 'open_library',
+    });
+    expect(results[0].image_links?.medium).toBe('https://covers.openlibrary.org/b/id/123-M.jpg');
+  });
+});
+
+describe('BookLookupService', () => {
+  it('should fall back to the next provider when one fails', async () => {
+    const failing = new FailingLookupAdapter();
+    const service = new BookLookupService([failing, new FixtureBookLookupAdapter()]);
+
+    const results = await service.search({ query: 'gatsby' });
+
+    expect(failing.calls).toBe(1);
+    expect(results.map(book => book.title)).toEqual(['The Great Gatsby']);
+  });
+
+  it('should cache responses', async () => {
+    const fixture = new FixtureBookLookupAdapter();
+    const searchSpy = jest.spyOn(fixture, 'search');
+    const service = new BookLookupService([fixture]);
+
+    await service.search({ query: 'mockingbird' });
+    await service.search({ query: 'Mockingbird ' });
+
+    expect(searchSpy).toHaveBeenCalledTimes(1);
+  });
+
+  it('should not cache empty results caused by provider failures', async () => {
+    const failing = new FailingLookupAdapter();
+    const service = new BookLookupService([failing]);
+
+    await service.search({ query: 'gatsby' });
+    await service.search({ query: 'gatsby' });
+
+    expect(failing.calls).toBe(2);
+  });
+
+  it('should create adapters from a provider list', () => {
+    const adapters = createLookupAdapters('fixture, open_library, unknown');
+    expect(adapters.map(adapter => adapter.provider)).toEqual(['fixture', 'open_library']);
+  });
+});
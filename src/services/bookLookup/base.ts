@@ -0,0 +1,197 @@
+/**
+ * Base Book Lookup Abstractions for BooksOfLife
+ *
+ * Shared adapter contract, response cache and normalization helpers used by
+ * the external book metadata providers (Google Books, Open Library, fixtures).
+ */
+
+import { BookLookupQuery, ExternalBookResult } from '@/types/book';
+
+/**
+ * Identifier of a lookup adapter
+ */
+export type BookLookupProvider = 'google_books' | 'open_library' | 'fixture';
+
+/**
+ * Book lookup adapter interface - implemented by each metadata provider
+ */
+export interface IBookLookupAdapter {
+  /** Provider identifier */
+  readonly provider: BookLookupProvider;
+
+  /** Search the provider and return normalized results */
+  search(query: BookLookupQuery): Promise<ExternalBookResult[]>;
+}
+
+/**
+ * Book lookup error
+ */
+export class BookLookupError extends Error {
+  constructor(
+    message: string,
+    public readonly provider: BookLookupProvider,
+    public readonly status?: number,
+    public readonly originalError?: Error
+  ) {
+    super(message);
+    this.name = 'BookLookupError';
+  }
+}
+
+/**
+ * Simple in-memory TTL cache for lookup responses
+ */
+export class BookLookupCache {
+  private cache = new Map<string, { data: ExternalBookResult[]; expiry: number }>();
+
+  constructor(
+    private readonly ttl: number,
+    private readonly maxSize: number
+  ) {}
+
+  /**
+   * Generate cache key from a query
+   */
+  public static getCacheKey(query: BookLookupQuery): string {
+    return JSON.stringify({
+      query: query.query?.trim().toLowerCase(),
+      title: query.title?.trim().toLowerCase(),
+      author: query.author?.trim().toLowerCase(),
+      isbn: query.isbn ? normalizeIsbn(query.isbn) : undefined,
+      language: query.language,
+      subject: query.subject?.toLowerCase(),
+      limit: query.limit,
+    });
+  }
+
+  public get(key: string): ExternalBookResult[] | null {
+    const cached = this.cache.get(key);
+    if (!cached) {
+      return null;
+    }
+
+    if (Date.now() > cached.expiry) {
+      this.cache.delete(key);
+      return null;
+    }
+
+    return cached.data;
+  }
+
+  public set(key: string, data: ExternalBookResult[]): void {
+    // Evict oldest entry if cache is full
+    if (this.cache.size >= this.maxSize) {
+      const oldestKey = this.cache.keys().next().value;
+      if (oldestKey !== undefined) {
+        this.cache.delete(oldestKey);
+      }
+    }
+
+    this.cache.set(key, { data, expiry: Date.now() + this.ttl });
+  }
+
+  public clear(): void {
+    this.cache.clear();
+  }
+}
+
+/**
+ * Strip hyphens and spaces from an ISBN
+ */
+export function normalizeIsbn(isbn: string): string {
+  return isbn.replace(/[\s-]/g, '').toUpperCase();
+}
+
+/**
+ * Check whether a free-text query looks like an ISBN-10 or ISBN-13
+ */
+export function isIsbn(value: string): boolean {
+  const normalized = normalizeIsbn(value);
+  return /^\d{9}[\dX]$/.test(normalized) || /^\d{13}$/.test(normalized);
+}
+
+/**
+ * Convert an ISBN-10 to its ISBN-13 form
+ */
+export function isbn10To13(isbn10: string): string | undefined {
+  const normalized = normalizeIsbn(isbn10);
+  if (!/^\d{9}[\dX]$/.test(normalized)) {
+    return undefined;
+  }
+
+  const core = `978${normalized.slice(0, 9)}`;
+  const sum = core
+    .split('')
+    .reduce((total, digit, index) => total + Number(digit) * (index % 2 === 0 ? 1 : 3), 0);
+  const checkDigit = (10 - (sum % 10)) % 10;
+
+  return `${core}${checkDigit}`;
+}
+
+/**
+ * Normalize a publication date to YYYY, YYYY-MM or YYYY-MM-DD when possible
+ */
+export function normalizePublishedDate(value?: string | number): string | undefined {
+  if (value === undefined || value === null || value === '') {
+    return undefined;
+  }
+
+  const text = String(value).trim();
+  if (/^\d{4}(-\d{2}(-\d{2})?)?$/.test(text)) {
+    return text;
+  }
+
+  const yearMatch = text.match(/\b(\d{4})\b/);
+  return yearMatch ? yearMatch[1] : undefined;
+}
+
+/**
+ * Normalize a language code to a two-letter ISO 639-1 code when possible
+ */
+export function normalizeLanguage(value?: string): string | undefined {
+  if (!value) return undefined;
+
+  const iso639_2: Record<string, string> = {
+    eng: 'en',
+    spa: 'es',
+    fre: 'fr',
+    fra: 'fr',
+    ger: 'de',
+    deu: 'de',
+    chi: 'zh',
+    zho: 'zh',
+    jpn: 'ja',
+    ita: 'it',
+    por: 'pt',
+    rus: 'ru',
+    kor: 'ko',
+  };
+
+  const code = value.toLowerCase();
+  return iso639_2[code] || (code.length === 2 ? code : code.slice(0, 2));
+}
+
+/**
+ * Merge results from several providers, dropping duplicates by ISBN or title/author
+ */
+export function dedupeResults(results: ExternalBookResult[]): ExternalBookResult[] {
+  const seen = new Set<string>();
+  const merged: ExternalBookResult[] = [];
+
+  for (const result of results) {
+    const keys = [
+      result.isbn_13 && `isbn13:${result.isbn_13}`,
+      result.isbn_10 && `isbn10:${result.isbn_10}`,
+      `title:${result.title.toLowerCase().trim()}|${(result.authors[0] || '').toLowerCase().trim()}`,
+    ].filter(Boolean) as string[];
+
+    if (keys.some(key => seen.has(key))) {
+      continue;
+    }
+
+    keys.forEach(key => seen.add(key));
+    merged.push(result);
+  }
+
+  return merged;
+}
@@ -0,0 +1,122 @@
+/**
+ * Book Lookup Service for BooksOfLife
+ *
+ * Queries the configured external metadata providers in order, merges and
+ * de-duplicates their results, and caches responses in memory.
+ */
+
+import { BookLookupQuery, ExternalBookResult } from '@/types/book';
+import {
+  BookLookupCache,
+  BookLookupProvider,
+  IBookLookupAdapter,
+  dedupeResults,
+} from './base';
+import { GoogleBooksAdapter } from './providers/googleBooks';
+import { OpenLibraryAdapter } from './providers/openLibrary';
+import { FixtureBookLookupAdapter } from './providers/fixture';
+
+export * from './base';
+export { GoogleBooksAdapter } from './providers/googleBooks';
+export { OpenLibraryAdapter } from './providers/openLibrary';
+export { FixtureBookLookupAdapter, FIXTURE_BOOKS } from './providers/fixture';
+
+/**
+ * Registry of available lookup adapter factories
+ */
+const LOOKUP_ADAPTER_REGISTRY: Record<BookLookupProvider, () => IBookLookupAdapter> = {
+  google_books: () => new GoogleBooksAdapter(
+    process.env.GOOGLE_BOOKS_API_KEY,
+    parseInt(process.env.BOOK_LOOKUP_TIMEOUT || '8000')
+  ),
+  open_library: () => new OpenLibraryAdapter(
+    parseInt(process.env.BOOK_LOOKUP_TIMEOUT || '8000')
+  ),
+  fixture: () => new FixtureBookLookupAdapter(),
+};
+
+/**
+ * Create lookup adapters from a comma separated provider list
+ */
+export function createLookupAdapters(providers: string): IBookLookupAdapter[] {
+  return providers
+    .split(',')
+    .map(provider => provider.trim())
+    .filter((provider): provider is BookLookupProvider => {
+      if (provider in LOOKUP_ADAPTER_REGISTRY) return true;
+      if (provider) console.warn(`Unknown book lookup provider: ${provider}`);
+      return false;
+    })
+    .map(provider => LOOKUP_ADAPTER_REGISTRY[provider]());
+}
+
+export class BookLookupService {
+  private cache: BookLookupCache;
+
+  constructor(
+    private readonly adapters: IBookLookupAdapter[],
+    cacheTtl: number = 60 * 60 * 1000,
+    cacheMaxSize: number = 500
+  ) {
+    this.cache = new BookLookupCache(cacheTtl, cacheMaxSize);
+  }
+
+  /**
+   * Search all providers, falling through to the next one on failure
+   */
+  public async search(query: BookLookupQuery): Promise<ExternalBookResult[]> {
+    const cacheKey = BookLookupCache.getCacheKey(query);
+    const cached = this.cache.get(cacheKey);
+    if (cached) {
+      return cached;
+    }
+
+    const limit = query.limit || 10;
+    const collected: ExternalBookResult[] = [];
+    let failures = 0;
+
+    for (const adapter of this.adapters) {
+      try {
+        collected.push(...await adapter.search(query));
+      } catch (error) {
+        failures++;
+        console.error(`Book lookup failed for ${adapter.provider}:`, error);
+        continue;
+      }
+
+      if (dedupeResults(collected).length >= limit) {
+        break;
+      }
+    }
+
+    const results = dedupeResults(collected).slice(0, limit);
+
+    // Do not cache an empty answer caused by provider outages
+    if (results.length > 0 || failures === 0) {
+      this.cache.set(cacheKey, results);
+    }
+
+    return results;
+  }
+
+  public clearCache(): void {
+    this.cache.clear();
+  }
+}
+
+let bookLookupService: BookLookupService | null = null;
+
+/**
+ * Get the shared lookup service configured from the environment
+ */
+export function getBookLookupService(): BookLookupService {
+  if (!bookLookupService) {
+    const providers = process.env.BOOK_LOOKUP_PROVIDERS || 'google_books,open_library';
+    bookLookupService = new BookLookupService(
+      createLookupAdapters(providers),
+      parseInt(process.env.BOOK_LOOKUP_CACHE_TTL || '3600000')
+    );
+  }
+
+  return bookLookupService;
+}
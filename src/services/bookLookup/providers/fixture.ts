@@ -0,0 +1,111 @@
+/**
+ * Fixture Lookup Adapter for BooksOfLife
+ *
+ * Offline stand-in for the external metadata providers. Serves a small,
+ * fixed catalogue so tests and local development never hit the network.
+ */
+
+import { BookLookupQuery, ExternalBookResult } from '@/types/book';
+import {
+  BookLookupProvider,
+  IBookLookupAdapter,
+  isIsbn,
+  normalizeIsbn,
+} from '../base';
+
+export const FIXTURE_BOOKS: ExternalBookResult[] = [
+  {
+    id: 'fixture-great-gatsby',
+    title: 'The Great Gatsby',
+    authors: ['F. Scott Fitzgerald'],
+    description: 'A classic American novel about the Jazz Age',
+    published_date: '1925',
+    page_count: 180,
+    categories: ['Fiction', 'Classic'],
+    language: 'en',
+    isbn_10: '0743273567',
+    isbn_13: '9780743273565',
+    publisher: 'Scribner',
+    source: 'google_books',
+  },
+  {
+    id: 'fixture-mockingbird',
+    title: 'To Kill a Mockingbird',
+    authors: ['Harper Lee'],
+    description: 'A gripping tale of racial injustice and loss of innocence',
+    published_date: '1960',
+    page_count: 376,
+    categories: ['Fiction', 'Classic'],
+    language: 'en',
+    isbn_10: '0061120081',
+    isbn_13: '9780061120084',
+    publisher: 'J.B. Lippincott & Co.',
+    source: 'google_books',
+  },
+  {
+    id: 'fixture-sapiens',
+    title: 'Sapiens',
+    subtitle: 'A Brief History of Humankind',
+    authors: ['Yuval Noah Harari'],
+    description: 'An exploration of how Homo sapiens came to dominate the world',
+    published_date: '2015-02-10',
+    page_count: 464,
+    categories: ['History', 'Non-Fiction'],
+    language: 'en',
+    isbn_10: '0062316095',
+    isbn_13: '9780062316097',
+    publisher: 'Harper',
+    source: 'open_library',
+  },
+  {
+    id: 'fixture-three-body',
+    title: '三体',
+    authors: ['刘慈欣'],
+    description: '地球文明与三体文明的命运交织',
+    published_date: '2008-01',
+    page_count: 302,
+    categories: ['Science Fiction'],
+    language: 'zh',
+    isbn_13: '9787536692930',
+    publisher: '重庆出版社',
+    source: 'open_library',
+  },
+];
+
+export class FixtureBookLookupAdapter implements IBookLookupAdapter {
+  public readonly provider: BookLookupProvider = 'fixture';
+
+  constructor(private readonly books: ExternalBookResult[] = FIXTURE_BOOKS) {}
+
+  public async search(query: BookLookupQuery): Promise<ExternalBookResult[]> {
+    const isbn = query.isbn || (query.query && isIsbn(query.query) ? query.query : undefined);
+    const text = isbn ? undefined : query.query?.trim().toLowerCase();
+
+    const matches = this.books.filter(book => {
+      if (isbn) {
+        const normalized = normalizeIsbn(isbn);
+        if (book.isbn_10 !== normalized && book.isbn_13 !== normalized) return false;
+      }
+      if (text && !this.matchesText(book, text)) return false;
+      if (query.title && !book.title.toLowerCase().includes(query.title.trim().toLowerCase())) return false;
+      if (query.author && !this.matchesAuthor(book, query.author.trim().toLowerCase())) return false;
+      if (query.language && book.language !== query.language) return false;
+      if (query.subject && !book.categories?.some(c => c.toLowerCase() === query.subject!.toLowerCase())) {
+        return false;
+      }
+      return true;
+    });
+
+    return matches.slice(0, query.limit || 10);
+  }
+
+  private matchesText(book: ExternalBookResult, text: string): boolean {
+    return book.title.toLowerCase().includes(text) ||
+      (book.subtitle?.toLowerCase().includes(text) ?? false) ||
+      this.matchesAuthor(book, text);
+  }
+
+  private matchesAuthor(book: ExternalBookResult, author: string): boolean {
+    return book.authors.some(name => name.toLowerCase().includes(author));
+  }
+}
@@ -0,0 +1,166 @@
+/**
+ * Google Books Lookup Adapter for BooksOfLife
+ *
+ * Queries the Google Books volumes API and normalizes volumes into
+ * ExternalBookResult records.
+ */
+
+import { BookLookupQuery, ExternalBookResult } from '@/types/book';
+import {
+  BookLookupError,
+  BookLookupProvider,
+  IBookLookupAdapter,
+  isIsbn,
+  normalizeIsbn,
+  normalizeLanguage,
+  normalizePublishedDate,
+} from '../base';
+
+/**
+ * Google Books volume resource (subset used by the adapter)
+ */
+interface GoogleBooksVolume {
+  id: string;
+  volumeInfo: {
+    title?: string;
+    subtitle?: string;
+    authors?: string[];
+    publisher?: string;
+    publishedDate?: string;
+    description?: string;
+    industryIdentifiers?: Array<{
+      type: string;
+      identifier: string;
+    }>;
+    pageCount?: number;
+    categories?: string[];
+    language?: string;
+    imageLinks?: {
+      smallThumbnail?: string;
+      thumbnail?: string;
+      small?: string;
+      medium?: string;
+      large?: string;
+    };
+  };
+}
+
+interface GoogleBooksSearchResponse {
+  totalItems: number;
+  items?: GoogleBooksVolume[];
+}
+
+export class GoogleBooksAdapter implements IBookLookupAdapter {
+  public readonly provider: BookLookupProvider = 'google_books';
+
+  private baseUrl = 'https://www.googleapis.com/books/v1';
+
+  constructor(
+    private readonly apiKey?: string,
+    private readonly timeout: number = 8000
+  ) {}
+
+  public async search(query: BookLookupQuery): Promise<ExternalBookResult[]> {
+    const q = this.buildQuery(query);
+    if (!q) {
+      return [];
+    }
+
+    const params = new URLSearchParams({
+      q,
+      maxResults: String(Math.min(query.limit || 10, 40)),
+      printType: 'books',
+    });
+    if (query.language) {
+      params.set('langRestrict', query.language);
+    }
+    if (this.apiKey) {
+      params.set('key', this.apiKey);
+    }
+
+    let response: Response;
+    try {
+      response = await fetch(`${this.baseUrl}/volumes?${params}`, {
+        headers: { 'Accept': 'application/json' },
+        signal: AbortSignal.timeout(this.timeout),
+      });
+    } catch (error) {
+      throw new BookLookupError(
+        'Google Books request failed',
+        this.provider,
+        undefined,
+        error instanceof Error ? error : new Error(String(error))
+      );
+    }
+
+    if (!response.ok) {
+      throw new BookLookupError(
+        `Google Books returned HTTP ${response.status}`,
+        this.provider,
+        response.status
+      );
+    }
+
+    const data: GoogleBooksSearchResponse = await response.json();
+    return (data.items || [])
+      .map(volume => this.mapVolume(volume))
+      .filter((result): result is ExternalBookResult => result !== null);
+  }
+
+  /**
+   * Build a Google Books `q` parameter using field-scoped keywords
+   */
+  private buildQuery(query: BookLookupQuery): string {
+    const parts: string[] = [];
+
+    if (query.isbn) {
+      parts.push(`isbn:${normalizeIsbn(query.isbn)}`);
+    } else if (query.query && isIsbn(query.query)) {
+      parts.push(`isbn:${normalizeIsbn(query.query)}`);
+    } else if (query.query) {
+      parts.push(query.query.trim());
+    }
+
+    if (query.title) parts.push(`intitle:${query.title.trim()}`);
+    if (query.author) parts.push(`inauthor:${query.author.trim()}`);
+    if (query.subject) parts.push(`subject:${query.subject.trim()}`);
+
+    return parts.join(' ');
+  }
+
+  private mapVolume(volume: GoogleBooksVolume): ExternalBookResult | null {
+    const info = volume.volumeInfo;
+    if (!info?.title) {
+      return null;
+    }
+
+    const identifiers = info.industryIdentifiers || [];
+    const isbn10 = identifiers.find(id => id.type === 'ISBN_10')?.identifier;
+    const isbn13 = identifiers.find(id => id.type === 'ISBN_13')?.identifier;
+
+    // Google serves http thumbnails with page curl by default
+    const secure = (url?: string) => url?.replace(/^http:/, 'https:').replace('&edge=curl', '');
+
+    return {
+      id: volume.id,
+      title: info.title,
+      subtitle: info.subtitle,
+      authors: info.authors || [],
+      description: info.description,
+      published_date: normalizePublishedDate(info.publishedDate),
+      page_count: info.pageCount || undefined,
+      categories: info.categories,
+      language: normalizeLanguage(info.language),
+      isbn_10: isbn10 ? normalizeIsbn(isbn10) : undefined,
+      isbn_13: isbn13 ? normalizeIsbn(isbn13) : undefined,
+      image_links: info.imageLinks ? {
+        thumbnail: secure(info.imageLinks.thumbnail || info.imageLinks.smallThumbnail),
+        small: secure(info.imageLinks.small),
+        medium: secure(info.imageLinks.medium),
+        large: secure(info.imageLinks.large),
+      } : undefined,
+      publisher: info.publisher,
+      source: 'google_books',
+    };
+  }
+}
@@ -0,0 +1,144 @@
+/**
+ * Open Library Lookup Adapter for BooksOfLife
+ *
+ * Queries the Open Library search API and normalizes works into
+ * ExternalBookResult records.
+ */
+
+import { BookLookupQuery, ExternalBookResult } from '@/types/book';
+import {
+  BookLookupError,
+  BookLookupProvider,
+  IBookLookupAdapter,
+  isIsbn,
+  normalizeIsbn,
+  normalizeLanguage,
+  normalizePublishedDate,
+} from '../base';
+
+/**
+ * Open Library search document (subset used by the adapter)
+ */
+interface OpenLibraryDoc {
+  key: string;
+  title?: string;
+  subtitle?: string;
+  author_name?: string[];
+  first_publish_year?: number;
+  publish_date?: string[];
+  publisher?: string[];
+  number_of_pages_median?: number;
+  isbn?: string[];
+  language?: string[];
+  subject?: string[];
+  cover_i?: number;
+  first_sentence?: string[];
+}
+
+interface OpenLibrarySearchResponse {
+  numFound: number;
+  docs: OpenLibraryDoc[];
+}
+
+export class OpenLibraryAdapter implements IBookLookupAdapter {
+  public readonly provider: BookLookupProvider = 'open_library';
+
+  private baseUrl = 'https://openlibrary.org';
+  private coversUrl = 'https://covers.openlibrary.org';
+
+  constructor(private readonly timeout: number = 8000) {}
+
+  public async search(query: BookLookupQuery): Promise<ExternalBookResult[]> {
+    const params = this.buildParams(query);
+    if (!params) {
+      return [];
+    }
+
+    params.set('limit', String(Math.min(query.limit || 10, 50)));
+    params.set(
+      'fields',
+      'key,title,subtitle,author_name,first_publish_year,publish_date,publisher,number_of_pages_median,isbn,language,subject,cover_i,first_sentence'
+    );
+
+    let response: Response;
+    try {
+      response = await fetch(`${this.baseUrl}/search.json?${params}`, {
+        headers: { 'Accept': 'application/json' },
+        signal: AbortSignal.timeout(this.timeout),
+      });
+    } catch (error) {
+      throw new BookLookupError(
+        'Open Library request failed',
+        this.provider,
+        undefined,
+        error instanceof Error ? error : new Error(String(error))
+      );
+    }
+
+    if (!response.ok) {
+      throw new BookLookupError(
+        `Open Library returned HTTP ${response.status}`,
+        this.provider,
+        response.status
+      );
+    }
+
+    const data: OpenLibrarySearchResponse = await response.json();
+    return (data.docs || [])
+      .map(doc => this.mapDoc(doc))
+      .filter((result): result is ExternalBookResult => result !== null);
+  }
+
+  private buildParams(query: BookLookupQuery): URLSearchParams | null {
+    const params = new URLSearchParams();
+
+    if (query.isbn) {
+      params.set('isbn', normalizeIsbn(query.isbn));
+    } else if (query.query && isIsbn(query.query)) {
+      params.set('isbn', normalizeIsbn(query.query));
+    } else if (query.query) {
+      params.set('q', query.query.trim());
+    }
+
+    if (query.title) params.set('title', query.title.trim());
+    if (query.author) params.set('author', query.author.trim());
+    if (query.subject) params.set('subject', query.subject.trim());
+    if (query.language) params.set('language', query.language);
+
+    return params.toString() ? params : null;
+  }
+
+  private mapDoc(doc: OpenLibraryDoc): ExternalBookResult | null {
+    if (!doc.title) {
+      return null;
+    }
+
+    const isbns = (doc.isbn || []).map(normalizeIsbn);
+    const isbn13 = isbns.find(isbn => isbn.length === 13);
+    const isbn10 = isbns.find(isbn => isbn.length === 10);
+    const cover = (size: 'S' | 'M' | 'L') =>
+      doc.cover_i ? `${this.coversUrl}/b/id/${doc.cover_i}-${size}.jpg` : undefined;
+
+    return {
+      id: doc.key.replace('/works/', ''),
+      title: doc.title,
+      subtitle: doc.subtitle,
+      authors: doc.author_name || [],
+      description: doc.first_sentence?.[0],
+      published_date: normalizePublishedDate(doc.first_publish_year ?? doc.publish_date?.[0]),
+      page_count: doc.number_of_pages_median || undefined,
+      categories: doc.subject?.slice(0, 5),
+      language: normalizeLanguage(doc.language?.[0]),
+      isbn_10: isbn10,
+      isbn_13: isbn13,
+      image_links: doc.cover_i ? {
+        thumbnail: cover('S'),
+        small: cover('S'),
+        medium: cover('M'),
+        large: cover('L'),
+      } : undefined,
+      publisher: doc.publisher?.[0],
+      source: 'open_library',
+    };
+  }
+}
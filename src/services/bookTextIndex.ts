@@ -0,0 +1,422 @@
+import { database as db } from "@/db";
+import { books, book_text_sources, book_text_chunks } from "@/db/schema";
+import { embedAI, AIUtils } from "@/services/ai";
+import { calculateTokenCost, chargeAIUsage, costToCredits, ensureAICredits } from "@/services/aiCredits";
+import { CreditsTransType } from "@/services/credit";
+import { detectBookTextFormat, extractBookText, ExtractedBookText } from "@/lib/bookText";
+import { BookTextPassage, BookTextSource } from "@/types/book";
+import { AIProvider } from "@/types/ai";
+import { eq, and, lte, inArray, sql } from "drizzle-orm";
+import { v4 as uuidv4 } from "uuid";
+
+// Target characters per chunk; neighbouring chunks share up to CHUNK_OVERLAP characters
+const CHUNK_SIZE = 1500;
+const CHUNK_OVERLAP = 200;
+// Characters per estimated page when the book has no page count
+const CHARS_PER_PAGE = 1800;
+// Bounds embedding cost for very long uploads
+const MAX_CHUNKS = 4000;
+// Embedding models are missing from the provider price tables; $0.10 per 1M input tokens
+const EMBEDDING_PRICING = { costPerInputToken: 0.0000001, costPerOutputToken: 0 };
+const INSERT_BATCH_SIZE = 200;
+// Passages scoring below this are not worth citing
+const MIN_PASSAGE_SCORE = 0.2;
+
+export interface BookTextChunkDraft {
+  chunk_index: number;
+  page_start: number;
+  page_end: number;
+  chapter?: string;
+  content: string;
+}
+
+export interface BookTextSearchOptions {
+  // only passages ending on or before this page
+  maxPage?: number;
+  // only passages within this percentage of the book, used when no page is known
+  maxProgress?: number;
+  limit?: number;
+}
+
+// Thrown for uploads we cannot index, mapped to HTTP 400 by routes
+export class BookTextUploadError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "BookTextUploadError";
+  }
+}
+
+interface TextPiece {
+  text: string;
+  start: number;
+  end: number;
+  page?: number;
+  chapter?: string;
+  startsParagraph: boolean;
+}
+
+export class BookTextIndexService {
+  // Extract and chunk an uploaded book and record it as processing, replacing the reader's
+  // previous upload. The chunks are embedded by indexInBackground once the response is sent.
+  static async prepareUpload(
+    userUuid: string,
+    bookUuid: string,
+    file: { filename: string; data: Uint8Array }
+  ): Promise<{ source: BookTextSource; chunks: BookTextChunkDraft[] }> {
+    const format = detectBookTextFormat(file.filename, file.data);
+    if (!format) {
+      throw new BookTextUploadError("Unsupported file type, upload an EPUB, PDF or plain text file");
+    }
+
+    const [book] = await db
+      .select()
+      .from(books)
+      .where(eq(books.uuid, bookUuid))
+      .limit(1);
+
+    if (!book) {
+      throw new Error("Book not found");
+    }
+
+    let extracted: ExtractedBookText;
+    try {
+      extracted = extractBookText(file.data, format);
+    } catch (error) {
+      throw new BookTextUploadError(error instanceof Error ? error.message : "The file could not be read");
+    }
+
+    const chunks = this.chunkText(extracted, book.page_count || undefined);
+    if (chunks.length === 0) {
+      throw new BookTextUploadError("No readable text was found in the file (scanned PDFs are not supported)");
+    }
+    if (chunks.length > MAX_CHUNKS) {
+      throw new BookTextUploadError("The book is too long to index");
+    }
+
+    // The charge follows the embedding, so the reader must already hold what it will cost
+    await ensureAICredits(userUuid, this.estimateCredits(chunks));
+
+    await this.deleteSource(userUuid, bookUuid);
+
+    const now = new Date();
+    const [source] = await db.insert(book_text_sources).values({
+      uuid: uuidv4(),
+      user_uuid: userUuid,
+      book_uuid: bookUuid,
+      filename: file.filename.slice(0, 500),
+      format,
+      byte_size: file.data.length,
+      status: "processing",
+      chunk_count: chunks.length,
+      page_count: chunks[chunks.length - 1].page_end,
+      pages_estimated: !extracted.hasPageNumbers,
+      created_at: now,
+      updated_at: now
+    }).returning();
+
+    return { source: source as unknown as BookTextSource, chunks };
+  }
+
+  // Background job for a prepared upload: embed and store the chunks, charge the reader and
+  // mark the source ready, or failed with the reason. Run it after the response is sent
+  // (next/server `after`).
+  static async indexInBackground(source: BookTextSource, chunks: BookTextChunkDraft[]): Promise<void> {
+    try {
+      const embedded = await embedAI({
+        input: chunks.map(chunk => this.getEmbeddingText(chunk)),
+        purpose: "document"
+      });
+
+      const now = new Date();
+      for (let i = 0; i < chunks.length; i += INSERT_BATCH_SIZE) {
+        await db.insert(book_text_chunks).values(
+          chunks.slice(i, i + INSERT_BATCH_SIZE).map((chunk, offset) => ({
+            uuid: uuidv4(),
+            source_uuid: source.uuid,
+            user_uuid: source.user_uuid,
+            book_uuid: source.book_uuid,
+            chunk_index: chunk.chunk_index,
+            page_start: chunk.page_start,
+            page_end: chunk.page_end,
+            chapter: chunk.chapter?.slice(0, 500),
+            content: chunk.content,
+            embedding: embedded.embeddings[i + offset],
+            token_count: AIUtils.estimateTokens(chunk.content),
+            created_at: now
+          }))
+        );
+      }
+
+      await chargeAIUsage({
+        user_uuid: source.user_uuid,
+        trans_type: CreditsTransType.AIBookIndex,
+        provider: embedded.provider,
+        model: embedded.model,
+        usage: {
+          inputTokens: embedded.usage.inputTokens,
+          outputTokens: 0,
+          totalTokens: embedded.usage.totalTokens
+        },
+        fallbackPricing: EMBEDDING_PRICING
+      });
+
+      const [ready] = await db
+        .update(book_text_sources)
+        .set({
+          status: "ready",
+          embedding_provider: embedded.provider,
+          embedding_model: embedded.model,
+          embedding_dimensions: embedded.dimensions,
+          updated_at: new Date()
+        })
+        .where(eq(book_text_sources.uuid, source.uuid))
+        .returning();
+
+      // The reader removed or replaced the upload while it was being embedded
+      if (!ready) {
+        await db.delete(book_text_chunks).where(eq(book_text_chunks.source_uuid, source.uuid));
+      }
+    } catch (error) {
+      console.error("Error indexing book text:", source.uuid, error);
+
+      await db.delete(book_text_chunks).where(eq(book_text_chunks.source_uuid, source.uuid));
+      await db
+        .update(book_text_sources)
+        .set({
+          status: "failed",
+          error: error instanceof Error ? error.message.slice(0, 1000) : "Indexing failed",
+          updated_at: new Date()
+        })
+        .where(eq(book_text_sources.uuid, source.uuid));
+    }
+  }
+
+  // Credits the embedding of the chunks is expected to cost
+  static estimateCredits(chunks: BookTextChunkDraft[]): number {
+    const inputTokens = chunks.reduce(
+      (sum, chunk) => sum + AIUtils.estimateTokens(this.getEmbeddingText(chunk)),
+      0
+    );
+    return costToCredits(calculateTokenCost(
+      { inputTokens, outputTokens: 0, totalTokens: inputTokens },
+      EMBEDDING_PRICING
+    ));
+  }
+
+  // Get the reader's upload for a book, null if there is none
+  static async getSource(userUuid: string, bookUuid: string): Promise<BookTextSource | null> {
+    const [source] = await db
+      .select()
+      .from(book_text_sources)
+      .where(
+        and(
+          eq(book_text_sources.user_uuid, userUuid),
+          eq(book_text_sources.book_uuid, bookUuid)
+        )
+      )
+      .limit(1);
+
+    return (source as unknown as BookTextSource) || null;
+  }
+
+  // Remove the reader's upload and its passages; false if there was nothing to delete
+  static async deleteSource(userUuid: string, bookUuid: string): Promise<boolean> {
+    const source = await this.getSource(userUuid, bookUuid);
+    if (!source) {
+      return false;
+    }
+
+    await db.delete(book_text_chunks).where(eq(book_text_chunks.source_uuid, source.uuid));
+    await db.delete(book_text_sources).where(eq(book_text_sources.uuid, source.uuid));
+
+    return true;
+  }
+
+  // Most relevant passages of the reader's upload for a question, limited to what they have read
+  static async searchPassages(
+    userUuid: string,
+    bookUuid: string,
+    query: string,
+    options: BookTextSearchOptions = {}
+  ): Promise<BookTextPassage[]> {
+    const source = await this.getSource(userUuid, bookUuid);
+    if (!source || source.status !== "ready" || !query.trim()) {
+      return [];
+    }
+
+    let maxPage = options.maxPage;
+    if (maxPage === undefined && options.maxProgress !== undefined && source.page_count) {
+      maxPage = Math.floor((options.maxProgress / 100) * source.page_count);
+    }
+
+    const conditions = [eq(book_text_chunks.source_uuid, source.uuid)];
+    if (maxPage !== undefined) {
+      conditions.push(lte(book_text_chunks.page_end, maxPage));
+    }
+
+    // Only vectors are loaded for ranking; the text is fetched for the passages that win
+    const vectors = await db
+      .select({
+        uuid: sql<string>`${book_text_chunks.uuid}`,
+        embedding: sql<number[]>`${book_text_chunks.embedding}`.mapWith(book_text_chunks.embedding)
+      })
+      .from(book_text_chunks)
+      .where(and(...conditions))
+      .limit(MAX_CHUNKS);
+
+    if (vectors.length === 0) {
+      return [];
+    }
+
+    // Vectors are only comparable within one model, so the query goes to the indexing provider
+    const { embeddings } = await embedAI(
+      { input: [query], purpose: "query", model: source.embedding_model || undefined },
+      { preferredProvider: (source.embedding_provider as AIProvider) || undefined }
+    );
+
+    const scores = new Map(
+      vectors
+        .map(vector => [vector.uuid, AIUtils.cosineSimilarity(embeddings[0], vector.embedding)] as const)
+        .filter(([, score]) => score >= MIN_PASSAGE_SCORE)
+        .sort((a, b) => b[1] - a[1])
+        .slice(0, options.limit || 4)
+    );
+
+    if (scores.size === 0) {
+      return [];
+    }
+
+    const chunks = await db
+      .select()
+      .from(book_text_chunks)
+      .where(inArray(book_text_chunks.uuid, Array.from(scores.keys())));
+
+    return chunks
+      .map(chunk => ({
+        chunk_uuid: chunk.uuid,
+        page_start: chunk.page_start,
+        page_end: chunk.page_end,
+        chapter: chunk.chapter || undefined,
+        content: chunk.content,
+        score: scores.get(chunk.uuid) || 0
+      }))
+      .sort((a, b) => b.score - a.score);
+  }
+
+  // Split extracted sections into overlapping chunks with page ranges and chapters.
+  // PDFs keep their own page numbers; other formats spread their text evenly over
+  // the book's page count (or an estimate from its length).
+  static chunkText(extracted: ExtractedBookText, pageCount?: number): BookTextChunkDraft[] {
+    const pieces: TextPiece[] = [];
+    let offset = 0;
+    let chapter: string | undefined;
+
+    for (const section of extracted.sections) {
+      chapter = section.title || chapter;
+
+      for (const paragraph of section.text.split(/\n\s*\n/)) {
+        // PDF lines break mid-sentence, so paragraphs are rejoined into single lines
+        const text = paragraph.replace(/-\n(?=[a-z])/g, "").replace(/\s*\n\s*/g, " ").trim();
+        if (!text) {
+          continue;
+        }
+
+        this.splitParagraph(text).forEach((sentence, index) => {
+          pieces.push({
+            text: sentence,
+            start: offset,
+            end: offset + sentence.length,
+            page: section.page,
+            chapter,
+            startsParagraph: index === 0
+          });
+          offset += sentence.length + 1;
+        });
+      }
+    }
+
+    const totalPages = pageCount || Math.max(1, Math.ceil(offset / CHARS_PER_PAGE));
+    const pageAt = (piece: TextPiece, position: number) =>
+      extracted.hasPageNumbers && piece.page
+        ? piece.page
+        : Math.min(totalPages, Math.floor((position / Math.max(offset, 1)) * totalPages) + 1);
+
+    const chunks: BookTextChunkDraft[] = [];
+    let current: TextPiece[] = [];
+    let length = 0;
+
+    const flush = () => {
+      if (current.length === 0) {
+        return;
+      }
+
+      const first = current[0];
+      const last = current[current.length - 1];
+      chunks.push({
+        chunk_index: chunks.length,
+        page_start: pageAt(first, first.start),
+        page_end: pageAt(last, last.end),
+        chapter: last.chapter,
+        content: current
+          .map((piece, index) => (index > 0 ? (piece.startsParagraph ? "\n\n" : " ") : "") + piece.text)
+          .join("")
+      });
+
+      // Carry trailing sentences into the next chunk so answers spanning a boundary are found
+      const overlap: TextPiece[] = [];
+      let overlapLength = 0;
+      for (let i = current.length - 1; i > 0; i--) {
+        overlapLength += current[i].text.length;
+        if (overlapLength > CHUNK_OVERLAP) break;
+        overlap.unshift(current[i]);
+      }
+      current = overlap;
+      length = overlap.reduce((sum, piece) => sum + piece.text.length + 1, 0);
+    };
+
+    let previous: TextPiece | undefined;
+    for (const piece of pieces) {
+      // Chunks never cross chapters, nor pages in PDFs, so citations stay accurate
+      const boundary = previous && (
+        piece.chapter !== previous.chapter ||
+        (extracted.hasPageNumbers && piece.page !== previous.page)
+      );
+
+      if (boundary) {
+        flush();
+        current = [];
+        length = 0;
+      } else if (length + piece.text.length > CHUNK_SIZE && current.length > 0) {
+        flush();
+      }
+
+      current.push(piece);
+      length += piece.text.length + 1;
+      previous = piece;
+    }
+    flush();
+
+    return chunks;
+  }
+
+  // Sentences of a paragraph, grouped so that no piece is longer than a chunk
+  private static splitParagraph(text: string): string[] {
+    if (text.length <= CHUNK_SIZE) {
+      return [text];
+    }
+
+    const pieces: string[] = [];
+    for (const sentence of text.match(/[^.!?]+(?:[.!?]+["'”’)\]]*|$)\s*/g) || [text]) {
+      const trimmed = sentence.trim();
+      for (let i = 0; i < trimmed.length; i += CHUNK_SIZE) {
+        if (trimmed) pieces.push(trimmed.slice(i, i + CHUNK_SIZE));
+      }
+    }
+    return pieces;
+  }
+
+  // Chapter titles help short passages match questions that name the chapter
+  private static getEmbeddingText(chunk: BookTextChunkDraft): string {
+    return chunk.chapter ? `${chunk.chapter}\n\n${chunk.content}` : chunk.content;
+  }
+}
@@ -1,16 +1,19 @@
-import { database as db } from "@/db";
-import { books, book_lists, book_list_items, reading_sessions, reading_notes } from "@/db/schema";
-import { Book, BookList, BookListItem, BookFormData, ReadingSession, ReadingNote, ReadingProgress } from "@/types/book";
-import { eq, and, desc, sql, ilike, or } from "drizzle-orm";
+import { database as db, DbExecutor } from "@/db";
+import { books, book_lists, book_list_items, reading_sessions, reading_notes, users } from "@/db/schema";
+import { Book, BookList, BookListItem, BookFormData, ReadingSession, ReadingNote, ReadingProgress, PublicBookList } from "@/types/book";
+import { eq, and, desc, asc, sql, ilike, or, inArray } from "drizzle-orm";
 import { v4 as uuidv4 } from "uuid";
+import { ShelfService } from "./shelves";
+import { ReadingStatus, ReadingStatusService, normalizeReadingStatus, planStatusTransition } from "./readingStatus";
+import { invalidateBookAICache } from "./ai";
 
 export class BooksService {
   // Book CRUD operations
-  static async createBook(bookData: BookFormData, createdBy: string): Promise<Book> {
+  static async createBook(bookData: BookFormData, createdBy: string, tx: DbExecutor = db): Promise<Book> {
     const bookUuid = uuidv4();
     const now = new Date().toISOString();
 
-    const [newBook] = await db.insert(books).values({
+    const [newBook] = await tx.insert(books).values({
       uuid: bookUuid,
       title: bookData.title,
       subtitle: bookData.subtitle,
@@ -39,6 +42,49 @@ export class BooksService {
     return newBook as Book;
   }
 
+  // Update a book's metadata; only the user who added the book may edit it.
+  // AI responses generated from the old metadata (e.g. overviews) are invalidated.
+  // Returns the book before and after the edit.
+  static async updateBook(
+    bookUuid: string,
+    userUuid: string,
+    updates: Partial<BookFormData>
+  ): Promise<{ book: Book; previous: Book }> {
+    const [book] = await db
+      .select()
+      .from(books)
+      .where(eq(books.uuid, bookUuid))
+      .limit(1);
+
+    if (!book) {
+      throw new Error("Book not found");
+    }
+    if (book.created_by !== userUuid) {
+      throw new Error("Not allowed to edit this book");
+    }
+
+    const { publication_date, ...fields } = updates;
+    const [updatedBook] = await db
+      .update(books)
+      .set({
+        ...fields,
+        ...(publication_date !== undefined
+          ? { publication_date: publication_date ? new Date(publication_date) : null }
+          : {}),
+        updated_at: new Date()
+      })
+      .where(eq(books.uuid, bookUuid))
+      .returning();
+
+    try {
+      await invalidateBookAICache(bookUuid);
+    } catch (error) {
+      console.warn("Failed to invalidate AI cache for book:", bookUuid, error);
+    }
+
+    return { book: updatedBook as unknown as Book, previous: book as unknown as Book };
+  }
+
   static async getUserBooks(userUuid: string): Promise<BookListItem[]> {
     const result = await db
       .select({
@@ -91,6 +137,7 @@ export class BooksService {
       })
       .from(book_list_items)
       .innerJoin(books, eq(book_list_items.book_uuid, books.uuid))
+      .innerJoin(book_lists, this.libraryListJoin())
       .where(eq(book_list_items.user_uuid, userUuid))
       .orderBy(desc(book_list_items.added_at));
 
@@ -152,6 +199,7 @@ export class BooksService {
       })
       .from(book_list_items)
       .innerJoin(books, eq(book_list_items.book_uuid, books.uuid))
+      .innerJoin(book_lists, this.libraryListJoin())
       .where(
         and(
           eq(book_list_items.user_uuid, userUuid),
@@ -171,44 +219,50 @@ export class BooksService {
     })) as BookListItem[];
   }
 
-  static async addBookToUserLibrary(
-    bookUuid: string,
-    userUuid: string,
-    readingStatus: string = "want_to_read"
-  ): Promise<BookListItem> {
-    // Get or create default list for user
-    let defaultList = await db
-      .select()
-      .from(book_lists)
+  // Whether the book is on any of the user's lists
+  static async isBookInLibrary(userUuid: string, bookUuid: string): Promise<boolean> {
+    const [found] = await db
+      .select({ found: sql<number>`1` })
+      .from(book_list_items)
       .where(
         and(
-          eq(book_lists.user_uuid, userUuid),
-          eq(book_lists.is_default, true),
-          eq(book_lists.list_type, "custom")
+          eq(book_list_items.user_uuid, userUuid),
+          eq(book_list_items.book_uuid, bookUuid)
         )
       )
       .limit(1);
 
-    if (defaultList.length === 0) {
-      // Create default list
-      const listUuid = uuidv4();
-      const [newList] = await db.insert(book_lists).values({
-        uuid: listUuid,
-        user_uuid: userUuid,
-        name: "My Library",
-        description: "Default book library",
-        is_public: false,
-        is_default: true,
-        list_type: "custom",
-        sort_order: 0,
-        created_at: new Date(),
-        updated_at: new Date()
-      }).returning();
-      defaultList = [newList];
-    }
+    return !!found;
+  }
+
+  // The book, if it is in the user's library
+  static async getLibraryBook(userUuid: string, bookUuid: string): Promise<Book | null> {
+    const [row] = await db
+      .select({ book: books })
+      .from(book_list_items)
+      .innerJoin(books, eq(book_list_items.book_uuid, books.uuid))
+      .where(
+        and(
+          eq(book_list_items.user_uuid, userUuid),
+          eq(book_list_items.book_uuid, bookUuid)
+        )
+      )
+      .limit(1);
+
+    return row ? this.toBook(row.book) : null;
+  }
+
+  static async addBookToUserLibrary(
+    bookUuid: string,
+    userUuid: string,
+    readingStatus: string = "want_to_read",
+    tx: DbExecutor = db
+  ): Promise<typeof book_list_items.$inferSelect & { book: Book }> {
+    // Get or create default list for user
+    const defaultList = await this.getOrCreateDefaultList(userUuid, tx);
 
     // Check if book is already in user's library
-    const existing = await db
+    const existing = await tx
       .select()
       .from(book_list_items)
       .where(
@@ -223,19 +277,23 @@ export class BooksService {
       throw new Error("Book already in library");
     }
 
+    const initialStatus = normalizeReadingStatus(readingStatus) || "want_to_read";
+
     // Add book to default list
-    const [newItem] = await db.insert(book_list_items).values({
-      list_uuid: defaultList[0].uuid,
+    const [newItem] = await tx.insert(book_list_items).values({
+      progress_percentage: 0,
+      ...planStatusTransition(null, initialStatus),
+      list_uuid: defaultList.uuid,
       book_uuid: bookUuid,
       user_uuid: userUuid,
-      reading_status: readingStatus as any,
-      progress_percentage: 0,
       sort_order: 0,
       added_at: new Date()
     }).returning();
 
+    await ShelfService.syncBookShelf(userUuid, bookUuid, newItem.reading_status as BookListItem['reading_status'], tx);
+
     // Get full book details
-    const bookDetails = await db
+    const bookDetails = await tx
       .select()
       .from(books)
       .where(eq(books.uuid, bookUuid))
@@ -244,7 +302,7 @@ export class BooksService {
     return {
       ...newItem,
       book: bookDetails[0] as Book
-    } as BookListItem;
+    };
   }
 
   // Reading progress operations
@@ -253,20 +311,27 @@ export class BooksService {
     bookUuid: string,
     progress: Partial<ReadingProgress>
   ): Promise<void> {
-    await db
-      .update(book_list_items)
-      .set({
-        progress_percentage: progress.progress_percentage,
-        reading_status: progress.reading_status as any,
-        date_started: progress.date_started ? new Date(progress.date_started) : undefined,
-        date_completed: progress.date_completed ? new Date(progress.date_completed) : undefined
-      })
-      .where(
-        and(
-          eq(book_list_items.user_uuid, userUuid),
-          eq(book_list_items.book_uuid, bookUuid)
-        )
-      );
+    // Status and its timestamps go through the state machine so every writer agrees
+    const statusUpdate = progress.reading_status
+      ? await ReadingStatusService.transition(userUuid, bookUuid, progress.reading_status, {
+          dateStarted: progress.date_started ? new Date(progress.date_started) : undefined,
+          dateCompleted: progress.date_completed ? new Date(progress.date_completed) : undefined,
+          dnfReason: progress.dnf_reason
+        })
+      : null;
+
+    // A finished book stays at 100% whatever page count was sent
+    if (progress.progress_percentage !== undefined && statusUpdate?.reading_status !== "read") {
+      await db
+        .update(book_list_items)
+        .set({ progress_percentage: progress.progress_percentage })
+        .where(
+          and(
+            eq(book_list_items.user_uuid, userUuid),
+            eq(book_list_items.book_uuid, bookUuid)
+          )
+        );
+    }
   }
 
   // Library statistics
@@ -280,6 +345,7 @@ export class BooksService {
       })
       .from(book_list_items)
       .innerJoin(books, eq(book_list_items.book_uuid, books.uuid))
+      .innerJoin(book_lists, this.libraryListJoin())
       .where(eq(book_list_items.user_uuid, userUuid))
       .groupBy(book_list_items.reading_status);
 
@@ -315,15 +381,16 @@ export class BooksService {
     stats.forEach(stat => {
       result.total_books += stat.count;
       
-      switch (stat.status) {
+      // Legacy spellings are folded in so rows missed by the migration still count
+      switch (normalizeReadingStatus(stat.status as string)) {
         case 'read':
-          result.books_read = stat.count;
+          result.books_read += stat.count;
           break;
         case 'currently_reading':
-          result.currently_reading = stat.count;
+          result.currently_reading += stat.count;
           break;
         case 'want_to_read':
-          result.want_to_read = stat.count;
+          result.want_to_read += stat.count;
           break;
       }
       
@@ -337,6 +404,8 @@ export class BooksService {
 
   // Book lists operations
   static async getUserBookLists(userUuid: string): Promise<BookList[]> {
+    await ShelfService.ensureSystemShelves(userUuid);
+
     const lists = await db
       .select({
         id: book_lists.id,
@@ -360,19 +429,41 @@ export class BooksService {
       .groupBy(book_lists.id)
       .orderBy(book_lists.sort_order, book_lists.created_at);
 
-    return lists as BookList[];
+    // Cover previews for each list, in list order
+    const previews = await db
+      .select({
+        item: book_list_items,
+        book: books
+      })
+      .from(book_list_items)
+      .innerJoin(books, eq(book_list_items.book_uuid, books.uuid))
+      .where(eq(book_list_items.user_uuid, userUuid))
+      .orderBy(asc(book_list_items.sort_order), asc(book_list_items.added_at));
+
+    return lists.map(list => ({
+      ...list,
+      preview_books: previews
+        .filter(({ item }) => item.list_uuid === list.uuid)
+        .map(({ book }) => ({
+          uuid: book.uuid,
+          title: book.title,
+          author: book.author,
+          cover_url: book.cover_url ?? undefined
+        }))
+    })) as BookList[];
   }
 
   static async createBookList(
     userUuid: string,
     name: string,
     description?: string,
-    isPublic: boolean = false
+    isPublic: boolean = false,
+    tx: DbExecutor = db
   ): Promise<BookList> {
     const listUuid = uuidv4();
     const now = new Date();
 
-    const [newList] = await db.insert(book_lists).values({
+    const [newList] = await tx.insert(book_lists).values({
       uuid: listUuid,
       user_uuid: userUuid,
       name,
@@ -390,4 +481,523 @@ export class BooksService {
       book_count: 0
     } as BookList;
   }
-}
\ No newline at end of file
+
+  // Get one of the user's lists with its books in sort order
+  static async getBookList(userUuid: string, listUuid: string): Promise<(typeof book_lists.$inferSelect & {
+    items: (typeof book_list_items.$inferSelect & { book: typeof books.$inferSelect })[];
+    book_count: number;
+  }) | null> {
+    const list = await this.findUserList(userUuid, listUuid);
+    if (!list) return null;
+
+    const items = await db
+      .select({
+        item: book_list_items,
+        book: books
+      })
+      .from(book_list_items)
+      .innerJoin(books, eq(book_list_items.book_uuid, books.uuid))
+      .where(eq(book_list_items.list_uuid, listUuid))
+      .orderBy(asc(book_list_items.sort_order), asc(book_list_items.added_at));
+
+    return {
+      ...list,
+      items: items.map(({ item, book }) => ({ ...item, book })),
+      book_count: items.length
+    };
+  }
+
+  static async updateBookList(
+    userUuid: string,
+    listUuid: string,
+    updates: Partial<Pick<BookList, "name" | "description" | "is_public" | "sort_order" | "cover_url" | "tags">>
+  ): Promise<typeof book_lists.$inferSelect> {
+    const list = await this.findUserList(userUuid, listUuid);
+    if (!list) {
+      throw new Error("List not found");
+    }
+
+    const [updatedList] = await db
+      .update(book_lists)
+      .set({
+        ...updates,
+        // The default library list is never shared
+        is_public: list.is_default ? false : updates.is_public,
+        updated_at: new Date()
+      })
+      .where(eq(book_lists.uuid, listUuid))
+      .returning();
+
+    return updatedList;
+  }
+
+  // Delete a list; books that are on no other list stay in the library via the default list
+  static async deleteBookList(userUuid: string, listUuid: string): Promise<void> {
+    const list = await this.findUserList(userUuid, listUuid);
+    if (!list) {
+      throw new Error("List not found");
+    }
+    if (list.is_default) {
+      throw new Error("Cannot delete default list");
+    }
+
+    const items = await db
+      .select()
+      .from(book_list_items)
+      .where(eq(book_list_items.list_uuid, listUuid));
+
+    if (items.length > 0) {
+      const otherItems = await db
+        .select()
+        .from(book_list_items)
+        .where(
+          and(
+            eq(book_list_items.user_uuid, userUuid),
+            inArray(book_list_items.book_uuid, items.map(item => item.book_uuid)),
+            sql`${book_list_items.list_uuid} <> ${listUuid}`
+          )
+        );
+      const keptElsewhere = new Set(otherItems.map(item => item.book_uuid));
+      const orphans = items.filter(item => !keptElsewhere.has(item.book_uuid));
+
+      if (orphans.length > 0) {
+        const defaultList = await this.getOrCreateDefaultList(userUuid);
+        await db
+          .update(book_list_items)
+          .set({ list_uuid: defaultList.uuid })
+          .where(
+            and(
+              eq(book_list_items.list_uuid, listUuid),
+              inArray(book_list_items.book_uuid, orphans.map(item => item.book_uuid))
+            )
+          );
+      }
+
+      await db
+        .delete(book_list_items)
+        .where(eq(book_list_items.list_uuid, listUuid));
+    }
+
+    await db
+      .delete(book_lists)
+      .where(eq(book_lists.uuid, listUuid));
+  }
+
+  // Add a book to a list, carrying over the user's existing reading data for it
+  static async addBookToList(
+    userUuid: string,
+    listUuid: string,
+    bookUuid: string
+  ): Promise<typeof book_list_items.$inferSelect & { book: typeof books.$inferSelect }> {
+    const list = await this.findUserList(userUuid, listUuid);
+    if (!list) {
+      throw new Error("List not found");
+    }
+    this.assertManualList(list);
+
+    const [book] = await db
+      .select()
+      .from(books)
+      .where(eq(books.uuid, bookUuid))
+      .limit(1);
+
+    if (!book) {
+      throw new Error("Book not found");
+    }
+
+    let [existing] = await db
+      .select()
+      .from(book_list_items)
+      .where(
+        and(
+          eq(book_list_items.user_uuid, userUuid),
+          eq(book_list_items.book_uuid, bookUuid)
+        )
+      )
+      .orderBy(desc(book_list_items.added_at))
+      .limit(1);
+
+    // Books put on a list also join the library
+    if (!existing) {
+      existing = await this.addBookToUserLibrary(bookUuid, userUuid);
+    }
+
+    const [inList] = await db
+      .select()
+      .from(book_list_items)
+      .where(
+        and(
+          eq(book_list_items.list_uuid, listUuid),
+          eq(book_list_items.book_uuid, bookUuid)
+        )
+      )
+      .limit(1);
+
+    if (inList) {
+      throw new Error("Book already in list");
+    }
+
+    const [newItem] = await db.insert(book_list_items).values({
+      list_uuid: listUuid,
+      book_uuid: bookUuid,
+      user_uuid: userUuid,
+      reading_status: (existing?.reading_status || "want_to_read") as ReadingStatus,
+      personal_rating: existing?.personal_rating,
+      date_started: existing?.date_started,
+      date_completed: existing?.date_completed,
+      progress_percentage: existing?.progress_percentage ?? 0,
+      sort_order: await this.getNextSortOrder(listUuid),
+      added_at: new Date()
+    }).returning();
+
+    return {
+      ...newItem,
+      book
+    };
+  }
+
+  static async removeBookFromList(userUuid: string, listUuid: string, bookUuid: string): Promise<void> {
+    const list = await this.findUserList(userUuid, listUuid);
+    if (!list) {
+      throw new Error("List not found");
+    }
+    this.assertManualList(list);
+
+    const [removed] = await db
+      .delete(book_list_items)
+      .where(
+        and(
+          eq(book_list_items.user_uuid, userUuid),
+          eq(book_list_items.list_uuid, listUuid),
+          eq(book_list_items.book_uuid, bookUuid)
+        )
+      )
+      .returning();
+
+    if (!removed) {
+      throw new Error("Book not in list");
+    }
+  }
+
+  // Move books from one list to another; books already on the target list are just removed from the source
+  static async moveBooksToList(
+    userUuid: string,
+    fromListUuid: string,
+    toListUuid: string,
+    bookUuids: string[]
+  ): Promise<number> {
+    if (fromListUuid === toListUuid) return 0;
+
+    const [fromList, toList] = await Promise.all([
+      this.findUserList(userUuid, fromListUuid),
+      this.findUserList(userUuid, toListUuid)
+    ]);
+    if (!fromList || !toList) {
+      throw new Error("List not found");
+    }
+    this.assertManualList(fromList);
+    this.assertManualList(toList);
+
+    const alreadyThere = await db
+      .select()
+      .from(book_list_items)
+      .where(
+        and(
+          eq(book_list_items.list_uuid, toListUuid),
+          inArray(book_list_items.book_uuid, bookUuids)
+        )
+      );
+    const skip = new Set(alreadyThere.map(item => item.book_uuid));
+    const toMove = bookUuids.filter(bookUuid => !skip.has(bookUuid));
+
+    // Count the books that actually left the source list; names not on it change nothing
+    let moved = 0;
+    let sortOrder = await this.getNextSortOrder(toListUuid);
+    for (const bookUuid of toMove) {
+      const updated = await db
+        .update(book_list_items)
+        .set({ list_uuid: toListUuid, sort_order: sortOrder })
+        .where(
+          and(
+            eq(book_list_items.user_uuid, userUuid),
+            eq(book_list_items.list_uuid, fromListUuid),
+            eq(book_list_items.book_uuid, bookUuid)
+          )
+        )
+        .returning();
+      if (updated.length > 0) {
+        moved += updated.length;
+        sortOrder++;
+      }
+    }
+
+    if (skip.size > 0) {
+      const removed = await db
+        .delete(book_list_items)
+        .where(
+          and(
+            eq(book_list_items.user_uuid, userUuid),
+            eq(book_list_items.list_uuid, fromListUuid),
+            inArray(book_list_items.book_uuid, Array.from(skip))
+          )
+        )
+        .returning();
+      moved += removed.length;
+    }
+
+    return moved;
+  }
+
+  // Persist a drag-and-drop ordering; books not named keep their relative order after the named ones
+  static async reorderListItems(userUuid: string, listUuid: string, bookUuids: string[]): Promise<void> {
+    const list = await this.findUserList(userUuid, listUuid);
+    if (!list) {
+      throw new Error("List not found");
+    }
+    this.assertManualList(list);
+
+    const items = await db
+      .select()
+      .from(book_list_items)
+      .where(eq(book_list_items.list_uuid, listUuid))
+      .orderBy(asc(book_list_items.sort_order), asc(book_list_items.added_at));
+
+    const listed = new Set(items.map(item => item.book_uuid));
+    const ordered = [
+      ...bookUuids.filter(bookUuid => listed.has(bookUuid)),
+      ...items.map(item => item.book_uuid).filter(bookUuid => !bookUuids.includes(bookUuid))
+    ];
+
+    // All or nothing, so a failed save never leaves the list half reordered
+    await db.transaction(async (tx) => {
+      for (let i = 0; i < ordered.length; i++) {
+        await tx
+          .update(book_list_items)
+          .set({ sort_order: i })
+          .where(
+            and(
+              eq(book_list_items.list_uuid, listUuid),
+              eq(book_list_items.book_uuid, ordered[i])
+            )
+          );
+      }
+    });
+  }
+
+  // Library list: the user's default "My Library" list; other lists and shelves hold copies of the same books
+  static libraryListJoin() {
+    return and(
+      eq(book_list_items.list_uuid, book_lists.uuid),
+      eq(book_lists.is_default, true),
+      eq(book_lists.list_type, "custom")
+    );
+  }
+
+  // Status shelves follow reading_status and the library list holds every book, so neither is edited by hand
+  private static assertManualList(list: { is_default: boolean; list_type: string }) {
+    if (list.is_default && list.list_type !== "favorites") {
+      throw new Error("List is managed automatically");
+    }
+  }
+
+  private static toBook(row: typeof books.$inferSelect): Book {
+    return {
+      id: row.id,
+      uuid: row.uuid,
+      title: row.title,
+      subtitle: row.subtitle ?? undefined,
+      author: row.author,
+      co_authors: row.co_authors ?? undefined,
+      isbn_10: row.isbn_10 ?? undefined,
+      isbn_13: row.isbn_13 ?? undefined,
+      genre: row.genre ?? undefined,
+      sub_genre: row.sub_genre ?? undefined,
+      language: row.language,
+      publisher: row.publisher ?? undefined,
+      publication_date: row.publication_date?.toISOString(),
+      page_count: row.page_count ?? undefined,
+      word_count: row.word_count ?? undefined,
+      description: row.description ?? undefined,
+      cover_url: row.cover_url ?? undefined,
+      series_name: row.series_name ?? undefined,
+      series_number: row.series_number ?? undefined,
+      edition: row.edition ?? undefined,
+      format: row.format ?? undefined,
+      status: row.status,
+      metadata: row.metadata && typeof row.metadata === "object" ? { ...row.metadata } : undefined,
+      goodreads_id: row.goodreads_id ?? undefined,
+      google_books_id: row.google_books_id ?? undefined,
+      amazon_asin: row.amazon_asin ?? undefined,
+      created_at: row.created_at?.toISOString(),
+      updated_at: row.updated_at?.toISOString(),
+      created_by: row.created_by ?? undefined
+    };
+  }
+
+  private static async findUserList(userUuid: string, listUuid: string) {
+    const [list] = await db
+      .select()
+      .from(book_lists)
+      .where(
+        and(
+          eq(book_lists.uuid, listUuid),
+          eq(book_lists.user_uuid, userUuid)
+        )
+      )
+      .limit(1);
+
+    return list;
+  }
+
+  private static async getOrCreateDefaultList(userUuid: string, tx: DbExecutor = db) {
+    const [defaultList] = await tx
+      .select()
+      .from(book_lists)
+      .where(
+        and(
+          eq(book_lists.user_uuid, userUuid),
+          eq(book_lists.is_default, true),
+          eq(book_lists.list_type, "custom")
+        )
+      )
+      .limit(1);
+
+    if (defaultList) return defaultList;
+
+    const now = new Date();
+    const [newList] = await tx.insert(book_lists).values({
+      uuid: uuidv4(),
+      user_uuid: userUuid,
+      name: "My Library",
+      description: "Default book library",
+      is_public: false,
+      is_default: true,
+      list_type: "custom",
+      sort_order: 0,
+      created_at: now,
+      updated_at: now
+    }).returning();
+
+    return newList;
+  }
+
+  private static async getNextSortOrder(listUuid: string): Promise<number> {
+    const [result] = await db
+      .select({ max: sql<number>`coalesce(max(${book_list_items.sort_order}), -1)` })
+      .from(book_list_items)
+      .where(eq(book_list_items.list_uuid, listUuid));
+
+    return Number(result?.max ?? -1) + 1;
+  }
+
+  // Public lists - readable by anyone, only when the owner has made them public
+  static async getPublicBookList(listUuid: string, viewerUuid?: string): Promise<PublicBookList | null> {
+    const [list] = await db
+      .select()
+      .from(book_lists)
+      .where(
+        and(
+          eq(book_lists.uuid, listUuid),
+          eq(book_lists.is_public, true)
+        )
+      )
+      .limit(1);
+
+    if (!list) return null;
+
+    const [owner] = await db
+      .select()
+      .from(users)
+      .where(eq(users.uuid, list.user_uuid))
+      .limit(1);
+
+    const items = await db
+      .select({
+        item: book_list_items,
+        book: books
+      })
+      .from(book_list_items)
+      .innerJoin(books, eq(book_list_items.book_uuid, books.uuid))
+      .where(eq(book_list_items.list_uuid, listUuid))
+      .orderBy(asc(book_list_items.sort_order), asc(book_list_items.added_at));
+
+    return {
+      uuid: list.uuid,
+      name: list.name,
+      description: list.description ?? undefined,
+      cover_url: list.cover_url ?? undefined,
+      tags: list.tags ?? undefined,
+      created_at: list.created_at?.toISOString(),
+      updated_at: list.updated_at?.toISOString(),
+      is_owner: !!viewerUuid && list.user_uuid === viewerUuid,
+      owner: {
+        nickname: owner?.nickname ?? undefined,
+        avatar_url: owner?.avatar_url ?? undefined
+      },
+      book_count: items.length,
+      items: items.map(({ item, book }) => ({
+        book_uuid: item.book_uuid,
+        sort_order: item.sort_order,
+        added_at: item.added_at?.toISOString(),
+        book: this.toBook(book)
+      }))
+    };
+  }
+
+  // Copy a public list and its books into the user's own lists
+  static async clonePublicBookList(userUuid: string, listUuid: string): Promise<BookList> {
+    const source = await this.getPublicBookList(listUuid, userUuid);
+    if (!source) {
+      throw new Error("List not found");
+    }
+    if (source.is_owner) {
+      throw new Error("Cannot clone your own list");
+    }
+
+    const newList = await this.createBookList(userUuid, source.name, source.description);
+
+    if (source.items.length > 0) {
+      // Keep the reading status and progress of books the user already has
+      const existingItems = await db
+        .select()
+        .from(book_list_items)
+        .where(
+          and(
+            eq(book_list_items.user_uuid, userUuid),
+            inArray(book_list_items.book_uuid, source.items.map(item => item.book_uuid))
+          )
+        );
+      const existingByBook = new Map(existingItems.map(item => [item.book_uuid, item]));
+
+      // Books new to the user join their library as want to read
+      for (const item of source.items) {
+        if (!existingByBook.has(item.book_uuid)) {
+          await this.addBookToUserLibrary(item.book_uuid, userUuid);
+        }
+      }
+
+      const now = new Date();
+      await db.insert(book_list_items).values(
+        source.items.map((item, index) => {
+          const existing = existingByBook.get(item.book_uuid);
+          const readingStatus = (existing?.reading_status || "want_to_read") as ReadingStatus;
+          return {
+            list_uuid: newList.uuid,
+            book_uuid: item.book_uuid,
+            user_uuid: userUuid,
+            reading_status: readingStatus,
+            // A finished book is finished on every list it is on
+            progress_percentage: readingStatus === "read" ? 100 : existing?.progress_percentage ?? 0,
+            sort_order: index,
+            added_at: now
+          };
+        })
+      ).onConflictDoNothing();
+    }
+
+    return {
+      ...newList,
+      book_count: source.items.length
+    };
+  }
+}
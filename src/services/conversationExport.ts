@@ -0,0 +1,248 @@
+/**
+ * Conversation Export Service for BooksOfLife Reading Assistant
+ *
+ * Renders a conversation with its messages and book context as JSON,
+ * Markdown or PDF so readers can keep it alongside their notes.
+ */
+
+import { db } from "@/db";
+import { books } from "@/db/schema";
+import { eq } from "drizzle-orm";
+import { renderPdf, PdfBlock } from "@/lib/pdf";
+import { ConversationService } from "./conversationService";
+import type { ChatExport, ChatMessage, ReadingContext } from "@/types/chat";
+
+export type ConversationExportFormat = ChatExport['format'];
+
+/**
+ * Rendered export ready to download
+ */
+export interface ConversationExportFile {
+  body: string | Uint8Array<ArrayBuffer>;
+  contentType: string;
+  filename: string;
+}
+
+/**
+ * Speaker labels used in Markdown and PDF exports
+ */
+const ROLE_LABELS: Record<ChatMessage['role'], string> = {
+  user: 'You',
+  assistant: 'Reading Assistant',
+  system: 'System',
+};
+
+/**
+ * Conversation Export Service
+ */
+export class ConversationExportService {
+  /**
+   * Collect a conversation, its messages and book context; null if the user does not own it
+   */
+  public static async getExport(
+    conversationUuid: string,
+    userUuid: string,
+    format: ConversationExportFormat
+  ): Promise<ChatExport | null> {
+    const session = await ConversationService.getChatSession(conversationUuid, userUuid);
+    const data = await ConversationService.getConversationWithMessages(conversationUuid, userUuid, true);
+    if (!session || !data) {
+      return null;
+    }
+
+    const contextData = data.conversation.context_data || {};
+    let author: string | undefined = contextData.author || undefined;
+    let genre: string | undefined;
+    let language: string | undefined;
+
+    if (data.conversation.book_uuid) {
+      const [book] = await db()
+        .select()
+        .from(books)
+        .where(eq(books.uuid, data.conversation.book_uuid))
+        .limit(1);
+
+      if (book) {
+        author = author || (book.author as string);
+        genre = (book.genre as string) || undefined;
+        language = (book.language as string) || undefined;
+      }
+    }
+
+    const context: ReadingContext = {
+      bookId: session.bookId,
+      bookTitle: session.bookTitle,
+      author,
+      chapter: contextData.currentChapter || undefined,
+      pageNumber: contextData.currentPage || undefined,
+      metadata: genre || language ? { genre, language } : undefined,
+    };
+
+    return {
+      session,
+      messages: data.messages
+        .filter(message => message.role !== 'function' && !message.error_info)
+        .map(message => ConversationService.toChatMessage(message)),
+      context,
+      exportedAt: new Date(),
+      format,
+    };
+  }
+
+  /**
+   * Render an export in its requested format
+   */
+  public static render(chatExport: ChatExport): ConversationExportFile {
+    const basename = this.getBasename(chatExport);
+
+    switch (chatExport.format) {
+      case 'markdown':
+        return {
+          body: this.toMarkdown(chatExport),
+          contentType: 'text/markdown; charset=utf-8',
+          filename: `${basename}.md`,
+        };
+      case 'pdf':
+        return {
+          body: this.toPdf(chatExport),
+          contentType: 'application/pdf',
+          filename: `${basename}.pdf`,
+        };
+      default:
+        return {
+          body: JSON.stringify(chatExport, null, 2),
+          contentType: 'application/json; charset=utf-8',
+          filename: `${basename}.json`,
+        };
+    }
+  }
+
+  /**
+   * Markdown transcript; message content is already Markdown so it is kept as is
+   */
+  public static toMarkdown(chatExport: ChatExport): string {
+    const lines = [`# ${chatExport.session.title}`, ''];
+
+    for (const line of this.getContextLines(chatExport)) {
+      lines.push(`- ${line}`);
+    }
+    lines.push('', '---', '');
+
+    for (const message of chatExport.messages) {
+      lines.push(`### ${this.getSpeaker(message)} · ${this.formatTimestamp(message.timestamp)}`, '');
+      lines.push(message.content.trim(), '');
+    }
+
+    lines.push('---', '', `_Exported from BooksOfLife on ${this.formatTimestamp(chatExport.exportedAt)}_`, '');
+    return lines.join('\n');
+  }
+
+  /**
+   * PDF transcript with Markdown markers stripped from message content
+   */
+  public static toPdf(chatExport: ChatExport): Uint8Array<ArrayBuffer> {
+    const blocks: PdfBlock[] = [
+      { text: chatExport.session.title, size: 18, bold: true },
+      ...this.getContextLines(chatExport).map((line, index) => ({
+        text: line,
+        size: 9,
+        gray: 0.35,
+        spaceBefore: index === 0 ? 10 : 2,
+      })),
+    ];
+
+    for (const message of chatExport.messages) {
+      blocks.push({
+        text: `${this.getSpeaker(message)}  ·  ${this.formatTimestamp(message.timestamp)}`,
+        size: 10,
+        bold: true,
+        spaceBefore: 16,
+      });
+      blocks.push({
+        text: this.stripMarkdown(message.content),
+        size: 10,
+        indent: 8,
+        spaceBefore: 4,
+      });
+    }
+
+    blocks.push({
+      text: `Exported from BooksOfLife on ${this.formatTimestamp(chatExport.exportedAt)}`,
+      size: 8,
+      gray: 0.5,
+      spaceBefore: 24,
+    });
+
+    return renderPdf(blocks, {
+      title: chatExport.session.title,
+      author: chatExport.context.author,
+      createdAt: chatExport.exportedAt,
+    });
+  }
+
+  /**
+   * Book and conversation details shown under the title
+   */
+  private static getContextLines(chatExport: ChatExport): string[] {
+    const { session, context } = chatExport;
+    const lines: string[] = [];
+
+    if (context.bookTitle) {
+      lines.push(`Book: ${context.bookTitle}${context.author ? ` by ${context.author}` : ''}`);
+    }
+    if (context.chapter || context.pageNumber) {
+      const position = [
+        context.chapter ? `Chapter: ${context.chapter}` : null,
+        context.pageNumber ? `Page: ${context.pageNumber}` : null,
+      ].filter(Boolean);
+      lines.push(position.join(' · '));
+    }
+    lines.push(`Started: ${this.formatTimestamp(session.createdAt)}`);
+    lines.push(`Last message: ${this.formatTimestamp(session.lastMessageAt)}`);
+    lines.push(`Messages: ${chatExport.messages.length}`);
+    if (session.tags && session.tags.length > 0) {
+      lines.push(`Tags: ${session.tags.join(', ')}`);
+    }
+
+    return lines;
+  }
+
+  private static getSpeaker(message: ChatMessage): string {
+    const label = ROLE_LABELS[message.role] || message.role;
+    return message.role === 'assistant' && message.metadata?.model
+      ? `${label} (${message.metadata.model})`
+      : label;
+  }
+
+  /**
+   * UTC timestamp such as "2025-03-01 14:05 UTC"
+   */
+  private static formatTimestamp(value: Date | string): string {
+    return `${new Date(value).toISOString().slice(0, 16).replace('T', ' ')} UTC`;
+  }
+
+  private static stripMarkdown(content: string): string {
+    return content
+      .trim()
+      .replace(/```[^\n]*\n?/g, '')
+      .replace(/^#{1,6}\s+/gm, '')
+      .replace(/^\s*[-*+]\s+/gm, '• ')
+      .replace(/\*\*(.+?)\*\*|__(.+?)__/g, '$1$2')
+      .replace(/`([^`]+)`/g, '$1')
+      .replace(/\[([^\]]+)\]\(([^)]+)\)/g, '$1 ($2)');
+  }
+
+  /**
+   * File name without extension, e.g. "booksoflife-chat-themes-of-dune-2025-03-01"
+   */
+  private static getBasename(chatExport: ChatExport): string {
+    const slug = chatExport.session.title
+      .toLowerCase()
+      .replace(/[^a-z0-9]+/g, '-')
+      .replace(/^-+|-+$/g, '')
+      .slice(0, 50);
+    const date = chatExport.exportedAt.toISOString().slice(0, 10);
+
+    return ['booksoflife-chat', slug, date].filter(Boolean).join('-');
+  }
+}
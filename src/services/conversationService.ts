@@ -6,11 +6,13 @@
  */
 
 import { db } from "@/db";
-import { ai_conversations, ai_messages } from "@/db/schema";
-import { eq, desc, asc, and } from "drizzle-orm";
+import { ai_conversations, ai_messages, books } from "@/db/schema";
+import { eq, desc, asc, and, inArray, sql, SQL } from "drizzle-orm";
 import { v4 as uuidv4 } from "uuid";
-import { AIMessage, AIProvider } from "@/types/ai";
+import { AIError, AIMessage, AIProvider } from "@/types/ai";
+import type { ChatHistoryFilters, ChatMessage, ChatSession } from "@/types/chat";
 import { BookContext } from "./aiService";
+import { DEFAULT_SPOILER_MODE, isSpoilerMode, SpoilerMode } from "./spoilerGuard";
 
 /**
  * Database conversation record
@@ -24,7 +26,9 @@ export interface ConversationRecord {
   title: string;
   context_type: string;
   context_data: any;
+  spoiler_mode: string;
   status: string;
+  tags: string[] | null;
   total_messages: number;
   last_message_at: Date | null;
   ai_model: string | null;
@@ -74,6 +78,7 @@ export interface CreateConversationOptions {
   bookContext?: BookContext;
   contextType?: 'general' | 'book_specific' | 'chapter_specific';
   contextData?: any;
+  spoilerMode?: SpoilerMode;
 }
 
 /**
@@ -93,6 +98,29 @@ export interface AddMessageOptions {
   errorInfo?: any;
 }
 
+/**
+ * Paged conversation listing
+ */
+export interface ConversationPage {
+  sessions: ChatSession[];
+  hasMore: boolean;
+}
+
+/**
+ * Conversation fields a user can change
+ */
+export interface UpdateConversationOptions {
+  title?: string;
+  tags?: string[];
+  isArchived?: boolean;
+  spoilerMode?: SpoilerMode;
+}
+
+/**
+ * Length of the last-message preview shown in history listings
+ */
+const PREVIEW_LENGTH = 120;
+
 /**
  * Conversation Service
  */
@@ -112,6 +140,7 @@ export class ConversationService {
       title: options.title || 'New Conversation',
       context_type: options.contextType || 'general',
       context_data: options.contextData || options.bookContext || null,
+      spoiler_mode: options.spoilerMode || DEFAULT_SPOILER_MODE,
       status: 'active',
       total_messages: 0,
       last_message_at: null,
@@ -130,9 +159,13 @@ export class ConversationService {
   }
 
   /**
-   * Get conversation by UUID
+   * Get conversation by UUID, optionally including archived ones
    */
-  public static async getConversation(conversationUuid: string, userUuid: string): Promise<ConversationRecord | null> {
+  public static async getConversation(
+    conversationUuid: string,
+    userUuid: string,
+    includeArchived: boolean = false
+  ): Promise<ConversationRecord | null> {
     const [conversation] = await db()
       .select()
       .from(ai_conversations)
@@ -140,7 +173,9 @@ export class ConversationService {
         and(
           eq(ai_conversations.uuid, conversationUuid),
           eq(ai_conversations.user_uuid, userUuid),
-          eq(ai_conversations.status, 'active')
+          includeArchived
+            ? inArray(ai_conversations.status, ['active', 'archived'])
+            : eq(ai_conversations.status, 'active')
         )
       )
       .limit(1);
@@ -153,9 +188,10 @@ export class ConversationService {
    */
   public static async getConversationWithMessages(
     conversationUuid: string, 
-    userUuid: string
+    userUuid: string,
+    includeArchived: boolean = false
   ): Promise<ConversationWithMessages | null> {
-    const conversation = await this.getConversation(conversationUuid, userUuid);
+    const conversation = await this.getConversation(conversationUuid, userUuid, includeArchived);
     if (!conversation) {
       return null;
     }
@@ -209,17 +245,162 @@ export class ConversationService {
     return conversations;
   }
 
+  /**
+   * List a user's conversations as chat sessions, newest activity first.
+   * `page` is zero-based; one extra row is fetched to tell whether another page exists.
+   */
+  public static async listChatSessions(
+    userUuid: string,
+    filters: ChatHistoryFilters = {},
+    page: number = 0,
+    limit: number = 20
+  ): Promise<ConversationPage> {
+    const conditions: SQL[] = [
+      eq(ai_conversations.user_uuid, userUuid),
+      eq(ai_conversations.status, filters.archived ? 'archived' : 'active'),
+    ];
+
+    if (filters.bookId) {
+      conditions.push(eq(ai_conversations.book_uuid, filters.bookId));
+    }
+
+    const activity = sql`coalesce(${ai_conversations.last_message_at}, ${ai_conversations.created_at})`;
+    if (filters.dateRange?.start) {
+      conditions.push(sql`${activity} >= ${filters.dateRange.start.toISOString()}`);
+    }
+    if (filters.dateRange?.end) {
+      conditions.push(sql`${activity} <= ${filters.dateRange.end.toISOString()}`);
+    }
+
+    if (filters.searchQuery) {
+      // Escape LIKE wildcards so the query matches literally
+      const escaped = filters.searchQuery.replace(/[\\%_]/g, char => `\\${char}`);
+      const pattern = `%${escaped}%`;
+      conditions.push(sql`(${ai_conversations.title} ilike ${pattern} or exists (
+        select 1 from ${ai_messages}
+        where ${ai_messages.conversation_uuid} = ${ai_conversations.uuid}
+          and ${ai_messages.content} ilike ${pattern}
+      ))`);
+    }
+
+    if (filters.tags && filters.tags.length > 0) {
+      conditions.push(sql`${ai_conversations.tags}::jsonb @> ${JSON.stringify(filters.tags)}::jsonb`);
+    }
+
+    const rows = await db()
+      .select()
+      .from(ai_conversations)
+      .where(and(...conditions))
+      .orderBy(
+        sql`coalesce(${ai_conversations.last_message_at}, ${ai_conversations.created_at}) desc`,
+        desc(ai_conversations.id)
+      )
+      .limit(limit + 1)
+      .offset(page * limit);
+
+    const conversations = rows.slice(0, limit) as ConversationRecord[];
+
+    return {
+      sessions: await this.toChatSessions(conversations),
+      hasMore: rows.length > limit,
+    };
+  }
+
+  /**
+   * Get a conversation's messages in chat format, archived conversations included
+   */
+  public static async getChatMessages(
+    conversationUuid: string,
+    userUuid: string
+  ): Promise<ChatMessage[] | null> {
+    const data = await this.getConversationWithMessages(conversationUuid, userUuid, true);
+    if (!data) {
+      return null;
+    }
+
+    return data.messages
+      .filter(message => message.role !== 'function' && !message.error_info)
+      .map(message => this.toChatMessage(message));
+  }
+
+  /**
+   * Get a single conversation as a chat session, archived conversations included
+   */
+  public static async getChatSession(
+    conversationUuid: string,
+    userUuid: string
+  ): Promise<ChatSession | null> {
+    const conversation = await this.getConversation(conversationUuid, userUuid, true);
+    if (!conversation) {
+      return null;
+    }
+
+    const [session] = await this.toChatSessions([conversation]);
+    return session;
+  }
+
+  /**
+   * Update title, tags, archived state or spoiler mode; returns the updated session or null if not found
+   */
+  public static async updateConversation(
+    conversationUuid: string,
+    userUuid: string,
+    options: UpdateConversationOptions
+  ): Promise<ChatSession | null> {
+    const conversation = await this.getConversation(conversationUuid, userUuid, true);
+    if (!conversation) {
+      return null;
+    }
+
+    await db()
+      .update(ai_conversations)
+      .set({
+        title: options.title,
+        tags: options.tags,
+        spoiler_mode: options.spoilerMode,
+        status: options.isArchived === undefined
+          ? undefined
+          : options.isArchived ? 'archived' : 'active',
+        updated_at: new Date(),
+      })
+      .where(eq(ai_conversations.uuid, conversationUuid));
+
+    return this.getChatSession(conversationUuid, userUuid);
+  }
+
   /**
    * Add message to conversation
    */
   public static async addMessage(options: AddMessageOptions): Promise<MessageRecord> {
-    // Get current message count for sequence number
-    const messageCount = await db()
-      .select({ count: ai_messages.id })
+    const created = await this.insertMessage(options);
+    const now = created.created_at || new Date();
+
+    // Update conversation stats; recorded failures take a sequence number but are not counted
+    await db()
+      .update(ai_conversations)
+      .set({
+        total_messages: sql`${ai_conversations.total_messages} + 1`,
+        last_message_at: now,
+        ai_model: options.aiModel || undefined,
+        ai_provider: options.aiProvider || undefined,
+        updated_at: now,
+      })
+      .where(eq(ai_conversations.uuid, options.conversationUuid));
+
+    return created;
+  }
+
+  /**
+   * Insert a message row without touching the conversation's counters
+   */
+  private static async insertMessage(options: AddMessageOptions): Promise<MessageRecord> {
+    // Next sequence number; the unique (conversation, sequence) index rejects a concurrent duplicate
+    const [last] = await db()
+      .select({ max: sql<number>`coalesce(max(${ai_messages.sequence_number}), -1)` })
       .from(ai_messages)
       .where(eq(ai_messages.conversation_uuid, options.conversationUuid));
 
-    const sequenceNumber = messageCount.length;
+    const sequenceNumber = Number(last?.max ?? -1) + 1;
     const messageUuid = uuidv4();
     const now = new Date();
 
@@ -249,21 +430,46 @@ export class ConversationService {
       .values(message)
       .returning();
 
-    // Update conversation stats
-    await db()
-      .update(ai_conversations)
-      .set({
-        total_messages: sequenceNumber + 1,
-        last_message_at: now,
-        ai_model: options.aiModel || undefined,
-        ai_provider: options.aiProvider || undefined,
-        updated_at: now,
-      })
-      .where(eq(ai_conversations.uuid, options.conversationUuid));
-
     return created;
   }
 
+  /**
+   * Record an AI request that failed, for error-rate reporting. Failures are
+   * stored as system messages with `error_info`; they are not shown in the
+   * chat nor sent back to the model, and do not count towards the
+   * conversation's messages or last activity. Never throws.
+   */
+  public static async recordFailedResponse(options: {
+    conversationUuid: string;
+    userUuid: string;
+    error: unknown;
+    responseTimeMs?: number;
+  }): Promise<void> {
+    const { error } = options;
+    // The reading assistant wraps provider errors, keeping them as the cause
+    const aiError = error instanceof AIError
+      ? error
+      : error instanceof Error && error.cause instanceof AIError ? error.cause : undefined;
+
+    try {
+      await this.insertMessage({
+        conversationUuid: options.conversationUuid,
+        userUuid: options.userUuid,
+        role: 'system',
+        content: 'AI response failed',
+        aiProvider: aiError?.provider,
+        responseTimeMs: options.responseTimeMs,
+        errorInfo: {
+          code: aiError?.code || 'UNKNOWN',
+          message: (error instanceof Error ? error.message : String(error)).slice(0, 1000),
+          retryable: aiError?.retryable ?? false,
+        },
+      });
+    } catch (recordError) {
+      console.error('Failed to record AI failure:', recordError);
+    }
+  }
+
   /**
    * Update conversation title
    */
@@ -311,6 +517,30 @@ export class ConversationService {
     return result.rowCount > 0;
   }
 
+  /**
+   * Restore an archived conversation
+   */
+  public static async unarchiveConversation(
+    conversationUuid: string,
+    userUuid: string
+  ): Promise<boolean> {
+    const result = await db()
+      .update(ai_conversations)
+      .set({
+        status: 'active',
+        updated_at: new Date(),
+      })
+      .where(
+        and(
+          eq(ai_conversations.uuid, conversationUuid),
+          eq(ai_conversations.user_uuid, userUuid),
+          eq(ai_conversations.status, 'archived')
+        )
+      );
+
+    return result.rowCount > 0;
+  }
+
   /**
    * Delete conversation (hard delete)
    */
@@ -345,7 +575,7 @@ export class ConversationService {
    * Convert database messages to AI messages format
    */
   public static convertToAIMessages(messages: MessageRecord[]): AIMessage[] {
-    return messages.map(msg => ({
+    return messages.filter(msg => !msg.error_info).map(msg => ({
       role: msg.role as 'user' | 'assistant' | 'system' | 'function',
       content: msg.content,
       functionCall: msg.function_call || undefined,
@@ -353,6 +583,80 @@ export class ConversationService {
     }));
   }
 
+  /**
+   * Convert a database message to the chat UI format
+   */
+  public static toChatMessage(message: MessageRecord): ChatMessage {
+    return {
+      id: message.uuid,
+      role: message.role as ChatMessage['role'],
+      content: message.content,
+      timestamp: message.created_at || new Date(),
+      metadata: {
+        processingTime: message.response_time_ms || undefined,
+        model: message.ai_model || undefined,
+        provider: message.ai_provider || undefined,
+      },
+    };
+  }
+
+  /**
+   * Convert conversations to chat sessions with book titles and a last-message preview
+   */
+  private static async toChatSessions(conversations: ConversationRecord[]): Promise<ChatSession[]> {
+    if (conversations.length === 0) {
+      return [];
+    }
+
+    const bookUuids = conversations
+      .map(conversation => conversation.book_uuid)
+      .filter((uuid): uuid is string => !!uuid);
+
+    const bookRows = bookUuids.length > 0
+      ? await db().select().from(books).where(inArray(books.uuid, bookUuids))
+      : [];
+    const bookTitles = new Map(bookRows.map(book => [book.uuid as string, book.title as string]));
+
+    // Messages come back newest first, so the first one seen per conversation is its latest
+    const messageRows = await db()
+      .select()
+      .from(ai_messages)
+      .where(
+        and(
+          inArray(ai_messages.conversation_uuid, conversations.map(conversation => conversation.uuid)),
+          inArray(ai_messages.role, ['user', 'assistant'])
+        )
+      )
+      .orderBy(desc(ai_messages.sequence_number));
+
+    const previews = new Map<string, string>();
+    for (const message of messageRows as MessageRecord[]) {
+      if (!previews.has(message.conversation_uuid)) {
+        previews.set(message.conversation_uuid, message.content.slice(0, PREVIEW_LENGTH));
+      }
+    }
+
+    return conversations.map(conversation => {
+      const context = conversation.context_data || {};
+      const createdAt = conversation.created_at || new Date();
+
+      return {
+        id: conversation.uuid,
+        title: conversation.title,
+        bookId: conversation.book_uuid || '',
+        bookTitle: (conversation.book_uuid && bookTitles.get(conversation.book_uuid)) || context.title || '',
+        chapter: context.currentChapter || undefined,
+        messageCount: conversation.total_messages,
+        lastMessageAt: conversation.last_message_at || createdAt,
+        createdAt,
+        preview: previews.get(conversation.uuid),
+        tags: conversation.tags || [],
+        isArchived: conversation.status === 'archived',
+        spoilerMode: isSpoilerMode(conversation.spoiler_mode) ? conversation.spoiler_mode : DEFAULT_SPOILER_MODE,
+      };
+    });
+  }
+
   /**
    * Get conversation statistics for a user
    */
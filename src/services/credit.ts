@@ -1,6 +1,7 @@
 import {
   findCreditByOrderNo,
   getUserValidCredits,
+  insertCappedDebit,
   insertCredit,
 } from "@/models/credit";
 import { credits as creditsTable } from "@/db/schema";
@@ -15,11 +16,18 @@ export enum CreditsTransType {
   OrderPay = "order_pay", // user pay for credits
   SystemAdd = "system_add", // system add credits
   Ping = "ping", // cost for ping api
+  AIChat = "ai_chat", // cost for chat assistant usage
+  AIReadingAssistant = "ai_reading_assistant", // cost for book question answering
+  AIOverview = "ai_overview", // cost for book overview generation
+  AIChapterSummary = "ai_chapter_summary", // cost for chapter summary generation
+  AIBookIndex = "ai_book_index", // cost for embedding an uploaded book text
+  AIReadingRecap = "ai_reading_recap", // cost for writing a year in books narrative
 }
 
 export enum CreditsAmount {
   NewUserGet = 10,
   PingCost = 1,
+  AIMinimumCost = 1,
 }
 
 export async function getUserCredits(user_uuid: string): Promise<UserCredits> {
@@ -102,6 +110,32 @@ export async function decreaseCredits({
   }
 }
 
+// decrease up to `credits`, never below the user's balance, and return the credits taken
+export async function decreaseCreditsUpTo({
+  user_uuid,
+  trans_type,
+  credits,
+}: {
+  user_uuid: string;
+  trans_type: CreditsTransType;
+  credits: number;
+}): Promise<number> {
+  try {
+    return await insertCappedDebit(
+      {
+        trans_no: getSnowId(),
+        created_at: new Date(getIsoTimestr()),
+        user_uuid: user_uuid,
+        trans_type: trans_type,
+      },
+      credits
+    );
+  } catch (e) {
+    console.log("decrease credits failed: ", e);
+    throw e;
+  }
+}
+
 export async function increaseCredits({
   user_uuid,
   trans_type,
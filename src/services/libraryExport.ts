@@ -0,0 +1,308 @@
+import { database as db } from "@/db";
+import { books, book_lists, book_list_items, reading_sessions, reading_notes } from "@/db/schema";
+import { BookListItem, LibraryExportMembership } from "@/types/book";
+import { toCsvRow } from "@/lib/csv";
+import { eq, and, or, gt, asc, inArray, sql } from "drizzle-orm";
+
+export const LIBRARY_EXPORT_VERSION = 1;
+
+// Books read per query while an export streams
+const EXPORT_PAGE_SIZE = 100;
+
+export type LibraryCsvType = 'books' | 'sessions' | 'notes';
+
+// A book with its library data as stored; serialized, it is a LibraryExportEntry
+export interface LibraryExportRecord {
+  book: typeof books.$inferSelect;
+  memberships: LibraryExportMembership[];
+  sessions: (typeof reading_sessions.$inferSelect)[];
+  notes: (typeof reading_notes.$inferSelect)[];
+}
+
+// Reading statuses mapped to Goodreads exclusive shelves (custom ones round-trip through our importer)
+const GOODREADS_SHELVES: Record<BookListItem['reading_status'], string> = {
+  want_to_read: "to-read",
+  currently_reading: "currently-reading",
+  read: "read",
+  paused: "paused",
+  abandoned: "did-not-finish"
+};
+
+const GOODREADS_HEADERS = [
+  "Book Id", "Title", "Author", "Author l-f", "Additional Authors", "ISBN", "ISBN13",
+  "My Rating", "Average Rating", "Publisher", "Binding", "Number of Pages", "Year Published",
+  "Original Publication Year", "Date Read", "Date Added", "Bookshelves",
+  "Bookshelves with positions", "Exclusive Shelf", "My Review", "Spoiler", "Private Notes",
+  "Read Count", "Owned Copies"
+];
+
+export class LibraryExportService {
+  // Every book in the user's library, and any book their sessions and notes still reference,
+  // with list memberships, sessions and notes. Books are read a page at a time, so an export
+  // streams without the whole library in memory.
+  static async *getExportEntries(userUuid: string): AsyncGenerator<LibraryExportRecord> {
+    let lastId = 0;
+
+    while (true) {
+      const page = await db
+        .select()
+        .from(books)
+        .where(
+          and(
+            gt(books.id, lastId),
+            or(
+              inArray(books.uuid, sql`(select ${book_list_items.book_uuid} from ${book_list_items} where ${book_list_items.user_uuid} = ${userUuid})`),
+              inArray(books.uuid, sql`(select ${reading_sessions.book_uuid} from ${reading_sessions} where ${reading_sessions.user_uuid} = ${userUuid})`),
+              inArray(books.uuid, sql`(select ${reading_notes.book_uuid} from ${reading_notes} where ${reading_notes.user_uuid} = ${userUuid})`)
+            )
+          )
+        )
+        .orderBy(asc(books.id))
+        .limit(EXPORT_PAGE_SIZE);
+
+      if (page.length === 0) return;
+      lastId = page[page.length - 1].id;
+
+      yield* await this.getEntries(userUuid, page);
+
+      if (page.length < EXPORT_PAGE_SIZE) return;
+    }
+  }
+
+  // Memberships, sessions and notes of one page of books
+  private static async getEntries(userUuid: string, pageBooks: (typeof books.$inferSelect)[]): Promise<LibraryExportRecord[]> {
+    const bookUuids = pageBooks.map(book => book.uuid);
+
+    const items = await db
+      .select({
+        item: book_list_items,
+        list: book_lists
+      })
+      .from(book_list_items)
+      .innerJoin(book_lists, eq(book_list_items.list_uuid, book_lists.uuid))
+      .where(
+        and(
+          eq(book_list_items.user_uuid, userUuid),
+          inArray(book_list_items.book_uuid, bookUuids)
+        )
+      )
+      .orderBy(asc(book_list_items.added_at));
+
+    const sessions = await db
+      .select()
+      .from(reading_sessions)
+      .where(
+        and(
+          eq(reading_sessions.user_uuid, userUuid),
+          inArray(reading_sessions.book_uuid, bookUuids)
+        )
+      )
+      .orderBy(asc(reading_sessions.session_start));
+
+    const notes = await db
+      .select()
+      .from(reading_notes)
+      .where(
+        and(
+          eq(reading_notes.user_uuid, userUuid),
+          inArray(reading_notes.book_uuid, bookUuids)
+        )
+      )
+      .orderBy(asc(reading_notes.created_at));
+
+    const entries = new Map<string, LibraryExportRecord>(
+      pageBooks.map(book => [book.uuid, { book, memberships: [], sessions: [], notes: [] }])
+    );
+
+    items.forEach(({ item, list }) => {
+      entries.get(item.book_uuid)?.memberships.push({
+        list_uuid: list.uuid,
+        list_name: list.name,
+        list_type: list.list_type,
+        is_default: list.is_default,
+        reading_status: item.reading_status,
+        personal_rating: item.personal_rating !== null ? Number(item.personal_rating) : undefined,
+        personal_review: item.personal_review ?? undefined,
+        date_started: item.date_started?.toISOString(),
+        date_completed: item.date_completed?.toISOString(),
+        added_at: item.added_at?.toISOString(),
+        progress_percentage: item.progress_percentage ?? 0,
+        sort_order: item.sort_order,
+        notes: item.notes ?? undefined
+      } as LibraryExportMembership);
+    });
+    sessions.forEach(session => {
+      entries.get(session.book_uuid)?.sessions.push(session);
+    });
+    notes.forEach(note => {
+      entries.get(note.book_uuid)?.notes.push(note);
+    });
+
+    return Array.from(entries.values());
+  }
+
+  // Full-fidelity JSON, one entry per chunk; re-importable through LibraryImportService
+  static async *streamJson(entries: AsyncIterable<LibraryExportRecord>, exportedAt: string): AsyncGenerator<string> {
+    yield `{"format":"booksoflife","version":${LIBRARY_EXPORT_VERSION},` +
+      `"exported_at":${JSON.stringify(exportedAt)},"entries":[`;
+
+    let first = true;
+    for await (const entry of entries) {
+      yield (first ? "" : ",") + JSON.stringify(entry);
+      first = false;
+    }
+
+    yield "]}";
+  }
+
+  // Flat CSV of books, sessions or notes
+  static async *streamCsv(
+    entries: AsyncIterable<LibraryExportRecord>,
+    type: LibraryCsvType = "books"
+  ): AsyncGenerator<string> {
+    if (type === "sessions") {
+      yield toCsvRow([
+        "Session ID", "Book ID", "Title", "Author", "Start", "End", "Duration Minutes",
+        "Pages Read", "Start Page", "End Page", "Mood", "Location", "Goal Met", "Status", "Notes"
+      ]);
+      for await (const { book, sessions } of entries) {
+        for (const session of sessions) {
+          yield toCsvRow([
+            session.uuid, book.uuid, book.title, book.author,
+            this.formatDateTime(session.session_start), this.formatDateTime(session.session_end),
+            session.reading_duration_minutes, session.pages_read, session.start_page, session.end_page,
+            session.mood, session.location, session.reading_goal_met, session.status, session.notes
+          ]);
+        }
+      }
+      return;
+    }
+
+    if (type === "notes") {
+      yield toCsvRow([
+        "Note ID", "Book ID", "Title", "Author", "Type", "Content", "Context", "Page",
+        "Chapter", "Color", "Favorite", "Tags", "Session ID", "Created At"
+      ]);
+      for await (const { book, notes } of entries) {
+        for (const note of notes) {
+          yield toCsvRow([
+            note.uuid, book.uuid, book.title, book.author, note.note_type, note.content,
+            note.context, note.page_number, note.chapter, note.color, note.is_favorite,
+            this.parseTags(note.tags).join("; "), note.session_uuid, this.formatDateTime(note.created_at)
+          ]);
+        }
+      }
+      return;
+    }
+
+    yield toCsvRow([
+      "Book ID", "Title", "Subtitle", "Author", "Co-Authors", "ISBN-10", "ISBN-13", "Genre",
+      "Language", "Publisher", "Publication Date", "Pages", "Format", "Series", "Series Number",
+      "Reading Status", "Rating", "Review", "Progress", "Date Added", "Date Started",
+      "Date Completed", "Lists", "Reading Sessions", "Minutes Read", "Notes"
+    ]);
+    for await (const entry of entries) {
+      const { book, sessions, notes } = entry;
+      const membership = this.getPrimaryMembership(entry);
+
+      yield toCsvRow([
+        book.uuid, book.title, book.subtitle, book.author, book.co_authors, book.isbn_10,
+        book.isbn_13, book.genre, book.language, book.publisher, this.formatDate(book.publication_date),
+        book.page_count, book.format, book.series_name, book.series_number,
+        membership?.reading_status, membership?.personal_rating, membership?.personal_review,
+        membership?.progress_percentage, this.formatDate(membership?.added_at),
+        this.formatDate(membership?.date_started), this.formatDate(membership?.date_completed),
+        entry.memberships.map(m => m.list_name).join("; "),
+        sessions.length,
+        sessions.reduce((sum, session) => sum + (session.reading_duration_minutes || 0), 0),
+        notes.length
+      ]);
+    }
+  }
+
+  // CSV matching the Goodreads export layout so it can be imported there
+  static async *streamGoodreadsCsv(entries: AsyncIterable<LibraryExportRecord>): AsyncGenerator<string> {
+    yield toCsvRow(GOODREADS_HEADERS);
+
+    for await (const entry of entries) {
+      const { book } = entry;
+      const membership = this.getPrimaryMembership(entry);
+      if (!membership) continue;
+
+      const shelf = GOODREADS_SHELVES[membership.reading_status] || "to-read";
+      const customShelves = entry.memberships
+        .filter(m => !m.is_default && m.list_type === "custom")
+        .map(m => m.list_name.toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-|-$/g, ""))
+        .filter(Boolean);
+      const year = book.publication_date ? new Date(book.publication_date).getUTCFullYear() : undefined;
+
+      yield toCsvRow([
+        book.goodreads_id || "",
+        book.title,
+        book.author,
+        this.toLastFirst(book.author),
+        book.co_authors,
+        // Goodreads wraps identifiers so spreadsheets keep leading zeros
+        `="${book.isbn_10 || ""}"`,
+        `="${book.isbn_13 || ""}"`,
+        membership.personal_rating ? Math.round(membership.personal_rating) : 0,
+        "",
+        book.publisher,
+        book.format,
+        book.page_count,
+        year,
+        year,
+        this.formatGoodreadsDate(membership.date_completed),
+        this.formatGoodreadsDate(membership.added_at),
+        customShelves.join(", "),
+        [shelf, ...customShelves].map((name, index) => `${name} (#${index + 1})`).join(", "),
+        shelf,
+        membership.personal_review,
+        "",
+        membership.notes,
+        membership.reading_status === "read" ? 1 : 0,
+        0
+      ]);
+    }
+  }
+
+  // Prefer the default library entry, it carries the canonical status and rating
+  static getPrimaryMembership(entry: { memberships: LibraryExportMembership[] }): LibraryExportMembership | undefined {
+    return entry.memberships.find(m => m.is_default) || entry.memberships[0];
+  }
+
+  private static toLastFirst(author: string): string {
+    const parts = author.trim().split(/\s+/);
+    if (parts.length < 2) return author;
+    const last = parts.pop();
+    return `${last}, ${parts.join(" ")}`;
+  }
+
+  private static parseTags(tags: string | null): string[] {
+    if (!tags) return [];
+    try {
+      const parsed = JSON.parse(tags);
+      return Array.isArray(parsed) ? parsed.map(String) : [];
+    } catch {
+      return [];
+    }
+  }
+
+  private static toDate(value?: string | Date | null): Date | null {
+    if (!value) return null;
+    const date = new Date(value);
+    return isNaN(date.getTime()) ? null : date;
+  }
+
+  private static formatDateTime(value?: string | Date | null): string {
+    return this.toDate(value)?.toISOString() || "";
+  }
+
+  private static formatDate(value?: string | Date | null): string {
+    return this.toDate(value)?.toISOString().slice(0, 10) || "";
+  }
+
+  private static formatGoodreadsDate(value?: string | Date | null): string {
+    return this.formatDate(value).replace(/-/g, "/");
+  }
+}
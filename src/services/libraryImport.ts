@@ -0,0 +1,687 @@
+import { database as db, DbExecutor } from "@/db";
+import { books, book_lists, book_list_items, reading_sessions, reading_notes } from "@/db/schema";
+import {
+  BookFormData,
+  LibraryExport,
+  LibraryExportEntry,
+  LibraryImportFormat,
+  LibraryImportResult,
+  LibraryImportRow,
+  LibraryImportRowResult
+} from "@/types/book";
+import { parseCsvRecords, unguardCsvValue } from "@/lib/csv";
+import { isIsbn, isbn10To13, normalizeIsbn } from "@/services/bookLookup/base";
+import { BooksService } from "./books";
+import { LibraryExportService } from "./libraryExport";
+import { ReadingStatus, ReadingStatusService, normalizeReadingStatus } from "./readingStatus";
+import { eq, and, ilike } from "drizzle-orm";
+import { v4 as uuidv4 } from "uuid";
+import { z } from "zod";
+
+export const MAX_IMPORT_ROWS = 5000;
+
+// Goodreads exclusive shelves and StoryGraph read statuses mapped to our reading statuses
+const SHELF_STATUS_MAP: Record<string, ReadingStatus> = {
+  "to-read": "want_to_read",
+  "currently-reading": "currently_reading",
+  "read": "read",
+  "paused": "paused",
+  "did-not-finish": "abandoned",
+  "dnf": "abandoned",
+  "abandoned": "abandoned"
+};
+
+const exportDate = z.union([z.string(), z.date()])
+  .refine(value => !isNaN(new Date(value).getTime()), { message: "is not a valid date" });
+
+// Dates of the sessions and notes in a JSON export entry; a bad one fails its row, not the import
+const exportRecordsSchema = z.object({
+  sessions: z.array(z.object({
+    session_start: exportDate,
+    session_end: exportDate.nullish(),
+    created_at: exportDate.nullish()
+  })).optional(),
+  notes: z.array(z.object({
+    created_at: exportDate.nullish()
+  })).optional()
+});
+
+const FORMAT_MAP: Record<string, string> = {
+  "paperback": "paperback",
+  "mass market paperback": "paperback",
+  "hardcover": "hardcover",
+  "kindle edition": "ebook",
+  "ebook": "ebook",
+  "digital": "ebook",
+  "audiobook": "audiobook",
+  "audible audio": "audiobook",
+  "audio cd": "audiobook",
+  "audio": "audiobook"
+};
+
+export class LibraryImportService {
+  // Import a Goodreads/StoryGraph CSV or BooksOfLife JSON export into the user's library
+  static async importLibrary(
+    userUuid: string,
+    content: string,
+    options: { dryRun?: boolean } = {}
+  ): Promise<LibraryImportResult> {
+    const dryRun = options.dryRun ?? false;
+    const { format, rows, errors, entries } = this.parseExport(content);
+
+    const result: LibraryImportResult = {
+      format,
+      dry_run: dryRun,
+      total_rows: rows.length + errors.length,
+      books_created: 0,
+      books_matched: 0,
+      library_added: 0,
+      library_updated: 0,
+      errors: errors.length,
+      rows: [...errors]
+    };
+
+    // Books seen earlier in this file, so duplicate rows resolve to the same book
+    const seenBooks = new Map<string, string>();
+
+    for (const row of rows) {
+      try {
+        // Each row is written in its own transaction, so a failed row leaves nothing half imported
+        const rowResult = await db.transaction(tx =>
+          this.importRow(userUuid, row, seenBooks, dryRun, entries?.get(row.row_number), tx)
+        );
+        result.rows.push(rowResult);
+
+        if (rowResult.action === "create") result.books_created++;
+        if (rowResult.action === "match") result.books_matched++;
+        if (rowResult.library_action === "add") result.library_added++;
+        if (rowResult.library_action === "update") result.library_updated++;
+      } catch (error) {
+        console.error(`Error importing row ${row.row_number}:`, error);
+        result.errors++;
+        result.rows.push({
+          row_number: row.row_number,
+          title: row.title,
+          author: row.author,
+          action: "error",
+          error: error instanceof Error ? error.message : "Unknown error"
+        });
+      }
+    }
+
+    result.rows.sort((a, b) => a.row_number - b.row_number);
+    return result;
+  }
+
+  // Parse an export into normalized rows plus per-row validation errors
+  static parseExport(content: string): {
+    format: LibraryImportFormat;
+    rows: LibraryImportRow[];
+    errors: LibraryImportRowResult[];
+    entries?: Map<number, LibraryExportEntry>;
+  } {
+    if (content.trimStart().startsWith("{")) {
+      return this.parseLibraryExport(content);
+    }
+
+    const { headers, records } = parseCsvRecords(content);
+    const format = this.detectFormat(headers);
+
+    if (records.length > MAX_IMPORT_ROWS) {
+      throw new Error(`Import is limited to ${MAX_IMPORT_ROWS} rows`);
+    }
+
+    const rows: LibraryImportRow[] = [];
+    const errors: LibraryImportRowResult[] = [];
+
+    records.forEach((guarded, index) => {
+      // Header is line 1, so data rows start at 2
+      const rowNumber = index + 2;
+      // Our own CSV export guards formula-like text; importing it again restores the text
+      const record = Object.fromEntries(
+        Object.entries(guarded).map(([header, value]) => [header, unguardCsvValue(value)])
+      );
+      const row = format === "goodreads"
+        ? this.parseGoodreadsRecord(record, rowNumber)
+        : this.parseStoryGraphRecord(record, rowNumber);
+
+      const error = this.validateRow(row);
+      if (error) {
+        errors.push({
+          row_number: rowNumber,
+          title: row.title,
+          author: row.author,
+          action: "error",
+          error
+        });
+      } else {
+        rows.push(row);
+      }
+    });
+
+    return { format, rows, errors };
+  }
+
+  // Identify the export by its header columns
+  static detectFormat(headers: string[]): LibraryImportFormat {
+    if (headers.includes("Exclusive Shelf") || headers.includes("Bookshelves")) {
+      return "goodreads";
+    }
+    if (headers.includes("Read Status") || headers.includes("ISBN/UID")) {
+      return "storygraph";
+    }
+
+    throw new Error("Unrecognized import format. Please upload a Goodreads or StoryGraph CSV, or a BooksOfLife JSON export");
+  }
+
+  // Parse our own JSON export, keeping each entry so sessions, notes and lists can be restored
+  private static parseLibraryExport(content: string): {
+    format: LibraryImportFormat;
+    rows: LibraryImportRow[];
+    errors: LibraryImportRowResult[];
+    entries: Map<number, LibraryExportEntry>;
+  } {
+    let data: LibraryExport;
+    try {
+      data = JSON.parse(content);
+    } catch {
+      throw new Error("Unrecognized import format. The JSON file could not be parsed");
+    }
+
+    if (data?.format !== "booksoflife" || !Array.isArray(data.entries)) {
+      throw new Error("Unrecognized import format. Please upload a BooksOfLife JSON export");
+    }
+    if (data.entries.length > MAX_IMPORT_ROWS) {
+      throw new Error(`Import is limited to ${MAX_IMPORT_ROWS} rows`);
+    }
+
+    const rows: LibraryImportRow[] = [];
+    const errors: LibraryImportRowResult[] = [];
+    const entries = new Map<number, LibraryExportEntry>();
+
+    data.entries.forEach((entry, index) => {
+      // Entries are numbered from 1 since there is no header line
+      const rowNumber = index + 1;
+      const book = entry.book || ({} as LibraryExportEntry['book']);
+      const membership = LibraryExportService.getPrimaryMembership(entry);
+      const row: LibraryImportRow = {
+        row_number: rowNumber,
+        title: book.title || "",
+        author: book.author || "",
+        co_authors: book.co_authors,
+        ...this.parseIsbns(book.isbn_10, book.isbn_13),
+        publisher: book.publisher,
+        page_count: book.page_count,
+        format: book.format,
+        goodreads_id: book.goodreads_id,
+        reading_status: normalizeReadingStatus(membership?.reading_status) || "want_to_read",
+        personal_rating: membership?.personal_rating,
+        personal_review: membership?.personal_review,
+        date_added: membership?.added_at,
+        date_started: membership?.date_started,
+        date_completed: membership?.date_completed
+      };
+
+      const error = this.validateRow(row) || this.validateEntryRecords(entry);
+      if (error) {
+        errors.push({ row_number: rowNumber, title: row.title, author: row.author, action: "error", error });
+      } else {
+        rows.push(row);
+        entries.set(rowNumber, entry);
+      }
+    });
+
+    return { format: "booksoflife", rows, errors, entries };
+  }
+
+  private static parseGoodreadsRecord(record: Record<string, string>, rowNumber: number): LibraryImportRow {
+    const rating = this.parseNumber(record["My Rating"]);
+    const shelf = (record["Exclusive Shelf"] || "to-read").toLowerCase();
+    const status = SHELF_STATUS_MAP[shelf] || "want_to_read";
+    const dateRead = this.parseDate(record["Date Read"]);
+
+    return {
+      row_number: rowNumber,
+      title: record["Title"] || "",
+      author: record["Author"] || "",
+      co_authors: record["Additional Authors"] || undefined,
+      ...this.parseIsbns(record["ISBN"], record["ISBN13"]),
+      publisher: record["Publisher"] || undefined,
+      page_count: this.parseNumber(record["Number of Pages"]),
+      publication_year: this.parseNumber(record["Original Publication Year"]) ||
+        this.parseNumber(record["Year Published"]),
+      format: this.parseFormat(record["Binding"]),
+      goodreads_id: record["Book Id"] || undefined,
+      reading_status: status,
+      // Goodreads exports 0 for unrated books
+      personal_rating: rating ? rating : undefined,
+      personal_review: record["My Review"] || undefined,
+      date_added: this.parseDate(record["Date Added"]),
+      date_completed: status === "read" ? dateRead : undefined
+    };
+  }
+
+  private static parseStoryGraphRecord(record: Record<string, string>, rowNumber: number): LibraryImportRow {
+    const [author = "", ...coAuthors] = (record["Authors"] || "")
+      .split(",")
+      .map(name => name.trim())
+      .filter(Boolean);
+    const status = SHELF_STATUS_MAP[(record["Read Status"] || "to-read").toLowerCase()] || "want_to_read";
+    const uid = record["ISBN/UID"] || "";
+    const { startDate, endDate } = this.parseDateRange(record["Dates Read"]);
+
+    return {
+      row_number: rowNumber,
+      title: record["Title"] || "",
+      author,
+      co_authors: coAuthors.length > 0 ? coAuthors.join(", ") : undefined,
+      ...(isIsbn(uid) ? this.parseIsbns(uid, uid) : {}),
+      format: this.parseFormat(record["Format"]),
+      reading_status: status,
+      personal_rating: this.parseNumber(record["Star Rating"]),
+      personal_review: record["Review"] || undefined,
+      date_added: this.parseDate(record["Date Added"]),
+      date_started: startDate,
+      date_completed: status === "read"
+        ? this.parseDate(record["Last Date Read"]) || endDate
+        : undefined
+    };
+  }
+
+  private static validateRow(row: LibraryImportRow): string | null {
+    if (!row.title) return "Title is missing";
+    if (!row.author) return "Author is missing";
+    if (row.title.length > 500) return "Title is longer than 500 characters";
+    if (row.author.length > 500) return "Author is longer than 500 characters";
+    if (row.personal_rating !== undefined && (row.personal_rating < 0 || row.personal_rating > 5)) {
+      return "Rating must be between 0 and 5";
+    }
+    return null;
+  }
+
+  private static validateEntryRecords(entry: LibraryExportEntry): string | null {
+    const parsed = exportRecordsSchema.safeParse(entry);
+    if (parsed.success) return null;
+
+    const [issue] = parsed.error.issues;
+    return `${issue.path.join(".")} ${issue.message}`;
+  }
+
+  private static async importRow(
+    userUuid: string,
+    row: LibraryImportRow,
+    seenBooks: Map<string, string>,
+    dryRun: boolean,
+    entry?: LibraryExportEntry,
+    tx: DbExecutor = db
+  ): Promise<LibraryImportRowResult> {
+    const rowResult: LibraryImportRowResult = {
+      row_number: row.row_number,
+      title: row.title,
+      author: row.author,
+      action: "match",
+      reading_status: row.reading_status
+    };
+
+    const fileKeys = this.getRowKeys(row);
+    const seenUuid = fileKeys.map(key => seenBooks.get(key)).find(Boolean);
+
+    if (seenUuid) {
+      rowResult.book_uuid = seenUuid;
+      rowResult.matched_by = "import_file";
+    } else {
+      const match = await this.findExistingBook(row, tx);
+      if (match) {
+        rowResult.book_uuid = match.uuid;
+        rowResult.matched_by = match.matchedBy;
+      } else {
+        rowResult.action = "create";
+        if (!dryRun) {
+          const book = await BooksService.createBook(this.toBookFormData(row, entry), userUuid, tx);
+          rowResult.book_uuid = book.uuid;
+        }
+      }
+    }
+
+    // In a dry run a new book has no uuid yet, so key it by row for later duplicates
+    const bookKey = rowResult.book_uuid || `row:${row.row_number}`;
+
+    const existingItem = rowResult.book_uuid && !bookKey.startsWith("row:")
+      ? await this.findLibraryItem(userUuid, rowResult.book_uuid, tx)
+      : null;
+    rowResult.library_action = existingItem || seenUuid ? "update" : "add";
+
+    if (dryRun) {
+      fileKeys.forEach(key => seenBooks.set(key, bookKey));
+      if (bookKey.startsWith("row:")) {
+        delete rowResult.book_uuid;
+      }
+      return rowResult;
+    }
+
+    let libraryItemId: number;
+    if (existingItem) {
+      // Status goes through the state machine so every copy and the status shelves follow it
+      await ReadingStatusService.transition(userUuid, rowResult.book_uuid!, row.reading_status, {
+        dateStarted: row.date_started ? new Date(row.date_started) : undefined,
+        dateCompleted: row.date_completed ? new Date(row.date_completed) : undefined
+      }, tx);
+      libraryItemId = existingItem.id;
+    } else {
+      const newItem = await BooksService.addBookToUserLibrary(rowResult.book_uuid!, userUuid, row.reading_status, tx);
+      libraryItemId = newItem.id;
+    }
+    await this.applyLibraryFields(libraryItemId, row, tx);
+
+    if (entry) {
+      await this.restoreEntryRecords(userUuid, rowResult.book_uuid!, entry, tx);
+    }
+
+    // Later rows only resolve to this book once its own row has gone through
+    fileKeys.forEach(key => seenBooks.set(key, bookKey));
+    return rowResult;
+  }
+
+  // Restore custom list memberships, sessions and notes from a JSON export entry.
+  // Records keep their original uuids so importing the same file twice is a no-op; a uuid that
+  // belongs to another user's record is replaced with a fresh one rather than dropped.
+  private static async restoreEntryRecords(
+    userUuid: string,
+    bookUuid: string,
+    entry: LibraryExportEntry,
+    tx: DbExecutor = db
+  ): Promise<void> {
+    const primary = LibraryExportService.getPrimaryMembership(entry);
+
+    for (const membership of entry.memberships) {
+      if (membership === primary || membership.is_default) continue;
+
+      const listUuid = await this.findOrCreateList(userUuid, membership.list_name, tx);
+      await tx.insert(book_list_items).values({
+        list_uuid: listUuid,
+        book_uuid: bookUuid,
+        user_uuid: userUuid,
+        reading_status: normalizeReadingStatus(membership.reading_status) || "want_to_read",
+        personal_rating: membership.personal_rating !== undefined ? String(membership.personal_rating) : undefined,
+        personal_review: membership.personal_review,
+        date_started: membership.date_started ? new Date(membership.date_started) : undefined,
+        date_completed: membership.date_completed ? new Date(membership.date_completed) : undefined,
+        progress_percentage: membership.progress_percentage,
+        sort_order: membership.sort_order,
+        notes: membership.notes,
+        added_at: membership.added_at ? new Date(membership.added_at) : new Date()
+      }).onConflictDoNothing();
+    }
+
+    // Sessions given a fresh uuid, so notes linked to them follow
+    const sessionUuids = new Map<string, string>();
+
+    for (const session of entry.sessions || []) {
+      const sessionUuid = await this.resolveRecordUuid(reading_sessions, userUuid, session.uuid, tx);
+      if (!sessionUuid) continue;
+      if (session.uuid) sessionUuids.set(session.uuid, sessionUuid);
+
+      await tx.insert(reading_sessions).values({
+        uuid: sessionUuid,
+        user_uuid: userUuid,
+        book_uuid: bookUuid,
+        session_start: new Date(session.session_start),
+        session_end: session.session_end ? new Date(session.session_end) : undefined,
+        pages_read: session.pages_read || 0,
+        start_page: session.start_page,
+        end_page: session.end_page,
+        reading_duration_minutes: session.reading_duration_minutes,
+        notes: session.notes,
+        mood: session.mood,
+        location: session.location,
+        reading_goal_met: session.reading_goal_met ?? false,
+        status: session.status || "completed",
+        created_at: session.created_at ? new Date(session.created_at) : new Date(),
+        updated_at: new Date()
+      }).onConflictDoNothing();
+    }
+
+    for (const note of entry.notes || []) {
+      const noteUuid = await this.resolveRecordUuid(reading_notes, userUuid, note.uuid, tx);
+      if (!noteUuid) continue;
+
+      await tx.insert(reading_notes).values({
+        uuid: noteUuid,
+        user_uuid: userUuid,
+        book_uuid: bookUuid,
+        session_uuid: note.session_uuid ? sessionUuids.get(note.session_uuid) || note.session_uuid : undefined,
+        note_type: note.note_type,
+        content: note.content,
+        context: note.context,
+        page_number: note.page_number,
+        chapter: note.chapter,
+        position_start: note.position_start,
+        position_end: note.position_end,
+        color: note.color,
+        is_private: note.is_private ?? true,
+        is_favorite: note.is_favorite ?? false,
+        tags: note.tags,
+        created_at: note.created_at ? new Date(note.created_at) : new Date(),
+        updated_at: new Date()
+      }).onConflictDoNothing();
+    }
+  }
+
+  // The uuid to restore a record under: null when the user already has it, a fresh uuid when
+  // the file's uuid is missing or taken by another user's record
+  private static async resolveRecordUuid(
+    table: typeof reading_sessions | typeof reading_notes,
+    userUuid: string,
+    uuid?: string,
+    tx: DbExecutor = db
+  ): Promise<string | null> {
+    if (!uuid) return uuidv4();
+
+    const [existing] = await tx
+      .select()
+      .from(table)
+      .where(eq(table.uuid, uuid))
+      .limit(1);
+
+    if (!existing) return uuid;
+    return existing.user_uuid === userUuid ? null : uuidv4();
+  }
+
+  private static async findOrCreateList(userUuid: string, name: string, tx: DbExecutor = db): Promise<string> {
+    const [list] = await tx
+      .select()
+      .from(book_lists)
+      .where(
+        and(
+          eq(book_lists.user_uuid, userUuid),
+          eq(book_lists.name, name),
+          eq(book_lists.list_type, "custom")
+        )
+      )
+      .limit(1);
+
+    if (list) return list.uuid;
+
+    const newList = await BooksService.createBookList(userUuid, name, undefined, false, tx);
+    return newList.uuid;
+  }
+
+  private static async findExistingBook(
+    row: LibraryImportRow,
+    tx: DbExecutor = db
+  ): Promise<{ uuid: string; matchedBy: 'isbn_13' | 'isbn_10' | 'title_author' } | null> {
+    if (row.isbn_13) {
+      const [book] = await tx
+        .select()
+        .from(books)
+        .where(and(eq(books.isbn_13, row.isbn_13), eq(books.status, "active")))
+        .limit(1);
+      if (book) return { uuid: book.uuid, matchedBy: "isbn_13" };
+    }
+
+    if (row.isbn_10) {
+      const [book] = await tx
+        .select()
+        .from(books)
+        .where(and(eq(books.isbn_10, row.isbn_10), eq(books.status, "active")))
+        .limit(1);
+      if (book) return { uuid: book.uuid, matchedBy: "isbn_10" };
+    }
+
+    // Case-insensitive exact match, escaping LIKE wildcards
+    const escape = (value: string) => value.replace(/[\\%_]/g, char => `\\${char}`);
+    const [book] = await tx
+      .select()
+      .from(books)
+      .where(
+        and(
+          ilike(books.title, escape(row.title)),
+          ilike(books.author, escape(row.author)),
+          eq(books.status, "active")
+        )
+      )
+      .limit(1);
+
+    return book ? { uuid: book.uuid, matchedBy: "title_author" } : null;
+  }
+
+  // The book's entry on the user's library list, not its copies on shelves and custom lists
+  private static async findLibraryItem(
+    userUuid: string,
+    bookUuid: string,
+    tx: DbExecutor = db
+  ): Promise<{ id: number } | null> {
+    const [item] = await tx
+      .select()
+      .from(book_list_items)
+      .innerJoin(book_lists, BooksService.libraryListJoin())
+      .where(
+        and(
+          eq(book_list_items.user_uuid, userUuid),
+          eq(book_list_items.book_uuid, bookUuid)
+        )
+      )
+      .limit(1);
+
+    return item ? { id: item.book_list_items.id } : null;
+  }
+
+  // Copy rating, review and dates onto the user's library entry
+  private static async applyLibraryFields(
+    libraryItemId: number,
+    row: LibraryImportRow,
+    tx: DbExecutor = db
+  ): Promise<void> {
+    await tx
+      .update(book_list_items)
+      .set({
+        personal_rating: row.personal_rating !== undefined ? String(row.personal_rating) : undefined,
+        personal_review: row.personal_review,
+        added_at: row.date_added ? new Date(row.date_added) : undefined,
+        date_started: row.date_started ? new Date(row.date_started) : undefined,
+        date_completed: row.date_completed ? new Date(row.date_completed) : undefined,
+        progress_percentage: row.reading_status === "read" ? 100 : undefined
+      })
+      .where(eq(book_list_items.id, libraryItemId));
+  }
+
+  private static toBookFormData(row: LibraryImportRow, entry?: LibraryExportEntry): BookFormData {
+    // JSON exports carry the full book record
+    if (entry?.book) {
+      const book = entry.book;
+      return {
+        title: row.title,
+        subtitle: book.subtitle,
+        author: row.author,
+        co_authors: book.co_authors,
+        isbn_10: row.isbn_10,
+        isbn_13: row.isbn_13,
+        genre: book.genre,
+        sub_genre: book.sub_genre,
+        language: book.language || "en",
+        publisher: book.publisher,
+        publication_date: book.publication_date,
+        page_count: book.page_count,
+        description: book.description,
+        cover_url: book.cover_url,
+        series_name: book.series_name,
+        series_number: book.series_number,
+        edition: book.edition,
+        format: book.format
+      };
+    }
+
+    return {
+      title: row.title,
+      author: row.author,
+      co_authors: row.co_authors,
+      isbn_10: row.isbn_10,
+      isbn_13: row.isbn_13,
+      language: "en",
+      publisher: row.publisher,
+      publication_date: row.publication_year ? `${row.publication_year}-01-01` : undefined,
+      page_count: row.page_count,
+      format: row.format
+    };
+  }
+
+  private static getRowKeys(row: LibraryImportRow): string[] {
+    return [
+      row.isbn_13 && `isbn13:${row.isbn_13}`,
+      row.isbn_10 && `isbn10:${row.isbn_10}`,
+      `title:${row.title.toLowerCase()}|${row.author.toLowerCase()}`
+    ].filter(Boolean) as string[];
+  }
+
+  // Goodreads wraps identifiers as ="0743273567" to stop spreadsheets mangling them
+  private static parseIsbns(isbn10?: string, isbn13?: string): { isbn_10?: string; isbn_13?: string } {
+    const clean = (value?: string) => normalizeIsbn((value || "").replace(/[="]/g, ""));
+    const ten = clean(isbn10);
+    const thirteen = clean(isbn13);
+
+    const result: { isbn_10?: string; isbn_13?: string } = {};
+    if (/^\d{9}[\dX]$/.test(ten)) result.isbn_10 = ten;
+    if (/^\d{13}$/.test(thirteen)) result.isbn_13 = thirteen;
+    if (!result.isbn_13 && result.isbn_10) result.isbn_13 = isbn10To13(result.isbn_10);
+
+    return result;
+  }
+
+  private static parseNumber(value?: string): number | undefined {
+    if (!value) return undefined;
+    const parsed = parseFloat(value);
+    return isNaN(parsed) ? undefined : parsed;
+  }
+
+  private static parseFormat(value?: string): string | undefined {
+    if (!value) return undefined;
+    return FORMAT_MAP[value.toLowerCase()] || value.toLowerCase();
+  }
+
+  // Both exports use YYYY/MM/DD dates
+  private static parseDate(value?: string): string | undefined {
+    if (!value) return undefined;
+
+    const match = value.match(/^(\d{4})[/-](\d{1,2})[/-](\d{1,2})$/);
+    const date = match
+      ? new Date(Date.UTC(Number(match[1]), Number(match[2]) - 1, Number(match[3])))
+      : new Date(value);
+
+    return isNaN(date.getTime()) ? undefined : date.toISOString();
+  }
+
+  // StoryGraph "Dates Read" looks like "2023/01/02-2023/01/20", possibly several comma separated
+  private static parseDateRange(value?: string): { startDate?: string; endDate?: string } {
+    if (!value) return {};
+
+    const ranges = value.split(",").map(range => range.trim()).filter(Boolean);
+    const last = ranges[ranges.length - 1];
+    if (!last) return {};
+
+    const [start, end] = last.split(/(?<=\d)-(?=\d{4})/);
+    return {
+      startDate: this.parseDate(start),
+      endDate: this.parseDate(end || start)
+    };
+  }
+}
@@ -0,0 +1,446 @@
+/**
+ * Library Tools for BooksOfLife Reading Assistant
+ *
+ * Read-only functions the assistant can call to look up the reader's own
+ * notes, reading sessions, shelves and books. Every query is scoped to the
+ * authenticated user. When no provider with function calling is available
+ * the same tools are run server-side and their results added to the prompt.
+ */
+
+import { database as db } from "@/db";
+import { books, book_list_items, book_lists, reading_notes, reading_sessions } from "@/db/schema";
+import { and, desc, eq, gte, ilike, inArray, or, SQL } from "drizzle-orm";
+import { AIFunction, AIFunctionCall } from "@/types/ai";
+import { normalizeReadingStatus } from "./readingStatus";
+
+/**
+ * Who the tools run for and the book the conversation is about
+ */
+export interface LibraryToolContext {
+  userUuid: string;
+  bookUuid?: string;
+}
+
+/**
+ * A tool call and its result, stored in `ai_messages.function_call`
+ */
+export interface LibraryToolInvocation {
+  id: string;
+  name: string;
+  arguments: Record<string, any>;
+  result: unknown;
+  error?: string;
+  durationMs: number;
+  /** 'model' when the model called the tool, 'retrieval' when it ran as server-side retrieval */
+  source: 'model' | 'retrieval';
+}
+
+const DEFAULT_LIMIT = 10;
+const MAX_LIMIT = 25;
+
+const bookUuidParameter = {
+  type: 'string',
+  description: 'Book UUID. Defaults to the book the conversation is about.',
+};
+
+/**
+ * Function definitions offered to the model
+ */
+export const LIBRARY_TOOLS: AIFunction[] = [
+  {
+    name: 'get_reading_progress',
+    description: 'Get the reader\'s status, progress percentage, current page and start/finish dates for a book.',
+    parameters: {
+      type: 'object',
+      properties: {
+        book_uuid: bookUuidParameter,
+      },
+    },
+  },
+  {
+    name: 'search_notes',
+    description: 'Search the reader\'s highlights, notes, bookmarks and quotes in a book, or in every book when the conversation is not about one.',
+    parameters: {
+      type: 'object',
+      properties: {
+        book_uuid: bookUuidParameter,
+        query: { type: 'string', description: 'Text to look for in the note or its surrounding passage' },
+        chapter: { type: 'string', description: 'Chapter name or number' },
+        note_type: { type: 'string', enum: ['highlight', 'note', 'bookmark', 'quote'] },
+        limit: { type: 'integer', minimum: 1, maximum: MAX_LIMIT },
+      },
+    },
+  },
+  {
+    name: 'list_reading_sessions',
+    description: 'List the reader\'s recent reading sessions with pages read, duration, mood and location.',
+    parameters: {
+      type: 'object',
+      properties: {
+        book_uuid: bookUuidParameter,
+        since: { type: 'string', description: 'Only sessions starting on or after this ISO date' },
+        limit: { type: 'integer', minimum: 1, maximum: MAX_LIMIT },
+      },
+    },
+  },
+  {
+    name: 'list_library_books',
+    description: 'List books in the reader\'s library, optionally by reading status, shelf name or title/author.',
+    parameters: {
+      type: 'object',
+      properties: {
+        status: { type: 'string', enum: ['want_to_read', 'currently_reading', 'read', 'paused', 'abandoned'] },
+        shelf: { type: 'string', description: 'Shelf name' },
+        query: { type: 'string', description: 'Text to look for in the title or author' },
+        limit: { type: 'integer', minimum: 1, maximum: MAX_LIMIT },
+      },
+    },
+  },
+  {
+    name: 'get_book_details',
+    description: 'Get catalogue details for a book in the reader\'s library: author, pages, genre, series, description.',
+    parameters: {
+      type: 'object',
+      properties: {
+        book_uuid: bookUuidParameter,
+      },
+    },
+  },
+];
+
+/**
+ * Library Tools Service
+ */
+export class LibraryToolsService {
+  /**
+   * Run a tool call for the user; failures are returned as the invocation error, not thrown
+   */
+  public static async execute(
+    call: AIFunctionCall,
+    context: LibraryToolContext,
+    source: LibraryToolInvocation['source'] = 'model'
+  ): Promise<LibraryToolInvocation> {
+    const startTime = Date.now();
+    const invocation: LibraryToolInvocation = {
+      id: call.id || `call_${call.name}`,
+      name: call.name,
+      arguments: call.arguments || {},
+      result: null,
+      durationMs: 0,
+      source,
+    };
+
+    try {
+      invocation.result = await this.run(call.name, invocation.arguments, context);
+    } catch (error) {
+      invocation.error = error instanceof Error ? error.message : String(error);
+    }
+
+    invocation.durationMs = Date.now() - startTime;
+    return invocation;
+  }
+
+  /**
+   * Server-side retrieval for providers without function calling: run the
+   * tools most questions need and return their invocations
+   */
+  public static async retrieve(context: LibraryToolContext): Promise<LibraryToolInvocation[]> {
+    const calls: AIFunctionCall[] = context.bookUuid
+      ? [
+          { id: 'retrieval_progress', name: 'get_reading_progress', arguments: {} },
+          { id: 'retrieval_notes', name: 'search_notes', arguments: { limit: MAX_LIMIT } },
+          { id: 'retrieval_sessions', name: 'list_reading_sessions', arguments: { limit: 5 } },
+        ]
+      : [
+          { id: 'retrieval_reading', name: 'list_library_books', arguments: { status: 'currently_reading' } },
+          { id: 'retrieval_sessions', name: 'list_reading_sessions', arguments: { limit: 5 } },
+        ];
+
+    return Promise.all(calls.map(call => this.execute(call, context, 'retrieval')));
+  }
+
+  /**
+   * Render retrieved results as a system prompt section
+   */
+  public static formatForPrompt(invocations: LibraryToolInvocation[]): string {
+    const sections = invocations
+      .filter(invocation => !invocation.error)
+      .map(invocation => `${invocation.name}:\n${JSON.stringify(invocation.result)}`);
+
+    if (sections.length === 0) {
+      return '';
+    }
+
+    return `The reader's own library data (use it to answer questions about their notes, progress and sessions; do not invent entries that are not listed):\n\n${sections.join('\n\n')}`;
+  }
+
+  private static async run(
+    name: string,
+    args: Record<string, any>,
+    context: LibraryToolContext
+  ): Promise<unknown> {
+    switch (name) {
+      case 'get_reading_progress':
+        return this.getReadingProgress(context.userUuid, this.requireBookUuid(args, context));
+      case 'search_notes':
+        return this.searchNotes(context.userUuid, args, this.getBookUuid(args, context));
+      case 'list_reading_sessions':
+        return this.listReadingSessions(context.userUuid, args, this.getBookUuid(args, context));
+      case 'list_library_books':
+        return this.listLibraryBooks(context.userUuid, args);
+      case 'get_book_details':
+        return this.getBookDetails(context.userUuid, this.requireBookUuid(args, context));
+      default:
+        throw new Error(`Unknown tool: ${name}`);
+    }
+  }
+
+  private static async getReadingProgress(userUuid: string, bookUuid: string) {
+    const [item] = await db
+      .select()
+      .from(book_list_items)
+      .where(
+        and(
+          eq(book_list_items.user_uuid, userUuid),
+          eq(book_list_items.book_uuid, bookUuid)
+        )
+      )
+      .limit(1);
+
+    if (!item) {
+      throw new Error("Book not in library");
+    }
+
+    const [book] = await db
+      .select()
+      .from(books)
+      .where(eq(books.uuid, bookUuid))
+      .limit(1);
+
+    const [latestSession] = await db
+      .select()
+      .from(reading_sessions)
+      .where(
+        and(
+          eq(reading_sessions.user_uuid, userUuid),
+          eq(reading_sessions.book_uuid, bookUuid)
+        )
+      )
+      .orderBy(desc(reading_sessions.session_start))
+      .limit(1);
+
+    return {
+      book_uuid: bookUuid,
+      title: book?.title,
+      reading_status: normalizeReadingStatus(item.reading_status as string),
+      progress_percentage: item.progress_percentage ?? 0,
+      current_page: latestSession?.end_page ?? null,
+      page_count: book?.page_count ?? null,
+      date_started: this.toDate(item.date_started),
+      date_completed: this.toDate(item.date_completed),
+      last_read_at: this.toDate(latestSession?.session_end || latestSession?.session_start),
+      dnf_reason: item.dnf_reason || undefined,
+    };
+  }
+
+  private static async searchNotes(userUuid: string, args: Record<string, any>, bookUuid?: string) {
+    const conditions: SQL[] = [eq(reading_notes.user_uuid, userUuid)];
+
+    if (bookUuid) {
+      conditions.push(eq(reading_notes.book_uuid, bookUuid));
+    }
+    if (args.note_type) {
+      conditions.push(eq(reading_notes.note_type, String(args.note_type)));
+    }
+    if (args.chapter) {
+      conditions.push(ilike(reading_notes.chapter, `%${this.escapeLike(args.chapter)}%`));
+    }
+    if (args.query) {
+      const pattern = `%${this.escapeLike(args.query)}%`;
+      conditions.push(or(ilike(reading_notes.content, pattern), ilike(reading_notes.context, pattern))!);
+    }
+
+    const notes = await db
+      .select()
+      .from(reading_notes)
+      .where(and(...conditions))
+      .orderBy(desc(reading_notes.created_at))
+      .limit(this.getLimit(args));
+
+    return notes.map(note => ({
+      book_uuid: note.book_uuid,
+      note_type: note.note_type,
+      content: note.content,
+      context: note.context || undefined,
+      chapter: note.chapter || undefined,
+      page_number: note.page_number ?? undefined,
+      is_favorite: note.is_favorite,
+      created_at: this.toDate(note.created_at),
+    }));
+  }
+
+  private static async listReadingSessions(userUuid: string, args: Record<string, any>, bookUuid?: string) {
+    const conditions: SQL[] = [eq(reading_sessions.user_uuid, userUuid)];
+
+    if (bookUuid) {
+      conditions.push(eq(reading_sessions.book_uuid, bookUuid));
+    }
+    if (args.since) {
+      const since = new Date(String(args.since));
+      if (isNaN(since.getTime())) {
+        throw new Error(`Invalid date: ${args.since}`);
+      }
+      conditions.push(gte(reading_sessions.session_start, since));
+    }
+
+    const sessions = await db
+      .select()
+      .from(reading_sessions)
+      .where(and(...conditions))
+      .orderBy(desc(reading_sessions.session_start))
+      .limit(this.getLimit(args));
+
+    return sessions.map(session => ({
+      book_uuid: session.book_uuid,
+      started_at: this.toDate(session.session_start),
+      ended_at: this.toDate(session.session_end),
+      status: session.status,
+      start_page: session.start_page ?? undefined,
+      end_page: session.end_page ?? undefined,
+      pages_read: session.pages_read,
+      duration_minutes: session.reading_duration_minutes ?? undefined,
+      mood: session.mood || undefined,
+      location: session.location || undefined,
+      notes: session.notes || undefined,
+    }));
+  }
+
+  private static async listLibraryBooks(userUuid: string, args: Record<string, any>) {
+    const conditions: SQL[] = [eq(book_list_items.user_uuid, userUuid)];
+
+    if (args.status) {
+      const status = normalizeReadingStatus(String(args.status));
+      if (!status) {
+        throw new Error(`Unknown reading status: ${args.status}`);
+      }
+      conditions.push(eq(book_list_items.reading_status, status));
+    }
+    if (args.shelf) {
+      const shelves = await db
+        .select()
+        .from(book_lists)
+        .where(
+          and(
+            eq(book_lists.user_uuid, userUuid),
+            ilike(book_lists.name, this.escapeLike(args.shelf))
+          )
+        );
+
+      if (shelves.length === 0) {
+        return [];
+      }
+      conditions.push(inArray(book_list_items.list_uuid, shelves.map(shelf => shelf.uuid as string)));
+    }
+    if (args.query) {
+      const pattern = `%${this.escapeLike(args.query)}%`;
+      conditions.push(or(ilike(books.title, pattern), ilike(books.author, pattern))!);
+    }
+
+    const rows = await db
+      .select()
+      .from(book_list_items)
+      .innerJoin(books, eq(books.uuid, book_list_items.book_uuid))
+      .where(and(...conditions))
+      .orderBy(desc(book_list_items.added_at))
+      .limit(MAX_LIMIT * 4);
+
+    // A book sits on several shelves; list it once
+    const seen = new Set<string>();
+    return rows
+      .filter(row => {
+        if (seen.has(row.books.uuid)) return false;
+        seen.add(row.books.uuid);
+        return true;
+      })
+      .slice(0, this.getLimit(args))
+      .map(({ books: book, book_list_items: item }) => ({
+        book_uuid: book.uuid,
+        title: book.title,
+        author: book.author,
+        page_count: book.page_count ?? undefined,
+        reading_status: normalizeReadingStatus(item.reading_status as string),
+        progress_percentage: item.progress_percentage ?? 0,
+        personal_rating: item.personal_rating ? Number(item.personal_rating) : undefined,
+        date_completed: this.toDate(item.date_completed),
+      }));
+  }
+
+  private static async getBookDetails(userUuid: string, bookUuid: string) {
+    const [item] = await db
+      .select()
+      .from(book_list_items)
+      .where(
+        and(
+          eq(book_list_items.user_uuid, userUuid),
+          eq(book_list_items.book_uuid, bookUuid)
+        )
+      )
+      .limit(1);
+
+    if (!item) {
+      throw new Error("Book not in library");
+    }
+
+    const [book] = await db
+      .select()
+      .from(books)
+      .where(eq(books.uuid, bookUuid))
+      .limit(1);
+
+    if (!book) {
+      throw new Error("Book not found");
+    }
+
+    return {
+      book_uuid: book.uuid,
+      title: book.title,
+      subtitle: book.subtitle || undefined,
+      author: book.author,
+      genre: book.genre || undefined,
+      language: book.language,
+      publisher: book.publisher || undefined,
+      publication_date: this.toDate(book.publication_date),
+      page_count: book.page_count ?? undefined,
+      format: book.format || undefined,
+      series_name: book.series_name || undefined,
+      series_number: book.series_number ?? undefined,
+      description: book.description || undefined,
+    };
+  }
+
+  private static getBookUuid(args: Record<string, any>, context: LibraryToolContext): string | undefined {
+    return args.book_uuid ? String(args.book_uuid) : context.bookUuid;
+  }
+
+  private static requireBookUuid(args: Record<string, any>, context: LibraryToolContext): string {
+    const bookUuid = this.getBookUuid(args, context);
+    if (!bookUuid) {
+      throw new Error("book_uuid is required when the conversation is not about a book");
+    }
+    return bookUuid;
+  }
+
+  private static getLimit(args: Record<string, any>): number {
+    const limit = Number(args.limit) || DEFAULT_LIMIT;
+    return Math.min(MAX_LIMIT, Math.max(1, Math.floor(limit)));
+  }
+
+  // model-supplied text is matched literally, so LIKE wildcards in it are escaped
+  private static escapeLike(value: unknown): string {
+    return String(value).replace(/[\\%_]/g, char => `\\${char}`);
+  }
+
+  private static toDate(value: unknown): string | undefined {
+    return value ? new Date(value as string | Date).toISOString() : undefined;
+  }
+}
@@ -1,11 +1,27 @@
-import { getAIService, askAI, streamAI } from "@/services/ai";
+import { getAIService, askAI, streamAI, bookCacheTag } from "@/services/ai";
+import { chargeAIUsage, estimateUsage } from "@/services/aiCredits";
+import { CreditsTransType } from "@/services/credit";
+import { BookTextIndexService } from "@/services/bookTextIndex";
+import { ConversationService } from "@/services/conversationService";
+import {
+  SpoilerGuard,
+  SpoilerStreamGuard,
+  SpoilerMode,
+  SpoilerCheck,
+  ReadingPosition,
+  DEFAULT_SPOILER_MODE,
+  isSpoilerMode
+} from "@/services/spoilerGuard";
 import { database as db } from "@/db";
 import { books, book_list_items, ai_conversations, ai_messages } from "@/db/schema";
-import { Book, BookListItem } from "@/types/book";
-import { AIRequest, AIStreamChunk } from "@/types/ai";
+import { Book, BookListItem, BookTextPassage } from "@/types/book";
+import { AIRequest, AIResponse, AIStreamChunk } from "@/types/ai";
 import { eq, and, desc } from "drizzle-orm";
 import { v4 as uuidv4 } from "uuid";
 
+// Book overviews are cached until the book's metadata is edited, at most for a week
+const OVERVIEW_CACHE_TTL = 7 * 24 * 60 * 60 * 1000;
+
 export interface ReadingAssistantContext {
   book: Book;
   currentChapter?: string;
@@ -29,17 +45,65 @@ export interface ConversationMessage {
   context?: any;
 }
 
+export interface BookTextCitation {
+  number: number;
+  page_start: number;
+  page_end: number;
+  chapter?: string;
+  excerpt: string;
+}
+
 export interface ReadingAssistantResponse {
   response: string;
   context_used: boolean;
   suggestions?: string[];
   related_concepts?: string[];
+  // passages from the reader's uploaded book text that the answer cites
+  citations?: BookTextCitation[];
+  // whether the answer reached past the reader's position, and what was hidden
+  spoiler_check?: SpoilerCheck;
+}
+
+// The final chunk of a streamed answer carries the spoiler check
+export interface ReadingAssistantStreamChunk extends AIStreamChunk {
+  spoiler_check?: SpoilerCheck;
+}
+
+// Options for generating shareable content such as overviews
+export interface GenerationOptions {
+  // language code of the generated text, English by default
+  language?: string;
+  // skip the response cache, e.g. when regenerating
+  bypassCache?: boolean;
+}
+
+interface ConversationSettings {
+  uuid: string;
+  spoilerMode: SpoilerMode;
 }
 
 export class ReadingAssistantService {
   // Generate book overview and reading guide
-  static async generateBookOverview(book: Book): Promise<string> {
-    const prompt = this.buildBookOverviewPrompt(book);
+  static async generateBookOverview(book: Book, userUuid?: string): Promise<string> {
+    const response = await this.requestBookOverview(book);
+
+    // Cached overviews cost nothing to serve
+    if (userUuid && !response.metadata.cached) {
+      await chargeAIUsage({
+        user_uuid: userUuid,
+        trans_type: CreditsTransType.AIOverview,
+        provider: response.provider,
+        model: response.model,
+        usage: response.usage
+      });
+    }
+
+    return response.content;
+  }
+
+  // Ask the model for a book overview without charging anyone; stored overviews are generated through this
+  static async requestBookOverview(book: Book, options: GenerationOptions = {}): Promise<AIResponse> {
+    const prompt = this.buildBookOverviewPrompt(book, options.language);
     
     const request: AIRequest = {
       messages: [
@@ -54,12 +118,13 @@ export class ReadingAssistantService {
       ],
       model: 'gemini-flash',
       temperature: 0.7,
-      max_tokens: 1500
+      max_tokens: 1500,
+      // Overviews depend only on the book's metadata, so they are shared until it changes
+      cache: { tags: [bookCacheTag(book.uuid)], ttl: OVERVIEW_CACHE_TTL, bypass: options.bypassCache }
     };
 
     try {
-      const response = await askAI(request, { preferredProvider: 'gemini' });
-      return response.content;
+      return await askAI(request, { preferredProvider: 'gemini' });
     } catch (error) {
       console.error('Error generating book overview:', error);
       throw new Error('Failed to generate book overview');
@@ -74,19 +139,28 @@ export class ReadingAssistantService {
     context?: SimpleContext
   ): Promise<ReadingAssistantResponse> {
     // Get or create conversation
-    const conversationId = await this.getOrCreateConversation(userUuid, bookUuid);
+    const conversation = await this.getOrCreateConversation(userUuid, bookUuid);
+    const conversationId = conversation.uuid;
+    const position = await this.resolveReadingPosition(userUuid, bookUuid, context);
     
-    // Get conversation history
-    const history = await this.getConversationHistory(conversationId, 10);
+    // Get conversation history, without earlier answers that went past the reader's position
+    const history = SpoilerGuard.filterHistory(
+      await this.getConversationHistory(conversationId, 10),
+      conversation.spoilerMode,
+      msg => msg.context?.spoiler_check
+    );
+
+    // Find passages the reader has already read in their uploaded copy
+    const passages = await this.findPassages(userUuid, bookUuid, question, conversation.spoilerMode, position);
     
     // Build the prompt with book context
-    const prompt = await this.buildContextualPrompt(bookUuid, question, context, history);
+    const prompt = await this.buildContextualPrompt(bookUuid, question, history, passages);
     
     const request: AIRequest = {
       messages: [
         {
           role: 'system',
-          content: this.getSystemPrompt()
+          content: this.getSystemPrompt(conversation.spoilerMode, position)
         },
         ...history.map(msg => ({
           role: msg.role as 'user' | 'assistant',
@@ -108,15 +182,30 @@ export class ReadingAssistantService {
         requireLowLatency: true 
       });
 
+      await chargeAIUsage({
+        user_uuid: userUuid,
+        trans_type: CreditsTransType.AIReadingAssistant,
+        provider: response.provider,
+        model: response.model,
+        usage: response.usage
+      });
+
+      // Check the answer against the reader's position before anyone sees it
+      const guarded = SpoilerGuard.guardResponse(response.content, conversation.spoilerMode, position);
+
       // Save the conversation
-      await this.saveConversationMessage(conversationId, 'user', question, context);
-      await this.saveConversationMessage(conversationId, 'assistant', response.content);
+      await this.saveConversationMessage(conversationId, userUuid, 'user', question, context);
+      await this.saveConversationMessage(conversationId, userUuid, 'assistant', guarded.content, {
+        spoiler_check: guarded.check
+      });
 
       return {
-        response: response.content,
-        context_used: !!context,
-        suggestions: this.extractSuggestions(response.content),
-        related_concepts: this.extractConcepts(response.content)
+        response: guarded.content,
+        context_used: !!context || passages.length > 0,
+        suggestions: this.extractSuggestions(guarded.content),
+        related_concepts: this.extractConcepts(guarded.content),
+        citations: this.extractCitations(guarded.content, passages),
+        spoiler_check: guarded.check
       };
     } catch (error) {
       console.error('Error answering book question:', error);
@@ -130,16 +219,23 @@ export class ReadingAssistantService {
     bookUuid: string,
     question: string,
     context?: SimpleContext
-  ): AsyncGenerator<AIStreamChunk, void, unknown> {
-    const conversationId = await this.getOrCreateConversation(userUuid, bookUuid);
-    const history = await this.getConversationHistory(conversationId, 10);
-    const prompt = await this.buildContextualPrompt(bookUuid, question, context, history);
+  ): AsyncGenerator<ReadingAssistantStreamChunk, void, unknown> {
+    const conversation = await this.getOrCreateConversation(userUuid, bookUuid);
+    const conversationId = conversation.uuid;
+    const position = await this.resolveReadingPosition(userUuid, bookUuid, context);
+    const history = SpoilerGuard.filterHistory(
+      await this.getConversationHistory(conversationId, 10),
+      conversation.spoilerMode,
+      msg => msg.context?.spoiler_check
+    );
+    const passages = await this.findPassages(userUuid, bookUuid, question, conversation.spoilerMode, position);
+    const prompt = await this.buildContextualPrompt(bookUuid, question, history, passages);
     
     const request: AIRequest = {
       messages: [
         {
           role: 'system',
-          content: this.getSystemPrompt()
+          content: this.getSystemPrompt(conversation.spoilerMode, position)
         },
         ...history.map(msg => ({
           role: msg.role as 'user' | 'assistant',
@@ -157,21 +253,70 @@ export class ReadingAssistantService {
     };
 
     let fullResponse = '';
+    let shownResponse = '';
+    let lastChunk: AIStreamChunk | undefined;
+    // In strict mode text is released a sentence at a time, once it has been checked
+    const guard = new SpoilerStreamGuard(conversation.spoilerMode, position);
+
+    // Charge credits, estimating usage if the provider did not report it. The answer has
+    // been streamed by then, so a failed charge is logged rather than failing the answer.
+    let charged = false;
+    const charge = async () => {
+      if (charged || !lastChunk) return;
+      charged = true;
+
+      try {
+        await chargeAIUsage({
+          user_uuid: userUuid,
+          trans_type: CreditsTransType.AIReadingAssistant,
+          provider: lastChunk.provider,
+          model: lastChunk.model,
+          usage: lastChunk.usage || estimateUsage(
+            request.messages.map(msg => msg.content).join('\n'),
+            fullResponse
+          )
+        });
+      } catch (error) {
+        console.error('Error charging streamed book question:', error);
+      }
+    };
     
     try {
       for await (const chunk of streamAI(request, { preferredProvider: 'gemini' })) {
-        if (chunk.content) {
-          fullResponse += chunk.content;
+        if (chunk.delta) {
+          fullResponse += chunk.delta;
         }
-        yield chunk;
+        lastChunk = chunk;
+
+        const delta = guard.push(chunk.delta || '') + (chunk.done ? guard.flush() : '');
+        shownResponse += delta;
+        if (chunk.done) {
+          yield { ...chunk, delta, spoiler_check: guard.getResult() };
+        } else if (delta || chunk.functionCallDeltas) {
+          yield { ...chunk, delta };
+        }
+      }
+
+      // Release anything held back if the provider ended without a final chunk
+      const rest = guard.flush();
+      if (rest && lastChunk) {
+        shownResponse += rest;
+        yield { ...lastChunk, delta: rest, done: true, spoiler_check: guard.getResult() };
       }
 
-      // Save the conversation after streaming completes
-      await this.saveConversationMessage(conversationId, 'user', question, context);
-      await this.saveConversationMessage(conversationId, 'assistant', fullResponse);
+      await charge();
+
+      // Save the conversation after streaming completes, as the reader saw it
+      await this.saveConversationMessage(conversationId, userUuid, 'user', question, context);
+      await this.saveConversationMessage(conversationId, userUuid, 'assistant', shownResponse, {
+        spoiler_check: guard.getResult()
+      });
     } catch (error) {
       console.error('Error streaming book question:', error);
       throw new Error('Failed to stream AI response');
+    } finally {
+      // A reader who stops the stream early still pays for what the provider produced
+      await charge();
     }
   }
 
@@ -181,6 +326,17 @@ export class ReadingAssistantService {
     chapterTitle: string,
     chapterContent?: string
   ): Promise<string> {
+    const response = await this.requestChapterSummary(book, chapterTitle, chapterContent);
+    return response.content;
+  }
+
+  // Ask the model for a chapter summary without charging anyone
+  static async requestChapterSummary(
+    book: Book,
+    chapterTitle: string,
+    chapterContent?: string,
+    options: GenerationOptions = {}
+  ): Promise<AIResponse> {
     const prompt = `Please provide a concise summary of this chapter from "${book.title}" by ${book.author}:
 
 Chapter: ${chapterTitle}
@@ -192,7 +348,7 @@ Please include:
 - Themes and concepts introduced
 - Connection to the overall story
 
-Keep the summary under 300 words.`;
+Keep the summary under 300 words.${this.getLanguageInstruction(options.language)}`;
 
     const request: AIRequest = {
       messages: [
@@ -207,12 +363,12 @@ Keep the summary under 300 words.`;
       ],
       model: 'gemini-flash',
       temperature: 0.7,
-      max_tokens: 500
+      max_tokens: 500,
+      cache: { tags: [bookCacheTag(book.uuid)], bypass: options.bypassCache }
     };
 
     try {
-      const response = await askAI(request);
-      return response.content;
+      return await askAI(request);
     } catch (error) {
       console.error('Error generating chapter summary:', error);
       throw new Error('Failed to generate chapter summary');
@@ -230,7 +386,7 @@ Keep the summary under 300 words.`;
         role: ai_messages.role,
         content: ai_messages.content,
         created_at: ai_messages.created_at,
-        context: ai_messages.context
+        metadata: ai_messages.metadata
       })
       .from(ai_messages)
       .where(eq(ai_messages.conversation_uuid, conversationId))
@@ -242,7 +398,7 @@ Keep the summary under 300 words.`;
       role: msg.role as 'user' | 'assistant',
       content: msg.content,
       timestamp: msg.created_at?.toISOString() || new Date().toISOString(),
-      context: msg.context ? JSON.parse(msg.context) : undefined
+      context: msg.metadata || undefined
     }));
   }
 
@@ -253,11 +409,44 @@ Keep the summary under 300 words.`;
       .where(eq(ai_messages.conversation_uuid, conversationId));
   }
 
+  // Get the spoiler protection mode of the reader's conversation about a book
+  static async getSpoilerMode(userUuid: string, bookUuid: string): Promise<SpoilerMode> {
+    const [conversation] = await db
+      .select()
+      .from(ai_conversations)
+      .where(
+        and(
+          eq(ai_conversations.user_uuid, userUuid),
+          eq(ai_conversations.book_uuid, bookUuid)
+        )
+      )
+      .limit(1);
+
+    return conversation && isSpoilerMode(conversation.spoiler_mode)
+      ? conversation.spoiler_mode
+      : DEFAULT_SPOILER_MODE;
+  }
+
+  // Change the spoiler protection mode, starting the conversation if there is none yet
+  static async setSpoilerMode(userUuid: string, bookUuid: string, mode: SpoilerMode): Promise<SpoilerMode> {
+    const conversation = await this.getOrCreateConversation(userUuid, bookUuid);
+
+    await db
+      .update(ai_conversations)
+      .set({
+        spoiler_mode: mode,
+        updated_at: new Date()
+      })
+      .where(eq(ai_conversations.uuid, conversation.uuid));
+
+    return mode;
+  }
+
   // Private helper methods
   private static async getOrCreateConversation(
     userUuid: string,
     bookUuid: string
-  ): Promise<string> {
+  ): Promise<ConversationSettings> {
     // Check for existing conversation
     const [existingConv] = await db
       .select()
@@ -271,7 +460,10 @@ Keep the summary under 300 words.`;
       .limit(1);
 
     if (existingConv) {
-      return existingConv.uuid;
+      return {
+        uuid: existingConv.uuid,
+        spoilerMode: isSpoilerMode(existingConv.spoiler_mode) ? existingConv.spoiler_mode : DEFAULT_SPOILER_MODE
+      };
     }
 
     // Create new conversation
@@ -284,32 +476,67 @@ Keep the summary under 300 words.`;
         book_uuid: bookUuid,
         title: 'Reading Assistant Chat',
         status: 'active',
+        spoiler_mode: DEFAULT_SPOILER_MODE,
         created_at: new Date(),
         updated_at: new Date()
       })
       .returning();
 
-    return newConv.uuid;
+    return { uuid: newConv.uuid, spoilerMode: DEFAULT_SPOILER_MODE };
+  }
+
+  // Where the reader is, from the request or else the progress saved on their shelf
+  private static async resolveReadingPosition(
+    userUuid: string,
+    bookUuid: string,
+    context?: SimpleContext
+  ): Promise<ReadingPosition> {
+    const [book] = await db
+      .select()
+      .from(books)
+      .where(eq(books.uuid, bookUuid))
+      .limit(1);
+
+    let readingContext = context;
+    if (context?.currentPage === undefined && context?.readingProgress === undefined) {
+      const [item] = await db
+        .select()
+        .from(book_list_items)
+        .where(
+          and(
+            eq(book_list_items.user_uuid, userUuid),
+            eq(book_list_items.book_uuid, bookUuid)
+          )
+        )
+        .orderBy(desc(book_list_items.progress_percentage))
+        .limit(1);
+
+      if (item && item.progress_percentage !== null) {
+        readingContext = { ...context, readingProgress: item.progress_percentage };
+      }
+    }
+
+    return SpoilerGuard.resolvePosition(readingContext, book?.page_count);
   }
 
   private static async saveConversationMessage(
     conversationId: string,
+    userUuid: string,
     role: 'user' | 'assistant',
     content: string,
     context?: any
   ): Promise<void> {
-    await db.insert(ai_messages).values({
-      uuid: uuidv4(),
-      conversation_uuid: conversationId,
+    // The message context (reading position, spoiler check) is kept in the metadata column
+    await ConversationService.addMessage({
+      conversationUuid: conversationId,
+      userUuid,
       role,
       content,
-      context: context ? JSON.stringify(context) : undefined,
-      created_at: new Date(),
-      updated_at: new Date()
+      metadata: context || null
     });
   }
 
-  private static buildBookOverviewPrompt(book: Book): string {
+  private static buildBookOverviewPrompt(book: Book, language?: string): string {
     return `Please provide a comprehensive overview of the book "${book.title}" by ${book.author}.
 
 Book Details:
@@ -328,14 +555,29 @@ Please include:
 5. Important background context needed
 6. Estimated reading time and suggested approach
 
-Format the response as a helpful reading guide for someone about to start this book.`;
+Format the response as a helpful reading guide for someone about to start this book.${this.getLanguageInstruction(language)}`;
+  }
+
+  // Generated content is in English unless another language is asked for
+  private static getLanguageInstruction(language?: string): string {
+    if (!language || language.toLowerCase().startsWith('en')) {
+      return '';
+    }
+
+    let name = language;
+    try {
+      name = new Intl.DisplayNames(['en'], { type: 'language' }).of(language) || language;
+    } catch {
+      // Unknown codes are passed to the model as given
+    }
+    return `\n\nWrite the response in ${name}.`;
   }
 
   private static async buildContextualPrompt(
     bookUuid: string,
     question: string,
-    context?: ReadingAssistantContext,
-    history?: ConversationMessage[]
+    history?: ConversationMessage[],
+    passages: BookTextPassage[] = []
   ): string {
     // Get book details
     const [bookItem] = await db
@@ -357,18 +599,15 @@ Format the response as a helpful reading guide for someone about to start this b
       throw new Error('Book not found');
     }
 
+    // Where the reader is and what they may be told is part of the system prompt
     let prompt = `I'm reading "${bookItem.book.title}" by ${bookItem.book.author}.`;
 
-    if (context) {
-      if (context.currentChapter) {
-        prompt += ` I'm currently in the chapter: "${context.currentChapter}".`;
-      }
-      if (context.currentPage && bookItem.book.page_count) {
-        prompt += ` I'm on page ${context.currentPage} of ${bookItem.book.page_count}.`;
-      }
-      if (context.readingProgress) {
-        prompt += ` I'm ${Math.round(context.readingProgress)}% through the book.`;
-      }
+    if (passages.length > 0) {
+      prompt += `\n\nPassages from my copy of the book:\n`;
+      passages.forEach((passage, index) => {
+        prompt += `\n[${index + 1}] (${this.formatPassageLocation(passage)})\n${passage.content}\n`;
+      });
+      prompt += `\nBase your answer on these passages where they are relevant and cite them inline as [1], [2], etc. If they do not cover my question, say so instead of guessing.`;
     }
 
     prompt += `\n\nMy question: ${question}`;
@@ -376,15 +615,68 @@ Format the response as a helpful reading guide for someone about to start this b
     return prompt;
   }
 
-  private static getSystemPrompt(): string {
+  // Passages from the reader's uploaded text, limited to their current position unless
+  // spoiler protection is off; retrieval problems fall back to answering from book metadata alone
+  private static async findPassages(
+    userUuid: string,
+    bookUuid: string,
+    question: string,
+    spoilerMode: SpoilerMode,
+    position: ReadingPosition
+  ): Promise<BookTextPassage[]> {
+    const limits = SpoilerGuard.getPassageLimits(spoilerMode, position);
+    if (!limits) {
+      return [];
+    }
+
+    try {
+      return await BookTextIndexService.searchPassages(userUuid, bookUuid, question, limits);
+    } catch (error) {
+      console.warn('Book text retrieval failed, answering without passages:', error);
+      return [];
+    }
+  }
+
+  private static formatPassageLocation(passage: BookTextPassage): string {
+    const pages = passage.page_start === passage.page_end
+      ? `p. ${passage.page_start}`
+      : `pp. ${passage.page_start}-${passage.page_end}`;
+    return passage.chapter ? `${pages}, ${passage.chapter}` : pages;
+  }
+
+  // Passages referenced as [n] in the answer, in citation order
+  private static extractCitations(content: string, passages: BookTextPassage[]): BookTextCitation[] {
+    const cited = new Set<number>();
+    const citationPattern = /\[(\d+)\]/g;
+    let match;
+
+    while ((match = citationPattern.exec(content)) !== null) {
+      const number = parseInt(match[1], 10);
+      if (number >= 1 && number <= passages.length) {
+        cited.add(number);
+      }
+    }
+
+    return Array.from(cited).map(number => {
+      const passage = passages[number - 1];
+      return {
+        number,
+        page_start: passage.page_start,
+        page_end: passage.page_end,
+        chapter: passage.chapter,
+        excerpt: passage.content.length > 280 ? `${passage.content.slice(0, 277)}...` : passage.content
+      };
+    });
+  }
+
+  private static getSystemPrompt(spoilerMode: SpoilerMode, position: ReadingPosition): string {
     return `You are an AI reading assistant specialized in helping readers understand and engage with books more deeply. Your role is to:
 
 1. Answer questions about books, characters, themes, and plot points
 2. Provide context and explanations for difficult passages
 3. Help readers connect concepts and ideas
-4. Offer insights without major spoilers (unless specifically requested)
-5. Adapt your explanation style to the reader's level of understanding
-6. Encourage deeper thinking and analysis
+4. Adapt your explanation style to the reader's level of understanding
+5. Encourage deeper thinking and analysis
 
 Guidelines:
 - Be helpful, knowledgeable, and encouraging
@@ -392,10 +684,11 @@ Guidelines:
 - Ask clarifying questions if needed
 - Suggest related concepts or themes
 - Keep responses focused and concise
-- Avoid major spoilers unless the reader explicitly asks for them
 - If you're unsure about specific details, acknowledge this rather than guessing
 
-Respond in a conversational, supportive tone that makes reading more enjoyable and educational.`;
+Respond in a conversational, supportive tone that makes reading more enjoyable and educational.
+
+Spoilers: ${SpoilerGuard.buildInstructions(spoilerMode, position)}`;
   }
 
   private static extractSuggestions(content: string): string[] {
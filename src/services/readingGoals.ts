@@ -0,0 +1,306 @@
+import { database as db } from "@/db";
+import { reading_goals, reading_sessions, book_list_items } from "@/db/schema";
+import { ReadingGoal, ReadingGoalProgress, ReadingGoalType } from "@/types/book";
+import { eq, and, sql } from "drizzle-orm";
+import { v4 as uuidv4 } from "uuid";
+import { ReadingStreakService } from "./readingStreaks";
+import { DEFAULT_TIMEZONE, addDays, startOfLocalDay, toLocalDate } from "@/lib/readingDays";
+
+export const READING_GOAL_TYPES: ReadingGoalType[] = [
+  "books_per_year",
+  "pages_per_month",
+  "minutes_per_day"
+];
+
+// Singular and plural unit names used in pace messages
+const GOAL_UNITS: Record<ReadingGoalType, [string, string]> = {
+  books_per_year: ["book", "books"],
+  pages_per_month: ["page", "pages"],
+  minutes_per_day: ["minute", "minutes"]
+};
+
+// Goals that a single reading session contributes to directly
+const SESSION_GOAL_TYPES: ReadingGoalType[] = ["pages_per_month", "minutes_per_day"];
+
+export class ReadingGoalService {
+  // Get the user's active goals
+  static async getUserGoals(userUuid: string): Promise<ReadingGoal[]> {
+    const goals = await db
+      .select()
+      .from(reading_goals)
+      .where(
+        and(
+          eq(reading_goals.user_uuid, userUuid),
+          eq(reading_goals.is_active, true)
+        )
+      );
+
+    // Goals of a type this version no longer tracks are left out
+    return goals.flatMap(goal => {
+      const goalType = READING_GOAL_TYPES.find(type => type === goal.goal_type);
+      return goalType ? [this.toReadingGoal(goal, goalType)] : [];
+    });
+  }
+
+  // Create or replace the user's goal of the given type
+  static async setGoal(
+    userUuid: string,
+    goalType: ReadingGoalType,
+    targetValue: number
+  ): Promise<ReadingGoal> {
+    const now = new Date();
+
+    const [existing] = await db
+      .select()
+      .from(reading_goals)
+      .where(
+        and(
+          eq(reading_goals.user_uuid, userUuid),
+          eq(reading_goals.goal_type, goalType)
+        )
+      )
+      .limit(1);
+
+    if (existing) {
+      const [goal] = await db
+        .update(reading_goals)
+        .set({
+          target_value: targetValue,
+          is_active: true,
+          updated_at: now
+        })
+        .where(eq(reading_goals.uuid, existing.uuid))
+        .returning();
+
+      return this.toReadingGoal(goal, goalType);
+    }
+
+    const [goal] = await db.insert(reading_goals).values({
+      uuid: uuidv4(),
+      user_uuid: userUuid,
+      goal_type: goalType,
+      target_value: targetValue,
+      is_active: true,
+      created_at: now,
+      updated_at: now
+    }).returning();
+
+    return this.toReadingGoal(goal, goalType);
+  }
+
+  // Delete a goal
+  static async deleteGoal(userUuid: string, goalUuid: string): Promise<void> {
+    const [goal] = await db
+      .delete(reading_goals)
+      .where(
+        and(
+          eq(reading_goals.uuid, goalUuid),
+          eq(reading_goals.user_uuid, userUuid)
+        )
+      )
+      .returning();
+
+    if (!goal) {
+      throw new Error("Goal not found");
+    }
+  }
+
+  // Get progress and pace for each of the user's active goals
+  static async getGoalProgress(
+    userUuid: string,
+    now: Date = new Date()
+  ): Promise<ReadingGoalProgress[]> {
+    const goals = await this.getUserGoals(userUuid);
+    const timeZone = await ReadingStreakService.getUserTimezone(userUuid);
+    return Promise.all(goals.map(goal => this.calculateGoalProgress(userUuid, goal, now, timeZone)));
+  }
+
+  // Calculate how far along a goal is for the period containing `now`, in the user's timezone
+  static async calculateGoalProgress(
+    userUuid: string,
+    goal: ReadingGoal,
+    now: Date = new Date(),
+    timeZone?: string
+  ): Promise<ReadingGoalProgress> {
+    const { start, end } = this.getGoalPeriod(
+      goal.goal_type,
+      now,
+      timeZone || await ReadingStreakService.getUserTimezone(userUuid)
+    );
+    const currentValue = await this.getCurrentValue(userUuid, goal.goal_type, start, end);
+
+    return this.evaluateProgress(goal, currentValue, start, end, now);
+  }
+
+  // Work out expected position, projection and pace from the current value
+  static evaluateProgress(
+    goal: ReadingGoal,
+    currentValue: number,
+    start: Date,
+    end: Date,
+    now: Date
+  ): ReadingGoalProgress {
+    const target = goal.target_value;
+    const elapsed = Math.min(1, Math.max(0, (now.getTime() - start.getTime()) / (end.getTime() - start.getTime())));
+
+    // A day is too short to pace against, so daily goals are measured against the full target
+    const expectedValue = goal.goal_type === "minutes_per_day" ? target : target * elapsed;
+    const projectedValue = elapsed > 0 ? Math.round(currentValue / elapsed) : currentValue;
+    const difference = Math.round(currentValue - expectedValue);
+
+    let status: ReadingGoalProgress['status'];
+    if (currentValue >= target) {
+      status = "completed";
+    } else if (difference > 0) {
+      status = "ahead";
+    } else if (difference < 0) {
+      status = "behind";
+    } else {
+      status = "on_track";
+    }
+
+    return {
+      goal,
+      period_start: start.toISOString(),
+      period_end: end.toISOString(),
+      current_value: currentValue,
+      expected_value: Math.round(expectedValue),
+      projected_value: projectedValue,
+      percentage: target > 0 ? Math.min(100, Math.round((currentValue / target) * 100)) : 0,
+      difference,
+      status,
+      pace_message: this.describePace(goal.goal_type, status, difference, target - currentValue)
+    };
+  }
+
+  // Human readable pace, e.g. "3 books behind schedule"
+  static describePace(
+    goalType: ReadingGoalType,
+    status: ReadingGoalProgress['status'],
+    difference: number,
+    remaining: number
+  ): string {
+    const formatCount = (count: number) => {
+      const [singular, plural] = GOAL_UNITS[goalType];
+      return `${count} ${count === 1 ? singular : plural}`;
+    };
+
+    if (status === "completed") {
+      return "Goal reached";
+    }
+    if (goalType === "minutes_per_day") {
+      return `${formatCount(remaining)} to go today`;
+    }
+    if (status === "ahead") {
+      return `${formatCount(difference)} ahead of schedule`;
+    }
+    if (status === "behind") {
+      return `${formatCount(Math.abs(difference))} behind schedule`;
+    }
+    return "On track";
+  }
+
+  // Start and end of the goal period containing `now`; periods begin at local midnight
+  static getGoalPeriod(
+    goalType: ReadingGoalType,
+    now: Date,
+    timeZone: string = DEFAULT_TIMEZONE
+  ): { start: Date; end: Date } {
+    const today = toLocalDate(now, timeZone);
+    const year = Number(today.slice(0, 4));
+    const month = Number(today.slice(5, 7));
+
+    switch (goalType) {
+      case "books_per_year":
+        return {
+          start: startOfLocalDay(`${year}-01-01`, timeZone),
+          end: startOfLocalDay(`${year + 1}-01-01`, timeZone)
+        };
+      case "pages_per_month": {
+        const nextMonth = new Date(Date.UTC(year, month, 1)).toISOString().slice(0, 10);
+        return {
+          start: startOfLocalDay(`${today.slice(0, 7)}-01`, timeZone),
+          end: startOfLocalDay(nextMonth, timeZone)
+        };
+      }
+      case "minutes_per_day":
+        return {
+          start: startOfLocalDay(today, timeZone),
+          end: startOfLocalDay(addDays(today, 1), timeZone)
+        };
+    }
+  }
+
+  // Whether the user's session-level goals are met or on pace as of `at`.
+  // Yearly book goals only move when a book is finished, so they are not considered here.
+  static async isSessionGoalMet(userUuid: string, at: Date = new Date()): Promise<boolean> {
+    const goals = (await this.getUserGoals(userUuid))
+      .filter(goal => SESSION_GOAL_TYPES.includes(goal.goal_type));
+
+    if (goals.length === 0) return false;
+
+    const timeZone = await ReadingStreakService.getUserTimezone(userUuid);
+    const progress = await Promise.all(
+      goals.map(goal => this.calculateGoalProgress(userUuid, goal, at, timeZone))
+    );
+
+    return progress.every(p => p.status !== "behind");
+  }
+
+  private static async getCurrentValue(
+    userUuid: string,
+    goalType: ReadingGoalType,
+    start: Date,
+    end: Date
+  ): Promise<number> {
+    if (goalType === "books_per_year") {
+      const [result] = await db
+        .select({
+          count: sql<number>`count(distinct ${book_list_items.book_uuid})`
+        })
+        .from(book_list_items)
+        .where(
+          and(
+            eq(book_list_items.user_uuid, userUuid),
+            eq(book_list_items.reading_status, "read"),
+            sql`${book_list_items.date_completed} >= ${start.toISOString()}`,
+            sql`${book_list_items.date_completed} < ${end.toISOString()}`
+          )
+        );
+
+      return Number(result?.count) || 0;
+    }
+
+    const column = goalType === "pages_per_month"
+      ? reading_sessions.pages_read
+      : reading_sessions.reading_duration_minutes;
+
+    const [result] = await db
+      .select({
+        total: sql<number>`coalesce(sum(${column}), 0)`
+      })
+      .from(reading_sessions)
+      .where(
+        and(
+          eq(reading_sessions.user_uuid, userUuid),
+          sql`${reading_sessions.session_start} >= ${start.toISOString()}`,
+          sql`${reading_sessions.session_start} < ${end.toISOString()}`
+        )
+      );
+
+    return Number(result?.total) || 0;
+  }
+
+  private static toReadingGoal(row: typeof reading_goals.$inferSelect, goalType: ReadingGoalType): ReadingGoal {
+    return {
+      id: row.id,
+      uuid: row.uuid,
+      user_uuid: row.user_uuid,
+      goal_type: goalType,
+      target_value: row.target_value,
+      is_active: row.is_active,
+      created_at: row.created_at?.toISOString(),
+      updated_at: row.updated_at?.toISOString()
+    };
+  }
+}
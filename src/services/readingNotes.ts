@@ -0,0 +1,206 @@
+import { database as db } from "@/db";
+import { reading_notes, reading_sessions } from "@/db/schema";
+import { ReadingNoteFormData, ReadingNoteFilters, ReadingNoteUpdateData } from "@/types/book";
+import { eq, and, asc, desc, gte, lte, sql, SQL } from "drizzle-orm";
+import { v4 as uuidv4 } from "uuid";
+import { BooksService } from "./books";
+
+export class ReadingNotesService {
+  // Create a highlight, note, bookmark or quote for a book
+  static async createNote(
+    userUuid: string,
+    bookUuid: string,
+    noteData: ReadingNoteFormData
+  ): Promise<typeof reading_notes.$inferSelect> {
+    if (!(await BooksService.isBookInLibrary(userUuid, bookUuid))) {
+      throw new Error("Book not in library");
+    }
+    if (noteData.session_uuid) {
+      await this.assertSessionBelongsToBook(userUuid, bookUuid, noteData.session_uuid);
+    }
+
+    const now = new Date();
+
+    const [note] = await db.insert(reading_notes).values({
+      uuid: uuidv4(),
+      user_uuid: userUuid,
+      book_uuid: bookUuid,
+      session_uuid: noteData.session_uuid,
+      note_type: noteData.note_type,
+      content: noteData.content,
+      context: noteData.context,
+      page_number: noteData.page_number,
+      chapter: noteData.chapter,
+      position_start: noteData.position_start,
+      position_end: noteData.position_end,
+      color: noteData.color,
+      is_private: noteData.is_private ?? true,
+      is_favorite: noteData.is_favorite ?? false,
+      tags: this.serializeTags(noteData.tags),
+      created_at: now,
+      updated_at: now
+    }).returning();
+
+    return note;
+  }
+
+  // Get notes for a book, optionally filtered
+  static async getBookNotes(
+    userUuid: string,
+    bookUuid: string,
+    filters: ReadingNoteFilters = {}
+  ): Promise<(typeof reading_notes.$inferSelect)[]> {
+    const conditions: SQL[] = [
+      eq(reading_notes.user_uuid, userUuid),
+      eq(reading_notes.book_uuid, bookUuid)
+    ];
+
+    if (filters.note_type) {
+      conditions.push(eq(reading_notes.note_type, filters.note_type));
+    }
+    if (filters.chapter) {
+      conditions.push(eq(reading_notes.chapter, filters.chapter));
+    }
+    if (filters.tag) {
+      // Tags are stored as a JSON array; containment matches whole tags only
+      conditions.push(sql`${reading_notes.tags}::jsonb @> ${JSON.stringify([filters.tag])}::jsonb`);
+    }
+    if (filters.is_favorite !== undefined) {
+      conditions.push(eq(reading_notes.is_favorite, filters.is_favorite));
+    }
+    if (filters.session_uuid) {
+      conditions.push(eq(reading_notes.session_uuid, filters.session_uuid));
+    }
+    if (filters.page_from !== undefined) {
+      conditions.push(gte(reading_notes.page_number, filters.page_from));
+    }
+    if (filters.page_to !== undefined) {
+      conditions.push(lte(reading_notes.page_number, filters.page_to));
+    }
+
+    const notes = await db
+      .select()
+      .from(reading_notes)
+      .where(and(...conditions))
+      .orderBy(asc(reading_notes.page_number), desc(reading_notes.created_at));
+
+    return notes;
+  }
+
+  // Get a single note owned by the user
+  static async getNote(userUuid: string, noteUuid: string): Promise<typeof reading_notes.$inferSelect | null> {
+    const [note] = await db
+      .select()
+      .from(reading_notes)
+      .where(
+        and(
+          eq(reading_notes.uuid, noteUuid),
+          eq(reading_notes.user_uuid, userUuid)
+        )
+      )
+      .limit(1);
+
+    return note || null;
+  }
+
+  // Update a note of the given book
+  static async updateNote(
+    userUuid: string,
+    bookUuid: string,
+    noteUuid: string,
+    noteData: ReadingNoteUpdateData
+  ): Promise<typeof reading_notes.$inferSelect> {
+    const existing = await this.getNote(userUuid, noteUuid);
+    if (!existing || existing.book_uuid !== bookUuid) {
+      throw new Error("Note not found");
+    }
+
+    // A change to one end of a highlight is checked against the other end as stored
+    const positionStart = noteData.position_start !== undefined ? noteData.position_start : existing.position_start;
+    const positionEnd = noteData.position_end !== undefined ? noteData.position_end : existing.position_end;
+    if (positionStart != null && positionEnd != null && positionEnd < positionStart) {
+      throw new Error("Invalid position range");
+    }
+
+    if (noteData.session_uuid) {
+      await this.assertSessionBelongsToBook(userUuid, existing.book_uuid, noteData.session_uuid);
+    }
+
+    const { tags, ...fields } = noteData;
+
+    const [note] = await db
+      .update(reading_notes)
+      .set({
+        ...fields,
+        tags: tags !== undefined ? this.serializeTags(tags) : undefined,
+        updated_at: new Date()
+      })
+      .where(
+        and(
+          eq(reading_notes.uuid, noteUuid),
+          eq(reading_notes.user_uuid, userUuid)
+        )
+      )
+      .returning();
+
+    return note;
+  }
+
+  // Delete a note of the given book
+  static async deleteNote(userUuid: string, bookUuid: string, noteUuid: string): Promise<void> {
+    const existing = await this.getNote(userUuid, noteUuid);
+    if (!existing || existing.book_uuid !== bookUuid) {
+      throw new Error("Note not found");
+    }
+
+    await db
+      .delete(reading_notes)
+      .where(
+        and(
+          eq(reading_notes.uuid, noteUuid),
+          eq(reading_notes.user_uuid, userUuid)
+        )
+      );
+  }
+
+  // Parse the JSON tags column into an array
+  static parseTags(tags?: string | null): string[] {
+    if (!tags) return [];
+
+    try {
+      const parsed = JSON.parse(tags);
+      return Array.isArray(parsed) ? parsed.map(String) : [];
+    } catch {
+      return [];
+    }
+  }
+
+  private static serializeTags(tags?: string[] | null): string | null {
+    if (!tags || tags.length === 0) return null;
+
+    const normalized = Array.from(new Set(tags.map(tag => tag.trim()).filter(Boolean)));
+    return normalized.length > 0 ? JSON.stringify(normalized) : null;
+  }
+
+  private static async assertSessionBelongsToBook(
+    userUuid: string,
+    bookUuid: string,
+    sessionUuid: string
+  ): Promise<void> {
+    const [session] = await db
+      .select()
+      .from(reading_sessions)
+      .where(
+        and(
+          eq(reading_sessions.uuid, sessionUuid),
+          eq(reading_sessions.user_uuid, userUuid),
+          eq(reading_sessions.book_uuid, bookUuid)
+        )
+      )
+      .limit(1);
+
+    if (!session) {
+      throw new Error("Session not found");
+    }
+  }
+}
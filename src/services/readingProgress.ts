@@ -1,8 +1,103 @@
 import { database as db } from "@/db";
 import { reading_sessions, book_list_items, books } from "@/db/schema";
-import { ReadingSession, ReadingProgress } from "@/types/book";
-import { eq, and, desc, sql, between } from "drizzle-orm";
+import { ReadingSession, ReadingProgress, ReadingAnalytics, ReadingSeriesGranularity } from "@/types/book";
+import { eq, and, or, ne, lt, gt, gte, asc, desc, sql, between, inArray, isNull, isNotNull } from "drizzle-orm";
 import { v4 as uuidv4 } from "uuid";
+import { ReadingGoalService } from "./readingGoals";
+import { ReadingStatus, ReadingStatusService, SESSION_START_STATUSES, normalizeReadingStatus } from "./readingStatus";
+import { ReadingStreakService } from "./readingStreaks";
+import { getActiveReadingSeconds } from "@/lib/readingSession";
+import { addDays, startOfLocalDay, toLocalDate } from "@/lib/readingDays";
+import { AnalyticsSession, MAX_ANALYTICS_DAYS, buildReadingAnalytics, countDays } from "@/lib/readingAnalytics";
+
+// Minutes without any sign of reading after which an active session is paused (0 disables)
+function getSessionIdleMinutes(): number {
+  const minutes = parseInt(process.env.READING_SESSION_IDLE_MINUTES || "30");
+  return isNaN(minutes) ? 30 : minutes;
+}
+
+// A session logged after the fact, e.g. reading done on paper away from the app
+export interface PastSessionInput {
+  book_uuid: string;
+  session_start: Date;
+  // either the end time or the minutes read from session_start
+  session_end?: Date;
+  duration_minutes?: number;
+  start_page?: number;
+  end_page?: number;
+  // when no page range is known
+  pages_read?: number;
+  notes?: string;
+  mood?: string;
+  location?: string;
+}
+
+export type PastSessionChanges = Partial<Omit<PastSessionInput, "book_uuid">>;
+
+// thrown for a logged session that cannot have happened, mapped to HTTP 400 by routes
+export class InvalidSessionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "InvalidSessionError";
+  }
+}
+
+// thrown when a logged session overlaps another session of the user, mapped to HTTP 409 by routes
+export class SessionOverlapError extends Error {
+  constructor(public readonly conflicting: ReadingSession) {
+    super("Session overlaps another reading session");
+    this.name = "SessionOverlapError";
+  }
+}
+
+// thrown for an analytics date range that is reversed or too long, mapped to HTTP 400 by routes
+export class AnalyticsRangeError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "AnalyticsRangeError";
+  }
+}
+
+// Times, duration and pages of a logged session, validated
+function resolvePastSession(input: Omit<PastSessionInput, "book_uuid">, now: Date = new Date()) {
+  const start = input.session_start;
+  const end = input.session_end
+    || (input.duration_minutes !== undefined ? new Date(start.getTime() + input.duration_minutes * 60000) : null);
+
+  if (!end) {
+    throw new InvalidSessionError("Give an end time or the minutes read");
+  }
+  if (end.getTime() <= start.getTime()) {
+    throw new InvalidSessionError("Session must end after it starts");
+  }
+  if (end.getTime() > now.getTime()) {
+    throw new InvalidSessionError("Session cannot end in the future");
+  }
+
+  // Minutes read may be less than the time between start and end, never more
+  const windowMinutes = Math.round((end.getTime() - start.getTime()) / 60000);
+  const durationMinutes = input.duration_minutes ?? windowMinutes;
+  if (durationMinutes > windowMinutes) {
+    throw new InvalidSessionError("Minutes read do not fit between start and end");
+  }
+
+  let pagesRead = input.pages_read || 0;
+  if (input.start_page && input.end_page) {
+    if (input.end_page < input.start_page) {
+      throw new InvalidSessionError("End page must not be before start page");
+    }
+    pagesRead = input.end_page - input.start_page + 1;
+  }
+
+  return {
+    session_start: start,
+    session_end: end,
+    reading_duration_minutes: durationMinutes,
+    start_page: input.start_page ?? null,
+    end_page: input.end_page ?? null,
+    pages_read: pagesRead
+  };
+}
 
 export class ReadingProgressService {
   // Start a new reading session
@@ -15,6 +110,28 @@ export class ReadingProgressService {
     const sessionUuid = uuidv4();
     const now = new Date();
 
+    const [item] = await db
+      .select()
+      .from(book_list_items)
+      .where(
+        and(
+          eq(book_list_items.user_uuid, userUuid),
+          eq(book_list_items.book_uuid, bookUuid)
+        )
+      )
+      .limit(1);
+
+    if (!item) {
+      throw new Error("Book not in library");
+    }
+
+    // Starting a session marks an unstarted or paused book as being read; a re-read of a
+    // finished book is an explicit status change, not a side effect of opening the timer
+    const status = normalizeReadingStatus(item.reading_status) || "want_to_read";
+    if (SESSION_START_STATUSES.includes(status)) {
+      await ReadingStatusService.transition(userUuid, bookUuid, "currently_reading", { at: now });
+    }
+
     const [session] = await db.insert(reading_sessions).values({
       uuid: sessionUuid,
       user_uuid: userUuid,
@@ -25,13 +142,12 @@ export class ReadingProgressService {
       pages_read: 0,
       reading_goal_met: false,
       status: "active",
+      pause_intervals: [],
+      last_activity_at: now,
       created_at: now,
       updated_at: now
     }).returning();
 
-    // Update book status to currently_reading if not already
-    await this.updateBookReadingStatus(userUuid, bookUuid, "currently_reading");
-
     return session as ReadingSession;
   }
 
@@ -46,37 +162,34 @@ export class ReadingProgressService {
     const now = new Date();
 
     // Get the session to calculate duration and pages read
-    const [session] = await db
-      .select()
-      .from(reading_sessions)
-      .where(
-        and(
-          eq(reading_sessions.uuid, sessionUuid),
-          eq(reading_sessions.user_uuid, userUuid)
-        )
-      )
-      .limit(1);
+    const session = await this.getUserSession(userUuid, sessionUuid, now);
 
-    if (!session) {
-      throw new Error("Session not found");
-    }
+    // A pause still open when the session ends lasts until the end
+    const pauseIntervals = (session.pause_intervals || []).map(pause =>
+      pause.ended_at ? pause : { ...pause, ended_at: now.toISOString() }
+    );
 
-    // Calculate reading duration in minutes
-    const durationMs = now.getTime() - new Date(session.session_start).getTime();
-    const durationMinutes = Math.round(durationMs / 60000);
+    // Calculate reading duration in minutes, counting active time only
+    const activeSeconds = getActiveReadingSeconds({
+      session_start: session.session_start,
+      session_end: now.toISOString(),
+      pause_intervals: pauseIntervals
+    });
+    const durationMinutes = Math.round(activeSeconds / 60);
 
     // Calculate pages read
     const pagesRead = endPage && session.start_page 
       ? Math.max(0, endPage - session.start_page + 1)
       : session.pages_read;
 
-    const [updatedSession] = await db
+    let [updatedSession] = await db
       .update(reading_sessions)
       .set({
         session_end: now,
         end_page: endPage,
         pages_read: pagesRead,
         reading_duration_minutes: durationMinutes,
+        pause_intervals: pauseIntervals,
         notes,
         mood,
         status: "completed",
@@ -88,6 +201,16 @@ export class ReadingProgressService {
     // Update book progress
     await this.updateBookProgress(userUuid, session.book_uuid);
 
+    // Flag the session once its pages and minutes are counted towards the user's goals
+    const goalMet = await ReadingGoalService.isSessionGoalMet(userUuid, now);
+    if (goalMet) {
+      [updatedSession] = await db
+        .update(reading_sessions)
+        .set({ reading_goal_met: true })
+        .where(eq(reading_sessions.uuid, sessionUuid))
+        .returning();
+    }
+
     return updatedSession as ReadingSession;
   }
 
@@ -102,46 +225,44 @@ export class ReadingProgressService {
 
     if (!book) return;
 
-    // Get the latest session for this book
+    // Get the latest session for this book that recorded where the reader stopped;
+    // logged sessions may only have minutes, and may be older than the latest one
     const [latestSession] = await db
       .select()
       .from(reading_sessions)
       .where(
         and(
           eq(reading_sessions.user_uuid, userUuid),
-          eq(reading_sessions.book_uuid, bookUuid)
+          eq(reading_sessions.book_uuid, bookUuid),
+          isNotNull(reading_sessions.end_page)
         )
       )
       .orderBy(desc(reading_sessions.session_start))
       .limit(1);
 
-    if (!latestSession || !latestSession.end_page) return;
+    // Without a page to go by, progress set by hand or by earlier sessions stays as it is
+    if (!latestSession || !latestSession.end_page || !book.page_count) return;
 
     // Calculate progress percentage
-    const progressPercentage = book.page_count 
-      ? Math.min(100, Math.round((latestSession.end_page / book.page_count) * 100))
-      : 0;
+    const progressPercentage = Math.min(100, Math.round((latestSession.end_page / book.page_count) * 100));
 
-    // Determine reading status
-    let readingStatus = "currently_reading";
-    if (progressPercentage >= 100) {
-      readingStatus = "read";
-    }
-
-    // Update book list item
-    await db
+    // Update book list item; a finished book stays at 100% when sessions are timed against it
+    const items = await db
       .update(book_list_items)
-      .set({
-        progress_percentage: progressPercentage,
-        reading_status: readingStatus as any,
-        date_completed: readingStatus === "read" ? new Date() : undefined
-      })
+      .set({ progress_percentage: progressPercentage })
       .where(
         and(
           eq(book_list_items.user_uuid, userUuid),
-          eq(book_list_items.book_uuid, bookUuid)
+          eq(book_list_items.book_uuid, bookUuid),
+          or(isNull(book_list_items.reading_status), ne(book_list_items.reading_status, "read"))
         )
-      );
+      )
+      .returning();
+
+    // Finishing the last page completes the book and moves it to the Read shelf
+    if (progressPercentage >= 100 && items.length > 0) {
+      await ReadingStatusService.transition(userUuid, bookUuid, "read");
+    }
   }
 
   // Manual progress update
@@ -150,29 +271,22 @@ export class ReadingProgressService {
     bookUuid: string,
     currentPage: number,
     totalPages?: number,
-    readingStatus?: string
+    readingStatus?: ReadingStatus
   ): Promise<void> {
     const progressPercentage = totalPages 
       ? Math.min(100, Math.round((currentPage / totalPages) * 100))
       : 0;
 
-    const updateData: any = {
-      progress_percentage: progressPercentage
-    };
-
     if (readingStatus) {
-      updateData.reading_status = readingStatus;
-      
-      if (readingStatus === "read") {
-        updateData.date_completed = new Date();
-      } else if (readingStatus === "currently_reading" && !updateData.date_started) {
-        updateData.date_started = new Date();
-      }
+      await ReadingStatusService.transition(userUuid, bookUuid, readingStatus);
     }
 
+    // A finished book stays at 100%
+    if (readingStatus === "read") return;
+
     await db
       .update(book_list_items)
-      .set(updateData)
+      .set({ progress_percentage: progressPercentage })
       .where(
         and(
           eq(book_list_items.user_uuid, userUuid),
@@ -200,24 +314,25 @@ export class ReadingProgressService {
     return sessions as ReadingSession[];
   }
 
-  // Get user's reading statistics
+  // Get user's reading statistics; periods and days follow the user's timezone
   static async getUserReadingStats(userUuid: string, timeframe: string = "month") {
-    let dateFilter;
     const now = new Date();
-    
+    const timezone = await ReadingStreakService.getUserTimezone(userUuid);
+    const today = toLocalDate(now, timezone);
+
+    let firstDay;
     switch (timeframe) {
       case "week":
-        dateFilter = new Date(now.getTime() - 7 * 24 * 60 * 60 * 1000);
-        break;
-      case "month":
-        dateFilter = new Date(now.getFullYear(), now.getMonth(), 1);
+        firstDay = addDays(today, -6);
         break;
       case "year":
-        dateFilter = new Date(now.getFullYear(), 0, 1);
+        firstDay = `${today.slice(0, 4)}-01-01`;
         break;
+      case "month":
       default:
-        dateFilter = new Date(now.getFullYear(), now.getMonth(), 1);
+        firstDay = `${today.slice(0, 7)}-01`;
     }
+    const dateFilter = startOfLocalDay(firstDay, timezone);
 
     // Get session statistics
     const [sessionStats] = await db
@@ -235,96 +350,181 @@ export class ReadingProgressService {
         )
       );
 
-    // Get reading streak
-    const readingStreak = await this.calculateReadingStreak(userUuid);
+    // Pages per local day over the timeframe
+    const dailyTotals = await ReadingStreakService.getDailyTotals(userUuid, timezone, dateFilter);
+
+    // Get reading streaks
+    const streaks = await ReadingStreakService.getStreaks(userUuid, now);
+
+    // Get goal progress for the current periods
+    const goals = await ReadingGoalService.getGoalProgress(userUuid, now);
 
     return {
       total_sessions: sessionStats.total_sessions || 0,
       total_reading_time_hours: Math.round((sessionStats.total_reading_time || 0) / 60 * 10) / 10,
       total_pages_read: sessionStats.total_pages_read || 0,
       average_session_minutes: Math.round(sessionStats.avg_session_length || 0),
-      reading_streak_days: readingStreak,
+      reading_days: dailyTotals.length,
+      average_pages_per_day: dailyTotals.length > 0
+        ? Math.round(dailyTotals.reduce((sum, day) => sum + day.pages_read, 0) / dailyTotals.length)
+        : 0,
+      daily_totals: dailyTotals,
+      reading_streak_days: streaks.current_streak_days,
+      longest_streak_days: streaks.longest_streak_days,
+      streak_freezes_left: streaks.freezes_left_this_month,
+      timezone,
+      goals,
       timeframe
     };
   }
 
-  // Calculate reading streak
-  static async calculateReadingStreak(userUuid: string): Promise<number> {
-    // Get distinct reading dates in descending order
-    const readingDates = await db
-      .select({
-        date: sql<string>`DATE(${reading_sessions.session_start})`.as('reading_date')
-      })
-      .from(reading_sessions)
-      .where(eq(reading_sessions.user_uuid, userUuid))
-      .groupBy(sql`DATE(${reading_sessions.session_start})`)
-      .orderBy(sql`DATE(${reading_sessions.session_start}) DESC`)
-      .limit(100); // Limit to avoid performance issues
-
-    if (readingDates.length === 0) return 0;
-
-    let streak = 0;
-    const today = new Date().toISOString().split('T')[0];
-    const yesterday = new Date(Date.now() - 86400000).toISOString().split('T')[0];
-
-    // Start from today or yesterday
-    let expectedDate = readingDates[0].date === today ? today : yesterday;
-    
-    for (const { date } of readingDates) {
-      if (date === expectedDate) {
-        streak++;
-        // Move to previous day
-        const prevDay = new Date(expectedDate);
-        prevDay.setDate(prevDay.getDate() - 1);
-        expectedDate = prevDay.toISOString().split('T')[0];
-      } else {
-        break;
-      }
+  // Pages and minutes over time, heatmap and breakdowns for local dates from..to (last 90 days by default)
+  static async getReadingAnalytics(
+    userUuid: string,
+    granularity: ReadingSeriesGranularity = "day",
+    from?: string,
+    to?: string
+  ): Promise<ReadingAnalytics> {
+    const timezone = await ReadingStreakService.getUserTimezone(userUuid);
+    const lastDay = to || toLocalDate(new Date(), timezone);
+    const firstDay = from || addDays(lastDay, -89);
+
+    if (firstDay > lastDay) {
+      throw new AnalyticsRangeError("The range must start before it ends");
+    }
+    if (countDays(firstDay, lastDay) > MAX_ANALYTICS_DAYS) {
+      throw new AnalyticsRangeError(`The range can cover at most ${MAX_ANALYTICS_DAYS} days`);
     }
 
-    return streak;
-  }
+    const rows = await db
+      .select()
+      .from(reading_sessions)
+      .leftJoin(books, eq(reading_sessions.book_uuid, books.uuid))
+      .where(
+        and(
+          eq(reading_sessions.user_uuid, userUuid),
+          gte(reading_sessions.session_start, startOfLocalDay(firstDay, timezone)),
+          lt(reading_sessions.session_start, startOfLocalDay(addDays(lastDay, 1), timezone))
+        )
+      )
+      .orderBy(asc(reading_sessions.session_start));
 
-  // Update book reading status
-  private static async updateBookReadingStatus(
-    userUuid: string,
-    bookUuid: string,
-    status: string
-  ): Promise<void> {
-    const updateData: any = {
-      reading_status: status
-    };
+    // Sessions with the book attributes they are broken down by
+    const sessions: AnalyticsSession[] = rows.map(row => ({
+      ...row.reading_sessions,
+      genre: row.books?.genre,
+      format: row.books?.format,
+      language: row.books?.language
+    }));
 
-    if (status === "currently_reading") {
-      // Check if date_started is already set
-      const [existing] = await db
-        .select({ date_started: book_list_items.date_started })
-        .from(book_list_items)
-        .where(
-          and(
-            eq(book_list_items.user_uuid, userUuid),
-            eq(book_list_items.book_uuid, bookUuid)
-          )
-        )
-        .limit(1);
+    return buildReadingAnalytics(sessions, firstDay, lastDay, granularity, timezone);
+  }
 
-      if (!existing?.date_started) {
-        updateData.date_started = new Date();
-      }
-    }
+  // Current reading streak in days, counted in the user's timezone
+  static async calculateReadingStreak(userUuid: string): Promise<number> {
+    const streaks = await ReadingStreakService.getStreaks(userUuid);
+    return streaks.current_streak_days;
+  }
 
-    await db
-      .update(book_list_items)
-      .set(updateData)
+  // Log a finished session after the fact
+  static async logPastSession(userUuid: string, input: PastSessionInput): Promise<ReadingSession> {
+    const resolved = resolvePastSession(input);
+
+    const [item] = await db
+      .select()
+      .from(book_list_items)
       .where(
         and(
           eq(book_list_items.user_uuid, userUuid),
-          eq(book_list_items.book_uuid, bookUuid)
+          eq(book_list_items.book_uuid, input.book_uuid)
         )
-      );
+      )
+      .limit(1);
+
+    if (!item) {
+      throw new Error("Book not in library");
+    }
+
+    await this.assertNoOverlap(userUuid, resolved.session_start, resolved.session_end);
+
+    // Reading a book on the to-read shelf means it was started, back when the session began
+    if (normalizeReadingStatus(item.reading_status) === "want_to_read") {
+      await ReadingStatusService.transition(userUuid, input.book_uuid, "currently_reading", {
+        dateStarted: resolved.session_start
+      });
+    }
+
+    const now = new Date();
+    const [session] = await db.insert(reading_sessions).values({
+      uuid: uuidv4(),
+      user_uuid: userUuid,
+      book_uuid: input.book_uuid,
+      ...resolved,
+      notes: input.notes,
+      mood: input.mood,
+      location: input.location,
+      reading_goal_met: false,
+      status: "completed",
+      created_at: now,
+      updated_at: now
+    }).returning();
+
+    return this.afterPastSessionChange(userUuid, session as unknown as ReadingSession);
+  }
+
+  // Edit a finished session; times, minutes and pages are validated again
+  static async updatePastSession(
+    userUuid: string,
+    sessionUuid: string,
+    changes: PastSessionChanges
+  ): Promise<ReadingSession> {
+    const session = await this.getFinishedSession(userUuid, sessionUuid);
+
+    const timesChanged = changes.session_start !== undefined || changes.session_end !== undefined;
+    const pagesChanged = changes.start_page !== undefined || changes.end_page !== undefined;
+
+    const resolved = resolvePastSession({
+      session_start: changes.session_start || new Date(session.session_start),
+      // New minutes without a new end time move the end
+      session_end: changes.session_end
+        || (changes.duration_minutes !== undefined ? undefined : new Date(session.session_end!)),
+      // New times without new minutes count the whole time between them
+      duration_minutes: changes.duration_minutes
+        ?? (timesChanged ? undefined : session.reading_duration_minutes ?? undefined),
+      start_page: changes.start_page ?? session.start_page ?? undefined,
+      end_page: changes.end_page ?? session.end_page ?? undefined,
+      pages_read: changes.pages_read ?? (pagesChanged ? undefined : session.pages_read)
+    });
+
+    await this.assertNoOverlap(userUuid, resolved.session_start, resolved.session_end, sessionUuid);
+
+    const [updatedSession] = await db
+      .update(reading_sessions)
+      .set({
+        ...resolved,
+        ...(changes.notes !== undefined ? { notes: changes.notes } : {}),
+        ...(changes.mood !== undefined ? { mood: changes.mood } : {}),
+        ...(changes.location !== undefined ? { location: changes.location } : {}),
+        updated_at: new Date()
+      })
+      .where(eq(reading_sessions.uuid, sessionUuid))
+      .returning();
+
+    return this.afterPastSessionChange(userUuid, updatedSession as unknown as ReadingSession);
+  }
+
+  // Delete a finished session; stats and goals are computed from the remaining sessions
+  static async deletePastSession(userUuid: string, sessionUuid: string): Promise<void> {
+    const session = await this.getFinishedSession(userUuid, sessionUuid);
+
+    await db
+      .delete(reading_sessions)
+      .where(eq(reading_sessions.uuid, sessionUuid));
+
+    await this.updateBookProgress(userUuid, session.book_uuid);
   }
 
-  // Get active reading session
+  // Get the running (active or paused) reading session
   static async getActiveSession(userUuid: string, bookUuid: string): Promise<ReadingSession | null> {
     const [session] = await db
       .select()
@@ -333,17 +533,78 @@ export class ReadingProgressService {
         and(
           eq(reading_sessions.user_uuid, userUuid),
           eq(reading_sessions.book_uuid, bookUuid),
-          eq(reading_sessions.status, "active")
+          inArray(reading_sessions.status, ["active", "paused"])
         )
       )
       .orderBy(desc(reading_sessions.session_start))
       .limit(1);
 
-    return session as ReadingSession || null;
+    if (!session) return null;
+
+    return this.applyIdlePause(session as unknown as ReadingSession, new Date());
+  }
+
+  // Pause an active session; paused time does not count towards its duration
+  static async pauseReadingSession(userUuid: string, sessionUuid: string): Promise<ReadingSession> {
+    const now = new Date();
+    const session = await this.getUserSession(userUuid, sessionUuid, now);
+
+    // Already paused, e.g. by the idle check
+    if (session.status === "paused") return session;
+    if (session.status !== "active") {
+      throw new Error("Session is not active");
+    }
+
+    return this.pause(session, now, false);
+  }
+
+  // Resume a paused session, closing the open pause
+  static async resumeReadingSession(userUuid: string, sessionUuid: string): Promise<ReadingSession> {
+    const now = new Date();
+    const session = await this.getUserSession(userUuid, sessionUuid, now);
+
+    if (session.status === "active") return session;
+    if (session.status !== "paused") {
+      throw new Error("Session is not paused");
+    }
+
+    const pauseIntervals = (session.pause_intervals || []).map(pause =>
+      pause.ended_at ? pause : { ...pause, ended_at: now.toISOString() }
+    );
+
+    const [updatedSession] = await db
+      .update(reading_sessions)
+      .set({
+        status: "active",
+        pause_intervals: pauseIntervals,
+        last_activity_at: now,
+        updated_at: now
+      })
+      .where(eq(reading_sessions.uuid, sessionUuid))
+      .returning();
+
+    return updatedSession as unknown as ReadingSession;
+  }
+
+  // Heartbeat from an open session tracker, keeps the session from being auto-paused
+  static async recordSessionActivity(userUuid: string, sessionUuid: string): Promise<ReadingSession> {
+    const now = new Date();
+    const session = await this.getUserSession(userUuid, sessionUuid, now);
+
+    if (session.status !== "active") return session;
+
+    const [updatedSession] = await db
+      .update(reading_sessions)
+      .set({ last_activity_at: now })
+      .where(eq(reading_sessions.uuid, sessionUuid))
+      .returning();
+
+    return updatedSession as unknown as ReadingSession;
   }
 
   // Update session progress (for active sessions)
   static async updateSessionProgress(
+    userUuid: string,
     sessionUuid: string,
     currentPage: number,
     notes?: string
@@ -351,7 +612,12 @@ export class ReadingProgressService {
     const [session] = await db
       .select()
       .from(reading_sessions)
-      .where(eq(reading_sessions.uuid, sessionUuid))
+      .where(
+        and(
+          eq(reading_sessions.uuid, sessionUuid),
+          eq(reading_sessions.user_uuid, userUuid)
+        )
+      )
       .limit(1);
 
     if (!session) {
@@ -362,14 +628,154 @@ export class ReadingProgressService {
       ? Math.max(0, currentPage - session.start_page + 1)
       : currentPage;
 
+    // A progress update is a sign of reading, unless the session already went idle
+    const now = new Date();
+    const current = await this.applyIdlePause(session as unknown as ReadingSession, now);
+
     await db
       .update(reading_sessions)
       .set({
         end_page: currentPage,
         pages_read: pagesRead,
         notes,
+        ...(current.status === "active" ? { last_activity_at: now } : {}),
+        updated_at: now
+      })
+      .where(
+        and(
+          eq(reading_sessions.uuid, sessionUuid),
+          eq(reading_sessions.user_uuid, userUuid)
+        )
+      );
+  }
+
+  // Load one of the user's sessions that has ended; running sessions are changed by the tracker
+  private static async getFinishedSession(userUuid: string, sessionUuid: string): Promise<ReadingSession> {
+    const [session] = await db
+      .select()
+      .from(reading_sessions)
+      .where(
+        and(
+          eq(reading_sessions.uuid, sessionUuid),
+          eq(reading_sessions.user_uuid, userUuid)
+        )
+      )
+      .limit(1);
+
+    if (!session) {
+      throw new Error("Session not found");
+    }
+    if (session.status !== "completed" || !session.session_end) {
+      throw new Error("Only finished sessions can be changed");
+    }
+
+    return session as unknown as ReadingSession;
+  }
+
+  // A user reads one book at a time: no session of theirs may share any time with another.
+  // Running sessions have no end yet: an active one lasts until its last activity,
+  // a paused one is not being read and blocks nothing.
+  private static async assertNoOverlap(
+    userUuid: string,
+    start: Date,
+    end: Date,
+    excludeSessionUuid?: string
+  ): Promise<void> {
+    const conditions = [
+      eq(reading_sessions.user_uuid, userUuid),
+      lt(reading_sessions.session_start, end),
+      or(
+        gt(reading_sessions.session_end, start),
+        and(
+          isNull(reading_sessions.session_end),
+          eq(reading_sessions.status, "active"),
+          or(isNull(reading_sessions.last_activity_at), gt(reading_sessions.last_activity_at, start))
+        )
+      )
+    ];
+    if (excludeSessionUuid) {
+      conditions.push(ne(reading_sessions.uuid, excludeSessionUuid));
+    }
+
+    const [conflicting] = await db
+      .select()
+      .from(reading_sessions)
+      .where(and(...conditions))
+      .limit(1);
+
+    if (conflicting) {
+      throw new SessionOverlapError(conflicting as unknown as ReadingSession);
+    }
+  }
+
+  // Progress and the goal flag of a logged or edited session follow its new pages and times
+  private static async afterPastSessionChange(userUuid: string, session: ReadingSession): Promise<ReadingSession> {
+    await this.updateBookProgress(userUuid, session.book_uuid);
+
+    const goalMet = await ReadingGoalService.isSessionGoalMet(userUuid, new Date(session.session_end!));
+    if (goalMet === session.reading_goal_met) return session;
+
+    const [updatedSession] = await db
+      .update(reading_sessions)
+      .set({ reading_goal_met: goalMet })
+      .where(eq(reading_sessions.uuid, session.uuid))
+      .returning();
+
+    return updatedSession as unknown as ReadingSession;
+  }
+
+  // Load one of the user's sessions, pausing it first if it went idle
+  private static async getUserSession(
+    userUuid: string,
+    sessionUuid: string,
+    now: Date
+  ): Promise<ReadingSession> {
+    const [session] = await db
+      .select()
+      .from(reading_sessions)
+      .where(
+        and(
+          eq(reading_sessions.uuid, sessionUuid),
+          eq(reading_sessions.user_uuid, userUuid)
+        )
+      )
+      .limit(1);
+
+    if (!session) {
+      throw new Error("Session not found");
+    }
+
+    return this.applyIdlePause(session as unknown as ReadingSession, now);
+  }
+
+  // An active session with no activity past the idle threshold is paused from its last activity,
+  // so a session left running over lunch does not count the lunch as reading
+  private static async applyIdlePause(session: ReadingSession, now: Date): Promise<ReadingSession> {
+    const idleMinutes = getSessionIdleMinutes();
+    if (session.status !== "active" || idleMinutes <= 0) return session;
+
+    const lastActivity = new Date(session.last_activity_at || session.session_start);
+    if (now.getTime() - lastActivity.getTime() <= idleMinutes * 60000) return session;
+
+    return this.pause(session, lastActivity, true);
+  }
+
+  private static async pause(session: ReadingSession, at: Date, auto: boolean): Promise<ReadingSession> {
+    const pauseIntervals = [
+      ...(session.pause_intervals || []),
+      { started_at: at.toISOString(), ...(auto ? { auto: true } : {}) }
+    ];
+
+    const [updatedSession] = await db
+      .update(reading_sessions)
+      .set({
+        status: "paused",
+        pause_intervals: pauseIntervals,
         updated_at: new Date()
       })
-      .where(eq(reading_sessions.uuid, sessionUuid));
+      .where(eq(reading_sessions.uuid, session.uuid))
+      .returning();
+
+    return updatedSession as unknown as ReadingSession;
   }
 }
\ No newline at end of file
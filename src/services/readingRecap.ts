@@ -0,0 +1,244 @@
+import { database as db } from "@/db";
+import { book_list_items, book_lists, books, reading_recaps, reading_sessions, users } from "@/db/schema";
+import { askAI } from "@/services/ai";
+import { initializeReadingAssistant } from "@/services/aiService";
+import { chargeAIUsage } from "@/services/aiCredits";
+import { CreditsTransType } from "@/services/credit";
+import { ReadingStreakService } from "./readingStreaks";
+import { PublicReadingRecap, ReadingRecap, ReadingRecapStats } from "@/types/book";
+import { AIRequest } from "@/types/ai";
+import { startOfLocalDay } from "@/lib/readingDays";
+import { buildYearRecap } from "@/lib/readingRecap";
+import { eq, and, gte, lt, isNotNull } from "drizzle-orm";
+import { v4 as uuidv4 } from "uuid";
+
+export interface GenerateRecapOptions {
+  // ask the model for a written summary; charged to the user
+  narrative?: boolean;
+}
+
+// thrown when a year has nothing to recap, mapped to HTTP 404 by routes
+export class EmptyRecapError extends Error {
+  constructor(year: number) {
+    super(`Nothing was read in ${year}`);
+    this.name = "EmptyRecapError";
+  }
+}
+
+export class ReadingRecapService {
+  // Figures for a year as of now, in the user's timezone
+  static async getYearStats(userUuid: string, year: number): Promise<ReadingRecapStats> {
+    const timezone = await ReadingStreakService.getUserTimezone(userUuid);
+    const yearStart = startOfLocalDay(`${year}-01-01`, timezone);
+    const yearEnd = startOfLocalDay(`${year + 1}-01-01`, timezone);
+
+    // The library list holds every book of the user once
+    const finished = await db
+      .select()
+      .from(book_list_items)
+      .innerJoin(books, eq(book_list_items.book_uuid, books.uuid))
+      .innerJoin(
+        book_lists,
+        and(
+          eq(book_list_items.list_uuid, book_lists.uuid),
+          eq(book_lists.is_default, true),
+          eq(book_lists.list_type, "custom")
+        )
+      )
+      .where(
+        and(
+          eq(book_list_items.user_uuid, userUuid),
+          eq(book_list_items.reading_status, "read"),
+          isNotNull(book_list_items.date_completed),
+          gte(book_list_items.date_completed, yearStart),
+          lt(book_list_items.date_completed, yearEnd)
+        )
+      );
+
+    const sessions = await db
+      .select()
+      .from(reading_sessions)
+      .where(
+        and(
+          eq(reading_sessions.user_uuid, userUuid),
+          gte(reading_sessions.session_start, yearStart),
+          lt(reading_sessions.session_start, yearEnd)
+        )
+      );
+
+    return buildYearRecap(
+      finished.map(row => ({
+        book_uuid: row.books.uuid,
+        title: row.books.title,
+        author: row.books.author,
+        cover_url: row.books.cover_url,
+        page_count: row.books.page_count,
+        genre: row.books.genre,
+        personal_rating: row.book_list_items.personal_rating,
+        date_completed: row.book_list_items.date_completed as Date
+      })),
+      sessions,
+      year,
+      timezone
+    );
+  }
+
+  // The saved recap of a year, null until it has been generated
+  static async getRecap(userUuid: string, year: number): Promise<ReadingRecap | null> {
+    const [recap] = await db
+      .select()
+      .from(reading_recaps)
+      .where(and(eq(reading_recaps.user_uuid, userUuid), eq(reading_recaps.year, year)))
+      .limit(1);
+
+    return (recap as unknown as ReadingRecap) || null;
+  }
+
+  // Save the year's figures, writing a new narrative when asked; an earlier narrative is kept otherwise
+  static async generateRecap(
+    userUuid: string,
+    year: number,
+    options: GenerateRecapOptions = {}
+  ): Promise<ReadingRecap> {
+    const stats = await this.getYearStats(userUuid, year);
+    if (stats.books_finished === 0 && stats.sessions === 0) {
+      throw new EmptyRecapError(year);
+    }
+
+    const existing = await this.getRecap(userUuid, year);
+    const narrative = options.narrative
+      ? await this.writeNarrative(userUuid, stats)
+      : existing?.narrative ?? null;
+
+    const now = new Date();
+    if (existing) {
+      await db
+        .update(reading_recaps)
+        .set({ stats, narrative, updated_at: now })
+        .where(eq(reading_recaps.uuid, existing.uuid));
+    } else {
+      await db
+        .insert(reading_recaps)
+        .values({
+          uuid: uuidv4(),
+          user_uuid: userUuid,
+          year,
+          stats,
+          narrative,
+          is_public: false,
+          created_at: now,
+          updated_at: now
+        })
+        .onConflictDoNothing();
+    }
+
+    return (await this.getRecap(userUuid, year)) as ReadingRecap;
+  }
+
+  static async setSharing(userUuid: string, year: number, isPublic: boolean): Promise<ReadingRecap | null> {
+    const recap = await this.getRecap(userUuid, year);
+    if (!recap) return null;
+
+    await db
+      .update(reading_recaps)
+      .set({ is_public: isPublic, updated_at: new Date() })
+      .where(eq(reading_recaps.uuid, recap.uuid));
+
+    return { ...recap, is_public: isPublic };
+  }
+
+  // A shared recap - readable by anyone when public, and always by its owner
+  static async getSharedRecap(recapUuid: string, viewerUuid?: string): Promise<PublicReadingRecap | null> {
+    const [recap] = await db
+      .select()
+      .from(reading_recaps)
+      .where(eq(reading_recaps.uuid, recapUuid))
+      .limit(1);
+
+    if (!recap || (!recap.is_public && recap.user_uuid !== viewerUuid)) {
+      return null;
+    }
+
+    const [owner] = await db
+      .select()
+      .from(users)
+      .where(eq(users.uuid, recap.user_uuid))
+      .limit(1);
+
+    return {
+      uuid: recap.uuid,
+      year: recap.year,
+      stats: recap.stats as ReadingRecapStats,
+      narrative: recap.narrative ?? undefined,
+      is_public: recap.is_public,
+      is_owner: !!viewerUuid && recap.user_uuid === viewerUuid,
+      owner: {
+        nickname: owner?.nickname ?? undefined,
+        avatar_url: owner?.avatar_url ?? undefined
+      }
+    };
+  }
+
+  // A short, warm write-up of the year; charged to the user unless served from cache
+  private static async writeNarrative(userUuid: string, stats: ReadingRecapStats): Promise<string> {
+    const request: AIRequest = {
+      messages: [
+        {
+          role: 'system',
+          content: 'You write short, warm "year in books" wrap-ups for readers. Address the reader as "you", use only the facts given, and do not use headings or lists.'
+        },
+        {
+          role: 'user',
+          content: this.buildNarrativePrompt(stats)
+        }
+      ],
+      temperature: 0.8,
+      maxTokens: 600
+    };
+
+    await initializeReadingAssistant();
+    const response = await askAI(request);
+
+    if (!response.metadata.cached) {
+      await chargeAIUsage({
+        user_uuid: userUuid,
+        trans_type: CreditsTransType.AIReadingRecap,
+        provider: response.provider,
+        model: response.model,
+        usage: response.usage
+      });
+    }
+
+    return response.content.trim();
+  }
+
+  private static buildNarrativePrompt(stats: ReadingRecapStats): string {
+    const describeBook = (book: ReadingRecapStats["first_book"]) =>
+      book ? `"${book.title}" by ${book.author}${book.page_count ? ` (${book.page_count} pages)` : ""}` : "none";
+    const busiestMonth = stats.busiest_month
+      ? new Date(`${stats.busiest_month.month}-01T00:00:00Z`).toLocaleDateString("en-US", { month: "long", timeZone: "UTC" })
+      : "none";
+
+    const facts = [
+      `Year: ${stats.year}`,
+      `Books finished: ${stats.books_finished}`,
+      `Pages in finished books: ${stats.pages_finished}`,
+      `Pages read in logged sessions: ${stats.pages_read}`,
+      `Hours read: ${Math.round(stats.minutes_read / 6) / 10}`,
+      `Days with reading: ${stats.reading_days}`,
+      `Average rating given: ${stats.average_rating ?? "none"}`,
+      `First book finished: ${describeBook(stats.first_book)}`,
+      `Last book finished: ${describeBook(stats.last_book)}`,
+      `Longest book: ${describeBook(stats.longest_book)}`,
+      `Shortest book: ${describeBook(stats.shortest_book)}`,
+      `Highest rated: ${stats.top_rated_books.map(describeBook).join("; ") || "none"}`,
+      `Top genres: ${stats.top_genres.map(genre => `${genre.name} (${genre.books})`).join(", ") || "none"}`,
+      `Top authors: ${stats.top_authors.map(author => `${author.name} (${author.books})`).join(", ") || "none"}`,
+      `Busiest month: ${busiestMonth}`,
+      `Favourite reading mood: ${stats.favorite_mood || "none"}`,
+      `Favourite reading place: ${stats.favorite_location || "none"}`
+    ];
+
+    return `Write a 120-180 word recap of this reader's year in books, ending with an encouraging line about next year (${stats.year + 1}).\n\n${facts.join("\n")}`;
+  }
+}
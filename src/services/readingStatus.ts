@@ -0,0 +1,55 @@
+import { database as db, DbExecutor } from "@/db";
+import { book_list_items } from "@/db/schema";
+import { eq, and } from "drizzle-orm";
+import { ShelfService } from "./shelves";
+import {
+  ReadingStatus,
+  ReadingStatusState,
+  ReadingStatusTransitionOptions,
+  ReadingStatusUpdate,
+  planStatusTransition
+} from "@/lib/readingStatus";
+
+export * from "@/lib/readingStatus";
+
+export class ReadingStatusService {
+  // Move the user's copies of a book to a new status, enforcing the allowed transitions
+  static async transition(
+    userUuid: string,
+    bookUuid: string,
+    to: ReadingStatus,
+    options: ReadingStatusTransitionOptions = {},
+    tx: DbExecutor = db
+  ): Promise<ReadingStatusUpdate> {
+    const [current] = await tx
+      .select()
+      .from(book_list_items)
+      .where(
+        and(
+          eq(book_list_items.user_uuid, userUuid),
+          eq(book_list_items.book_uuid, bookUuid)
+        )
+      )
+      .limit(1);
+
+    if (!current) {
+      throw new Error("Book not in library");
+    }
+
+    const update = planStatusTransition(current as ReadingStatusState, to, options);
+
+    await tx
+      .update(book_list_items)
+      .set(update)
+      .where(
+        and(
+          eq(book_list_items.user_uuid, userUuid),
+          eq(book_list_items.book_uuid, bookUuid)
+        )
+      );
+
+    await ShelfService.syncBookShelf(userUuid, bookUuid, to, tx);
+
+    return update;
+  }
+}
@@ -0,0 +1,166 @@
+import { database as db } from "@/db";
+import { reading_sessions, reading_streak_freezes } from "@/db/schema";
+import { findUserByUuid, updateUserTimezone } from "@/models/user";
+import { ReadingStreaks } from "@/types/book";
+import {
+  DailyReadingTotal,
+  addDays,
+  bucketByLocalDate,
+  calculateStreaks,
+  isValidTimezone,
+  resolveTimezone,
+  startOfLocalDay,
+  toLocalDate
+} from "@/lib/readingDays";
+import { eq, and, gte, lt, asc, sql } from "drizzle-orm";
+
+// A missed day can be frozen up to this many days later
+const FREEZE_WINDOW_DAYS = 7;
+
+function getFreezesPerMonth(): number {
+  const freezes = parseInt(process.env.READING_STREAK_FREEZES_PER_MONTH || "2");
+  return isNaN(freezes) ? 2 : Math.max(0, freezes);
+}
+
+// thrown for a day that cannot be frozen, mapped to HTTP 400 by routes
+export class StreakFreezeError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "StreakFreezeError";
+  }
+}
+
+export class ReadingStreakService {
+  // The user's timezone, UTC until they pick one
+  static async getUserTimezone(userUuid: string): Promise<string> {
+    const user = await findUserByUuid(userUuid);
+    return resolveTimezone(user?.timezone);
+  }
+
+  // Whether the user has picked a timezone, so clients know to offer the detected one
+  static async hasUserTimezone(userUuid: string): Promise<boolean> {
+    const user = await findUserByUuid(userUuid);
+    return isValidTimezone(user?.timezone);
+  }
+
+  static async setUserTimezone(userUuid: string, timezone: string): Promise<string> {
+    if (!isValidTimezone(timezone)) {
+      throw new Error("Invalid timezone");
+    }
+
+    await updateUserTimezone(userUuid, timezone);
+    return timezone;
+  }
+
+  // Current and longest streak over all of the user's sessions, in their timezone
+  static async getStreaks(userUuid: string, now: Date = new Date()): Promise<ReadingStreaks> {
+    const timezone = await this.getUserTimezone(userUuid);
+    const today = toLocalDate(now, timezone);
+
+    const [totals, freezes] = await Promise.all([
+      this.getDailyTotals(userUuid, timezone),
+      this.getFreezeDates(userUuid)
+    ]);
+
+    const streaks = calculateStreaks(totals.map(total => total.date), freezes, today);
+
+    return {
+      current_streak_days: streaks.current,
+      longest_streak_days: streaks.longest,
+      freeze_days_used: streaks.freezes_used,
+      freezes_left_this_month: this.getFreezesLeft(freezes, today.slice(0, 7)),
+      last_reading_date: streaks.last_reading_date,
+      timezone
+    };
+  }
+
+  // Pages, minutes and sessions per local day, optionally from `since` on
+  static async getDailyTotals(
+    userUuid: string,
+    timezone: string,
+    since?: Date,
+    until?: Date
+  ): Promise<DailyReadingTotal[]> {
+    const conditions = [eq(reading_sessions.user_uuid, userUuid)];
+    if (since) {
+      conditions.push(gte(reading_sessions.session_start, since));
+    }
+    if (until) {
+      conditions.push(lt(reading_sessions.session_start, until));
+    }
+
+    // Only what the day totals need; a reader's history can run to thousands of sessions
+    const sessions = await db
+      .select({
+        session_start: sql`${reading_sessions.session_start}`.mapWith(reading_sessions.session_start),
+        pages_read: sql`${reading_sessions.pages_read}`.mapWith(reading_sessions.pages_read),
+        reading_duration_minutes: sql`${reading_sessions.reading_duration_minutes}`.mapWith(reading_sessions.reading_duration_minutes)
+      })
+      .from(reading_sessions)
+      .where(and(...conditions))
+      .orderBy(asc(reading_sessions.session_start));
+
+    return bucketByLocalDate(sessions, timezone);
+  }
+
+  static async getFreezeDates(userUuid: string): Promise<string[]> {
+    const freezes = await db
+      .select()
+      .from(reading_streak_freezes)
+      .where(eq(reading_streak_freezes.user_uuid, userUuid))
+      .orderBy(asc(reading_streak_freezes.freeze_date));
+
+    return freezes.map(freeze => freeze.freeze_date);
+  }
+
+  // Keep the streak alive over a missed day, yesterday by default
+  static async freezeDay(userUuid: string, date?: string, now: Date = new Date()): Promise<ReadingStreaks> {
+    const timezone = await this.getUserTimezone(userUuid);
+    const today = toLocalDate(now, timezone);
+    const freezeDate = date || addDays(today, -1);
+
+    if (freezeDate >= today) {
+      throw new StreakFreezeError("Only days that have passed can be frozen");
+    }
+    if (freezeDate < addDays(today, -FREEZE_WINDOW_DAYS)) {
+      throw new StreakFreezeError(`Days can only be frozen within ${FREEZE_WINDOW_DAYS} days`);
+    }
+
+    const [freezes, totals] = await Promise.all([
+      this.getFreezeDates(userUuid),
+      this.getDailyTotals(
+        userUuid,
+        timezone,
+        startOfLocalDay(freezeDate, timezone),
+        startOfLocalDay(addDays(freezeDate, 1), timezone)
+      )
+    ]);
+
+    if (freezes.includes(freezeDate)) {
+      throw new StreakFreezeError("This day is already frozen");
+    }
+    if (totals.length > 0) {
+      throw new StreakFreezeError("You read on this day, there is nothing to freeze");
+    }
+    if (this.getFreezesLeft(freezes, freezeDate.slice(0, 7)) <= 0) {
+      throw new StreakFreezeError("No streak freezes left for this month");
+    }
+
+    await db
+      .insert(reading_streak_freezes)
+      .values({
+        user_uuid: userUuid,
+        freeze_date: freezeDate,
+        created_at: new Date()
+      })
+      .onConflictDoNothing();
+
+    return this.getStreaks(userUuid, now);
+  }
+
+  // Freezes left in a calendar month (YYYY-MM)
+  private static getFreezesLeft(freezes: string[], month: string): number {
+    const used = freezes.filter(freeze => freeze.startsWith(month)).length;
+    return Math.max(0, getFreezesPerMonth() - used);
+  }
+}
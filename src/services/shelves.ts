@@ -0,0 +1,170 @@
+import { database as db, DbExecutor } from "@/db";
+import { book_lists, book_list_items } from "@/db/schema";
+import { BookList, BookListItem } from "@/types/book";
+import { eq, and, inArray, ne, sql } from "drizzle-orm";
+import { v4 as uuidv4 } from "uuid";
+
+export type ShelfType = Exclude<BookList['list_type'], 'custom'>;
+
+type ShelfRow = typeof book_lists.$inferSelect;
+
+// System shelves provisioned for every user, in display order
+export const SYSTEM_SHELVES: Record<ShelfType, { name: string; description: string; sort_order: number }> = {
+  currently_reading: { name: "Currently Reading", description: "Books you are reading right now", sort_order: 1 },
+  want_to_read: { name: "Want to Read", description: "Books you plan to read", sort_order: 2 },
+  read: { name: "Read", description: "Books you have finished", sort_order: 3 },
+  favorites: { name: "Favorites", description: "Books you loved", sort_order: 4 }
+};
+
+// Shelves that follow reading_status; a book sits on at most one of them.
+// Paused and abandoned books are kept off all of them.
+const STATUS_SHELVES: Partial<Record<BookListItem['reading_status'], ShelfType>> = {
+  want_to_read: "want_to_read",
+  currently_reading: "currently_reading",
+  read: "read"
+};
+
+export class ShelfService {
+  // Create any missing system shelves for the user and return them by type
+  static async ensureSystemShelves(userUuid: string, tx: DbExecutor = db): Promise<Record<ShelfType, ShelfRow>> {
+    let shelves = await this.getSystemShelves(userUuid, tx);
+    const missing = (Object.keys(SYSTEM_SHELVES) as ShelfType[]).filter(type => !shelves[type]);
+
+    if (missing.length > 0) {
+      const now = new Date();
+      await tx.insert(book_lists).values(
+        missing.map(type => ({
+          uuid: uuidv4(),
+          user_uuid: userUuid,
+          name: SYSTEM_SHELVES[type].name,
+          description: SYSTEM_SHELVES[type].description,
+          is_public: false,
+          is_default: true,
+          list_type: type,
+          sort_order: SYSTEM_SHELVES[type].sort_order,
+          created_at: now,
+          updated_at: now
+        }))
+      ).onConflictDoNothing();
+
+      // Re-read so concurrent provisioning resolves to the same rows
+      shelves = await this.getSystemShelves(userUuid, tx);
+    }
+
+    return shelves as Record<ShelfType, ShelfRow>;
+  }
+
+  // Put the book on the shelf matching its reading status and take it off the other status shelves
+  static async syncBookShelf(
+    userUuid: string,
+    bookUuid: string,
+    readingStatus: BookListItem['reading_status'],
+    tx: DbExecutor = db
+  ): Promise<void> {
+    const shelves = await this.ensureSystemShelves(userUuid, tx);
+    const targetType = STATUS_SHELVES[readingStatus];
+
+    const staleShelfUuids = (Object.values(STATUS_SHELVES) as ShelfType[])
+      .filter(type => type !== targetType)
+      .map(type => shelves[type].uuid);
+
+    await tx
+      .delete(book_list_items)
+      .where(
+        and(
+          eq(book_list_items.user_uuid, userUuid),
+          eq(book_list_items.book_uuid, bookUuid),
+          inArray(book_list_items.list_uuid, staleShelfUuids)
+        )
+      );
+
+    if (targetType) {
+      await this.addToShelf(userUuid, bookUuid, shelves[targetType].uuid, tx);
+    }
+  }
+
+  // Add or remove a book from the favorites shelf
+  static async setFavorite(userUuid: string, bookUuid: string, favorite: boolean): Promise<void> {
+    const shelves = await this.ensureSystemShelves(userUuid);
+    const favoritesUuid = shelves.favorites.uuid;
+
+    if (favorite) {
+      await this.addToShelf(userUuid, bookUuid, favoritesUuid);
+      return;
+    }
+
+    await db
+      .delete(book_list_items)
+      .where(
+        and(
+          eq(book_list_items.list_uuid, favoritesUuid),
+          eq(book_list_items.book_uuid, bookUuid)
+        )
+      );
+  }
+
+  static isSystemShelf(list: Pick<BookList, 'list_type'>): boolean {
+    return list.list_type !== "custom";
+  }
+
+  private static async getSystemShelves(
+    userUuid: string,
+    tx: DbExecutor = db
+  ): Promise<Partial<Record<ShelfType, ShelfRow>>> {
+    const lists = await tx
+      .select()
+      .from(book_lists)
+      .where(
+        and(
+          eq(book_lists.user_uuid, userUuid),
+          eq(book_lists.is_default, true),
+          ne(book_lists.list_type, "custom")
+        )
+      );
+
+    const shelves: Partial<Record<ShelfType, ShelfRow>> = {};
+    lists.forEach(list => {
+      shelves[list.list_type as ShelfType] = list;
+    });
+    return shelves;
+  }
+
+  // Copy the book's reading data from its library entry onto the shelf
+  private static async addToShelf(
+    userUuid: string,
+    bookUuid: string,
+    shelfUuid: string,
+    tx: DbExecutor = db
+  ): Promise<void> {
+    const [source] = await tx
+      .select()
+      .from(book_list_items)
+      .where(
+        and(
+          eq(book_list_items.user_uuid, userUuid),
+          eq(book_list_items.book_uuid, bookUuid)
+        )
+      )
+      .limit(1);
+
+    if (!source) return;
+
+    const [position] = await tx
+      .select({ max: sql<number>`coalesce(max(${book_list_items.sort_order}), -1)` })
+      .from(book_list_items)
+      .where(eq(book_list_items.list_uuid, shelfUuid));
+
+    await tx.insert(book_list_items).values({
+      list_uuid: shelfUuid,
+      book_uuid: bookUuid,
+      user_uuid: userUuid,
+      reading_status: source.reading_status,
+      personal_rating: source.personal_rating,
+      date_started: source.date_started,
+      date_completed: source.date_completed,
+      progress_percentage: source.progress_percentage,
+      sort_order: Number(position?.max ?? -1) + 1,
+      added_at: new Date()
+    }).onConflictDoNothing();
+  }
+}
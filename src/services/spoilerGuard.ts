@@ -0,0 +1,399 @@
+// Spoiler protection for the reading assistant. Each conversation has a mode:
+// - strict: prompts forbid later events, retrieved text stops at the reader's position
+//   and answer sentences that reach past it are replaced before the reader sees them
+// - warn: same prompts and retrieval limits, but answers are only flagged
+// - off: no restrictions
+
+export type SpoilerMode = "strict" | "warn" | "off";
+
+export const SPOILER_MODES: SpoilerMode[] = ["strict", "warn", "off"];
+
+export const DEFAULT_SPOILER_MODE: SpoilerMode = "strict";
+
+// Where the reader is in the book; any field may be unknown
+export interface ReadingPosition {
+  page?: number;
+  pageCount?: number;
+  chapter?: string;
+  chapterNumber?: number;
+  // 0-100
+  progress?: number;
+}
+
+// Outcome of checking an answer, stored with assistant messages
+export interface SpoilerCheck {
+  mode: SpoilerMode;
+  // the answer referred to something past the reader's position
+  flagged: boolean;
+  // parts of the answer were hidden (strict mode only)
+  redacted: boolean;
+  reasons: string[];
+}
+
+export const SPOILER_PLACEHOLDER = "[Hidden: this goes beyond where you are in the book.]";
+
+const STRICT_FALLBACK =
+  "I can't answer that without revealing parts of the book you haven't reached yet. " +
+  "Ask me again once you've read further, or turn spoiler protection down to warn or off.";
+
+const NUMBER_WORDS = [
+  "zero", "one", "two", "three", "four", "five", "six", "seven", "eight", "nine", "ten",
+  "eleven", "twelve", "thirteen", "fourteen", "fifteen", "sixteen", "seventeen", "eighteen",
+  "nineteen", "twenty"
+];
+
+const ROMAN_VALUES: Record<string, number> = { i: 1, v: 5, x: 10, l: 50, c: 100 };
+
+const PAGE_REFERENCE = /\b(?:pages?|pp?\.)\s*(\d{1,5})(?:\s*(?:-|–|to|and)\s*(\d{1,5}))?/gi;
+const CHAPTER_REFERENCE = new RegExp(`\\bchapters?\\s+(\\d{1,3}|[ivxlc]+|${NUMBER_WORDS.join("|")})\\b`, "gi");
+const PROGRESS_REFERENCE = /\b(\d{1,3})\s*(?:%|percent)\s+(?:of the way\s+)?(?:through|into)\b/gi;
+
+// Phrases that point past the reader's position whatever the page
+const LOOKAHEAD_PHRASES = [
+  /\blater (?:on )?in the (?:book|novel|story|series)\b/i,
+  /\b(?:by|at|towards?|near) the (?:very )?end of the (?:book|novel|story)\b/i,
+  /\bin the (?:final|last|closing) (?:chapters?|pages|act|part|section)\b/i,
+  /\bthe (?:book's |novel's |story's )?(?:ending|climax|finale|denouement)\b/i,
+  /\b(?:later|eventually|ultimately) turns out\b/i,
+  /\b(?:will|would) (?:later|eventually|ultimately)\b/i,
+  /\bplot twist\b/i,
+  /\bspoilers? (?:warning|alert|ahead)\b/i
+];
+
+// Sentences declining to reveal something may name the ending without spoiling it
+const DEFLECTION = /\b(?:won't|will not|can't|cannot|don't|do not|avoid|without|not going to)\b[^.!?]{0,40}\b(?:spoil|reveal|give away|discuss)/i;
+
+// Abbreviations whose full stop does not end a sentence ("see p. 12")
+const ABBREVIATION = /\b(?:pp?|ch|chap|vol|mr|mrs|ms|dr|st|e\.g|i\.e)\.$/i;
+
+export function isSpoilerMode(value: unknown): value is SpoilerMode {
+  return SPOILER_MODES.includes(value as SpoilerMode);
+}
+
+// "Chapter 12", "Chapter XII: The Storm" or "chapter twelve" -> 12
+export function parseChapterNumber(value?: string): number | undefined {
+  if (!value) {
+    return undefined;
+  }
+
+  const match = value.match(new RegExp(`\\bchapter\\s+(\\d{1,3}|[ivxlc]+|${NUMBER_WORDS.join("|")})\\b`, "i"))
+    || value.trim().match(/^(\d{1,3})\b/);
+  return match ? toNumber(match[1]) : undefined;
+}
+
+function toNumber(token: string): number | undefined {
+  const lower = token.toLowerCase();
+  if (/^\d+$/.test(lower)) {
+    return parseInt(lower, 10);
+  }
+
+  const wordIndex = NUMBER_WORDS.indexOf(lower);
+  if (wordIndex >= 0) {
+    return wordIndex;
+  }
+
+  let total = 0;
+  for (let i = 0; i < lower.length; i++) {
+    const value = ROMAN_VALUES[lower[i]];
+    const next = ROMAN_VALUES[lower[i + 1]] || 0;
+    if (!value) {
+      return undefined;
+    }
+    total += value < next ? -value : value;
+  }
+  return total > 0 ? total : undefined;
+}
+
+export class SpoilerGuard {
+  // Combine what the client reports with the book's page count, filling in page from progress and vice versa
+  static resolvePosition(
+    context: { currentChapter?: string; currentPage?: number; readingProgress?: number } | undefined,
+    pageCount?: number | null
+  ): ReadingPosition {
+    const position: ReadingPosition = {
+      page: context?.currentPage,
+      pageCount: pageCount || undefined,
+      chapter: context?.currentChapter,
+      chapterNumber: parseChapterNumber(context?.currentChapter),
+      progress: context?.readingProgress
+    };
+
+    if (position.pageCount) {
+      if (position.page === undefined && position.progress !== undefined) {
+        position.page = Math.floor((position.progress / 100) * position.pageCount);
+      } else if (position.page !== undefined && position.progress === undefined) {
+        position.progress = Math.min(100, (position.page / position.pageCount) * 100);
+      }
+    }
+
+    return position;
+  }
+
+  static isKnown(position: ReadingPosition): boolean {
+    return position.page !== undefined || position.progress !== undefined || position.chapterNumber !== undefined;
+  }
+
+  // A reader who has finished the book cannot be spoiled
+  static isFinished(position: ReadingPosition): boolean {
+    return (position.progress !== undefined && position.progress >= 100) ||
+      (position.page !== undefined && !!position.pageCount && position.page >= position.pageCount);
+  }
+
+  static describePosition(position: ReadingPosition): string {
+    const parts: string[] = [];
+    if (position.page !== undefined) {
+      parts.push(position.pageCount ? `page ${position.page} of ${position.pageCount}` : `page ${position.page}`);
+    }
+    if (position.progress !== undefined) {
+      parts.push(`${Math.round(position.progress)}% of the book`);
+    }
+    if (position.chapter) {
+      parts.push(`the chapter "${position.chapter}"`);
+    }
+    return parts.join(", ");
+  }
+
+  // Prompt rules for the mode, to be added to the system prompt
+  static buildInstructions(mode: SpoilerMode, position: ReadingPosition): string {
+    if (mode === "off" || this.isFinished(position)) {
+      const where = this.isKnown(position) ? `The reader has read up to ${this.describePosition(position)}. ` : "";
+      return `${where}Spoiler protection is off: the reader is happy to discuss any part of the book, including the ending.`;
+    }
+
+    const where = this.isKnown(position)
+      ? `The reader has read up to ${this.describePosition(position)}. Treat everything after that point as unknown to them.`
+      : "The reader's position in the book is unknown. Assume they have not finished it and only discuss the premise and what they tell you they have read.";
+
+    if (mode === "warn") {
+      return `${where} Avoid events, twists and revelations that come later. If the question cannot be answered without them, begin your answer with "Spoiler warning:" and reveal no more than the question needs.`;
+    }
+
+    return `${where} Do not reveal, hint at, foreshadow or confirm later events, twists, deaths or the ending, even if asked directly, and do not mention later page or chapter numbers. If a question can only be answered with later events, say so and offer to come back to it once they have read further.`;
+  }
+
+  // Limits for retrieving book text; null when nothing can safely be retrieved
+  static getPassageLimits(
+    mode: SpoilerMode,
+    position: ReadingPosition
+  ): { maxPage?: number; maxProgress?: number } | null {
+    if (mode === "off" || this.isFinished(position)) {
+      return {};
+    }
+    if (position.page === undefined && position.progress === undefined) {
+      // A chapter name alone cannot be mapped to pages
+      return mode === "strict" ? null : {};
+    }
+    return { maxPage: position.page, maxProgress: position.progress };
+  }
+
+  // In strict mode, earlier answers that were only flagged stay out of the model's context
+  static filterHistory<T extends { role: string }>(
+    messages: T[],
+    mode: SpoilerMode,
+    getCheck: (message: T) => SpoilerCheck | undefined
+  ): T[] {
+    if (mode !== "strict") {
+      return messages;
+    }
+    return messages.filter(message => {
+      const check = message.role === "assistant" ? getCheck(message) : undefined;
+      return !check || !check.flagged || check.redacted;
+    });
+  }
+
+  // Check a complete answer, hiding offending sentences in strict mode
+  static guardResponse(
+    content: string,
+    mode: SpoilerMode,
+    position: ReadingPosition
+  ): { content: string; check: SpoilerCheck } {
+    const guard = new SpoilerStreamGuard(mode, position);
+    const guarded = guard.push(content) + guard.flush();
+    return { content: guarded, check: guard.getResult() };
+  }
+
+  // Reasons a sentence reaches past the reader's position, empty if it does not
+  static findSpoilers(sentence: string, position: ReadingPosition): string[] {
+    if (this.isFinished(position)) {
+      return [];
+    }
+
+    const reasons: string[] = [];
+    let match: RegExpExecArray | null;
+
+    if (position.page !== undefined) {
+      PAGE_REFERENCE.lastIndex = 0;
+      while ((match = PAGE_REFERENCE.exec(sentence)) !== null) {
+        const page = Math.max(parseInt(match[1], 10), match[2] ? parseInt(match[2], 10) : 0);
+        if (page > position.page) {
+          reasons.push(`mentions page ${page}`);
+        }
+      }
+    }
+
+    if (position.chapterNumber !== undefined) {
+      CHAPTER_REFERENCE.lastIndex = 0;
+      while ((match = CHAPTER_REFERENCE.exec(sentence)) !== null) {
+        const chapter = toNumber(match[1]);
+        if (chapter !== undefined && chapter > position.chapterNumber) {
+          reasons.push(`mentions chapter ${chapter}`);
+        }
+      }
+    }
+
+    if (position.progress !== undefined) {
+      PROGRESS_REFERENCE.lastIndex = 0;
+      while ((match = PROGRESS_REFERENCE.exec(sentence)) !== null) {
+        if (parseInt(match[1], 10) > position.progress) {
+          reasons.push(`mentions ${match[1]}% through the book`);
+        }
+      }
+    }
+
+    if (!DEFLECTION.test(sentence)) {
+      for (const phrase of LOOKAHEAD_PHRASES) {
+        const found = sentence.match(phrase);
+        if (found) {
+          reasons.push(`refers to later events ("${found[0]}")`);
+        }
+      }
+    }
+
+    return reasons;
+  }
+}
+
+// Checks an answer sentence by sentence as it streams. In strict mode text is held
+// back until its sentence is complete so offending sentences never reach the reader;
+// in warn mode text passes straight through and is only checked.
+export class SpoilerStreamGuard {
+  private pending = "";
+  private reasons = new Set<string>();
+  private flagged = false;
+  private redacted = false;
+  private previousHidden = false;
+  // whitespace after a hidden sentence, held until we know whether the next one is hidden too
+  private hiddenTrailing = "";
+  private shownText = false;
+
+  constructor(private mode: SpoilerMode, private position: ReadingPosition) {}
+
+  // Feed a delta; returns the text that can be shown now
+  push(delta: string): string {
+    if (this.mode === "off") {
+      return delta;
+    }
+
+    this.pending += delta;
+    const end = this.findCompleteText(this.pending);
+    const complete = this.pending.slice(0, end);
+    this.pending = this.pending.slice(end);
+
+    const output = this.processText(complete);
+    return this.mode === "warn" ? delta : output;
+  }
+
+  // End of the answer; returns whatever was still held back
+  flush(): string {
+    if (this.mode === "off") {
+      return "";
+    }
+
+    const rest = this.pending;
+    this.pending = "";
+    let output = this.processText(rest) + this.hiddenTrailing;
+    this.hiddenTrailing = "";
+
+    if (this.mode === "strict" && this.redacted && !this.shownText) {
+      output += `\n\n${STRICT_FALLBACK}`;
+      this.shownText = true;
+    }
+    return this.mode === "warn" ? "" : output;
+  }
+
+  getResult(): SpoilerCheck {
+    return {
+      mode: this.mode,
+      flagged: this.flagged,
+      redacted: this.redacted,
+      reasons: Array.from(this.reasons)
+    };
+  }
+
+  private processText(text: string): string {
+    let output = "";
+
+    for (const sentence of splitSentences(text)) {
+      if (!sentence.trim()) {
+        if (this.previousHidden) {
+          this.hiddenTrailing += sentence;
+        } else {
+          output += sentence;
+        }
+        continue;
+      }
+
+      const reasons = SpoilerGuard.findSpoilers(sentence, this.position);
+      if (reasons.length === 0) {
+        output += this.hiddenTrailing + sentence;
+        this.hiddenTrailing = "";
+        this.previousHidden = false;
+        this.shownText = true;
+        continue;
+      }
+
+      this.flagged = true;
+      reasons.forEach(reason => this.reasons.add(reason));
+
+      if (this.mode === "strict") {
+        this.redacted = true;
+        // Consecutive hidden sentences collapse into one placeholder, keeping any paragraph break
+        const trailing = sentence.match(/\s*$/)?.[0] || "";
+        if (!this.previousHidden) {
+          output += SPOILER_PLACEHOLDER;
+          this.hiddenTrailing = trailing;
+        } else if (trailing.includes("\n") || !this.hiddenTrailing.includes("\n")) {
+          this.hiddenTrailing = trailing;
+        }
+        this.previousHidden = true;
+      }
+    }
+
+    return output;
+  }
+
+  // Length of the prefix made of complete sentences
+  private findCompleteText(text: string): number {
+    const boundaries = sentenceBoundaries(text);
+    return boundaries.length > 0 ? boundaries[boundaries.length - 1] : 0;
+  }
+}
+
+// End offsets of complete sentences, including their trailing whitespace
+function sentenceBoundaries(text: string): number[] {
+  const boundaries: number[] = [];
+  const pattern = /[.!?]+["'”’)\]]*\s+|\n+/g;
+  let match: RegExpExecArray | null;
+
+  while ((match = pattern.exec(text)) !== null) {
+    const end = match.index + match[0].length;
+    if (match[0][0] !== "\n" && ABBREVIATION.test(text.slice(0, match.index + 1))) {
+      continue;
+    }
+    boundaries.push(end);
+  }
+  return boundaries;
+}
+
+function splitSentences(text: string): string[] {
+  const sentences: string[] = [];
+  let start = 0;
+  for (const end of sentenceBoundaries(text)) {
+    sentences.push(text.slice(start, end));
+    start = end;
+  }
+  if (start < text.length) {
+    sentences.push(text.slice(start));
+  }
+  return sentences;
+}
@@ -61,8 +61,24 @@ export interface AIRequest {
   stream?: boolean;
   /** Function definitions for function calling */
   functions?: AIFunction[];
+  /** Whether the model may, must or must not call one of `functions` (default 'auto') */
+  functionCall?: AIFunctionCallMode;
   /** System prompt */
   systemPrompt?: string;
+  /** Response cache options; not part of the cache key */
+  cache?: AIRequestCacheOptions;
+}
+
+/**
+ * Per-request response cache options
+ */
+export interface AIRequestCacheOptions {
+  /** Skip the cache for this request */
+  bypass?: boolean;
+  /** TTL in milliseconds, overriding the configured default */
+  ttl?: number;
+  /** Tags for invalidating the cached response later, e.g. `book:<uuid>` */
+  tags?: string[];
 }
 
 /**
@@ -73,15 +89,51 @@ export interface AIMessage {
   role: 'user' | 'assistant' | 'system' | 'function';
   /** Message content */
   content: string;
-  /** Function call details (if applicable) */
-  functionCall?: {
-    name: string;
-    arguments: Record<string, any>;
-  };
+  /**
+   * Function call details (if applicable). On assistant messages this is the
+   * call the model made; on function messages it is the call whose result
+   * `content` carries.
+   */
+  functionCall?: AIFunctionCall;
+  /** Every call made in an assistant turn, when the model called several functions at once */
+  functionCalls?: AIFunctionCall[];
   /** Metadata */
   metadata?: Record<string, any>;
 }
 
+/**
+ * A function call requested by the model
+ */
+export interface AIFunctionCall {
+  /** Provider call id, echoed back with the function result */
+  id?: string;
+  /** Function name */
+  name: string;
+  /** Parsed arguments */
+  arguments: Record<string, any>;
+}
+
+/**
+ * Partial function call received while streaming. Deltas with the same
+ * index belong to one call; argument fragments concatenate into JSON.
+ */
+export interface AIFunctionCallDelta {
+  /** Position of the call within the assistant turn */
+  index: number;
+  /** Provider call id (usually on the first delta only) */
+  id?: string;
+  /** Function name (usually on the first delta only) */
+  name?: string;
+  /** Fragment of the JSON-encoded arguments */
+  arguments?: string;
+}
+
+/**
+ * Function calling mode: let the model decide, disable calls, require a
+ * call, or force a specific function
+ */
+export type AIFunctionCallMode = 'auto' | 'none' | 'required' | { name: string };
+
 /**
  * Function definition for AI function calling
  */
@@ -122,11 +174,12 @@ export interface AIResponse {
     timestamp: number;
     /** Finish reason */
     finishReason: 'stop' | 'length' | 'function_call' | 'error';
-    /** Function call result (if applicable) */
-    functionCall?: {
-      name: string;
-      arguments: Record<string, any>;
-    };
+    /** First function call requested by the model (if applicable) */
+    functionCall?: AIFunctionCall;
+    /** All function calls requested by the model (if applicable) */
+    functionCalls?: AIFunctionCall[];
+    /** Whether the response was served from the response cache */
+    cached?: boolean;
   };
 }
 
@@ -148,6 +201,50 @@ export interface AIStreamChunk {
     outputTokens: number;
     totalTokens: number;
   };
+  /** Function call fragments received in this chunk */
+  functionCallDeltas?: AIFunctionCallDelta[];
+  /** Finish reason (final chunk only) */
+  finishReason?: AIResponse['metadata']['finishReason'];
+  /** Completed function calls assembled from the deltas (final chunk only) */
+  functionCalls?: AIFunctionCall[];
+}
+
+/**
+ * Embedding request - one vector is returned per input text
+ */
+export interface AIEmbeddingRequest {
+  /** Texts to embed */
+  input: string[];
+  /** Embedding model (provider default if omitted) */
+  model?: string;
+  /** How the vectors will be used; some providers embed queries and documents differently */
+  purpose?: 'document' | 'query';
+}
+
+/**
+ * Embedding response structure
+ */
+export interface AIEmbeddingResponse {
+  /** Vectors in the same order as the request input */
+  embeddings: number[][];
+  /** Model used for embedding */
+  model: string;
+  /** Provider used */
+  provider: AIProvider;
+  /** Vector length */
+  dimensions: number;
+  /** Usage statistics (estimated when the provider does not report it) */
+  usage: {
+    inputTokens: number;
+    totalTokens: number;
+  };
+  /** Response metadata */
+  metadata: {
+    /** Request duration in milliseconds */
+    duration: number;
+    /** Request timestamp */
+    timestamp: number;
+  };
 }
 
 /**
@@ -193,6 +290,12 @@ export interface IAIAdapter {
   
   /** Send a streaming request to the AI provider */
   streamRequest(request: AIRequest): AsyncGenerator<AIStreamChunk, void, unknown>;
+
+  /** Whether the provider offers an embedding model */
+  supportsEmbeddings(): boolean;
+
+  /** Embed texts for semantic search */
+  embed(request: AIEmbeddingRequest): Promise<AIEmbeddingResponse>;
   
   /** Get current rate limit status */
   getRateLimitStatus(): Promise<{
@@ -245,6 +348,63 @@ export interface CacheConfig {
   maxSize: number;
   /** Whether to enable cache */
   enabled: boolean;
+  /** Where cached responses are stored (default 'memory') */
+  backend?: AICacheBackendType;
+  /** Redis REST endpoint, for the 'redis' backend */
+  redisUrl?: string;
+  /** Redis REST token, for the 'redis' backend */
+  redisToken?: string;
+  /** Prefix for keys in shared stores */
+  keyPrefix?: string;
+}
+
+/**
+ * Response cache storage backends
+ */
+export type AICacheBackendType = 'memory' | 'postgres' | 'redis';
+
+/**
+ * A cached response
+ */
+export interface AICacheEntry {
+  response: AIResponse;
+  /** Expiry time in milliseconds since the epoch */
+  expiresAt: number;
+  /** Insertion time in milliseconds since the epoch */
+  createdAt: number;
+  tags: string[];
+}
+
+/**
+ * Storage for cached responses. Backends enforce the size limit themselves
+ * and treat expired entries as missing.
+ */
+export interface AICacheBackend {
+  readonly type: AICacheBackendType;
+  get(key: string): Promise<AICacheEntry | null>;
+  /** Store an entry, evicting the oldest entries beyond maxSize; returns how many were evicted */
+  set(key: string, entry: AICacheEntry, maxSize: number): Promise<number>;
+  /** Remove every entry carrying one of the tags; returns how many were removed */
+  invalidateTags(tags: string[]): Promise<number>;
+  clear(): Promise<void>;
+  size(): Promise<number>;
+}
+
+/**
+ * Response cache statistics for this process
+ */
+export interface AICacheStats {
+  backend: AICacheBackendType;
+  /** Entries in the backend when last checked */
+  size: number;
+  maxSize: number;
+  hits: number;
+  misses: number;
+  hitRate: number;
+  evictions: number;
+  invalidations: number;
+  /** Backend operations that failed; the request then went to a provider */
+  errors: number;
 }
 
 /**
@@ -298,6 +458,8 @@ export interface AIServiceStats {
   }>;
   /** Cache hit rate */
   cacheHitRate: number;
+  /** Response cache details */
+  cache?: AICacheStats;
   /** Total tokens used */
   totalTokensUsed: number;
   /** Estimated cost */
@@ -63,10 +63,174 @@ export interface ReadingSession {
   location?: string;
   reading_goal_met: boolean;
   status: string;
+  pause_intervals?: ReadingSessionPause[];
+  last_activity_at?: string;
   created_at?: string;
   updated_at?: string;
 }
 
+// A break in a reading session; the open one (no ended_at) is the current pause
+export interface ReadingSessionPause {
+  started_at: string;
+  ended_at?: string;
+  // paused by the server after the session went idle
+  auto?: boolean;
+}
+
+// Streaks count days in the user's timezone
+export interface ReadingStreaks {
+  current_streak_days: number;
+  longest_streak_days: number;
+  // freeze days bridging the current streak
+  freeze_days_used: number;
+  freezes_left_this_month: number;
+  last_reading_date: string | null;
+  timezone: string;
+}
+
+export type ReadingSeriesGranularity = 'day' | 'week' | 'month';
+
+export type ReadingBreakdownDimension = 'genre' | 'format' | 'language' | 'mood' | 'location';
+
+export interface ReadingSeriesPoint {
+  period: string; // 2025-03-14, week starting 2025-03-10, or 2025-03
+  start_date: string;
+  pages_read: number;
+  minutes: number;
+  sessions: number;
+  pages_per_hour: number | null; // Only sessions with a recorded duration count
+}
+
+export interface ReadingHeatmapDay {
+  date: string;
+  pages_read: number;
+  minutes: number;
+  level: 0 | 1 | 2 | 3 | 4; // Relative to the busiest day in the range
+}
+
+export interface ReadingBreakdownEntry {
+  key: string; // "unknown" when the book or session has no value
+  pages_read: number;
+  minutes: number;
+  sessions: number;
+  books: number;
+}
+
+export interface ReadingAnalytics {
+  from: string;
+  to: string;
+  granularity: ReadingSeriesGranularity;
+  timezone: string;
+  totals: {
+    pages_read: number;
+    minutes: number;
+    sessions: number;
+    reading_days: number;
+    pages_per_hour: number | null;
+  };
+  series: ReadingSeriesPoint[];
+  heatmap: ReadingHeatmapDay[];
+  breakdowns: Record<ReadingBreakdownDimension, ReadingBreakdownEntry[]>;
+}
+
+export interface ReadingRecapBook {
+  book_uuid: string;
+  title: string;
+  author: string;
+  cover_url?: string;
+  page_count?: number;
+  personal_rating?: number;
+  date_completed: string; // Local date the book was finished
+}
+
+export interface ReadingRecapCount {
+  name: string;
+  books: number;
+}
+
+export interface ReadingRecapMonth {
+  month: string; // 2025-03
+  books_finished: number;
+  pages_read: number;
+  minutes: number;
+}
+
+export interface ReadingRecapStats {
+  year: number;
+  timezone: string;
+  books_finished: number;
+  pages_finished: number; // Page counts of the finished books
+  pages_read: number; // Pages logged in sessions during the year
+  minutes_read: number;
+  sessions: number;
+  reading_days: number;
+  average_rating: number | null;
+  longest_book: ReadingRecapBook | null;
+  shortest_book: ReadingRecapBook | null;
+  first_book: ReadingRecapBook | null;
+  last_book: ReadingRecapBook | null;
+  top_rated_books: ReadingRecapBook[];
+  top_genres: ReadingRecapCount[];
+  top_authors: ReadingRecapCount[];
+  months: ReadingRecapMonth[];
+  busiest_month: ReadingRecapMonth | null;
+  favorite_mood: string | null;
+  favorite_location: string | null;
+}
+
+export interface ReadingRecap {
+  id?: number;
+  uuid: string;
+  user_uuid: string;
+  year: number;
+  stats: ReadingRecapStats;
+  narrative?: string | null;
+  is_public: boolean;
+  created_at?: string;
+  updated_at?: string;
+}
+
+export interface PublicReadingRecap {
+  uuid: string;
+  year: number;
+  stats: ReadingRecapStats;
+  narrative?: string;
+  // private recaps are only returned to their owner
+  is_public: boolean;
+  // whether the viewer is the owner; the owner's uuid is never exposed
+  is_owner: boolean;
+  owner: {
+    nickname?: string;
+    avatar_url?: string;
+  };
+}
+
+export type ReadingGoalType = 'books_per_year' | 'pages_per_month' | 'minutes_per_day';
+
+export interface ReadingGoal {
+  id?: number;
+  uuid: string;
+  user_uuid: string;
+  goal_type: ReadingGoalType;
+  target_value: number;
+  is_active: boolean;
+  created_at?: string;
+  updated_at?: string;
+}
+
+export interface ReadingGoalProgress {
+  goal: ReadingGoal;
+  period_start: string;
+  period_end: string;
+  current_value: number;
+  expected_value: number; // Where the user should be by now to finish on time
+  projected_value: number; // Where the user will end up at the current rate
+  percentage: number;
+  difference: number; // current - expected, positive when ahead
+  status: 'completed' | 'ahead' | 'on_track' | 'behind';
+  pace_message: string;
+}
+
 export interface ReadingNote {
   id?: number;
   uuid: string;
@@ -88,6 +252,49 @@ export interface ReadingNote {
   updated_at?: string;
 }
 
+export type ReadingNoteType = ReadingNote['note_type'];
+
+export interface ReadingNoteFormData {
+  note_type: ReadingNoteType;
+  content: string;
+  context?: string;
+  session_uuid?: string;
+  page_number?: number;
+  chapter?: string;
+  position_start?: number;
+  position_end?: number;
+  color?: string;
+  is_private?: boolean;
+  is_favorite?: boolean;
+  tags?: string[];
+}
+
+// Changes to a note; null clears an optional field
+export interface ReadingNoteUpdateData {
+  note_type?: ReadingNoteType;
+  content?: string;
+  context?: string | null;
+  session_uuid?: string | null;
+  page_number?: number | null;
+  chapter?: string | null;
+  position_start?: number | null;
+  position_end?: number | null;
+  color?: string | null;
+  is_private?: boolean;
+  is_favorite?: boolean;
+  tags?: string[] | null;
+}
+
+export interface ReadingNoteFilters {
+  note_type?: ReadingNoteType;
+  chapter?: string;
+  tag?: string;
+  is_favorite?: boolean;
+  session_uuid?: string;
+  page_from?: number;
+  page_to?: number;
+}
+
 export interface BookList {
   id?: number;
   uuid: string;
@@ -104,6 +311,31 @@ export interface BookList {
   updated_at?: string;
   items?: BookListItem[];
   book_count?: number;
+  preview_books?: Pick<Book, 'uuid' | 'title' | 'author' | 'cover_url'>[];
+}
+
+// Public view of a shared list; personal reading data is left out
+export interface PublicBookList {
+  uuid: string;
+  name: string;
+  description?: string;
+  cover_url?: string;
+  tags?: string;
+  created_at?: string;
+  updated_at?: string;
+  // whether the viewer is the owner; the owner's uuid is never exposed
+  is_owner: boolean;
+  owner: {
+    nickname?: string;
+    avatar_url?: string;
+  };
+  book_count: number;
+  items: {
+    book_uuid: string;
+    sort_order: number;
+    added_at?: string;
+    book: Book;
+  }[];
 }
 
 export interface BookListItem {
@@ -116,8 +348,10 @@ export interface BookListItem {
   personal_rating?: number;
   personal_review?: string;
   reading_status: 'want_to_read' | 'currently_reading' | 'read' | 'paused' | 'abandoned';
+  status_changed_at?: string;
   date_started?: string;
   date_completed?: string;
+  dnf_reason?: string;
   progress_percentage: number;
   notes?: string;
   book?: Book;
@@ -128,9 +362,10 @@ export interface ReadingProgress {
   current_page: number;
   total_pages: number;
   progress_percentage: number;
-  reading_status: 'want_to_read' | 'currently_reading' | 'read' | 'paused' | 'abandoned';
+  reading_status: BookListItem['reading_status'];
   date_started?: string;
   date_completed?: string;
+  dnf_reason?: string;
   total_reading_time_minutes?: number;
   sessions_count?: number;
   last_session_date?: string;
@@ -177,4 +412,146 @@ export interface ExternalBookResult {
   };
   publisher?: string;
   source: 'google_books' | 'open_library';
-}
\ No newline at end of file
+}
+
+export interface BookLookupQuery {
+  query?: string;
+  title?: string;
+  author?: string;
+  isbn?: string;
+  language?: string;
+  subject?: string;
+  limit?: number;
+}
+
+export type LibraryImportFormat = 'goodreads' | 'storygraph' | 'booksoflife';
+
+export interface LibraryImportRow {
+  row_number: number;
+  title: string;
+  author: string;
+  co_authors?: string;
+  isbn_10?: string;
+  isbn_13?: string;
+  publisher?: string;
+  page_count?: number;
+  publication_year?: number;
+  format?: string;
+  goodreads_id?: string;
+  reading_status: BookListItem['reading_status'];
+  personal_rating?: number;
+  personal_review?: string;
+  date_added?: string;
+  date_started?: string;
+  date_completed?: string;
+}
+
+export interface LibraryImportRowResult {
+  row_number: number;
+  title: string;
+  author: string;
+  action: 'create' | 'match' | 'error';
+  matched_by?: 'isbn_13' | 'isbn_10' | 'title_author' | 'import_file';
+  book_uuid?: string;
+  library_action?: 'add' | 'update';
+  reading_status?: BookListItem['reading_status'];
+  error?: string;
+}
+
+export interface LibraryImportResult {
+  format: LibraryImportFormat;
+  dry_run: boolean;
+  total_rows: number;
+  books_created: number;
+  books_matched: number;
+  library_added: number;
+  library_updated: number;
+  errors: number;
+  rows: LibraryImportRowResult[];
+}
+
+export type LibraryExportFormat = 'json' | 'csv' | 'goodreads';
+
+export interface LibraryExportMembership {
+  list_uuid: string;
+  list_name: string;
+  list_type: BookList['list_type'];
+  is_default: boolean;
+  reading_status: BookListItem['reading_status'];
+  personal_rating?: number;
+  personal_review?: string;
+  date_started?: string;
+  date_completed?: string;
+  added_at?: string;
+  progress_percentage: number;
+  sort_order: number;
+  notes?: string;
+}
+
+export interface LibraryExportEntry {
+  book: Book;
+  memberships: LibraryExportMembership[];
+  sessions: ReadingSession[];
+  notes: ReadingNote[];
+}
+
+export interface LibraryExport {
+  format: 'booksoflife';
+  version: number;
+  exported_at: string;
+  entries: LibraryExportEntry[];
+}
+
+export type BookTextFormat = 'epub' | 'txt' | 'pdf';
+
+export interface BookTextSource {
+  id?: number;
+  uuid: string;
+  user_uuid: string;
+  book_uuid: string;
+  filename: string;
+  format: BookTextFormat;
+  byte_size: number;
+  status: 'processing' | 'ready' | 'failed';
+  error?: string;
+  chunk_count: number;
+  page_count?: number;
+  pages_estimated: boolean;
+  embedding_provider?: string;
+  embedding_model?: string;
+  embedding_dimensions?: number;
+  created_at?: string;
+  updated_at?: string;
+}
+
+export interface BookTextPassage {
+  chunk_uuid: string;
+  page_start: number;
+  page_end: number;
+  chapter?: string;
+  content: string;
+  score: number;
+}
+
+export type BookAIArtifactType = 'overview' | 'chapter_summary';
+
+export interface BookAIArtifact {
+  id?: number;
+  uuid: string;
+  book_uuid: string;
+  artifact_type: BookAIArtifactType;
+  artifact_key: string;
+  language: string;
+  model: string;
+  provider?: string;
+  version: number;
+  is_current: boolean;
+  status: 'pending' | 'ready' | 'failed';
+  content?: string;
+  error?: string;
+  input_tokens?: number;
+  output_tokens?: number;
+  generated_by?: string;
+  created_at?: string;
+  updated_at?: string;
+}
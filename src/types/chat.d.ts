@@ -42,6 +42,7 @@ export interface ChatSession {
   preview?: string
   tags?: string[]
   isArchived?: boolean
+  spoilerMode?: 'strict' | 'warn' | 'off'
 }
 
 /**
@@ -165,9 +166,10 @@ export interface ChatRequest {
  */
 export interface ChatHistoryFilters {
   bookId?: string
+  // Either bound may be left open
   dateRange?: {
-    start: Date
-    end: Date
+    start?: Date
+    end?: Date
   }
   searchQuery?: string
   tags?: string[]
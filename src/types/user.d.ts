@@ -15,6 +15,7 @@ export interface User {
   invited_by?: string;
   is_affiliate?: boolean;
   is_admin?: boolean;
+  timezone?: string;
 }
 
 export interface UserCredits {